@@ -0,0 +1,82 @@
+/**
+ * Audivia service worker
+ * Keeps the mobile app shell available offline so downloaded audiobooks can be
+ * played without a connection. Audio itself is not cached here: downloads are
+ * stored encrypted in IndexedDB by the page (see client/src/lib/offline-downloads.ts).
+ */
+
+const SHELL_CACHE = "audivia-shell-v1";
+const SHELL_URLS = ["/mobile", "/logo.png", "/favicon.png"];
+
+// The page that registers the worker has already loaded its scripts, so they are
+// picked out of the HTML here; otherwise they would only be cached on the next visit
+async function cacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+
+  const page = await cache.match("/mobile");
+  const html = page ? await page.text() : "";
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+  await cache.addAll(assets);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith("audivia-") && key !== SHELL_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first so a deploy is picked up as soon as there is a connection
+async function handleNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put("/mobile", response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/mobile");
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Built assets have content hashes in their names, so a cached copy never goes stale
+async function handleAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Only the mobile app works offline; the rest of the site and the API always hit the network
+  if (request.mode === "navigate" && url.pathname === "/mobile") {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (url.pathname.startsWith("/assets/") || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(handleAsset(request));
+  }
+});
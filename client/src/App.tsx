@@ -8,6 +8,7 @@ import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { AuthProvider } from "@/components/auth-provider";
+import { StepUpDialog } from "@/components/step-up-dialog";
 import { ProtectedRoute } from "@/components/protected-route";
 import { UserMenu } from "@/components/user-menu";
 import { Footer } from "@/components/footer";
@@ -23,11 +24,13 @@ import Register from "@/pages/register";
 import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
 import VerifyEmail from "@/pages/verify-email";
+import UnlockAccount from "@/pages/unlock-account";
 import EmergencyReset from "@/pages/emergency-reset";
 import Setup from "@/pages/setup";
 import AdminDashboard from "@/pages/admin-dashboard";
 import AdminUsers from "@/pages/admin-users";
 import AdminAudiobooks from "@/pages/admin-audiobooks";
+import AdminSeries from "@/pages/admin-series";
 import AdminChapters from "@/pages/admin-chapters";
 import AdminEmailConfig from "@/pages/admin-email-config";
 import AdminPayPalConfig from "@/pages/admin-paypal-config";
@@ -37,11 +40,22 @@ import AdminSubscriptions from "@/pages/admin-subscriptions";
 import AdminImport from "@/pages/admin-import";
 import AdminCustomers from "@/pages/admin-customers";
 import AdminDiscountCodes from "@/pages/admin-discount-codes";
+import AdminTaxRules from "@/pages/admin-tax-rules";
+import AdminRoyalties from "@/pages/admin-royalties";
+import AdminAuditLog from "@/pages/admin-audit-log";
+import AdminAccountDeletions from "@/pages/admin-account-deletions";
+import CreatorEarnings from "@/pages/creator-earnings";
 import AdminExternalServices from "@/pages/admin-external-services";
+import AdminJobs from "@/pages/admin-jobs";
 import Profile from "@/pages/profile";
 import UserGuide from "@/pages/user-guide";
 import MyPlaylists from "@/pages/my-playlists";
 import PlaylistDetail from "@/pages/playlist-detail";
+import SeriesDetail from "@/pages/series-detail";
+import GiftRedeem from "@/pages/gift-redeem";
+import InvitationAccept from "@/pages/invitation-accept";
+import HouseholdInvitation from "@/pages/household-invitation";
+import ManageInvitations from "@/pages/manage-invitations";
 import Subscriptions from "@/pages/subscriptions";
 import Cart from "@/pages/cart";
 import Checkout from "@/pages/checkout";
@@ -50,7 +64,7 @@ import NotFound from "@/pages/not-found";
 
 function Router() {
   const [location] = useLocation();
-  const isAuthPage = location === "/login" || location === "/register" || location === "/forgot-password" || location.startsWith("/reset-password") || location.startsWith("/verify-email") || location === "/emergency-reset";
+  const isAuthPage = location === "/login" || location === "/register" || location === "/forgot-password" || location.startsWith("/reset-password") || location.startsWith("/verify-email") || location.startsWith("/unlock-account") || location === "/emergency-reset";
   const isMobilePage = location === "/mobile";
   const isSetupPage = location === "/setup";
 
@@ -75,6 +89,7 @@ function Router() {
             <Route path="/forgot-password" component={ForgotPassword} />
             <Route path="/reset-password" component={ResetPassword} />
             <Route path="/verify-email" component={VerifyEmail} />
+            <Route path="/unlock-account" component={UnlockAccount} />
             <Route path="/emergency-reset" component={EmergencyReset} />
           </Switch>
         </div>
@@ -109,6 +124,10 @@ function Router() {
             <Switch>
               <Route path="/" component={Home} />
               <Route path="/audiobook/:id" component={AudiobookDetail} />
+              <Route path="/series/:id" component={SeriesDetail} />
+              <Route path="/gift/:token" component={GiftRedeem} />
+              <Route path="/invitation/:token" component={InvitationAccept} />
+              <Route path="/household/invitation/:token" component={HouseholdInvitation} />
               <Route path="/chapter/:id" component={ChapterPlayer} />
               <Route path="/explore" component={Explore} />
               <Route path="/library" component={Library} />
@@ -129,6 +148,11 @@ function Router() {
                 </ProtectedRoute>
               </Route>
               <Route path="/playlists/:id" component={PlaylistDetail} />
+              <Route path="/manage-invitations/:contentType/:id">
+                <ProtectedRoute>
+                  <ManageInvitations />
+                </ProtectedRoute>
+              </Route>
               <Route path="/settings" component={Settings} />
               <Route path="/user-guide" component={UserGuide} />
               <Route path="/profile">
@@ -136,6 +160,11 @@ function Router() {
                   <Profile />
                 </ProtectedRoute>
               </Route>
+              <Route path="/creator/earnings">
+                <ProtectedRoute requireRole="CREATOR">
+                  <CreatorEarnings />
+                </ProtectedRoute>
+              </Route>
               <Route path="/admin">
                 <ProtectedRoute requireRole="ADMIN">
                   <AdminDashboard />
@@ -156,6 +185,11 @@ function Router() {
                   <AdminAudiobooks />
                 </ProtectedRoute>
               </Route>
+              <Route path="/admin/series">
+                <ProtectedRoute requireRole="ADMIN">
+                  <AdminSeries />
+                </ProtectedRoute>
+              </Route>
               <Route path="/admin/chapters">
                 <ProtectedRoute requireRole="ADMIN">
                   <AdminChapters />
@@ -196,11 +230,36 @@ function Router() {
                   <AdminDiscountCodes />
                 </ProtectedRoute>
               </Route>
+              <Route path="/admin/tax-rules">
+                <ProtectedRoute requireRole="ADMIN">
+                  <AdminTaxRules />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/admin/royalties">
+                <ProtectedRoute requireRole="ADMIN">
+                  <AdminRoyalties />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/admin/account-deletions">
+                <ProtectedRoute requireRole="ADMIN">
+                  <AdminAccountDeletions />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/admin/audit-log">
+                <ProtectedRoute requireRole="ADMIN">
+                  <AdminAuditLog />
+                </ProtectedRoute>
+              </Route>
               <Route path="/admin/external-services">
                 <ProtectedRoute requireRole="ADMIN">
                   <AdminExternalServices />
                 </ProtectedRoute>
               </Route>
+              <Route path="/admin/jobs">
+                <ProtectedRoute requireRole="ADMIN">
+                  <AdminJobs />
+                </ProtectedRoute>
+              </Route>
               <Route component={NotFound} />
             </Switch>
           </div>
@@ -237,6 +296,7 @@ function App() {
               <Router />
             )}
             <Toaster />
+            <StepUpDialog />
           </AuthProvider>
         </TooltipProvider>
       </ThemeProvider>
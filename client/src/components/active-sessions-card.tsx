@@ -0,0 +1,128 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Laptop, Loader2, LogOut, MonitorSmartphone, Smartphone, Tablet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { UserSessionInfo } from "@shared/schema";
+
+const DEVICE_ICONS: Record<UserSessionInfo["deviceType"], typeof Laptop> = {
+  desktop: Laptop,
+  mobile: Smartphone,
+  tablet: Tablet,
+};
+
+function formatDateTime(date: string | Date): string {
+  return new Date(date).toLocaleString("es-ES", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Devices signed in to the account, on the profile page
+ * Any of them except the current one can be signed out from here.
+ */
+export function ActiveSessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<UserSessionInfo[]>({
+    queryKey: ["/api/profile/sessions"],
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/profile/sessions"] });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => apiRequest("DELETE", `/api/profile/sessions/${sessionId}`),
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Sesion cerrada en el dispositivo" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo cerrar la sesion" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => apiRequest<{ revoked: number }>("POST", "/api/profile/sessions/revoke-others"),
+    onSuccess: (data) => {
+      onChanged();
+      toast({ title: "Sesiones cerradas", description: `Se ha cerrado la sesion en ${data.revoked} dispositivo(s)` });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudieron cerrar las sesiones" });
+    },
+  });
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <Card data-testid="card-active-sessions">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="w-5 h-5" />
+          Mis Dispositivos
+        </CardTitle>
+        <CardDescription>
+          Dispositivos con la sesion iniciada. Si no reconoces alguno, cierra su sesion y cambia tu contraseña.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="divide-y rounded-lg border" data-testid="list-sessions">
+              {sessions.map((session) => {
+                const DeviceIcon = DEVICE_ICONS[session.deviceType];
+                return (
+                  <div key={session.id} className="flex items-center justify-between gap-4 p-3" data-testid={`row-session-${session.id}`}>
+                    <div className="flex items-center gap-3">
+                      <DeviceIcon className="w-5 h-5 text-muted-foreground" />
+                      <div>
+                        <p className="text-sm font-medium flex items-center gap-2">
+                          {session.browser} en {session.os}
+                          {session.current && <Badge variant="secondary">Este dispositivo</Badge>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {session.ipAddress ?? "IP desconocida"} · Ultima actividad: {formatDateTime(session.lastActiveAt)}
+                          {session.signedInAt && ` · Inicio: ${formatDateTime(session.signedInAt)}`}
+                        </p>
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => revokeMutation.mutate(session.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-session-${session.id}`}
+                      >
+                        <LogOut className="w-4 h-4 mr-1" />
+                        Cerrar sesion
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {otherSessions.length > 0 && (
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => revokeOthersMutation.mutate()}
+                disabled={revokeOthersMutation.isPending}
+                data-testid="button-revoke-other-sessions"
+              >
+                {revokeOthersMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+                Cerrar sesion en los demas dispositivos
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
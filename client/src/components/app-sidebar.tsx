@@ -1,4 +1,4 @@
-import { Home, Compass, Library, Shield, Users, BookOpen, Play, Mail, ListMusic, CreditCard, FileArchive, Wallet, TrendingUp, ShoppingCart, Tag, ExternalLink, Github } from "lucide-react";
+import { Home, Compass, Library, Shield, Users, BookOpen, Play, Mail, ListMusic, CreditCard, FileArchive, Wallet, TrendingUp, ShoppingCart, Tag, Percent, ExternalLink, Github, Layers, ListChecks, HandCoins, PiggyBank, ScrollText, UserX } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -61,6 +61,16 @@ const adminMainItems = [
   },
 ];
 
+// Creador: ingresos y liquidaciones
+const creatorItems = [
+  {
+    title: "Mis Ingresos",
+    url: "/creator/earnings",
+    icon: PiggyBank,
+    testId: "link-creator-earnings",
+  },
+];
+
 // Gestión comercial: clientes, compras, facturas, suscripciones
 const adminComercialItems = [
   {
@@ -81,9 +91,21 @@ const adminComercialItems = [
     icon: Tag,
     testId: "link-admin-discount-codes",
   },
+  {
+    title: "Impuestos",
+    url: "/admin/tax-rules",
+    icon: Percent,
+    testId: "link-admin-tax-rules",
+  },
+  {
+    title: "Regalias",
+    url: "/admin/royalties",
+    icon: HandCoins,
+    testId: "link-admin-royalties",
+  },
 ];
 
-// Contenido: audiolibros, capítulos, importar
+// Contenido: audiolibros, series, capítulos, importar
 const adminContentItems = [
   {
     title: "Audiolibros",
@@ -91,6 +113,12 @@ const adminContentItems = [
     icon: BookOpen,
     testId: "link-admin-audiobooks",
   },
+  {
+    title: "Series",
+    url: "/admin/series",
+    icon: Layers,
+    testId: "link-admin-series",
+  },
   {
     title: "Capitulos",
     url: "/admin/chapters",
@@ -137,6 +165,24 @@ const adminSystemItems = [
     icon: ExternalLink,
     testId: "link-admin-external-services",
   },
+  {
+    title: "Tareas",
+    url: "/admin/jobs",
+    icon: ListChecks,
+    testId: "link-admin-jobs",
+  },
+  {
+    title: "Eliminar Cuentas",
+    url: "/admin/account-deletions",
+    icon: UserX,
+    testId: "link-admin-account-deletions",
+  },
+  {
+    title: "Auditoria",
+    url: "/admin/audit-log",
+    icon: ScrollText,
+    testId: "link-admin-audit-log",
+  },
 ];
 
 export function AppSidebar() {
@@ -144,6 +190,7 @@ export function AppSidebar() {
   const { user } = useAuth();
 
   const isAdmin = user && user.role === "ADMIN";
+  const isCreator = user && (user.role === "CREATOR" || user.role === "ADMIN");
 
   return (
     <Sidebar className="pt-[57px]">
@@ -170,6 +217,30 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {isCreator && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Creador</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {creatorItems.map((item) => (
+                  <SidebarMenuItem key={item.url}>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={location === item.url}
+                      data-testid={item.testId}
+                    >
+                      <Link href={item.url}>
+                        <item.icon className="w-4 h-4" />
+                        <span>{item.title}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         {isAdmin && (
           <>
             <SidebarGroup>
@@ -41,6 +41,8 @@ import {
   ChevronUp,
   X
 } from "lucide-react";
+import { useProgressSync } from "@/hooks/use-progress-sync";
+import { BookmarksPanel } from "@/components/bookmarks-panel";
 import type { Episode } from "@shared/schema";
 
 interface AudioPlayerProps {
@@ -96,6 +98,8 @@ export function AudioPlayer({ episode, podcastTitle, podcastCover }: AudioPlayer
   const listenedThresholdReached = useRef(false);
   const sleepTimerInterval = useRef<NodeJS.Timeout | null>(null);
 
+  useProgressSync(episode.id, audioRef, duration);
+
   // Mark episode as listened when 80% is reached
   useEffect(() => {
     if (duration > 0 && currentTime / duration >= 0.8 && !listenedThresholdReached.current) {
@@ -452,6 +456,20 @@ export function AudioPlayer({ episode, podcastTitle, podcastCover }: AudioPlayer
               </DropdownMenuContent>
             </DropdownMenu>
 
+            {/* Bookmarks */}
+            <BookmarksPanel
+              chapterId={episode.id}
+              audiobookId={episode.audiobookId}
+              currentTime={currentTime}
+              onSeek={(seconds) => {
+                if (audioRef.current) {
+                  audioRef.current.currentTime = seconds;
+                }
+              }}
+              triggerVariant="ghost"
+              triggerClassName="h-8 w-8"
+            />
+
             {/* Jump to Time */}
             <Dialog open={jumpDialogOpen} onOpenChange={setJumpDialogOpen}>
               <DialogTrigger asChild>
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { BadgeCheck, Loader2, Pencil, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { StarRating, StarRatingInput } from "@/components/star-rating";
+import { useAuth } from "@/components/auth-provider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AudiobookReviews as AudiobookReviewsData, Review } from "@shared/schema";
+
+function ReviewForm({ audiobookId, review, onDone }: { audiobookId: string; review: Review | null; onDone: () => void }) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState<number | null>(review?.rating ?? null);
+  const [storyRating, setStoryRating] = useState<number | null>(review?.storyRating ?? null);
+  const [narrationRating, setNarrationRating] = useState<number | null>(review?.narrationRating ?? null);
+  const [body, setBody] = useState(review?.body || "");
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = { rating, storyRating, narrationRating, body: body.trim() || null };
+      return review
+        ? apiRequest<Review>("PATCH", `/api/reviews/${review.id}`, data)
+        : apiRequest<Review>("POST", `/api/audiobooks/${audiobookId}/reviews`, data);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audiobooks", audiobookId] });
+      toast({
+        title: "Reseña guardada",
+        description: saved.status === "APPROVED"
+          ? "Gracias por tu valoracion"
+          : "Tu reseña se publicara cuando la revise un moderador",
+      });
+      onDone();
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo guardar la reseña",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4" data-testid="form-review">
+      <div className="space-y-1">
+        <Label>Valoracion general</Label>
+        <div>
+          <StarRatingInput value={rating} onChange={setRating} label="Valoracion general" testId="input-rating" />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <div className="space-y-1">
+          <Label>Historia (opcional)</Label>
+          <div>
+            <StarRatingInput value={storyRating} onChange={setStoryRating} label="Historia" testId="input-story-rating" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Narracion (opcional)</Label>
+          <div>
+            <StarRatingInput value={narrationRating} onChange={setNarrationRating} label="Narracion" testId="input-narration-rating" />
+          </div>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="review-body">Tu opinion (opcional)</Label>
+        <Textarea
+          id="review-body"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          maxLength={5000}
+          rows={4}
+          placeholder="¿Que te ha parecido este audiolibro?"
+          data-testid="input-review-body"
+        />
+        <p className="text-xs text-muted-foreground">Las reseñas con texto se publican tras revisarlas un moderador</p>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={!rating || saveMutation.isPending}
+          data-testid="button-save-review"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {review ? "Guardar cambios" : "Publicar reseña"}
+        </Button>
+        {review && (
+          <Button variant="outline" onClick={onDone}>
+            Cancelar
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const STATUS_NOTES: Partial<Record<Review["status"], string>> = {
+  PENDING_APPROVAL: "Pendiente de moderacion",
+  REJECTED: "Rechazada por un moderador",
+};
+
+/**
+ * Rating summary, the caller's own review and the approved reviews of an audiobook.
+ */
+export function AudiobookReviews({ audiobookId }: { audiobookId: string }) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data, isLoading } = useQuery<AudiobookReviewsData>({
+    queryKey: ["/api/audiobooks", audiobookId, "reviews"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (reviewId: string) => apiRequest("DELETE", `/api/reviews/${reviewId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audiobooks", audiobookId] });
+      toast({ title: "Reseña eliminada" });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo eliminar la reseña",
+      });
+    },
+  });
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  const { summary, reviews, myReview } = data;
+  const otherReviews = reviews.filter(review => review.id !== myReview?.id);
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-8">
+        <h2 className="font-serif text-2xl font-bold">
+          Valoraciones ({summary.ratingCount})
+        </h2>
+
+        {summary.ratingCount > 0 && (
+          <div className="flex flex-col md:flex-row gap-8">
+            <div className="text-center md:w-48 space-y-1">
+              <p className="text-5xl font-bold" data-testid="text-rating-average">{summary.ratingAverage.toFixed(1)}</p>
+              <StarRating value={summary.ratingAverage} starClassName="w-5 h-5" />
+              <p className="text-sm text-muted-foreground">
+                {summary.ratingCount} {summary.ratingCount === 1 ? "valoracion" : "valoraciones"}
+              </p>
+            </div>
+            <div className="flex-1 space-y-1">
+              {[5, 4, 3, 2, 1].map((stars) => (
+                <div key={stars} className="flex items-center gap-3 text-sm">
+                  <span className="w-4 text-right">{stars}</span>
+                  <Progress value={(summary.distribution[stars - 1] / summary.ratingCount) * 100} className="h-2 flex-1" />
+                  <span className="w-8 text-muted-foreground">{summary.distribution[stars - 1]}</span>
+                </div>
+              ))}
+            </div>
+            <div className="md:w-48 space-y-2 text-sm">
+              {summary.storyAverage !== null && (
+                <div>
+                  <p className="text-muted-foreground">Historia</p>
+                  <StarRating value={summary.storyAverage} />
+                </div>
+              )}
+              {summary.narrationAverage !== null && (
+                <div>
+                  <p className="text-muted-foreground">Narracion</p>
+                  <StarRating value={summary.narrationAverage} />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {!isAuthenticated ? (
+          <p className="text-sm text-muted-foreground">
+            <Link href="/login" className="text-primary hover:underline">Inicia sesion</Link> para valorar este audiolibro
+          </p>
+        ) : !myReview || isEditing ? (
+          <div className="border rounded-lg p-4">
+            <h3 className="font-semibold mb-4">{myReview ? "Editar tu reseña" : "Escribe una reseña"}</h3>
+            <ReviewForm audiobookId={audiobookId} review={myReview} onDone={() => setIsEditing(false)} />
+          </div>
+        ) : (
+          <div className="border rounded-lg p-4 space-y-2" data-testid="my-review">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">Tu reseña</span>
+                <StarRating value={myReview.rating} />
+                {STATUS_NOTES[myReview.status] && (
+                  <Badge variant={myReview.status === "REJECTED" ? "destructive" : "secondary"}>
+                    {STATUS_NOTES[myReview.status]}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => setIsEditing(true)} data-testid="button-edit-review">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(myReview.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid="button-delete-review"
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+            {myReview.body && <p className="text-muted-foreground whitespace-pre-line">{myReview.body}</p>}
+          </div>
+        )}
+
+        {otherReviews.some(review => review.body) && (
+          <div className="space-y-6">
+            {otherReviews.filter(review => review.body).map((review) => (
+              <div key={review.id} className="space-y-2" data-testid={`review-${review.id}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <StarRating value={review.rating} />
+                  <span className="font-medium">{review.user.username}</span>
+                  {review.isVerifiedPurchase && (
+                    <span className="flex items-center gap-1 text-xs text-primary">
+                      <BadgeCheck className="w-3 h-3" />
+                      Compra verificada
+                    </span>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(review.createdAt).toLocaleDateString("es-ES")}
+                  </span>
+                </div>
+                {(review.storyRating || review.narrationRating) && (
+                  <div className="flex gap-4 text-xs text-muted-foreground">
+                    {review.storyRating && <span>Historia: {review.storyRating}/5</span>}
+                    {review.narrationRating && <span>Narracion: {review.narrationRating}/5</span>}
+                  </div>
+                )}
+                <p className="text-muted-foreground whitespace-pre-line">{review.body}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
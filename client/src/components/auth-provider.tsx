@@ -7,7 +7,9 @@ interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with twoFactorRequired when the account asks for a code before signing in
+  login: (email: string, password: string) => Promise<{ twoFactorRequired: boolean }>;
+  verifyTwoFactor: (code: string) => Promise<void>;
   register: (username: string, email: string, password: string, role: "LISTENER" | "CREATOR") => Promise<void>;
   logout: () => Promise<void>;
 }
@@ -30,12 +32,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/auth/login", { email, password }, { raw: true });
       return res.json();
     },
-    onSuccess: async () => {
+    onSuccess: async (data) => {
+      if (data?.twoFactorRequired) return;
       // Refetch from server to get fresh session data
       await queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
     },
   });
 
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/auth/login/2fa", { code }, { raw: true });
+      return res.json();
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+  });
+
   const registerMutation = useMutation({
     mutationFn: async ({ username, email, password, role }: { username: string; email: string; password: string; role: "LISTENER" | "CREATOR" }) => {
       const res = await apiRequest("POST", "/api/auth/register", { username, email, password, role }, { raw: true });
@@ -68,7 +81,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const login = async (email: string, password: string) => {
-    await loginMutation.mutateAsync({ email, password });
+    const data = await loginMutation.mutateAsync({ email, password });
+    return { twoFactorRequired: !!data?.twoFactorRequired };
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    await verifyTwoFactorMutation.mutateAsync(code);
   };
 
   const register = async (username: string, email: string, password: string, role: "LISTENER" | "CREATOR") => {
@@ -86,6 +104,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         login,
+        verifyTwoFactor,
         register,
         logout,
       }}
@@ -0,0 +1,367 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Bookmark as BookmarkIcon, Check, Download, Link2, Link2Off, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useAuth } from "@/components/auth-provider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, type ApiError } from "@/lib/queryClient";
+import { BOOKMARK_CLIP_MAX_SECONDS, BOOKMARK_CLIP_MAX_SHARED_PER_CHAPTER, type Bookmark, type BookmarkClipShare } from "@shared/schema";
+
+interface BookmarksPanelProps {
+  chapterId: string;
+  audiobookId: string;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  triggerClassName?: string;
+  triggerVariant?: "outline" | "ghost";
+}
+
+const CLIP_LENGTHS = [15, 30, BOOKMARK_CLIP_MAX_SECONDS];
+
+function formatPosition(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function formatRange(bookmark: Bookmark): string {
+  const start = formatPosition(bookmark.positionSeconds);
+  return bookmark.endPositionSeconds != null ? `${start} - ${formatPosition(bookmark.endPositionSeconds)}` : start;
+}
+
+function BookmarkItem({ bookmark, onSeek, onChanged }: { bookmark: Bookmark; onSeek: (seconds: number) => void; onChanged: () => void }) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [note, setNote] = useState(bookmark.note || "");
+
+  const updateMutation = useMutation({
+    mutationFn: () => apiRequest<Bookmark>("PATCH", `/api/bookmarks/${bookmark.id}`, { note: note.trim() || null }),
+    onSuccess: () => {
+      onChanged();
+      setIsEditing(false);
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo guardar la nota",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/bookmarks/${bookmark.id}`),
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Marcador eliminado" });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo eliminar el marcador",
+      });
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: () => apiRequest<BookmarkClipShare>("POST", `/api/bookmarks/${bookmark.id}/share`),
+    onSuccess: async (share) => {
+      onChanged();
+      try {
+        await navigator.clipboard.writeText(share.embedUrl);
+        toast({ title: "Enlace copiado", description: "Cualquiera con el enlace puede escuchar este fragmento" });
+      } catch {
+        toast({ title: "Fragmento compartido", description: share.embedUrl });
+      }
+    },
+    onError: (error: ApiError) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.status === 409
+          ? `Solo puedes compartir ${BOOKMARK_CLIP_MAX_SHARED_PER_CHAPTER} fragmentos por capitulo; deja de compartir alguno`
+          : "No se pudo compartir el fragmento",
+      });
+    },
+  });
+
+  const unshareMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/bookmarks/${bookmark.id}/share`),
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Enlace desactivado", description: "El enlace del fragmento ya no funciona" });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo desactivar el enlace",
+      });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2" data-testid={`bookmark-${bookmark.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 font-mono"
+          onClick={() => onSeek(bookmark.positionSeconds)}
+          title="Ir a esta posicion"
+          data-testid={`button-seek-bookmark-${bookmark.id}`}
+        >
+          {formatRange(bookmark)}
+        </Button>
+        <div className="flex gap-1">
+          {bookmark.shareToken ? (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-primary"
+                onClick={() => shareMutation.mutate()}
+                disabled={shareMutation.isPending}
+                title="Copiar enlace del fragmento"
+                data-testid={`button-copy-clip-${bookmark.id}`}
+              >
+                <Link2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => unshareMutation.mutate()}
+                disabled={unshareMutation.isPending}
+                title="Dejar de compartir"
+                data-testid={`button-unshare-clip-${bookmark.id}`}
+              >
+                <Link2Off className="h-4 w-4" />
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => shareMutation.mutate()}
+              disabled={shareMutation.isPending}
+              title={`Compartir fragmento (max. ${BOOKMARK_CLIP_MAX_SECONDS} s)`}
+              data-testid={`button-share-clip-${bookmark.id}`}
+            >
+              <Link2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setIsEditing(!isEditing)}
+            title="Editar nota"
+            data-testid={`button-edit-bookmark-${bookmark.id}`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            title="Eliminar marcador"
+            data-testid={`button-delete-bookmark-${bookmark.id}`}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </div>
+      {isEditing ? (
+        <div className="flex gap-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={2000}
+            rows={2}
+            placeholder="Nota"
+            data-testid={`input-bookmark-note-${bookmark.id}`}
+          />
+          <Button
+            size="icon"
+            onClick={() => updateMutation.mutate()}
+            disabled={updateMutation.isPending}
+            data-testid={`button-save-bookmark-${bookmark.id}`}
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : bookmark.note && (
+        <p className="text-sm text-muted-foreground whitespace-pre-line">{bookmark.note}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Bookmarks of the current chapter: add one at the playback position, jump back to it,
+ * take notes, share a short clip and export every bookmark of the audiobook.
+ */
+export function BookmarksPanel({ chapterId, audiobookId, currentTime, onSeek, triggerClassName, triggerVariant = "outline" }: BookmarksPanelProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [clipLength, setClipLength] = useState("none");
+
+  const bookmarksKey = ["/api/chapters", chapterId, "bookmarks"];
+  const { data: bookmarks = [], isLoading } = useQuery<Bookmark[]>({
+    queryKey: bookmarksKey,
+    enabled: isAuthenticated && open,
+  });
+
+  const refreshBookmarks = () => {
+    queryClient.invalidateQueries({ queryKey: bookmarksKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/audiobooks", audiobookId, "bookmarks"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const positionSeconds = Math.floor(currentTime);
+      return apiRequest<Bookmark>("POST", `/api/chapters/${chapterId}/bookmarks`, {
+        positionSeconds,
+        endPositionSeconds: clipLength === "none" ? null : positionSeconds + parseInt(clipLength),
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      refreshBookmarks();
+      setNote("");
+      setClipLength("none");
+      toast({ title: "Marcador añadido" });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo añadir el marcador",
+      });
+    },
+  });
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant={triggerVariant} size="icon" className={triggerClassName} data-testid="button-bookmarks" title="Marcadores">
+          <BookmarkIcon className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Marcadores</SheetTitle>
+          <SheetDescription>Guarda momentos del capitulo y vuelve a ellos cuando quieras</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="space-y-3 border rounded-lg p-3">
+            <Label htmlFor="bookmark-note">Nuevo marcador en {formatPosition(currentTime)}</Label>
+            <Textarea
+              id="bookmark-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              rows={2}
+              placeholder="Nota (opcional)"
+              data-testid="input-new-bookmark-note"
+            />
+            <div className="flex gap-2">
+              <Select value={clipLength} onValueChange={setClipLength}>
+                <SelectTrigger className="flex-1" data-testid="select-clip-length">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Solo la posicion</SelectItem>
+                  {CLIP_LENGTHS.map(seconds => (
+                    <SelectItem key={seconds} value={seconds.toString()}>Fragmento de {seconds} s</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending}
+                data-testid="button-add-bookmark"
+              >
+                {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                Añadir
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : bookmarks.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">Aun no hay marcadores en este capitulo</p>
+          ) : (
+            <div className="space-y-2">
+              {bookmarks.map(bookmark => (
+                <BookmarkItem
+                  key={bookmark.id}
+                  bookmark={bookmark}
+                  onSeek={(seconds) => {
+                    onSeek(seconds);
+                    setOpen(false);
+                  }}
+                  onChanged={refreshBookmarks}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Exportar marcadores del audiolibro</Label>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/audiobooks/${audiobookId}/bookmarks/export?format=markdown`} download data-testid="link-export-bookmarks-markdown">
+                  <Download className="h-4 w-4 mr-2" />
+                  Markdown
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/audiobooks/${audiobookId}/bookmarks/export?format=csv`} download data-testid="link-export-bookmarks-csv">
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </a>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
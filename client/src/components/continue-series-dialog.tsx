@@ -0,0 +1,140 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { BookOpen, Play, ShoppingCart, Library } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Audiobook, Series, SeriesVolume } from "@shared/schema";
+
+interface ContinueSeriesDialogProps {
+  audiobookId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Used instead of navigating when the player lives outside the router (mobile app)
+  onOpenAudiobook?: (audiobook: Audiobook) => void;
+}
+
+function formatPrice(cents: number, currency: string = "EUR"): string {
+  return new Intl.NumberFormat("es-ES", {
+    style: "currency",
+    currency: currency,
+  }).format(cents / 100);
+}
+
+/**
+ * Offers the next volume of the series once the listener finishes the last chapter of a volume.
+ * Stays closed when the audiobook isn't part of a series or is its last volume.
+ */
+export function ContinueSeriesDialog({ audiobookId, open, onOpenChange, onOpenAudiobook }: ContinueSeriesDialogProps) {
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ series: Series; next: SeriesVolume } | null>({
+    queryKey: [`/api/audiobooks/${audiobookId}/next-in-series`],
+    enabled: open,
+  });
+
+  const addToCartMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/cart/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audiobooks/${audiobookId}/next-in-series`] });
+      toast({
+        title: "Agregado al carrito",
+        description: "El siguiente libro de la serie se ha agregado a tu carrito",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo agregar al carrito",
+      });
+    },
+  });
+
+  if (!data) return null;
+
+  const { series, next } = data;
+  const canListen = next.hasAccess || next.isFree || next.priceCents === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-2xl">Continúa la serie</DialogTitle>
+          <DialogDescription>
+            Has terminado este libro. El siguiente de "{series.name}" ya está disponible.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-4 py-2">
+          <div className="w-20 h-20 rounded-lg overflow-hidden shrink-0">
+            {next.coverArtUrl ? (
+              <img src={next.coverArtUrl} alt={next.title} className="w-full h-full object-cover" />
+            ) : (
+              <div className="w-full h-full bg-gradient-to-br from-primary/30 to-primary/60 flex items-center justify-center">
+                <BookOpen className="w-8 h-8 text-primary-foreground/60" />
+              </div>
+            )}
+          </div>
+          <div className="min-w-0">
+            <p className="text-xs text-primary">Libro {next.seriesIndex}</p>
+            <h3 className="font-semibold line-clamp-2">{next.title}</h3>
+            <p className="text-sm text-muted-foreground truncate">{next.author}</p>
+            {!canListen && (
+              <p className="text-sm font-bold text-primary mt-1">{formatPrice(next.priceCents, next.currency)}</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          {!onOpenAudiobook && (
+            <Link href={`/series/${series.id}`}>
+              <Button variant="outline" className="gap-2 w-full" data-testid="link-series">
+                <Library className="w-4 h-4" />
+                Ver la serie
+              </Button>
+            </Link>
+          )}
+          {!canListen && !next.inCart && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => addToCartMutation.mutate(next.id)}
+              disabled={addToCartMutation.isPending}
+              data-testid="button-next-add-to-cart"
+            >
+              <ShoppingCart className="w-4 h-4" />
+              Agregar al carrito
+            </Button>
+          )}
+          {onOpenAudiobook ? (
+            <Button
+              className="gap-2"
+              onClick={() => { onOpenChange(false); onOpenAudiobook(next); }}
+              data-testid="button-continue-series"
+            >
+              {canListen ? <Play className="w-4 h-4" /> : <BookOpen className="w-4 h-4" />}
+              {canListen ? "Empezar ahora" : "Ver audiolibro"}
+            </Button>
+          ) : (
+            <Link href={`/audiobook/${next.id}`}>
+              <Button className="gap-2 w-full" data-testid="button-continue-series">
+                {canListen ? <Play className="w-4 h-4" /> : <BookOpen className="w-4 h-4" />}
+                {canListen ? "Empezar ahora" : "Ver audiolibro"}
+              </Button>
+            </Link>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
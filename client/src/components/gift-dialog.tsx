@@ -0,0 +1,130 @@
+import { useState, type ReactNode } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Gift, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface GiftDialogProps {
+  audiobookId: string;
+  audiobookTitle: string;
+  // Editing changes the recipient of an item already in the cart
+  initialGift?: { recipientEmail: string; message: string | null };
+  children: ReactNode;
+}
+
+/**
+ * Adds an audiobook to the cart as a gift, or edits the gift on a cart item.
+ * The recipient gets an email with a redeem link once the order is paid.
+ */
+export function GiftDialog({ audiobookId, audiobookTitle, initialGift, children }: GiftDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [recipientEmail, setRecipientEmail] = useState(initialGift?.recipientEmail || "");
+  const [message, setMessage] = useState(initialGift?.message || "");
+
+  const giftMutation = useMutation({
+    mutationFn: () => {
+      const gift = { recipientEmail, message: message.trim() || undefined };
+      return initialGift
+        ? apiRequest("PUT", `/api/cart/${audiobookId}/gift`, gift)
+        : apiRequest("POST", `/api/cart/${audiobookId}`, { gift });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart/check", audiobookId] });
+      setOpen(false);
+      toast({
+        title: initialGift ? "Regalo actualizado" : "Regalo agregado al carrito",
+        description: `${audiobookTitle} se enviara a ${recipientEmail} al completar el pago`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: error.message?.includes("401") ? "No autenticado" : "Error",
+        description: error.message?.includes("401")
+          ? "Debes iniciar sesion para regalar audiolibros"
+          : "No se pudo guardar el regalo",
+      });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setRecipientEmail(initialGift?.recipientEmail || "");
+      setMessage(initialGift?.message || "");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gift className="w-5 h-5 text-primary" />
+            Regalar audiolibro
+          </DialogTitle>
+          <DialogDescription>
+            Enviaremos "{audiobookTitle}" por email cuando completes el pago. Tu recibes la factura.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            giftMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="gift-recipient">Email del destinatario</Label>
+            <Input
+              id="gift-recipient"
+              type="email"
+              value={recipientEmail}
+              onChange={(e) => setRecipientEmail(e.target.value)}
+              placeholder="amigo@email.com"
+              required
+              data-testid="input-gift-recipient"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="gift-message">Mensaje (opcional)</Label>
+            <Textarea
+              id="gift-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={500}
+              rows={3}
+              placeholder="¡Espero que lo disfrutes!"
+              data-testid="input-gift-message"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={!recipientEmail || giftMutation.isPending} data-testid="button-save-gift">
+              {giftMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {initialGift ? "Guardar" : "Agregar regalo al carrito"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
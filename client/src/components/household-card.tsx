@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Home, Loader2, LogOut, Mail, UserMinus, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { HouseholdOverview } from "@shared/schema";
+
+type HouseholdMemberItem = HouseholdOverview["members"][number];
+
+/**
+ * Household sharing on the profile page
+ * Owners invite people to share their purchases (and the subscription on a
+ * family plan) and can remove them; members see whose household they are in
+ * and can leave it.
+ */
+export function HouseholdCard() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [removing, setRemoving] = useState<HouseholdMemberItem | null>(null);
+  const [confirmLeave, setConfirmLeave] = useState(false);
+
+  const { data: household, isLoading } = useQuery<HouseholdOverview>({
+    queryKey: ["/api/household"],
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/household"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/library/purchases"] });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/household/members", { email }),
+    onSuccess: () => {
+      toast({
+        title: "Invitacion enviada",
+        description: `Hemos enviado la invitacion a ${email}`,
+      });
+      setEmail("");
+      onChanged();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message?.includes("already in your household")
+          ? "Este email ya esta en tu hogar"
+          : error.message?.includes("Household is full")
+            ? "Tu hogar ya esta completo"
+            : error.message?.includes("invite yourself")
+              ? "No puedes invitarte a ti mismo"
+              : error.message?.includes("cannot invite")
+                ? "Perteneces a otro hogar; abandonalo para crear el tuyo"
+                : "No se pudo enviar la invitacion",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/household/members/${id}`),
+    onSuccess: () => {
+      toast({ title: confirmLeave ? "Has abandonado el hogar" : "Miembro eliminado" });
+      setRemoving(null);
+      setConfirmLeave(false);
+      onChanged();
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo completar la accion",
+      });
+    },
+  });
+
+  if (isLoading || !household) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { membership, members, maxMembers } = household;
+  const isFull = members.length >= maxMembers;
+
+  return (
+    <Card data-testid="card-household">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Home className="w-5 h-5" />
+          Mi Hogar
+        </CardTitle>
+        <CardDescription>
+          {membership
+            ? "Compartes las compras de otra persona de tu hogar"
+            : maxMembers > 0
+              ? `Comparte tus compras y tu plan familiar con hasta ${maxMembers} personas`
+              : "Con un plan familiar puedes compartir tus compras y tu suscripcion con tu hogar"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {membership ? (
+          <div className="space-y-4">
+            <div className="rounded-lg border p-4 space-y-1">
+              <p className="font-medium" data-testid="text-household-owner">Hogar de {membership.ownerName}</p>
+              <p className="text-sm text-muted-foreground">
+                {!membership.isSharing
+                  ? "El plan del titular ya no cubre a todos los miembros; ahora mismo no compartes sus compras"
+                  : membership.sharesSubscription
+                    ? "Compartes sus audiolibros comprados y su suscripcion"
+                    : "Compartes sus audiolibros comprados"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Tu progreso de escucha y tus listas de reproduccion son solo tuyos
+              </p>
+            </div>
+            <Button variant="outline" className="gap-2" onClick={() => setConfirmLeave(true)} data-testid="button-leave-household">
+              <LogOut className="w-4 h-4" />
+              Abandonar hogar
+            </Button>
+          </div>
+        ) : (
+          <>
+            {members.length > 0 && (
+              <div className="divide-y rounded-lg border">
+                {members.map((member) => (
+                  <div key={member.id} className="flex items-center justify-between gap-3 p-3" data-testid={`row-household-member-${member.id}`}>
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{member.username || member.email}</p>
+                      {member.username && <p className="text-xs text-muted-foreground truncate">{member.email}</p>}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={member.status === "ACCEPTED" ? "default" : "secondary"}>
+                        {member.status === "ACCEPTED" ? "Miembro" : "Pendiente"}
+                      </Badge>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setRemoving(member)}
+                        aria-label={member.status === "ACCEPTED" ? "Eliminar miembro" : "Cancelar invitacion"}
+                        data-testid={`button-remove-household-member-${member.id}`}
+                      >
+                        <UserMinus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {maxMembers === 0 ? (
+              <p className="text-sm text-muted-foreground">Tu plan actual no incluye miembros del hogar</p>
+            ) : isFull ? (
+              <p className="text-sm text-muted-foreground">Tu hogar esta completo ({members.length}/{maxMembers})</p>
+            ) : (
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (email.trim()) inviteMutation.mutate();
+                }}
+              >
+                <div className="relative flex-1">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="email@ejemplo.com"
+                    className="pl-10"
+                    data-testid="input-household-email"
+                  />
+                </div>
+                <Button type="submit" className="gap-2" disabled={inviteMutation.isPending || !email.trim()} data-testid="button-invite-household">
+                  {inviteMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                  Invitar
+                </Button>
+              </form>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!removing || confirmLeave} onOpenChange={(open) => { if (!open) { setRemoving(null); setConfirmLeave(false); } }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmLeave ? "Abandonar el hogar" : removing?.status === "ACCEPTED" ? "Eliminar miembro" : "Cancelar invitacion"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmLeave
+                ? "Dejaras de tener acceso a las compras y la suscripcion compartidas. Tu progreso y tus listas se conservan."
+                : removing?.status === "ACCEPTED"
+                  ? `${removing.username || removing.email} dejara de tener acceso a tus compras y tu suscripcion.`
+                  : `La invitacion a ${removing?.email} dejara de funcionar.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removeMutation.mutate(confirmLeave ? membership!.id : removing!.id)}
+              data-testid="button-confirm-household-remove"
+            >
+              Confirmar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+import { Progress } from "@/components/ui/progress";
+import type { BackgroundJobResponse } from "@shared/schema";
+
+interface JobProgressProps {
+  job: BackgroundJobResponse | null;
+}
+
+/**
+ * Progress of a background job while it waits in the queue or runs
+ */
+export function JobProgress({ job }: JobProgressProps) {
+  if (!job || (job.status !== "QUEUED" && job.status !== "RUNNING")) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="job-progress">
+      <Progress value={job.progress} className="h-2" />
+      <div className="flex justify-between gap-2 text-sm text-muted-foreground">
+        <span className="truncate">
+          {job.status === "QUEUED" ? "En cola..." : job.progressMessage || "Procesando..."}
+        </span>
+        <span>{job.progress}%</span>
+      </div>
+    </div>
+  );
+}
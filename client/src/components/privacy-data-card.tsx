@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, Loader2, ShieldAlert, Trash2, UserRoundCog } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { waitForJob } from "@/lib/jobs";
+import type { BackgroundJobResponse, DataExportResult, PrivacyStatus, TwoFactorStatus } from "@shared/schema";
+
+function formatDate(date: string | Date): string {
+  return new Date(date).toLocaleDateString("es-ES", { day: "numeric", month: "long", year: "numeric" });
+}
+
+function getDownloadUrl(jobId: string): string {
+  return `/api/profile/data-export/${jobId}/download`;
+}
+
+/**
+ * Personal data on the profile page (GDPR)
+ * Downloads a ZIP with everything the account holds, and deletes the account
+ * after a cooling-off period during which the request can be cancelled.
+ */
+export function PrivacyDataCard() {
+  const { toast } = useToast();
+  const [exportJob, setExportJob] = useState<BackgroundJobResponse | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: status, isLoading } = useQuery<PrivacyStatus>({
+    queryKey: ["/api/profile/privacy"],
+  });
+
+  const { data: twoFactor } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/profile/privacy"] });
+  };
+
+  const closeDeleteDialog = () => {
+    setIsDeleting(false);
+    setPassword("");
+    setCode("");
+    setReason("");
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const data = await apiRequest<{ job: BackgroundJobResponse }>("POST", "/api/profile/data-export");
+      setExportJob(data.job);
+      await waitForJob<DataExportResult>(data.job.id, setExportJob);
+      return data.job.id;
+    },
+    onSettled: () => {
+      setExportJob(null);
+      onChanged();
+    },
+    onSuccess: (jobId) => {
+      window.location.href = getDownloadUrl(jobId);
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudieron exportar tus datos" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/profile/deletion", {
+        password,
+        code: twoFactor?.enabled ? code.trim() : undefined,
+        reason: reason.trim() || undefined,
+      }),
+    onSuccess: () => {
+      onChanged();
+      closeDeleteDialog();
+      toast({ title: "Eliminacion programada", description: "Te hemos enviado un email con los detalles" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo solicitar la eliminacion" });
+    },
+  });
+
+  const cancelDeletionMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/profile/deletion"),
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Eliminacion cancelada", description: "Tu cuenta seguira activa" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo cancelar la eliminacion" });
+    },
+  });
+
+  const latestExport = status?.dataExport;
+  const latestResult = latestExport?.status === "COMPLETED" ? (latestExport.result as DataExportResult | null) : null;
+  const canDownloadLatest = !!latestResult && new Date(latestResult.expiresAt) > new Date();
+  const pendingDeletion = status?.pendingDeletion;
+
+  return (
+    <Card data-testid="card-privacy-data">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserRoundCog className="w-5 h-5" />
+          Privacidad y Datos
+        </CardTitle>
+        <CardDescription>
+          Descarga una copia de tus datos o elimina tu cuenta
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <div>
+                <p className="font-medium">Descargar mis datos</p>
+                <p className="text-sm text-muted-foreground">
+                  Un archivo ZIP con tu perfil, datos de facturacion, compras, facturas en PDF, progreso de escucha,
+                  favoritos, listas y enlaces RSS. El archivo estara disponible durante 7 dias.
+                </p>
+              </div>
+              {exportJob && (
+                <div className="space-y-1">
+                  <Progress value={exportJob.progress} />
+                  <p className="text-xs text-muted-foreground">{exportJob.progressMessage || "Preparando tus datos..."}</p>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => exportMutation.mutate()}
+                  disabled={exportMutation.isPending}
+                  data-testid="button-export-my-data"
+                >
+                  {exportMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  {canDownloadLatest ? "Generar de nuevo" : "Descargar mis datos"}
+                </Button>
+                {canDownloadLatest && latestExport && latestResult && !exportMutation.isPending && (
+                  <Button asChild variant="ghost" className="gap-2" data-testid="button-download-last-export">
+                    <a href={getDownloadUrl(latestExport.id)}>
+                      <Download className="w-4 h-4" />
+                      Ultima copia (caduca el {formatDate(latestResult.expiresAt)})
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <div>
+                <p className="font-medium">Eliminar mi cuenta</p>
+                <p className="text-sm text-muted-foreground">
+                  Tu cuenta se eliminara 30 dias despues de solicitarlo; hasta entonces puedes cancelarlo.
+                  Conservaremos tus facturas por obligacion legal, sin el resto de tus datos personales.
+                </p>
+              </div>
+              {pendingDeletion ? (
+                <div className="flex flex-col gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4 md:flex-row md:items-center md:justify-between">
+                  <p className="flex items-center gap-2 text-sm" data-testid="text-pending-deletion">
+                    <ShieldAlert className="w-4 h-4 text-destructive" />
+                    Tu cuenta se eliminara el {formatDate(pendingDeletion.scheduledFor)}
+                  </p>
+                  <Button
+                    variant="outline"
+                    onClick={() => cancelDeletionMutation.mutate()}
+                    disabled={cancelDeletionMutation.isPending}
+                    data-testid="button-cancel-deletion"
+                  >
+                    {cancelDeletionMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Cancelar eliminacion
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="destructive" className="gap-2" onClick={() => setIsDeleting(true)} data-testid="button-delete-account">
+                  <Trash2 className="w-4 h-4" />
+                  Eliminar mi cuenta
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isDeleting} onOpenChange={(open) => { if (!open) closeDeleteDialog(); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Eliminar mi cuenta</DialogTitle>
+            <DialogDescription>
+              Perderas el acceso a tu biblioteca, tu progreso y tus listas. Si tienes una suscripcion, se cancelara.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              deleteMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="delete-account-password">Contraseña</Label>
+              <Input
+                id="delete-account-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                data-testid="input-delete-account-password"
+              />
+            </div>
+            {twoFactor?.enabled && (
+              <TwoFactorCodeInput value={code} onChange={setCode} disabled={deleteMutation.isPending} />
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="delete-account-reason">Motivo (opcional)</Label>
+              <Textarea
+                id="delete-account-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={1000}
+                rows={3}
+                data-testid="input-delete-account-reason"
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={deleteMutation.isPending || !password || (twoFactor?.enabled && !code.trim())}
+                data-testid="button-confirm-delete-account"
+              >
+                {deleteMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Eliminar en 30 dias
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
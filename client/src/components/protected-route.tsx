@@ -1,7 +1,10 @@
 import { ReactNode, useEffect } from "react";
-import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
 import { useAuth } from "./auth-provider";
-import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Loader2, ShieldCheck } from "lucide-react";
+import type { TwoFactorStatus } from "@shared/schema";
 
 interface ProtectedRouteProps {
   children: ReactNode;
@@ -12,13 +15,20 @@ export function ProtectedRoute({ children, requireRole }: ProtectedRouteProps) {
   const { user, isLoading, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
 
+  // Admin pages stay closed until the admin has enrolled in two-factor authentication
+  const checkTwoFactor = requireRole === "ADMIN" && user?.role === "ADMIN";
+  const { data: twoFactor, isLoading: isLoadingTwoFactor } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+    enabled: checkTwoFactor,
+  });
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       setLocation("/login");
     }
   }, [isLoading, isAuthenticated, setLocation]);
 
-  if (isLoading) {
+  if (isLoading || (checkTwoFactor && isLoadingTwoFactor)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -53,6 +63,23 @@ export function ProtectedRoute({ children, requireRole }: ProtectedRouteProps) {
         </div>
       );
     }
+
+    if (checkTwoFactor && twoFactor && !twoFactor.enabled) {
+      return (
+        <div className="min-h-screen flex items-center justify-center p-6">
+          <div className="text-center space-y-4 max-w-md">
+            <ShieldCheck className="w-12 h-12 mx-auto text-primary" />
+            <h2 className="text-2xl font-bold">Activa la verificacion en dos pasos</h2>
+            <p className="text-muted-foreground">
+              Las cuentas de administrador deben usar una app de autenticacion para acceder al panel.
+            </p>
+            <Button asChild data-testid="button-setup-two-factor">
+              <Link href="/profile">Configurar en mi perfil</Link>
+            </Button>
+          </div>
+        </div>
+      );
+    }
   }
 
   return <>{children}</>;
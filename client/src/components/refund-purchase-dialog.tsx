@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Invoice, PurchaseRefund } from "@shared/schema";
+
+interface RefundPurchaseDialogProps {
+  purchaseId: string;
+  audiobookTitle: string;
+  pricePaidCents: number;
+  refundedCents: number;
+  currency: string;
+}
+
+function formatPrice(cents: number, currency: string = "EUR"): string {
+  return new Intl.NumberFormat("es-ES", {
+    style: "currency",
+    currency: currency,
+  }).format(cents / 100);
+}
+
+/**
+ * Refunds a purchase through PayPal, in full or in part, from the admin panel.
+ * The server revokes access, issues the credit note and emails the customer.
+ */
+export function RefundPurchaseDialog({ purchaseId, audiobookTitle, pricePaidCents, refundedCents, currency }: RefundPurchaseDialogProps) {
+  const { toast } = useToast();
+  const remainingCents = pricePaidCents - refundedCents;
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState((remainingCents / 100).toFixed(2));
+  const [reason, setReason] = useState("");
+
+  const amountCents = Math.round(parseFloat(amount.replace(",", ".")) * 100);
+  const isValidAmount = amountCents > 0 && amountCents <= remainingCents;
+
+  const refundMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<{ refund: PurchaseRefund; creditNote: Invoice | null }>("POST", `/api/admin/purchases/${purchaseId}/refund`, {
+        // Leaving the amount out refunds whatever is left, without rounding surprises
+        amountCents: amountCents === remainingCents ? undefined : amountCents,
+        reason,
+      }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/purchases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sales/summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sales/revenue-trend"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sales/recent-transactions"] });
+      setOpen(false);
+      setReason("");
+      if (data.refund.status === "PENDING") {
+        toast({
+          title: "Reembolso en proceso",
+          description: "PayPal esta procesando el reembolso; la factura rectificativa se emitira al confirmarse",
+        });
+        return;
+      }
+      toast({
+        title: "Reembolso realizado",
+        description: data.creditNote
+          ? `Se ha emitido la factura rectificativa ${data.creditNote.invoiceNumber}`
+          : "El cliente ha perdido el acceso al audiolibro",
+      });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo realizar el reembolso" });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setAmount((remainingCents / 100).toFixed(2));
+      setReason("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Reembolsar" data-testid={`button-refund-purchase-${purchaseId}`}>
+          <Undo2 className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reembolsar compra</DialogTitle>
+          <DialogDescription>
+            {audiobookTitle} · pagado {formatPrice(pricePaidCents, currency)}
+            {refundedCents > 0 && ` · ya reembolsado ${formatPrice(refundedCents, currency)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            refundMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Importe ({currency})</Label>
+            <Input
+              id="refund-amount"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-refund-amount"
+            />
+            <p className="text-xs text-muted-foreground">
+              Maximo {formatPrice(remainingCents, currency)}. Cualquier reembolso, aunque sea parcial, retira el acceso al audiolibro.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Motivo</Label>
+            <Textarea
+              id="refund-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              rows={3}
+              placeholder="Aparece en la factura rectificativa y en PayPal"
+              required
+              data-testid="input-refund-reason"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={!isValidAmount || !reason.trim() || refundMutation.isPending}
+              data-testid="button-confirm-refund"
+            >
+              {refundMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Reembolsar {isValidAmount ? formatPrice(amountCents, currency) : ""}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
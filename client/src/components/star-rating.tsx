@@ -0,0 +1,57 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  // 0 to 5; fractions fill the last star partially
+  value: number;
+  className?: string;
+  starClassName?: string;
+}
+
+export function StarRating({ value, className, starClassName = "w-4 h-4" }: StarRatingProps) {
+  return (
+    <span className={cn("inline-flex items-center gap-0.5", className)} aria-label={`${value.toFixed(1)} de 5 estrellas`}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const fill = Math.max(0, Math.min(1, value - star + 1));
+        return (
+          <span key={star} className="relative inline-block">
+            <Star className={cn(starClassName, "text-muted-foreground/40")} />
+            {fill > 0 && (
+              <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+                <Star className={cn(starClassName, "fill-primary text-primary")} />
+              </span>
+            )}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+interface StarRatingInputProps {
+  value: number | null;
+  onChange: (value: number) => void;
+  label: string;
+  testId: string;
+}
+
+export function StarRatingInput({ value, onChange, label, testId }: StarRatingInputProps) {
+  return (
+    <div className="inline-flex items-center gap-1" role="radiogroup" aria-label={label}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} ${star === 1 ? "estrella" : "estrellas"}`}
+          onClick={() => onChange(star)}
+          className="p-0.5 rounded hover-elevate"
+          data-testid={`${testId}-${star}`}
+        >
+          <Star className={cn("w-6 h-6", value && star <= value ? "fill-primary text-primary" : "text-muted-foreground/40")} />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { apiRequest, setStepUpHandler } from "@/lib/queryClient";
+
+/**
+ * Two-factor confirmation for sensitive admin actions, and for admin pages
+ * opened from a session that hasn't passed two-factor yet. Requests open it
+ * when the server answers STEP_UP_REQUIRED and are repeated once the code is
+ * accepted; closing it fails the request.
+ */
+export function StepUpDialog() {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const resolveRef = useRef<((verified: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    setStepUpHandler(() => new Promise<boolean>((resolve) => {
+      // A second request waiting on the dialog gets the same answer as the first
+      const previous = resolveRef.current;
+      resolveRef.current = (verified) => {
+        previous?.(verified);
+        resolve(verified);
+      };
+      setCode("");
+      setError(null);
+      setOpen(true);
+    }));
+    return () => setStepUpHandler(null);
+  }, []);
+
+  const finish = (verified: boolean) => {
+    resolveRef.current?.(verified);
+    resolveRef.current = null;
+    setOpen(false);
+  };
+
+  const submit = async (submittedCode: string = code) => {
+    if (!submittedCode.trim()) return;
+    setIsVerifying(true);
+    setError(null);
+    try {
+      await apiRequest("POST", "/api/auth/2fa/step-up", { code: submittedCode.trim() });
+      finish(true);
+    } catch {
+      setCode("");
+      setError("Codigo incorrecto");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) finish(false); }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Confirma que eres tu
+          </DialogTitle>
+          <DialogDescription>
+            Esta accion requiere el codigo de tu app de autenticacion
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={(e) => { e.preventDefault(); submit(); }} className="space-y-4">
+          <TwoFactorCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => submit(value)}
+            disabled={isVerifying}
+          />
+          {error && <p className="text-sm text-center text-destructive" data-testid="text-step-up-error">{error}</p>}
+          <DialogFooter>
+            <Button type="submit" disabled={isVerifying || !code.trim()} data-testid="button-confirm-step-up">
+              {isVerifying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirmar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
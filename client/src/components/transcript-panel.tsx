@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Captions } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import type { ChapterTranscriptWithCues } from "@shared/schema";
+
+interface TranscriptPanelProps {
+  chapterId: string;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  className?: string;
+}
+
+function formatCueTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Chapter transcript under the player
+ * Timed transcripts highlight the caption being spoken and keep it in view
+ * while "follow" is on; clicking a caption jumps there. Plain text transcripts
+ * are shown as they are. Renders nothing when the chapter has no transcript.
+ */
+export function TranscriptPanel({ chapterId, currentTime, onSeek, className }: TranscriptPanelProps) {
+  const [follow, setFollow] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 404 when the chapter has no transcript
+  const { data: transcript } = useQuery<ChapterTranscriptWithCues>({
+    queryKey: ["/api/chapters", chapterId, "transcript"],
+  });
+
+  const isTimed = transcript?.format !== "TEXT";
+  const currentMs = currentTime * 1000;
+
+  // Last cue that has started; cues are in order
+  const activeIndex = useMemo(() => {
+    if (!transcript || !isTimed) return -1;
+    let index = -1;
+    for (let i = 0; i < transcript.cues.length; i++) {
+      if (transcript.cues[i].startMs! > currentMs) break;
+      index = i;
+    }
+    return index;
+  }, [transcript, isTimed, currentMs]);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!follow || !list || activeIndex < 0) return;
+    const cue = list.children[activeIndex] as HTMLElement | undefined;
+    if (cue) {
+      // Keep the active caption in the upper third without scrolling the page
+      list.scrollTo({ top: cue.offsetTop - list.clientHeight / 3, behavior: "smooth" });
+    }
+  }, [activeIndex, follow]);
+
+  if (!transcript) {
+    return null;
+  }
+
+  return (
+    <div className={cn("border rounded-lg", className)} data-testid="transcript-panel">
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <Captions className="h-4 w-4" />
+          Transcripcion
+        </span>
+        {isTimed && (
+          <div className="flex items-center gap-2">
+            <Switch id="transcript-follow" checked={follow} onCheckedChange={setFollow} data-testid="switch-transcript-follow" />
+            <Label htmlFor="transcript-follow" className="text-xs text-muted-foreground">Seguir audio</Label>
+          </div>
+        )}
+      </div>
+      <div ref={listRef} className="relative max-h-64 overflow-y-auto p-2" lang={transcript.language}>
+        {transcript.cues.map((cue, index) => isTimed ? (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onSeek(cue.startMs! / 1000)}
+            className={cn(
+              "flex w-full gap-3 rounded px-2 py-1 text-left text-sm transition-colors hover-elevate",
+              index === activeIndex ? "bg-primary/10 text-foreground font-medium" : "text-muted-foreground"
+            )}
+            data-testid={`transcript-cue-${index}`}
+          >
+            <span className="w-12 flex-shrink-0 font-mono text-xs leading-5 text-muted-foreground">{formatCueTime(cue.startMs!)}</span>
+            <span>{cue.text}</span>
+          </button>
+        ) : (
+          <p key={index} className="px-2 py-1 text-sm text-muted-foreground">{cue.text}</p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useDebouncedValue } from "@/hooks/use-catalog-search";
+import type { TranscriptSearchHit } from "@shared/schema";
+
+function formatHitTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Search the transcripts of an audiobook's chapters
+ * Each hit opens the chapter player at the moment the words are spoken.
+ */
+export function TranscriptSearch({ audiobookId }: { audiobookId: string }) {
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebouncedValue(query.trim());
+  const params = new URLSearchParams({ q: debouncedQuery, audiobookId });
+
+  const { data: hits = [], isFetching } = useQuery<TranscriptSearchHit[]>({
+    queryKey: [`/api/transcripts/search?${params.toString()}`],
+    enabled: debouncedQuery.length >= 2,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Buscar en las transcripciones..."
+          className="pl-10"
+          data-testid="input-transcript-search"
+        />
+        {isFetching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {debouncedQuery.length >= 2 && !isFetching && hits.length === 0 && (
+        <p className="text-sm text-muted-foreground">No se encontraron coincidencias</p>
+      )}
+
+      {hits.length > 0 && debouncedQuery.length >= 2 && (
+        <div className="space-y-1">
+          {hits.map((hit, index) => (
+            <Link
+              key={`${hit.chapterId}-${index}`}
+              href={`/chapter/${hit.chapterId}${hit.startMs !== null ? `?t=${Math.floor(hit.startMs / 1000)}` : ""}`}
+            >
+              <div className="flex gap-3 rounded-md p-2 text-sm cursor-pointer hover-elevate" data-testid={`transcript-hit-${index}`}>
+                <span className="w-28 flex-shrink-0 text-muted-foreground">
+                  Cap. {hit.chapterNumber}{hit.startMs !== null && ` · ${formatHitTime(hit.startMs)}`}
+                </span>
+                {hit.text !== null ? (
+                  <span>{hit.text}</span>
+                ) : (
+                  <span className="italic text-muted-foreground">Compra el audiolibro o suscribete para leer este fragmento</span>
+                )}
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
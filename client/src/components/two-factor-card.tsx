@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { Copy, Download, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+
+/**
+ * Two-factor authentication on the profile page
+ * Enrollment shows a QR code for the authenticator app and, once the first
+ * code is confirmed, the recovery codes; they are only shown that one time.
+ */
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+  };
+
+  const closeDialogs = () => {
+    setIsRegenerating(false);
+    setIsDisabling(false);
+    setCode("");
+    setPassword("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => apiRequest<TwoFactorSetup>("POST", "/api/auth/2fa/setup"),
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo iniciar la configuracion" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (value: string) => apiRequest<{ recoveryCodes: string[] }>("POST", "/api/auth/2fa/enable", { code: value }),
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+      toast({ title: "Verificacion en dos pasos activada" });
+    },
+    onError: () => {
+      setCode("");
+      toast({ variant: "destructive", title: "Codigo incorrecto", description: "Comprueba la hora de tu movil e intentalo de nuevo" });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (value: string) => apiRequest<{ recoveryCodes: string[] }>("POST", "/api/auth/2fa/recovery-codes", { code: value }),
+    onSuccess: (data) => {
+      closeDialogs();
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+    },
+    onError: () => {
+      setCode("");
+      toast({ variant: "destructive", title: "Codigo incorrecto" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/2fa/disable", { code, password }),
+    onSuccess: () => {
+      closeDialogs();
+      onChanged();
+      toast({ title: "Verificacion en dos pasos desactivada" });
+    },
+    onError: (error: any) => {
+      setCode("");
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message?.includes("password")
+          ? "La contraseña no es correcta"
+          : error.message?.includes("code")
+            ? "Codigo incorrecto"
+            : "No se pudo desactivar",
+      });
+    },
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Codigos copiados" });
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`Audivia - codigos de recuperacion\n\n${recoveryCodes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "audivia-codigos-recuperacion.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading || !status) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card data-testid="card-two-factor">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Verificacion en dos pasos
+          {status.enabled ? <Badge variant="default">Activada</Badge> : <Badge variant="secondary">Desactivada</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {status.required
+            ? "Obligatoria para administradores: al iniciar sesion y en las acciones sensibles se pide un codigo de tu app de autenticacion"
+            : "Al iniciar sesion se pedira, ademas de la contraseña, un codigo de tu app de autenticacion"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Te quedan {status.recoveryCodesRemaining} codigos de recuperacion sin usar
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => setIsRegenerating(true)} data-testid="button-regenerate-recovery-codes">
+                <KeyRound className="w-4 h-4" />
+                Nuevos codigos de recuperacion
+              </Button>
+              {!status.required && (
+                <Button variant="outline" className="gap-2" onClick={() => setIsDisabling(true)} data-testid="button-disable-two-factor">
+                  <ShieldOff className="w-4 h-4" />
+                  Desactivar
+                </Button>
+              )}
+            </div>
+          </>
+        ) : setup ? (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (code.length === 6) enableMutation.mutate(code);
+            }}
+          >
+            <p className="text-sm text-muted-foreground">
+              1. Escanea el codigo con Google Authenticator, 1Password, Authy u otra app compatible
+            </p>
+            <div className="flex flex-col items-center gap-2">
+              <div className="rounded-lg bg-white p-3">
+                <QRCodeSVG value={setup.otpauthUrl} size={180} data-testid="img-two-factor-qr" />
+              </div>
+              <p className="text-xs text-muted-foreground">¿No puedes escanearlo? Introduce esta clave:</p>
+              <code className="rounded bg-muted px-2 py-1 text-xs break-all" data-testid="text-two-factor-secret">{setup.secret}</code>
+            </div>
+            <p className="text-sm text-muted-foreground">2. Introduce el codigo de 6 digitos que muestra la app</p>
+            <TwoFactorCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={(value) => enableMutation.mutate(value)}
+              allowRecoveryCode={false}
+              disabled={enableMutation.isPending}
+            />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={enableMutation.isPending || code.length !== 6} data-testid="button-enable-two-factor">
+                {enableMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Activar
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => { setSetup(null); setCode(""); }}>
+                Cancelar
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button className="gap-2" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+            {setupMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+            Configurar
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => { if (!open) setRecoveryCodes(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Codigos de recuperacion</DialogTitle>
+            <DialogDescription>
+              Guardalos en un lugar seguro. Cada codigo sirve una sola vez para entrar si pierdes el movil y no se volveran a mostrar.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 rounded-lg border p-4 font-mono text-sm" data-testid="list-recovery-codes">
+            {recoveryCodes?.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" className="gap-2" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+              <Copy className="w-4 h-4" />
+              Copiar
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={downloadRecoveryCodes} data-testid="button-download-recovery-codes">
+              <Download className="w-4 h-4" />
+              Descargar
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>Los he guardado</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isRegenerating || isDisabling} onOpenChange={(open) => { if (!open) closeDialogs(); }}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{isDisabling ? "Desactivar verificacion en dos pasos" : "Nuevos codigos de recuperacion"}</DialogTitle>
+            <DialogDescription>
+              {isDisabling
+                ? "Confirma tu contraseña y un codigo de la app"
+                : "Los codigos anteriores dejaran de funcionar. Confirma con un codigo de la app."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!code.trim()) return;
+              if (isDisabling) {
+                disableMutation.mutate();
+              } else {
+                regenerateMutation.mutate(code.trim());
+              }
+            }}
+          >
+            {isDisabling && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Contraseña</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  data-testid="input-two-factor-password"
+                />
+              </div>
+            )}
+            <TwoFactorCodeInput value={code} onChange={setCode} disabled={regenerateMutation.isPending || disableMutation.isPending} />
+            <DialogFooter>
+              <Button
+                type="submit"
+                variant={isDisabling ? "destructive" : "default"}
+                disabled={regenerateMutation.isPending || disableMutation.isPending || !code.trim()}
+                data-testid="button-confirm-two-factor-action"
+              >
+                {(regenerateMutation.isPending || disableMutation.isPending) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {isDisabling ? "Desactivar" : "Generar codigos"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Input } from "@/components/ui/input";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called when all six digits are in, to submit without an extra click
+  onComplete?: (value: string) => void;
+  allowRecoveryCode?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Code from the authenticator app, or a recovery code when the phone is lost
+ */
+export function TwoFactorCodeInput({ value, onChange, onComplete, allowRecoveryCode = true, disabled }: TwoFactorCodeInputProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      {useRecoveryCode ? (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="XXXX-XXXX"
+          autoComplete="off"
+          autoFocus
+          disabled={disabled}
+          className="font-mono uppercase"
+          data-testid="input-recovery-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            pattern={REGEXP_ONLY_DIGITS}
+            value={value}
+            onChange={onChange}
+            onComplete={onComplete}
+            autoFocus
+            disabled={disabled}
+            data-testid="input-two-factor-code"
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+      {allowRecoveryCode && (
+        <button
+          type="button"
+          className="block w-full text-center text-xs text-primary hover:underline"
+          onClick={() => { setUseRecoveryCode(!useRecoveryCode); onChange(""); }}
+          data-testid="button-toggle-recovery-code"
+        >
+          {useRecoveryCode ? "Usar el codigo de la app" : "¿Sin acceso a la app? Usa un codigo de recuperacion"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { AudiobookSearchResult, AudiobookSearchSort } from "@shared/schema";
+
+export interface CatalogSearchFilters {
+  q?: string;
+  category?: string;
+  language?: string;
+  isFree?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  minDuration?: number;
+  maxDuration?: number;
+  minRating?: number;
+  sort?: AudiobookSearchSort;
+  limit?: number;
+}
+
+/**
+ * Returns the value once it has stopped changing for the given delay.
+ * Keeps search-as-you-type from sending a request per keystroke.
+ */
+export function useDebouncedValue<T>(value: T, delayMs = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
+
+function buildSearchParams(filters: CatalogSearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === "") continue;
+    params.set(key, String(value));
+  }
+  return params;
+}
+
+/**
+ * Searches the public catalog on the server, one cursor page at a time.
+ * Facets and the total count come from the first page, so they always
+ * describe the whole result set rather than what has been loaded so far.
+ */
+export function useCatalogSearch(filters: CatalogSearchFilters) {
+  const queryString = buildSearchParams(filters).toString();
+
+  const query = useInfiniteQuery({
+    queryKey: ["/api/audiobooks/search", queryString],
+    initialPageParam: null as string | null,
+    queryFn: ({ pageParam }) => {
+      const params = new URLSearchParams(queryString);
+      if (pageParam) params.set("cursor", pageParam);
+      return apiRequest<AudiobookSearchResult>("GET", `/api/audiobooks/search?${params}`);
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Keep showing the previous results while a new filter combination loads
+    placeholderData: keepPreviousData,
+  });
+
+  const pages = query.data?.pages || [];
+
+  return {
+    ...query,
+    audiobooks: pages.flatMap(page => page.items),
+    total: pages[0]?.total ?? 0,
+    facets: pages[0]?.facets,
+  };
+}
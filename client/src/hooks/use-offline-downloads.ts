@@ -0,0 +1,138 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/components/auth-provider";
+import {
+  applyOfflineLicenses,
+  claimOfflineDownloads,
+  downloadAudiobook,
+  evictExpiredDownloads,
+  getActiveDownloads,
+  getOfflineChapterIds,
+  getOfflineDownloads,
+  getOfflineStorageUsage,
+  isOfflineSupported,
+  removeOfflineAudiobook,
+  subscribeToDownloads,
+} from "@/lib/offline-downloads";
+import type { Audiobook, Chapter, OfflineLicense } from "@shared/schema";
+
+// The license endpoint accepts this many chapters per request
+const LICENSE_BATCH_SIZE = 500;
+
+function invalidateOfflineQueries() {
+  queryClient.invalidateQueries({ queryKey: ["offline-downloads"] });
+}
+
+async function fetchOfflineLicenses(chapterIds: string[]): Promise<OfflineLicense[]> {
+  const licenses: OfflineLicense[] = [];
+  for (let i = 0; i < chapterIds.length; i += LICENSE_BATCH_SIZE) {
+    const { licenses: batch } = await apiRequest<{ licenses: OfflineLicense[] }>("POST", "/api/mobile/offline-licenses", {
+      chapterIds: chapterIds.slice(i, i + LICENSE_BATCH_SIZE),
+    });
+    licenses.push(...batch);
+  }
+  return licenses;
+}
+
+function subscribeToOnlineStatus(callback: () => void) {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeToOnlineStatus, () => navigator.onLine);
+}
+
+/**
+ * Audiobooks downloaded on this device, the storage they take and the
+ * downloads in progress. Reads IndexedDB only, so it works offline.
+ */
+export function useOfflineDownloads() {
+  const isSupported = isOfflineSupported();
+  const activeDownloads = useSyncExternalStore(subscribeToDownloads, getActiveDownloads);
+
+  const { data: downloads = [], isLoading } = useQuery({
+    queryKey: ["offline-downloads", "list"],
+    queryFn: getOfflineDownloads,
+    enabled: isSupported,
+    // Local data: don't pause while the browser is offline
+    networkMode: "always",
+  });
+
+  const { data: usage } = useQuery({
+    queryKey: ["offline-downloads", "usage"],
+    queryFn: getOfflineStorageUsage,
+    enabled: isSupported,
+    networkMode: "always",
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async ({ audiobook, chapters }: { audiobook: Audiobook; chapters: Chapter[] }) => {
+      // Only chapters the server says we may keep get downloaded
+      const licenses = await fetchOfflineLicenses(chapters.map(chapter => chapter.id));
+      await downloadAudiobook(audiobook, chapters, licenses);
+    },
+    onSettled: invalidateOfflineQueries,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (audiobookId: string) => removeOfflineAudiobook(audiobookId),
+    networkMode: "always",
+    onSettled: invalidateOfflineQueries,
+  });
+
+  return {
+    isSupported,
+    isLoading,
+    downloads,
+    usage,
+    activeDownloads,
+    download: downloadMutation.mutateAsync,
+    remove: removeMutation.mutateAsync,
+    isRemoving: removeMutation.isPending,
+  };
+}
+
+/**
+ * Keeps the downloads on this device licensed.
+ * Subscription downloads past their expiry are deleted straight away, even
+ * offline. When online, every downloaded chapter is checked against the
+ * server and the ones the listener lost access to (refund, cancelled
+ * subscription, unpublished book) are evicted. Runs on mount and whenever the
+ * connection comes back.
+ */
+export function useOfflineLicenseSync() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!isOfflineSupported()) return;
+
+    const sync = async () => {
+      await evictExpiredDownloads();
+
+      if (userId && navigator.onLine) {
+        await claimOfflineDownloads(userId);
+        const chapterIds = await getOfflineChapterIds();
+        if (chapterIds.length > 0) {
+          await applyOfflineLicenses(await fetchOfflineLicenses(chapterIds));
+        }
+      }
+
+      invalidateOfflineQueries();
+    };
+
+    const run = () => {
+      sync().catch(error => console.error("Error checking offline licenses:", error));
+    };
+
+    run();
+    window.addEventListener("online", run);
+    return () => window.removeEventListener("online", run);
+  }, [userId]);
+}
@@ -0,0 +1,233 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/components/auth-provider";
+import { getQueuedProgress, removeQueuedProgress, saveQueuedProgress } from "@/lib/offline-downloads";
+import type { ListeningProgress } from "@shared/schema";
+
+// How often queued positions are sent to the server
+const FLUSH_INTERVAL_MS = 15000;
+// Don't resume when the saved position is this close to the end of the chapter
+const RESUME_END_MARGIN_SECONDS = 5;
+
+interface QueuedProgress {
+  chapterId: string;
+  positionSeconds: number;
+  completed?: boolean;
+  updatedAt: string;
+}
+
+// Shared by every player on the page so updates go out in a single batch
+const pendingUpdates = new Map<string, QueuedProgress>();
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+let activePlayers = 0;
+
+function persistProgress(updates: QueuedProgress[]) {
+  saveQueuedProgress(updates).catch(error => console.error("Error saving queued progress:", error));
+}
+
+async function flushProgress(keepalive = false) {
+  if (pendingUpdates.size === 0) return;
+
+  // Offline playback: keep positions on the device so closing the page doesn't lose them
+  if (!navigator.onLine) {
+    persistProgress(Array.from(pendingUpdates.values()));
+    return;
+  }
+
+  const updates = Array.from(pendingUpdates.values());
+  pendingUpdates.clear();
+
+  try {
+    const res = await fetch("/api/progress/sync", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ updates }),
+      credentials: "include",
+      // Lets the request outlive the page when flushing on pagehide
+      keepalive,
+    });
+
+    if (res.status >= 500) {
+      throw new Error(`${res.status}: ${res.statusText}`);
+    }
+
+    if (res.ok) {
+      queryClient.invalidateQueries({ queryKey: ["/api/progress/continue-listening"] });
+      removeQueuedProgress(updates).catch(error => console.error("Error clearing queued progress:", error));
+    }
+  } catch (error) {
+    // Re-queue for the next flush unless a newer position was recorded meanwhile
+    for (const update of updates) {
+      if (!pendingUpdates.has(update.chapterId)) {
+        pendingUpdates.set(update.chapterId, update);
+      }
+    }
+    persistProgress(updates);
+    console.error("Error syncing listening progress:", error);
+  }
+}
+
+// Send positions recorded offline, in this page or an earlier one, once there is a connection
+async function flushStoredProgress() {
+  if (!navigator.onLine) return;
+
+  try {
+    for (const update of await getQueuedProgress()) {
+      const current = pendingUpdates.get(update.chapterId);
+      if (!current || current.updatedAt < update.updatedAt) {
+        pendingUpdates.set(update.chapterId, update);
+      }
+    }
+  } catch (error) {
+    console.error("Error loading queued progress:", error);
+  }
+  await flushProgress();
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => flushStoredProgress());
+}
+
+function queueProgress(chapterId: string, positionSeconds: number, completed?: boolean) {
+  const previous = pendingUpdates.get(chapterId);
+  pendingUpdates.set(chapterId, {
+    chapterId,
+    positionSeconds: Math.floor(positionSeconds),
+    // Once a chapter is marked completed within a batch, keep it that way
+    completed: completed || previous?.completed || undefined,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+function handleVisibilityChange() {
+  if (document.visibilityState === "hidden") {
+    flushProgress(true);
+  }
+}
+
+function handlePageHide() {
+  flushProgress(true);
+}
+
+function startSync() {
+  activePlayers++;
+  if (activePlayers > 1) return;
+
+  flushStoredProgress();
+  flushTimer = setInterval(() => flushProgress(), FLUSH_INTERVAL_MS);
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+  window.addEventListener("pagehide", handlePageHide);
+}
+
+function stopSync() {
+  activePlayers = Math.max(0, activePlayers - 1);
+  flushProgress();
+  if (activePlayers > 0) return;
+
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  document.removeEventListener("visibilitychange", handleVisibilityChange);
+  window.removeEventListener("pagehide", handlePageHide);
+}
+
+/**
+ * Keeps the playback position of a chapter in sync with the server.
+ * Resumes from the saved position once the audio metadata is loaded and
+ * queues position changes, which are flushed in batches on an interval,
+ * on pause and when the page is hidden. Does nothing for anonymous users.
+ * Offline copies are always tracked, since the session can't be checked
+ * without a connection; their positions are stored on the device and sent
+ * once it's back online.
+ */
+export function useProgressSync(
+  chapterId: string | undefined,
+  audioRef: RefObject<HTMLAudioElement>,
+  duration: number,
+  options: { offline?: boolean } = {}
+) {
+  const { isAuthenticated } = useAuth();
+  const resumedChapterId = useRef<string | null>(null);
+  const enabled = (isAuthenticated || !!options.offline) && !!chapterId;
+
+  const { data: savedProgress } = useQuery<ListeningProgress | null>({
+    queryKey: ["/api/progress/chapters", chapterId],
+    enabled: enabled && isAuthenticated,
+    // Another device may have moved the position since we last looked
+    staleTime: 0,
+  });
+
+  // Resume from the saved position
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!enabled || !audio || savedProgress === undefined || resumedChapterId.current === chapterId) return;
+
+    const resume = () => {
+      resumedChapterId.current = chapterId!;
+      // Don't yank the playhead if the listener already started on their own
+      if (!savedProgress || savedProgress.completed || audio.currentTime > 1) return;
+
+      const position = savedProgress.positionSeconds;
+      if (position > 0 && position < audio.duration - RESUME_END_MARGIN_SECONDS) {
+        audio.currentTime = position;
+      }
+    };
+
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      resume();
+      return;
+    }
+
+    audio.addEventListener("loadedmetadata", resume, { once: true });
+    return () => audio.removeEventListener("loadedmetadata", resume);
+  }, [enabled, chapterId, savedProgress, duration]);
+
+  // Queue position changes while playing
+  const hasDuration = duration > 0;
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!enabled || !audio || !hasDuration) return;
+
+    const id = chapterId!;
+    let lastQueuedSecond = -1;
+
+    const record = (completed?: boolean) => {
+      // Changing src resets the element; don't overwrite the previous chapter with 0
+      if (audio.readyState < HTMLMediaElement.HAVE_METADATA) return;
+      queueProgress(id, completed ? audio.duration : audio.currentTime, completed);
+    };
+
+    const handleTimeUpdate = () => {
+      // Positions are stored with second precision
+      const second = Math.floor(audio.currentTime);
+      if (second === lastQueuedSecond || audio.paused) return;
+      lastQueuedSecond = second;
+      record();
+    };
+    const handlePause = () => {
+      record();
+      flushProgress();
+    };
+    const handleSeeked = () => record();
+    const handleEnded = () => {
+      record(true);
+      flushProgress();
+    };
+
+    startSync();
+    audio.addEventListener("timeupdate", handleTimeUpdate);
+    audio.addEventListener("pause", handlePause);
+    audio.addEventListener("seeked", handleSeeked);
+    audio.addEventListener("ended", handleEnded);
+
+    return () => {
+      audio.removeEventListener("timeupdate", handleTimeUpdate);
+      audio.removeEventListener("pause", handlePause);
+      audio.removeEventListener("seeked", handleSeeked);
+      audio.removeEventListener("ended", handleEnded);
+      stopSync();
+    };
+  }, [enabled, chapterId, hasDuration]);
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Chapter } from "@shared/schema";
+
+// Expiry the server put on a signed /media URL, null for anything else (blob:, external hosts)
+function getSignedUrlExpiry(url: string): number | null {
+  try {
+    const exp = new URL(url, window.location.origin).searchParams.get("exp");
+    return exp ? parseInt(exp, 10) * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep a chapter's signed audio URL playable
+ * Chapter audio URLs expire after a few hours. When the player fails on an
+ * expired one, a fresh URL is fetched and the position is restored once it
+ * loads; the listener just presses play again.
+ */
+export function useSignedAudioUrl(
+  chapterId: string | undefined,
+  audioUrl: string | null | undefined,
+  audioRef: RefObject<HTMLAudioElement>
+): string | undefined {
+  const [refreshed, setRefreshed] = useState<{ chapterId: string; url: string } | null>(null);
+  const resumeAt = useRef<number | null>(null);
+  const src = refreshed && refreshed.chapterId === chapterId ? refreshed.url : audioUrl || undefined;
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !chapterId || !src) return;
+    let cancelled = false;
+
+    const handleError = async () => {
+      const expiry = getSignedUrlExpiry(audio.currentSrc);
+      if (expiry === null || expiry > Date.now()) return;
+
+      resumeAt.current = audio.currentTime;
+      try {
+        const fresh = await apiRequest<Chapter>("GET", `/api/chapters/${chapterId}`);
+        if (!cancelled && fresh.audioUrl) {
+          setRefreshed({ chapterId, url: fresh.audioUrl });
+        }
+      } catch (error) {
+        console.error("Error refreshing audio URL:", error);
+      }
+    };
+
+    const handleLoadedMetadata = () => {
+      if (resumeAt.current !== null) {
+        audio.currentTime = resumeAt.current;
+        resumeAt.current = null;
+      }
+    };
+
+    audio.addEventListener("error", handleError);
+    audio.addEventListener("loadedmetadata", handleLoadedMetadata);
+    return () => {
+      cancelled = true;
+      audio.removeEventListener("error", handleError);
+      audio.removeEventListener("loadedmetadata", handleLoadedMetadata);
+    };
+  }, [chapterId, src]);
+
+  return src;
+}
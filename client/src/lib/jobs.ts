@@ -0,0 +1,28 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { BackgroundJobResponse } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 1500;
+
+/**
+ * Poll a background job until it finishes
+ * Resolves with the job result, or rejects with the job error when it fails
+ * or is cancelled. onUpdate gets every poll, for progress bars.
+ */
+export async function waitForJob<T>(jobId: string, onUpdate?: (job: BackgroundJobResponse) => void): Promise<T> {
+  while (true) {
+    const job = await apiRequest<BackgroundJobResponse>("GET", `/api/jobs/${jobId}`);
+    onUpdate?.(job);
+
+    if (job.status === "COMPLETED") {
+      return job.result as T;
+    }
+    if (job.status === "FAILED") {
+      throw new Error(job.error || "La tarea ha fallado");
+    }
+    if (job.status === "CANCELLED") {
+      throw new Error("La tarea ha sido cancelada");
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,570 @@
+import type { Audiobook, Chapter, OfflineLicense } from "@shared/schema";
+
+/**
+ * Offline downloads for the mobile app
+ * Chapters are fetched in the page, split into chunks and stored in IndexedDB
+ * encrypted with AES-GCM. The key is generated on the device as non-extractable,
+ * so the files can't simply be copied out of the browser profile and played
+ * elsewhere. Playback decrypts a chapter into a Blob and plays it from an
+ * object URL.
+ */
+
+const DB_NAME = "audivia-offline";
+const DB_VERSION = 1;
+// Size of each encrypted piece; keeps memory flat while a chapter downloads
+const CHUNK_SIZE = 1024 * 1024;
+
+export interface OfflineChapter {
+  chapterId: string;
+  audiobookId: string;
+  mimeType: string;
+  sizeBytes: number;
+  chunkCount: number;
+  // Set for chapters available through a subscription; evicted once it passes
+  expiresAt: string | null;
+  downloadedAt: string;
+}
+
+export interface OfflineAudiobook {
+  audiobookId: string;
+  audiobook: Audiobook;
+  // Chapter metadata, so the downloads list and the player work without the API
+  chapters: Chapter[];
+  downloadedAt: string;
+  licenseCheckedAt: string;
+}
+
+export interface OfflineDownloadSummary extends OfflineAudiobook {
+  sizeBytes: number;
+  downloadedChapterIds: string[];
+}
+
+export interface OfflineStorageUsage {
+  usedBytes: number;
+  // What the browser lets the site use in total, when it says
+  quotaBytes: number | null;
+}
+
+export interface DownloadProgress {
+  bytesDone: number;
+  bytesTotal: number;
+  chaptersDone: number;
+  chaptersTotal: number;
+}
+
+export interface StoredProgressUpdate {
+  chapterId: string;
+  positionSeconds: number;
+  completed?: boolean;
+  updatedAt: string;
+}
+
+interface StoredChunk {
+  chapterId: string;
+  index: number;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== "undefined"
+    && window.isSecureContext
+    && "indexedDB" in window
+    && !!window.crypto?.subtle;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore("audiobooks", { keyPath: "audiobookId" });
+        db.createObjectStore("chapters", { keyPath: "chapterId" })
+          .createIndex("audiobookId", "audiobookId");
+        db.createObjectStore("chunks", { keyPath: ["chapterId", "index"] });
+        db.createObjectStore("progress", { keyPath: "chapterId" });
+        db.createObjectStore("meta");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = (async () => {
+      const db = await openDb();
+      const existing = await requestToPromise<CryptoKey | undefined>(
+        db.transaction("meta").objectStore("meta").get("encryptionKey")
+      );
+      if (existing) return existing;
+
+      const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+      const tx = db.transaction("meta", "readwrite");
+      tx.objectStore("meta").put(key, "encryptionKey");
+      await transactionDone(tx);
+      return key;
+    })().catch((error) => {
+      keyPromise = null;
+      throw error;
+    });
+  }
+  return keyPromise;
+}
+
+function chunkRange(chapterId: string): IDBKeyRange {
+  return IDBKeyRange.bound([chapterId, 0], [chapterId, Number.MAX_SAFE_INTEGER]);
+}
+
+// Active downloads, shared so the progress survives navigating between screens.
+// Replaced on every change so useSyncExternalStore sees a new snapshot.
+let activeDownloads = new Map<string, DownloadProgress>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToDownloads(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getActiveDownloads(): Map<string, DownloadProgress> {
+  return activeDownloads;
+}
+
+function setDownloadProgress(audiobookId: string, progress: DownloadProgress | null) {
+  activeDownloads = new Map(activeDownloads);
+  if (progress) {
+    activeDownloads.set(audiobookId, progress);
+  } else {
+    activeDownloads.delete(audiobookId);
+  }
+  notify();
+}
+
+async function storeChunk(db: IDBDatabase, key: CryptoKey, chapterId: string, index: number, plain: Uint8Array) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plain);
+  const tx = db.transaction("chunks", "readwrite");
+  tx.objectStore("chunks").put({ chapterId, index, iv, data } satisfies StoredChunk);
+  await transactionDone(tx);
+}
+
+function concat(parts: Uint8Array[], length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function deleteChapterData(db: IDBDatabase, chapterId: string) {
+  const tx = db.transaction(["chapters", "chunks"], "readwrite");
+  tx.objectStore("chapters").delete(chapterId);
+  tx.objectStore("chunks").delete(chunkRange(chapterId));
+  await transactionDone(tx);
+}
+
+/**
+ * Download a chapter's audio and store it encrypted, reporting bytes as they arrive
+ * Returns the stored size. A failed download leaves nothing behind.
+ */
+async function downloadChapter(
+  db: IDBDatabase,
+  chapter: Chapter,
+  expiresAt: string | null,
+  onBytes: (bytes: number) => void
+): Promise<number> {
+  if (!chapter.audioUrl) {
+    throw new Error(`Chapter ${chapter.title} has no audio`);
+  }
+
+  // Same-origin media sends the session cookie; external URLs are fetched anonymously
+  const res = await fetch(chapter.audioUrl);
+  if (!res.ok || !res.body) {
+    throw new Error(`${res.status}: ${res.statusText}`);
+  }
+
+  const key = await getEncryptionKey();
+  const reader = res.body.getReader();
+  let buffered: Uint8Array[] = [];
+  let bufferedBytes = 0;
+  let chunkCount = 0;
+  let sizeBytes = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        buffered.push(value);
+        bufferedBytes += value.length;
+        sizeBytes += value.length;
+        onBytes(value.length);
+      }
+
+      while (bufferedBytes >= CHUNK_SIZE || (done && bufferedBytes > 0)) {
+        const all = concat(buffered, bufferedBytes);
+        const piece = all.subarray(0, Math.min(CHUNK_SIZE, all.length));
+        await storeChunk(db, key, chapter.id, chunkCount++, piece);
+        const rest = all.subarray(piece.length);
+        buffered = rest.length > 0 ? [rest] : [];
+        bufferedBytes = rest.length;
+      }
+
+      if (done) break;
+    }
+
+    const record: OfflineChapter = {
+      chapterId: chapter.id,
+      audiobookId: chapter.audiobookId,
+      mimeType: res.headers.get("Content-Type") || "audio/mpeg",
+      sizeBytes,
+      chunkCount,
+      expiresAt,
+      downloadedAt: new Date().toISOString(),
+    };
+    const tx = db.transaction("chapters", "readwrite");
+    tx.objectStore("chapters").put(record);
+    await transactionDone(tx);
+    return sizeBytes;
+  } catch (error) {
+    await deleteChapterData(db, chapter.id);
+    throw error;
+  }
+}
+
+/**
+ * Download the playable chapters of an audiobook for offline listening
+ * Chapters already on the device are skipped, so retrying after a dropped
+ * connection continues where it stopped. Licenses come from the server check
+ * made right before, which is what sets the expiry of subscription downloads.
+ */
+export async function downloadAudiobook(audiobook: Audiobook, chapters: Chapter[], licenses: OfflineLicense[]): Promise<void> {
+  if (activeDownloads.has(audiobook.id)) return;
+
+  const db = await openDb();
+  const licenseByChapter = new Map(licenses.map(license => [license.chapterId, license]));
+  const existing = await requestToPromise<OfflineChapter[]>(
+    db.transaction("chapters").objectStore("chapters").index("audiobookId").getAll(audiobook.id)
+  );
+  const downloadedIds = new Set(existing.map(chapter => chapter.chapterId));
+  const pending = chapters.filter(chapter =>
+    chapter.audioUrl && !downloadedIds.has(chapter.id) && licenseByChapter.get(chapter.id)?.hasAccess
+  );
+
+  // Ask the browser not to clear the downloads when space runs low
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  const now = new Date().toISOString();
+  const tx = db.transaction("audiobooks", "readwrite");
+  tx.objectStore("audiobooks").put({
+    audiobookId: audiobook.id,
+    audiobook,
+    chapters,
+    downloadedAt: now,
+    licenseCheckedAt: now,
+  } satisfies OfflineAudiobook);
+  await transactionDone(tx);
+
+  const progress: DownloadProgress = {
+    bytesDone: 0,
+    bytesTotal: pending.reduce((sum, chapter) => sum + (chapter.audioFileSize || 0), 0),
+    chaptersDone: 0,
+    chaptersTotal: pending.length,
+  };
+  setDownloadProgress(audiobook.id, { ...progress });
+
+  try {
+    for (const chapter of pending) {
+      const license = licenseByChapter.get(chapter.id);
+      const expiresAt = license?.expiresAt ?? null;
+      // The license check signs a fresh URL; the one in the cached chapter list may have expired
+      const source = license?.audioUrl ? { ...chapter, audioUrl: license.audioUrl } : chapter;
+      await downloadChapter(db, source, expiresAt ? new Date(expiresAt).toISOString() : null, (bytes) => {
+        progress.bytesDone += bytes;
+        // File sizes in the catalog can be missing or stale
+        progress.bytesTotal = Math.max(progress.bytesTotal, progress.bytesDone);
+        setDownloadProgress(audiobook.id, { ...progress });
+      });
+      progress.chaptersDone++;
+      setDownloadProgress(audiobook.id, { ...progress });
+    }
+  } finally {
+    setDownloadProgress(audiobook.id, null);
+    await removeEmptyAudiobooks(db);
+  }
+}
+
+async function removeEmptyAudiobooks(db: IDBDatabase) {
+  const [audiobooks, chapters] = await Promise.all([
+    requestToPromise<OfflineAudiobook[]>(db.transaction("audiobooks").objectStore("audiobooks").getAll()),
+    requestToPromise<OfflineChapter[]>(db.transaction("chapters").objectStore("chapters").getAll()),
+  ]);
+  const withChapters = new Set(chapters.map(chapter => chapter.audiobookId));
+  const empty = audiobooks.filter(audiobook =>
+    !withChapters.has(audiobook.audiobookId) && !activeDownloads.has(audiobook.audiobookId)
+  );
+  if (empty.length === 0) return;
+
+  const tx = db.transaction("audiobooks", "readwrite");
+  empty.forEach(audiobook => tx.objectStore("audiobooks").delete(audiobook.audiobookId));
+  await transactionDone(tx);
+}
+
+export async function getOfflineDownloads(): Promise<OfflineDownloadSummary[]> {
+  if (!isOfflineSupported()) return [];
+
+  const db = await openDb();
+  const [audiobooks, chapters] = await Promise.all([
+    requestToPromise<OfflineAudiobook[]>(db.transaction("audiobooks").objectStore("audiobooks").getAll()),
+    requestToPromise<OfflineChapter[]>(db.transaction("chapters").objectStore("chapters").getAll()),
+  ]);
+
+  return audiobooks
+    .map(audiobook => {
+      const downloaded = chapters.filter(chapter => chapter.audiobookId === audiobook.audiobookId);
+      return {
+        ...audiobook,
+        sizeBytes: downloaded.reduce((sum, chapter) => sum + chapter.sizeBytes, 0),
+        downloadedChapterIds: downloaded.map(chapter => chapter.chapterId),
+      };
+    })
+    .sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt));
+}
+
+export async function getOfflineStorageUsage(): Promise<OfflineStorageUsage> {
+  const downloads = await getOfflineDownloads();
+  const usedBytes = downloads.reduce((sum, download) => sum + download.sizeBytes, 0);
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return { usedBytes, quotaBytes: estimate?.quota ?? null };
+}
+
+/**
+ * Decrypt a downloaded chapter and return an object URL for the audio element
+ * The caller must revoke the URL when done with it. Returns null when the
+ * chapter isn't on the device or has expired.
+ */
+export async function getOfflineChapterUrl(chapterId: string): Promise<string | null> {
+  if (!isOfflineSupported()) return null;
+
+  const db = await openDb();
+  const record = await requestToPromise<OfflineChapter | undefined>(
+    db.transaction("chapters").objectStore("chapters").get(chapterId)
+  );
+  if (!record) return null;
+  if (record.expiresAt && new Date(record.expiresAt) <= new Date()) {
+    await evictExpiredDownloads();
+    return null;
+  }
+
+  const key = await getEncryptionKey();
+  const chunks = await requestToPromise<StoredChunk[]>(
+    db.transaction("chunks").objectStore("chunks").getAll(chunkRange(chapterId))
+  );
+  if (chunks.length !== record.chunkCount) return null;
+
+  const parts: ArrayBuffer[] = [];
+  for (const chunk of chunks) {
+    parts.push(await crypto.subtle.decrypt({ name: "AES-GCM", iv: chunk.iv }, key, chunk.data));
+  }
+  return URL.createObjectURL(new Blob(parts, { type: record.mimeType }));
+}
+
+export async function getOfflineChapterIds(): Promise<string[]> {
+  if (!isOfflineSupported()) return [];
+  const db = await openDb();
+  return requestToPromise<string[]>(
+    db.transaction("chapters").objectStore("chapters").getAllKeys() as IDBRequest<string[]>
+  );
+}
+
+export async function removeOfflineAudiobook(audiobookId: string): Promise<void> {
+  const db = await openDb();
+  const chapterIds = await requestToPromise<string[]>(
+    db.transaction("chapters").objectStore("chapters").index("audiobookId").getAllKeys(audiobookId) as IDBRequest<string[]>
+  );
+  const tx = db.transaction(["audiobooks", "chapters", "chunks"], "readwrite");
+  tx.objectStore("audiobooks").delete(audiobookId);
+  for (const chapterId of chapterIds) {
+    tx.objectStore("chapters").delete(chapterId);
+    tx.objectStore("chunks").delete(chunkRange(chapterId));
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Apply a license check from the server
+ * Chapters the listener lost access to are deleted, the rest get their expiry
+ * refreshed (a renewed subscription pushes it forward). Returns how many
+ * chapters were evicted.
+ */
+export async function applyOfflineLicenses(licenses: OfflineLicense[]): Promise<number> {
+  const db = await openDb();
+  const chapters = await requestToPromise<OfflineChapter[]>(
+    db.transaction("chapters").objectStore("chapters").getAll()
+  );
+  const licenseByChapter = new Map(licenses.map(license => [license.chapterId, license]));
+  const now = new Date().toISOString();
+  let evicted = 0;
+
+  const tx = db.transaction(["audiobooks", "chapters", "chunks"], "readwrite");
+  const checkedAudiobooks = new Set<string>();
+  for (const chapter of chapters) {
+    const license = licenseByChapter.get(chapter.chapterId);
+    if (!license) continue;
+
+    if (!license.hasAccess) {
+      tx.objectStore("chapters").delete(chapter.chapterId);
+      tx.objectStore("chunks").delete(chunkRange(chapter.chapterId));
+      evicted++;
+    } else {
+      const expiresAt = license.expiresAt ? new Date(license.expiresAt).toISOString() : null;
+      tx.objectStore("chapters").put({ ...chapter, expiresAt });
+    }
+    checkedAudiobooks.add(chapter.audiobookId);
+  }
+
+  const audiobookStore = tx.objectStore("audiobooks");
+  for (const audiobookId of Array.from(checkedAudiobooks)) {
+    const request = audiobookStore.get(audiobookId);
+    request.onsuccess = () => {
+      if (request.result) {
+        audiobookStore.put({ ...request.result, licenseCheckedAt: now });
+      }
+    };
+  }
+  await transactionDone(tx);
+
+  await removeEmptyAudiobooks(db);
+  return evicted;
+}
+
+/**
+ * Delete subscription downloads whose paid period has ended
+ * Runs without a connection too, so an expired subscription can't be kept
+ * alive by staying offline. Returns how many chapters were evicted.
+ */
+export async function evictExpiredDownloads(): Promise<number> {
+  if (!isOfflineSupported()) return 0;
+
+  const db = await openDb();
+  const chapters = await requestToPromise<OfflineChapter[]>(
+    db.transaction("chapters").objectStore("chapters").getAll()
+  );
+  const now = new Date();
+  const expired = chapters.filter(chapter => chapter.expiresAt && new Date(chapter.expiresAt) <= now);
+  if (expired.length === 0) return 0;
+
+  for (const chapter of expired) {
+    await deleteChapterData(db, chapter.chapterId);
+  }
+  await removeEmptyAudiobooks(db);
+  return expired.length;
+}
+
+/**
+ * Downloads belong to the account that made them. Wipes everything when a
+ * different account signs in on the same device.
+ */
+export async function claimOfflineDownloads(userId: string): Promise<void> {
+  if (!isOfflineSupported()) return;
+
+  const db = await openDb();
+  const ownerId = await requestToPromise<string | undefined>(
+    db.transaction("meta").objectStore("meta").get("ownerId")
+  );
+  if (ownerId && ownerId !== userId) {
+    await clearOfflineData();
+  }
+
+  const tx = db.transaction("meta", "readwrite");
+  tx.objectStore("meta").put(userId, "ownerId");
+  await transactionDone(tx);
+}
+
+// Removes every download, queued progress update and the encryption key (used on logout)
+export async function clearOfflineData(): Promise<void> {
+  if (!isOfflineSupported()) return;
+
+  const db = await openDb();
+  const tx = db.transaction(["audiobooks", "chapters", "chunks", "progress", "meta"], "readwrite");
+  for (const name of ["audiobooks", "chapters", "chunks", "progress", "meta"]) {
+    tx.objectStore(name).clear();
+  }
+  await transactionDone(tx);
+  keyPromise = null;
+  notify();
+}
+
+// Progress recorded while offline, kept until the server accepts it
+export async function saveQueuedProgress(updates: StoredProgressUpdate[]): Promise<void> {
+  if (!isOfflineSupported() || updates.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction("progress", "readwrite");
+  const store = tx.objectStore("progress");
+  for (const update of updates) {
+    const request = store.get(update.chapterId);
+    request.onsuccess = () => {
+      const stored: StoredProgressUpdate | undefined = request.result;
+      if (!stored || stored.updatedAt <= update.updatedAt) {
+        store.put(update);
+      }
+    };
+  }
+  await transactionDone(tx);
+}
+
+export async function getQueuedProgress(): Promise<StoredProgressUpdate[]> {
+  if (!isOfflineSupported()) return [];
+  const db = await openDb();
+  return requestToPromise<StoredProgressUpdate[]>(db.transaction("progress").objectStore("progress").getAll());
+}
+
+// Forget updates the server has accepted, unless a newer position was saved meanwhile
+export async function removeQueuedProgress(updates: StoredProgressUpdate[]): Promise<void> {
+  if (!isOfflineSupported() || updates.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction("progress", "readwrite");
+  const store = tx.objectStore("progress");
+  for (const update of updates) {
+    const request = store.get(update.chapterId);
+    request.onsuccess = () => {
+      const stored: StoredProgressUpdate | undefined = request.result;
+      if (stored && stored.updatedAt <= update.updatedAt) {
+        store.delete(update.chapterId);
+      }
+    };
+  }
+  await transactionDone(tx);
+}
@@ -46,6 +46,13 @@ interface ApiRequestOptions {
   raw?: boolean;
 }
 
+// Registered by <StepUpDialog />: asks for a two-factor code and resolves true once it is accepted
+let stepUpHandler: (() => Promise<boolean>) | null = null;
+
+export function setStepUpHandler(handler: (() => Promise<boolean>) | null) {
+  stepUpHandler = handler;
+}
+
 // Overload for raw Response mode
 export async function apiRequest(
   method: string,
@@ -78,13 +85,15 @@ export async function apiRequest<T = any>(
 
   // Check if response is OK
   if (!checkResponseOk(res)) {
-    // For raw mode, throw after cloning to preserve body
-    if (options?.raw) {
-      const apiError = await parseErrorResponse(res.clone());
-      throw apiError;
+    // For raw mode, parse a clone to preserve body; for JSON mode, consume body to create error
+    const apiError = await parseErrorResponse(options?.raw ? res.clone() : res);
+
+    // Sensitive admin actions need a recent two-factor code; retry once it has been entered
+    if (apiError.status === 403 && apiError.code === "STEP_UP_REQUIRED" && stepUpHandler && await stepUpHandler()) {
+      return options?.raw
+        ? apiRequest(method, url, data, { raw: true })
+        : apiRequest<T>(method, url, data);
     }
-    // For JSON mode, consume body to create error
-    const apiError = await parseErrorResponse(res);
     throw apiError;
   }
   
@@ -124,6 +133,10 @@ export const getQueryFn: <T>(options: {
 
     if (!checkResponseOk(res)) {
       const apiError = await parseErrorResponse(res);
+      // Admin pages opened from a session that hasn't passed two-factor yet
+      if (apiError.status === 403 && apiError.code === "STEP_UP_REQUIRED" && stepUpHandler && await stepUpHandler()) {
+        return apiRequest("GET", queryKey.join("/") as string);
+      }
       throw apiError;
     }
     
@@ -0,0 +1,25 @@
+import type { SubscriptionEventWithDetails } from "@shared/schema";
+
+const EVENT_LABELS: Record<SubscriptionEventWithDetails["type"], string> = {
+  ACTIVATED: "Suscripcion activada",
+  RENEWED: "Renovacion",
+  PAYMENT_FAILED: "Pago fallido",
+  SUSPENDED: "Suspendida por impago",
+  PLAN_CHANGE_REQUESTED: "Cambio de plan solicitado",
+  PLAN_CHANGED: "Cambio de plan",
+  PLAN_CHANGE_SCHEDULED: "Cambio de plan programado",
+  PAUSED: "Pausada",
+  RESUMED: "Reanudada",
+  CANCELED: "Cancelada",
+  EXPIRED: "Finalizada",
+};
+
+// One line of the subscription history, as shown to subscribers and admins
+export function describeSubscriptionEvent(event: SubscriptionEventWithDetails): string {
+  const label = EVENT_LABELS[event.type];
+  if (event.type.startsWith("PLAN_CHANGE") && event.fromPlanName && event.toPlanName) {
+    return `${label}: ${event.fromPlanName} → ${event.toPlanName}`;
+  }
+  const planName = event.toPlanName || event.fromPlanName;
+  return planName ? `${label} (${planName})` : label;
+}
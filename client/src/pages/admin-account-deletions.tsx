@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, UserX, XCircle } from "lucide-react";
+import type { AccountDeletionRequestWithUser } from "@shared/schema";
+
+type DeletionStatus = AccountDeletionRequestWithUser["status"];
+
+const STATUS_LABELS: Record<DeletionStatus, string> = {
+  PENDING: "Pendiente",
+  CANCELLED: "Cancelada",
+  COMPLETED: "Eliminada",
+};
+
+const STATUS_VARIANTS: Record<DeletionStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  PENDING: "destructive",
+  CANCELLED: "outline",
+  COMPLETED: "secondary",
+};
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString("es-ES", { dateStyle: "medium" }) : "-";
+}
+
+/**
+ * Account deletion requests (GDPR erasure)
+ * Pending requests are carried out automatically once their cooling-off
+ * period ends; until then an admin can cancel them on the user's behalf.
+ */
+export default function AdminAccountDeletions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<DeletionStatus | "ALL">("PENDING");
+
+  const { data: requests = [], isLoading } = useQuery<AccountDeletionRequestWithUser[]>({
+    queryKey: ["/api/admin/account-deletions", statusFilter],
+    queryFn: () => apiRequest<AccountDeletionRequestWithUser[]>("GET", `/api/admin/account-deletions?status=${statusFilter}`),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/admin/account-deletions/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/account-deletions"] });
+      toast({ title: "Eliminacion cancelada", description: "La cuenta seguira activa" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo cancelar la eliminacion" });
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-8">
+      <div>
+        <h1 className="font-serif text-4xl font-bold" data-testid="text-page-title">
+          Eliminacion de Cuentas
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Solicitudes de los usuarios para eliminar su cuenta. Se anonimizan al terminar el plazo de 30 dias, conservando las facturas.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <UserX className="w-5 h-5" />
+              Solicitudes
+            </CardTitle>
+            <CardDescription>
+              {requests.length} {requests.length === 1 ? "solicitud" : "solicitudes"}
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as DeletionStatus | "ALL")}>
+            <SelectTrigger className="w-40" data-testid="select-deletion-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">Todas</SelectItem>
+              {(Object.keys(STATUS_LABELS) as DeletionStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No hay solicitudes</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>Solicitada</TableHead>
+                    <TableHead>Eliminacion</TableHead>
+                    <TableHead>Motivo</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((request) => (
+                    <TableRow key={request.id} data-testid={`row-deletion-${request.id}`}>
+                      <TableCell>
+                        <p className="font-medium">{request.username}</p>
+                        <p className="text-xs text-muted-foreground">{request.email}</p>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(request.createdAt)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(request.status === "COMPLETED" ? request.completedAt : request.scheduledFor)}
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <p className="text-sm text-muted-foreground line-clamp-2">{request.reason || "-"}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[request.status]}>{STATUS_LABELS[request.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {request.status === "PENDING" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => cancelMutation.mutate(request.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-deletion-${request.id}`}
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Cancelar
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
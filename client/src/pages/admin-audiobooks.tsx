@@ -42,9 +42,10 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trash2, Search, BookOpen, Eye, Plus, Upload, X, Pencil, Globe, GlobeLock } from "lucide-react";
+import { Loader2, Trash2, Search, BookOpen, Eye, Plus, Upload, X, Pencil, Globe, GlobeLock, Users, Check, MessageSquare } from "lucide-react";
 import { Link } from "wouter";
-import type { Audiobook } from "@shared/schema";
+import { StarRating } from "@/components/star-rating";
+import type { Audiobook, Review, ReviewWithAudiobook, SeriesWithVolumeCount } from "@shared/schema";
 
 async function uploadCoverImage(file: File): Promise<string> {
   const formData = new FormData();
@@ -80,6 +81,147 @@ const CATEGORIES = [
   "Young Adult",
 ];
 
+// Same badge colours as the audiobook status column
+function statusBadgeVariant(status: Review["status"]) {
+  return status === "APPROVED" ? "default" : status === "REJECTED" ? "destructive" : "secondary";
+}
+
+function ReviewModeration() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<Review["status"] | "ALL">("PENDING_APPROVAL");
+
+  const { data: reviews = [], isLoading } = useQuery<ReviewWithAudiobook[]>({
+    queryKey: ["/api/admin/reviews", statusFilter],
+    queryFn: () => apiRequest<ReviewWithAudiobook[]>("GET", `/api/admin/reviews${statusFilter === "ALL" ? "" : `?status=${statusFilter}`}`),
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: "APPROVED" | "REJECTED" }) =>
+      apiRequest<Review>("POST", `/api/admin/reviews/${id}/moderate`, { status }),
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audiobooks", review.audiobookId] });
+      toast({
+        title: review.status === "APPROVED" ? "Reseña aprobada" : "Reseña rechazada",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo moderar la reseña.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="font-serif text-2xl flex items-center gap-2">
+              <MessageSquare className="w-6 h-6" />
+              Moderacion de Reseñas
+            </CardTitle>
+            <CardDescription>
+              Las reseñas con texto no se publican hasta que se aprueban
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as Review["status"] | "ALL")}>
+            <SelectTrigger className="w-48" data-testid="select-review-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="PENDING_APPROVAL">Pendientes</SelectItem>
+              <SelectItem value="APPROVED">Aprobadas</SelectItem>
+              <SelectItem value="REJECTED">Rechazadas</SelectItem>
+              <SelectItem value="ALL">Todas</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No hay reseñas</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Audiolibro</TableHead>
+                  <TableHead>Usuario</TableHead>
+                  <TableHead>Valoracion</TableHead>
+                  <TableHead>Reseña</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Acciónes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reviews.map((review) => (
+                  <TableRow key={review.id} data-testid={`row-review-${review.id}`}>
+                    <TableCell>
+                      <Link href={`/audiobook/${review.audiobook.id}`} className="font-medium hover:underline">
+                        {review.audiobook.title}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {review.user.username}
+                      {review.isVerifiedPurchase && (
+                        <Badge variant="outline" className="ml-2">Compra verificada</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <StarRating value={review.rating} />
+                    </TableCell>
+                    <TableCell className="max-w-md">
+                      <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-line">{review.body || "—"}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusBadgeVariant(review.status)}>
+                        {review.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {review.status !== "APPROVED" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => moderateMutation.mutate({ id: review.id, status: "APPROVED" })}
+                            disabled={moderateMutation.isPending}
+                            data-testid={`button-approve-review-${review.id}`}
+                          >
+                            <Check className="w-4 h-4 text-green-600" />
+                          </Button>
+                        )}
+                        {review.status !== "REJECTED" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => moderateMutation.mutate({ id: review.id, status: "REJECTED" })}
+                            disabled={moderateMutation.isPending}
+                            data-testid={`button-reject-review-${review.id}`}
+                          >
+                            <X className="w-4 h-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function AdminAudiobooks() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
@@ -104,9 +246,10 @@ export default function AdminAudiobooks() {
     priceCents: 0,
     currency: "EUR",
     isFree: true,
+    watermarkExports: false,
     amazonEbookUrl: "",
     amazonPrintUrl: "",
-    seriesName: "",
+    seriesId: "",
     seriesIndex: "",
   });
 
@@ -114,6 +257,10 @@ export default function AdminAudiobooks() {
     queryKey: ["/api/admin/audiobooks"],
   });
 
+  const { data: allSeries = [] } = useQuery<SeriesWithVolumeCount[]>({
+    queryKey: ["/api/admin/series"],
+  });
+
   const deleteAudiobookMutation = useMutation({
     mutationFn: async (audiobookId: string) => {
       return await apiRequest("DELETE", `/api/admin/audiobooks/${audiobookId}`, {});
@@ -238,9 +385,10 @@ export default function AdminAudiobooks() {
       priceCents: 0,
       currency: "EUR",
       isFree: true,
+      watermarkExports: false,
       amazonEbookUrl: "",
       amazonPrintUrl: "",
-      seriesName: "",
+      seriesId: "",
       seriesIndex: "",
     });
     setCoverFile(null);
@@ -307,9 +455,10 @@ export default function AdminAudiobooks() {
       priceCents: audiobook.priceCents,
       currency: audiobook.currency,
       isFree: audiobook.isFree,
+      watermarkExports: audiobook.watermarkExports,
       amazonEbookUrl: audiobook.amazonEbookUrl || "",
       amazonPrintUrl: audiobook.amazonPrintUrl || "",
-      seriesName: audiobook.seriesName || "",
+      seriesId: audiobook.seriesId || "",
       seriesIndex: audiobook.seriesIndex?.toString() || "",
     });
     setCoverPreview(audiobook.coverArtUrl || null);
@@ -350,7 +499,7 @@ export default function AdminAudiobooks() {
     const dataToSubmit = {
       ...formData,
       coverArtUrl,
-      seriesName: formData.seriesName || null,
+      seriesId: formData.seriesId || null,
       seriesIndex: formData.seriesIndex ? parseInt(formData.seriesIndex) : null,
     };
     updateAudiobookMutation.mutate({ 
@@ -398,7 +547,7 @@ export default function AdminAudiobooks() {
     const dataToSubmit = {
       ...formData,
       coverArtUrl,
-      seriesName: formData.seriesName || null,
+      seriesId: formData.seriesId || null,
       seriesIndex: formData.seriesIndex ? parseInt(formData.seriesIndex) : null,
     };
     createAudiobookMutation.mutate(dataToSubmit);
@@ -499,7 +648,7 @@ export default function AdminAudiobooks() {
                         )}
                       </TableCell>
                       <TableCell>
-                        <Badge variant={audiobook.status === "APPROVED" ? "default" : audiobook.status === "REJECTED" ? "destructive" : "secondary"}>
+                        <Badge variant={statusBadgeVariant(audiobook.status)}>
                           {audiobook.status}
                         </Badge>
                       </TableCell>
@@ -537,6 +686,13 @@ export default function AdminAudiobooks() {
                               <Eye className="w-4 h-4" />
                             </Button>
                           </Link>
+                          {audiobook.visibility !== "PUBLIC" && (
+                            <Link href={`/manage-invitations/podcast/${audiobook.id}`}>
+                              <Button variant="ghost" size="icon" data-testid={`button-invitations-audiobook-${audiobook.id}`}>
+                                <Users className="w-4 h-4" />
+                              </Button>
+                            </Link>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -564,6 +720,8 @@ export default function AdminAudiobooks() {
         </CardContent>
       </Card>
 
+      <ReviewModeration />
+
       {/* Create Dialog */}
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -781,6 +939,21 @@ export default function AdminAudiobooks() {
               </div>
             )}
             
+            <div className="flex items-center justify-between border rounded-lg p-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="watermarkExports">Marca de agua en descargas</Label>
+                <p className="text-sm text-muted-foreground">
+                  Incluir el nombre y email del comprador en los metadatos del audiolibro descargado
+                </p>
+              </div>
+              <Switch
+                id="watermarkExports"
+                checked={formData.watermarkExports}
+                onCheckedChange={(checked) => setFormData({ ...formData, watermarkExports: checked })}
+                data-testid="switch-audiobook-watermark"
+              />
+            </div>
+            
             <div className="grid gap-2">
               <Label htmlFor="amazonEbookUrl">URL Amazon Ebook</Label>
               <Input
@@ -807,14 +980,21 @@ export default function AdminAudiobooks() {
             
             <div className="grid grid-cols-2 gap-4">
               <div className="grid gap-2">
-                <Label htmlFor="seriesName">Nombre de la Serie</Label>
-                <Input
-                  id="seriesName"
-                  value={formData.seriesName}
-                  onChange={(e) => setFormData({ ...formData, seriesName: e.target.value })}
-                  placeholder="Saga de los Olvidados"
-                  data-testid="input-audiobook-series-name"
-                />
+                <Label htmlFor="seriesId">Serie</Label>
+                <Select
+                  value={formData.seriesId || "none"}
+                  onValueChange={(value) => setFormData({ ...formData, seriesId: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger id="seriesId" data-testid="select-audiobook-series">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sin serie</SelectItem>
+                    {allSeries.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="seriesIndex">Orden en la Serie</Label>
@@ -829,7 +1009,7 @@ export default function AdminAudiobooks() {
                 />
               </div>
             </div>
-            <p className="text-xs text-muted-foreground">Si el audiolibro pertenece a una serie, indica el nombre y el orden (1, 2, 3...)</p>
+            <p className="text-xs text-muted-foreground">Si el audiolibro pertenece a una serie, eligela e indica el orden (1, 2, 3...). Las series se crean en <Link href="/admin/series" className="underline">Series</Link></p>
           </div>
           
           <DialogFooter>
@@ -1072,6 +1252,16 @@ export default function AdminAudiobooks() {
               <Label htmlFor="edit-isFree">Audiolibro gratuito</Label>
             </div>
             
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="edit-watermarkExports"
+                checked={formData.watermarkExports}
+                onCheckedChange={(checked) => setFormData({ ...formData, watermarkExports: checked })}
+                data-testid="switch-edit-audiobook-watermark"
+              />
+              <Label htmlFor="edit-watermarkExports">Marca de agua en descargas</Label>
+            </div>
+            
             {!formData.isFree && (
               <div className="grid grid-cols-2 gap-4">
                 <div className="grid gap-2">
@@ -1135,14 +1325,21 @@ export default function AdminAudiobooks() {
             
             <div className="grid grid-cols-2 gap-4">
               <div className="grid gap-2">
-                <Label htmlFor="edit-seriesName">Nombre de la Serie</Label>
-                <Input
-                  id="edit-seriesName"
-                  value={formData.seriesName}
-                  onChange={(e) => setFormData({ ...formData, seriesName: e.target.value })}
-                  placeholder="Saga de los Olvidados"
-                  data-testid="input-edit-audiobook-series-name"
-                />
+                <Label htmlFor="edit-seriesId">Serie</Label>
+                <Select
+                  value={formData.seriesId || "none"}
+                  onValueChange={(value) => setFormData({ ...formData, seriesId: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger id="edit-seriesId" data-testid="select-edit-audiobook-series">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sin serie</SelectItem>
+                    {allSeries.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="edit-seriesIndex">Orden en la Serie</Label>
@@ -1157,7 +1354,7 @@ export default function AdminAudiobooks() {
                 />
               </div>
             </div>
-            <p className="text-xs text-muted-foreground">Si el audiolibro pertenece a una serie, indica el nombre y el orden (1, 2, 3...)</p>
+            <p className="text-xs text-muted-foreground">Si el audiolibro pertenece a una serie, eligela e indica el orden (1, 2, 3...). Las series se crean en <Link href="/admin/series" className="underline">Series</Link></p>
           </div>
           
           <DialogFooter>
@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, FileSpreadsheet, Loader2, ScrollText } from "lucide-react";
+import type { AdminAuditEntry, AdminAuditLogPage } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+const METHOD_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  POST: "default",
+  PUT: "secondary",
+  PATCH: "secondary",
+  DELETE: "destructive",
+};
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString("es-ES", { dateStyle: "short", timeStyle: "medium" });
+}
+
+function formatJson(value: string | null): string {
+  if (!value) return "-";
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+interface AuditFilters {
+  actorId: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { actorId: "ALL", action: "ALL", targetType: "ALL", targetId: "", from: "", to: "" };
+
+function buildParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.actorId !== "ALL") params.set("actorId", filters.actorId);
+  if (filters.action !== "ALL") params.set("action", filters.action);
+  if (filters.targetType !== "ALL") params.set("targetType", filters.targetType);
+  if (filters.targetId.trim()) params.set("targetId", filters.targetId.trim());
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+/**
+ * Admin audit log
+ * Every admin write is recorded with who made it, from where and what
+ * changed; entries can't be edited or removed.
+ */
+export default function AdminAuditLog() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+  const [selectedEntry, setSelectedEntry] = useState<AdminAuditEntry | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data, isLoading } = useQuery<AdminAuditLogPage>({
+    queryKey: ["/api/admin/audit-log", filters, page],
+    queryFn: () => {
+      const params = buildParams(filters);
+      params.set("limit", String(PAGE_SIZE));
+      params.set("offset", String(page * PAGE_SIZE));
+      return apiRequest<AdminAuditLogPage>("GET", `/api/admin/audit-log?${params.toString()}`);
+    },
+  });
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(0);
+  };
+
+  const exportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch(`/api/admin/audit-log/export?${buildParams(filters).toString()}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Error al exportar");
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `auditoria_${new Date().toISOString().split("T")[0]}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (e) {
+      console.error("Export error:", e);
+      toast({ variant: "destructive", title: "Error", description: "No se pudo exportar el registro" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-8">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="font-serif text-4xl font-bold" data-testid="text-page-title">
+            Auditoria
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Registro de todas las acciones de los administradores
+          </p>
+        </div>
+        <Button variant="outline" onClick={exportCsv} disabled={isExporting} data-testid="button-export-audit-log">
+          {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileSpreadsheet className="w-4 h-4 mr-2" />}
+          Exportar CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="w-5 h-5" />
+            Acciones
+          </CardTitle>
+          <CardDescription>
+            {total} {total === 1 ? "accion registrada" : "acciones registradas"} con estos filtros
+          </CardDescription>
+          <div className="grid gap-4 pt-4 md:grid-cols-3 lg:grid-cols-6">
+            <div className="space-y-1">
+              <Label>Administrador</Label>
+              <Select value={filters.actorId} onValueChange={(v) => updateFilter("actorId", v)}>
+                <SelectTrigger data-testid="select-audit-actor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">Todos</SelectItem>
+                  {data?.actors.filter((actor) => actor.id).map((actor) => (
+                    <SelectItem key={actor.id!} value={actor.id!}>{actor.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 lg:col-span-2">
+              <Label>Accion</Label>
+              <Select value={filters.action} onValueChange={(v) => updateFilter("action", v)}>
+                <SelectTrigger data-testid="select-audit-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">Todas</SelectItem>
+                  {data?.actions.map((action) => (
+                    <SelectItem key={action} value={action}>{action}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Tipo</Label>
+              <Select value={filters.targetType} onValueChange={(v) => updateFilter("targetType", v)}>
+                <SelectTrigger data-testid="select-audit-target-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">Todos</SelectItem>
+                  {data?.targetTypes.map((targetType) => (
+                    <SelectItem key={targetType} value={targetType}>{targetType}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">Desde</Label>
+              <Input id="audit-from" type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} data-testid="input-audit-from" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">Hasta</Label>
+              <Input id="audit-to" type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} data-testid="input-audit-to" />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="audit-target-id">ID del objetivo</Label>
+              <Input
+                id="audit-target-id"
+                value={filters.targetId}
+                onChange={(e) => updateFilter("targetId", e.target.value)}
+                placeholder="Usuario, audiolibro, codigo..."
+                data-testid="input-audit-target-id"
+              />
+            </div>
+            <div className="flex items-end">
+              <Button variant="ghost" onClick={() => { setFilters(EMPTY_FILTERS); setPage(0); }} data-testid="button-clear-audit-filters">
+                Limpiar filtros
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No hay acciones registradas</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Administrador</TableHead>
+                    <TableHead>Accion</TableHead>
+                    <TableHead>Objetivo</TableHead>
+                    <TableHead>IP</TableHead>
+                    <TableHead className="text-right">Cambios</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const [method, ...route] = entry.action.split(" ");
+                    return (
+                      <TableRow key={entry.id} data-testid={`row-audit-${entry.id}`}>
+                        <TableCell className="whitespace-nowrap">{formatDateTime(entry.createdAt)}</TableCell>
+                        <TableCell>{entry.actorEmail}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge variant={METHOD_VARIANTS[method] ?? "outline"}>{method}</Badge>
+                            <span className="font-mono text-xs">{route.join(" ")}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {entry.targetType ? (
+                            <span className="text-xs">
+                              {entry.targetType}
+                              {entry.targetId && <span className="block font-mono text-muted-foreground">{entry.targetId}</span>}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{entry.ipAddress ?? "-"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setSelectedEntry(entry)}
+                            disabled={!entry.before && !entry.after}
+                            data-testid={`button-audit-details-${entry.id}`}
+                          >
+                            Ver
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <span className="text-sm text-muted-foreground">
+                Pagina {page + 1} de {pageCount}
+              </span>
+              <Button size="icon" variant="outline" onClick={() => setPage(page - 1)} disabled={page === 0} data-testid="button-audit-previous-page">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button size="icon" variant="outline" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount} data-testid="button-audit-next-page">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => { if (!open) setSelectedEntry(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono text-base">{selectedEntry?.action}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && `${selectedEntry.actorEmail} · ${formatDateTime(selectedEntry.createdAt)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Antes</p>
+              <pre className="max-h-96 overflow-auto rounded-lg bg-muted p-3 text-xs" data-testid="text-audit-before">
+                {formatJson(selectedEntry?.before ?? null)}
+              </pre>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Despues</p>
+              <pre className="max-h-96 overflow-auto rounded-lg bg-muted p-3 text-xs" data-testid="text-audit-after">
+                {formatJson(selectedEntry?.after ?? null)}
+              </pre>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -42,11 +42,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trash2, Search, Play, Plus, Upload, X, Music, Pencil } from "lucide-react";
+import { Loader2, Trash2, Search, Play, Plus, Upload, X, Music, Pencil, Captions } from "lucide-react";
 import { Link } from "wouter";
-import type { Chapter, Audiobook } from "@shared/schema";
+import type { Chapter, Audiobook, ChapterTranscriptWithCues } from "@shared/schema";
 
-async function uploadAudioFile(file: File): Promise<{ url: string; duration: number }> {
+async function uploadAudioFile(file: File): Promise<{ url: string; assetId: string; duration: number }> {
   const formData = new FormData();
   formData.append("file", file);
   
@@ -62,13 +62,179 @@ async function uploadAudioFile(file: File): Promise<{ url: string; duration: num
   }
   
   const data = await response.json();
-  return { url: data.publicUrl, duration: data.duration || 0 };
+  return { url: data.publicUrl, assetId: data.assetId, duration: data.duration || 0 };
 }
 
 interface ChapterWithAudiobook extends Chapter {
   audiobook: Audiobook;
 }
 
+const TRANSCRIPT_FORMAT_LABELS: Record<ChapterTranscriptWithCues["format"], string> = {
+  VTT: "WebVTT",
+  SRT: "SRT",
+  TEXT: "Texto",
+};
+
+function TranscriptDialog({ chapter, onClose }: { chapter: ChapterWithAudiobook; onClose: () => void }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [content, setContent] = useState("");
+  const [language, setLanguage] = useState(chapter.audiobook?.language || "es");
+
+  const transcriptKey = ["/api/chapters", chapter.id, "transcript"];
+  // 404 when the chapter has no transcript yet
+  const { data: transcript, isLoading } = useQuery<ChapterTranscriptWithCues>({
+    queryKey: transcriptKey,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      if (file) {
+        formData.append("file", file);
+      } else {
+        formData.append("content", content);
+      }
+      formData.append("language", language);
+
+      const response = await fetch(`/api/admin/chapters/${chapter.id}/transcript`, {
+        method: "PUT",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Error al guardar la transcripcion");
+      }
+      return await response.json();
+    },
+    onSuccess: (saved: { cueCount: number }) => {
+      queryClient.invalidateQueries({ queryKey: transcriptKey });
+      toast({
+        title: "Transcripcion guardada",
+        description: `${saved.cueCount} fragmentos importados.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo guardar la transcripcion.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/admin/chapters/${chapter.id}/transcript`);
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: transcriptKey });
+      toast({
+        title: "Transcripcion eliminada",
+        description: "El capitulo ya no tiene transcripcion.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo eliminar la transcripcion.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Transcripcion</DialogTitle>
+          <DialogDescription>
+            {chapter.title}. Sube un archivo WebVTT, SRT o de texto, o pega el texto.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          ) : transcript ? (
+            <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="secondary">{TRANSCRIPT_FORMAT_LABELS[transcript.format]}</Badge>
+                <Badge variant="outline">{transcript.language}</Badge>
+                {transcript.source === "YOUTUBE" && <Badge variant="outline">YouTube</Badge>}
+                <span className="text-muted-foreground">{transcript.cues.length} fragmentos</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-transcript"
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Este capitulo aun no tiene transcripcion.</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="transcript-file">Archivo</Label>
+            <Input
+              id="transcript-file"
+              type="file"
+              accept=".vtt,.srt,.txt"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              data-testid="input-transcript-file"
+            />
+          </div>
+          {!file && (
+            <div className="space-y-2">
+              <Label htmlFor="transcript-content">O pega el texto</Label>
+              <Textarea
+                id="transcript-content"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                rows={6}
+                placeholder="WEBVTT, SRT o texto plano (un parrafo por bloque)"
+                data-testid="input-transcript-content"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="transcript-language">Idioma</Label>
+            <Input
+              id="transcript-language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              maxLength={10}
+              className="w-32"
+              data-testid="input-transcript-language"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || (!file && !content.trim())}
+            data-testid="button-save-transcript"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {transcript ? "Reemplazar" : "Guardar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function formatDuration(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
@@ -88,6 +254,7 @@ export default function AdminChapters() {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingChapter, setEditingChapter] = useState<ChapterWithAudiobook | null>(null);
+  const [transcriptChapter, setTranscriptChapter] = useState<ChapterWithAudiobook | null>(null);
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   
@@ -133,7 +300,7 @@ export default function AdminChapters() {
   });
 
   const createChapterMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
+    mutationFn: async (data: typeof formData & { audioAssetId?: string }) => {
       return await apiRequest("POST", "/api/admin/chapters", data);
     },
     onSuccess: () => {
@@ -155,7 +322,7 @@ export default function AdminChapters() {
   });
 
   const updateChapterMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: typeof formData }) => {
+    mutationFn: async ({ id, data }: { id: string; data: typeof formData & { audioAssetId?: string } }) => {
       return await apiRequest("PATCH", `/api/admin/chapters/${id}`, data);
     },
     onSuccess: () => {
@@ -266,6 +433,8 @@ export default function AdminChapters() {
     }
 
     let audioUrl = formData.audioUrl;
+    // The server swaps in the transcoded audio once the upload has been processed
+    let audioAssetId: string | undefined;
     let duration = formData.duration;
 
     if (audioFile) {
@@ -273,6 +442,7 @@ export default function AdminChapters() {
         setIsUploading(true);
         const result = await uploadAudioFile(audioFile);
         audioUrl = result.url;
+        audioAssetId = result.assetId;
         if (result.duration > 0) {
           duration = result.duration;
         }
@@ -291,7 +461,7 @@ export default function AdminChapters() {
 
     updateChapterMutation.mutate({ 
       id: editingChapter.id, 
-      data: { ...formData, audioUrl, duration } 
+      data: { ...formData, audioUrl, audioAssetId, duration } 
     });
   };
 
@@ -312,6 +482,8 @@ export default function AdminChapters() {
     }
 
     let audioUrl = formData.audioUrl;
+    // The server swaps in the transcoded audio once the upload has been processed
+    let audioAssetId: string | undefined;
     let duration = formData.duration;
 
     // Si hay un archivo de audio, subirlo primero
@@ -320,6 +492,7 @@ export default function AdminChapters() {
         setIsUploading(true);
         const result = await uploadAudioFile(audioFile);
         audioUrl = result.url;
+        audioAssetId = result.assetId;
         if (result.duration > 0) {
           duration = result.duration;
         }
@@ -336,7 +509,7 @@ export default function AdminChapters() {
       }
     }
 
-    createChapterMutation.mutate({ ...formData, audioUrl, duration });
+    createChapterMutation.mutate({ ...formData, audioUrl, audioAssetId, duration });
   };
 
   return (
@@ -449,6 +622,15 @@ export default function AdminChapters() {
                           >
                             <Pencil className="w-4 h-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setTranscriptChapter(chapter)}
+                            title="Transcripcion"
+                            data-testid={`button-transcript-chapter-${chapter.id}`}
+                          >
+                            <Captions className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -654,6 +836,11 @@ export default function AdminChapters() {
         </DialogContent>
       </Dialog>
 
+      {/* Transcript Dialog */}
+      {transcriptChapter && (
+        <TranscriptDialog chapter={transcriptChapter} onClose={() => setTranscriptChapter(null)} />
+      )}
+
       {/* Delete Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
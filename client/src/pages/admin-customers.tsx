@@ -16,6 +16,7 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RefundPurchaseDialog } from "@/components/refund-purchase-dialog";
 import type { User as UserType, BillingProfile, AudiobookPurchase, Audiobook, Invoice, UserSubscription } from "@shared/schema";
 
 interface CustomerWithStats {
@@ -29,7 +30,7 @@ interface CustomerWithStats {
 interface CustomerDetail {
   user: UserType;
   billingProfile: BillingProfile | null;
-  purchases: Array<AudiobookPurchase & { audiobook: Audiobook }>;
+  purchases: Array<AudiobookPurchase & { audiobook: Audiobook; refundedCents: number }>;
   invoices: Invoice[];
   subscription: UserSubscription | null;
   stats: { totalPurchases: number; totalSpentCents: number; lastPurchaseAt: string | null };
@@ -42,6 +43,7 @@ interface InvoiceWithUser extends Invoice {
 interface PurchaseWithDetails extends AudiobookPurchase {
   user: UserType;
   audiobook: Audiobook;
+  refundedCents: number;
 }
 
 function formatPrice(cents: number, currency: string = "EUR"): string {
@@ -51,6 +53,11 @@ function formatPrice(cents: number, currency: string = "EUR"): string {
   }).format(cents / 100);
 }
 
+function isRefundable(purchase: AudiobookPurchase & { refundedCents: number }): boolean {
+  return (purchase.status === "COMPLETED" || purchase.status === "REFUNDED")
+    && purchase.refundedCents < purchase.pricePaidCents;
+}
+
 function formatDate(date: string | Date | null): string {
   if (!date) return "-";
   return new Date(date).toLocaleDateString("es-ES", {
@@ -284,11 +291,23 @@ function CustomerDetailView({ customerId, onClose }: { customerId: string; onClo
                       </div>
                       <div className="text-right">
                         <p className="font-medium">{formatPrice(purchase.pricePaidCents, purchase.currency)}</p>
+                        {purchase.refundedCents > 0 && (
+                          <p className="text-xs text-destructive">-{formatPrice(purchase.refundedCents, purchase.currency)}</p>
+                        )}
                         <p className="text-sm text-muted-foreground">{formatDate(purchase.purchasedAt)}</p>
                       </div>
                       <Badge variant={purchase.status === "COMPLETED" ? "default" : "secondary"}>
                         {purchase.status}
                       </Badge>
+                      {isRefundable(purchase) && (
+                        <RefundPurchaseDialog
+                          purchaseId={purchase.id}
+                          audiobookTitle={purchase.audiobook.title}
+                          pricePaidCents={purchase.pricePaidCents}
+                          refundedCents={purchase.refundedCents}
+                          currency={purchase.currency}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -312,7 +331,10 @@ function CustomerDetailView({ customerId, onClose }: { customerId: string; onClo
                         <FileText className="w-5 h-5 text-blue-500" />
                       </div>
                       <div className="flex-1 min-w-0">
-                        <p className="font-medium">{invoice.invoiceNumber}</p>
+                        <p className="font-medium">
+                          {invoice.invoiceNumber}
+                          {invoice.type === "CREDIT_NOTE" && <Badge variant="outline" className="ml-2">Rectificativa</Badge>}
+                        </p>
                         <p className="text-sm text-muted-foreground">{formatDate(invoice.issueDate)}</p>
                       </div>
                       <div className="text-right">
@@ -511,6 +533,9 @@ function PurchasesTab({ customers }: { customers: CustomerWithStats[] | undefine
                   </div>
                   <div className="text-right">
                     <p className="font-medium">{formatPrice(purchase.pricePaidCents, purchase.currency)}</p>
+                    {purchase.refundedCents > 0 && (
+                      <p className="text-xs text-destructive">-{formatPrice(purchase.refundedCents, purchase.currency)}</p>
+                    )}
                   </div>
                   <Badge 
                     variant={
@@ -535,6 +560,15 @@ function PurchasesTab({ customers }: { customers: CustomerWithStats[] | undefine
                       <Trash2 className="w-4 h-4 text-destructive" />
                     </Button>
                   )}
+                  {isRefundable(purchase) && (
+                    <RefundPurchaseDialog
+                      purchaseId={purchase.id}
+                      audiobookTitle={purchase.audiobook.title}
+                      pricePaidCents={purchase.pricePaidCents}
+                      refundedCents={purchase.refundedCents}
+                      currency={purchase.currency}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -619,7 +653,10 @@ function InvoicesTab() {
                     <FileText className="w-5 h-5 text-blue-500" />
                   </div>
                   <div className="flex-1 min-w-0">
-                    <p className="font-medium">{invoice.invoiceNumber}</p>
+                    <p className="font-medium">
+                      {invoice.invoiceNumber}
+                      {invoice.type === "CREDIT_NOTE" && <Badge variant="outline" className="ml-2">Rectificativa</Badge>}
+                    </p>
                     <p className="text-sm text-muted-foreground">
                       {invoice.user.username} - {invoice.user.email}
                     </p>
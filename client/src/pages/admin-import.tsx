@@ -1,11 +1,14 @@
 import { useState, useCallback } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
+import { waitForJob } from "@/lib/jobs";
+import { JobProgress } from "@/components/job-progress";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Upload, FileArchive, CheckCircle, AlertCircle, Download, BookOpen } from "lucide-react";
 import { Link } from "wouter";
+import type { BackgroundJobResponse } from "@shared/schema";
 
 interface ImportResult {
   success: boolean;
@@ -23,6 +26,7 @@ export default function AdminImport() {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [result, setResult] = useState<ImportResult | null>(null);
+  const [job, setJob] = useState<BackgroundJobResponse | null>(null);
 
   const importMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -41,8 +45,12 @@ export default function AdminImport() {
         throw new Error(data.error || data.message || "Error al importar");
       }
       
-      return data as ImportResult;
+      // The server imports the ZIP in the background; wait for the job to finish
+      setJob(data.job);
+      const importResult = await waitForJob<Omit<ImportResult, "success">>(data.job.id, setJob);
+      return { success: true, ...importResult } as ImportResult;
     },
+    onSettled: () => setJob(null),
     onSuccess: (data) => {
       setResult(data);
       queryClient.invalidateQueries({ queryKey: ["/api/admin/audiobooks"] });
@@ -226,6 +234,8 @@ export default function AdminImport() {
                     Cancelar
                   </Button>
                 </div>
+
+                <JobProgress job={job} />
               </div>
             )}
 
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ListChecks, Loader2, RotateCcw, XCircle } from "lucide-react";
+import type { BackgroundJobResponse, JobType } from "@shared/schema";
+
+type JobStatus = BackgroundJobResponse["status"];
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  QUEUED: "En cola",
+  RUNNING: "En curso",
+  COMPLETED: "Completada",
+  FAILED: "Fallida",
+  CANCELLED: "Cancelada",
+};
+
+const STATUS_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  QUEUED: "outline",
+  RUNNING: "default",
+  COMPLETED: "secondary",
+  FAILED: "destructive",
+  CANCELLED: "outline",
+};
+
+const TYPE_LABELS: Record<JobType, string> = {
+  "import-zip": "Importar ZIP",
+  "import-youtube": "Importar YouTube",
+  "import-rss": "Importar RSS",
+  "audio-transcode": "Transcodificar audio",
+  "audiobook-export": "Exportar audiolibro",
+  "data-export": "Exportar datos personales",
+  "bookmark-clip": "Fragmento compartido",
+  "invoice-pdf": "PDF de factura",
+  "payout-statement-pdf": "PDF de liquidacion",
+  "email": "Email",
+};
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString("es-ES", { dateStyle: "short", timeStyle: "medium" }) : "-";
+}
+
+export default function AdminJobs() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<JobStatus | "ALL">("ALL");
+  const [typeFilter, setTypeFilter] = useState<JobType | "ALL">("ALL");
+
+  const { data: jobs = [], isLoading } = useQuery<BackgroundJobResponse[]>({
+    queryKey: ["/api/admin/jobs", statusFilter, typeFilter],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "ALL") params.set("status", statusFilter);
+      if (typeFilter !== "ALL") params.set("type", typeFilter);
+      return apiRequest<BackgroundJobResponse[]>("GET", `/api/admin/jobs?${params.toString()}`);
+    },
+    // Keep progress moving while the page is open
+    refetchInterval: 3000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (id: string) => apiRequest<BackgroundJobResponse>("POST", `/api/admin/jobs/${id}/retry`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      toast({ title: "Tarea reintentada", description: "La tarea ha vuelto a la cola" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error reintentando tarea" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest<BackgroundJobResponse>("POST", `/api/admin/jobs/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      toast({ title: "Tarea cancelada" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error cancelando tarea" });
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-8">
+      <div>
+        <h1 className="font-serif text-4xl font-bold" data-testid="text-page-title">
+          Tareas en segundo plano
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Importaciones, transcodificacion de audio, PDFs de facturas y emails procesados por la cola de tareas
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ListChecks className="w-5 h-5" />
+                Tareas
+              </CardTitle>
+              <CardDescription>
+                Las tareas fallidas se reintentan solas; las importaciones solo se reintentan a mano
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as JobStatus | "ALL")}>
+                <SelectTrigger className="w-40" data-testid="select-job-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">Todos los estados</SelectItem>
+                  {(Object.keys(STATUS_LABELS) as JobStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as JobType | "ALL")}>
+                <SelectTrigger className="w-44" data-testid="select-job-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">Todos los tipos</SelectItem>
+                  {(Object.keys(TYPE_LABELS) as JobType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <ListChecks className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No hay tareas</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead>Progreso</TableHead>
+                    <TableHead>Intentos</TableHead>
+                    <TableHead>Creada</TableHead>
+                    <TableHead>Finalizada</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map((job) => (
+                    <TableRow key={job.id} data-testid={`row-job-${job.id}`}>
+                      <TableCell className="font-medium">
+                        {TYPE_LABELS[job.type as JobType] || job.type}
+                        <p className="text-xs text-muted-foreground font-mono">{job.id.substring(0, 8)}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[job.status]}>{STATUS_LABELS[job.status]}</Badge>
+                        {job.error && (
+                          <p className="text-xs text-destructive line-clamp-2 max-w-xs mt-1" title={job.error}>{job.error}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="min-w-40">
+                        <Progress value={job.progress} className="h-2" />
+                        {job.progressMessage && job.status === "RUNNING" && (
+                          <p className="text-xs text-muted-foreground truncate max-w-xs mt-1">{job.progressMessage}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{job.attempts}/{job.maxAttempts}</TableCell>
+                      <TableCell className="text-sm">{formatDateTime(job.createdAt)}</TableCell>
+                      <TableCell className="text-sm">
+                        {job.status === "QUEUED" && job.attempts > 0
+                          ? `Reintento ${formatDateTime(job.runAt)}`
+                          : formatDateTime(job.completedAt)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(job.status === "FAILED" || job.status === "CANCELLED") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => retryMutation.mutate(job.id)}
+                            disabled={retryMutation.isPending}
+                            data-testid={`button-retry-job-${job.id}`}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Reintentar
+                          </Button>
+                        )}
+                        {job.status === "QUEUED" && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              if (confirm("¿Cancelar esta tarea?")) {
+                                cancelMutation.mutate(job.id);
+                              }
+                            }}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-job-${job.id}`}
+                          >
+                            <XCircle className="w-4 h-4 mr-2" />
+                            Cancelar
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,526 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, Percent, Loader2, FileText, Download, CheckCircle } from "lucide-react";
+import type { Audiobook, PayoutStatementWithPublisher, RoyaltyRateWithTarget, User } from "@shared/schema";
+
+type TargetType = "publisher" | "audiobook";
+type StatusFilter = "ALL" | "PENDING" | "PAID";
+
+interface RoyaltyRatesResponse {
+  defaultRateBasisPoints: number;
+  rates: RoyaltyRateWithTarget[];
+}
+
+function formatRate(rateBasisPoints: number): string {
+  return `${(rateBasisPoints / 100).toLocaleString("es-ES", { maximumFractionDigits: 2 })}%`;
+}
+
+function formatPrice(cents: number, currency: string = "EUR"): string {
+  return new Intl.NumberFormat("es-ES", {
+    style: "currency",
+    currency: currency,
+  }).format(cents / 100);
+}
+
+function formatDate(date: string | Date | null): string {
+  if (!date) return "-";
+  return new Date(date).toLocaleDateString("es-ES", { day: "numeric", month: "short", year: "numeric" });
+}
+
+// Last finished month, the one the hourly run closes
+function previousPeriod(): string {
+  const now = new Date();
+  const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return `${previous.getUTCFullYear()}-${String(previous.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export default function AdminRoyalties() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<RoyaltyRateWithTarget | null>(null);
+  const [formData, setFormData] = useState({ targetType: "publisher" as TargetType, targetId: "", rate: 50 });
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("PENDING");
+  const [period, setPeriod] = useState(previousPeriod());
+  const [payingStatement, setPayingStatement] = useState<PayoutStatementWithPublisher | null>(null);
+  const [paymentReference, setPaymentReference] = useState("");
+
+  const { data: royaltyRates, isLoading: ratesLoading } = useQuery<RoyaltyRatesResponse>({
+    queryKey: ["/api/admin/royalty-rates"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: audiobooks = [] } = useQuery<Audiobook[]>({
+    queryKey: ["/api/admin/audiobooks"],
+  });
+
+  const statementsUrl = statusFilter === "ALL" ? "/api/admin/payout-statements" : `/api/admin/payout-statements?status=${statusFilter}`;
+  const { data: statements = [], isLoading: statementsLoading } = useQuery<PayoutStatementWithPublisher[]>({
+    queryKey: [statementsUrl],
+  });
+
+  const publishers = users.filter((user) => user.role === "CREATOR" || user.role === "ADMIN");
+
+  const invalidateStatements = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/payout-statements"),
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/admin/royalty-rates", {
+        publisherId: formData.targetType === "publisher" ? formData.targetId : null,
+        audiobookId: formData.targetType === "audiobook" ? formData.targetId : null,
+        rateBasisPoints: Math.round(formData.rate * 100),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/royalty-rates"] });
+      setIsCreateOpen(false);
+      resetForm();
+      toast({ title: "Regalia creada", description: "El porcentaje se aplicara a las proximas ventas" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message?.includes("already exists")
+          ? "Ya hay un porcentaje para este creador o audiolibro"
+          : error.message || "Error creando regalia",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, rate }: { id: string; rate: number }) => {
+      return apiRequest("PATCH", `/api/admin/royalty-rates/${id}`, { rateBasisPoints: Math.round(rate * 100) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/royalty-rates"] });
+      setEditingRate(null);
+      resetForm();
+      toast({ title: "Regalia actualizada", description: "El porcentaje se aplicara a las proximas ventas" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error actualizando regalia" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/royalty-rates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/royalty-rates"] });
+      toast({ title: "Regalia eliminada" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error eliminando regalia" });
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ created: number }>("POST", "/api/admin/payout-statements/close", { period });
+    },
+    onSuccess: (data) => {
+      invalidateStatements();
+      toast({
+        title: "Periodo cerrado",
+        description: data.created > 0 ? `Se han generado ${data.created} liquidaciones` : "No hay importes pendientes de liquidar",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message?.includes("not ended yet") ? "El mes aun no ha terminado" : error.message || "Error cerrando el periodo",
+      });
+    },
+  });
+
+  const paidMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/admin/payout-statements/${id}/paid`, {
+        paymentReference: paymentReference.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidateStatements();
+      setPayingStatement(null);
+      setPaymentReference("");
+      toast({ title: "Liquidacion pagada", description: "Se ha registrado el pago al creador" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error registrando el pago" });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData({ targetType: "publisher", targetId: "", rate: 50 });
+  };
+
+  const openEditDialog = (rate: RoyaltyRateWithTarget) => {
+    setEditingRate(rate);
+    setFormData({
+      targetType: rate.audiobookId ? "audiobook" : "publisher",
+      targetId: rate.audiobookId || rate.publisherId || "",
+      rate: rate.rateBasisPoints / 100,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingRate) {
+      updateMutation.mutate({ id: editingRate.id, rate: formData.rate });
+    } else {
+      createMutation.mutate();
+    }
+  };
+
+  const downloadStatement = (statementId: string) => {
+    window.open(`/api/payout-statements/${statementId}/download`, "_blank");
+  };
+
+  const defaultRate = royaltyRates?.defaultRateBasisPoints ?? 0;
+  const rates = royaltyRates?.rates ?? [];
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-serif text-4xl font-bold" data-testid="text-page-title">
+            Regalias
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Porcentaje de los ingresos netos que corresponde a cada creador y liquidaciones mensuales
+          </p>
+        </div>
+        <Button onClick={() => { resetForm(); setIsCreateOpen(true); }} data-testid="button-create-royalty-rate">
+          <Plus className="w-4 h-4 mr-2" />
+          Nuevo Porcentaje
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Porcentajes de Regalias
+          </CardTitle>
+          <CardDescription>
+            El porcentaje de un audiolibro prevalece sobre el de su creador. Sin ninguno se aplica el {formatRate(defaultRate)}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {ratesLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : rates.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Percent className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No hay porcentajes personalizados</p>
+              <p className="text-sm">Todos los creadores reciben el {formatRate(defaultRate)}</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Aplica a</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Porcentaje</TableHead>
+                    <TableHead>Actualizado</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.map((rate) => (
+                    <TableRow key={rate.id} data-testid={`row-royalty-rate-${rate.id}`}>
+                      <TableCell className="font-medium">{rate.audiobookTitle || rate.publisherName || "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{rate.audiobookId ? "Audiolibro" : "Creador"}</Badge>
+                      </TableCell>
+                      <TableCell className="font-semibold">{formatRate(rate.rateBasisPoints)}</TableCell>
+                      <TableCell>{formatDate(rate.updatedAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button size="icon" variant="ghost" onClick={() => openEditDialog(rate)} data-testid={`button-edit-royalty-rate-${rate.id}`}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => {
+                              if (confirm(`¿Eliminar el porcentaje de ${rate.audiobookTitle || rate.publisherName}?`)) {
+                                deleteMutation.mutate(rate.id);
+                              }
+                            }}
+                            data-testid={`button-delete-royalty-rate-${rate.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="w-5 h-5" />
+                Liquidaciones
+              </CardTitle>
+              <CardDescription>
+                Cada mes terminado se cierra automaticamente: se reparte el fondo de suscripciones por minutos escuchados y se genera una liquidacion por creador
+              </CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+              <SelectTrigger className="w-40" data-testid="select-payout-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="PENDING">Pendientes</SelectItem>
+                <SelectItem value="PAID">Pagadas</SelectItem>
+                <SelectItem value="ALL">Todas</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payoutPeriod">Periodo</Label>
+              <Input
+                id="payoutPeriod"
+                type="month"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+                className="w-44"
+                data-testid="input-payout-period"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => closeMutation.mutate()}
+              disabled={closeMutation.isPending || !period}
+              data-testid="button-close-payout-period"
+            >
+              {closeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Generar liquidaciones
+            </Button>
+          </div>
+
+          {statementsLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : statements.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <FileText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No hay liquidaciones</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Creador</TableHead>
+                    <TableHead>Periodo</TableHead>
+                    <TableHead>Importe</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statements.map((statement) => (
+                    <TableRow key={statement.id} data-testid={`row-payout-statement-${statement.id}`}>
+                      <TableCell className="font-medium">
+                        {statement.publisherName}
+                        <p className="text-xs text-muted-foreground">{statement.publisherEmail}</p>
+                      </TableCell>
+                      <TableCell className="font-mono">{statement.period}</TableCell>
+                      <TableCell className="font-semibold">{formatPrice(statement.totalCents, statement.currency)}</TableCell>
+                      <TableCell>
+                        {statement.status === "PAID" ? (
+                          <div>
+                            <Badge variant="default">Pagada</Badge>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {formatDate(statement.paidAt)}
+                              {statement.paymentReference && ` · ${statement.paymentReference}`}
+                            </p>
+                          </div>
+                        ) : (
+                          <Badge variant="secondary">Pendiente</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          {statement.status === "PENDING" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPayingStatement(statement)}
+                              data-testid={`button-pay-statement-${statement.id}`}
+                            >
+                              <CheckCircle className="w-4 h-4 mr-2" />
+                              Marcar pagada
+                            </Button>
+                          )}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => downloadStatement(statement.id)}
+                            data-testid={`button-download-statement-${statement.id}`}
+                          >
+                            <Download className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={isCreateOpen || !!editingRate}
+        onOpenChange={(open) => { if (!open) { setIsCreateOpen(false); setEditingRate(null); resetForm(); } }}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRate ? "Editar Porcentaje" : "Nuevo Porcentaje"}</DialogTitle>
+            <DialogDescription>
+              Los ingresos ya registrados conservan el porcentaje con el que se calcularon
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Aplica a</Label>
+                <Select
+                  value={formData.targetType}
+                  onValueChange={(v) => setFormData({ ...formData, targetType: v as TargetType, targetId: "" })}
+                  disabled={!!editingRate}
+                >
+                  <SelectTrigger data-testid="select-royalty-target-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="publisher">Creador</SelectItem>
+                    <SelectItem value="audiobook">Audiolibro</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="royaltyRate">Porcentaje (%)</Label>
+                <Input
+                  id="royaltyRate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.rate}
+                  onChange={(e) => setFormData({ ...formData, rate: parseFloat(e.target.value) || 0 })}
+                  required
+                  data-testid="input-royalty-rate"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{formData.targetType === "publisher" ? "Creador" : "Audiolibro"}</Label>
+              <Select
+                value={formData.targetId}
+                onValueChange={(v) => setFormData({ ...formData, targetId: v })}
+                disabled={!!editingRate}
+              >
+                <SelectTrigger data-testid="select-royalty-target">
+                  <SelectValue placeholder="Selecciona..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {formData.targetType === "publisher"
+                    ? publishers.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>{user.username} ({user.email})</SelectItem>
+                      ))
+                    : audiobooks.map((audiobook) => (
+                        <SelectItem key={audiobook.id} value={audiobook.id}>{audiobook.title}</SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="submit"
+                disabled={createMutation.isPending || updateMutation.isPending || !formData.targetId}
+                data-testid="button-save-royalty-rate"
+              >
+                {(createMutation.isPending || updateMutation.isPending) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {editingRate ? "Guardar Cambios" : "Crear Porcentaje"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!payingStatement} onOpenChange={(open) => { if (!open) { setPayingStatement(null); setPaymentReference(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Marcar como pagada</DialogTitle>
+            <DialogDescription>
+              {payingStatement && `${payingStatement.publisherName} · ${payingStatement.period} · ${formatPrice(payingStatement.totalCents, payingStatement.currency)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="paymentReference">Referencia del pago</Label>
+            <Input
+              id="paymentReference"
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+              placeholder="Transferencia, ID de PayPal..."
+              maxLength={200}
+              data-testid="input-payment-reference"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => payingStatement && paidMutation.mutate(payingStatement.id)}
+              disabled={paidMutation.isPending}
+              data-testid="button-confirm-payout-paid"
+            >
+              {paidMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirmar pago
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
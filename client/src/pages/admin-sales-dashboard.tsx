@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, LineChart, Line } from "recharts";
 import { DollarSign, ShoppingCart, Users, TrendingUp, BookOpen, Calendar, CreditCard, Repeat } from "lucide-react";
+import { RefundPurchaseDialog } from "@/components/refund-purchase-dialog";
 import type { Audiobook } from "@shared/schema";
 
 type SalesSummary = {
@@ -16,6 +17,8 @@ type SalesSummary = {
   purchaseRevenueCents: number;
   subscriptionRevenueCents: number;
   averageOrderValueCents: number;
+  refundCount: number;
+  refundedCents: number;
 };
 
 type RevenueTrendItem = {
@@ -33,7 +36,10 @@ type TopAudiobook = {
 
 type Transaction = {
   id: string;
-  type: 'purchase' | 'subscription';
+  type: 'purchase' | 'subscription' | 'refund';
+  purchaseId: string | null;
+  pricePaidCents: number | null;
+  refundedCents: number;
   amount: number;
   currency: string;
   userName: string;
@@ -177,6 +183,11 @@ export default function AdminSalesDashboard() {
                   </div>
                   <p className="text-xs text-muted-foreground">
                     {formatCurrency(summary?.purchaseRevenueCents || 0)}
+                    {(summary?.refundCount || 0) > 0 && (
+                      <span data-testid="text-refunds">
+                        {" "}· {summary?.refundCount} reembolsos (-{formatCurrency(summary?.refundedCents || 0)})
+                      </span>
+                    )}
                   </p>
                 </>
               )}
@@ -348,14 +359,15 @@ export default function AdminSalesDashboard() {
                       <TableHead>Item</TableHead>
                       <TableHead>Monto</TableHead>
                       <TableHead>Fecha</TableHead>
+                      <TableHead></TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {transactions?.map((tx) => (
                       <TableRow key={tx.id} data-testid={`row-transaction-${tx.id}`}>
                         <TableCell>
-                          <Badge variant={tx.type === "purchase" ? "default" : "secondary"}>
-                            {tx.type === "purchase" ? "Compra" : "Suscripción"}
+                          <Badge variant={tx.type === "purchase" ? "default" : tx.type === "refund" ? "destructive" : "secondary"}>
+                            {tx.type === "purchase" ? "Compra" : tx.type === "refund" ? "Reembolso" : "Suscripción"}
                           </Badge>
                         </TableCell>
                         <TableCell>
@@ -375,6 +387,17 @@ export default function AdminSalesDashboard() {
                             year: "numeric",
                           })}
                         </TableCell>
+                        <TableCell className="text-right">
+                          {tx.type === "purchase" && tx.purchaseId && tx.pricePaidCents !== null && tx.refundedCents < tx.pricePaidCents && (
+                            <RefundPurchaseDialog
+                              purchaseId={tx.purchaseId}
+                              audiobookTitle={tx.itemName}
+                              pricePaidCents={tx.pricePaidCents}
+                              refundedCents={tx.refundedCents}
+                              currency={tx.currency}
+                            />
+                          )}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, Layers, Loader2, Eye } from "lucide-react";
+import type { SeriesWithVolumeCount } from "@shared/schema";
+
+function formatPrice(cents: number, currency: string = "EUR"): string {
+  return new Intl.NumberFormat("es-ES", {
+    style: "currency",
+    currency: currency,
+  }).format(cents / 100);
+}
+
+export default function AdminSeries() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<SeriesWithVolumeCount | null>(null);
+  const [formData, setFormData] = useState({
+    name: "",
+    description: "",
+    coverArtUrl: "",
+    bundlePriceCents: "",
+    currency: "EUR",
+  });
+
+  const { data: allSeries = [], isLoading } = useQuery<SeriesWithVolumeCount[]>({
+    queryKey: ["/api/admin/series"],
+  });
+
+  const toPayload = (data: typeof formData) => ({
+    name: data.name,
+    description: data.description || null,
+    coverArtUrl: data.coverArtUrl || null,
+    bundlePriceCents: data.bundlePriceCents ? parseInt(data.bundlePriceCents) : null,
+    currency: data.currency,
+  });
+
+  // Series names are copied onto their audiobooks, so catalog listings need a refresh too
+  const invalidateSeries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/series"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/audiobooks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audiobooks"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      return apiRequest("POST", "/api/admin/series", toPayload(data));
+    },
+    onSuccess: () => {
+      invalidateSeries();
+      setIsCreateOpen(false);
+      resetForm();
+      toast({ title: "Serie creada", description: "La serie ha sido creada correctamente" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error creando serie" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: typeof formData }) => {
+      return apiRequest("PATCH", `/api/admin/series/${id}`, toPayload(data));
+    },
+    onSuccess: () => {
+      invalidateSeries();
+      setEditingSeries(null);
+      resetForm();
+      toast({ title: "Serie actualizada", description: "La serie ha sido actualizada correctamente" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error actualizando serie" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/series/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSeries();
+      toast({ title: "Serie eliminada", description: "Sus audiolibros siguen en el catalogo sin serie" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error eliminando serie" });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      description: "",
+      coverArtUrl: "",
+      bundlePriceCents: "",
+      currency: "EUR",
+    });
+  };
+
+  const openEditDialog = (item: SeriesWithVolumeCount) => {
+    setEditingSeries(item);
+    setFormData({
+      name: item.name,
+      description: item.description || "",
+      coverArtUrl: item.coverArtUrl || "",
+      bundlePriceCents: item.bundlePriceCents?.toString() || "",
+      currency: item.currency,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingSeries) {
+      updateMutation.mutate({ id: editingSeries.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const FormContent = () => (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="name">Nombre</Label>
+        <Input
+          id="name"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="Saga de los Olvidados"
+          required
+          data-testid="input-series-name"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Descripcion</Label>
+        <Textarea
+          id="description"
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          rows={3}
+          data-testid="input-series-description"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="coverArtUrl">URL de Portada</Label>
+        <Input
+          id="coverArtUrl"
+          value={formData.coverArtUrl}
+          onChange={(e) => setFormData({ ...formData, coverArtUrl: e.target.value })}
+          placeholder="https://..."
+          data-testid="input-series-cover"
+        />
+        <p className="text-xs text-muted-foreground">
+          Opcional: sin portada se usa la del primer libro
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="bundlePriceCents">Precio del pack (en centimos)</Label>
+          <Input
+            id="bundlePriceCents"
+            type="number"
+            min="1"
+            value={formData.bundlePriceCents}
+            onChange={(e) => setFormData({ ...formData, bundlePriceCents: e.target.value })}
+            placeholder="2499"
+            data-testid="input-series-bundle-price"
+          />
+          <p className="text-xs text-muted-foreground">
+            Precio de la serie completa. Vacio para no ofrecer pack. Si el cliente ya tiene algun libro, se descuenta en proporcion.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="currency">Moneda</Label>
+          <Input
+            id="currency"
+            value={formData.currency}
+            onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+            maxLength={3}
+            required
+            data-testid="input-series-currency"
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending} data-testid="button-save-series">
+          {(createMutation.isPending || updateMutation.isPending) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {editingSeries ? "Guardar Cambios" : "Crear Serie"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-serif text-4xl font-bold" data-testid="text-page-title">
+            Series
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Agrupa audiolibros en series y ofrece la serie completa como pack
+          </p>
+        </div>
+        <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-create-series">
+              <Plus className="w-4 h-4 mr-2" />
+              Nueva Serie
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Crear Serie</DialogTitle>
+              <DialogDescription>
+                Despues asigna la serie y el orden de cada libro desde la gestion de audiolibros
+              </DialogDescription>
+            </DialogHeader>
+            <FormContent />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Series
+          </CardTitle>
+          <CardDescription>
+            El pack solo se ofrece cuando quedan al menos dos libros de pago publicados por comprar
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : allSeries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Layers className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No hay series</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Libros</TableHead>
+                    <TableHead>Pack</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {allSeries.map((item) => (
+                    <TableRow key={item.id} data-testid={`row-series-${item.id}`}>
+                      <TableCell className="font-medium">
+                        {item.name}
+                        {item.description && (
+                          <p className="text-xs text-muted-foreground line-clamp-1">{item.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{item.volumeCount}</TableCell>
+                      <TableCell>
+                        {item.bundlePriceCents ? (
+                          <span className="font-semibold">{formatPrice(item.bundlePriceCents, item.currency)}</span>
+                        ) : (
+                          <Badge variant="secondary">Sin pack</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Link href={`/series/${item.id}`}>
+                            <Button size="icon" variant="ghost" data-testid={`button-view-series-${item.id}`}>
+                              <Eye className="w-4 h-4" />
+                            </Button>
+                          </Link>
+                          <Dialog open={editingSeries?.id === item.id} onOpenChange={(open) => { if (!open) { setEditingSeries(null); resetForm(); } }}>
+                            <DialogTrigger asChild>
+                              <Button size="icon" variant="ghost" onClick={() => openEditDialog(item)} data-testid={`button-edit-series-${item.id}`}>
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-lg">
+                              <DialogHeader>
+                                <DialogTitle>Editar Serie</DialogTitle>
+                                <DialogDescription>
+                                  Al renombrar la serie se actualiza en todos sus libros
+                                </DialogDescription>
+                              </DialogHeader>
+                              <FormContent />
+                            </DialogContent>
+                          </Dialog>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => {
+                              if (confirm(`¿Eliminar la serie ${item.name}? Sus libros seguiran en el catalogo.`)) {
+                                deleteMutation.mutate(item.id);
+                              }
+                            }}
+                            data-testid={`button-delete-series-${item.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
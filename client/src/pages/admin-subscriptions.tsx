@@ -42,8 +42,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trash2, Crown, Plus, CreditCard, Pencil, RefreshCw, Check, AlertCircle } from "lucide-react";
-import type { SubscriptionPlan } from "@shared/schema";
+import { Loader2, Trash2, Crown, Plus, CreditCard, Pencil, RefreshCw, Check, AlertCircle, History } from "lucide-react";
+import { describeSubscriptionEvent } from "@/lib/subscription-events";
+import type { SubscriptionEventWithDetails, SubscriptionPlan } from "@shared/schema";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 
 export default function AdminSubscriptions() {
@@ -61,6 +62,8 @@ export default function AdminSubscriptions() {
     currency: "EUR",
     intervalMonths: 1,
     trialDays: 0,
+    maxHouseholdMembers: 0,
+    gracePeriodDays: 7,
   });
   const [syncingPlanId, setSyncingPlanId] = useState<string | null>(null);
 
@@ -68,6 +71,10 @@ export default function AdminSubscriptions() {
     queryKey: ["/api/admin/subscription-plans"],
   });
 
+  const { data: subscriptionEvents = [] } = useQuery<SubscriptionEventWithDetails[]>({
+    queryKey: ["/api/admin/subscription-events"],
+  });
+
   const { data: paypalConfig } = useQuery<{ clientId: string; environment: string } | null>({
     queryKey: ["/api/admin/paypal/config"],
   });
@@ -192,6 +199,8 @@ export default function AdminSubscriptions() {
       currency: "EUR",
       intervalMonths: 1,
       trialDays: 0,
+      maxHouseholdMembers: 0,
+      gracePeriodDays: 7,
     });
   };
 
@@ -209,6 +218,8 @@ export default function AdminSubscriptions() {
       currency: plan.currency,
       intervalMonths: plan.intervalMonths,
       trialDays: plan.trialDays || 0,
+      maxHouseholdMembers: plan.maxHouseholdMembers,
+      gracePeriodDays: plan.gracePeriodDays,
     });
     setShowEditDialog(true);
   };
@@ -318,6 +329,7 @@ export default function AdminSubscriptions() {
                     <TableHead>Precio</TableHead>
                     <TableHead>Intervalo</TableHead>
                     <TableHead>Prueba</TableHead>
+                    <TableHead>Hogar</TableHead>
                     <TableHead>PayPal</TableHead>
                     <TableHead>Estado</TableHead>
                     <TableHead className="text-right">Acciones</TableHead>
@@ -356,6 +368,13 @@ export default function AdminSubscriptions() {
                           <span className="text-muted-foreground text-sm">-</span>
                         )}
                       </TableCell>
+                      <TableCell>
+                        {plan.maxHouseholdMembers > 0 ? (
+                          <Badge variant="secondary">{plan.maxHouseholdMembers} miembros</Badge>
+                        ) : (
+                          <span className="text-muted-foreground text-sm">-</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         {plan.paypalPlanId ? (
                           <Tooltip>
@@ -439,6 +458,57 @@ export default function AdminSubscriptions() {
         </CardContent>
       </Card>
 
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="font-serif text-xl flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Historial de suscripciones
+          </CardTitle>
+          <CardDescription>
+            Altas, renovaciones, cambios de plan, pausas e impagos recientes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {subscriptionEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Todavia no hay actividad</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>Evento</TableHead>
+                    <TableHead className="text-right">Importe</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptionEvents.map((event) => (
+                    <TableRow key={event.id} data-testid={`row-subscription-event-${event.id}`}>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">
+                        {new Date(event.createdAt).toLocaleString("es-ES", { dateStyle: "short", timeStyle: "short" })}
+                      </TableCell>
+                      <TableCell>{event.username}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {(event.type === "PAYMENT_FAILED" || event.type === "SUSPENDED" || event.type === "EXPIRED") && (
+                            <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+                          )}
+                          {describeSubscriptionEvent(event)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {event.amountCents ? formatPrice(event.amountCents, event.currency || "EUR") : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
         <DialogContent className="max-w-md">
           <DialogHeader>
@@ -540,6 +610,40 @@ export default function AdminSubscriptions() {
                 {formData.trialDays > 0 ? `${formData.trialDays} dias de prueba gratis` : "Sin periodo de prueba"}
               </p>
             </div>
+            
+            <div className="grid gap-2">
+              <Label htmlFor="household">Miembros del hogar</Label>
+              <Input
+                id="household"
+                type="number"
+                min={0}
+                max={10}
+                value={formData.maxHouseholdMembers}
+                onChange={(e) => setFormData({ ...formData, maxHouseholdMembers: parseInt(e.target.value) || 0 })}
+                placeholder="0"
+                data-testid="input-plan-household"
+              />
+              <p className="text-xs text-muted-foreground">
+                {formData.maxHouseholdMembers > 0 ? `Plan familiar: la suscripcion se comparte con ${formData.maxHouseholdMembers} miembros` : "Suscripcion individual"}
+              </p>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="grace">Dias de gracia por impago</Label>
+              <Input
+                id="grace"
+                type="number"
+                min={0}
+                max={30}
+                value={formData.gracePeriodDays}
+                onChange={(e) => setFormData({ ...formData, gracePeriodDays: parseInt(e.target.value) || 0 })}
+                placeholder="7"
+                data-testid="input-plan-grace"
+              />
+              <p className="text-xs text-muted-foreground">
+                {formData.gracePeriodDays > 0 ? `Si falla un cobro, el suscriptor conserva el acceso ${formData.gracePeriodDays} dias` : "El acceso termina en cuanto falla un cobro"}
+              </p>
+            </div>
           </div>
           
           <DialogFooter>
@@ -660,6 +764,40 @@ export default function AdminSubscriptions() {
                 {formData.trialDays > 0 ? `${formData.trialDays} dias de prueba gratis` : "Sin periodo de prueba"}
               </p>
             </div>
+            
+            <div className="grid gap-2">
+              <Label htmlFor="edit-household">Miembros del hogar</Label>
+              <Input
+                id="edit-household"
+                type="number"
+                min={0}
+                max={10}
+                value={formData.maxHouseholdMembers}
+                onChange={(e) => setFormData({ ...formData, maxHouseholdMembers: parseInt(e.target.value) || 0 })}
+                placeholder="0"
+                data-testid="input-edit-plan-household"
+              />
+              <p className="text-xs text-muted-foreground">
+                {formData.maxHouseholdMembers > 0 ? `Plan familiar: la suscripcion se comparte con ${formData.maxHouseholdMembers} miembros` : "Suscripcion individual"}
+              </p>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="edit-grace">Dias de gracia por impago</Label>
+              <Input
+                id="edit-grace"
+                type="number"
+                min={0}
+                max={30}
+                value={formData.gracePeriodDays}
+                onChange={(e) => setFormData({ ...formData, gracePeriodDays: parseInt(e.target.value) || 0 })}
+                placeholder="7"
+                data-testid="input-edit-plan-grace"
+              />
+              <p className="text-xs text-muted-foreground">
+                {formData.gracePeriodDays > 0 ? `Si falla un cobro, el suscriptor conserva el acceso ${formData.gracePeriodDays} dias` : "El acceso termina en cuanto falla un cobro"}
+              </p>
+            </div>
           </div>
           
           <DialogFooter>
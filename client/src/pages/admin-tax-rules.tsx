@@ -0,0 +1,476 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, Percent, Loader2, Search } from "lucide-react";
+import type { TaxRule } from "@shared/schema";
+
+type CustomerType = "ANY" | "B2C" | "B2B";
+
+interface TaxPreview {
+  ruleId: string | null;
+  ruleName: string | null;
+  taxName: string;
+  rateBasisPoints: number;
+  legalMention: string | null;
+  context: { country: string; region: string | null; customerType: "B2C" | "B2B" };
+}
+
+const CUSTOMER_TYPE_LABELS: Record<CustomerType, string> = {
+  ANY: "Todos",
+  B2C: "Consumidor final",
+  B2B: "Empresa (NIF-IVA valido)",
+};
+
+function formatRate(rateBasisPoints: number): string {
+  return `${(rateBasisPoints / 100).toLocaleString("es-ES", { maximumFractionDigits: 2 })}%`;
+}
+
+export default function AdminTaxRules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<TaxRule | null>(null);
+  const [formData, setFormData] = useState({
+    name: "",
+    country: "ES",
+    region: "",
+    customerType: "ANY" as CustomerType,
+    taxName: "IVA",
+    rate: 21,
+    legalMention: "",
+    isActive: true,
+  });
+  const [previewInput, setPreviewInput] = useState({ country: "", postalCode: "", taxId: "" });
+  const [preview, setPreview] = useState<TaxPreview | null>(null);
+
+  const { data: taxRules = [], isLoading } = useQuery<TaxRule[]>({
+    queryKey: ["/api/admin/tax-rules"],
+  });
+
+  const toPayload = (data: typeof formData) => ({
+    name: data.name,
+    country: data.country,
+    region: data.region || null,
+    customerType: data.customerType,
+    taxName: data.taxName,
+    rateBasisPoints: Math.round(data.rate * 100),
+    legalMention: data.legalMention || null,
+    isActive: data.isActive,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      return apiRequest("POST", "/api/admin/tax-rules", toPayload(data));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rules"] });
+      setIsCreateOpen(false);
+      resetForm();
+      toast({ title: "Regla creada", description: "La regla fiscal ha sido creada correctamente" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error creando regla" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: typeof formData }) => {
+      return apiRequest("PATCH", `/api/admin/tax-rules/${id}`, toPayload(data));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rules"] });
+      setEditingRule(null);
+      resetForm();
+      toast({ title: "Regla actualizada", description: "La regla fiscal ha sido actualizada correctamente" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error actualizando regla" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/tax-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rules"] });
+      toast({ title: "Regla eliminada", description: "La regla fiscal ha sido eliminada" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error eliminando regla" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams(previewInput);
+      return apiRequest<TaxPreview>("GET", `/api/admin/tax-rules/preview?${params.toString()}`);
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Error calculando impuesto" });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      country: "ES",
+      region: "",
+      customerType: "ANY",
+      taxName: "IVA",
+      rate: 21,
+      legalMention: "",
+      isActive: true,
+    });
+  };
+
+  const openEditDialog = (rule: TaxRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      country: rule.country,
+      region: rule.region || "",
+      customerType: rule.customerType,
+      taxName: rule.taxName,
+      rate: rule.rateBasisPoints / 100,
+      legalMention: rule.legalMention || "",
+      isActive: rule.isActive,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingRule) {
+      updateMutation.mutate({ id: editingRule.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const FormContent = () => (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="name">Nombre</Label>
+        <Input
+          id="name"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="IGIC Canarias"
+          required
+          data-testid="input-tax-name"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="country">Pais</Label>
+          <Input
+            id="country"
+            value={formData.country}
+            onChange={(e) => setFormData({ ...formData, country: e.target.value.toUpperCase() })}
+            placeholder="ES, FR, EU o *"
+            maxLength={2}
+            required
+            data-testid="input-tax-country"
+          />
+          <p className="text-xs text-muted-foreground">
+            Codigo ISO, EU (otros estados miembros) o * (cualquier pais)
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="region">Region</Label>
+          <Input
+            id="region"
+            value={formData.region}
+            onChange={(e) => setFormData({ ...formData, region: e.target.value.toUpperCase() })}
+            placeholder="ES-CN"
+            data-testid="input-tax-region"
+          />
+          <p className="text-xs text-muted-foreground">
+            Opcional: ES-CN (Canarias), ES-CE (Ceuta), ES-ML (Melilla)
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="customerType">Cliente</Label>
+          <Select value={formData.customerType} onValueChange={(v) => setFormData({ ...formData, customerType: v as CustomerType })}>
+            <SelectTrigger data-testid="select-tax-customer-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ANY">{CUSTOMER_TYPE_LABELS.ANY}</SelectItem>
+              <SelectItem value="B2C">{CUSTOMER_TYPE_LABELS.B2C}</SelectItem>
+              <SelectItem value="B2B">{CUSTOMER_TYPE_LABELS.B2B}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="taxName">Impuesto</Label>
+          <Input
+            id="taxName"
+            value={formData.taxName}
+            onChange={(e) => setFormData({ ...formData, taxName: e.target.value })}
+            placeholder="IVA"
+            required
+            data-testid="input-tax-tax-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate">Tipo (%)</Label>
+          <Input
+            id="rate"
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={formData.rate}
+            onChange={(e) => setFormData({ ...formData, rate: parseFloat(e.target.value) || 0 })}
+            required
+            data-testid="input-tax-rate"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="legalMention">Mencion legal</Label>
+        <Textarea
+          id="legalMention"
+          value={formData.legalMention}
+          onChange={(e) => setFormData({ ...formData, legalMention: e.target.value })}
+          placeholder="Inversion del sujeto pasivo - Art. 196 Directiva 2006/112/CE"
+          rows={2}
+          data-testid="input-tax-legal-mention"
+        />
+        <p className="text-xs text-muted-foreground">
+          Se imprime en la factura cuando se aplica esta regla
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between pt-4 border-t">
+        <Label htmlFor="isActive">Activa</Label>
+        <Switch
+          id="isActive"
+          checked={formData.isActive}
+          onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+          data-testid="switch-tax-active"
+        />
+      </div>
+
+      <DialogFooter>
+        <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending} data-testid="button-save-tax-rule">
+          {(createMutation.isPending || updateMutation.isPending) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {editingRule ? "Guardar Cambios" : "Crear Regla"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-serif text-4xl font-bold" data-testid="text-page-title">
+            Impuestos
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Reglas fiscales aplicadas a las facturas segun pais, region y tipo de cliente
+          </p>
+        </div>
+        <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-create-tax-rule">
+              <Plus className="w-4 h-4 mr-2" />
+              Nueva Regla
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Crear Regla Fiscal</DialogTitle>
+              <DialogDescription>
+                Gana la regla mas especifica: region, luego pais exacto, luego tipo de cliente. Sin reglas se aplica IVA al 21%.
+              </DialogDescription>
+            </DialogHeader>
+            <FormContent />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Reglas Fiscales
+          </CardTitle>
+          <CardDescription>
+            Para IVA en destino (OSS) crea reglas de consumidor final por pais, de modo que una regla EU de empresa pueda aplicar la inversion del sujeto pasivo
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : taxRules.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Percent className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No hay reglas fiscales</p>
+              <p className="text-sm">Mientras no haya reglas se aplica IVA al 21%</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Pais</TableHead>
+                    <TableHead>Region</TableHead>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead>Impuesto</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {taxRules.map((rule) => (
+                    <TableRow key={rule.id} data-testid={`row-tax-rule-${rule.id}`}>
+                      <TableCell className="font-medium">
+                        {rule.name}
+                        {rule.legalMention && (
+                          <p className="text-xs text-muted-foreground line-clamp-1">{rule.legalMention}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono">{rule.country}</TableCell>
+                      <TableCell className="font-mono">{rule.region || "-"}</TableCell>
+                      <TableCell>{CUSTOMER_TYPE_LABELS[rule.customerType]}</TableCell>
+                      <TableCell className="font-semibold">{rule.taxName} {formatRate(rule.rateBasisPoints)}</TableCell>
+                      <TableCell>
+                        {rule.isActive ? (
+                          <Badge variant="default">Activa</Badge>
+                        ) : (
+                          <Badge variant="secondary">Inactiva</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Dialog open={editingRule?.id === rule.id} onOpenChange={(open) => { if (!open) { setEditingRule(null); resetForm(); } }}>
+                            <DialogTrigger asChild>
+                              <Button size="icon" variant="ghost" onClick={() => openEditDialog(rule)} data-testid={`button-edit-tax-rule-${rule.id}`}>
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-lg">
+                              <DialogHeader>
+                                <DialogTitle>Editar Regla Fiscal</DialogTitle>
+                                <DialogDescription>
+                                  Los cambios solo afectan a las facturas que se emitan a partir de ahora
+                                </DialogDescription>
+                              </DialogHeader>
+                              <FormContent />
+                            </DialogContent>
+                          </Dialog>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => {
+                              if (confirm(`¿Eliminar la regla ${rule.name}?`)) {
+                                deleteMutation.mutate(rule.id);
+                              }
+                            }}
+                            data-testid={`button-delete-tax-rule-${rule.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="w-5 h-5" />
+            Probar Reglas
+          </CardTitle>
+          <CardDescription>
+            Comprueba que regla se aplicaria a un cliente con estos datos de facturacion
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="previewCountry">Pais</Label>
+              <Input
+                id="previewCountry"
+                value={previewInput.country}
+                onChange={(e) => setPreviewInput({ ...previewInput, country: e.target.value })}
+                placeholder="Espana"
+                data-testid="input-preview-country"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="previewPostalCode">Codigo postal</Label>
+              <Input
+                id="previewPostalCode"
+                value={previewInput.postalCode}
+                onChange={(e) => setPreviewInput({ ...previewInput, postalCode: e.target.value })}
+                placeholder="38001"
+                data-testid="input-preview-postal-code"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="previewTaxId">NIF / NIF-IVA</Label>
+              <Input
+                id="previewTaxId"
+                value={previewInput.taxId}
+                onChange={(e) => setPreviewInput({ ...previewInput, taxId: e.target.value })}
+                placeholder="FR12345678901"
+                data-testid="input-preview-tax-id"
+              />
+            </div>
+            <Button onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending} data-testid="button-preview-tax">
+              {previewMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Calcular
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="rounded-md border p-4 text-sm space-y-1" data-testid="text-tax-preview">
+              <p>
+                <span className="font-semibold">{preview.taxName} {formatRate(preview.rateBasisPoints)}</span>
+                {" - "}
+                {preview.ruleName || "Sin regla (IVA por defecto)"}
+              </p>
+              <p className="text-muted-foreground">
+                Pais {preview.context.country}
+                {preview.context.region && `, region ${preview.context.region}`}
+                {", "}
+                {CUSTOMER_TYPE_LABELS[preview.context.customerType]}
+              </p>
+              {preview.legalMention && <p className="text-muted-foreground italic">{preview.legalMention}</p>}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -30,24 +30,47 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ShieldCheck, ShieldAlert, User, UserCheck, UserX, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { History, Loader2, Lock, LockOpen, LogOut, ShieldCheck, ShieldAlert, ShieldOff, User, UserCheck, UserX, Trash2 } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
-import type { User as UserType } from "@shared/schema";
+import type { AdminUserListItem, SecurityEventWithActor } from "@shared/schema";
+
+const SECURITY_EVENT_LABELS: Record<SecurityEventWithActor["type"], string> = {
+  TWO_FACTOR_ENABLED: "Activo la verificacion en dos pasos",
+  TWO_FACTOR_DISABLED: "Desactivo la verificacion en dos pasos",
+  TWO_FACTOR_RESET: "Verificacion en dos pasos restablecida",
+  RECOVERY_CODE_USED: "Uso un codigo de recuperacion",
+  RECOVERY_CODES_REGENERATED: "Genero nuevos codigos de recuperacion",
+  LOGIN_FAILED: "Inicio de sesion fallido",
+  ACCOUNT_LOCKED: "Cuenta bloqueada por intentos fallidos",
+  ACCOUNT_UNLOCKED: "Cuenta desbloqueada",
+  SESSIONS_REVOKED: "Sesiones cerradas en todos los dispositivos",
+};
+
+function formatLockedUntil(lockedUntil: string | Date): string {
+  return new Date(lockedUntil).toLocaleTimeString("es-ES", { hour: "2-digit", minute: "2-digit" });
+}
 
 export default function AdminUsers() {
   const { toast } = useToast();
-  const [selectedUser, setSelectedUser] = useState<UserType | null>(null);
-  const [actionType, setActionType] = useState<"role" | "approval" | "active" | null>(null);
+  const [selectedUser, setSelectedUser] = useState<AdminUserListItem | null>(null);
+  const [historyUser, setHistoryUser] = useState<AdminUserListItem | null>(null);
+  const [actionType, setActionType] = useState<"role" | "approval" | "active" | "twoFactor" | "logout" | null>(null);
   const [newRole, setNewRole] = useState<"LISTENER" | "CREATOR" | "ADMIN">("LISTENER");
   
   // Bulk operations state
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [bulkAction, setBulkAction] = useState<"delete" | "activate" | "deactivate" | null>(null);
 
-  const { data: users, isLoading } = useQuery<UserType[]>({
+  const { data: users, isLoading } = useQuery<AdminUserListItem[]>({
     queryKey: ["/api/admin/users"],
   });
 
+  const { data: securityEvents = [], isLoading: isLoadingSecurityEvents } = useQuery<SecurityEventWithActor[]>({
+    queryKey: ["/api/admin/users", historyUser?.id, "security-events"],
+    enabled: !!historyUser,
+  });
+
   // Reset selection when dataset changes (to avoid stale selections)
   useEffect(() => {
     if (users) {
@@ -121,6 +144,69 @@ export default function AdminUsers() {
     },
   });
 
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest("POST", `/api/admin/users/${userId}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Cuenta desbloqueada",
+        description: "El usuario ya puede volver a iniciar sesión.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo desbloquear la cuenta.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest<{ revoked: number }>("POST", `/api/admin/users/${userId}/sessions/revoke`);
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Sesiones cerradas",
+        description: `Se ha cerrado la sesión en ${data.revoked} dispositivo(s).`,
+      });
+      setSelectedUser(null);
+      setActionType(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudieron cerrar las sesiones.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest("POST", `/api/admin/users/${userId}/2fa/reset`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Verificación restablecida",
+        description: "El usuario deberá configurar de nuevo la verificación en dos pasos.",
+      });
+      setSelectedUser(null);
+      setActionType(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo restablecer la verificación en dos pasos.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Bulk operations mutations
   const bulkDeleteMutation = useMutation({
     mutationFn: async (ids: string[]) => {
@@ -202,22 +288,32 @@ export default function AdminUsers() {
     },
   });
 
-  const handleRoleChange = (user: UserType) => {
+  const handleRoleChange = (user: AdminUserListItem) => {
     setSelectedUser(user);
     setNewRole(user.role);
     setActionType("role");
   };
 
-  const handleToggleApproval = (user: UserType) => {
+  const handleToggleApproval = (user: AdminUserListItem) => {
     setSelectedUser(user);
     setActionType("approval");
   };
 
-  const handleToggleActive = (user: UserType) => {
+  const handleToggleActive = (user: AdminUserListItem) => {
     setSelectedUser(user);
     setActionType("active");
   };
 
+  const handleResetTwoFactor = (user: AdminUserListItem) => {
+    setSelectedUser(user);
+    setActionType("twoFactor");
+  };
+
+  const handleForceLogout = (user: AdminUserListItem) => {
+    setSelectedUser(user);
+    setActionType("logout");
+  };
+
   const confirmAction = () => {
     if (!selectedUser) return;
 
@@ -233,6 +329,10 @@ export default function AdminUsers() {
         userId: selectedUser.id,
         isActive: !selectedUser.isActive,
       });
+    } else if (actionType === "twoFactor") {
+      resetTwoFactorMutation.mutate(selectedUser.id);
+    } else if (actionType === "logout") {
+      forceLogoutMutation.mutate(selectedUser.id);
     }
   };
 
@@ -381,6 +481,7 @@ export default function AdminUsers() {
                 <TableHead>Rol</TableHead>
                 <TableHead>Estado</TableHead>
                 <TableHead>Requiere Aprobación</TableHead>
+                <TableHead>2FA</TableHead>
                 <TableHead className="text-right">Acciónes</TableHead>
               </TableRow>
             </TableHeader>
@@ -399,7 +500,7 @@ export default function AdminUsers() {
                   </TableCell>
                   <TableCell data-testid={`text-email-${user.id}`}>{user.email}</TableCell>
                   <TableCell>{getRoleBadge(user.role)}</TableCell>
-                  <TableCell>
+                  <TableCell className="space-x-1">
                     {user.isActive ? (
                       <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20" data-testid={`badge-active-${user.id}`}>
                         <UserCheck className="w-3 h-3 mr-1" />
@@ -411,6 +512,17 @@ export default function AdminUsers() {
                         Inactivo
                       </Badge>
                     )}
+                    {user.lockedUntil && (
+                      <Badge
+                        variant="outline"
+                        className="bg-orange-500/10 text-orange-600 border-orange-500/20"
+                        title={`${user.failedLoginCount} intentos fallidos`}
+                        data-testid={`badge-locked-${user.id}`}
+                      >
+                        <Lock className="w-3 h-3 mr-1" />
+                        Bloqueado hasta {formatLockedUntil(user.lockedUntil)}
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>
                     {user.requiresApproval ? (
@@ -425,6 +537,16 @@ export default function AdminUsers() {
                       </Badge>
                     )}
                   </TableCell>
+                  <TableCell>
+                    {user.twoFactorEnabled ? (
+                      <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20" data-testid={`badge-two-factor-${user.id}`}>
+                        <ShieldCheck className="w-3 h-3 mr-1" />
+                        Activa
+                      </Badge>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
                   <TableCell className="text-right space-x-2">
                     <Button
                       size="sm"
@@ -453,6 +575,47 @@ export default function AdminUsers() {
                       {user.isActive ? <UserX className="w-3 h-3 mr-1" /> : <UserCheck className="w-3 h-3 mr-1" />}
                       {user.isActive ? "Desactivar" : "Activar"}
                     </Button>
+                    {user.twoFactorEnabled && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleResetTwoFactor(user)}
+                        data-testid={`button-reset-two-factor-${user.id}`}
+                      >
+                        <ShieldOff className="w-3 h-3 mr-1" />
+                        Restablecer 2FA
+                      </Button>
+                    )}
+                    {user.lockedUntil && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => unlockMutation.mutate(user.id)}
+                        disabled={unlockMutation.isPending}
+                        data-testid={`button-unlock-${user.id}`}
+                      >
+                        <LockOpen className="w-3 h-3 mr-1" />
+                        Desbloquear
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleForceLogout(user)}
+                      data-testid={`button-force-logout-${user.id}`}
+                    >
+                      <LogOut className="w-3 h-3 mr-1" />
+                      Cerrar Sesiones
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setHistoryUser(user)}
+                      data-testid={`button-security-history-${user.id}`}
+                    >
+                      <History className="w-3 h-3 mr-1" />
+                      Historial
+                    </Button>
                   </TableCell>
                 </TableRow>
               ))}
@@ -466,7 +629,7 @@ export default function AdminUsers() {
         open={!!selectedUser && !!actionType} 
         onOpenChange={(open) => {
           // Prevent closing dialog during pending operations
-          if (!updateRoleMutation.isPending && !toggleApprovalMutation.isPending && !toggleActiveMutation.isPending) {
+          if (!updateRoleMutation.isPending && !toggleApprovalMutation.isPending && !toggleActiveMutation.isPending && !resetTwoFactorMutation.isPending || forceLogoutMutation.isPending) {
             if (!open) {
               setSelectedUser(null);
               setActionType(null);
@@ -480,6 +643,8 @@ export default function AdminUsers() {
               {actionType === "role" && "Cambiar Rol de Usuario"}
               {actionType === "approval" && "Cambiar Configuración de Aprobación"}
               {actionType === "active" && (selectedUser?.isActive ? "Desactivar Usuario" : "Activar Usuario")}
+              {actionType === "twoFactor" && "Restablecer Verificación en Dos Pasos"}
+              {actionType === "logout" && "Cerrar Todas las Sesiones"}
             </AlertDialogTitle>
             <AlertDialogDescription>
               {actionType === "role" && (
@@ -522,7 +687,7 @@ export default function AdminUsers() {
                   {selectedUser?.isActive ? (
                     <>
                       ¿Estás seguro de que deseas desactivar a <strong>{selectedUser?.username}</strong>?
-                      No podrán iniciar sesión hasta que los reactives.
+                      Se cerrarán sus sesiones abiertas y no podrán iniciar sesión hasta que los reactives.
                     </>
                   ) : (
                     <>
@@ -531,21 +696,34 @@ export default function AdminUsers() {
                   )}
                 </p>
               )}
+              {actionType === "twoFactor" && (
+                <>
+                  <strong>{selectedUser?.username}</strong> podrá iniciar sesión solo con su contraseña
+                  {selectedUser?.role === "ADMIN" && " y tendrá que configurar la verificación de nuevo para usar el panel"}.
+                  Hazlo solo si has comprobado su identidad. Quedará registrado en su historial de seguridad.
+                </>
+              )}
+              {actionType === "logout" && (
+                <>
+                  Se cerrará la sesión de <strong>{selectedUser?.username}</strong> en todos sus dispositivos y tendrá que
+                  volver a iniciar sesión. Quedará registrado en su historial de seguridad.
+                </>
+              )}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel 
-              disabled={updateRoleMutation.isPending || toggleApprovalMutation.isPending || toggleActiveMutation.isPending}
+              disabled={updateRoleMutation.isPending || toggleApprovalMutation.isPending || toggleActiveMutation.isPending || resetTwoFactorMutation.isPending || forceLogoutMutation.isPending}
               data-testid="button-cancel-action"
             >
               Cancelar
             </AlertDialogCancel>
             <AlertDialogAction 
               onClick={confirmAction}
-              disabled={updateRoleMutation.isPending || toggleApprovalMutation.isPending || toggleActiveMutation.isPending}
+              disabled={updateRoleMutation.isPending || toggleApprovalMutation.isPending || toggleActiveMutation.isPending || resetTwoFactorMutation.isPending || forceLogoutMutation.isPending}
               data-testid="button-confirm-action"
             >
-              {updateRoleMutation.isPending || toggleApprovalMutation.isPending || toggleActiveMutation.isPending ? (
+              {updateRoleMutation.isPending || toggleApprovalMutation.isPending || toggleActiveMutation.isPending || resetTwoFactorMutation.isPending || forceLogoutMutation.isPending ? (
                 <Loader2 className="w-4 h-4 animate-spin" />
               ) : (
                 "Confirmar"
@@ -613,6 +791,44 @@ export default function AdminUsers() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Security History Dialog */}
+      <Dialog open={!!historyUser} onOpenChange={(open) => { if (!open) setHistoryUser(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Historial de seguridad</DialogTitle>
+            <DialogDescription>
+              Inicios de sesión fallidos, bloqueos y cambios en la verificación en dos pasos de <strong>{historyUser?.username}</strong>
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingSecurityEvents ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : securityEvents.length === 0 ? (
+            <p className="text-center py-6 text-sm text-muted-foreground">Sin eventos registrados</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto space-y-2 text-sm" data-testid="list-security-events">
+              {securityEvents.map((event) => (
+                <div key={event.id} className="flex items-start justify-between gap-4 border-b pb-2 last:border-0">
+                  <div>
+                    <p className={event.type === "LOGIN_FAILED" || event.type === "ACCOUNT_LOCKED" ? "text-destructive" : undefined}>
+                      {SECURITY_EVENT_LABELS[event.type]}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {event.ipAddress ?? "IP desconocida"}
+                      {event.actorName && ` · por ${event.actorName}`}
+                    </p>
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {new Date(event.createdAt).toLocaleString("es-ES")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
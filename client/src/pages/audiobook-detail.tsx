@@ -7,9 +7,13 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Link } from "wouter";
-import { Play, Clock, BookOpen, Heart, ShoppingCart, User, Headphones, ChevronLeft, ExternalLink, Check, FileText } from "lucide-react";
+import { Play, Clock, BookOpen, Heart, ShoppingCart, User, Headphones, ChevronLeft, ExternalLink, Check, FileText, Gift } from "lucide-react";
 import { SiAmazon } from "react-icons/si";
 import { PayPalButton } from "@/components/paypal-button";
+import { GiftDialog } from "@/components/gift-dialog";
+import { AudiobookReviews } from "@/components/audiobook-reviews";
+import { TranscriptSearch } from "@/components/transcript-search";
+import { StarRating } from "@/components/star-rating";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { AudiobookWithChapters, Chapter, BillingProfile } from "@shared/schema";
@@ -111,7 +115,8 @@ export default function AudiobookDetail() {
 
   const isFavorite = userFavorites?.some(f => f.id === audiobookId);
   const isPurchased = userPurchases?.some(p => p.audiobookId === audiobookId);
-  const hasActiveSubscription = userSubscription?.subscription?.status === "ACTIVE";
+  // Past due subscriptions keep access during the grace period
+  const hasActiveSubscription = userSubscription?.subscription?.status === "ACTIVE" || userSubscription?.subscription?.status === "PAST_DUE";
   const hasAccess = isPurchased || hasActiveSubscription || audiobook?.isFree || audiobook?.priceCents === 0;
   const isInCart = cartStatus?.isInCart || false;
 
@@ -264,6 +269,14 @@ export default function AudiobookDetail() {
                 <h1 className="font-serif text-4xl md:text-5xl font-bold mb-3" data-testid="text-audiobook-title">
                   {audiobook.title}
                 </h1>
+                {audiobook.seriesId && audiobook.seriesName && (
+                  <p className="text-primary mb-3" data-testid="text-audiobook-series">
+                    {audiobook.seriesIndex ? `Libro ${audiobook.seriesIndex} de la serie ` : "De la serie "}
+                    <Link href={`/series/${audiobook.seriesId}`} className="font-medium hover:underline" data-testid="link-audiobook-series">
+                      {audiobook.seriesName}
+                    </Link>
+                  </p>
+                )}
                 <div className="flex flex-wrap items-center gap-4 text-muted-foreground">
                   <span className="flex items-center gap-2">
                     <User className="w-4 h-4" />
@@ -279,6 +292,12 @@ export default function AudiobookDetail() {
                     <Clock className="w-4 h-4" />
                     {formatDuration(audiobook.totalDuration)}
                   </span>
+                  {audiobook.ratingCount > 0 && (
+                    <span className="flex items-center gap-2" data-testid="text-audiobook-rating">
+                      <StarRating value={audiobook.ratingAverage} />
+                      {audiobook.ratingAverage.toFixed(1)} ({audiobook.ratingCount})
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -347,6 +366,14 @@ export default function AudiobookDetail() {
                     </Button>
                   </>
                 )}
+                {!audiobook.isFree && audiobook.priceCents > 0 && (
+                  <GiftDialog audiobookId={audiobook.id} audiobookTitle={audiobook.title}>
+                    <Button size="lg" variant="outline" className="gap-2" data-testid="button-gift">
+                      <Gift className="w-5 h-5" />
+                      Regalar
+                    </Button>
+                  </GiftDialog>
+                )}
                 {(isPurchased || hasActiveSubscription) && (
                   <Badge variant="secondary" className="flex items-center gap-1 px-3 py-2">
                     <Check className="w-4 h-4" />
@@ -398,6 +425,11 @@ export default function AudiobookDetail() {
             <h2 className="font-serif text-2xl font-bold mb-6">
               Capitulos ({sortedChapters.length})
             </h2>
+            {sortedChapters.length > 0 && (
+              <div className="mb-6">
+                <TranscriptSearch audiobookId={audiobook.id} />
+              </div>
+            )}
             <div className="space-y-2">
               {sortedChapters.map((chapter, index) => (
                 <ChapterItem 
@@ -416,6 +448,10 @@ export default function AudiobookDetail() {
         </Card>
       </div>
 
+      <div className="container mx-auto px-4 pb-8">
+        <AudiobookReviews audiobookId={audiobook.id} />
+      </div>
+
       <Dialog open={showPurchaseDialog} onOpenChange={setShowPurchaseDialog}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
@@ -4,17 +4,24 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
-import { ShoppingCart, Trash2, BookOpen, ChevronLeft, CreditCard } from "lucide-react";
+import { ShoppingCart, Trash2, BookOpen, ChevronLeft, CreditCard, Gift, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { GiftDialog } from "@/components/gift-dialog";
 import type { Audiobook } from "@shared/schema";
 
 interface CartItemWithAudiobook {
   id: string;
   userId: string;
   audiobookId: string;
+  seriesId: string | null;
+  giftRecipientEmail: string | null;
+  giftMessage: string | null;
   createdAt: Date;
   audiobook: Audiobook;
+  // Bundle share when bought as part of a series bundle, otherwise the list price
+  priceCents: number;
+  bundleApplied: boolean;
 }
 
 interface CartData {
@@ -31,7 +38,7 @@ function formatPrice(cents: number, currency: string = "EUR"): string {
   }).format(cents / 100);
 }
 
-function CartItemRow({ item, onRemove }: { item: CartItemWithAudiobook; onRemove: () => void }) {
+function CartItemRow({ item, onRemove, onRemoveGift }: { item: CartItemWithAudiobook; onRemove: () => void; onRemoveGift: () => void }) {
   const { audiobook } = item;
   
   return (
@@ -58,11 +65,50 @@ function CartItemRow({ item, onRemove }: { item: CartItemWithAudiobook; onRemove
           </h3>
         </Link>
         <p className="text-sm text-muted-foreground truncate">{audiobook.author}</p>
+        {item.bundleApplied && (
+          <p className="text-xs text-primary truncate">Pack de la serie {audiobook.seriesName}</p>
+        )}
+        {item.giftRecipientEmail && (
+          <p className="text-xs text-primary flex items-center gap-1 min-w-0" data-testid={`text-gift-${audiobook.id}`}>
+            <Gift className="w-3 h-3 shrink-0" />
+            <span className="truncate">Regalo para {item.giftRecipientEmail}</span>
+            <button
+              type="button"
+              onClick={onRemoveGift}
+              className="text-muted-foreground hover:text-foreground"
+              title="Comprar para mi"
+              data-testid={`button-remove-gift-${audiobook.id}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </p>
+        )}
       </div>
       <div className="text-right flex items-center gap-4">
-        <span className="font-bold text-lg" data-testid={`text-price-${audiobook.id}`}>
-          {formatPrice(audiobook.priceCents, audiobook.currency)}
-        </span>
+        <div className="flex flex-col items-end">
+          {item.bundleApplied && item.priceCents !== audiobook.priceCents && (
+            <span className="text-xs text-muted-foreground line-through">
+              {formatPrice(audiobook.priceCents, audiobook.currency)}
+            </span>
+          )}
+          <span className="font-bold text-lg" data-testid={`text-price-${audiobook.id}`}>
+            {formatPrice(item.priceCents, audiobook.currency)}
+          </span>
+        </div>
+        <GiftDialog
+          audiobookId={audiobook.id}
+          audiobookTitle={audiobook.title}
+          initialGift={item.giftRecipientEmail ? { recipientEmail: item.giftRecipientEmail, message: item.giftMessage } : undefined}
+        >
+          <Button
+            size="icon"
+            variant="ghost"
+            title={item.giftRecipientEmail ? "Editar regalo" : "Regalar"}
+            data-testid={`button-gift-${audiobook.id}`}
+          >
+            <Gift className={`w-4 h-4 ${item.giftRecipientEmail ? "text-primary" : ""}`} />
+          </Button>
+        </GiftDialog>
         <Button 
           size="icon" 
           variant="ghost" 
@@ -103,6 +149,28 @@ export default function CartPage() {
     },
   });
 
+  const removeGiftMutation = useMutation({
+    mutationFn: async (audiobookId: string) => {
+      await apiRequest("DELETE", `/api/cart/${audiobookId}/gift`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      toast({
+        title: "Ya no es un regalo",
+        description: "El audiolibro se comprara para tu biblioteca",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message?.includes("Already purchased")
+          ? "Ya tienes este audiolibro; solo puedes comprarlo como regalo"
+          : "No se pudo actualizar el regalo",
+      });
+    },
+  });
+
   const clearCartMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("DELETE", "/api/cart");
@@ -208,6 +276,7 @@ export default function CartPage() {
                       key={item.id}
                       item={item}
                       onRemove={() => removeItemMutation.mutate(item.audiobookId)}
+                      onRemoveGift={() => removeGiftMutation.mutate(item.audiobookId)}
                     />
                   ))}
                 </div>
@@ -224,8 +293,11 @@ export default function CartPage() {
                 <div className="space-y-2">
                   {cart.items.map((item) => (
                     <div key={item.id} className="flex justify-between text-sm">
-                      <span className="truncate flex-1 mr-2">{item.audiobook.title}</span>
-                      <span>{formatPrice(item.audiobook.priceCents, item.audiobook.currency)}</span>
+                      <span className="truncate flex-1 mr-2">
+                        {item.audiobook.title}
+                        {item.giftRecipientEmail && " (regalo)"}
+                      </span>
+                      <span>{formatPrice(item.priceCents, item.audiobook.currency)}</span>
                     </div>
                   ))}
                 </div>
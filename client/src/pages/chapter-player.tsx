@@ -47,6 +47,11 @@ import {
   Settings,
   X
 } from "lucide-react";
+import { useProgressSync } from "@/hooks/use-progress-sync";
+import { useSignedAudioUrl } from "@/hooks/use-signed-audio-url";
+import { ContinueSeriesDialog } from "@/components/continue-series-dialog";
+import { BookmarksPanel } from "@/components/bookmarks-panel";
+import { TranscriptPanel } from "@/components/transcript-panel";
 import type { ChapterWithAudiobook, Chapter } from "@shared/schema";
 
 function formatTime(seconds: number): string {
@@ -97,6 +102,7 @@ export default function ChapterPlayer() {
   const [jumpMinutes, setJumpMinutes] = useState("");
   const [jumpSeconds, setJumpSeconds] = useState("");
   const [mobileSettingsOpen, setMobileSettingsOpen] = useState(false);
+  const [showContinueSeries, setShowContinueSeries] = useState(false);
   const sleepTimerInterval = useRef<NodeJS.Timeout | null>(null);
 
   const { data: chapter, isLoading, error } = useQuery<ChapterWithAudiobook>({
@@ -111,6 +117,30 @@ export default function ChapterPlayer() {
   
   const allChapters = audiobookData?.chapters || [];
 
+  useProgressSync(chapter?.id, audioRef, duration);
+  const audioSrc = useSignedAudioUrl(chapter?.id, chapter?.audioUrl, audioRef);
+
+  // ?t=<seconds> starts playback there, e.g. from a transcript search result
+  const startAtChapterId = useRef<string | null>(null);
+  useEffect(() => {
+    const audio = audioRef.current;
+    const startAt = parseInt(new URLSearchParams(window.location.search).get("t") || "", 10);
+    if (!audio || !audioSrc || !chapterId || !(startAt > 0) || startAtChapterId.current === chapterId) return;
+
+    const seek = () => {
+      startAtChapterId.current = chapterId;
+      audio.currentTime = Math.min(startAt, audio.duration || startAt);
+    };
+
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seek();
+      return;
+    }
+
+    audio.addEventListener("loadedmetadata", seek, { once: true });
+    return () => audio.removeEventListener("loadedmetadata", seek);
+  }, [audioSrc, chapterId]);
+
   const { previousChapter, nextChapter } = useMemo(() => {
     if (!chapter || allChapters.length === 0) {
       return { previousChapter: null, nextChapter: null };
@@ -147,6 +177,10 @@ export default function ChapterPlayer() {
       if (sleepTimer === -1) {
         cancelSleepTimer();
       }
+      // Finished the last chapter of a volume in a series
+      if (chapter?.audiobook.seriesId && allChapters.length > 0 && !nextChapter) {
+        setShowContinueSeries(true);
+      }
     };
 
     audio.addEventListener("timeupdate", updateTime);
@@ -158,7 +192,7 @@ export default function ChapterPlayer() {
       audio.removeEventListener("loadedmetadata", updateDuration);
       audio.removeEventListener("ended", handleEnded);
     };
-  }, [chapter, sleepTimer]);
+  }, [chapter, sleepTimer, allChapters.length, nextChapter]);
 
   // Sleep timer logic
   useEffect(() => {
@@ -364,7 +398,7 @@ export default function ChapterPlayer() {
             </div>
 
             {chapter.audioUrl && (
-              <audio ref={audioRef} src={chapter.audioUrl} preload="metadata" />
+              <audio ref={audioRef} src={audioSrc} preload="metadata" />
             )}
 
             {/* Progress Bar */}
@@ -601,6 +635,18 @@ export default function ChapterPlayer() {
                 </Dialog>
               </div>
 
+              {/* Bookmarks */}
+              <BookmarksPanel
+                chapterId={chapter.id}
+                audiobookId={chapter.audiobookId}
+                currentTime={currentTime}
+                onSeek={(seconds) => {
+                  if (audioRef.current) {
+                    audioRef.current.currentTime = seconds;
+                  }
+                }}
+              />
+
               {/* Mobile Settings Button */}
               <Sheet open={mobileSettingsOpen} onOpenChange={setMobileSettingsOpen}>
                 <SheetTrigger asChild>
@@ -733,9 +779,26 @@ export default function ChapterPlayer() {
                 </Button>
               </Link>
             </div>
+
+            <TranscriptPanel
+              chapterId={chapter.id}
+              currentTime={currentTime}
+              onSeek={(seconds) => {
+                if (audioRef.current) {
+                  audioRef.current.currentTime = seconds;
+                }
+              }}
+              className="mt-6"
+            />
           </CardContent>
         </Card>
       </div>
+
+      <ContinueSeriesDialog
+        audiobookId={chapter.audiobook.id}
+        open={showContinueSeries}
+        onOpenChange={setShowContinueSeries}
+      />
     </div>
   );
 }
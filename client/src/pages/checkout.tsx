@@ -19,8 +19,14 @@ interface CartItemWithAudiobook {
   id: string;
   userId: string;
   audiobookId: string;
+  seriesId: string | null;
+  giftRecipientEmail: string | null;
+  giftMessage: string | null;
   createdAt: Date;
   audiobook: Audiobook;
+  // Bundle share when bought as part of a series bundle, otherwise the list price
+  priceCents: number;
+  bundleApplied: boolean;
 }
 
 interface CartData {
@@ -497,9 +503,12 @@ export default function CheckoutPage() {
                     <div className="flex-1 min-w-0">
                       <p className="font-medium text-sm truncate">{item.audiobook.title}</p>
                       <p className="text-xs text-muted-foreground truncate">{item.audiobook.author}</p>
+                      {item.giftRecipientEmail && (
+                        <p className="text-xs text-primary truncate">Regalo para {item.giftRecipientEmail}</p>
+                      )}
                     </div>
                     <span className="text-sm font-medium">
-                      {formatPrice(item.audiobook.priceCents, item.audiobook.currency)}
+                      {formatPrice(item.priceCents, item.audiobook.currency)}
                     </span>
                   </div>
                 ))}
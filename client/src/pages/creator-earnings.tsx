@@ -0,0 +1,222 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BookOpen, CalendarDays, Download, FileText, Loader2, Wallet } from "lucide-react";
+import type { CreatorEarningsOverview } from "@shared/schema";
+
+function formatPrice(cents: number, currency: string = "EUR"): string {
+  return new Intl.NumberFormat("es-ES", {
+    style: "currency",
+    currency: currency,
+  }).format(cents / 100);
+}
+
+function formatRate(rateBasisPoints: number): string {
+  return `${(rateBasisPoints / 100).toLocaleString("es-ES", { maximumFractionDigits: 2 })}%`;
+}
+
+function formatPeriod(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("es-ES", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function formatDate(date: string | Date | null): string {
+  if (!date) return "-";
+  return new Date(date).toLocaleDateString("es-ES", { day: "numeric", month: "short", year: "numeric" });
+}
+
+/**
+ * Creator earnings dashboard
+ * Sales and refunds are credited as they happen; the subscription share is
+ * added when the month is closed, together with the payout statement.
+ */
+export default function CreatorEarnings() {
+  const { data: overview, isLoading } = useQuery<CreatorEarningsOverview>({
+    queryKey: ["/api/creator/earnings"],
+  });
+
+  if (isLoading || !overview) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { unpaid, months, audiobooks, statements } = overview;
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-8">
+      <div>
+        <h1 className="font-serif text-4xl font-bold" data-testid="text-page-title">
+          Mis Ingresos
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Tu parte de las ventas y de las suscripciones, y las liquidaciones mensuales
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {(unpaid.length > 0 ? unpaid : [{ currency: "EUR", amountCents: 0 }]).map((balance) => (
+          <Card key={balance.currency} data-testid={`card-unpaid-${balance.currency}`}>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Wallet className="w-4 h-4" />
+                Pendiente de pago ({balance.currency})
+              </CardDescription>
+              <CardTitle className="text-3xl">{formatPrice(balance.amountCents, balance.currency)}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground">
+                {balance.amountCents < 0
+                  ? "Las devoluciones superan a los ingresos; se descontaran de la proxima liquidacion"
+                  : "Incluye lo ya liquidado que aun no se ha pagado"}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Ultimos 12 meses
+          </CardTitle>
+          <CardDescription>
+            Importes netos de impuestos y descuentos, tras aplicar tu porcentaje
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {months.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">Aun no tienes ingresos</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Mes</TableHead>
+                    <TableHead className="text-right">Ventas</TableHead>
+                    <TableHead className="text-right">Devoluciones</TableHead>
+                    <TableHead className="text-right">Suscripciones</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {months.map((month) => (
+                    <TableRow key={`${month.period}-${month.currency}`} data-testid={`row-earnings-month-${month.period}`}>
+                      <TableCell className="capitalize">{formatPeriod(month.period)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(month.salesCents, month.currency)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{formatPrice(month.refundsCents, month.currency)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(month.subscriptionCents, month.currency)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatPrice(month.totalCents, month.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            Por audiolibro
+          </CardTitle>
+          <CardDescription>
+            El fondo de suscripciones se reparte segun los minutos escuchados por los suscriptores
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {audiobooks.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">Aun no tienes ingresos</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Audiolibro</TableHead>
+                    <TableHead>Porcentaje</TableHead>
+                    <TableHead className="text-right">Ventas</TableHead>
+                    <TableHead className="text-right">Minutos escuchados</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {audiobooks.map((audiobook) => (
+                    <TableRow key={`${audiobook.audiobookId}-${audiobook.currency}`} data-testid={`row-earnings-audiobook-${audiobook.audiobookId}`}>
+                      <TableCell className="font-medium">{audiobook.title}</TableCell>
+                      <TableCell>{formatRate(audiobook.rateBasisPoints)}</TableCell>
+                      <TableCell className="text-right">{audiobook.salesCount}</TableCell>
+                      <TableCell className="text-right">{audiobook.listeningMinutes.toLocaleString("es-ES")}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatPrice(audiobook.totalCents, audiobook.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Liquidaciones
+          </CardTitle>
+          <CardDescription>
+            Se genera una liquidacion al cerrar cada mes con saldo a tu favor
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {statements.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">Aun no tienes liquidaciones</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Periodo</TableHead>
+                    <TableHead className="text-right">Importe</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">PDF</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statements.map((statement) => (
+                    <TableRow key={statement.id} data-testid={`row-statement-${statement.id}`}>
+                      <TableCell className="capitalize">{formatPeriod(statement.period)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatPrice(statement.totalCents, statement.currency)}</TableCell>
+                      <TableCell>
+                        {statement.status === "PAID" ? (
+                          <Badge variant="default">Pagada el {formatDate(statement.paidAt)}</Badge>
+                        ) : (
+                          <Badge variant="secondary">Pendiente de pago</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => window.open(`/api/payout-statements/${statement.id}/download`, "_blank")}
+                          data-testid={`button-download-statement-${statement.id}`}
+                        >
+                          <Download className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
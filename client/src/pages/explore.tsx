@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Search, Heart, Clock, BookOpen, Filter } from "lucide-react";
+import { Search, Heart, Clock, BookOpen, Filter, Loader2, Star } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -14,9 +14,10 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useCatalogSearch, useDebouncedValue } from "@/hooks/use-catalog-search";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
-import type { Audiobook } from "@shared/schema";
+import { AUDIOBOOK_DURATION_BUCKETS, type AudiobookSearchSort } from "@shared/schema";
 
 function formatDuration(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
@@ -34,28 +35,43 @@ function formatPrice(cents: number, currency: string = "EUR"): string {
   }).format(cents / 100);
 }
 
-const categories = [
-  "Todos",
-  "Fiction",
-  "Non-Fiction",
-  "Mystery",
-  "Romance",
-  "Sci-Fi",
-  "Biography",
-  "Self-Help",
-  "Business",
-  "History",
-];
+// Same language options as the audiobook editor
+const languageNames: Record<string, string> = {
+  es: "Español",
+  en: "English",
+  fr: "Français",
+  de: "Deutsch",
+};
 
 export default function Explore() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("Todos");
+  const [selectedLanguage, setSelectedLanguage] = useState("all");
   const [priceFilter, setPriceFilter] = useState("all");
-  const [sortBy, setSortBy] = useState("recent");
+  const [durationFilter, setDurationFilter] = useState("all");
+  const [ratingFilter, setRatingFilter] = useState("all");
+  const [sortBy, setSortBy] = useState<AudiobookSearchSort>("relevance");
   const { toast } = useToast();
+  const debouncedQuery = useDebouncedValue(searchQuery.trim());
+  const durationBucket = AUDIOBOOK_DURATION_BUCKETS.find(bucket => bucket.key === durationFilter);
 
-  const { data: audiobooks = [], isLoading } = useQuery<Audiobook[]>({
-    queryKey: ["/api/audiobooks"],
+  const {
+    audiobooks,
+    total,
+    facets,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useCatalogSearch({
+    q: debouncedQuery,
+    category: selectedCategory !== "Todos" ? selectedCategory : undefined,
+    language: selectedLanguage !== "all" ? selectedLanguage : undefined,
+    isFree: priceFilter === "all" ? undefined : priceFilter === "free",
+    minDuration: durationBucket?.min,
+    maxDuration: durationBucket?.max ?? undefined,
+    minRating: ratingFilter !== "all" ? Number(ratingFilter) : undefined,
+    sort: sortBy,
   });
 
   const { data: userFavorites = [] } = useQuery<Array<{ id: string }>>({
@@ -64,50 +80,15 @@ export default function Explore() {
 
   const favoriteIds = new Set(userFavorites.map(f => f.id));
 
-  const filteredAudiobooks = audiobooks
-    .filter((audiobook) => {
-      const query = searchQuery.toLowerCase();
-      const matchesSearch =
-        audiobook.title.toLowerCase().includes(query) ||
-        audiobook.author.toLowerCase().includes(query) ||
-        audiobook.description.toLowerCase().includes(query) ||
-        audiobook.category.toLowerCase().includes(query) ||
-        (audiobook.seriesName?.toLowerCase().includes(query) ?? false);
-      
-      const matchesCategory = selectedCategory === "Todos" || audiobook.category === selectedCategory;
-      
-      const matchesPrice = 
-        priceFilter === "all" ||
-        (priceFilter === "free" && audiobook.isFree) ||
-        (priceFilter === "paid" && !audiobook.isFree);
-
-      return matchesSearch && matchesCategory && matchesPrice;
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case "series":
-          // Group by series name, then by series index
-          if (a.seriesName && b.seriesName) {
-            const seriesCompare = a.seriesName.localeCompare(b.seriesName);
-            if (seriesCompare !== 0) return seriesCompare;
-            return (a.seriesIndex || 999) - (b.seriesIndex || 999);
-          }
-          // Put items with series first
-          if (a.seriesName && !b.seriesName) return -1;
-          if (!a.seriesName && b.seriesName) return 1;
-          return a.title.localeCompare(b.title);
-        case "title":
-          return a.title.localeCompare(b.title);
-        case "author":
-          return a.author.localeCompare(b.author);
-        case "recent":
-        default:
-          // Handle missing createdAt gracefully
-          const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-          const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-          return dateB - dateA;
-      }
-    });
+  // Keep the current selection listed even when it has no results for the other filters
+  const categoryOptions = facets?.categories.map(facet => facet.value) || [];
+  if (selectedCategory !== "Todos" && !categoryOptions.includes(selectedCategory)) {
+    categoryOptions.push(selectedCategory);
+  }
+  const categoryCounts = new Map(facets?.categories.map(facet => [facet.value, facet.count]));
+  const durationCounts = new Map(facets?.durations.map(facet => [facet.value, facet.count]));
+  const hasFilters = !!debouncedQuery || selectedCategory !== "Todos" || selectedLanguage !== "all" ||
+    priceFilter !== "all" || durationFilter !== "all" || ratingFilter !== "all";
 
   const handleToggleFavorite = async (audiobookId: string) => {
     const isFav = favoriteIds.has(audiobookId);
@@ -174,36 +155,86 @@ export default function Explore() {
               <SelectValue placeholder="Categoria" />
             </SelectTrigger>
             <SelectContent>
-              {categories.map((cat) => (
+              <SelectItem value="Todos">Todos</SelectItem>
+              {categoryOptions.map((cat) => (
                 <SelectItem key={cat} value={cat}>
-                  {cat}
+                  {cat} ({categoryCounts.get(cat) ?? 0})
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
+          {(facets?.languages.length ?? 0) > 1 || selectedLanguage !== "all" ? (
+            <Select value={selectedLanguage} onValueChange={setSelectedLanguage}>
+              <SelectTrigger className="w-full md:w-40" data-testid="select-language">
+                <SelectValue placeholder="Idioma" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos los idiomas</SelectItem>
+                {facets?.languages.map((facet) => (
+                  <SelectItem key={facet.value} value={facet.value}>
+                    {languageNames[facet.value] || facet.value} ({facet.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : null}
           <Select value={priceFilter} onValueChange={setPriceFilter}>
             <SelectTrigger className="w-full md:w-40" data-testid="select-price">
               <SelectValue placeholder="Precio" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Todos</SelectItem>
-              <SelectItem value="free">Gratis</SelectItem>
-              <SelectItem value="paid">De pago</SelectItem>
+              <SelectItem value="free">Gratis ({facets?.price.free ?? 0})</SelectItem>
+              <SelectItem value="paid">De pago ({facets?.price.paid ?? 0})</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={durationFilter} onValueChange={setDurationFilter}>
+            <SelectTrigger className="w-full md:w-44" data-testid="select-duration">
+              <SelectValue placeholder="Duración" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Cualquier duración</SelectItem>
+              {AUDIOBOOK_DURATION_BUCKETS.map((bucket) => (
+                <SelectItem key={bucket.key} value={bucket.key}>
+                  {bucket.label} ({durationCounts.get(bucket.key) ?? 0})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={ratingFilter} onValueChange={setRatingFilter}>
+            <SelectTrigger className="w-full md:w-44" data-testid="select-rating">
+              <SelectValue placeholder="Valoración" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Cualquier valoración</SelectItem>
+              <SelectItem value="4">4 estrellas o más</SelectItem>
+              <SelectItem value="3">3 estrellas o más</SelectItem>
             </SelectContent>
           </Select>
-          <Select value={sortBy} onValueChange={setSortBy}>
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as AudiobookSearchSort)}>
             <SelectTrigger className="w-full md:w-44" data-testid="select-sort">
               <SelectValue placeholder="Ordenar por" />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="relevance">Relevancia</SelectItem>
               <SelectItem value="recent">Más recientes</SelectItem>
               <SelectItem value="series">Por serie</SelectItem>
               <SelectItem value="title">Por título</SelectItem>
               <SelectItem value="author">Por autor</SelectItem>
+              <SelectItem value="price_asc">Precio: menor a mayor</SelectItem>
+              <SelectItem value="price_desc">Precio: mayor a menor</SelectItem>
+              <SelectItem value="duration">Duración</SelectItem>
+              <SelectItem value="rating">Mejor valorados</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
+        {!isLoading && audiobooks.length > 0 && (
+          <p className="text-sm text-muted-foreground mb-4" data-testid="text-result-count">
+            {total} {total === 1 ? "audiolibro" : "audiolibros"}
+          </p>
+        )}
+
         {isLoading ? (
           <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
             {Array.from({ length: 12 }).map((_, i) => (
@@ -220,18 +251,18 @@ export default function Explore() {
               </Card>
             ))}
           </div>
-        ) : filteredAudiobooks.length === 0 ? (
+        ) : audiobooks.length === 0 ? (
           <div className="text-center py-16 border border-dashed rounded-lg">
             <BookOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <p className="text-muted-foreground">
-              {searchQuery || selectedCategory !== "Todos" || priceFilter !== "all"
+              {hasFilters
                 ? "No se encontraron audiolibros con esos filtros"
                 : "No hay audiolibros disponibles aun"}
             </p>
           </div>
         ) : (
           <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-            {filteredAudiobooks.map((audiobook) => (
+            {audiobooks.map((audiobook) => (
               <Card
                 key={audiobook.id}
                 className="group overflow-hidden hover-elevate cursor-pointer transition-transform duration-200 hover:scale-[1.02]"
@@ -281,9 +312,17 @@ export default function Explore() {
                       </p>
                     )}
                     <div className="flex items-center justify-between mt-3">
-                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                        <Clock className="w-3 h-3" />
-                        <span>{formatDuration(audiobook.totalDuration)}</span>
+                      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {formatDuration(audiobook.totalDuration)}
+                        </span>
+                        {audiobook.ratingCount > 0 && (
+                          <span className="flex items-center gap-1" data-testid={`text-rating-${audiobook.id}`}>
+                            <Star className="w-3 h-3 fill-primary text-primary" />
+                            {audiobook.ratingAverage.toFixed(1)}
+                          </span>
+                        )}
                       </div>
                       {!audiobook.isFree && audiobook.priceCents > 0 && (
                         <span className="font-semibold text-primary">
@@ -297,6 +336,20 @@ export default function Explore() {
             ))}
           </div>
         )}
+
+        {hasNextPage && (
+          <div className="flex justify-center mt-8">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="button-load-more"
+            >
+              {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Cargar más
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,162 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BookOpen, Check, Gift, Loader2, LogIn, UserPlus } from "lucide-react";
+import { useAuth } from "@/components/auth-provider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { GiftDetails } from "@shared/schema";
+
+export default function GiftRedeem() {
+  const [, params] = useRoute("/gift/:token");
+  const token = params?.token;
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: gift, isLoading, error } = useQuery<GiftDetails>({
+    queryKey: ["/api/gifts", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const redeemMutation = useMutation({
+    mutationFn: () => apiRequest<{ success: boolean; audiobookId: string }>("POST", `/api/gifts/${token}/redeem`),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/purchases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/gifts", token] });
+      toast({
+        title: "Regalo canjeado",
+        description: "El audiolibro ya esta en tu biblioteca",
+      });
+      setLocation(`/audiobook/${data.audiobookId}`);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message?.includes("already own")
+          ? "Ya tienes este audiolibro en tu biblioteca"
+          : error.message?.includes("already been redeemed")
+            ? "Este regalo ya ha sido canjeado"
+            : "No se pudo canjear el regalo",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-lg space-y-4">
+        <Skeleton className="h-10 w-2/3 mx-auto" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !gift) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <Gift className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
+        <h2 className="text-2xl font-bold mb-2">Regalo no encontrado</h2>
+        <p className="text-muted-foreground mb-6">El enlace no es valido o el regalo ya no esta disponible.</p>
+        <Link href="/explore">
+          <Button>Explorar audiolibros</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { audiobook } = gift;
+  const authParams = new URLSearchParams({ gift: token! });
+  if (gift.recipientEmail) {
+    authParams.set("email", gift.recipientEmail);
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-lg">
+      <div className="text-center mb-8">
+        <Gift className="w-12 h-12 mx-auto text-primary mb-4" />
+        <h1 className="font-serif text-3xl font-bold" data-testid="text-gift-title">
+          {gift.senderName} te ha regalado un audiolibro
+        </h1>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 space-y-6">
+          <div className="flex items-center gap-4">
+            <div className="w-24 h-24 rounded-lg overflow-hidden shrink-0">
+              {audiobook.coverArtUrl ? (
+                <img src={audiobook.coverArtUrl} alt={audiobook.title} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full bg-gradient-to-br from-primary/30 to-primary/60 flex items-center justify-center">
+                  <BookOpen className="w-8 h-8 text-primary-foreground/60" />
+                </div>
+              )}
+            </div>
+            <div className="min-w-0">
+              <h2 className="font-semibold text-lg line-clamp-2">{audiobook.title}</h2>
+              <p className="text-sm text-muted-foreground truncate">{audiobook.author}</p>
+            </div>
+          </div>
+
+          {gift.message && (
+            <blockquote className="border-l-4 border-primary pl-4 italic text-muted-foreground whitespace-pre-line">
+              "{gift.message}"
+              <span className="block not-italic text-sm mt-2">— {gift.senderName}</span>
+            </blockquote>
+          )}
+
+          {gift.redeemedAt ? (
+            <div className="text-center space-y-4">
+              <p className="flex items-center justify-center gap-2 text-muted-foreground">
+                <Check className="w-4 h-4" />
+                Este regalo ya ha sido canjeado
+              </p>
+              <Link href="/library">
+                <Button variant="outline">Ir a mi biblioteca</Button>
+              </Link>
+            </div>
+          ) : isAuthenticated ? (
+            <div className="space-y-2">
+              <Button
+                size="lg"
+                className="w-full gap-2"
+                onClick={() => redeemMutation.mutate()}
+                disabled={redeemMutation.isPending}
+                data-testid="button-redeem-gift"
+              >
+                {redeemMutation.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Gift className="w-5 h-5" />}
+                Canjear en mi cuenta
+              </Button>
+              {user && gift.recipientEmail && user.email.toLowerCase() !== gift.recipientEmail && (
+                <p className="text-xs text-center text-muted-foreground">
+                  El regalo se enviaba a {gift.recipientEmail}; se añadira a la cuenta de {user.email}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-center text-muted-foreground">
+                Inicia sesion o crea una cuenta gratis para añadirlo a tu biblioteca
+              </p>
+              <Link href={`/register?${authParams}`}>
+                <Button size="lg" className="w-full gap-2" data-testid="link-register-gift">
+                  <UserPlus className="w-5 h-5" />
+                  Crear cuenta
+                </Button>
+              </Link>
+              <Link href={`/login?${authParams}`}>
+                <Button size="lg" variant="outline" className="w-full gap-2" data-testid="link-login-gift">
+                  <LogIn className="w-5 h-5" />
+                  Ya tengo cuenta
+                </Button>
+              </Link>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
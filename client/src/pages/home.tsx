@@ -3,9 +3,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { Link } from "wouter";
+import { useAuth } from "@/components/auth-provider";
 import { Play, Clock, Heart, ChevronRight, Headphones, BookOpen, Star } from "lucide-react";
-import type { Audiobook } from "@shared/schema";
+import type { Audiobook, ContinueListeningItem } from "@shared/schema";
 
 function formatDuration(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
@@ -76,6 +78,51 @@ function AudiobookCard({ audiobook }: { audiobook: Audiobook }) {
   );
 }
 
+function ContinueListeningCard({ item }: { item: ContinueListeningItem }) {
+  const percent = item.chapter.duration > 0
+    ? Math.min(100, (item.positionSeconds / item.chapter.duration) * 100)
+    : 0;
+  const remaining = Math.max(0, item.chapter.duration - item.positionSeconds);
+
+  return (
+    <Link href={`/chapter/${item.chapterId}`}>
+      <Card
+        className="group overflow-hidden hover-elevate cursor-pointer"
+        data-testid={`card-continue-${item.audiobookId}`}
+      >
+        <div className="flex items-center gap-4 p-3">
+          <div className="w-16 h-16 shrink-0 rounded-md overflow-hidden relative">
+            {item.audiobook.coverArtUrl ? (
+              <img
+                src={item.audiobook.coverArtUrl}
+                alt={item.audiobook.title}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <div className="w-full h-full bg-gradient-to-br from-primary/30 to-primary/60 flex items-center justify-center">
+                <BookOpen className="w-6 h-6 text-primary-foreground/60" />
+              </div>
+            )}
+            <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <Play className="w-6 h-6 text-white" />
+            </div>
+          </div>
+          <div className="flex-1 min-w-0 space-y-1">
+            <h3 className="font-serif font-semibold line-clamp-1">{item.audiobook.title}</h3>
+            <p className="text-sm text-muted-foreground line-clamp-1">{item.chapter.title}</p>
+            <Progress value={percent} className="h-1.5" />
+            {item.chapter.duration > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Quedan {formatDuration(remaining)}
+              </p>
+            )}
+          </div>
+        </div>
+      </Card>
+    </Link>
+  );
+}
+
 function AudiobookGridSkeleton() {
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
@@ -152,6 +199,13 @@ export default function Home() {
     queryKey: ["/api/audiobooks"],
   });
 
+  const { isAuthenticated } = useAuth();
+  const { data: continueListening = [] } = useQuery<ContinueListeningItem[]>({
+    queryKey: ["/api/progress/continue-listening"],
+    enabled: isAuthenticated,
+    staleTime: 0,
+  });
+
   const featuredAudiobooks = audiobooks?.slice(0, 6) || [];
   const freeAudiobooks = audiobooks?.filter(a => a.isFree) || [];
 
@@ -160,6 +214,17 @@ export default function Home() {
       <HeroSection />
 
       <div className="container mx-auto px-4 py-12 space-y-16">
+        {continueListening.length > 0 && (
+          <section>
+            <SectionHeader title="Continuar escuchando" />
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {continueListening.slice(0, 6).map((item) => (
+                <ContinueListeningCard key={item.audiobookId} item={item} />
+              ))}
+            </div>
+          </section>
+        )}
+
         <section>
           <SectionHeader title="Destacados" viewAllHref="/explore" />
           {isLoading ? (
@@ -0,0 +1,164 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, Home, Loader2, LogIn, Mail, UserPlus } from "lucide-react";
+import { useAuth } from "@/components/auth-provider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { HouseholdInvitationDetails } from "@shared/schema";
+
+export default function HouseholdInvitation() {
+  const [, params] = useRoute("/household/invitation/:token");
+  const token = params?.token;
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading, error } = useQuery<HouseholdInvitationDetails>({
+    queryKey: ["/api/household/invitations", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/household/invitations/${token}/accept`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/household"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/library/purchases"] });
+      toast({
+        title: "Te has unido al hogar",
+        description: invitation?.sharesSubscription
+          ? "Ya puedes escuchar sus compras y su suscripcion"
+          : "Ya puedes escuchar sus audiolibros comprados",
+      });
+      setLocation("/library");
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message?.includes("different email")
+          ? "Esta invitacion se envio a otro email"
+          : error.message?.includes("already accepted")
+            ? "Esta invitacion ya ha sido aceptada"
+            : error.message?.includes("Already a member")
+              ? "Ya perteneces a otro hogar; abandonalo antes de unirte a este"
+              : error.message?.includes("cannot join")
+                ? "Tienes tu propio hogar con miembros; no puedes unirte a otro"
+                : error.message?.includes("Household is full")
+                  ? "Este hogar ya esta completo"
+                  : error.message?.includes("no longer valid")
+                    ? "Esta invitacion ya no es valida"
+                    : "No se pudo aceptar la invitacion",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-lg space-y-4">
+        <Skeleton className="h-10 w-2/3 mx-auto" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <Mail className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
+        <h2 className="text-2xl font-bold mb-2">Invitacion no encontrada</h2>
+        <p className="text-muted-foreground mb-6">El enlace no es valido o la invitacion ya no esta disponible.</p>
+        <Link href="/explore">
+          <Button>Explorar audiolibros</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const authParams = new URLSearchParams({ household: token!, email: invitation.email });
+  const isOtherAccount = !!user && user.email.toLowerCase() !== invitation.email;
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-lg">
+      <div className="text-center mb-8">
+        <Home className="w-12 h-12 mx-auto text-primary mb-4" />
+        <h1 className="font-serif text-3xl font-bold" data-testid="text-household-invitation-title">
+          {invitation.ownerName} te invita a su hogar
+        </h1>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 space-y-6">
+          <div className="space-y-2 text-sm">
+            <p>
+              Podras escuchar {invitation.sharesSubscription ? "sus audiolibros comprados y todo el catalogo de su suscripcion" : "sus audiolibros comprados"}.
+            </p>
+            <p className="text-muted-foreground">
+              Tu progreso de escucha y tus listas de reproduccion seguiran siendo solo tuyos.
+            </p>
+            {invitation.status === "PENDING" && (
+              <p className="text-xs text-muted-foreground">
+                Puedes aceptarla hasta el {new Date(invitation.expiresAt).toLocaleDateString("es-ES")}
+              </p>
+            )}
+          </div>
+
+          {invitation.status === "ACCEPTED" ? (
+            <div className="text-center space-y-4">
+              <p className="flex items-center justify-center gap-2 text-muted-foreground">
+                <Check className="w-4 h-4" />
+                Esta invitacion ya ha sido aceptada
+              </p>
+              <Link href="/library">
+                <Button variant="outline">Ir a mi biblioteca</Button>
+              </Link>
+            </div>
+          ) : invitation.status !== "PENDING" ? (
+            <p className="text-center text-muted-foreground" data-testid="text-household-invitation-invalid">
+              {invitation.status === "EXPIRED" ? "Esta invitacion ha caducado" : "Esta invitacion ha sido cancelada"}
+            </p>
+          ) : isAuthenticated ? (
+            <div className="space-y-2">
+              <Button
+                size="lg"
+                className="w-full gap-2"
+                onClick={() => acceptMutation.mutate()}
+                disabled={acceptMutation.isPending || isOtherAccount}
+                data-testid="button-accept-household-invitation"
+              >
+                {acceptMutation.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+                Unirme al hogar
+              </Button>
+              {isOtherAccount && (
+                <p className="text-xs text-center text-muted-foreground">
+                  La invitacion se envio a {invitation.email}; inicia sesion con esa cuenta para aceptarla
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-center text-muted-foreground">
+                Inicia sesion o crea una cuenta con {invitation.email} para aceptarla
+              </p>
+              <Link href={`/register?${authParams}`}>
+                <Button size="lg" className="w-full gap-2" data-testid="link-register-household">
+                  <UserPlus className="w-5 h-5" />
+                  Crear cuenta
+                </Button>
+              </Link>
+              <Link href={`/login?${authParams}`}>
+                <Button size="lg" variant="outline" className="w-full gap-2" data-testid="link-login-household">
+                  <LogIn className="w-5 h-5" />
+                  Ya tengo cuenta
+                </Button>
+              </Link>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
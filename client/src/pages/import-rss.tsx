@@ -11,7 +11,10 @@ import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, ApiError } from "@/lib/queryClient";
+import { waitForJob } from "@/lib/jobs";
+import { JobProgress } from "@/components/job-progress";
 import { Loader2, Rss, CheckCircle, AlertCircle, ArrowLeft, Info } from "lucide-react";
+import type { BackgroundJobResponse } from "@shared/schema";
 
 const importRSSSchema = z.object({
   rssUrl: z.string().url("Ingresa una URL válida"),
@@ -38,6 +41,7 @@ export default function ImportRSS() {
     error?: string;
     details?: any;
   } | null>(null);
+  const [job, setJob] = useState<BackgroundJobResponse | null>(null);
 
   const form = useForm<ImportRSSFormData>({
     resolver: zodResolver(importRSSSchema),
@@ -49,8 +53,12 @@ export default function ImportRSS() {
   const importMutation = useMutation({
     mutationFn: async (data: ImportRSSFormData) => {
       // apiRequest parses JSON and throws ApiError on non-OK responses
-      return await apiRequest<ImportResult>("POST", "/api/podcasts/import-rss", data);
+      const { job } = await apiRequest<{ job: BackgroundJobResponse }>("POST", "/api/podcasts/import-rss", data);
+      // The feed is imported in the background; wait for the job to finish
+      setJob(job);
+      return await waitForJob<ImportResult>(job.id, setJob);
     },
+    onSettled: () => setJob(null),
     onSuccess: (data) => {
       setResult({
         success: true,
@@ -187,6 +195,8 @@ export default function ImportRSS() {
                   </>
                 )}
               </Button>
+
+              <JobProgress job={job} />
             </form>
           </Form>
 
@@ -15,7 +15,10 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, ApiError } from "@/lib/queryClient";
+import { waitForJob } from "@/lib/jobs";
+import { JobProgress } from "@/components/job-progress";
 import { Loader2, Youtube, CheckCircle, AlertCircle, ArrowLeft, Info, AlertTriangle, Clock } from "lucide-react";
+import type { BackgroundJobResponse } from "@shared/schema";
 
 const previewSchema = z.object({
   playlistUrl: z.string().url("Ingresa una URL válida").refine(
@@ -73,6 +76,7 @@ export default function ImportYouTube() {
     visibility: "PRIVATE" | "UNLISTED" | "PUBLIC";
   } | null>(null);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importJob, setImportJob] = useState<BackgroundJobResponse | null>(null);
 
   const previewForm = useForm({
     resolver: zodResolver(previewSchema),
@@ -108,7 +112,7 @@ export default function ImportYouTube() {
     mutationFn: async () => {
       if (!podcastConfig || !previewData) throw new Error("Configuración no disponible");
       
-      return await apiRequest<ImportResult>("POST", "/api/import-youtube", {
+      const { job } = await apiRequest<{ job: BackgroundJobResponse }>("POST", "/api/import-youtube", {
         playlistUrl: podcastConfig.playlistUrl,
         selectedVideoIds,
         podcastTitle: podcastConfig.title || undefined,
@@ -116,7 +120,11 @@ export default function ImportYouTube() {
         visibility: podcastConfig.visibility,
         maxVideos: Math.min(previewData.videos.length, 50),
       });
+      // Videos are downloaded in the background; wait for the job to finish
+      setImportJob(job);
+      return await waitForJob<ImportResult>(job.id, setImportJob);
     },
+    onSettled: () => setImportJob(null),
     onSuccess: (data) => {
       setImportResult(data);
       setStep("success");
@@ -454,6 +462,8 @@ export default function ImportYouTube() {
                     </>
                   )}
                 </Button>
+
+                <JobProgress job={importJob} />
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,167 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BookOpen, Check, Loader2, Lock, LogIn, Mail, UserPlus } from "lucide-react";
+import { useAuth } from "@/components/auth-provider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { InvitationDetails } from "@shared/schema";
+
+export default function InvitationAccept() {
+  const [, params] = useRoute("/invitation/:token");
+  const token = params?.token;
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ["/api/invitations", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => apiRequest<{ success: boolean; audiobookId: string; chapterId: string | null }>("POST", `/api/invitations/${token}/accept`),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations", token] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audiobooks", data.audiobookId] });
+      toast({
+        title: "Invitacion aceptada",
+        description: "Ya tienes acceso a este contenido",
+      });
+      setLocation(data.chapterId ? `/chapter/${data.chapterId}` : `/audiobook/${data.audiobookId}`);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message?.includes("different email")
+          ? "Esta invitacion se envio a otro email"
+          : error.message?.includes("already accepted")
+            ? "Esta invitacion ya ha sido aceptada"
+            : error.message?.includes("no longer valid")
+              ? "Esta invitacion ya no es valida"
+              : "No se pudo aceptar la invitacion",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-lg space-y-4">
+        <Skeleton className="h-10 w-2/3 mx-auto" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <Mail className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
+        <h2 className="text-2xl font-bold mb-2">Invitacion no encontrada</h2>
+        <p className="text-muted-foreground mb-6">El enlace no es valido o la invitacion ya no esta disponible.</p>
+        <Link href="/explore">
+          <Button>Explorar audiolibros</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { audiobook, chapter } = invitation;
+  const contentUrl = chapter ? `/chapter/${chapter.id}` : `/audiobook/${audiobook.id}`;
+  const authParams = new URLSearchParams({ invitation: token!, email: invitation.email });
+  const isOtherAccount = !!user && user.email.toLowerCase() !== invitation.email;
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-lg">
+      <div className="text-center mb-8">
+        <Lock className="w-12 h-12 mx-auto text-primary mb-4" />
+        <h1 className="font-serif text-3xl font-bold" data-testid="text-invitation-title">
+          {invitation.inviterName} te ha invitado a escuchar {chapter ? "un capitulo" : "un audiolibro"}
+        </h1>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 space-y-6">
+          <div className="flex items-center gap-4">
+            <div className="w-24 h-24 rounded-lg overflow-hidden shrink-0">
+              {audiobook.coverArtUrl ? (
+                <img src={audiobook.coverArtUrl} alt={audiobook.title} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full bg-gradient-to-br from-primary/30 to-primary/60 flex items-center justify-center">
+                  <BookOpen className="w-8 h-8 text-primary-foreground/60" />
+                </div>
+              )}
+            </div>
+            <div className="min-w-0">
+              <h2 className="font-semibold text-lg line-clamp-2">{chapter ? chapter.title : audiobook.title}</h2>
+              <p className="text-sm text-muted-foreground truncate">
+                {chapter ? audiobook.title : audiobook.author}
+              </p>
+              {invitation.expiresAt && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Acceso hasta el {new Date(invitation.expiresAt).toLocaleDateString("es-ES")}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {invitation.status === "ACCEPTED" ? (
+            <div className="text-center space-y-4">
+              <p className="flex items-center justify-center gap-2 text-muted-foreground">
+                <Check className="w-4 h-4" />
+                Esta invitacion ya ha sido aceptada
+              </p>
+              <Link href={contentUrl}>
+                <Button variant="outline">Ir al contenido</Button>
+              </Link>
+            </div>
+          ) : invitation.status !== "PENDING" ? (
+            <p className="text-center text-muted-foreground" data-testid="text-invitation-invalid">
+              {invitation.status === "EXPIRED" ? "Esta invitacion ha caducado" : "Esta invitacion ha sido revocada"}
+            </p>
+          ) : isAuthenticated ? (
+            <div className="space-y-2">
+              <Button
+                size="lg"
+                className="w-full gap-2"
+                onClick={() => acceptMutation.mutate()}
+                disabled={acceptMutation.isPending || isOtherAccount}
+                data-testid="button-accept-invitation"
+              >
+                {acceptMutation.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+                Aceptar invitacion
+              </Button>
+              {isOtherAccount && (
+                <p className="text-xs text-center text-muted-foreground">
+                  La invitacion se envio a {invitation.email}; inicia sesion con esa cuenta para aceptarla
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-center text-muted-foreground">
+                Inicia sesion o crea una cuenta con {invitation.email} para aceptarla
+              </p>
+              <Link href={`/register?${authParams}`}>
+                <Button size="lg" className="w-full gap-2" data-testid="link-register-invitation">
+                  <UserPlus className="w-5 h-5" />
+                  Crear cuenta
+                </Button>
+              </Link>
+              <Link href={`/login?${authParams}`}>
+                <Button size="lg" variant="outline" className="w-full gap-2" data-testid="link-login-invitation">
+                  <LogIn className="w-5 h-5" />
+                  Ya tengo cuenta
+                </Button>
+              </Link>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
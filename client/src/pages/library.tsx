@@ -11,7 +11,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
-import type { Audiobook, SubscriptionPlan, UserSubscription, Invoice, RssFeedToken } from "@shared/schema";
+import { waitForJob } from "@/lib/jobs";
+import { JobProgress } from "@/components/job-progress";
+import type { Audiobook, SubscriptionPlan, UserSubscription, Invoice, RssFeedToken, BackgroundJobResponse } from "@shared/schema";
 import { BillingProfileForm } from "@/components/billing-profile-form";
 import { Input } from "@/components/ui/input";
 
@@ -80,6 +82,50 @@ function AudiobookCard({ audiobook, onRemoveFavorite }: { audiobook: Audiobook;
   );
 }
 
+// Download a purchased audiobook as one MP3 with chapter markers, building it first if needed
+function AudiobookDownloadButton({ audiobook }: { audiobook: Audiobook }) {
+  const { toast } = useToast();
+  const [job, setJob] = useState<BackgroundJobResponse | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const data = await apiRequest<{ ready: boolean; job?: BackgroundJobResponse }>("POST", `/api/library/audiobooks/${audiobook.id}/export`);
+      if (data.job) {
+        setJob(data.job);
+        await waitForJob(data.job.id, setJob);
+      }
+    },
+    onSettled: () => setJob(null),
+    onSuccess: () => {
+      window.location.href = `/api/library/audiobooks/${audiobook.id}/export/download`;
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudo preparar la descarga",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full gap-1"
+        onClick={() => exportMutation.mutate()}
+        disabled={exportMutation.isPending}
+        data-testid={`button-download-audiobook-${audiobook.id}`}
+      >
+        <Download className="w-4 h-4" />
+        {exportMutation.isPending ? "Preparando..." : "Descargar audiolibro"}
+      </Button>
+      <JobProgress job={job} />
+    </div>
+  );
+}
+
 function EmptyState({ icon: Icon, title, description, actionLabel, actionHref }: {
   icon: typeof LibraryIcon;
   title: string;
@@ -335,14 +381,17 @@ export default function Library() {
             ) : (
               <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
                 {purchases.map((audiobook) => (
-                  <AudiobookCard key={audiobook.id} audiobook={audiobook} />
+                  <div key={audiobook.id} className="space-y-2">
+                    <AudiobookCard audiobook={audiobook} />
+                    <AudiobookDownloadButton audiobook={audiobook} />
+                  </div>
                 ))}
               </div>
             )}
           </TabsContent>
 
           <TabsContent value="subscription">
-            {subscriptionData?.subscription?.status === "ACTIVE" ? (
+            {subscriptionData?.subscription?.status === "ACTIVE" || subscriptionData?.subscription?.status === "PAST_DUE" ? (
               <Card className="p-8">
                 <div className="flex flex-col md:flex-row items-center gap-6">
                   <div className="flex-shrink-0">
@@ -351,7 +400,9 @@ export default function Library() {
                     </div>
                   </div>
                   <div className="flex-1 text-center md:text-left">
-                    <Badge variant="secondary" className="mb-2">Activa</Badge>
+                    <Badge variant={subscriptionData.subscription.status === "PAST_DUE" ? "destructive" : "secondary"} className="mb-2">
+                      {subscriptionData.subscription.status === "PAST_DUE" ? "Pago pendiente" : "Activa"}
+                    </Badge>
                     <h2 className="font-serif text-2xl font-bold mb-1">
                       {subscriptionData.plan?.name || "Suscripción Premium"}
                     </h2>
@@ -6,22 +6,45 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { LogIn, Loader2, Headphones } from "lucide-react";
+import { LogIn, Loader2, Headphones, ShieldCheck } from "lucide-react";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
 import logoImage from "@assets/AUDIVIA_1766261612511.png";
 
+// Message for too many attempts from this connection (429); a locked account
+// gets the usual failed-login answer and is told about the lock by email
+function getBlockedLoginMessage(error: any): string | null {
+  if (error.status === 429) {
+    const seconds = Number(error.retryAfterSeconds) || 60;
+    const wait = seconds < 60 ? `${seconds} segundos` : `${Math.ceil(seconds / 60)} minutos`;
+    return `Demasiados intentos. Espera ${wait} antes de volver a intentarlo`;
+  }
+  return null;
+}
+
 export default function Login() {
   const [, setLocation] = useLocation();
-  const { login, isAuthenticated } = useAuth();
+  const { login, verifyTwoFactor, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
-  const [email, setEmail] = useState("");
+  const [email, setEmail] = useState(() => new URLSearchParams(window.location.search).get("email") || "");
   const [password, setPassword] = useState("");
+  // Second step for accounts with two-factor authentication
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState("");
 
   const [redirectPath] = useState(() => {
     const params = new URLSearchParams(window.location.search);
+    // Gift, invitation and household invitation recipients come back to the link they followed once signed in
+    const giftToken = params.get("gift");
+    if (giftToken) return `/gift/${encodeURIComponent(giftToken)}`;
+    const invitationToken = params.get("invitation");
+    if (invitationToken) return `/invitation/${encodeURIComponent(invitationToken)}`;
+    const householdToken = params.get("household");
+    if (householdToken) return `/household/invitation/${encodeURIComponent(householdToken)}`;
     return params.get("from") === "mobile" ? "/mobile" : "/";
   });
   const isMobileOrigin = redirectPath === "/mobile";
+  const isGiftOrigin = redirectPath.startsWith("/gift/") || redirectPath.startsWith("/invitation/") || redirectPath.startsWith("/household/");
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -35,7 +58,11 @@ export default function Login() {
     setIsLoading(true);
 
     try {
-      await login(email, password);
+      const { twoFactorRequired } = await login(email, password);
+      if (twoFactorRequired) {
+        setNeedsCode(true);
+        return;
+      }
       toast({
         title: "¡Bienvenido de vuelta!",
         description: "Has iniciado sesión exitosamente",
@@ -45,7 +72,41 @@ export default function Login() {
       toast({
         variant: "destructive",
         title: "Error al iniciar sesión",
-        description: error.message || "Email o contraseña incorrectos",
+        description: getBlockedLoginMessage(error) || error.message || "Email o contraseña incorrectos",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCodeSubmit = async (submittedCode: string = code) => {
+    if (!submittedCode.trim()) return;
+    setIsLoading(true);
+
+    try {
+      await verifyTwoFactor(submittedCode.trim());
+      toast({
+        title: "¡Bienvenido de vuelta!",
+        description: "Has iniciado sesión exitosamente",
+      });
+      setLocation(redirectPath);
+    } catch (error: any) {
+      setCode("");
+      const blockedMessage = getBlockedLoginMessage(error);
+      // The pending login is dropped after too many attempts, when it expires or when the account gets locked
+      if (error.message?.includes("sign in again")) {
+        setNeedsCode(false);
+      }
+      if (blockedMessage) {
+        toast({ variant: "destructive", title: "Error al iniciar sesión", description: blockedMessage });
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Codigo incorrecto",
+        description: error.message?.includes("sign in again")
+          ? "Vuelve a introducir tu email y contraseña"
+          : "Comprueba el codigo e intentalo de nuevo",
       });
     } finally {
       setIsLoading(false);
@@ -76,6 +137,44 @@ export default function Login() {
             <CardHeader className="pb-2 pt-4">
               <CardTitle className="text-xl text-center">Iniciar Sesión</CardTitle>
             </CardHeader>
+          {needsCode ? (
+          <form onSubmit={(e) => { e.preventDefault(); handleCodeSubmit(); }}>
+            <CardContent className="space-y-4 pb-3">
+              <div className="flex flex-col items-center gap-2 text-center">
+                <ShieldCheck className="w-8 h-8 text-primary" />
+                <p className="text-sm text-muted-foreground">
+                  Introduce el codigo de 6 digitos de tu app de autenticacion
+                </p>
+              </div>
+              <TwoFactorCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={(value) => handleCodeSubmit(value)}
+                disabled={isLoading}
+              />
+            </CardContent>
+            <CardFooter className="flex flex-col gap-3 pt-0">
+              <Button type="submit" className="w-full" disabled={isLoading || !code.trim()} data-testid="button-submit-two-factor">
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verificando...
+                  </>
+                ) : (
+                  "Verificar"
+                )}
+              </Button>
+              <button
+                type="button"
+                className="text-sm text-muted-foreground hover:underline"
+                onClick={() => { setNeedsCode(false); setCode(""); setPassword(""); }}
+                data-testid="button-back-to-password"
+              >
+                Volver
+              </button>
+            </CardFooter>
+          </form>
+          ) : (
           <form onSubmit={handleSubmit}>
             <CardContent className="space-y-3 pb-3">
               <div className="space-y-1">
@@ -130,12 +229,13 @@ export default function Login() {
               </Button>
               <p className="text-sm text-muted-foreground text-center">
                 ¿No tienes cuenta?{" "}
-                <Link href={isMobileOrigin ? "/register?from=mobile" : "/register"} className="text-primary hover:underline font-medium" data-testid="link-register">
+                <Link href={isMobileOrigin ? "/register?from=mobile" : isGiftOrigin ? `/register${window.location.search}` : "/register"} className="text-primary hover:underline font-medium" data-testid="link-register">
                   Regístrate aquí
                 </Link>
               </p>
             </CardFooter>
           </form>
+          )}
         </Card>
         </div>
       </div>
@@ -29,13 +29,22 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { ContentInvitation, Podcast, Episode } from "@shared/schema";
+import type { ContentInvitation, Audiobook, Chapter } from "@shared/schema";
 import { useState } from "react";
 
 const inviteFormSchema = z.object({
   email: z.string().email("Email inválido"),
+  // yyyy-mm-dd from the date input; empty for no expiry
+  expiresOn: z.string().optional(),
 });
 
+const STATUS_LABELS: Record<ContentInvitation["status"], string> = {
+  PENDING: "Pendiente",
+  ACCEPTED: "Aceptada",
+  REVOKED: "Revocada",
+  EXPIRED: "Caducada",
+};
+
 type InviteFormValues = z.infer<typeof inviteFormSchema>;
 
 export default function ManageInvitations() {
@@ -46,9 +55,9 @@ export default function ManageInvitations() {
   const { toast } = useToast();
   const [invitationToDelete, setInvitationToDelete] = useState<string | null>(null);
 
-  // Fetch content details (podcast or episode)
-  const { data: content, isLoading: isLoadingContent } = useQuery<Podcast | Episode>({
-    queryKey: contentType === "podcast" ? ["/api/podcasts", contentId] : ["/api/episodes", contentId],
+  // Fetch content details (audiobook or chapter)
+  const { data: content, isLoading: isLoadingContent } = useQuery<Audiobook | Chapter>({
+    queryKey: contentType === "podcast" ? ["/api/audiobooks", contentId] : ["/api/chapters", contentId],
     enabled: !!contentId && !!contentType,
   });
 
@@ -64,14 +73,17 @@ export default function ManageInvitations() {
     resolver: zodResolver(inviteFormSchema),
     defaultValues: {
       email: "",
+      expiresOn: "",
     },
   });
 
   const createInvitationMutation = useMutation({
     mutationFn: async (data: InviteFormValues) => {
+      // Access lasts until the end of the chosen day
+      const expiresAt = data.expiresOn ? new Date(`${data.expiresOn}T23:59:59`).toISOString() : undefined;
       const body = contentType === "podcast" 
-        ? { email: data.email, podcastId: contentId }
-        : { email: data.email, episodeId: contentId };
+        ? { email: data.email, expiresAt, podcastId: contentId }
+        : { email: data.email, expiresAt, episodeId: contentId };
       
       return await apiRequest("POST", "/api/invitations", body);
     },
@@ -101,8 +113,8 @@ export default function ManageInvitations() {
     },
     onSuccess: () => {
       toast({
-        title: "Invitación eliminada",
-        description: "La invitación ha sido eliminada",
+        title: "Invitación revocada",
+        description: "La invitación ha sido revocada",
       });
       const queryKey = contentType === "podcast"
         ? ["/api/podcasts", contentId, "invitations"]
@@ -113,7 +125,7 @@ export default function ManageInvitations() {
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "No se pudo eliminar la invitación",
+        description: error.message || "No se pudo revocar la invitación",
         variant: "destructive",
       });
     },
@@ -136,15 +148,15 @@ export default function ManageInvitations() {
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
           <h2 className="text-2xl font-bold mb-2">Contenido no encontrado</h2>
-          <Button onClick={() => setLocation("/my-podcasts")} data-testid="button-back">
-            Volver a Mis Podcasts
+          <Button onClick={() => setLocation("/admin/audiobooks")} data-testid="button-back">
+            Volver a Audiolibros
           </Button>
         </div>
       </div>
     );
   }
 
-  const backUrl = contentType === "podcast" ? `/podcast/${contentId}` : `/episode/${contentId}`;
+  const backUrl = contentType === "podcast" ? `/audiobook/${contentId}` : `/chapter/${contentId}`;
   const contentTitle = content.title;
   const visibility = content.visibility || "PUBLIC";
 
@@ -165,7 +177,7 @@ export default function ManageInvitations() {
             Gestionar Invitaciones
           </h1>
           <p className="text-muted-foreground">
-            {contentType === "podcast" ? "Podcast" : "Episodio"}: {contentTitle}
+            {contentType === "podcast" ? "Audiolibro" : "Capítulo"}: {contentTitle}
           </p>
           <div className="mt-4 flex items-center gap-2">
             <Badge variant="secondary" data-testid="badge-visibility">
@@ -214,7 +226,28 @@ export default function ManageInvitations() {
                           />
                         </FormControl>
                         <FormDescription>
-                          El usuario recibirá acceso a este contenido una vez registrado con este email
+                          Recibirá un enlace por email y tendrá acceso al aceptarlo con una cuenta registrada con este email
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="expiresOn"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Acceso hasta (opcional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="date"
+                            min={new Date().toISOString().split("T")[0]}
+                            data-testid="input-invite-expires"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Sin fecha, el acceso dura hasta que revoques la invitación
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -239,10 +272,10 @@ export default function ManageInvitations() {
           {/* Invitations List */}
           <Card>
             <CardHeader>
-              <CardTitle>Invitaciones Activas</CardTitle>
+              <CardTitle>Invitaciones</CardTitle>
               <CardDescription>
                 {invitations.length === 0 
-                  ? "No hay invitaciones activas" 
+                  ? "No hay invitaciones" 
                   : `${invitations.length} ${invitations.length === 1 ? "invitación" : "invitaciones"}`
                 }
               </CardDescription>
@@ -274,18 +307,29 @@ export default function ManageInvitations() {
                           </p>
                           <p className="text-xs text-muted-foreground">
                             Invitado el {new Date(invitation.createdAt).toLocaleDateString("es-ES")}
+                            {invitation.expiresAt && ` · hasta el ${new Date(invitation.expiresAt).toLocaleDateString("es-ES")}`}
                           </p>
                         </div>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => setInvitationToDelete(invitation.id)}
-                        data-testid={`button-delete-invitation-${invitation.id}`}
-                        disabled={deleteInvitationMutation.isPending}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant={invitation.status === "ACCEPTED" ? "default" : invitation.status === "PENDING" ? "secondary" : "outline"}
+                          data-testid={`badge-invitation-status-${invitation.id}`}
+                        >
+                          {STATUS_LABELS[invitation.status]}
+                        </Badge>
+                        {(invitation.status === "PENDING" || invitation.status === "ACCEPTED") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setInvitationToDelete(invitation.id)}
+                            data-testid={`button-delete-invitation-${invitation.id}`}
+                            disabled={deleteInvitationMutation.isPending}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -302,7 +346,7 @@ export default function ManageInvitations() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>¿Eliminar invitación?</AlertDialogTitle>
+            <AlertDialogTitle>¿Revocar invitación?</AlertDialogTitle>
             <AlertDialogDescription>
               Esta acción no se puede deshacer. El usuario perderá acceso a este contenido.
             </AlertDialogDescription>
@@ -322,7 +366,7 @@ export default function ManageInvitations() {
               {deleteInvitationMutation.isPending && (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               )}
-              Eliminar
+              Revocar
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -12,7 +12,15 @@ import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth-provider";
+import { useProgressSync } from "@/hooks/use-progress-sync";
+import { useSignedAudioUrl } from "@/hooks/use-signed-audio-url";
+import { useOfflineDownloads, useOfflineLicenseSync, useOnlineStatus } from "@/hooks/use-offline-downloads";
+import { clearOfflineData, getOfflineChapterUrl, isOfflineSupported, type OfflineDownloadSummary } from "@/lib/offline-downloads";
+import { useCatalogSearch, useDebouncedValue } from "@/hooks/use-catalog-search";
+import { ContinueSeriesDialog } from "@/components/continue-series-dialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   Headphones, 
@@ -47,15 +55,17 @@ import {
   Mail,
   CreditCard,
   Tag,
-  Loader2
+  Loader2,
+  HardDrive,
+  WifiOff
 } from "lucide-react";
-import type { Audiobook, CartItem, UserSubscription, SubscriptionPlan, Chapter, BillingProfile } from "@shared/schema";
+import type { Audiobook, CartItem, UserSubscription, SubscriptionPlan, Chapter, BillingProfile, ContinueListeningItem } from "@shared/schema";
 const logoImage = "/logo.png";
 
 type TabType = "home" | "explore" | "library" | "cart";
 
 interface CartWithItems {
-  items: (CartItem & { audiobook: Audiobook })[];
+  items: (CartItem & { audiobook: Audiobook; priceCents: number; bundleApplied: boolean })[];
   total: number;
 }
 
@@ -72,6 +82,17 @@ function formatDuration(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+function formatBytes(bytes: number): string {
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString("es-ES", { maximumFractionDigits: 1 })} ${units[unit]}`;
+}
+
 function AudiobookCard({ audiobook, onView, onAddToCart, inCart, purchased }: { 
   audiobook: Audiobook; 
   onView: () => void;
@@ -141,7 +162,8 @@ function AudioPlayer({
   onNext,
   onPrev,
   hasNext,
-  hasPrev
+  hasPrev,
+  onOpenAudiobook
 }: { 
   chapter: Chapter;
   audiobook: Audiobook;
@@ -150,11 +172,50 @@ function AudioPlayer({
   onPrev?: () => void;
   hasNext?: boolean;
   hasPrev?: boolean;
+  onOpenAudiobook?: (audiobook: Audiobook) => void;
 }) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [showContinueSeries, setShowContinueSeries] = useState(false);
+  // Downloaded chapters play from the device; null url means stream as usual
+  const [offlineSource, setOfflineSource] = useState<{ chapterId: string; url: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!isOfflineSupported()) {
+      setOfflineSource({ chapterId: chapter.id, url: null });
+      return;
+    }
+
+    let url: string | null = null;
+    let cancelled = false;
+    getOfflineChapterUrl(chapter.id)
+      .catch((error) => {
+        console.error("Error loading downloaded chapter:", error);
+        return null;
+      })
+      .then((result) => {
+        url = result;
+        if (cancelled) {
+          if (url) URL.revokeObjectURL(url);
+          return;
+        }
+        setOfflineSource({ chapterId: chapter.id, url });
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [chapter.id]);
+
+  const sourceReady = offlineSource?.chapterId === chapter.id;
+  const isOfflineCopy = sourceReady && !!offlineSource.url;
+  const streamUrl = useSignedAudioUrl(chapter.id, chapter.audioUrl, audioRef);
+  const audioSrc = sourceReady ? offlineSource.url || streamUrl : undefined;
+
+  useProgressSync(chapter.id, audioRef, duration, { offline: isOfflineCopy });
 
   useEffect(() => {
     const audio = audioRef.current;
@@ -164,7 +225,11 @@ function AudioPlayer({
     const handleLoadedMetadata = () => setDuration(audio.duration);
     const handleEnded = () => {
       setIsPlaying(false);
-      if (hasNext && onNext) onNext();
+      if (hasNext && onNext) {
+        onNext();
+      } else if (audiobook.seriesId) {
+        setShowContinueSeries(true);
+      }
     };
 
     audio.addEventListener('timeupdate', handleTimeUpdate);
@@ -176,7 +241,7 @@ function AudioPlayer({
       audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
       audio.removeEventListener('ended', handleEnded);
     };
-  }, [hasNext, onNext]);
+  }, [hasNext, onNext, audiobook.seriesId]);
 
   const togglePlay = () => {
     const audio = audioRef.current;
@@ -205,7 +270,7 @@ function AudioPlayer({
 
   return (
     <div className="fixed inset-0 bg-background z-50 flex flex-col">
-      <audio ref={audioRef} src={chapter.audioUrl || undefined} preload="metadata" />
+      <audio ref={audioRef} src={audioSrc} preload="metadata" />
       
       <header className="flex items-center justify-between px-4 py-3 border-b shrink-0">
         <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-player">
@@ -230,6 +295,12 @@ function AudioPlayer({
           <h2 className="font-serif text-xl font-bold line-clamp-2">{chapter.title}</h2>
           <p className="text-muted-foreground">{audiobook.title}</p>
           <p className="text-sm text-muted-foreground">{audiobook.author}</p>
+          {isOfflineCopy && (
+            <Badge variant="secondary" className="mt-2" data-testid="badge-offline-copy">
+              <HardDrive className="w-3 h-3 mr-1" />
+              Descargado
+            </Badge>
+          )}
         </div>
       </div>
 
@@ -299,6 +370,13 @@ function AudioPlayer({
           </Button>
         </div>
       </div>
+
+      <ContinueSeriesDialog
+        audiobookId={audiobook.id}
+        open={showContinueSeries}
+        onOpenChange={setShowContinueSeries}
+        onOpenAudiobook={onOpenAudiobook}
+      />
     </div>
   );
 }
@@ -310,7 +388,8 @@ function HomeTab({
   cartItems,
   purchasedIds,
   onAddToCart,
-  onShowSubscriptions
+  onShowSubscriptions,
+  onResumeListening
 }: { 
   audiobooks: Audiobook[];
   isLoading: boolean;
@@ -319,11 +398,18 @@ function HomeTab({
   purchasedIds: string[];
   onAddToCart: (id: string) => void;
   onShowSubscriptions: () => void;
+  onResumeListening: (item: ContinueListeningItem) => void;
 }) {
   const { data: user } = useQuery<{ id: string } | null>({
     queryKey: ["/api/auth/me"],
   });
 
+  const { data: continueListening = [] } = useQuery<ContinueListeningItem[]>({
+    queryKey: ["/api/progress/continue-listening"],
+    enabled: !!user,
+    staleTime: 0,
+  });
+
   const { data: subscription } = useQuery<UserSubscription & { plan: SubscriptionPlan }>({
     queryKey: ["/api/subscriptions/active"],
     enabled: !!user,
@@ -400,6 +486,48 @@ function HomeTab({
           </Card>
         )}
 
+        {continueListening.length > 0 && (
+          <section>
+            <h2 className="font-semibold text-lg mb-3 flex items-center gap-2">
+              <Play className="w-5 h-5 text-primary" />
+              Continuar escuchando
+            </h2>
+            <div className="flex gap-3 overflow-x-auto scrollbar-hide pb-2 -mx-4 px-4">
+              {continueListening.map(item => (
+                <Card
+                  key={item.audiobookId}
+                  className="w-64 shrink-0 cursor-pointer hover-elevate"
+                  onClick={() => onResumeListening(item)}
+                  data-testid={`card-continue-${item.audiobookId}`}
+                >
+                  <CardContent className="p-3 flex items-center gap-3">
+                    <div className="w-14 h-14 shrink-0 rounded-md overflow-hidden">
+                      {item.audiobook.coverArtUrl ? (
+                        <img src={item.audiobook.coverArtUrl} alt={item.audiobook.title} className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="w-full h-full bg-gradient-to-br from-primary/40 to-primary/80 flex items-center justify-center">
+                          <BookOpen className="w-6 h-6 text-primary-foreground/60" />
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="font-medium text-sm line-clamp-1">{item.audiobook.title}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-1">{item.chapter.title}</p>
+                      <Progress
+                        value={item.chapter.duration > 0 ? Math.min(100, (item.positionSeconds / item.chapter.duration) * 100) : 0}
+                        className="h-1"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {formatDuration(item.positionSeconds)} / {formatDuration(item.chapter.duration)}
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
         {freeBooks.length > 0 && (
           <section>
             <h2 className="font-semibold text-lg mb-3 flex items-center gap-2">
@@ -460,72 +588,110 @@ function HomeTab({
 }
 
 function ExploreTab({ 
-  audiobooks, 
-  isLoading,
   cartItems, 
   purchasedIds,
   onAddToCart, 
   onViewAudiobook 
 }: { 
-  audiobooks: Audiobook[];
-  isLoading: boolean;
   cartItems: string[];
   purchasedIds: string[];
   onAddToCart: (id: string) => void;
   onViewAudiobook: (audiobook: Audiobook) => void;
 }) {
   const [searchQuery, setSearchQuery] = useState("");
-
-  const filteredAudiobooks = audiobooks.filter(book => 
-    book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    book.author.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    book.category?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
-  if (isLoading) {
-    return (
-      <div className="flex-1 p-4 grid grid-cols-2 gap-3">
-        {[1, 2, 3, 4].map(i => (
-          <Skeleton key={i} className="aspect-square rounded-lg" />
-        ))}
-      </div>
-    );
-  }
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const debouncedQuery = useDebouncedValue(searchQuery.trim());
+
+  const {
+    audiobooks,
+    facets,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useCatalogSearch({
+    q: debouncedQuery,
+    category: selectedCategory || undefined,
+    limit: 20,
+  });
 
   return (
     <div className="flex-1 flex flex-col overflow-hidden">
-      <div className="p-4 pb-2 shrink-0">
+      <div className="p-4 pb-2 shrink-0 space-y-3">
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
-            placeholder="Buscar por título, autor o categoría..."
+            placeholder="Buscar por título, autor, narrador o serie..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-9"
             data-testid="input-search"
           />
         </div>
+        {(facets?.categories.length ?? 0) > 1 && (
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            <Badge
+              variant={selectedCategory === null ? "default" : "outline"}
+              className="shrink-0 cursor-pointer"
+              onClick={() => setSelectedCategory(null)}
+              data-testid="badge-category-all"
+            >
+              Todos
+            </Badge>
+            {facets?.categories.map(facet => (
+              <Badge
+                key={facet.value}
+                variant={selectedCategory === facet.value ? "default" : "outline"}
+                className="shrink-0 cursor-pointer"
+                onClick={() => setSelectedCategory(selectedCategory === facet.value ? null : facet.value)}
+                data-testid={`badge-category-${facet.value}`}
+              >
+                {facet.value} ({facet.count})
+              </Badge>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="flex-1 overflow-auto p-4 pt-2">
-        {filteredAudiobooks.length === 0 ? (
+        {isLoading ? (
+          <div className="grid grid-cols-2 gap-3">
+            {[1, 2, 3, 4].map(i => (
+              <Skeleton key={i} className="aspect-square rounded-lg" />
+            ))}
+          </div>
+        ) : audiobooks.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full gap-2">
             <Search className="w-12 h-12 text-muted-foreground/30" />
             <p className="text-muted-foreground">No se encontraron audiolibros</p>
           </div>
         ) : (
-          <div className="grid grid-cols-2 gap-3">
-            {filteredAudiobooks.map(book => (
-              <AudiobookCard
-                key={book.id}
-                audiobook={book}
-                onView={() => onViewAudiobook(book)}
-                onAddToCart={() => onAddToCart(book.id)}
-                inCart={cartItems.includes(book.id)}
-                purchased={purchasedIds.includes(book.id)}
-              />
-            ))}
-          </div>
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              {audiobooks.map(book => (
+                <AudiobookCard
+                  key={book.id}
+                  audiobook={book}
+                  onView={() => onViewAudiobook(book)}
+                  onAddToCart={() => onAddToCart(book.id)}
+                  inCart={cartItems.includes(book.id)}
+                  purchased={purchasedIds.includes(book.id)}
+                />
+              ))}
+            </div>
+            {hasNextPage && (
+              <Button
+                variant="outline"
+                className="w-full mt-4"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-load-more"
+              >
+                {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Cargar más
+              </Button>
+            )}
+          </>
         )}
       </div>
     </div>
@@ -536,7 +702,9 @@ function LibraryTab({ onViewAudiobook }: {
   onViewAudiobook: (audiobook: Audiobook) => void;
 }) {
   const { toast } = useToast();
-  const [activeSection, setActiveSection] = useState<"purchases" | "favorites">("purchases");
+  const isOnline = useOnlineStatus();
+  const [activeSection, setActiveSection] = useState<"purchases" | "favorites" | "downloads">(isOnline ? "purchases" : "downloads");
+  const { isSupported: offlineSupported, downloads, usage, activeDownloads, remove: removeDownload } = useOfflineDownloads();
 
   const { data: user } = useQuery<{ id: string } | null>({
     queryKey: ["/api/auth/me"],
@@ -560,7 +728,8 @@ function LibraryTab({ onViewAudiobook }: {
     },
   });
 
-  if (!user) {
+  // Offline the session can't be checked, but the downloads on the device still play
+  if (!user && downloads.length === 0) {
     return (
       <div className="flex-1 flex flex-col items-center justify-center gap-4 p-4">
         <Library className="w-16 h-16 text-muted-foreground/30" />
@@ -572,38 +741,134 @@ function LibraryTab({ onViewAudiobook }: {
     );
   }
 
+  const section = user ? activeSection : "downloads";
   const isLoading = loadingPurchases || loadingFavorites;
-  const items = activeSection === "purchases" ? purchases : favorites;
+  const items = section === "purchases" ? purchases : favorites;
+
+  const handleRemoveDownload = async (download: OfflineDownloadSummary) => {
+    if (!confirm(`¿Eliminar la descarga de ${download.audiobook.title}?`)) return;
+    try {
+      await removeDownload(download.audiobookId);
+      toast({ title: "Descarga eliminada" });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo eliminar la descarga" });
+    }
+  };
 
   return (
     <div className="flex-1 flex flex-col overflow-hidden">
-      <div className="p-4 pb-2 shrink-0">
-        <div className="flex gap-2">
-          <Button
-            variant={activeSection === "purchases" ? "default" : "outline"}
-            size="sm"
-            onClick={() => setActiveSection("purchases")}
-            className="flex-1"
-            data-testid="button-purchases"
-          >
-            <BookOpen className="w-4 h-4 mr-1" />
-            Mis audiolibros
-          </Button>
-          <Button
-            variant={activeSection === "favorites" ? "default" : "outline"}
-            size="sm"
-            onClick={() => setActiveSection("favorites")}
-            className="flex-1"
-            data-testid="button-favorites"
-          >
-            <Heart className="w-4 h-4 mr-1" />
-            Favoritos
-          </Button>
+      {!isOnline && (
+        <div className="px-4 py-2 bg-muted text-sm text-muted-foreground flex items-center gap-2 shrink-0" data-testid="banner-offline">
+          <WifiOff className="w-4 h-4" />
+          Sin conexion: puedes escuchar tus descargas
         </div>
-      </div>
+      )}
+      {user && (
+        <div className="p-4 pb-2 shrink-0">
+          <div className="flex gap-2">
+            <Button
+              variant={activeSection === "purchases" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setActiveSection("purchases")}
+              className="flex-1"
+              data-testid="button-purchases"
+            >
+              <BookOpen className="w-4 h-4 mr-1" />
+              Mis audiolibros
+            </Button>
+            <Button
+              variant={activeSection === "favorites" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setActiveSection("favorites")}
+              className="flex-1"
+              data-testid="button-favorites"
+            >
+              <Heart className="w-4 h-4 mr-1" />
+              Favoritos
+            </Button>
+            {offlineSupported && (
+              <Button
+                variant={activeSection === "downloads" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setActiveSection("downloads")}
+                className="flex-1"
+                data-testid="button-downloads"
+              >
+                <HardDrive className="w-4 h-4 mr-1" />
+                Descargas
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
 
       <div className="flex-1 overflow-auto p-4 pt-2">
-        {isLoading ? (
+        {section === "downloads" ? (
+          <div className="space-y-3">
+            {usage && (
+              <p className="text-xs text-muted-foreground" data-testid="text-offline-usage">
+                {formatBytes(usage.usedBytes)} usados en este dispositivo
+                {usage.quotaBytes !== null && ` · ${formatBytes(usage.quotaBytes)} disponibles`}
+              </p>
+            )}
+            {downloads.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 gap-2 text-center">
+                <HardDrive className="w-12 h-12 text-muted-foreground/30" />
+                <p className="text-muted-foreground">No tienes descargas</p>
+                <p className="text-sm text-muted-foreground">Descarga un audiolibro desde su ficha para escucharlo sin conexion</p>
+              </div>
+            ) : (
+              downloads.map((download) => {
+                const progress = activeDownloads.get(download.audiobookId);
+                return (
+                  <Card
+                    key={download.audiobookId}
+                    className="overflow-hidden cursor-pointer hover-elevate"
+                    onClick={() => onViewAudiobook(download.audiobook)}
+                    data-testid={`card-download-${download.audiobookId}`}
+                  >
+                    <div className="flex gap-3 p-3">
+                      <div className="w-16 h-16 rounded overflow-hidden shrink-0">
+                        {download.audiobook.coverArtUrl && isOnline ? (
+                          <img src={download.audiobook.coverArtUrl} alt={download.audiobook.title} className="w-full h-full object-cover" />
+                        ) : (
+                          <div className="w-full h-full bg-gradient-to-br from-primary/40 to-primary/80 flex items-center justify-center">
+                            <BookOpen className="w-6 h-6 text-primary-foreground/60" />
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium text-sm line-clamp-2">{download.audiobook.title}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {download.downloadedChapterIds.length} capítulos · {formatBytes(download.sizeBytes)}
+                        </p>
+                        {progress && (
+                          <Progress
+                            value={progress.bytesTotal > 0 ? (progress.bytesDone / progress.bytesTotal) * 100 : 0}
+                            className="h-1 mt-2"
+                          />
+                        )}
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive shrink-0"
+                        disabled={!!progress}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemoveDownload(download);
+                        }}
+                        data-testid={`button-remove-download-${download.audiobookId}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+        ) : isLoading ? (
           <div className="grid grid-cols-2 gap-3">
             {[1, 2, 3, 4].map(i => (
               <Skeleton key={i} className="aspect-square rounded-lg" />
@@ -611,7 +876,7 @@ function LibraryTab({ onViewAudiobook }: {
           </div>
         ) : !items || items.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full gap-2">
-            {activeSection === "purchases" ? (
+            {section === "purchases" ? (
               <>
                 <BookOpen className="w-12 h-12 text-muted-foreground/30" />
                 <p className="text-muted-foreground">No tienes audiolibros comprados</p>
@@ -657,7 +922,7 @@ function LibraryTab({ onViewAudiobook }: {
                         <Play className="w-3 h-3 mr-1" />
                         Escuchar
                       </Button>
-                      {activeSection === "favorites" && (
+                      {section === "favorites" && (
                         <Button 
                           size="icon" 
                           variant="ghost"
@@ -1318,8 +1583,11 @@ function CartTab({ onGoToExplore, onCheckout }: { onGoToExplore: () => void; onC
                   <h3 className="font-medium text-sm line-clamp-1">{item.audiobook.title}</h3>
                   <p className="text-xs text-muted-foreground">{item.audiobook.author}</p>
                   <p className="text-sm font-bold text-primary mt-1">
-                    {formatPrice(item.audiobook.priceCents, item.audiobook.currency)}
+                    {formatPrice(item.priceCents, item.audiobook.currency)}
                   </p>
+                  {item.bundleApplied && (
+                    <p className="text-xs text-muted-foreground line-clamp-1">Pack de la serie {item.audiobook.seriesName}</p>
+                  )}
                 </div>
                 <Button
                   size="icon"
@@ -1360,6 +1628,11 @@ function CartTab({ onGoToExplore, onCheckout }: { onGoToExplore: () => void; onC
   );
 }
 
+// Downloads keep the chapter list as it was, so chapters that never finished are skipped
+function getDownloadedChapters(download: OfflineDownloadSummary): Chapter[] {
+  return download.chapters.filter(c => download.downloadedChapterIds.includes(c.id));
+}
+
 interface AudiobookWithAccess extends Audiobook {
   chapters: Chapter[];
   hasAccess: boolean;
@@ -1368,6 +1641,95 @@ interface AudiobookWithAccess extends Audiobook {
   isFree: boolean;
 }
 
+function OfflineDownloadCard({ audiobook, chapters }: { audiobook: Audiobook; chapters: Chapter[] }) {
+  const { toast } = useToast();
+  const isOnline = useOnlineStatus();
+  const { isAuthenticated } = useAuth();
+  const { isSupported, downloads, usage, activeDownloads, download, remove, isRemoving } = useOfflineDownloads();
+
+  // Downloads are licensed per account
+  if (!isSupported || !isAuthenticated) return null;
+
+  const offlineCopy = downloads.find(d => d.audiobookId === audiobook.id);
+  const progress = activeDownloads.get(audiobook.id);
+  const downloadable = chapters.filter(c => c.audioUrl);
+  const missing = downloadable.filter(c => !offlineCopy?.downloadedChapterIds.includes(c.id));
+
+  const handleDownload = async () => {
+    try {
+      await download({ audiobook, chapters: downloadable });
+      toast({ title: "Descarga completada", description: "Ya puedes escucharlo sin conexion" });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.name === "QuotaExceededError"
+          ? "No queda espacio en el dispositivo"
+          : error.message || "No se pudo completar la descarga",
+      });
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await remove(audiobook.id);
+      toast({ title: "Descarga eliminada" });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo eliminar la descarga" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <HardDrive className="w-5 h-5 text-primary shrink-0" />
+            <div className="min-w-0">
+              <p className="font-medium text-sm">Escuchar sin conexion</p>
+              <p className="text-xs text-muted-foreground">
+                {offlineCopy
+                  ? `${offlineCopy.downloadedChapterIds.length} de ${downloadable.length} capítulos · ${formatBytes(offlineCopy.sizeBytes)}`
+                  : "Guarda los capítulos en este dispositivo"}
+              </p>
+            </div>
+          </div>
+          {progress ? (
+            <Loader2 className="w-5 h-5 animate-spin text-primary shrink-0" />
+          ) : missing.length > 0 ? (
+            <Button size="sm" onClick={handleDownload} disabled={!isOnline} data-testid="button-download-offline">
+              <Download className="w-4 h-4 mr-1" />
+              {offlineCopy ? "Completar" : "Descargar"}
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={handleRemove} disabled={isRemoving} data-testid="button-remove-download">
+              <Trash2 className="w-4 h-4 mr-1" />
+              Eliminar
+            </Button>
+          )}
+        </div>
+
+        {progress && (
+          <div className="space-y-1">
+            <Progress value={progress.bytesTotal > 0 ? (progress.bytesDone / progress.bytesTotal) * 100 : 0} />
+            <p className="text-xs text-muted-foreground">
+              Capítulo {Math.min(progress.chaptersDone + 1, progress.chaptersTotal)} de {progress.chaptersTotal} · {formatBytes(progress.bytesDone)}
+              {progress.bytesTotal > 0 && ` de ${formatBytes(progress.bytesTotal)}`}
+            </p>
+          </div>
+        )}
+
+        {usage && (
+          <p className="text-xs text-muted-foreground">
+            Descargas en este dispositivo: {formatBytes(usage.usedBytes)}
+            {usage.quotaBytes !== null && ` · ${formatBytes(usage.quotaBytes)} disponibles`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function AudiobookDetailView({ 
   audiobook, 
   onBack, 
@@ -1385,13 +1747,18 @@ function AudiobookDetailView({
 }) {
   const { toast } = useToast();
   const [showAntennaPod, setShowAntennaPod] = useState(false);
+  const { downloads } = useOfflineDownloads();
   
-  const { data: audiobookData, isLoading } = useQuery<AudiobookWithAccess>({
+  const { data: audiobookData, isLoading: loadingAudiobook } = useQuery<AudiobookWithAccess>({
     queryKey: ["/api/audiobooks", audiobook.id],
   });
 
-  const chapters = audiobookData?.chapters || [];
-  const canPlay = audiobookData?.hasAccess || audiobookData?.isFree || purchased || audiobook.priceCents === 0;
+  // Without a connection only the downloaded chapters are listed
+  const offlineCopy = downloads.find(d => d.audiobookId === audiobook.id);
+  const offlineChapters = offlineCopy ? getDownloadedChapters(offlineCopy) : [];
+  const chapters = audiobookData?.chapters || offlineChapters;
+  const isLoading = loadingAudiobook && !offlineCopy;
+  const canPlay = audiobookData?.hasAccess || audiobookData?.isFree || purchased || audiobook.priceCents === 0 || (!audiobookData && !!offlineCopy);
   const rssUrl = `${window.location.origin}/api/podcasts/${audiobook.id}/rss`;
 
   const copyRssUrl = async () => {
@@ -1453,6 +1820,10 @@ function AudiobookDetailView({
             <p className="text-sm text-muted-foreground">{audiobook.description}</p>
           )}
 
+          {canPlay && audiobookData && chapters.length > 0 && (
+            <OfflineDownloadCard audiobook={audiobook} chapters={chapters} />
+          )}
+
           {!canPlay && (
             <Card className="bg-primary/5 border-primary/20">
               <CardContent className="p-4">
@@ -1516,6 +1887,9 @@ function AudiobookDetailView({
                           <p className="text-xs text-muted-foreground">{formatDuration(chapter.duration)}</p>
                         )}
                       </div>
+                      {offlineCopy?.downloadedChapterIds.includes(chapter.id) && (
+                        <HardDrive className="w-4 h-4 text-muted-foreground shrink-0" aria-label="Descargado" />
+                      )}
                       {!canPlay && (
                         <Badge variant="outline" className="shrink-0">
                           Comprar
@@ -1628,7 +2002,9 @@ function ProfileView({ onBack, onShowSubscriptions }: { onBack: () => void; onSh
 
   const logoutMutation = useMutation({
     mutationFn: () => apiRequest("POST", "/api/auth/logout"),
-    onSuccess: () => {
+    onSuccess: async () => {
+      // Downloads are licensed to this account and must not outlive the session
+      await clearOfflineData().catch((error) => console.error("Error clearing offline downloads:", error));
       queryClient.clear();
       queryClient.invalidateQueries();
       toast({ title: "Sesión cerrada" });
@@ -1907,13 +2283,26 @@ function SubscriptionsView({ onBack }: { onBack: () => void }) {
 }
 
 export default function MobilePage() {
-  const [activeTab, setActiveTab] = useState<TabType>("home");
+  // Opened without a connection, only the downloads in the library are of any use
+  const [activeTab, setActiveTab] = useState<TabType>(() => navigator.onLine ? "home" : "library");
   const [selectedAudiobook, setSelectedAudiobook] = useState<Audiobook | null>(null);
   const [playingChapter, setPlayingChapter] = useState<{ chapter: Chapter; audiobook: Audiobook } | null>(null);
   const [showSubscriptions, setShowSubscriptions] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
   const [checkoutCart, setCheckoutCart] = useState<MobileCartData | null>(null);
   const { toast } = useToast();
+  const { downloads } = useOfflineDownloads();
+
+  useOfflineLicenseSync();
+
+  // The worker keeps the app shell cached so the page opens offline
+  useEffect(() => {
+    if (import.meta.env.PROD && "serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/sw.js").catch((error) => {
+        console.error("Error registering service worker:", error);
+      });
+    }
+  }, []);
 
   const { data: user } = useQuery<{ id: string } | null>({
     queryKey: ["/api/auth/me"],
@@ -1938,7 +2327,8 @@ export default function MobilePage() {
     enabled: !!selectedAudiobook,
   });
 
-  const chapters = selectedAudiobookData?.chapters || [];
+  const offlineCopy = downloads.find(d => d.audiobookId === selectedAudiobook?.id);
+  const chapters = selectedAudiobookData?.chapters || (offlineCopy ? getDownloadedChapters(offlineCopy) : []);
 
   const cartItems = cart?.items.map(i => i.audiobook.id) || [];
   const cartCount = cart?.items.length || 0;
@@ -1973,6 +2363,12 @@ export default function MobilePage() {
     }
   };
 
+  const handleResumeListening = (item: ContinueListeningItem) => {
+    // Open the audiobook underneath so next/previous and closing the player work as usual
+    setSelectedAudiobook(item.audiobook);
+    setPlayingChapter({ chapter: item.chapter, audiobook: item.audiobook });
+  };
+
   const currentChapterIndex = chapters.findIndex(c => c.id === playingChapter?.chapter.id);
   const hasNextChapter = currentChapterIndex >= 0 && currentChapterIndex < chapters.length - 1;
   const hasPrevChapter = currentChapterIndex > 0;
@@ -2036,6 +2432,10 @@ export default function MobilePage() {
         onPrev={playPrevChapter}
         hasNext={hasNextChapter}
         hasPrev={hasPrevChapter}
+        onOpenAudiobook={(book) => {
+          setPlayingChapter(null);
+          setSelectedAudiobook(book);
+        }}
       />
     );
   }
@@ -2099,12 +2499,11 @@ export default function MobilePage() {
           purchasedIds={purchasedIds}
           onAddToCart={handleAddToCart}
           onShowSubscriptions={() => setShowSubscriptions(true)}
+          onResumeListening={handleResumeListening}
         />
       )}
       {activeTab === "explore" && (
         <ExploreTab 
-          audiobooks={audiobooks}
-          isLoading={loadingAudiobooks}
           cartItems={cartItems}
           purchasedIds={purchasedIds}
           onAddToCart={handleAddToCart}
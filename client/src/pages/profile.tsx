@@ -15,6 +15,10 @@ import { Separator } from "@/components/ui/separator";
 import type { User, Invoice } from "@shared/schema";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { HouseholdCard } from "@/components/household-card";
+import { TwoFactorCard } from "@/components/two-factor-card";
+import { ActiveSessionsCard } from "@/components/active-sessions-card";
+import { PrivacyDataCard } from "@/components/privacy-data-card";
 
 const profileSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters").max(50),
@@ -107,9 +111,10 @@ export default function Profile() {
     },
     onSuccess: () => {
       passwordForm.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/sessions"] });
       toast({
         title: "Contraseña actualizada",
-        description: "Tu contraseña ha sido cambiada correctamente",
+        description: "Tu contraseña ha sido cambiada y se ha cerrado la sesion en tus otros dispositivos",
       });
     },
     onError: (error: any) => {
@@ -320,6 +325,21 @@ export default function Profile() {
 
       <Separator className="my-8" />
 
+      {/* Two-factor Card */}
+      <TwoFactorCard />
+
+      <Separator className="my-8" />
+
+      {/* Active Sessions Card */}
+      <ActiveSessionsCard />
+
+      <Separator className="my-8" />
+
+      {/* Household Card */}
+      <HouseholdCard />
+
+      <Separator className="my-8" />
+
       {/* Invoices Card */}
       <Card>
         <CardHeader>
@@ -393,6 +413,11 @@ export default function Profile() {
           )}
         </CardContent>
       </Card>
+
+      <Separator className="my-8" />
+
+      {/* Privacy & Data Card */}
+      <PrivacyDataCard />
     </div>
   );
 }
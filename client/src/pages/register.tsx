@@ -15,14 +15,22 @@ export default function Register() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [username, setUsername] = useState("");
-  const [email, setEmail] = useState("");
+  const [email, setEmail] = useState(() => new URLSearchParams(window.location.search).get("email") || "");
   const [password, setPassword] = useState("");
 
   const [redirectPath] = useState(() => {
     const params = new URLSearchParams(window.location.search);
+    // Gift, invitation and household invitation recipients come back to the link they followed once signed in
+    const giftToken = params.get("gift");
+    if (giftToken) return `/gift/${encodeURIComponent(giftToken)}`;
+    const invitationToken = params.get("invitation");
+    if (invitationToken) return `/invitation/${encodeURIComponent(invitationToken)}`;
+    const householdToken = params.get("household");
+    if (householdToken) return `/household/invitation/${encodeURIComponent(householdToken)}`;
     return params.get("from") === "mobile" ? "/mobile" : "/";
   });
   const isMobileOrigin = redirectPath === "/mobile";
+  const isGiftOrigin = redirectPath.startsWith("/gift/") || redirectPath.startsWith("/invitation/") || redirectPath.startsWith("/household/");
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -134,7 +142,7 @@ export default function Register() {
               </Button>
               <p className="text-sm text-muted-foreground text-center">
                 ¿Ya tienes cuenta?{" "}
-                <Link href={isMobileOrigin ? "/login?from=mobile" : "/login"} className="text-primary hover:underline font-medium" data-testid="link-login">
+                <Link href={isMobileOrigin ? "/login?from=mobile" : isGiftOrigin ? `/login${window.location.search}` : "/login"} className="text-primary hover:underline font-medium" data-testid="link-login">
                   Inicia sesión aquí
                 </Link>
               </p>
@@ -0,0 +1,268 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BookOpen, Check, ChevronLeft, Clock, Library, Package, Play, ShoppingCart, User } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SeriesDetail as SeriesDetailData, SeriesVolume } from "@shared/schema";
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+function formatPrice(cents: number, currency: string = "EUR"): string {
+  return new Intl.NumberFormat("es-ES", {
+    style: "currency",
+    currency: currency,
+  }).format(cents / 100);
+}
+
+function VolumeItem({ volume }: { volume: SeriesVolume }) {
+  const isFree = volume.isFree || volume.priceCents === 0;
+
+  return (
+    <Link href={`/audiobook/${volume.id}`}>
+      <div
+        className="flex items-center gap-4 p-4 rounded-lg hover-elevate cursor-pointer border border-transparent hover:border-border transition-colors"
+        data-testid={`series-volume-${volume.id}`}
+      >
+        <div className="w-16 h-16 rounded-md overflow-hidden shrink-0">
+          {volume.coverArtUrl ? (
+            <img src={volume.coverArtUrl} alt={volume.title} className="w-full h-full object-cover" />
+          ) : (
+            <div className="w-full h-full bg-gradient-to-br from-primary/30 to-primary/60 flex items-center justify-center">
+              <BookOpen className="w-6 h-6 text-primary-foreground/60" />
+            </div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          {volume.seriesIndex && (
+            <p className="text-xs text-primary">Libro {volume.seriesIndex}</p>
+          )}
+          <h4 className="font-medium truncate">{volume.title}</h4>
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span className="truncate">{volume.author}</span>
+            <span className="flex items-center gap-1 shrink-0">
+              <Clock className="w-3 h-3" />
+              {formatDuration(volume.totalDuration)}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {volume.isPurchased ? (
+            <Badge variant="secondary" className="gap-1">
+              <Check className="w-3 h-3" />
+              Comprado
+            </Badge>
+          ) : isFree ? (
+            <Badge variant="outline">Gratis</Badge>
+          ) : volume.hasAccess ? (
+            <Badge variant="outline">Incluido</Badge>
+          ) : (
+            <>
+              {volume.inCart && (
+                <Badge variant="outline" className="gap-1">
+                  <ShoppingCart className="w-3 h-3" />
+                  En el carrito
+                </Badge>
+              )}
+              <span className="font-semibold text-primary">
+                {formatPrice(volume.priceCents, volume.currency)}
+              </span>
+            </>
+          )}
+          <Button size="icon" variant="ghost">
+            <Play className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+export default function SeriesDetail() {
+  const [, params] = useRoute("/series/:id");
+  const seriesId = params?.id;
+  const { toast } = useToast();
+
+  const { data: series, isLoading, error } = useQuery<SeriesDetailData>({
+    queryKey: ["/api/series", seriesId],
+    enabled: !!seriesId,
+  });
+
+  const bundleMutation = useMutation({
+    mutationFn: (inCart: boolean) =>
+      apiRequest(inCart ? "DELETE" : "POST", `/api/cart/series/${seriesId}`),
+    onSuccess: (_data, inCart) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/series", seriesId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      toast({
+        title: inCart ? "Eliminado del carrito" : "Agregado al carrito",
+        description: inCart
+          ? "El pack de la serie se ha eliminado del carrito"
+          : "Los libros de la serie se han agregado a tu carrito con el precio del pack",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: error.message?.includes("401") ? "No autenticado" : "Error",
+        description: error.message?.includes("401")
+          ? "Debes iniciar sesion para gestionar el carrito"
+          : "No se pudo actualizar el carrito",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 space-y-4">
+        <Skeleton className="h-10 w-1/2" />
+        <Skeleton className="h-6 w-1/3" />
+        <Skeleton className="h-32 w-full" />
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-20 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !series) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <Library className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
+        <h2 className="text-2xl font-bold mb-2">Serie no encontrada</h2>
+        <p className="text-muted-foreground mb-6">La serie que buscas no existe o ha sido eliminada.</p>
+        <Link href="/explore">
+          <Button>
+            <ChevronLeft className="w-4 h-4 mr-2" />
+            Volver a explorar
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const authors = Array.from(new Set(series.volumes.map(volume => volume.author)));
+  const totalDuration = series.volumes.reduce((sum, volume) => sum + volume.totalDuration, 0);
+  const coverArtUrl = series.coverArtUrl || series.volumes.find(volume => volume.coverArtUrl)?.coverArtUrl;
+  const { bundle } = series;
+
+  return (
+    <div className="min-h-screen pb-16">
+      <div className="bg-gradient-to-b from-primary/10 to-background">
+        <div className="container mx-auto px-4 py-8">
+          <Link href="/explore">
+            <Button variant="ghost" size="sm" className="mb-6">
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Volver
+            </Button>
+          </Link>
+
+          <div className="flex flex-col md:flex-row gap-8">
+            <div className="md:w-1/4 flex-shrink-0">
+              <div className="aspect-square rounded-xl overflow-hidden shadow-xl">
+                {coverArtUrl ? (
+                  <img src={coverArtUrl} alt={series.name} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full bg-gradient-to-br from-primary/30 to-primary/60 flex items-center justify-center">
+                    <Library className="w-20 h-20 text-primary-foreground/60" />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="md:w-3/4 space-y-6">
+              <div>
+                <Badge variant="outline" className="mb-3">
+                  Serie · {series.volumes.length} {series.volumes.length === 1 ? "libro" : "libros"}
+                </Badge>
+                <h1 className="font-serif text-4xl md:text-5xl font-bold mb-3" data-testid="text-series-name">
+                  {series.name}
+                </h1>
+                <div className="flex flex-wrap items-center gap-4 text-muted-foreground">
+                  {authors.length > 0 && (
+                    <span className="flex items-center gap-2">
+                      <User className="w-4 h-4" />
+                      {authors.join(", ")}
+                    </span>
+                  )}
+                  <span className="flex items-center gap-2">
+                    <Clock className="w-4 h-4" />
+                    {formatDuration(totalDuration)}
+                  </span>
+                </div>
+              </div>
+
+              {series.description && (
+                <p className="text-lg leading-relaxed text-muted-foreground">
+                  {series.description}
+                </p>
+              )}
+
+              {bundle && (
+                <Card className="border-primary/30">
+                  <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                      <Package className="w-6 h-6 text-primary shrink-0 mt-1" />
+                      <div>
+                        <h3 className="font-semibold">Pack de la serie</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {bundle.audiobookIds.length === series.volumes.length
+                            ? `Los ${bundle.audiobookIds.length} libros de la serie`
+                            : `Los ${bundle.audiobookIds.length} libros que te faltan de la serie`}
+                        </p>
+                        <div className="flex items-baseline gap-2 mt-1">
+                          <span className="text-2xl font-bold text-primary" data-testid="text-bundle-price">
+                            {formatPrice(bundle.priceCents, bundle.currency)}
+                          </span>
+                          {bundle.listPriceCents > bundle.priceCents && (
+                            <span className="text-sm text-muted-foreground line-through">
+                              {formatPrice(bundle.listPriceCents, bundle.currency)}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    <Button
+                      size="lg"
+                      variant={bundle.inCart ? "outline" : "default"}
+                      className="gap-2"
+                      onClick={() => bundleMutation.mutate(bundle.inCart)}
+                      disabled={bundleMutation.isPending}
+                      data-testid="button-toggle-bundle"
+                    >
+                      {bundle.inCart ? <Check className="w-5 h-5" /> : <ShoppingCart className="w-5 h-5" />}
+                      {bundle.inCart ? "En el carrito" : "Agregar el pack al carrito"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 mt-8">
+        <h2 className="font-serif text-2xl font-bold mb-4">Libros de la serie</h2>
+        {series.volumes.length === 0 ? (
+          <p className="text-muted-foreground">Esta serie todavía no tiene libros publicados.</p>
+        ) : (
+          <div className="space-y-2">
+            {series.volumes.map((volume) => (
+              <VolumeItem key={volume.id} volume={volume} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,26 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
-import { Check, Crown, Library, ChevronLeft, Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Check, Crown, Library, ChevronLeft, Loader2, Pause, Play, AlertTriangle, History, ArrowRightLeft } from "lucide-react";
 import { PayPalSubscriptionButton } from "@/components/paypal-button";
-import type { SubscriptionPlan, UserSubscription } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeSubscriptionEvent } from "@/lib/subscription-events";
+import type { PlanChangeQuote, SubscriptionEventWithDetails, SubscriptionPlan, UserSubscriptionOverview } from "@shared/schema";
 
 function formatPrice(cents: number, currency: string = "EUR"): string {
   return new Intl.NumberFormat("es-ES", {
@@ -15,13 +29,20 @@ function formatPrice(cents: number, currency: string = "EUR"): string {
   }).format(cents / 100);
 }
 
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("es-ES", { day: "numeric", month: "long", year: "numeric" });
+}
+
 interface PlanCardProps {
   plan: SubscriptionPlan;
   isCurrentPlan: boolean;
   hasActiveSubscription: boolean;
+  // Subscribers on a PayPal billed plan can switch to any other PayPal plan
+  onChangePlan?: () => void;
+  isChangingPlan?: boolean;
 }
 
-function PlanCard({ plan, isCurrentPlan, hasActiveSubscription }: PlanCardProps) {
+function PlanCard({ plan, isCurrentPlan, hasActiveSubscription, onChangePlan, isChangingPlan }: PlanCardProps) {
   const intervalLabel = plan.intervalMonths === 1 ? "mes" : plan.intervalMonths === 12 ? "ano" : `${plan.intervalMonths} meses`;
   
   const defaultFeatures = [
@@ -68,6 +89,17 @@ function PlanCard({ plan, isCurrentPlan, hasActiveSubscription }: PlanCardProps)
           <Button variant="outline" className="w-full" disabled>
             Plan actual
           </Button>
+        ) : hasActiveSubscription && onChangePlan && plan.paypalPlanId ? (
+          <Button
+            variant="outline"
+            className="w-full gap-2"
+            onClick={onChangePlan}
+            disabled={isChangingPlan}
+            data-testid={`button-change-plan-${plan.id}`}
+          >
+            {isChangingPlan ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowRightLeft className="w-4 h-4" />}
+            Cambiar a este plan
+          </Button>
         ) : hasActiveSubscription ? (
           <Button variant="outline" className="w-full" disabled>
             Ya tienes una suscripción activa
@@ -88,19 +120,105 @@ function PlanCard({ plan, isCurrentPlan, hasActiveSubscription }: PlanCardProps)
 }
 
 export default function Subscriptions() {
+  const { toast } = useToast();
+  const [planChange, setPlanChange] = useState<{ plan: SubscriptionPlan; quote: PlanChangeQuote } | null>(null);
+  const [quotingPlanId, setQuotingPlanId] = useState<string | null>(null);
+  const [confirmPause, setConfirmPause] = useState(false);
+  const confirmedReturn = useRef(false);
+
   const { data: plans, isLoading: plansLoading } = useQuery<SubscriptionPlan[]>({
     queryKey: ["/api/subscription-plans"],
   });
 
-  const { data: userSubscriptionData, isLoading: subscriptionLoading } = useQuery<{
-    subscription: UserSubscription | null;
-    plan: SubscriptionPlan | null;
-  }>({
+  const { data: userSubscriptionData } = useQuery<UserSubscriptionOverview>({
     queryKey: ["/api/user/subscription"],
   });
 
   const activeSubscription = userSubscriptionData?.subscription;
   const currentPlan = userSubscriptionData?.plan;
+  const isBilledByPayPal = !!activeSubscription?.paypalSubscriptionId;
+
+  const { data: events = [] } = useQuery<SubscriptionEventWithDetails[]>({
+    queryKey: ["/api/user/subscription/events"],
+    enabled: !!activeSubscription,
+  });
+
+  const onSubscriptionChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/subscription"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/subscription/events"] });
+  };
+
+  const onSubscriptionError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message?.includes("not approved yet")
+        ? "PayPal todavia no ha confirmado el cambio; lo aplicaremos en cuanto lo haga"
+        : error.message?.includes("not completed yet")
+          ? "PayPal todavia no ha confirmado el pago del cambio; lo aplicaremos en cuanto lo haga"
+          : "No se pudo completar la accion",
+    });
+  };
+
+  const planChangeMutation = useMutation({
+    mutationFn: (planId: string) => apiRequest<{ approvalUrl: string }>("POST", "/api/user/subscription/plan-change", { planId }),
+    onSuccess: ({ approvalUrl }) => {
+      // The subscriber approves the new price on PayPal and comes back with ?plan_change=approved
+      window.location.href = approvalUrl;
+    },
+    onError: onSubscriptionError,
+  });
+
+  const confirmPlanChangeMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/user/subscription/plan-change/confirm"),
+    onSuccess: () => {
+      toast({ title: "Cambio de plan confirmado" });
+      onSubscriptionChanged();
+    },
+    onError: onSubscriptionError,
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/user/subscription/pause"),
+    onSuccess: () => {
+      toast({ title: "Suscripcion pausada" });
+      setConfirmPause(false);
+      onSubscriptionChanged();
+    },
+    onError: onSubscriptionError,
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/user/subscription/resume"),
+    onSuccess: () => {
+      toast({ title: "Suscripcion reanudada" });
+      onSubscriptionChanged();
+    },
+    onError: onSubscriptionError,
+  });
+
+  // Back from approving a plan change on PayPal
+  useEffect(() => {
+    const result = new URLSearchParams(window.location.search).get("plan_change");
+    if (!result || confirmedReturn.current) return;
+    confirmedReturn.current = true;
+    window.history.replaceState(null, "", window.location.pathname);
+    if (result === "approved") {
+      confirmPlanChangeMutation.mutate();
+    }
+  }, []);
+
+  const openPlanChange = async (plan: SubscriptionPlan) => {
+    setQuotingPlanId(plan.id);
+    try {
+      const quote = await apiRequest<PlanChangeQuote>("GET", `/api/user/subscription/plan-change?planId=${encodeURIComponent(plan.id)}`);
+      setPlanChange({ plan, quote });
+    } catch (error) {
+      onSubscriptionError(error);
+    } finally {
+      setQuotingPlanId(null);
+    }
+  };
 
   if (plansLoading) {
     return (
@@ -147,7 +265,7 @@ export default function Subscriptions() {
         {activeSubscription && activeSubscription.status === "ACTIVE" && (
           <Card className="mb-8 border-primary">
             <CardContent className="p-6">
-              <div className="flex items-center gap-4">
+              <div className="flex flex-wrap items-center gap-4">
                 <div className="flex-shrink-0">
                   <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
                     <Check className="w-6 h-6 text-primary" />
@@ -162,13 +280,73 @@ export default function Subscriptions() {
                       "Tienes acceso a todo el catálogo de audiolibros"
                     )}
                   </p>
+                  {userSubscriptionData?.scheduledPlan && (
+                    <p className="text-sm text-muted-foreground" data-testid="text-scheduled-plan">
+                      Pasaras al plan <strong>{userSubscriptionData.scheduledPlan.name}</strong> el {formatDate(activeSubscription.currentPeriodEnd)}
+                    </p>
+                  )}
+                  {userSubscriptionData?.pendingPlan && (
+                    <p className="text-sm text-muted-foreground" data-testid="text-pending-plan">
+                      Cambio al plan <strong>{userSubscriptionData.pendingPlan.name}</strong> pendiente de aprobacion en PayPal
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {isBilledByPayPal && (
+                    <Button variant="outline" className="gap-2" onClick={() => setConfirmPause(true)} data-testid="button-pause-subscription">
+                      <Pause className="w-4 h-4" />
+                      Pausar
+                    </Button>
+                  )}
+                  <Link href="/library">
+                    <Button className="gap-2">
+                      <Library className="w-4 h-4" />
+                      Ir a mi biblioteca
+                    </Button>
+                  </Link>
                 </div>
-                <Link href="/library">
-                  <Button className="gap-2">
-                    <Library className="w-4 h-4" />
-                    Ir a mi biblioteca
-                  </Button>
-                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {activeSubscription && activeSubscription.status === "PAST_DUE" && (
+          <Card className="mb-8 border-destructive" data-testid="card-subscription-past-due">
+            <CardContent className="p-6">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 rounded-full bg-destructive/10 flex items-center justify-center flex-shrink-0">
+                  <AlertTriangle className="w-6 h-6 text-destructive" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold text-lg">No hemos podido cobrar tu suscripción</h3>
+                  <p className="text-muted-foreground">
+                    Actualiza tu forma de pago en PayPal
+                    {userSubscriptionData?.graceEndsAt && <> antes del {formatDate(userSubscriptionData.graceEndsAt)}</>} para no perder el acceso al catálogo
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {activeSubscription && activeSubscription.status === "PAUSED" && (
+          <Card className="mb-8" data-testid="card-subscription-paused">
+            <CardContent className="p-6">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                  <Pause className="w-6 h-6 text-muted-foreground" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold text-lg">Suscripción pausada</h3>
+                  <p className="text-muted-foreground">
+                    {activeSubscription.pausedAt && <>Pausada desde el {formatDate(activeSubscription.pausedAt)}. </>}
+                    No se te cobrara nada hasta que la reanudes
+                  </p>
+                </div>
+                <Button className="gap-2" onClick={() => resumeMutation.mutate()} disabled={resumeMutation.isPending} data-testid="button-resume-subscription">
+                  {resumeMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                  Reanudar
+                </Button>
               </div>
             </CardContent>
           </Card>
@@ -180,7 +358,11 @@ export default function Subscriptions() {
               key={plan.id}
               plan={plan}
               isCurrentPlan={currentPlan?.id === plan.id}
-              hasActiveSubscription={activeSubscription?.status === "ACTIVE"}
+              hasActiveSubscription={!!activeSubscription}
+              onChangePlan={activeSubscription?.status === "ACTIVE" && isBilledByPayPal && !userSubscriptionData?.pendingPlan
+                ? () => openPlanChange(plan)
+                : undefined}
+              isChangingPlan={quotingPlanId === plan.id || (planChangeMutation.isPending && planChangeMutation.variables === plan.id)}
             />
           ))}
         </div>
@@ -195,6 +377,32 @@ export default function Subscriptions() {
           </div>
         )}
 
+        {events.length > 0 && (
+          <Card className="mt-12 max-w-2xl mx-auto" data-testid="card-subscription-history">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="w-5 h-5" />
+                Historial de tu suscripción
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y">
+                {events.map(event => (
+                  <div key={event.id} className="flex items-center justify-between gap-4 py-2 text-sm" data-testid={`row-subscription-event-${event.id}`}>
+                    <div>
+                      <p>{describeSubscriptionEvent(event)}</p>
+                      <p className="text-xs text-muted-foreground">{formatDate(event.createdAt)}</p>
+                    </div>
+                    {event.amountCents !== null && event.amountCents > 0 && (
+                      <span className="font-medium">{formatPrice(event.amountCents, event.currency || "EUR")}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="mt-12 max-w-2xl mx-auto text-center">
           <h2 className="font-serif text-2xl font-bold mb-4">Beneficios de la suscripción</h2>
           <div className="grid gap-4 md:grid-cols-3 text-left">
@@ -222,6 +430,57 @@ export default function Subscriptions() {
           </div>
         </div>
       </div>
+
+      <AlertDialog open={!!planChange} onOpenChange={(open) => { if (!open) setPlanChange(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cambiar al plan {planChange?.plan.name}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {planChange?.quote.effective === "IMMEDIATE"
+                ? `El nuevo plan empieza en cuanto lo apruebes en PayPal. Se te cobraran ${formatPrice(planChange.quote.prorationCents, planChange.quote.currency)} por lo que queda del periodo actual y despues ${formatPrice(planChange.plan.priceCents, planChange.plan.currency)} en cada renovacion.`
+                : planChange
+                  ? `Mantienes tu plan actual hasta el ${formatDate(planChange.quote.effectiveAt)}; a partir de entonces pagaras ${formatPrice(planChange.plan.priceCents, planChange.plan.currency)} en cada renovacion.`
+                  : null}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (planChange) planChangeMutation.mutate(planChange.plan.id);
+                setPlanChange(null);
+              }}
+              data-testid="button-confirm-plan-change"
+            >
+              Continuar en PayPal
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmPause} onOpenChange={setConfirmPause}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Pausar la suscripción</AlertDialogTitle>
+            <AlertDialogDescription>
+              Dejaremos de cobrarte y perderas el acceso al catálogo de suscripción hasta que la reanudes. Tus compras, tu progreso y tus listas se conservan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                pauseMutation.mutate();
+              }}
+              disabled={pauseMutation.isPending}
+              data-testid="button-confirm-pause"
+            >
+              Pausar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
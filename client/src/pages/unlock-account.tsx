@@ -0,0 +1,124 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { LockOpen, Loader2, CheckCircle, XCircle } from "lucide-react";
+import logoImage from "@assets/AUDIVIA_1766261612511.png";
+
+/**
+ * Landing page of the link in the account lockout email
+ * Lifts the lock straight away so the owner can sign in again.
+ */
+export default function UnlockAccount() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setError("Enlace de desbloqueo no valido");
+      setIsLoading(false);
+      return;
+    }
+    unlockAccount(token);
+  }, []);
+
+  const unlockAccount = async (token: string) => {
+    try {
+      const response = await fetch("/api/auth/unlock", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        throw new Error("El enlace no es valido o la cuenta ya estaba desbloqueada");
+      }
+
+      setIsSuccess(true);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-md space-y-8">
+        {/* Logo */}
+        <div className="flex items-center justify-center gap-3">
+          <img
+            src={logoImage}
+            alt="Audivia Logo"
+            className="w-12 h-12"
+            data-testid="img-logo"
+          />
+          <div>
+            <h1 className="font-serif text-xl font-bold">Audivia</h1>
+            <p className="text-xs text-muted-foreground">Desbloquear cuenta</p>
+          </div>
+        </div>
+
+        <Card className="w-full">
+          <CardHeader className="space-y-2">
+            <div className="flex items-center gap-3">
+              <div className="p-3 rounded-full bg-primary/10">
+                {isLoading && <Loader2 className="w-6 h-6 text-primary animate-spin" />}
+                {!isLoading && isSuccess && <CheckCircle className="w-6 h-6 text-primary" />}
+                {!isLoading && error && <XCircle className="w-6 h-6 text-destructive" />}
+                {!isLoading && !isSuccess && !error && <LockOpen className="w-6 h-6 text-primary" />}
+              </div>
+              <div>
+                <CardTitle className="text-2xl">
+                  {isLoading && "Desbloqueando..."}
+                  {!isLoading && isSuccess && "¡Cuenta desbloqueada!"}
+                  {!isLoading && error && "Error"}
+                </CardTitle>
+                <CardDescription>
+                  {isLoading && "Estamos desbloqueando tu cuenta"}
+                  {!isLoading && isSuccess && "Ya puedes volver a iniciar sesion"}
+                  {!isLoading && error && "No se pudo desbloquear la cuenta"}
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent>
+            {!isLoading && isSuccess && (
+              <p className="text-sm text-muted-foreground">
+                Si no fuiste tu quien intento entrar, cambia tu contraseña en cuanto inicies sesion.
+              </p>
+            )}
+            {!isLoading && error && (
+              <div className="p-4 bg-destructive/10 rounded-lg">
+                <p className="text-sm text-destructive" data-testid="text-unlock-error">{error}</p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  El bloqueo termina solo a los 15 minutos, o puedes restablecer tu contraseña.
+                </p>
+              </div>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col gap-2">
+            {!isLoading && (
+              <Link href="/login" className="w-full">
+                <Button className="w-full" data-testid="button-go-login">
+                  Iniciar sesion
+                </Button>
+              </Link>
+            )}
+            {!isLoading && error && (
+              <Link href="/forgot-password" className="w-full">
+                <Button variant="outline" className="w-full" data-testid="button-forgot-password">
+                  Restablecer contraseña
+                </Button>
+              </Link>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Temporary account lockout after repeated failed logins
+ * Complements the per-IP rate limiter for password guessing spread over many
+ * addresses. The owner gets an email with a link that lifts the lock early;
+ * only a hash of that token is stored. Every failure and lock is recorded as
+ * a security event, so admins can see the failed-login history of an account.
+ */
+
+import crypto from "crypto";
+import { storage } from "./storage";
+import { getEmailService } from "./email";
+import type { SecurityEvent, User } from "@shared/schema";
+
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+
+function hashUnlockToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export class AccountLockoutService {
+  async getLockedUntil(userId: string): Promise<Date | null> {
+    const lockout = await storage.getAccountLockout(userId);
+    return lockout?.lockedUntil && lockout.lockedUntil > new Date() ? lockout.lockedUntil : null;
+  }
+
+  /**
+   * Count a wrong password or two-factor code
+   * Returns the end of the lock when this failure locked the account.
+   */
+  async recordFailedLogin(user: User, siteUrl: string, ipAddress?: string): Promise<Date | null> {
+    const lockout = await storage.recordFailedLogin(user.id);
+    await this.recordEvent(user.id, "LOGIN_FAILED", null, ipAddress);
+
+    const alreadyLocked = !!lockout.lockedUntil && lockout.lockedUntil > new Date();
+    if (lockout.failedCount < MAX_FAILED_LOGINS || alreadyLocked) {
+      return null;
+    }
+
+    const unlockToken = crypto.randomBytes(32).toString("hex");
+    const lockedUntil = new Date(Date.now() + LOCKOUT_DURATION_MS);
+    await storage.lockAccount(user.id, lockedUntil, hashUnlockToken(unlockToken));
+    await this.recordEvent(user.id, "ACCOUNT_LOCKED", null, ipAddress);
+
+    const unlockUrl = `${siteUrl}/unlock-account?token=${unlockToken}`;
+    try {
+      await getEmailService().sendAccountLockedEmail(user.email, user.username, unlockUrl, lockedUntil.toISOString());
+    } catch (emailError) {
+      console.error(`Failed to send account locked email to ${user.email}:`, emailError);
+    }
+    return lockedUntil;
+  }
+
+  // Successful login or password reset: start counting from zero
+  async clear(userId: string): Promise<void> {
+    await storage.clearAccountLockout(userId);
+  }
+
+  // Unlock link from the email; returns the unlocked user id
+  async unlockWithToken(token: string, ipAddress?: string): Promise<string> {
+    const lockout = await storage.getAccountLockoutByUnlockToken(hashUnlockToken(token));
+    if (!lockout) {
+      throw new Error("Invalid or expired unlock link");
+    }
+    await storage.clearAccountLockout(lockout.userId);
+    await this.recordEvent(lockout.userId, "ACCOUNT_UNLOCKED", null, ipAddress);
+    return lockout.userId;
+  }
+
+  async unlock(userId: string, actorId: string, ipAddress?: string): Promise<void> {
+    if (!(await this.getLockedUntil(userId))) {
+      throw new Error("Account is not locked");
+    }
+    await storage.clearAccountLockout(userId);
+    await this.recordEvent(userId, "ACCOUNT_UNLOCKED", actorId, ipAddress);
+  }
+
+  private async recordEvent(userId: string, type: SecurityEvent["type"], actorId: string | null, ipAddress?: string): Promise<void> {
+    await storage.createSecurityEvent({ userId, type, actorId, ipAddress: ipAddress ?? null });
+  }
+}
+
+export const accountLockoutService = new AccountLockoutService();
@@ -0,0 +1,137 @@
+/**
+ * Audit log of privileged admin actions
+ * requireAdmin calls trackAdminAction on every write request, so no admin
+ * route goes unrecorded: once a successful response has been sent an entry is
+ * appended with the admin, the route, the target and the submitted data.
+ * Routes that load the record they change pass it to setAuditContext, and the
+ * entry then holds only the fields that changed, before and after.
+ * Passwords, secrets and tokens are never written to the log, and neither
+ * are emails and usernames: the target id says whose record it was, and the
+ * log never has to change when that account is deleted.
+ */
+
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+export interface AuditContext {
+  targetType?: string;
+  targetId?: string | null;
+  // The record as it was; leave out for creations
+  before?: unknown;
+  // The record as it is now; defaults to nothing for deletions, the JSON response when there is a before, else the request body
+  after?: unknown;
+}
+
+const SENSITIVE_KEY = /password|secret|token|apikey|api_key|privatekey/i;
+const REDACTED = "[redacted]";
+const PERSONAL_KEY = /email|username/i;
+const EMAIL_ADDRESS = /[^\s@"'<>,;]+@[^\s@"'<>,;]+\.[^\s@"'<>,;]+/g;
+const PERSONAL = "[personal data]";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SENSITIVE_KEY.test(key) ? REDACTED : redact(field)])
+    );
+  }
+  return value;
+}
+
+// After the diff, so a changed email still shows up as a change
+function removePersonalData(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(removePersonalData);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        PERSONAL_KEY.test(key) && field !== null && field !== undefined ? PERSONAL : removePersonalData(field),
+      ])
+    );
+  }
+  // Messages and free text can mention an address too
+  return typeof value === "string" ? value.replace(EMAIL_ADDRESS, PERSONAL) : value;
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+// Keep the fields of the new state that differ from the old one, so a role change doesn't store the whole user twice
+function diff(before: unknown, after: unknown): { before: unknown; after: unknown } {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return { before, after };
+  }
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of Object.keys(after)) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+// "/api/admin/users/:id/role" -> "users"
+function getDefaultTargetType(routePath: string): string | null {
+  const segments = routePath.replace(/^\/api\/(admin\/)?/, "").split("/");
+  return segments[0] && !segments[0].startsWith(":") ? segments[0] : null;
+}
+
+// Describe the change from inside the route, before the response is sent
+export function setAuditContext(res: Response, context: AuditContext): void {
+  res.locals.audit = { ...res.locals.audit, ...context };
+}
+
+export function trackAdminAction(req: Request, res: Response, actor: User): void {
+  let responseBody: unknown;
+  const originalJson = res.json.bind(res);
+  res.json = ((body: unknown) => {
+    responseBody = body;
+    return originalJson(body);
+  }) as Response["json"];
+
+  res.on("finish", () => {
+    if (res.statusCode >= 400) {
+      return;
+    }
+
+    const context: AuditContext = res.locals.audit ?? {};
+    const routePath = `${req.baseUrl}${req.route?.path ?? req.path}`;
+    const hasBody = isPlainObject(req.body) && Object.keys(req.body).length > 0;
+    let after: unknown = context.after;
+    if (after === undefined) {
+      if (req.method === "DELETE") {
+        after = null;
+      } else if (context.before !== undefined) {
+        after = isPlainObject(responseBody) ? responseBody : null;
+      } else {
+        after = hasBody ? req.body : null;
+      }
+    }
+    const changes = diff(redact(context.before ?? null), redact(after));
+
+    storage.createAdminAuditEntry({
+      actorId: actor.id,
+      actorEmail: actor.email,
+      action: `${req.method} ${routePath}`,
+      targetType: context.targetType ?? getDefaultTargetType(routePath),
+      targetId: context.targetId !== undefined ? context.targetId : (req.params.id ?? null),
+      before: toJson(removePersonalData(changes.before)),
+      after: toJson(removePersonalData(changes.after)),
+      ipAddress: req.ip ?? null,
+    }).catch((error) => {
+      console.error(`Error writing admin audit log for ${req.method} ${routePath}:`, error);
+    });
+  });
+}
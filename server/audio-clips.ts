@@ -0,0 +1,114 @@
+/**
+ * Shared bookmark clips
+ * A shared bookmark plays its range, up to BOOKMARK_CLIP_MAX_SECONDS, to anyone
+ * with the link. The excerpt is cut from the chapter audio with ffmpeg by a
+ * background job when the bookmark is shared (or its range changes) and kept
+ * as a media asset, so the rest of the chapter never leaves the server and
+ * playing the link only streams a small file.
+ */
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { storage } from "./storage";
+import { mediaOrchestrator } from "./media-orchestrator";
+import { AUDIO_OUTPUT, fetchMediaToFile, runFfmpeg } from "./audio-processing";
+import { jobQueue } from "./job-queue";
+import { BOOKMARK_CLIP_MAX_SECONDS, type Bookmark, type Chapter } from "@shared/schema";
+
+export interface BookmarkClipJobPayload {
+  bookmarkId: string;
+}
+
+// A minute of audio; the chapter download is what takes time
+const CLIP_RENDER_TIMEOUT_MS = 2 * 60 * 1000;
+
+// The range a shared bookmark plays, capped to the clip limit
+export function getClipRange(bookmark: Bookmark): { startSeconds: number; durationSeconds: number } {
+  const end = bookmark.endPositionSeconds ?? bookmark.positionSeconds + BOOKMARK_CLIP_MAX_SECONDS;
+  return {
+    startSeconds: bookmark.positionSeconds,
+    durationSeconds: Math.min(end - bookmark.positionSeconds, BOOKMARK_CLIP_MAX_SECONDS),
+  };
+}
+
+// Includes the chapter audio, so re-uploaded audio is cut again
+function getClipFingerprint(bookmark: Bookmark, chapter: Chapter): string {
+  const { startSeconds, durationSeconds } = getClipRange(bookmark);
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([startSeconds, durationSeconds, chapter.audioAssetId || chapter.audioUrl]))
+    .digest("hex");
+}
+
+// Queue the render of a shared bookmark's clip
+export async function queueBookmarkClip(bookmark: Bookmark): Promise<void> {
+  const payload: BookmarkClipJobPayload = { bookmarkId: bookmark.id };
+  await jobQueue.enqueue("bookmark-clip", payload, { createdBy: bookmark.userId, maxAttempts: 2 });
+}
+
+// Drops the rendered clip of a bookmark that is no longer shared (or no longer exists)
+export async function deleteBookmarkClip(bookmark: Bookmark): Promise<void> {
+  if (bookmark.clipAssetId) {
+    await mediaOrchestrator.deleteMediaAsset(bookmark.clipAssetId);
+  }
+}
+
+/**
+ * Handler for "bookmark-clip" jobs
+ * Cuts the clip as MP3 and stores it as a BOOKMARK_CLIP asset. Skipped when
+ * the bookmark stopped being shared or its clip is already up to date.
+ */
+export async function runBookmarkClipJob({ bookmarkId }: BookmarkClipJobPayload) {
+  const bookmark = await storage.getBookmark(bookmarkId);
+  if (!bookmark?.shareToken) {
+    return { skipped: true };
+  }
+  const chapter = await storage.getChapter(bookmark.chapterId);
+  if (!chapter?.audioUrl) {
+    throw new Error("Chapter has no audio");
+  }
+
+  const fingerprint = getClipFingerprint(bookmark, chapter);
+  const current = bookmark.clipAssetId ? await storage.getMediaAsset(bookmark.clipAssetId) : undefined;
+  if (current?.sourceFingerprint === fingerprint) {
+    return { assetId: current.id, cached: true };
+  }
+
+  const { startSeconds, durationSeconds } = getClipRange(bookmark);
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "clip-"));
+  try {
+    const inputPath = path.join(workDir, `chapter${path.extname(chapter.audioUrl.split("?")[0]) || ".mp3"}`);
+    await fetchMediaToFile(chapter.audioUrl, chapter.audioAssetId, inputPath);
+
+    const outputPath = path.join(workDir, `clip${AUDIO_OUTPUT.extension}`);
+    await runFfmpeg([
+      "-y",
+      "-ss", String(startSeconds),
+      "-t", String(durationSeconds),
+      "-i", inputPath,
+      "-vn",
+      "-ac", String(AUDIO_OUTPUT.channels),
+      "-c:a", AUDIO_OUTPUT.codec,
+      "-b:a", AUDIO_OUTPUT.bitrate,
+      outputPath,
+    ], undefined, CLIP_RENDER_TIMEOUT_MS);
+
+    const asset = await mediaOrchestrator.saveBookmarkClip(outputPath, bookmark, fingerprint, durationSeconds);
+
+    // The bookmark may have been unshared or deleted while the clip was cut
+    const latest = await storage.getBookmark(bookmark.id);
+    if (!latest?.shareToken) {
+      await mediaOrchestrator.deleteMediaAsset(asset.id);
+      return { skipped: true };
+    }
+    await storage.updateBookmark(bookmark.id, { clipAssetId: asset.id });
+    if (latest.clipAssetId && latest.clipAssetId !== asset.id) {
+      await mediaOrchestrator.deleteMediaAsset(latest.clipAssetId);
+    }
+    return { assetId: asset.id, cached: false };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
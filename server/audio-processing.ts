@@ -0,0 +1,341 @@
+/**
+ * Audio processing pipeline
+ * Uploaded audio is kept untouched as an AUDIO_MASTER asset and transcoded in
+ * the background into the format served to listeners: mono MP3 at 64 kbps,
+ * loudness-normalized with ffmpeg's two-pass EBU R128 loudnorm filter. Chapters
+ * playing the master are switched to the transcoded file, with the duration
+ * and size measured on the result.
+ */
+
+import { execFile, spawn } from "child_process";
+import { promisify } from "util";
+import { createReadStream, createWriteStream } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { parseFile } from "music-metadata";
+import { storage } from "./storage";
+import { mediaOrchestrator } from "./media-orchestrator";
+import { jobQueue, type JobContext } from "./job-queue";
+import type { Chapter, MediaAsset } from "@shared/schema";
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+// Speech settings: mono, 64 kbps, -19 LUFS (the usual target for mono spoken word)
+export const AUDIO_OUTPUT = {
+  codec: "libmp3lame",
+  bitrate: "64k",
+  sampleRate: 44100,
+  channels: 1,
+  mimeType: "audio/mpeg",
+  extension: ".mp3",
+  integratedLufs: -19,
+  truePeakDb: -1.5,
+  loudnessRange: 11,
+};
+
+const uploadsDir = path.join(process.cwd(), "uploads");
+
+// Only bounds a hung ffmpeg: jobs report progress while it runs, which keeps their lock fresh
+export const FFMPEG_TIMEOUT_MS = 25 * 60 * 1000;
+
+export interface AudioProbe {
+  durationSeconds: number;
+  // Unrounded, for placing chapter markers
+  durationMs: number;
+  sizeBytes: number;
+  codec: string | null;
+  bitRate: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+export interface AudioTranscodeJobPayload {
+  masterAssetId: string;
+}
+
+interface LoudnessMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+/**
+ * Read duration and stream details with ffprobe
+ * Falls back to music-metadata when ffprobe isn't installed, so uploads keep
+ * working (with a less exact duration) on hosts without ffmpeg.
+ */
+export async function probeAudio(filePath: string): Promise<AudioProbe> {
+  const { size } = await fs.stat(filePath);
+
+  try {
+    const { stdout } = await execFileAsync(FFPROBE_PATH, [
+      "-v", "error",
+      "-print_format", "json",
+      "-show_format",
+      "-show_streams",
+      "-select_streams", "a:0",
+      filePath,
+    ], { maxBuffer: 10 * 1024 * 1024 });
+
+    const probe = JSON.parse(stdout);
+    const stream = probe.streams?.[0];
+    if (!stream) {
+      throw new Error("El archivo no contiene audio");
+    }
+
+    const duration = parseFloat(probe.format?.duration ?? stream.duration ?? "0");
+    return {
+      durationSeconds: Math.round(duration || 0),
+      durationMs: Math.round((duration || 0) * 1000),
+      sizeBytes: size,
+      codec: stream.codec_name || null,
+      bitRate: parseInt(stream.bit_rate ?? probe.format?.bit_rate, 10) || null,
+      sampleRate: parseInt(stream.sample_rate, 10) || null,
+      channels: stream.channels || null,
+    };
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw error;
+    }
+
+    console.warn("[AUDIO] ffprobe not found, reading duration with music-metadata");
+    const metadata = await parseFile(filePath);
+    return {
+      durationSeconds: Math.round(metadata.format.duration || 0),
+      durationMs: Math.round((metadata.format.duration || 0) * 1000),
+      sizeBytes: size,
+      codec: metadata.format.codec || null,
+      bitRate: metadata.format.bitrate ? Math.round(metadata.format.bitrate) : null,
+      sampleRate: metadata.format.sampleRate || null,
+      channels: metadata.format.numberOfChannels || null,
+    };
+  }
+}
+
+// Probe an upload held in memory (multer memory storage)
+export async function probeAudioBuffer(buffer: Buffer, originalName: string): Promise<AudioProbe> {
+  const tempPath = path.join(os.tmpdir(), `probe-${Date.now()}-${Math.round(Math.random() * 1E9)}${path.extname(originalName)}`);
+  await fs.writeFile(tempPath, buffer);
+  try {
+    return await probeAudio(tempPath);
+  } finally {
+    await fs.unlink(tempPath).catch(() => {});
+  }
+}
+
+/**
+ * Run ffmpeg, reporting how many seconds of output it has written so far
+ * For long jobs, whose callers report progress so the job queue knows the
+ * worker is alive. ffmpeg is killed once the timeout passes; callers working
+ * on hours of audio should size it to the input. Resolves with the tail of
+ * stderr, where filters such as loudnorm print their results.
+ */
+export function runFfmpeg(args: string[], onProgress?: (outputSeconds: number) => void, timeoutMs = FFMPEG_TIMEOUT_MS): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_PATH, ["-hide_banner", "-nostats", "-progress", "pipe:1", ...args]);
+    let stderr = "";
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      ffmpeg.kill("SIGKILL");
+    }, timeoutMs);
+
+    ffmpeg.stdout.on("data", (data: Buffer) => {
+      const match = data.toString().match(/out_time_us=(\d+)/g);
+      if (match && onProgress) {
+        onProgress(parseInt(match[match.length - 1].split("=")[1], 10) / 1e6);
+      }
+    });
+    ffmpeg.stderr.on("data", (data: Buffer) => {
+      // Keep the tail for the error message and loudnorm's measurements
+      stderr = (stderr + data.toString()).slice(-8000);
+    });
+    ffmpeg.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`ffmpeg timed out after ${Math.round(timeoutMs / 1000)}s`));
+      } else if (code === 0) {
+        resolve(stderr);
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().split("\n").pop()}`));
+      }
+    });
+  });
+}
+
+// Copy chapter audio or a cover to a local file, wherever it is stored
+export async function fetchMediaToFile(url: string, assetId: string | null, destination: string): Promise<void> {
+  if (assetId && await storage.getMediaAsset(assetId)) {
+    const { stream } = await mediaOrchestrator.streamMedia(assetId);
+    await pipeline(stream, createWriteStream(destination));
+    return;
+  }
+
+  if (url.startsWith("/media/")) {
+    const filePath = path.normalize(path.join(uploadsDir, decodeURIComponent(url.slice("/media/".length).split("?")[0])));
+    if (!filePath.startsWith(uploadsDir + path.sep)) {
+      throw new Error(`Invalid media path: ${url}`);
+    }
+    await pipeline(createReadStream(filePath), createWriteStream(destination));
+    return;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Could not download ${url}: ${response.status}`);
+  }
+  await pipeline(Readable.fromWeb(response.body as any), createWriteStream(destination));
+}
+
+function loudnormFilter(measured?: LoudnessMeasurement): string {
+  const target = `I=${AUDIO_OUTPUT.integratedLufs}:TP=${AUDIO_OUTPUT.truePeakDb}:LRA=${AUDIO_OUTPUT.loudnessRange}`;
+  if (!measured) {
+    return `loudnorm=${target}:print_format=json`;
+  }
+  return `loudnorm=${target}`
+    + `:measured_I=${measured.input_i}:measured_TP=${measured.input_tp}`
+    + `:measured_LRA=${measured.input_lra}:measured_thresh=${measured.input_thresh}`
+    + `:offset=${measured.target_offset}:linear=true`;
+}
+
+// First loudnorm pass: analyze only, the measurements are printed as JSON on stderr
+async function measureLoudness(inputPath: string, onProgress: (outputSeconds: number) => void, timeoutMs: number): Promise<LoudnessMeasurement> {
+  const stderr = await runFfmpeg([
+    "-i", inputPath,
+    "-vn",
+    "-af", loudnormFilter(),
+    "-f", "null", "-",
+  ], onProgress, timeoutMs);
+
+  const json = stderr.slice(stderr.lastIndexOf("{"), stderr.lastIndexOf("}") + 1);
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error("No se pudo medir la sonoridad del audio");
+  }
+}
+
+// Second pass: apply the measured correction and encode to the canonical format
+async function transcodeAudio(inputPath: string, outputPath: string, measured: LoudnessMeasurement, onProgress: (outputSeconds: number) => void, timeoutMs: number): Promise<void> {
+  await runFfmpeg([
+    "-y",
+    "-i", inputPath,
+    "-vn",
+    "-af", loudnormFilter(measured),
+    "-ac", String(AUDIO_OUTPUT.channels),
+    "-ar", String(AUDIO_OUTPUT.sampleRate),
+    "-c:a", AUDIO_OUTPUT.codec,
+    "-b:a", AUDIO_OUTPUT.bitrate,
+    outputPath,
+  ], onProgress, timeoutMs);
+}
+
+// Queue transcoding of a freshly uploaded master
+export async function queueAudioTranscode(master: MediaAsset, createdBy?: string): Promise<string> {
+  const payload: AudioTranscodeJobPayload = { masterAssetId: master.id };
+  const job = await jobQueue.enqueue("audio-transcode", payload, { createdBy });
+  return job.id;
+}
+
+/**
+ * The audio a chapter should point at for an uploaded asset
+ * A chapter saved after its upload finished transcoding gets the transcoded
+ * file straight away; otherwise it keeps the master until the job swaps it.
+ */
+export async function resolveChapterAudio(audioAssetId: string): Promise<Pick<Chapter, "audioAssetId" | "audioUrl" | "audioFileSize" | "duration"> | null> {
+  const asset = await storage.getMediaAsset(audioAssetId);
+  if (!asset) {
+    return null;
+  }
+
+  const [transcoded] = asset.type === "AUDIO_MASTER" ? await storage.getDerivedMediaAssets(asset.id) : [];
+  const playable = transcoded || asset;
+  return {
+    audioAssetId: playable.id,
+    audioUrl: playable.publicUrl,
+    audioFileSize: playable.sizeBytes,
+    duration: playable.durationSeconds ?? 0,
+  };
+}
+
+// Handler for "audio-transcode" jobs
+export async function runAudioTranscodeJob({ masterAssetId }: AudioTranscodeJobPayload, context: JobContext) {
+  const master = await storage.getMediaAsset(masterAssetId);
+  if (!master) {
+    throw new Error("Media asset not found");
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "transcode-"));
+  try {
+    await context.reportProgress(5, "Descargando original");
+    const inputPath = path.join(workDir, `master${path.extname(master.storageKey)}`);
+    const { stream } = await mediaOrchestrator.streamMedia(master.id);
+    await pipeline(stream, createWriteStream(inputPath));
+
+    // Both passes report as they go, so a long master doesn't look like an abandoned job
+    const durationSeconds = master.durationSeconds || 0;
+    const timeoutMs = Math.max(FFMPEG_TIMEOUT_MS, durationSeconds * 1000);
+    const reportDuring = (from: number, to: number, message: string) => {
+      let lastReport = 0;
+      return (seconds: number) => {
+        if (Date.now() - lastReport < 5000) return;
+        lastReport = Date.now();
+        // Without a duration the percentage stays put, but the lock is still renewed
+        const done = durationSeconds > 0 ? Math.min(seconds / durationSeconds, 1) : 0;
+        context.reportProgress(from + (to - from) * done, message)
+          .catch(error => console.error("[TRANSCODE] Error reporting progress:", error));
+      };
+    };
+
+    await context.reportProgress(15, "Midiendo sonoridad");
+    const measured = await measureLoudness(inputPath, reportDuring(15, 45, "Midiendo sonoridad"), timeoutMs);
+
+    await context.reportProgress(45, "Transcodificando");
+    const outputPath = path.join(workDir, `output${AUDIO_OUTPUT.extension}`);
+    await transcodeAudio(inputPath, outputPath, measured, reportDuring(45, 85, "Transcodificando"), timeoutMs);
+    const probe = await probeAudio(outputPath);
+
+    await context.reportProgress(85, "Guardando audio");
+    // A retried job may have saved its output before failing; keep a single transcoded copy
+    for (const previous of await storage.getDerivedMediaAssets(master.id)) {
+      await mediaOrchestrator.deleteMediaAsset(previous.id);
+    }
+    const transcoded = await mediaOrchestrator.saveTranscodedAudio(outputPath, master, probe.durationSeconds);
+    if (!master.durationSeconds) {
+      // The upload-time probe failed; the transcode has the same length
+      await storage.updateMediaAsset(master.id, { durationSeconds: probe.durationSeconds });
+    }
+
+    const chapters = await storage.getChaptersByAudioAsset(master);
+    for (const chapter of chapters) {
+      await storage.updateChapter(chapter.id, {
+        audioAssetId: transcoded.id,
+        audioUrl: transcoded.publicUrl,
+        audioFileSize: transcoded.sizeBytes,
+        duration: probe.durationSeconds,
+      });
+    }
+
+    return {
+      assetId: transcoded.id,
+      durationSeconds: probe.durationSeconds,
+      sizeBytes: transcoded.sizeBytes,
+      inputLoudnessLufs: parseFloat(measured.input_i),
+      chaptersUpdated: chapters.length,
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
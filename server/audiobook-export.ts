@@ -0,0 +1,190 @@
+/**
+ * Single-file audiobook export
+ * Joins an audiobook's chapters into one MP3 with an ID3 tag carrying the
+ * cover, book metadata and a CHAP frame per chapter, for dedicated audiobook
+ * players. The file is built once by a background job and cached as an
+ * AUDIOBOOK_EXPORT media asset; a fingerprint of the chapters tells when it
+ * has to be rebuilt. Downloads can be watermarked per buyer by rewriting just
+ * the tag at the head of the file while streaming it.
+ */
+
+import crypto from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { mediaOrchestrator } from "./media-orchestrator";
+import { AUDIO_OUTPUT, FFMPEG_TIMEOUT_MS, fetchMediaToFile, probeAudio, runFfmpeg } from "./audio-processing";
+import { createAudiobookTag, getID3TagSize, watermarkID3Tag, type ChapterMarker } from "./id3-utils";
+import type { JobContext } from "./job-queue";
+import type { ByteRange } from "./http-range";
+import type { Audiobook, Chapter, MediaAsset } from "@shared/schema";
+
+export interface AudiobookExportJobPayload {
+  audiobookId: string;
+}
+
+// Bump when the export format changes so cached files are rebuilt
+const EXPORT_FORMAT_VERSION = 1;
+
+async function getExportChapters(audiobookId: string): Promise<Chapter[]> {
+  const chapters = await storage.getChaptersByAudiobook(audiobookId);
+  return chapters
+    .filter(chapter => chapter.audioUrl)
+    .sort((a, b) => a.chapterNumber - b.chapterNumber);
+}
+
+function getExportFingerprint(audiobook: Audiobook, chapters: Chapter[]): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({
+      version: EXPORT_FORMAT_VERSION,
+      book: [audiobook.title, audiobook.author, audiobook.narrator, audiobook.coverArtUrl],
+      chapters: chapters.map(chapter => [chapter.id, chapter.chapterNumber, chapter.title, chapter.audioUrl, chapter.duration]),
+    }))
+    .digest("hex");
+}
+
+/**
+ * The cached export of an audiobook, if it matches the current chapters
+ */
+export async function getAudiobookExport(audiobook: Audiobook): Promise<MediaAsset | undefined> {
+  const fingerprint = getExportFingerprint(audiobook, await getExportChapters(audiobook.id));
+  const assets = await storage.getMediaAssetsByAudiobook(audiobook.id);
+  return assets.find(asset => asset.type === "AUDIOBOOK_EXPORT" && asset.sourceFingerprint === fingerprint);
+}
+
+// Handler for "audiobook-export" jobs
+export async function runAudiobookExportJob({ audiobookId }: AudiobookExportJobPayload, context: JobContext) {
+  const audiobook = await storage.getAudiobook(audiobookId);
+  if (!audiobook) {
+    throw new Error("Audiobook not found");
+  }
+
+  const chapters = await getExportChapters(audiobookId);
+  if (chapters.length === 0) {
+    throw new Error("El audiolibro no tiene capitulos con audio");
+  }
+
+  // Another buyer's request may already have built it
+  const fingerprint = getExportFingerprint(audiobook, chapters);
+  const previousExports = (await storage.getMediaAssetsByAudiobook(audiobookId)).filter(asset => asset.type === "AUDIOBOOK_EXPORT");
+  const cached = previousExports.find(asset => asset.sourceFingerprint === fingerprint);
+  if (cached) {
+    return { assetId: cached.id, sizeBytes: cached.sizeBytes, cached: true };
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "export-"));
+  try {
+    const inputs: string[] = [];
+    const markers: ChapterMarker[] = [];
+    let totalMs = 0;
+
+    for (let i = 0; i < chapters.length; i++) {
+      const chapter = chapters[i];
+      await context.reportProgress(5 + (30 * i) / chapters.length, `Descargando capitulo ${chapter.chapterNumber}`);
+
+      const inputPath = path.join(workDir, `chapter-${i}${path.extname(chapter.audioUrl!.split("?")[0]) || ".mp3"}`);
+      await fetchMediaToFile(chapter.audioUrl!, chapter.audioAssetId, inputPath);
+      const probe = await probeAudio(inputPath);
+
+      inputs.push(inputPath);
+      markers.push({
+        title: `${chapter.chapterNumber}. ${chapter.title}`,
+        startTimeMs: totalMs,
+        endTimeMs: totalMs + probe.durationMs,
+      });
+      totalMs += probe.durationMs;
+    }
+
+    let coverBuffer: Buffer | undefined;
+    if (audiobook.coverArtUrl) {
+      try {
+        const coverPath = path.join(workDir, "cover");
+        await fetchMediaToFile(audiobook.coverArtUrl, audiobook.coverArtAssetId, coverPath);
+        coverBuffer = await fs.readFile(coverPath);
+      } catch (error) {
+        console.warn(`[EXPORT] Could not read cover of audiobook ${audiobookId}:`, error);
+      }
+    }
+
+    // Chapters can come in different formats, so they are decoded and joined with the concat filter
+    await context.reportProgress(35, "Uniendo capitulos");
+    const audioPath = path.join(workDir, "audio.mp3");
+    const filter = inputs.map((_, i) => `[${i}:a]aformat=sample_rates=${AUDIO_OUTPUT.sampleRate}:channel_layouts=mono[a${i}]`).join(";")
+      + `;${inputs.map((_, i) => `[a${i}]`).join("")}concat=n=${inputs.length}:v=0:a=1[out]`;
+    let lastReport = 0;
+    await runFfmpeg([
+      "-y",
+      ...inputs.flatMap(input => ["-i", input]),
+      "-filter_complex", filter,
+      "-map", "[out]",
+      "-c:a", AUDIO_OUTPUT.codec,
+      "-b:a", AUDIO_OUTPUT.bitrate,
+      // The tag is written below, with the chapters
+      "-id3v2_version", "0",
+      audioPath,
+    ], (seconds) => {
+      if (Date.now() - lastReport < 5000) return;
+      lastReport = Date.now();
+      context.reportProgress(35 + 55 * Math.min((seconds * 1000) / totalMs, 1), "Uniendo capitulos")
+        .catch(error => console.error("[EXPORT] Error reporting progress:", error));
+    }, Math.max(FFMPEG_TIMEOUT_MS, totalMs)); // Encoding is far faster than real time, even for a long audiobook
+
+    await context.reportProgress(90, "Guardando audiolibro");
+    const tag = createAudiobookTag({
+      title: audiobook.title,
+      author: audiobook.author,
+      album: audiobook.title,
+      narrator: audiobook.narrator || undefined,
+      year: new Date(audiobook.publishedAt || audiobook.createdAt).getFullYear(),
+    }, markers, coverBuffer);
+
+    const exportPath = path.join(workDir, "audiobook.mp3");
+    const output = createWriteStream(exportPath);
+    output.write(tag);
+    await pipeline(createReadStream(audioPath), output);
+
+    const asset = await mediaOrchestrator.saveAudiobookExport(exportPath, audiobook, fingerprint, Math.round(totalMs / 1000));
+    for (const previous of previousExports) {
+      await mediaOrchestrator.deleteMediaAsset(previous.id);
+    }
+
+    return { assetId: asset.id, sizeBytes: asset.sizeBytes, cached: false };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+async function readRange(assetId: string, range: ByteRange): Promise<Buffer> {
+  const { stream } = await mediaOrchestrator.streamMedia(assetId, range);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Stream an export, optionally with a watermark in its tag
+ * Only the tag is rebuilt; the audio after it is streamed straight from storage.
+ */
+export async function openAudiobookExport(asset: MediaAsset, watermark: string | null): Promise<{ stream: NodeJS.ReadableStream; sizeBytes: number }> {
+  if (!watermark) {
+    const { stream } = await mediaOrchestrator.streamMedia(asset.id);
+    return { stream, sizeBytes: asset.sizeBytes };
+  }
+
+  const tagSize = getID3TagSize(await readRange(asset.id, { start: 0, end: 9 }));
+  const tag = watermarkID3Tag(await readRange(asset.id, { start: 0, end: tagSize - 1 }), watermark);
+  const { stream: audio } = await mediaOrchestrator.streamMedia(asset.id, { start: tagSize, end: asset.sizeBytes - 1 });
+
+  async function* withTag() {
+    yield tag;
+    yield* audio as AsyncIterable<Buffer>;
+  }
+  return { stream: Readable.from(withTag()), sizeBytes: tag.length + asset.sizeBytes - tagSize };
+}
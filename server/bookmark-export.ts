@@ -0,0 +1,67 @@
+/**
+ * Bookmark export
+ * All of a listener's bookmarks in an audiobook, in listening order, as
+ * Markdown (for notes apps) or CSV (for spreadsheets).
+ */
+
+import type { Audiobook, BookmarkWithChapter } from "@shared/schema";
+
+export type BookmarkExportFormat = "markdown" | "csv";
+
+// h:mm:ss, or m:ss under an hour, like the player shows it
+export function formatPosition(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mmss = `${h > 0 ? m.toString().padStart(2, "0") : m}:${s.toString().padStart(2, "0")}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+function formatRange(bookmark: BookmarkWithChapter): string {
+  const start = formatPosition(bookmark.positionSeconds);
+  return bookmark.endPositionSeconds != null ? `${start}-${formatPosition(bookmark.endPositionSeconds)}` : start;
+}
+
+function toMarkdown(audiobook: Audiobook, bookmarks: BookmarkWithChapter[]): string {
+  const lines = [`# ${audiobook.title}`, "", `${audiobook.author} - Marcadores`];
+  let chapterId: string | null = null;
+
+  for (const bookmark of bookmarks) {
+    if (bookmark.chapterId !== chapterId) {
+      chapterId = bookmark.chapterId;
+      lines.push("", `## ${bookmark.chapter.chapterNumber}. ${bookmark.chapter.title}`, "");
+    }
+    // Notes can span lines; indent the rest so they stay in the list item
+    const note = bookmark.note ? ` - ${bookmark.note.replace(/\r?\n/g, "\n  ")}` : "";
+    lines.push(`- **${formatRange(bookmark)}**${note}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(bookmarks: BookmarkWithChapter[]): string {
+  const header = ["chapter_number", "chapter_title", "position", "end_position", "position_seconds", "end_position_seconds", "note", "created_at"];
+  const rows = bookmarks.map(bookmark => [
+    bookmark.chapter.chapterNumber,
+    bookmark.chapter.title,
+    formatPosition(bookmark.positionSeconds),
+    bookmark.endPositionSeconds != null ? formatPosition(bookmark.endPositionSeconds) : null,
+    bookmark.positionSeconds,
+    bookmark.endPositionSeconds,
+    bookmark.note,
+    new Date(bookmark.createdAt).toISOString(),
+  ].map(csvField).join(","));
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function exportBookmarks(audiobook: Audiobook, bookmarks: BookmarkWithChapter[], format: BookmarkExportFormat): { body: string; contentType: string; extension: string } {
+  return format === "csv"
+    ? { body: toCsv(bookmarks), contentType: "text/csv; charset=utf-8", extension: "csv" }
+    : { body: toMarkdown(audiobook, bookmarks), contentType: "text/markdown; charset=utf-8", extension: "md" };
+}
@@ -233,6 +233,100 @@ export function getTemplatePreview(templateId: string, logoBase64?: string): Tem
       `, true, logoBase64),
     }),
 
+    gift: () => ({
+      id: "gift",
+      name: "Regalo",
+      description: "Email enviado al destinatario de un audiolibro regalado",
+      html: getEmailTemplate(`
+        <div style="text-align: center; margin-bottom: 24px;">
+          <span style="font-size: 48px;">&#127873;</span>
+        </div>
+        <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600; text-align: center;">
+          ¡Tienes un regalo!
+        </h1>
+        <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+          <strong style="color: ${BRAND_GOLD};">Usuario Ejemplo</strong> te ha regalado un audiolibro en ${BRAND_NAME}.
+        </p>
+        
+        ${getGoldAccentBox(`
+          <h3 style="color: white; margin: 0; font-size: 20px;">El Arte de la Guerra</h3>
+        `)}
+
+        ${getInfoBox(`
+          <p style="color: #d1d5db; margin: 0; font-size: 16px; line-height: 1.6; font-style: italic;">"¡Feliz cumpleaños! Creo que este te va a encantar."</p>
+          <p style="color: #9ca3af; margin: 12px 0 0 0; font-size: 14px;">— Usuario Ejemplo</p>
+        `)}
+        
+        <p style="text-align: center; margin: 32px 0;">
+          ${getButton("Canjear mi regalo", "/gift/ejemplo")}
+        </p>
+        
+        <p style="font-size: 14px; color: #9ca3af; text-align: center;">
+          Si todavía no tienes cuenta, podrás crearla gratis al canjear el regalo.
+        </p>
+      `, true, logoBase64),
+    }),
+
+    contentInvitation: () => ({
+      id: "contentInvitation",
+      name: "Invitación a contenido",
+      description: "Email enviado al invitar a alguien a un audiolibro o capítulo privado",
+      html: getEmailTemplate(`
+        <div style="text-align: center; margin-bottom: 24px;">
+          <span style="font-size: 48px;">&#128274;</span>
+        </div>
+        <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600; text-align: center;">
+          Tienes una invitación
+        </h1>
+        <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+          <strong style="color: ${BRAND_GOLD};">Usuario Ejemplo</strong> te ha dado acceso a contenido privado en ${BRAND_NAME}.
+        </p>
+        
+        ${getGoldAccentBox(`
+          <h3 style="color: white; margin: 0; font-size: 20px;">El Arte de la Guerra</h3>
+        `)}
+        
+        <p style="text-align: center; margin: 32px 0;">
+          ${getButton("Aceptar invitación", "/invitation/ejemplo")}
+        </p>
+        
+        <p style="font-size: 14px; color: #9ca3af; text-align: center;">
+          Acepta la invitación con una cuenta registrada con este email (usuario@ejemplo.com). La invitación es válida hasta el 31 de diciembre de 2026.
+        </p>
+      `, true, logoBase64),
+    }),
+
+    householdInvitation: () => ({
+      id: "householdInvitation",
+      name: "Invitación al hogar",
+      description: "Email enviado al invitar a alguien a compartir compras y suscripción familiar",
+      html: getEmailTemplate(`
+        <div style="text-align: center; margin-bottom: 24px;">
+          <span style="font-size: 48px;">&#127968;</span>
+        </div>
+        <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600; text-align: center;">
+          Únete a un hogar
+        </h1>
+        <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+          <strong style="color: ${BRAND_GOLD};">Usuario Ejemplo</strong> quiere compartir contigo sus audiolibros comprados y su suscripción en ${BRAND_NAME}.
+        </p>
+        
+        ${getGoldAccentBox(`
+          <p style="margin: 0; font-size: 15px; line-height: 1.6;">
+            Tu progreso de escucha y tus listas de reproducción seguirán siendo solo tuyos.
+          </p>
+        `)}
+        
+        <p style="text-align: center; margin: 32px 0;">
+          ${getButton("Unirme al hogar", "/household/invitation/ejemplo")}
+        </p>
+        
+        <p style="font-size: 14px; color: #9ca3af; text-align: center;">
+          Acepta la invitación con una cuenta registrada con este email (usuario@ejemplo.com) antes del 31 de diciembre de 2026.
+        </p>
+      `, true, logoBase64),
+    }),
+
     invoice: () => ({
       id: "invoice",
       name: "Factura",
@@ -342,6 +436,6 @@ export function getTemplatePreview(templateId: string, logoBase64?: string): Tem
 }
 
 export function getAllTemplates(logoBase64?: string): TemplatePreview[] {
-  const templateIds = ["welcome", "emailVerification", "passwordReset", "purchaseConfirmation", "invoice", "newChapter", "contentApproved"];
+  const templateIds = ["welcome", "emailVerification", "passwordReset", "purchaseConfirmation", "gift", "contentInvitation", "householdInvitation", "invoice", "newChapter", "contentApproved"];
   return templateIds.map(id => getTemplatePreview(id, logoBase64)).filter((t): t is TemplatePreview => t !== null);
 }
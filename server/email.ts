@@ -13,6 +13,12 @@ export interface EmailService {
   sendNewEpisodeNotification(to: string, username: string, podcastTitle: string, episodeTitle: string, episodeUrl: string): Promise<void>;
   sendInvoiceEmail(to: string, username: string, invoice: Invoice, pdfPath: string | null): Promise<void>;
   sendPurchaseConfirmation(to: string, username: string, audiobookTitle: string, invoiceNumber: string): Promise<void>;
+  sendRefundEmail(to: string, username: string, audiobookTitle: string, amountCents: number, currency: string, creditNote: Invoice | null): Promise<void>;
+  sendGiftEmail(to: string, senderName: string, audiobookTitle: string, message: string | null, redeemUrl: string): Promise<void>;
+  sendContentInvitationEmail(to: string, inviterName: string, contentTitle: string, acceptUrl: string, expiresAt: string | null): Promise<void>;
+  sendHouseholdInvitationEmail(to: string, ownerName: string, sharesSubscription: boolean, acceptUrl: string, expiresAt: string): Promise<void>;
+  sendAccountLockedEmail(to: string, username: string, unlockUrl: string, lockedUntil: string): Promise<void>;
+  sendAccountDeletionScheduledEmail(to: string, username: string, profileUrl: string, scheduledFor: string): Promise<void>;
 }
 
 const BRAND_COLOR = "#7C3AED";
@@ -485,6 +491,218 @@ export class NodemailerEmailService implements EmailService {
     `;
     await this.sendEmail(to, subject, getEmailTemplate(content));
   }
+
+  async sendRefundEmail(to: string, username: string, audiobookTitle: string, amountCents: number, currency: string, creditNote: Invoice | null): Promise<void> {
+    const subject = `Reembolso de ${audiobookTitle} - ${BRAND_NAME}`;
+    const formattedAmount = new Intl.NumberFormat("es-ES", {
+      style: "currency",
+      currency,
+    }).format(amountCents / 100);
+
+    const additionalAttachments = creditNote?.pdfPath && fs.existsSync(creditNote.pdfPath) ? [{
+      filename: `factura-rectificativa-${creditNote.invoiceNumber}.pdf`,
+      path: creditNote.pdfPath,
+    }] : [];
+
+    const content = `
+      <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600;">
+        Reembolso realizado
+      </h1>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        Hola <strong style="color: ${BRAND_GOLD};">${username}</strong>,
+      </p>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        Hemos reembolsado tu compra de <strong style="color: white;">${audiobookTitle}</strong>.
+        El importe se devolverá a tu cuenta de PayPal y el audiolibro ya no estará disponible en tu biblioteca.
+      </p>
+      
+      ${getInfoBox(`
+        <table style="width: 100%; border-collapse: collapse;">
+          ${creditNote ? `
+          <tr>
+            <td style="padding: 12px 0; color: #9ca3af; font-size: 14px;">Factura rectificativa:</td>
+            <td style="padding: 12px 0; text-align: right; color: white; font-weight: 600;">${creditNote.invoiceNumber}</td>
+          </tr>` : ''}
+          <tr>
+            <td style="padding: 12px 0; color: #9ca3af; font-size: 14px;${creditNote ? ' border-top: 1px solid rgba(124, 58, 237, 0.2);' : ''}">Importe reembolsado:</td>
+            <td style="padding: 12px 0; text-align: right; color: ${BRAND_GOLD}; font-weight: 700; font-size: 24px;${creditNote ? ' border-top: 1px solid rgba(124, 58, 237, 0.2);' : ''}">${formattedAmount}</td>
+          </tr>
+        </table>
+      `)}
+
+      ${additionalAttachments.length > 0 
+        ? `<p style="font-size: 16px; line-height: 1.6; text-align: center; color: #d1d5db;">
+            Encontrarás el PDF de la factura rectificativa adjunto a este correo.
+          </p>` 
+        : ''
+      }
+      
+      <p style="font-size: 14px; color: #9ca3af; margin-top: 32px;">
+        El reembolso puede tardar unos días en reflejarse, según tu método de pago.
+      </p>
+    `;
+    await this.sendEmail(to, subject, getEmailTemplate(content), additionalAttachments);
+  }
+
+  async sendGiftEmail(to: string, senderName: string, audiobookTitle: string, message: string | null, redeemUrl: string): Promise<void> {
+    const subject = `${senderName} te ha regalado un audiolibro - ${BRAND_NAME}`;
+    const escapedMessage = message
+      ? message.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br>")
+      : null;
+    const content = `
+      <div style="text-align: center; margin-bottom: 24px;">
+        <span style="font-size: 48px;">&#127873;</span>
+      </div>
+      <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600; text-align: center;">
+        ¡Tienes un regalo!
+      </h1>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        <strong style="color: ${BRAND_GOLD};">${senderName}</strong> te ha regalado un audiolibro en ${BRAND_NAME}.
+      </p>
+      
+      ${getGoldAccentBox(`
+        <h3 style="color: white; margin: 0; font-size: 20px;">${audiobookTitle}</h3>
+      `)}
+
+      ${escapedMessage ? getInfoBox(`
+        <p style="color: #d1d5db; margin: 0; font-size: 16px; line-height: 1.6; font-style: italic;">"${escapedMessage}"</p>
+        <p style="color: #9ca3af; margin: 12px 0 0 0; font-size: 14px;">— ${senderName}</p>
+      `) : ''}
+      
+      <p style="text-align: center; margin: 32px 0;">
+        ${getButton("Canjear mi regalo", redeemUrl)}
+      </p>
+      
+      <p style="font-size: 14px; color: #9ca3af; text-align: center;">
+        Si todavía no tienes cuenta, podrás crearla gratis al canjear el regalo.
+      </p>
+    `;
+    await this.sendEmail(to, subject, getEmailTemplate(content));
+  }
+
+  async sendContentInvitationEmail(to: string, inviterName: string, contentTitle: string, acceptUrl: string, expiresAt: string | null): Promise<void> {
+    const subject = `${inviterName} te ha invitado a escuchar "${contentTitle}" - ${BRAND_NAME}`;
+    const expiryText = expiresAt
+      ? `La invitación es válida hasta el ${new Date(expiresAt).toLocaleDateString("es-ES", { day: "numeric", month: "long", year: "numeric" })}.`
+      : "";
+    const content = `
+      <div style="text-align: center; margin-bottom: 24px;">
+        <span style="font-size: 48px;">&#128274;</span>
+      </div>
+      <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600; text-align: center;">
+        Tienes una invitación
+      </h1>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        <strong style="color: ${BRAND_GOLD};">${inviterName}</strong> te ha dado acceso a contenido privado en ${BRAND_NAME}.
+      </p>
+      
+      ${getGoldAccentBox(`
+        <h3 style="color: white; margin: 0; font-size: 20px;">${contentTitle}</h3>
+      `)}
+      
+      <p style="text-align: center; margin: 32px 0;">
+        ${getButton("Aceptar invitación", acceptUrl)}
+      </p>
+      
+      <p style="font-size: 14px; color: #9ca3af; text-align: center;">
+        Acepta la invitación con una cuenta registrada con este email (${to}). ${expiryText}
+      </p>
+    `;
+    await this.sendEmail(to, subject, getEmailTemplate(content));
+  }
+
+  async sendHouseholdInvitationEmail(to: string, ownerName: string, sharesSubscription: boolean, acceptUrl: string, expiresAt: string): Promise<void> {
+    const subject = `${ownerName} te invita a su hogar en ${BRAND_NAME}`;
+    const sharedText = sharesSubscription
+      ? "sus audiolibros comprados y su suscripción"
+      : "sus audiolibros comprados";
+    const expiryDate = new Date(expiresAt).toLocaleDateString("es-ES", { day: "numeric", month: "long", year: "numeric" });
+    const content = `
+      <div style="text-align: center; margin-bottom: 24px;">
+        <span style="font-size: 48px;">&#127968;</span>
+      </div>
+      <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600; text-align: center;">
+        Únete a un hogar
+      </h1>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        <strong style="color: ${BRAND_GOLD};">${ownerName}</strong> quiere compartir contigo ${sharedText} en ${BRAND_NAME}.
+      </p>
+      
+      ${getGoldAccentBox(`
+        <p style="margin: 0; font-size: 15px; line-height: 1.6;">
+          Tu progreso de escucha y tus listas de reproducción seguirán siendo solo tuyos.
+        </p>
+      `)}
+      
+      <p style="text-align: center; margin: 32px 0;">
+        ${getButton("Unirme al hogar", acceptUrl)}
+      </p>
+      
+      <p style="font-size: 14px; color: #9ca3af; text-align: center;">
+        Acepta la invitación con una cuenta registrada con este email (${to}) antes del ${expiryDate}.
+      </p>
+    `;
+    await this.sendEmail(to, subject, getEmailTemplate(content));
+  }
+
+  async sendAccountLockedEmail(to: string, username: string, unlockUrl: string, lockedUntil: string): Promise<void> {
+    const subject = `Hemos bloqueado temporalmente tu cuenta de ${BRAND_NAME}`;
+    const unlockTime = new Date(lockedUntil).toLocaleTimeString("es-ES", { hour: "2-digit", minute: "2-digit" });
+    const content = `
+      <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600;">
+        Cuenta bloqueada temporalmente
+      </h1>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        Hola <strong style="color: ${BRAND_GOLD};">${username}</strong>,
+      </p>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        Ha habido varios intentos fallidos de iniciar sesión en tu cuenta, así que la hemos bloqueado hasta las ${unlockTime}.
+      </p>
+      
+      <p style="text-align: center; margin: 32px 0;">
+        ${getButton("Desbloquear mi cuenta", unlockUrl)}
+      </p>
+      
+      ${getInfoBox(`
+        <p style="margin: 0; color: #d1d5db; font-size: 14px;">
+          <strong style="color: ${BRAND_GOLD};">¿No has sido tú?</strong> Alguien podría estar intentando adivinar tu contraseña.
+          Te recomendamos cambiarla después de desbloquear la cuenta.
+        </p>
+      `)}
+    `;
+    await this.sendEmail(to, subject, getEmailTemplate(content, false));
+  }
+
+  async sendAccountDeletionScheduledEmail(to: string, username: string, profileUrl: string, scheduledFor: string): Promise<void> {
+    const subject = `Tu cuenta de ${BRAND_NAME} se eliminará pronto`;
+    const deletionDate = new Date(scheduledFor).toLocaleDateString("es-ES", { day: "numeric", month: "long", year: "numeric" });
+    const content = `
+      <h1 style="color: white; font-size: 28px; margin: 0 0 20px 0; font-weight: 600;">
+        Eliminación de cuenta programada
+      </h1>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        Hola <strong style="color: ${BRAND_GOLD};">${username}</strong>,
+      </p>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        Hemos recibido tu solicitud para eliminar tu cuenta. Se eliminará el ${deletionDate}:
+        a partir de ese día no podrás acceder a tu biblioteca, tu progreso ni tus listas.
+      </p>
+      <p style="font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+        Hasta entonces puedes cancelarla desde tu perfil.
+      </p>
+      
+      <p style="text-align: center; margin: 32px 0;">
+        ${getButton("Ir a mi perfil", profileUrl)}
+      </p>
+      
+      ${getInfoBox(`
+        <p style="margin: 0; color: #d1d5db; font-size: 14px;">
+          Por obligación legal conservaremos tus facturas, sin el resto de tus datos personales.
+        </p>
+      `)}
+    `;
+    await this.sendEmail(to, subject, getEmailTemplate(content, false));
+  }
 }
 
 export class MockEmailService implements EmailService {
@@ -523,12 +741,37 @@ export class MockEmailService implements EmailService {
   async sendPurchaseConfirmation(to: string, username: string, audiobookTitle: string, invoiceNumber: string): Promise<void> {
     console.log(`[MOCK EMAIL] Purchase confirmation to ${to} (${username}): "${audiobookTitle}" - Invoice: ${invoiceNumber}`);
   }
+
+  async sendRefundEmail(to: string, username: string, audiobookTitle: string, amountCents: number, currency: string, creditNote: Invoice | null): Promise<void> {
+    console.log(`[MOCK EMAIL] Refund to ${to} (${username}): "${audiobookTitle}" ${amountCents} ${currency} - Credit note: ${creditNote?.invoiceNumber || "none"}`);
+  }
+
+  async sendGiftEmail(to: string, senderName: string, audiobookTitle: string, message: string | null, redeemUrl: string): Promise<void> {
+    console.log(`[MOCK EMAIL] Gift to ${to} from ${senderName}: "${audiobookTitle}" - Redeem URL: ${redeemUrl}`);
+  }
+
+  async sendContentInvitationEmail(to: string, inviterName: string, contentTitle: string, acceptUrl: string, expiresAt: string | null): Promise<void> {
+    console.log(`[MOCK EMAIL] Invitation to ${to} from ${inviterName}: "${contentTitle}" - Accept URL: ${acceptUrl} - Expires: ${expiresAt || "never"}`);
+  }
+
+  async sendHouseholdInvitationEmail(to: string, ownerName: string, sharesSubscription: boolean, acceptUrl: string, expiresAt: string): Promise<void> {
+    console.log(`[MOCK EMAIL] Household invitation to ${to} from ${ownerName} (subscription: ${sharesSubscription ? "yes" : "no"}) - Accept URL: ${acceptUrl} - Expires: ${expiresAt}`);
+  }
+
+  async sendAccountLockedEmail(to: string, username: string, unlockUrl: string, lockedUntil: string): Promise<void> {
+    console.log(`[MOCK EMAIL] Account locked to ${to} (${username}) until ${lockedUntil} - Unlock URL: ${unlockUrl}`);
+  }
+
+  async sendAccountDeletionScheduledEmail(to: string, username: string, profileUrl: string, scheduledFor: string): Promise<void> {
+    console.log(`[MOCK EMAIL] Account deletion scheduled to ${to} (${username}) for ${scheduledFor} - Profile URL: ${profileUrl}`);
+  }
 }
 
-// Helper function to get the appropriate email service
+// Helper function to get the email service that actually sends, used by the email job
 import type { IStorage } from "./storage";
+import { jobQueue } from "./job-queue";
 
-export async function getEmailService(storage: IStorage): Promise<EmailService> {
+export async function getEmailTransport(storage: IStorage): Promise<EmailService> {
   const config = await storage.getActiveEmailConfig();
   
   if (config && config.isActive) {
@@ -538,3 +781,86 @@ export async function getEmailService(storage: IStorage): Promise<EmailService>
   // Fallback to mock service if no config or inactive
   return new MockEmailService();
 }
+
+export type EmailMethod = keyof EmailService;
+
+export interface EmailJobPayload {
+  method: EmailMethod;
+  args: unknown[];
+}
+
+// Queues every email as an "email" job so a slow or unreachable SMTP server
+// never holds up a request; the worker retries failed sends with backoff
+export class QueuedEmailService implements EmailService {
+  private async enqueue<M extends EmailMethod>(method: M, args: Parameters<EmailService[M]>): Promise<void> {
+    const payload: EmailJobPayload = { method, args };
+    await jobQueue.enqueue("email", payload, { maxAttempts: 5 });
+  }
+
+  sendWelcomeEmail(...args: Parameters<EmailService["sendWelcomeEmail"]>): Promise<void> {
+    return this.enqueue("sendWelcomeEmail", args);
+  }
+
+  sendPasswordResetEmail(...args: Parameters<EmailService["sendPasswordResetEmail"]>): Promise<void> {
+    return this.enqueue("sendPasswordResetEmail", args);
+  }
+
+  sendEmailVerification(...args: Parameters<EmailService["sendEmailVerification"]>): Promise<void> {
+    return this.enqueue("sendEmailVerification", args);
+  }
+
+  sendContentApprovedEmail(...args: Parameters<EmailService["sendContentApprovedEmail"]>): Promise<void> {
+    return this.enqueue("sendContentApprovedEmail", args);
+  }
+
+  sendContentRejectedEmail(...args: Parameters<EmailService["sendContentRejectedEmail"]>): Promise<void> {
+    return this.enqueue("sendContentRejectedEmail", args);
+  }
+
+  sendSubscriptionNotification(...args: Parameters<EmailService["sendSubscriptionNotification"]>): Promise<void> {
+    return this.enqueue("sendSubscriptionNotification", args);
+  }
+
+  sendNewEpisodeNotification(...args: Parameters<EmailService["sendNewEpisodeNotification"]>): Promise<void> {
+    return this.enqueue("sendNewEpisodeNotification", args);
+  }
+
+  sendInvoiceEmail(...args: Parameters<EmailService["sendInvoiceEmail"]>): Promise<void> {
+    return this.enqueue("sendInvoiceEmail", args);
+  }
+
+  sendPurchaseConfirmation(...args: Parameters<EmailService["sendPurchaseConfirmation"]>): Promise<void> {
+    return this.enqueue("sendPurchaseConfirmation", args);
+  }
+
+  sendRefundEmail(...args: Parameters<EmailService["sendRefundEmail"]>): Promise<void> {
+    return this.enqueue("sendRefundEmail", args);
+  }
+
+  sendGiftEmail(...args: Parameters<EmailService["sendGiftEmail"]>): Promise<void> {
+    return this.enqueue("sendGiftEmail", args);
+  }
+
+  sendContentInvitationEmail(...args: Parameters<EmailService["sendContentInvitationEmail"]>): Promise<void> {
+    return this.enqueue("sendContentInvitationEmail", args);
+  }
+
+  sendHouseholdInvitationEmail(...args: Parameters<EmailService["sendHouseholdInvitationEmail"]>): Promise<void> {
+    return this.enqueue("sendHouseholdInvitationEmail", args);
+  }
+
+  sendAccountLockedEmail(...args: Parameters<EmailService["sendAccountLockedEmail"]>): Promise<void> {
+    return this.enqueue("sendAccountLockedEmail", args);
+  }
+
+  sendAccountDeletionScheduledEmail(...args: Parameters<EmailService["sendAccountDeletionScheduledEmail"]>): Promise<void> {
+    return this.enqueue("sendAccountDeletionScheduledEmail", args);
+  }
+}
+
+const queuedEmailService = new QueuedEmailService();
+
+// Helper function to get the email service for request handlers
+export function getEmailService(): EmailService {
+  return queuedEmailService;
+}
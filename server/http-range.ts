@@ -0,0 +1,185 @@
+/**
+ * HTTP Range helpers for media streaming
+ * Implements the parts of RFC 9110 needed to serve seekable audio:
+ * Range parsing, If-Range validation and multipart/byteranges framing.
+ */
+
+import crypto from "crypto";
+import type { Request } from "express";
+import type { MediaAsset } from "@shared/schema";
+
+// Inclusive byte range, as sent in Content-Range
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export type RangeParseResult =
+  | { type: "none" }
+  | { type: "unsatisfiable" }
+  | { type: "ranges"; ranges: ByteRange[] };
+
+// Upper bound on ranges per request so a client can't make us open hundreds of streams
+const MAX_RANGES = 16;
+
+/**
+ * Parse a Range header against a resource of the given size
+ * @param header Raw Range header value
+ * @param size Total size of the resource in bytes
+ * @returns "none" when the header should be ignored, "unsatisfiable" for a 416, or the ranges to serve
+ */
+export function parseRangeHeader(header: string | undefined, size: number): RangeParseResult {
+  if (!header) {
+    return { type: "none" };
+  }
+
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) {
+    // Unknown range unit - serve the full representation
+    return { type: "none" };
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const rawSpec of match[1].split(",")) {
+    const spec = rawSpec.trim();
+    if (!spec) continue;
+
+    const specMatch = /^(\d*)-(\d*)$/.exec(spec);
+    if (!specMatch || (specMatch[1] === "" && specMatch[2] === "")) {
+      // Syntactically invalid ranges make the whole header invalid
+      return { type: "none" };
+    }
+
+    let start: number;
+    let end: number;
+
+    if (specMatch[1] === "") {
+      // Suffix range: last N bytes
+      const suffixLength = parseInt(specMatch[2], 10);
+      if (suffixLength === 0) continue;
+      start = Math.max(size - suffixLength, 0);
+      end = size - 1;
+    } else {
+      start = parseInt(specMatch[1], 10);
+      end = specMatch[2] === "" ? size - 1 : Math.min(parseInt(specMatch[2], 10), size - 1);
+      if (specMatch[2] !== "" && parseInt(specMatch[2], 10) < start) {
+        return { type: "none" };
+      }
+    }
+
+    if (start >= size || start > end) continue;
+    ranges.push({ start, end });
+  }
+
+  if (ranges.length === 0) {
+    return { type: "unsatisfiable" };
+  }
+
+  if (ranges.length > MAX_RANGES) {
+    return { type: "none" };
+  }
+
+  return { type: "ranges", ranges: coalesceRanges(ranges) };
+}
+
+/**
+ * Merge overlapping or adjacent ranges, keeping ascending order
+ */
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [sorted[0]];
+
+  for (const range of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Build the ETag for a media asset
+ * Uses the stored content checksum as a strong validator; assets without a checksum
+ * fall back to a weak validator derived from id, size and creation time.
+ */
+export function getAssetEtag(asset: MediaAsset): string {
+  if (asset.checksum) {
+    return `"${asset.checksum}"`;
+  }
+  const createdAt = new Date(asset.createdAt).getTime();
+  return `W/"${asset.id}-${asset.sizeBytes}-${createdAt}"`;
+}
+
+/**
+ * Check whether an If-None-Match header matches the given ETag (weak comparison)
+ */
+export function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === "*") return true;
+
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, "");
+  const target = normalize(etag);
+  return ifNoneMatch.split(",").some(tag => normalize(tag) === target);
+}
+
+/**
+ * Evaluate If-Range: the Range header is only honoured when the validator still matches
+ * @param req Express request object
+ * @param etag Current ETag of the asset
+ * @param lastModified Current Last-Modified date of the asset
+ */
+export function isRangeFresh(req: Request, etag: string, lastModified: Date): boolean {
+  const ifRange = req.get("if-range");
+  if (!ifRange) return true;
+
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    // If-Range requires strong comparison - weak validators never match
+    return !etag.startsWith("W/") && !value.startsWith("W/") && value === etag;
+  }
+
+  const date = Date.parse(value);
+  if (isNaN(date)) return false;
+  // HTTP dates have second precision
+  return Math.floor(lastModified.getTime() / 1000) === Math.floor(date / 1000);
+}
+
+/**
+ * Format a Content-Range header value
+ */
+export function formatContentRange(range: ByteRange | null, size: number): string {
+  if (!range) {
+    return `bytes */${size}`;
+  }
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
+
+/**
+ * Precompute multipart/byteranges framing so Content-Length can be sent up front
+ * @returns Boundary plus the header block to write before each part and the closing delimiter
+ */
+export function buildMultipartFraming(ranges: ByteRange[], size: number, mimeType: string): {
+  boundary: string;
+  partHeaders: string[];
+  trailer: string;
+  contentLength: number;
+} {
+  const boundary = `audivia-${crypto.randomBytes(12).toString("hex")}`;
+  const partHeaders = ranges.map((range, index) =>
+    `${index === 0 ? "" : "\r\n"}--${boundary}\r\n` +
+    `Content-Type: ${mimeType}\r\n` +
+    `Content-Range: ${formatContentRange(range, size)}\r\n\r\n`
+  );
+  const trailer = `\r\n--${boundary}--\r\n`;
+
+  const contentLength =
+    partHeaders.reduce((sum, header) => sum + Buffer.byteLength(header), 0) +
+    ranges.reduce((sum, range) => sum + (range.end - range.start + 1), 0) +
+    Buffer.byteLength(trailer);
+
+  return { boundary, partHeaders, trailer, contentLength };
+}
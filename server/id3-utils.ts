@@ -101,3 +101,76 @@ export async function readMP3Metadata(filePath: string): Promise<NodeID3.Tags |
     return null;
   }
 }
+
+export interface ChapterMarker {
+  title: string;
+  startTimeMs: number;
+  endTimeMs: number;
+}
+
+/**
+ * ID3 tag for a whole audiobook in one MP3: book metadata, cover and a CHAP
+ * frame per chapter listed in an ordered CTOC, which is what audiobook players
+ * read to show chapters.
+ */
+export function createAudiobookTag(
+  metadata: Omit<AudiobookMetadata, 'trackNumber' | 'totalTracks' | 'coverArtPath'>,
+  chapters: ChapterMarker[],
+  coverBuffer?: Buffer
+): Buffer {
+  const chapterIds = chapters.map((_, i) => `chp${i + 1}`);
+  const tags: NodeID3.Tags = {
+    title: metadata.title,
+    artist: metadata.author,
+    album: metadata.album,
+    year: metadata.year ? String(metadata.year) : String(new Date().getFullYear()),
+    genre: metadata.genre || 'Audiobook',
+    composer: metadata.narrator || undefined,
+    chapter: chapters.map((chapter, i) => ({
+      elementID: chapterIds[i],
+      startTimeMs: chapter.startTimeMs,
+      endTimeMs: chapter.endTimeMs,
+      tags: { title: chapter.title },
+    })),
+    tableOfContents: [{
+      elementID: 'toc',
+      isOrdered: true,
+      elements: chapterIds,
+      tags: { title: metadata.title },
+    }],
+  };
+
+  if (coverBuffer) {
+    tags.image = {
+      mime: coverBuffer[0] === 0x89 ? 'image/png' : 'image/jpeg',
+      type: {
+        id: 3,
+        name: 'front cover',
+      },
+      description: 'Cover',
+      imageBuffer: coverBuffer,
+    };
+  }
+
+  return NodeID3.create(tags);
+}
+
+// Full size of the ID3v2 tag at the start of an MP3, from its 10-byte header (0 if there is none)
+export function getID3TagSize(header: Buffer): number {
+  if (header.length < 10 || header.toString('latin1', 0, 3) !== 'ID3') {
+    return 0;
+  }
+  // Syncsafe integer: 7 bits per byte
+  const size = (header[6] << 21) | (header[7] << 14) | (header[8] << 7) | header[9];
+  const hasFooter = (header[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+// Rebuild a tag with a comment identifying who the copy was made for
+export function watermarkID3Tag(tag: Buffer, watermark: string): Buffer {
+  const updated = NodeID3.update({
+    comment: { language: 'spa', text: watermark },
+    userDefinedText: [{ description: 'LICENSED_TO', value: watermark }],
+  }, tag);
+  return updated as Buffer;
+}
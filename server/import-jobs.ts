@@ -0,0 +1,761 @@
+/**
+ * Import jobs
+ * ZIP, YouTube and RSS imports run as background jobs: they download and copy
+ * large files and used to hold the request open for up to half an hour. The
+ * routes validate the request and enqueue; these handlers do the work and
+ * report progress on the job.
+ */
+
+import os from "os";
+import path from "path";
+import * as fs from "fs";
+import { z } from "zod";
+import { storage } from "./storage";
+import { StorageService } from "./storage-service";
+import {
+  getPlaylistMetadata,
+  getPlaylistVideos,
+  downloadAudioFromVideo,
+  downloadSubtitlesFromVideo,
+  downloadThumbnail,
+  uploadAudioToStorage,
+  uploadImageToStorage,
+  cleanupTempFiles
+} from "./youtube-import";
+import type { JobContext } from "./job-queue";
+import { parseTranscript } from "./transcripts";
+import { insertPodcastSchema, insertEpisodeSchema, type youtubeImportSchema } from "@shared/schema";
+
+export interface ZipImportJobPayload {
+  userId: string;
+  // The upload multer left in the temp directory; deleted when the job finishes
+  zipFile: { path: string; originalname: string; size: number };
+}
+
+export interface YoutubeImportJobPayload {
+  userId: string;
+  request: z.infer<typeof youtubeImportSchema>;
+}
+
+export interface RssImportJobPayload {
+  userId: string;
+  rssUrl: string;
+}
+
+/**
+ * Import an audiobook from an uploaded ZIP file
+ * Chapters come from metadata.json when the ZIP has one, otherwise from the
+ * ID3 tags of the MP3 files.
+ */
+export async function runZipImportJob({ userId, zipFile }: ZipImportJobPayload, context: JobContext) {
+  if (!fs.existsSync(zipFile.path)) {
+    throw new Error("El archivo ZIP ya no existe, vuelve a subirlo");
+  }
+
+  let extractDir: string | null = null;
+  const fsPromises = await import('fs/promises');
+
+  try {
+    await context.reportProgress(0, "Extrayendo ZIP");
+    const { execFile } = await import('child_process');
+    const { promisify } = await import('util');
+    const execFileAsync = promisify(execFile);
+
+    extractDir = path.join(os.tmpdir(), `import-${Date.now()}`);
+    await fsPromises.mkdir(extractDir, { recursive: true });
+
+    // Extract ZIP using system unzip command (much more robust for large files)
+    console.log(`[ZIP Import] Extracting ${zipFile.originalname} (${(zipFile.size / 1024 / 1024).toFixed(1)} MB) to ${extractDir}`);
+    try {
+      await execFileAsync('unzip', ['-o', '-q', zipFile.path, '-d', extractDir], {
+        timeout: 600000,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+    } catch (unzipError: any) {
+      if (unzipError.code === 'ENOENT') {
+        console.log('[ZIP Import] System unzip not found, falling back to Node.js unzipper');
+        const unzipper = await import('unzipper');
+        await new Promise<void>((resolve, reject) => {
+          fs.createReadStream(zipFile.path)
+            .pipe(unzipper.Extract({ path: extractDir! }))
+            .on('close', resolve)
+            .on('error', reject);
+        });
+      } else {
+        throw new Error(`Error al extraer ZIP: ${unzipError.message || unzipError}`);
+      }
+    }
+
+    // Security: validate extracted files - remove symlinks and files outside extractDir
+    const realExtractDir = await fsPromises.realpath(extractDir);
+    const validateExtractedFiles = async (dir: string) => {
+      const entries = await fsPromises.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isSymbolicLink()) {
+          console.warn(`Symlink removed: ${fullPath}`);
+          await fsPromises.unlink(fullPath);
+        } else if (entry.isDirectory()) {
+          const realPath = await fsPromises.realpath(fullPath);
+          if (!realPath.startsWith(realExtractDir)) {
+            console.warn(`Directory outside extractDir removed: ${fullPath}`);
+            await fsPromises.rm(fullPath, { recursive: true, force: true });
+          } else {
+            await validateExtractedFiles(fullPath);
+          }
+        } else {
+          const realPath = await fsPromises.realpath(fullPath);
+          if (!realPath.startsWith(realExtractDir)) {
+            console.warn(`File outside extractDir removed: ${fullPath}`);
+            await fsPromises.unlink(fullPath);
+          }
+        }
+      }
+    };
+    await validateExtractedFiles(extractDir);
+    console.log('[ZIP Import] Extraction complete, files validated');
+
+    // Recursively find all files in extracted directory (handles nested folders)
+    const findAllFiles = async (dir: string): Promise<string[]> => {
+      const entries = await fsPromises.readdir(dir, { withFileTypes: true });
+      const files: string[] = [];
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.name.startsWith('.') || entry.name === '__MACOSX') continue;
+        if (entry.isDirectory()) {
+          files.push(...await findAllFiles(fullPath));
+        } else {
+          // Additional safety: verify file is within extractDir
+          const realFile = await fsPromises.realpath(fullPath);
+          if (realFile.startsWith(realExtractDir)) {
+            files.push(realFile);
+          }
+        }
+      }
+      return files;
+    };
+
+    const allFiles = await findAllFiles(extractDir);
+    await context.reportProgress(10, "Leyendo metadatos");
+
+    // Look for metadata.json
+    const metadataFile = allFiles.find(f => path.basename(f).toLowerCase() === 'metadata.json');
+    let metadata: any = null;
+    let autoDetectedFromMP3 = false;
+
+    if (metadataFile) {
+      try {
+        const metadataContent = await fsPromises.readFile(metadataFile, 'utf-8');
+        metadata = JSON.parse(metadataContent);
+        // Strip any _fullPath from user-supplied metadata (security: prevent path traversal)
+        if (metadata?.chapters && Array.isArray(metadata.chapters)) {
+          metadata.chapters.forEach((ch: any) => { delete ch._fullPath; });
+        }
+      } catch (err) {
+        console.warn("Failed to parse metadata.json:", err);
+      }
+    }
+
+    if (!metadata) {
+      console.log("No metadata.json found, attempting to read metadata from MP3 files...");
+
+      const mp3Files = allFiles
+        .filter(f => f.toLowerCase().endsWith('.mp3'))
+        .sort((a, b) => path.basename(a).localeCompare(path.basename(b)));
+
+      if (mp3Files.length === 0) {
+        throw new Error("No se encontraron archivos MP3: el archivo ZIP debe contener archivos MP3 o un archivo metadata.json");
+      }
+
+      const mm = await import('music-metadata');
+      const firstMp3Metadata = await mm.parseFile(mp3Files[0]);
+
+      const albumTitle = firstMp3Metadata.common.album || "Audiolibro sin titulo";
+      const author = firstMp3Metadata.common.artist || "Autor desconocido";
+      const narrator = firstMp3Metadata.common.composer || null;
+      const genre = firstMp3Metadata.common.genre?.[0] || "Audiobook";
+
+      const chaptersFromMP3: any[] = [];
+
+      for (const mp3FullPath of mp3Files) {
+        const mp3FileName = path.basename(mp3FullPath);
+        try {
+          const mp3Meta = await mm.parseFile(mp3FullPath);
+          const trackNo = mp3Meta.common.track?.no || chaptersFromMP3.length + 1;
+
+          chaptersFromMP3.push({
+            title: mp3Meta.common.title || mp3FileName.replace(/\.(mp3|MP3)$/, ''),
+            chapterNumber: trackNo,
+            description: null,
+            audioFile: mp3FileName,
+            _fullPath: mp3FullPath,
+            duration: Math.round(mp3Meta.format.duration || 0),
+            isSample: false,
+          });
+        } catch (mp3Err) {
+          console.warn(`Could not read metadata from ${mp3FileName}:`, mp3Err);
+          chaptersFromMP3.push({
+            title: mp3FileName.replace(/\.(mp3|MP3)$/, ''),
+            chapterNumber: chaptersFromMP3.length + 1,
+            audioFile: mp3FileName,
+            _fullPath: mp3FullPath,
+            duration: 0,
+            isSample: false,
+          });
+        }
+      }
+
+      chaptersFromMP3.sort((a, b) => a.chapterNumber - b.chapterNumber);
+      chaptersFromMP3.forEach((ch, idx) => { ch.chapterNumber = idx + 1; });
+
+      metadata = {
+        title: albumTitle,
+        author: author,
+        narrator: narrator,
+        description: "",
+        category: genre === "Audiobook" ? "Fiction" : genre,
+        language: "es",
+        isFree: true,
+        priceCents: 0,
+        currency: "EUR",
+        chapters: chaptersFromMP3,
+      };
+
+      autoDetectedFromMP3 = true;
+      console.log(`Auto-detected audiobook: "${albumTitle}" by ${author} with ${chaptersFromMP3.length} chapters`);
+    }
+
+    // Validate metadata structure with Zod
+    const zipMetadataSchema = z.object({
+      title: z.string().min(1, "Titulo es requerido"),
+      author: z.string().min(1, "Autor es requerido"),
+      narrator: z.string().optional().nullable(),
+      description: z.string().optional().nullable(),
+      category: z.string().default("Fiction"),
+      language: z.string().default("es"),
+      isFree: z.boolean().default(true),
+      priceCents: z.number().int().min(0).default(0),
+      currency: z.string().default("EUR"),
+      chapters: z.array(z.object({
+        title: z.string().optional(),
+        chapterNumber: z.number().int().min(1).optional(),
+        description: z.string().optional().nullable(),
+        audioFile: z.string().optional(),
+        _fullPath: z.string().optional(),
+        duration: z.number().int().min(0).default(0),
+        isSample: z.boolean().default(false),
+      })).default([]),
+    });
+
+    let validatedMetadata;
+    try {
+      validatedMetadata = zipMetadataSchema.parse(metadata);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        throw new Error(`Metadatos invalidos: ${validationError.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+      }
+      throw validationError;
+    }
+
+    // Get storage service for uploads (local storage organized by audiobook title)
+    const storageService = StorageService.createLocal(validatedMetadata.title);
+
+    // Upload cover art if exists (covers are small, buffer is fine)
+    let coverArtUrl: string | null = null;
+    const coverFileNames = ['cover.jpg', 'cover.png', 'cover.jpeg', 'portada.jpg', 'portada.png'];
+
+    const coverFile = allFiles.find(f => coverFileNames.includes(path.basename(f).toLowerCase()));
+    if (coverFile) {
+      try {
+        const coverName = path.basename(coverFile);
+        const mimeType = coverName.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg';
+        const uploadResult = await storageService.saveCoverFromPath(coverFile, coverName, mimeType, userId);
+        coverArtUrl = uploadResult.publicUrl;
+      } catch (err) {
+        console.warn("Could not upload cover art:", err);
+      }
+    }
+
+    // Create the audiobook
+    const audiobook = await storage.createAudiobook({
+      title: validatedMetadata.title,
+      author: validatedMetadata.author,
+      narrator: validatedMetadata.narrator || "",
+      description: validatedMetadata.description ?? "",
+      coverArtUrl: coverArtUrl,
+      category: validatedMetadata.category,
+      language: validatedMetadata.language,
+      priceCents: validatedMetadata.priceCents,
+      currency: validatedMetadata.currency,
+      isFree: validatedMetadata.isFree,
+      publisherId: userId,
+    });
+
+    // Process chapters from metadata - use file copy instead of loading into memory
+    const chapters = validatedMetadata.chapters;
+    const createdChapters: any[] = [];
+    let totalDuration = 0;
+
+    for (let i = 0; i < chapters.length; i++) {
+      const chapterMeta = chapters[i];
+      const chapterNumber = chapterMeta.chapterNumber || (i + 1);
+      await context.reportProgress(15 + (i / chapters.length) * 85, `Capitulo ${i + 1} de ${chapters.length}`);
+
+      let audioUrl: string | null = null;
+      let duration = chapterMeta.duration || 0;
+
+      if (chapterMeta.audioFile) {
+        // Find the audio file - only use paths verified to be within extractDir (from allFiles)
+        let audioPath: string | null = null;
+
+        // If _fullPath was set by auto-detection, verify it's in our allFiles list
+        if (chapterMeta._fullPath && allFiles.includes(chapterMeta._fullPath)) {
+          audioPath = chapterMeta._fullPath;
+        }
+        // Otherwise search by filename in validated allFiles
+        if (!audioPath) {
+          audioPath = allFiles.find(f => path.basename(f) === path.basename(chapterMeta.audioFile!)) || null;
+        }
+
+        if (audioPath) {
+          try {
+            await fsPromises.access(audioPath);
+            const ext = path.extname(chapterMeta.audioFile!).toLowerCase();
+            const mimeType = ext === '.mp3' ? 'audio/mpeg' : ext === '.m4a' ? 'audio/mp4' : 'audio/mpeg';
+
+            // Use file copy instead of loading entire file into memory
+            const uploadResult = await storageService.saveAudioFromPath(audioPath, chapterMeta.audioFile!, mimeType, userId);
+            audioUrl = uploadResult.publicUrl;
+
+            // Get duration from file metadata (only reads headers, not entire file)
+            if (duration === 0) {
+              try {
+                const mm = await import('music-metadata');
+                const audioMetadata = await mm.parseFile(audioPath);
+                duration = Math.round(audioMetadata.format.duration || 0);
+              } catch {
+                // Couldn't get duration
+              }
+            }
+
+            console.log(`Imported chapter ${chapterNumber}: ${chapterMeta.title || chapterMeta.audioFile} (${duration}s)`);
+          } catch (err) {
+            console.warn(`Audio file not found: ${chapterMeta.audioFile}`, err);
+          }
+        } else {
+          console.warn(`Audio file not found in ZIP: ${chapterMeta.audioFile}`);
+        }
+      }
+
+      totalDuration += duration;
+
+      const chapter = await storage.createChapter({
+        title: chapterMeta.title || `Capitulo ${chapterNumber}`,
+        chapterNumber,
+        description: chapterMeta.description || null,
+        audioUrl,
+        duration,
+        isSample: chapterMeta.isSample || false,
+        audiobookId: audiobook.id,
+      });
+
+      createdChapters.push(chapter);
+    }
+
+    // Update audiobook with total duration
+    if (totalDuration > 0) {
+      await storage.updateAudiobook(audiobook.id, { totalDuration });
+    }
+
+    return {
+      audiobook: { ...audiobook, totalDuration },
+      chaptersCreated: createdChapters.length,
+      autoDetectedFromMP3,
+      message: `Audiolibro "${audiobook.title}" importado con ${createdChapters.length} capitulos`
+    };
+  } finally {
+    if (extractDir) {
+      await fsPromises.rm(extractDir, { recursive: true, force: true }).catch(() => {});
+    }
+    await fsPromises.unlink(zipFile.path).catch(() => {});
+  }
+}
+
+// Import a podcast from a YouTube playlist, downloading the audio of every selected video
+export async function runYoutubeImportJob({ userId, request: validatedData }: YoutubeImportJobPayload, context: JobContext) {
+  await context.reportProgress(0, "Leyendo playlist");
+
+  // Get playlist metadata
+  let playlistMetadata;
+  try {
+    playlistMetadata = await getPlaylistMetadata(validatedData.playlistUrl);
+  } catch (error: any) {
+    if (error.message?.includes('YOUTUBE_API_KEY')) {
+      throw new Error("YouTube API no configurada: el administrador debe configurar la API de YouTube para usar esta función");
+    }
+    throw error;
+  }
+
+  // Check if podcast with same title already exists for this user
+  const existingPodcasts = await storage.getPodcastsByOwner(userId);
+  const podcastTitle = validatedData.podcastTitle || playlistMetadata.title;
+  const duplicate = existingPodcasts.find(p => 
+    p.title.toLowerCase().trim() === podcastTitle.toLowerCase().trim()
+  );
+  
+  if (duplicate) {
+    throw new Error("Ya tienes un podcast con este nombre");
+  }
+
+  // Get playlist videos
+  let videos = await getPlaylistVideos(playlistMetadata.playlistId, validatedData.maxVideos);
+
+  // Filter by selected video IDs if provided
+  if (validatedData.selectedVideoIds && validatedData.selectedVideoIds.length > 0) {
+    videos = videos.filter(v => validatedData.selectedVideoIds!.includes(v.videoId));
+  }
+
+  if (videos.length === 0) {
+    throw new Error("No hay videos seleccionados para importar");
+  }
+
+  // Create temporary directory for downloads
+  const tempDir = path.join(os.tmpdir(), `youtube-import-${Date.now()}`);
+  const tempFiles: string[] = [];
+
+  try {
+    // Download and upload podcast cover art if available
+    let coverArtAssetId: string | null = null;
+    if (playlistMetadata.thumbnailUrl) {
+      try {
+        const thumbnailFilename = `playlist-${playlistMetadata.playlistId}.jpg`;
+        const thumbnailPath = await downloadThumbnail(
+          playlistMetadata.thumbnailUrl, 
+          tempDir, 
+          thumbnailFilename
+        );
+        tempFiles.push(thumbnailPath);
+        
+        coverArtAssetId = await uploadImageToStorage(thumbnailPath, thumbnailFilename, userId);
+      } catch (thumbError) {
+        console.error("Error downloading playlist thumbnail:", thumbError);
+        // Continue without cover art
+      }
+    }
+
+    // Create the podcast
+    const podcast = await storage.createPodcast({
+      title: podcastTitle,
+      description: validatedData.podcastDescription || playlistMetadata.description || `Podcast importado desde YouTube: ${playlistMetadata.channelTitle}`,
+      coverArtUrl: null,
+      coverArtAssetId,
+      category: "YouTube Import",
+      language: "es",
+      ownerId: userId,
+      status: "PENDING_APPROVAL" as const,
+      visibility: validatedData.visibility as any,
+      approvedAt: null,
+      approvedBy: null,
+    });
+
+    // Import episodes
+    let importedCount = 0;
+    let skippedCount = 0;
+    const errors: string[] = [];
+
+    for (let index = 0; index < videos.length; index++) {
+      const video = videos[index];
+      await context.reportProgress(5 + (index / videos.length) * 95, `Video ${index + 1} de ${videos.length}: ${video.title}`);
+      try {
+        // Add delay between downloads to avoid rate limiting (except first video)
+        if (importedCount > 0) {
+          await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay
+        }
+
+        // Download audio from video
+        const { audioPath, filename } = await downloadAudioFromVideo(video.videoId, tempDir);
+        tempFiles.push(audioPath);
+
+        // Upload audio to storage
+        const audioAssetId = await uploadAudioToStorage(
+          audioPath,
+          filename,
+          userId,
+          undefined, // episodeId - will be filled after creation
+          podcast.id
+        );
+
+        // Download episode cover art if different from podcast
+        let episodeCoverArtAssetId: string | null = null;
+        if (video.thumbnailUrl && video.thumbnailUrl !== playlistMetadata.thumbnailUrl) {
+          try {
+            const episodeThumbFilename = `video-${video.videoId}.jpg`;
+            const episodeThumbPath = await downloadThumbnail(
+              video.thumbnailUrl,
+              tempDir,
+              episodeThumbFilename
+            );
+            tempFiles.push(episodeThumbPath);
+            
+            episodeCoverArtAssetId = await uploadImageToStorage(
+              episodeThumbPath,
+              episodeThumbFilename,
+              userId,
+              podcast.id
+            );
+          } catch (thumbError) {
+            console.error(`Error downloading thumbnail for video ${video.videoId}:`, thumbError);
+            // Continue without episode-specific cover art
+          }
+        }
+
+        // Create episode
+        const episode = await storage.createEpisode({
+          podcastId: podcast.id,
+          title: video.title,
+          notes: video.description || video.title,
+          audioUrl: undefined,
+          audioAssetId,
+          coverArtUrl: undefined,
+          coverArtAssetId: episodeCoverArtAssetId,
+          duration: video.duration,
+          status: "PENDING_APPROVAL" as const,
+          visibility: validatedData.visibility as any,
+          publishedAt: video.publishedAt?.toISOString(),
+          approvedAt: null,
+          approvedBy: null,
+        });
+
+        // Subtitles become the chapter transcript; the import goes on without them
+        try {
+          const subtitles = await downloadSubtitlesFromVideo(video.videoId, tempDir);
+          if (subtitles) {
+            tempFiles.push(subtitles.subtitlePath);
+            const content = await fs.promises.readFile(subtitles.subtitlePath, 'utf8');
+            await storage.saveChapterTranscript({
+              chapterId: episode.id,
+              language: subtitles.language,
+              format: "VTT",
+              source: "YOUTUBE",
+              createdBy: userId,
+            }, parseTranscript(content, "VTT"));
+          }
+        } catch (subtitleError) {
+          console.error(`Error importing subtitles for video ${video.videoId}:`, subtitleError);
+        }
+
+        importedCount++;
+      } catch (episodeError: any) {
+        console.error(`Error importing video "${video.title}":`, episodeError);
+        errors.push(`Video "${video.title}": ${episodeError.message}`);
+        skippedCount++;
+      }
+    }
+
+    // Cleanup temp files
+    await cleanupTempFiles(tempFiles);
+
+    return {
+      podcast,
+      imported: importedCount,
+      skipped: skippedCount,
+      totalRequested: validatedData.maxVideos,
+      totalAvailable: videos.length,
+      errors: errors.length > 0 ? errors.slice(0, 5) : undefined,
+      message: `Podcast creado exitosamente con ${importedCount} episodio${importedCount !== 1 ? 's' : ''}`,
+    };
+  } catch (importError) {
+    // Cleanup temp files on error
+    await cleanupTempFiles(tempFiles);
+    throw importError;
+  }
+}
+
+// Import a podcast and up to 50 of its episodes from an RSS feed
+export async function runRssImportJob({ userId, rssUrl }: RssImportJobPayload, context: JobContext) {
+  // Define iTunes interfaces for type-safe RSS parsing
+  interface ItunesFeed {
+    itunesImage?: { href: string };
+    itunesCategory?: string | { $: { text: string } };
+  }
+  
+  interface ItunesItem {
+    itunesDuration?: string | number;
+    itunesImage?: { href: string };
+  }
+  
+  // Import rss-parser dynamically with typed generics
+  const Parser = (await import("rss-parser")).default;
+  const parser = new Parser<ItunesFeed, ItunesItem>({
+    customFields: {
+      feed: [['itunes:image', 'itunesImage'], ['itunes:category', 'itunesCategory']],
+      item: [['itunes:duration', 'itunesDuration'], ['itunes:image', 'itunesImage']],
+    },
+  });
+
+  // Fetch and parse the RSS feed
+  await context.reportProgress(5, "Leyendo feed RSS");
+  let feed;
+  try {
+    feed = await parser.parseURL(rssUrl);
+  } catch (error: any) {
+    // Handle RSS parsing errors with more detail
+    if (error.message?.includes('404')) {
+      throw new Error("RSS feed not found at the provided URL");
+    }
+    if (error.message?.includes('ENOTFOUND') || error.message?.includes('ECONNREFUSED')) {
+      throw new Error("Cannot reach the RSS feed URL - please check the address");
+    }
+    if (error.message?.includes('Invalid XML')) {
+      throw new Error("The URL does not contain valid RSS feed data");
+    }
+    throw error;
+  }
+
+  if (!feed || !feed.title) {
+    throw new Error("Feed RSS inválido - falta el título");
+  }
+
+  // Check if podcast with same title already exists for this user
+  const existingPodcasts = await storage.getPodcastsByOwner(userId);
+  const duplicate = existingPodcasts.find(p => 
+    p.title.toLowerCase().trim() === (feed.title || "").toLowerCase().trim()
+  );
+  
+  if (duplicate) {
+    throw new Error("Ya tienes un podcast con este nombre");
+  }
+
+  // Extract cover art with proper iTunes handling
+  let coverArtUrl: string | null = null;
+  if (feed.image?.url) {
+    coverArtUrl = feed.image.url;
+  } else if (feed.itunesImage?.href) {
+    coverArtUrl = feed.itunesImage.href;
+  } else if (feed.itunes?.image) {
+    coverArtUrl = feed.itunes.image;
+  }
+
+  // Extract category
+  let category = "General";
+  if (feed.itunesCategory) {
+    const cat = feed.itunesCategory;
+    category = typeof cat === 'string' ? cat : (cat.$ && cat.$.text) || "General";
+  } else if (feed.itunes?.categories && feed.itunes.categories.length > 0) {
+    category = feed.itunes.categories[0];
+  }
+
+  // Validate podcast data with schema
+  const podcastValidation = insertPodcastSchema.safeParse({
+    title: feed.title.trim(),
+    description: (feed.description || feed.title).trim(),
+    coverArtUrl: coverArtUrl || "",
+    category,
+    language: feed.language || "es",
+  });
+
+  if (!podcastValidation.success) {
+    throw new Error(`Datos inválidos en el feed RSS: ${podcastValidation.error.errors[0].message}`);
+  }
+
+  // Create the podcast
+  const podcastData = {
+    ...podcastValidation.data,
+    coverArtUrl: podcastValidation.data.coverArtUrl || null,
+    coverArtAssetId: null,
+    ownerId: userId,
+    status: "PENDING_APPROVAL" as const,
+    approvedAt: null,
+    approvedBy: null,
+  };
+
+  const podcast = await storage.createPodcast(podcastData);
+
+  // Import episodes from feed
+  let importedCount = 0;
+  let skippedCount = 0;
+  const errors: string[] = [];
+
+  if (feed.items && feed.items.length > 0) {
+    // Limit to first 50 episodes to avoid overwhelming the system
+    const itemsToImport = feed.items.slice(0, 50);
+
+    for (let index = 0; index < itemsToImport.length; index++) {
+      const item = itemsToImport[index];
+      await context.reportProgress(10 + (index / itemsToImport.length) * 90, `Episodio ${index + 1} de ${itemsToImport.length}`);
+      try {
+        // Extract audio URL from enclosure
+        const audioUrl = item.enclosure?.url || item.link;
+        
+        if (!audioUrl || !item.title) {
+          skippedCount++;
+          continue;
+        }
+
+        // Parse duration with improved handling
+        let durationSeconds: number | undefined = undefined;
+        const itunesDuration = item.itunesDuration;
+        
+        if (itunesDuration) {
+          const duration = itunesDuration;
+          if (typeof duration === 'string') {
+            if (duration.includes(':')) {
+              // Format: HH:MM:SS or MM:SS
+              const parts = duration.split(':').map(Number);
+              if (parts.length === 3) {
+                durationSeconds = parts[0] * 3600 + parts[1] * 60 + parts[2];
+              } else if (parts.length === 2) {
+                durationSeconds = parts[0] * 60 + parts[1];
+              }
+            } else {
+              // Format: seconds as string
+              durationSeconds = parseInt(duration) || undefined;
+            }
+          } else if (typeof duration === 'number') {
+            durationSeconds = duration;
+          }
+        }
+
+        // Extract episode cover art
+        let episodeCoverArt: string | null = null;
+        if (item.itunesImage?.href) {
+          episodeCoverArt = item.itunesImage.href;
+        } else if (item.enclosure?.type?.startsWith('image/')) {
+          episodeCoverArt = item.enclosure.url;
+        }
+
+        // Validate episode data
+        const episodeValidation = insertEpisodeSchema.safeParse({
+          podcastId: podcast.id,
+          title: item.title.trim(),
+          notes: (item.contentSnippet || item.content || item.title).trim(),
+          audioUrl,
+          coverArtUrl: episodeCoverArt || "",
+          duration: durationSeconds,
+        });
+
+        if (!episodeValidation.success) {
+          errors.push(`Episode "${item.title}": ${episodeValidation.error.errors[0].message}`);
+          skippedCount++;
+          continue;
+        }
+
+        await storage.createEpisode(episodeValidation.data);
+        importedCount++;
+      } catch (episodeError: any) {
+        console.error(`Error importing episode "${item.title}":`, episodeError);
+        errors.push(`Episode "${item.title}": ${episodeError.message}`);
+        skippedCount++;
+      }
+    }
+  }
+
+  return {
+    podcast,
+    imported: importedCount,
+    skipped: skippedCount,
+    totalInFeed: feed.items?.length || 0,
+    errors: errors.length > 0 ? errors.slice(0, 5) : undefined,
+    message: `Podcast imported successfully with ${importedCount} episode${importedCount !== 1 ? 's' : ''}`,
+  };
+}
@@ -7,6 +7,11 @@ import { setupVite, serveStatic, log } from "./vite";
 import { pool as pgPool } from "./db";
 import { initializeAdmin } from "./init-admin";
 import { storage } from "./storage";
+import { jobQueue } from "./job-queue";
+import { subscriptionService } from "./subscription-service";
+import { royaltyService, getPreviousPeriod } from "./royalty-service";
+import { registerJobHandlers } from "./job-handlers";
+import { personalDataService } from "./personal-data-service";
 
 const app = express();
 
@@ -43,6 +48,20 @@ app.use(
 declare module "express-session" {
   interface SessionData {
     userId: string;
+    // Password accepted, waiting for the two-factor code
+    pendingTwoFactor?: {
+      userId: string;
+      expiresAt: number;
+      attempts: number;
+    };
+    // Last time a two-factor code was entered, for step-up on sensitive admin routes
+    twoFactorVerifiedAt?: number;
+    // Browser and IP at sign-in, shown in the user's list of devices
+    device?: {
+      userAgent: string;
+      ipAddress: string | null;
+      signedInAt: number;
+    };
     pendingDiscount?: {
       discountCodeId: string;
       discountCode: string;
@@ -118,6 +137,104 @@ app.use((req, res, next) => {
   setInterval(cleanupPendingPurchases, 60 * 60 * 1000);
   // Ejecutar limpieza al inicio después de 10 segundos
   setTimeout(cleanupPendingPurchases, 10000);
+
+  // Marcar como caducadas las invitaciones a contenido que han pasado su fecha de expiración
+  const expireContentInvitations = async () => {
+    try {
+      const expired = await storage.expireContentInvitations();
+      if (expired > 0) {
+        log(`Invitaciones caducadas: ${expired}`);
+      }
+    } catch (error) {
+      log(`Error caducando invitaciones: ${error}`);
+    }
+  };
+
+  setInterval(expireContentInvitations, 60 * 60 * 1000);
+  setTimeout(expireContentInvitations, 10000);
+
+  // Finalizar las suscripciones impagadas cuyo periodo de gracia ha terminado
+  const expireLapsedSubscriptions = async () => {
+    try {
+      const expired = await subscriptionService.expireLapsedSubscriptions();
+      if (expired > 0) {
+        log(`Suscripciones finalizadas por impago: ${expired}`);
+      }
+    } catch (error) {
+      log(`Error finalizando suscripciones impagadas: ${error}`);
+    }
+  };
+
+  setInterval(expireLapsedSubscriptions, 60 * 60 * 1000);
+  setTimeout(expireLapsedSubscriptions, 10000);
+
+  // Cerrar el mes anterior: reparto del fondo de suscripciones y liquidaciones a creadores
+  const closePayoutPeriod = async () => {
+    try {
+      const statements = await royaltyService.closePeriod(getPreviousPeriod());
+      if (statements.length > 0) {
+        log(`Liquidaciones a creadores generadas: ${statements.length}`);
+      }
+    } catch (error) {
+      log(`Error generando liquidaciones a creadores: ${error}`);
+    }
+  };
+
+  setInterval(closePayoutPeriod, 60 * 60 * 1000);
+  setTimeout(closePayoutPeriod, 10000);
+
+  // Borrar los contadores de intentos cuya ventana y bloqueo han terminado
+  const cleanupRateLimits = async () => {
+    try {
+      const deleted = await storage.deleteExpiredRateLimits();
+      if (deleted > 0) {
+        log(`Contadores de intentos eliminados: ${deleted}`);
+      }
+    } catch (error) {
+      log(`Error limpiando contadores de intentos: ${error}`);
+    }
+  };
+
+  setInterval(cleanupRateLimits, 60 * 60 * 1000);
+  setTimeout(cleanupRateLimits, 10000);
+
+  // Anonimizar las cuentas cuyo plazo de desistimiento ha terminado y borrar las exportaciones de datos caducadas
+  const processPersonalData = async () => {
+    try {
+      const deleted = await personalDataService.processDueDeletions();
+      if (deleted > 0) {
+        log(`Cuentas eliminadas: ${deleted}`);
+      }
+      const expired = await personalDataService.deleteExpiredExports();
+      if (expired > 0) {
+        log(`Exportaciones de datos caducadas eliminadas: ${expired}`);
+      }
+    } catch (error) {
+      log(`Error procesando eliminaciones de cuentas: ${error}`);
+    }
+  };
+
+  setInterval(processPersonalData, 60 * 60 * 1000);
+  setTimeout(processPersonalData, 10000);
+
+  // Borrar los emails enviados o fallidos hace mas de una semana, que guardan direcciones y enlaces
+  const cleanupEmailJobs = async () => {
+    try {
+      const deleted = await storage.deleteFinishedBackgroundJobs("email", new Date(Date.now() - 7 * 24 * 60 * 60 * 1000));
+      if (deleted > 0) {
+        log(`Tareas de email antiguas eliminadas: ${deleted}`);
+      }
+    } catch (error) {
+      log(`Error limpiando tareas de email: ${error}`);
+    }
+  };
+
+  setInterval(cleanupEmailJobs, 60 * 60 * 1000);
+  setTimeout(cleanupEmailJobs, 10000);
+
+  // Worker de tareas en segundo plano: importaciones, PDFs de facturas y emails
+  registerJobHandlers();
+  jobQueue.start();
   
   const server = await registerRoutes(app);
 
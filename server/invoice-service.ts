@@ -2,6 +2,9 @@ import PDFDocument from "pdfkit";
 import * as fs from "fs";
 import * as path from "path";
 import { storage } from "./storage";
+import { taxService, splitGrossAmount, formatTaxRate, type TaxResolution } from "./tax-service";
+import { jobQueue } from "./job-queue";
+import { getEmailService } from "./email";
 import type { Invoice, InvoiceLineItem, BillingProfile, Audiobook, SubscriptionPlan } from "@shared/schema";
 
 const INVOICES_DIR = path.join(process.cwd(), "invoices");
@@ -24,30 +27,43 @@ const SELLER_INFO: SellerInfo = {
   email: "billing@audivia.com"
 };
 
+// Email sent once the PDF is ready, so the file can be attached
+export type InvoiceEmail =
+  | { kind: "invoice"; to: string; username: string }
+  | { kind: "refund"; to: string; username: string; audiobookTitle: string; amountCents: number; currency: string };
+
+export interface InvoicePdfJobPayload {
+  invoiceId: string;
+  email?: InvoiceEmail;
+}
+
+interface SubscriptionInvoiceOptions {
+  // What PayPal actually charged, when it isn't the plan price (prorated upgrades)
+  amountCents?: number;
+  description?: string;
+  email?: InvoiceEmail;
+}
+
+interface PurchaseInvoiceOptions {
+  // Discount already deducted from pricePaidCents, shown as its own line
+  discount?: { code: string; amountCents: number };
+  email?: InvoiceEmail;
+}
+
 export class InvoiceService {
   async createPurchaseInvoice(
     userId: string,
     purchaseId: string,
     audiobook: Audiobook,
     pricePaidCents: number,
-    currency: string
+    currency: string,
+    options: PurchaseInvoiceOptions = {}
   ): Promise<Invoice> {
     const billingProfile = await storage.getBillingProfile(userId);
-    const invoiceNumber = await storage.getNextInvoiceNumber();
-    
-    const taxRate = 21;
-    const subtotalCents = Math.round(pricePaidCents / (1 + taxRate / 100));
-    const taxCents = pricePaidCents - subtotalCents;
-    
-    const billingSnapshot = billingProfile ? JSON.stringify({
-      legalName: billingProfile.legalName,
-      companyName: billingProfile.companyName,
-      taxId: billingProfile.taxId,
-      address: `${billingProfile.addressLine1}${billingProfile.addressLine2 ? ', ' + billingProfile.addressLine2 : ''}, ${billingProfile.postalCode} ${billingProfile.city}, ${billingProfile.country}`
-    }) : null;
+    const tax = await taxService.resolveTax(billingProfile);
+    const { subtotalCents, taxCents } = splitGrossAmount(pricePaidCents, tax.rateBasisPoints);
 
     const invoice = await storage.createInvoice({
-      invoiceNumber,
       userId,
       purchaseId,
       subscriptionId: null,
@@ -57,27 +73,23 @@ export class InvoiceService {
       dueDate: new Date(),
       subtotalCents,
       taxCents,
-      taxRate,
       totalCents: pricePaidCents,
       currency,
-      billingSnapshot,
+      billingSnapshot: this.buildBillingSnapshot(billingProfile),
       sellerInfo: JSON.stringify(SELLER_INFO),
       paymentMethod: "paypal",
       pdfPath: null,
-      pdfStatus: "PENDING"
+      pdfStatus: "PENDING",
+      ...this.getInvoiceTaxFields(tax)
     });
 
-    await storage.createInvoiceLineItem({
-      invoiceId: invoice.id,
-      description: `Audiolibro: ${audiobook.title}`,
-      quantity: 1,
-      unitPriceCents: subtotalCents,
-      taxRate,
-      totalCents: pricePaidCents
-    });
+    const discountCents = options.discount?.amountCents || 0;
+    await this.addLineItem(invoice.id, `Audiolibro: ${audiobook.title}`, pricePaidCents + discountCents, tax.rateBasisPoints);
+    if (options.discount && discountCents > 0) {
+      await this.addLineItem(invoice.id, `Descuento (${options.discount.code})`, -discountCents, tax.rateBasisPoints);
+    }
 
-    const pdfPath = await this.generatePDF(invoice.id);
-    await storage.updateInvoicePdfPath(invoice.id, pdfPath);
+    await this.queuePDF(invoice.id, options.email);
 
     return invoice;
   }
@@ -86,24 +98,15 @@ export class InvoiceService {
     userId: string,
     subscriptionId: string,
     plan: SubscriptionPlan,
-    currency: string
+    currency: string,
+    options: SubscriptionInvoiceOptions = {}
   ): Promise<Invoice> {
     const billingProfile = await storage.getBillingProfile(userId);
-    const invoiceNumber = await storage.getNextInvoiceNumber();
-    
-    const taxRate = 21;
-    const subtotalCents = Math.round(plan.priceCents / (1 + taxRate / 100));
-    const taxCents = plan.priceCents - subtotalCents;
-    
-    const billingSnapshot = billingProfile ? JSON.stringify({
-      legalName: billingProfile.legalName,
-      companyName: billingProfile.companyName,
-      taxId: billingProfile.taxId,
-      address: `${billingProfile.addressLine1}${billingProfile.addressLine2 ? ', ' + billingProfile.addressLine2 : ''}, ${billingProfile.postalCode} ${billingProfile.city}, ${billingProfile.country}`
-    }) : null;
+    const tax = await taxService.resolveTax(billingProfile);
+    const amountCents = options.amountCents ?? plan.priceCents;
+    const { subtotalCents, taxCents } = splitGrossAmount(amountCents, tax.rateBasisPoints);
 
     const invoice = await storage.createInvoice({
-      invoiceNumber,
       userId,
       purchaseId: null,
       subscriptionId,
@@ -113,32 +116,148 @@ export class InvoiceService {
       dueDate: new Date(),
       subtotalCents,
       taxCents,
-      taxRate,
-      totalCents: plan.priceCents,
+      totalCents: amountCents,
       currency,
-      billingSnapshot,
+      billingSnapshot: this.buildBillingSnapshot(billingProfile),
       sellerInfo: JSON.stringify(SELLER_INFO),
       paymentMethod: "paypal",
       pdfPath: null,
-      pdfStatus: "PENDING"
+      pdfStatus: "PENDING",
+      ...this.getInvoiceTaxFields(tax)
     });
 
     const intervalText = plan.intervalMonths === 1 ? "mensual" : `${plan.intervalMonths} meses`;
-    await storage.createInvoiceLineItem({
-      invoiceId: invoice.id,
-      description: `Suscripcion ${plan.name} (${intervalText})`,
-      quantity: 1,
-      unitPriceCents: subtotalCents,
-      taxRate,
-      totalCents: plan.priceCents
-    });
+    const description = options.description || `Suscripcion ${plan.name} (${intervalText})`;
+    await this.addLineItem(invoice.id, description, amountCents, tax.rateBasisPoints);
 
-    const pdfPath = await this.generatePDF(invoice.id);
-    await storage.updateInvoicePdfPath(invoice.id, pdfPath);
+    await this.queuePDF(invoice.id, options.email);
 
     return invoice;
   }
 
+  /**
+   * Issue a credit note (factura rectificativa) for a refund of a purchase invoice
+   * Billing details and tax are copied from the original invoice, not resolved again,
+   * so the correction mirrors what was charged. A full refund negates every original
+   * line; a partial refund adds a single negative line.
+   */
+  async createCreditNote(
+    original: Invoice,
+    refundCents: number,
+    reason: string,
+    options: { email?: InvoiceEmail } = {}
+  ): Promise<Invoice> {
+    const rateBasisPoints = original.taxRateBasisPoints ?? original.taxRate * 100;
+    const isFullRefund = refundCents === original.totalCents;
+    const { subtotalCents, taxCents } = isFullRefund
+      ? { subtotalCents: original.subtotalCents, taxCents: original.taxCents }
+      : splitGrossAmount(refundCents, rateBasisPoints);
+
+    const creditNote = await storage.createInvoice({
+      userId: original.userId,
+      purchaseId: original.purchaseId,
+      subscriptionId: original.subscriptionId,
+      type: "CREDIT_NOTE",
+      status: "ISSUED",
+      issueDate: new Date(),
+      dueDate: new Date(),
+      subtotalCents: -subtotalCents,
+      taxCents: -taxCents,
+      totalCents: -refundCents,
+      currency: original.currency,
+      billingSnapshot: original.billingSnapshot,
+      sellerInfo: original.sellerInfo,
+      paymentMethod: original.paymentMethod,
+      pdfPath: null,
+      pdfStatus: "PENDING",
+      taxRate: original.taxRate,
+      taxRateBasisPoints: original.taxRateBasisPoints,
+      taxRuleId: original.taxRuleId,
+      taxName: original.taxName,
+      taxLegalMention: original.taxLegalMention,
+      correctedInvoiceId: original.id,
+      correctionReason: reason,
+    });
+
+    if (isFullRefund) {
+      const originalLines = await storage.getInvoiceLineItems(original.id);
+      for (const line of originalLines) {
+        await storage.createInvoiceLineItem({
+          invoiceId: creditNote.id,
+          description: line.description,
+          quantity: -line.quantity,
+          unitPriceCents: line.unitPriceCents,
+          taxRate: line.taxRate,
+          taxRateBasisPoints: line.taxRateBasisPoints,
+          totalCents: -line.totalCents,
+        });
+      }
+    } else {
+      await this.addLineItem(creditNote.id, `Devolucion parcial (factura ${original.invoiceNumber})`, -refundCents, rateBasisPoints);
+    }
+
+    await this.queuePDF(creditNote.id, options.email);
+
+    return creditNote;
+  }
+
+  /**
+   * Generate the invoice PDF in the background
+   * The email, if any, goes out once the PDF exists so it can be attached.
+   */
+  async queuePDF(invoiceId: string, email?: InvoiceEmail): Promise<void> {
+    const payload: InvoicePdfJobPayload = { invoiceId, email };
+    await jobQueue.enqueue("invoice-pdf", payload);
+  }
+
+  // Handler for "invoice-pdf" jobs
+  async runPDFJob({ invoiceId, email }: InvoicePdfJobPayload): Promise<{ pdfPath: string }> {
+    const pdfPath = await this.generatePDF(invoiceId);
+    const invoice = await storage.updateInvoicePdfPath(invoiceId, pdfPath);
+
+    // Queued as its own job so a failed send doesn't regenerate the PDF
+    if (email?.kind === "invoice") {
+      await getEmailService().sendInvoiceEmail(email.to, email.username, invoice, pdfPath);
+    } else if (email?.kind === "refund") {
+      await getEmailService().sendRefundEmail(email.to, email.username, email.audiobookTitle, email.amountCents, email.currency, invoice);
+    }
+
+    return { pdfPath };
+  }
+
+  private buildBillingSnapshot(billingProfile: BillingProfile | undefined): string | null {
+    return billingProfile ? JSON.stringify({
+      legalName: billingProfile.legalName,
+      companyName: billingProfile.companyName,
+      taxId: billingProfile.taxId,
+      address: `${billingProfile.addressLine1}${billingProfile.addressLine2 ? ', ' + billingProfile.addressLine2 : ''}, ${billingProfile.postalCode} ${billingProfile.city}, ${billingProfile.country}`
+    }) : null;
+  }
+
+  // Snapshot of the applied rule so later rule edits don't change issued invoices
+  private getInvoiceTaxFields(tax: TaxResolution) {
+    return {
+      taxRate: Math.round(tax.rateBasisPoints / 100),
+      taxRateBasisPoints: tax.rateBasisPoints,
+      taxRuleId: tax.ruleId,
+      taxName: tax.taxName,
+      taxLegalMention: tax.legalMention,
+    };
+  }
+
+  private async addLineItem(invoiceId: string, description: string, grossCents: number, rateBasisPoints: number): Promise<InvoiceLineItem> {
+    const { subtotalCents } = splitGrossAmount(grossCents, rateBasisPoints);
+    return storage.createInvoiceLineItem({
+      invoiceId,
+      description,
+      quantity: 1,
+      unitPriceCents: subtotalCents,
+      taxRate: Math.round(rateBasisPoints / 100),
+      taxRateBasisPoints: rateBasisPoints,
+      totalCents: grossCents
+    });
+  }
+
   async generatePDF(invoiceId: string): Promise<string> {
     const invoice = await storage.getInvoice(invoiceId);
     if (!invoice) {
@@ -146,6 +265,8 @@ export class InvoiceService {
     }
 
     const lineItems = await storage.getInvoiceLineItems(invoiceId);
+    const isCreditNote = invoice.type === "CREDIT_NOTE";
+    const correctedInvoice = invoice.correctedInvoiceId ? await storage.getInvoice(invoice.correctedInvoiceId) : undefined;
     const billingInfo = invoice.billingSnapshot ? JSON.parse(invoice.billingSnapshot) : null;
     const sellerInfo = invoice.sellerInfo ? JSON.parse(invoice.sellerInfo) : SELLER_INFO;
 
@@ -161,8 +282,12 @@ export class InvoiceService {
       doc.fontSize(24).fillColor('#7C3AED').text('AUDIVIA', 50, 50);
       doc.fontSize(10).fillColor('#666').text('Premium Audiobooks', 50, 80);
 
-      doc.fontSize(20).fillColor('#333').text('FACTURA', 400, 50, { align: 'right' });
-      doc.fontSize(10).fillColor('#666').text(invoice.invoiceNumber, 400, 75, { align: 'right' });
+      if (isCreditNote) {
+        doc.fontSize(16).fillColor('#333').text('FACTURA RECTIFICATIVA', 250, 54, { width: 300, align: 'right' });
+      } else {
+        doc.fontSize(20).fillColor('#333').text('FACTURA', 400, 50, { align: 'right' });
+      }
+      doc.fontSize(10).fillColor('#666').text(invoice.invoiceNumber, 250, 75, { width: 300, align: 'right' });
 
       doc.moveTo(50, 110).lineTo(550, 110).stroke('#ddd');
 
@@ -195,6 +320,14 @@ export class InvoiceService {
       doc.fillColor('#333').text('Metodo de pago:', 300, 230);
       doc.fillColor('#666').text('PayPal', 400, 230);
 
+      if (isCreditNote && correctedInvoice) {
+        doc.fillColor('#333').text('Factura rectificada:', 50, 250);
+        doc.fillColor('#666').text(
+          `${correctedInvoice.invoiceNumber} (${new Date(correctedInvoice.issueDate).toLocaleDateString('es-ES')})`,
+          150, 250
+        );
+      }
+
       const tableTop = 280;
       doc.fillColor('#7C3AED').rect(50, tableTop, 500, 25).fill();
       doc.fillColor('#fff').fontSize(10);
@@ -220,14 +353,28 @@ export class InvoiceService {
       doc.fillColor('#666').text('Subtotal:', 380, yPos);
       doc.text(this.formatCurrency(invoice.subtotalCents, invoice.currency), 480, yPos);
       
+      // Invoices issued before tax rules existed only have the whole-percent rate
+      const taxName = invoice.taxName || 'IVA';
+      const taxRate = invoice.taxRateBasisPoints !== null ? formatTaxRate(invoice.taxRateBasisPoints) : String(invoice.taxRate);
+
       yPos += 20;
-      doc.text(`IVA (${invoice.taxRate}%):`, 380, yPos);
+      doc.text(`${taxName} (${taxRate}%):`, 380, yPos);
       doc.text(this.formatCurrency(invoice.taxCents, invoice.currency), 480, yPos);
       
       yPos += 25;
       doc.fillColor('#7C3AED').fontSize(12).text('TOTAL:', 380, yPos);
       doc.text(this.formatCurrency(invoice.totalCents, invoice.currency), 480, yPos);
 
+      if (invoice.taxLegalMention) {
+        yPos += 35;
+        doc.fontSize(9).fillColor('#333').text(invoice.taxLegalMention, 50, yPos, { width: 500 });
+      }
+
+      if (isCreditNote && invoice.correctionReason) {
+        yPos += 25;
+        doc.fontSize(9).fillColor('#333').text(`Motivo de la rectificacion: ${invoice.correctionReason}`, 50, yPos, { width: 500 });
+      }
+
       doc.fontSize(8).fillColor('#999');
       doc.text('Gracias por su compra. Esta factura ha sido generada automaticamente.', 50, 700, { align: 'center' });
       doc.text('Para cualquier consulta, contacte con billing@audivia.com', 50, 715, { align: 'center' });
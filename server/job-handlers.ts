@@ -0,0 +1,37 @@
+/**
+ * Background job handlers
+ * Maps every job type to the code that runs it. Registered once at startup,
+ * before the worker starts polling.
+ */
+
+import { jobQueue } from "./job-queue";
+import { storage } from "./storage";
+import { getEmailTransport, type EmailJobPayload } from "./email";
+import { invoiceService, type InvoicePdfJobPayload } from "./invoice-service";
+import { royaltyService, type PayoutStatementPdfJobPayload } from "./royalty-service";
+import { runZipImportJob, runYoutubeImportJob, runRssImportJob } from "./import-jobs";
+import { runAudioTranscodeJob } from "./audio-processing";
+import { runAudiobookExportJob } from "./audiobook-export";
+import { runBookmarkClipJob } from "./audio-clips";
+import { personalDataService, type DataExportJobPayload } from "./personal-data-service";
+
+export function registerJobHandlers(): void {
+  jobQueue.register("import-zip", runZipImportJob);
+  jobQueue.register("import-youtube", runYoutubeImportJob);
+  jobQueue.register("import-rss", runRssImportJob);
+  jobQueue.register("audio-transcode", runAudioTranscodeJob);
+  jobQueue.register("audiobook-export", runAudiobookExportJob);
+  jobQueue.register("bookmark-clip", runBookmarkClipJob);
+  jobQueue.register("data-export", (payload: DataExportJobPayload, context) => personalDataService.runExportJob(payload, context));
+
+  jobQueue.register("invoice-pdf", (payload: InvoicePdfJobPayload) => invoiceService.runPDFJob(payload));
+  jobQueue.register("payout-statement-pdf", (payload: PayoutStatementPdfJobPayload) => royaltyService.runPDFJob(payload));
+
+  // The transport is looked up per job so email config changes apply without a restart.
+  // Emails have their own lane so they aren't held up by imports, and their
+  // payload (addresses, reset links) is cleared once sent.
+  jobQueue.register("email", async ({ method, args }: EmailJobPayload) => {
+    const transport = await getEmailTransport(storage);
+    await (transport[method] as (...args: unknown[]) => Promise<void>)(...args);
+  }, { lane: "email", scrubPayloadOnSuccess: true });
+}
@@ -0,0 +1,255 @@
+/**
+ * Background job queue
+ * Jobs are rows in the background_jobs table and run in the server process by
+ * a polling worker. Failed jobs are retried with exponential backoff until
+ * they run out of attempts. The worker refreshes a running job's lock on a
+ * heartbeat, so jobs left RUNNING by a crashed worker are put back in the
+ * queue once their lock goes stale, however long a healthy one runs. Job types can be given their
+ * own lane, a worker loop that runs alongside the default one, so short jobs
+ * such as emails don't wait behind a long import.
+ */
+
+import { storage } from "./storage";
+import type { BackgroundJob, BackgroundJobResponse, JobType } from "@shared/schema";
+
+export interface JobContext {
+  job: BackgroundJob;
+  // Also refreshes the job lock
+  reportProgress(percent: number, message?: string): Promise<void>;
+}
+
+export type JobHandler<TPayload = any, TResult = unknown> = (payload: TPayload, context: JobContext) => Promise<TResult>;
+
+export interface RegisterOptions {
+  // Jobs of types sharing a lane run one at a time, in parallel with other lanes
+  lane?: string;
+  // Clears the payload once the job completes, for payloads holding personal data
+  scrubPayloadOnSuccess?: boolean;
+}
+
+export interface EnqueueOptions {
+  createdBy?: string | null;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const DEFAULT_LANE = "default";
+// A RUNNING job whose lock is older than this is considered abandoned
+const STALE_LOCK_MS = 30 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// 30s, 1m, 2m, 4m... capped at one hour
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+// Parses the stored result and drops the payload before a job leaves the server
+export function serializeJob(job: BackgroundJob): BackgroundJobResponse {
+  const { payload, result, ...rest } = job;
+  let parsedResult: unknown = null;
+  if (result) {
+    try {
+      parsedResult = JSON.parse(result);
+    } catch {
+      parsedResult = result;
+    }
+  }
+  return { ...rest, result: parsedResult };
+}
+
+interface LaneState {
+  running: boolean;
+  tickRequested: boolean;
+}
+
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private options = new Map<string, RegisterOptions>();
+  private lanes = new Map<string, LaneState>([[DEFAULT_LANE, { running: false, tickRequested: false }]]);
+  private timer: NodeJS.Timeout | null = null;
+
+  register<TPayload, TResult>(type: JobType, handler: JobHandler<TPayload, TResult>, options: RegisterOptions = {}): void {
+    this.handlers.set(type, handler as JobHandler);
+    this.options.set(type, options);
+    const lane = options.lane ?? DEFAULT_LANE;
+    if (!this.lanes.has(lane)) {
+      this.lanes.set(lane, { running: false, tickRequested: false });
+    }
+  }
+
+  async enqueue(type: JobType, payload: unknown, options: EnqueueOptions = {}): Promise<BackgroundJob> {
+    const job = await storage.createBackgroundJob({
+      type,
+      payload: JSON.stringify(payload ?? {}),
+      createdBy: options.createdBy ?? null,
+      maxAttempts: options.maxAttempts ?? 3,
+      runAt: options.runAt ?? new Date(),
+    });
+
+    // Don't wait for the next poll when the worker is idle
+    if (this.timer) {
+      this.tick();
+    }
+    return job;
+  }
+
+  // Puts a failed or cancelled job back in the queue with a fresh set of attempts
+  async retry(id: string): Promise<BackgroundJob> {
+    const job = await storage.getBackgroundJob(id);
+    if (!job) {
+      throw new Error("Job not found");
+    }
+    if (job.status !== "FAILED" && job.status !== "CANCELLED") {
+      throw new Error("Only failed or cancelled jobs can be retried");
+    }
+
+    const requeued = await storage.updateBackgroundJob(id, {
+      status: "QUEUED",
+      attempts: 0,
+      error: null,
+      progress: 0,
+      progressMessage: null,
+      runAt: new Date(),
+      lockedAt: null,
+      startedAt: null,
+      completedAt: null,
+    });
+    if (this.timer) {
+      this.tick();
+    }
+    return requeued;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.poll();
+    console.log(`[JOBS] Worker started (${this.handlers.size} job types, ${this.lanes.size} lanes)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Abandoned jobs are picked up on every poll, not only when the server starts
+  private async poll(): Promise<void> {
+    try {
+      const count = await storage.requeueStaleBackgroundJobs(new Date(Date.now() - STALE_LOCK_MS));
+      if (count > 0) {
+        console.log(`[JOBS] Requeued ${count} abandoned job(s)`);
+      }
+    } catch (error) {
+      console.error("[JOBS] Error requeuing abandoned jobs:", error);
+    }
+    await this.tick();
+  }
+
+  private tick(): Promise<void> {
+    return Promise.all(Array.from(this.lanes.keys()).map(lane => this.tickLane(lane))).then(() => undefined);
+  }
+
+  // The job types a lane claims: its own, or for the default lane everything not in another lane
+  private getLaneFilter(lane: string): { types?: string[]; excludeTypes?: string[] } {
+    const ownTypes: string[] = [];
+    const otherTypes: string[] = [];
+    this.options.forEach((options, type) => {
+      ((options.lane ?? DEFAULT_LANE) === lane ? ownTypes : otherTypes).push(type);
+    });
+    return lane === DEFAULT_LANE ? { excludeTypes: otherTypes } : { types: ownTypes };
+  }
+
+  // One job at a time per lane; a tick arriving mid-run makes the loop check the queue again when it finishes
+  private async tickLane(lane: string): Promise<void> {
+    const state = this.lanes.get(lane)!;
+    if (state.running) {
+      state.tickRequested = true;
+      return;
+    }
+
+    state.running = true;
+    try {
+      const filter = this.getLaneFilter(lane);
+      do {
+        state.tickRequested = false;
+        let job: BackgroundJob | undefined;
+        while ((job = await storage.claimNextBackgroundJob(filter))) {
+          await this.runJob(job);
+        }
+      } while (state.tickRequested);
+    } catch (error) {
+      console.error(`[JOBS] Error polling job queue (${lane} lane):`, error);
+    } finally {
+      state.running = false;
+    }
+  }
+
+  // Keeps the lock fresh while the handler runs, so a long job isn't taken for an abandoned one
+  private async runWithHeartbeat<T>(job: BackgroundJob, run: () => Promise<T>): Promise<T> {
+    const heartbeat = setInterval(() => {
+      storage.refreshBackgroundJobLock(job.id)
+        .catch(error => console.error(`[JOBS] Error refreshing lock of job ${job.id}:`, error));
+    }, HEARTBEAT_INTERVAL_MS);
+    try {
+      return await run();
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async runJob(job: BackgroundJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await storage.updateBackgroundJob(job.id, {
+        status: "FAILED",
+        error: `No handler registered for job type "${job.type}"`,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      return;
+    }
+
+    const context: JobContext = {
+      job,
+      reportProgress: async (percent, message) => {
+        await storage.updateBackgroundJob(job.id, {
+          progress: Math.max(0, Math.min(100, Math.round(percent))),
+          progressMessage: message ?? null,
+          lockedAt: new Date(),
+        });
+      },
+    };
+
+    try {
+      const result = await this.runWithHeartbeat(job, () => handler(JSON.parse(job.payload), context));
+      const { scrubPayloadOnSuccess } = this.options.get(job.type) ?? {};
+      await storage.updateBackgroundJob(job.id, {
+        status: "COMPLETED",
+        progress: 100,
+        // Left untouched when undefined
+        payload: scrubPayloadOnSuccess ? "{}" : undefined,
+        result: result === undefined ? null : JSON.stringify(result),
+        error: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const outOfAttempts = job.attempts >= job.maxAttempts;
+      console.error(`[JOBS] Job ${job.id} (${job.type}) failed on attempt ${job.attempts}/${job.maxAttempts}:`, error);
+
+      await storage.updateBackgroundJob(job.id, outOfAttempts
+        ? { status: "FAILED", error: message, lockedAt: null, completedAt: new Date() }
+        : { status: "QUEUED", error: message, lockedAt: null, runAt: new Date(Date.now() + getRetryDelay(job.attempts)) }
+      );
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
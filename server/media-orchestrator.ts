@@ -1,6 +1,9 @@
+import path from "path";
 import { StorageService, UploadMetadata } from "./storage-service";
 import { storage } from "./storage";
-import { MediaAsset } from "@shared/schema";
+import { MediaAsset, Audiobook, Bookmark } from "@shared/schema";
+import type { ByteRange } from "./http-range";
+import type { MediaUrlSubject } from "./media-signing";
 
 export class MediaOrchestrator {
   private storageService: StorageService | null = null;
@@ -73,18 +76,96 @@ export class MediaOrchestrator {
     }
   }
 
+  // Original upload, kept untouched; listeners get the transcoded copy (see audio-processing.ts)
+  async saveAudioMaster(file: Express.Multer.File, ownerId: string, durationSeconds: number): Promise<MediaAsset> {
+    const storageService = await this.getStorageService();
+    const uploadMetadata = await storageService.saveEpisodeAudio(file, ownerId);
+    return this.persistAudio(storageService, uploadMetadata, "AUDIO_MASTER", { durationSeconds });
+  }
+
+  async saveTranscodedAudio(filePath: string, master: MediaAsset, durationSeconds: number): Promise<MediaAsset> {
+    const storageService = await this.getStorageService();
+    const uploadMetadata = await storageService.saveAudioFromPath(filePath, path.basename(filePath), "audio/mpeg", master.ownerId);
+    return this.persistAudio(storageService, uploadMetadata, "CHAPTER_AUDIO", {
+      audiobookId: master.audiobookId,
+      chapterId: master.chapterId,
+      durationSeconds,
+      sourceAssetId: master.id,
+    });
+  }
+
+  // Single-file download of a whole audiobook (see audiobook-export.ts)
+  async saveAudiobookExport(filePath: string, audiobook: Audiobook, fingerprint: string, durationSeconds: number): Promise<MediaAsset> {
+    const storageService = await this.getStorageService();
+    const uploadMetadata = await storageService.saveAudioFromPath(filePath, path.basename(filePath), "audio/mpeg", audiobook.publisherId);
+    return this.persistAudio(storageService, uploadMetadata, "AUDIOBOOK_EXPORT", {
+      audiobookId: audiobook.id,
+      durationSeconds,
+      sourceFingerprint: fingerprint,
+    });
+  }
+
+  // Excerpt played by a shared bookmark (see audio-clips.ts)
+  async saveBookmarkClip(filePath: string, bookmark: Bookmark, fingerprint: string, durationSeconds: number): Promise<MediaAsset> {
+    const storageService = await this.getStorageService();
+    const uploadMetadata = await storageService.saveAudioFromPath(filePath, path.basename(filePath), "audio/mpeg", bookmark.userId);
+    return this.persistAudio(storageService, uploadMetadata, "BOOKMARK_CLIP", {
+      audiobookId: bookmark.audiobookId,
+      durationSeconds,
+      sourceFingerprint: fingerprint,
+    });
+  }
+
+  private async persistAudio(
+    storageService: StorageService,
+    uploadMetadata: UploadMetadata,
+    type: "AUDIO_MASTER" | "CHAPTER_AUDIO" | "AUDIOBOOK_EXPORT" | "BOOKMARK_CLIP",
+    fields: Partial<Pick<MediaAsset, "audiobookId" | "chapterId" | "durationSeconds" | "sourceAssetId" | "sourceFingerprint">>,
+  ): Promise<MediaAsset> {
+    try {
+      return await storage.createMediaAsset({
+        ownerId: uploadMetadata.ownerId,
+        audiobookId: null,
+        chapterId: null,
+        type,
+        storageProvider: uploadMetadata.storageProvider,
+        storageKey: uploadMetadata.storageKey,
+        publicUrl: uploadMetadata.publicUrl,
+        mimeType: uploadMetadata.mimeType,
+        sizeBytes: uploadMetadata.sizeBytes,
+        checksum: uploadMetadata.checksum,
+        visibility: uploadMetadata.visibility,
+        status: uploadMetadata.status,
+        ...fields,
+      });
+    } catch (dbError) {
+      console.error("Database operation failed, cleaning up uploaded file:", dbError);
+      try {
+        await storageService.deleteAsset(uploadMetadata);
+      } catch (cleanupError) {
+        console.error("Cleanup also failed:", cleanupError);
+      }
+      throw dbError;
+    }
+  }
+
   async getMediaAsset(assetId: string): Promise<MediaAsset | undefined> {
     return await storage.getMediaAsset(assetId);
   }
 
-  async streamMedia(assetId: string): Promise<{ asset: MediaAsset; stream: NodeJS.ReadableStream }> {
+  async getSignedUrl(asset: MediaAsset, subject: MediaUrlSubject, expiresInSeconds?: number): Promise<string> {
+    const storageService = await this.getStorageService();
+    return storageService.getSignedUrl(asset, subject, expiresInSeconds);
+  }
+
+  async streamMedia(assetId: string, range?: ByteRange): Promise<{ asset: MediaAsset; stream: NodeJS.ReadableStream }> {
     const asset = await storage.getMediaAsset(assetId);
     if (!asset) {
       throw new Error("Asset not found");
     }
 
     const storageService = await this.getStorageService();
-    const stream = await storageService.streamAsset(asset);
+    const stream = await storageService.streamAsset(asset, range);
 
     return { asset, stream };
   }
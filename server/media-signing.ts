@@ -0,0 +1,142 @@
+/**
+ * Signed media URLs
+ * Chapter audio under /media is only served with an HMAC signature bound to a
+ * subject (a user, a guest for samples and free books, or a private RSS feed)
+ * and an expiry. URLs are minted by the API after the access check passes.
+ * Feed signatures are keyed with the feed token too, so regenerating the
+ * token invalidates every enclosure handed out with the old one.
+ */
+
+import crypto from "crypto";
+import { storage } from "./storage";
+import { mediaOrchestrator } from "./media-orchestrator";
+import type { Chapter } from "@shared/schema";
+
+// Long enough to get through a chapter with pauses; the players refetch on expiry
+export const MEDIA_URL_TTL_SECONDS = 6 * 60 * 60;
+// Podcast apps keep enclosure URLs around, so feed URLs last until the token changes
+export const FEED_MEDIA_URL_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+export type MediaUrlSubject =
+  | { type: "user"; userId: string }
+  | { type: "guest" }
+  | { type: "feed"; userId: string; feedToken: string };
+
+function getSigningSecret(): string {
+  const secret = process.env.MEDIA_SIGNING_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("MEDIA_SIGNING_SECRET or SESSION_SECRET environment variable is required");
+  }
+  return secret;
+}
+
+function encodeSubject(subject: MediaUrlSubject): string {
+  switch (subject.type) {
+    case "user":
+      return `u:${subject.userId}`;
+    case "feed":
+      return `f:${subject.userId}`;
+    default:
+      return "guest";
+  }
+}
+
+function computeSignature(mediaPath: string, sub: string, expires: number, feedToken?: string): string {
+  const key = feedToken ? `${getSigningSecret()}:${feedToken}` : getSigningSecret();
+  return crypto
+    .createHmac("sha256", key)
+    .update(`${mediaPath}\n${sub}\n${expires}`)
+    .digest("base64url");
+}
+
+function normalizeMediaPath(mediaPath: string): string {
+  try {
+    return decodeURIComponent(mediaPath);
+  } catch {
+    return mediaPath;
+  }
+}
+
+// Audio lives under an "audio" folder on local storage; Drive files are always proxied audio
+export function isProtectedMediaPath(mediaPath: string): boolean {
+  const segments = normalizeMediaPath(mediaPath).split("/").filter(Boolean);
+  return segments[0] === "media" && (segments[1] === "drive" || segments.includes("audio"));
+}
+
+export function signMediaPath(mediaPath: string, subject: MediaUrlSubject, expiresInSeconds: number = MEDIA_URL_TTL_SECONDS): string {
+  const path = normalizeMediaPath(mediaPath);
+  const sub = encodeSubject(subject);
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  const signature = computeSignature(path, sub, expires, subject.type === "feed" ? subject.feedToken : undefined);
+  const params = new URLSearchParams({ sub, exp: String(expires), sig: signature });
+  return `${mediaPath}?${params.toString()}`;
+}
+
+/**
+ * Check the signature on a /media request
+ * Returns the subject the URL was issued to, or null when the signature is
+ * missing, expired, tampered with or made with a feed token that has since
+ * been regenerated or disabled.
+ */
+export async function verifyMediaSignature(mediaPath: string, query: Record<string, unknown>): Promise<MediaUrlSubject | null> {
+  const { sub, exp, sig } = query;
+  if (typeof sub !== "string" || typeof exp !== "string" || typeof sig !== "string") {
+    return null;
+  }
+
+  const expires = parseInt(exp, 10);
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+    return null;
+  }
+
+  let subject: MediaUrlSubject;
+  if (sub === "guest") {
+    subject = { type: "guest" };
+  } else if (sub.startsWith("u:")) {
+    subject = { type: "user", userId: sub.slice(2) };
+  } else if (sub.startsWith("f:")) {
+    const feedToken = await storage.getRssFeedToken(sub.slice(2));
+    if (!feedToken || !feedToken.isActive) {
+      return null;
+    }
+    subject = { type: "feed", userId: feedToken.userId, feedToken: feedToken.token };
+  } else {
+    return null;
+  }
+
+  const expected = computeSignature(normalizeMediaPath(mediaPath), sub, expires, subject.type === "feed" ? subject.feedToken : undefined);
+  const given = Buffer.from(sig);
+  const wanted = Buffer.from(expected);
+  if (given.length !== wanted.length || !crypto.timingSafeEqual(given, wanted)) {
+    return null;
+  }
+  return subject;
+}
+
+/**
+ * Swap a chapter's audio URL for a signed one
+ * Call only once access to the chapter has been checked. External URLs (e.g.
+ * imported from another host) are left as they are.
+ */
+export async function signChapterAudio<T extends Pick<Chapter, "audioUrl" | "audioAssetId">>(
+  chapter: T,
+  subject: MediaUrlSubject,
+  expiresInSeconds: number = MEDIA_URL_TTL_SECONDS,
+): Promise<T> {
+  if (!chapter.audioUrl) {
+    return chapter;
+  }
+
+  if (chapter.audioUrl.startsWith("/media/")) {
+    return { ...chapter, audioUrl: signMediaPath(chapter.audioUrl, subject, expiresInSeconds) };
+  }
+
+  if (chapter.audioAssetId) {
+    const asset = await storage.getMediaAsset(chapter.audioAssetId);
+    if (asset?.storageProvider === "GOOGLE_DRIVE") {
+      return { ...chapter, audioUrl: await mediaOrchestrator.getSignedUrl(asset, subject, expiresInSeconds) };
+    }
+  }
+
+  return chapter;
+}
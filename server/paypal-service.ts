@@ -1,7 +1,8 @@
 import { db } from "./db";
-import { paypalConfig, audiobookPurchases, userSubscriptions, subscriptionPlans, users, audiobooks } from "@shared/schema";
+import { paypalConfig, audiobookPurchases, userSubscriptions, subscriptionPlans, subscriptionEvents, users, audiobooks } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { invoiceService } from "./invoice-service";
+import { royaltyService } from "./royalty-service";
 
 const PAYPAL_API_BASE = {
   sandbox: "https://api-m.sandbox.paypal.com",
@@ -86,7 +87,9 @@ async function paypalRequest(endpoint: string, options: RequestInit = {}) {
     throw new Error(`Error en petición PayPal: ${response.status} - ${error}`);
   }
 
-  return response.json();
+  // Cancel, suspend, activate and capture answer without a body
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
 }
 
 export async function createOrder(audiobookId: string, userId: string, priceCents: number, currency: string) {
@@ -174,6 +177,12 @@ export async function captureOrder(orderId: string) {
       } catch (invoiceError) {
         console.error("Error creating invoice:", invoiceError);
       }
+
+      try {
+        await royaltyService.recordSale(purchase.id);
+      } catch (royaltyError) {
+        console.error("Error recording creator earning:", royaltyError);
+      }
     }
 
     return { success: true, purchase };
@@ -186,6 +195,31 @@ export async function getOrderStatus(orderId: string) {
   return paypalRequest(`/v2/checkout/orders/${orderId}`);
 }
 
+// Cart purchases share one order and capture; older ones never stored the capture ID
+export async function getOrderCaptureId(orderId: string): Promise<string | null> {
+  const order = await getOrderStatus(orderId);
+  return order.purchase_units?.[0]?.payments?.captures?.[0]?.id || null;
+}
+
+export async function refundCapture(captureId: string, amountCents: number, currency: string, noteToPayer?: string) {
+  const refund = await paypalRequest(`/v2/payments/captures/${captureId}/refund`, {
+    method: "POST",
+    body: JSON.stringify({
+      amount: {
+        value: (amountCents / 100).toFixed(2),
+        currency_code: currency,
+      },
+      // PayPal limits the note to 255 characters
+      note_to_payer: noteToPayer?.slice(0, 255),
+    }),
+  });
+
+  return {
+    refundId: refund.id as string,
+    status: refund.status as string,
+  };
+}
+
 export async function createSubscription(planId: string, userId: string) {
   const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, planId)).limit(1);
   
@@ -237,21 +271,33 @@ export async function activateSubscription(paypalSubscriptionId: string, planId:
         .where(eq(users.id, userId));
     }
 
+    let invoiceId: string | null = null;
+    const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, planId)).limit(1);
     try {
-      const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, planId)).limit(1);
       if (plan) {
-        await invoiceService.createSubscriptionInvoice(
+        const invoice = await invoiceService.createSubscriptionInvoice(
           userId,
           userSub.id,
           plan,
           plan.currency
         );
+        invoiceId = invoice.id;
         console.log(`Invoice created for subscription ${userSub.id}`);
       }
     } catch (invoiceError) {
       console.error("Error creating subscription invoice:", invoiceError);
     }
 
+    await db.insert(subscriptionEvents).values({
+      subscriptionId: userSub.id,
+      userId,
+      type: "ACTIVATED",
+      toPlanId: planId,
+      amountCents: plan?.priceCents ?? null,
+      currency: plan?.currency ?? null,
+      invoiceId,
+    });
+
     return { success: true, subscription: userSub };
   }
 
@@ -274,6 +320,79 @@ export async function cancelSubscription(subscriptionId: string, reason?: string
   return { success: true };
 }
 
+/**
+ * Switch a subscription to another PayPal plan
+ * PayPal asks the subscriber to approve the new price; the change only
+ * happens once they do, so the approval link is returned. A setup fee is
+ * charged when the subscriber approves, which is how upgrades pay the
+ * prorated difference.
+ */
+export async function reviseSubscription(
+  subscriptionId: string,
+  paypalPlanId: string,
+  returnUrl: string,
+  cancelUrl: string,
+  setupFee?: { amountCents: number; currency: string }
+) {
+  const revision = await paypalRequest(`/v1/billing/subscriptions/${subscriptionId}/revise`, {
+    method: "POST",
+    body: JSON.stringify({
+      plan_id: paypalPlanId,
+      plan: setupFee
+        ? {
+            payment_preferences: {
+              setup_fee: {
+                currency_code: setupFee.currency,
+                value: (setupFee.amountCents / 100).toFixed(2),
+              },
+              // A failed fee stays as outstanding balance instead of cancelling the subscription
+              setup_fee_failure_action: "CONTINUE",
+            },
+          }
+        : undefined,
+      application_context: {
+        return_url: returnUrl,
+        cancel_url: cancelUrl,
+        brand_name: "Audivia",
+      },
+    }),
+  });
+
+  return {
+    approvalUrl: revision.links?.find((l: any) => l.rel === "approve")?.href as string | undefined,
+  };
+}
+
+export async function suspendSubscription(subscriptionId: string, reason: string) {
+  await paypalRequest(`/v1/billing/subscriptions/${subscriptionId}/suspend`, {
+    method: "POST",
+    body: JSON.stringify({ reason }),
+  });
+}
+
+export async function reactivateSubscription(subscriptionId: string, reason: string) {
+  await paypalRequest(`/v1/billing/subscriptions/${subscriptionId}/activate`, {
+    method: "POST",
+    body: JSON.stringify({ reason }),
+  });
+}
+
+// Completed payment of the given amount on a subscription since a point in time, e.g. an upgrade's setup fee
+export async function findSubscriptionPayment(subscriptionId: string, since: Date, amountCents: number, currency: string) {
+  const params = new URLSearchParams({
+    start_time: since.toISOString(),
+    end_time: new Date().toISOString(),
+  });
+  const result = await paypalRequest(`/v1/billing/subscriptions/${subscriptionId}/transactions?${params}`);
+  const transactions: any[] = result?.transactions || [];
+  return transactions.find((transaction) => {
+    const gross = transaction.amount_with_breakdown?.gross_amount;
+    return transaction.status === "COMPLETED"
+      && gross?.currency_code === currency
+      && Math.round(parseFloat(gross.value) * 100) === amountCents;
+  }) as { id: string; time: string } | undefined;
+}
+
 export async function getSubscriptionStatus(subscriptionId: string) {
   return paypalRequest(`/v1/billing/subscriptions/${subscriptionId}`);
 }
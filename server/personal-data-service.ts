@@ -0,0 +1,245 @@
+/**
+ * GDPR self-service: access to and erasure of a user's personal data
+ * "Download my data" runs as a background job that writes a ZIP with the
+ * account's data as JSON plus the invoice PDFs; the file is kept for a week.
+ * Deleting an account is a request with a cooling-off period, during which the
+ * user can still sign in and change their mind. Once it passes, the hourly
+ * sweep cancels any subscription and anonymizes the account: invoices and
+ * purchases are kept, as the law requires, and everything else is erased.
+ */
+
+import crypto from "crypto";
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { pipeline } from "stream/promises";
+import bcrypt from "bcryptjs";
+import JSZip from "jszip";
+import { storage } from "./storage";
+import { getEmailService } from "./email";
+import { invoiceService } from "./invoice-service";
+import { subscriptionService } from "./subscription-service";
+import { mediaOrchestrator } from "./media-orchestrator";
+import * as paypalService from "./paypal-service";
+import { jobQueue, type JobContext } from "./job-queue";
+import type { AccountDeletionRequest, BackgroundJob, DataExportResult, User } from "@shared/schema";
+
+export interface DataExportJobPayload {
+  userId: string;
+}
+
+export const DELETION_COOLING_OFF_DAYS = 30;
+export const DATA_EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const EXPORTS_DIR = path.join(process.cwd(), "data-exports");
+
+function getExportPath(jobId: string): string {
+  return path.join(EXPORTS_DIR, `${jobId}.zip`);
+}
+
+function toJson(data: unknown): string {
+  return JSON.stringify(data, null, 2);
+}
+
+const README = `Datos de tu cuenta de Audivia
+
+perfil.json                  Datos de la cuenta
+datos-facturacion.json       Perfil de facturacion
+compras.json                 Compras y regalos
+facturas.json                Facturas y sus lineas; los PDF estan en facturas/
+suscripciones.json           Suscripciones
+historial-suscripciones.json Cambios, pagos y cancelaciones de tus suscripciones
+progreso-escucha.json        Progreso de escucha por capitulo
+favoritos.json               Audiolibros favoritos
+listas.json                  Listas de reproduccion y sus capitulos
+rss.json                     Enlaces RSS privados
+resenas.json                 Valoraciones y resenas
+marcadores.json              Marcadores y clips
+hogar.json                   Miembros de tu hogar, o el hogar al que perteneces
+seguridad.json               Historial de seguridad de la cuenta
+`;
+
+export class PersonalDataService {
+  // The latest export of the user, finished or not
+  async getLatestExport(userId: string): Promise<BackgroundJob | undefined> {
+    const [job] = await storage.getBackgroundJobs({ type: "data-export", createdBy: userId, limit: 1 });
+    return job;
+  }
+
+  // Reuses an export that is still being built instead of queuing another one
+  async requestExport(userId: string): Promise<BackgroundJob> {
+    const latest = await this.getLatestExport(userId);
+    if (latest && (latest.status === "QUEUED" || latest.status === "RUNNING")) {
+      return latest;
+    }
+    const payload: DataExportJobPayload = { userId };
+    return await jobQueue.enqueue("data-export", payload, { createdBy: userId, maxAttempts: 2 });
+  }
+
+  // Handler for "data-export" jobs
+  async runExportJob({ userId }: DataExportJobPayload, context: JobContext): Promise<DataExportResult> {
+    const data = await storage.getUserDataExport(userId);
+    const zip = new JSZip();
+    zip.file("LEEME.txt", README);
+    zip.file("perfil.json", toJson(data.profile));
+    zip.file("datos-facturacion.json", toJson(data.billingProfile));
+    zip.file("compras.json", toJson(data.purchases));
+    zip.file("facturas.json", toJson(data.invoices));
+    zip.file("suscripciones.json", toJson(data.subscriptions));
+    zip.file("historial-suscripciones.json", toJson(data.subscriptionEvents));
+    zip.file("progreso-escucha.json", toJson(data.listeningProgress));
+    zip.file("favoritos.json", toJson(data.favorites));
+    zip.file("listas.json", toJson(data.playlists));
+    zip.file("rss.json", toJson(data.rssFeedTokens));
+    zip.file("resenas.json", toJson(data.reviews));
+    zip.file("marcadores.json", toJson(data.bookmarks));
+    zip.file("hogar.json", toJson(data.householdMembers));
+    zip.file("seguridad.json", toJson(data.securityEvents));
+
+    // PDFs that were never generated (or were lost) are built now
+    for (let i = 0; i < data.invoices.length; i++) {
+      const invoice = data.invoices[i];
+      await context.reportProgress(Math.round((i / data.invoices.length) * 80), `Factura ${invoice.invoiceNumber}`);
+      let pdfPath = invoiceService.getInvoicePath(invoice.invoiceNumber);
+      if (!invoiceService.invoiceExists(invoice.invoiceNumber)) {
+        pdfPath = await invoiceService.generatePDF(invoice.id);
+        await storage.updateInvoicePdfPath(invoice.id, pdfPath);
+      }
+      zip.file(`facturas/${invoice.invoiceNumber}.pdf`, await fs.readFile(pdfPath));
+    }
+
+    await context.reportProgress(90, "Comprimiendo");
+    await fs.mkdir(EXPORTS_DIR, { recursive: true });
+    const filePath = getExportPath(context.job.id);
+    await pipeline(
+      zip.generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "DEFLATE" }),
+      createWriteStream(filePath)
+    );
+
+    const { size } = await fs.stat(filePath);
+    return {
+      fileName: `audivia-mis-datos-${new Date().toISOString().split("T")[0]}.zip`,
+      sizeBytes: size,
+      expiresAt: new Date(Date.now() + DATA_EXPORT_TTL_MS).toISOString(),
+    };
+  }
+
+  /**
+   * The ZIP of a finished export of this user
+   * Throws when the job isn't theirs, isn't finished or the file has expired.
+   */
+  async getExportFile(userId: string, jobId: string): Promise<{ filePath: string; result: DataExportResult }> {
+    const job = await storage.getBackgroundJob(jobId);
+    if (!job || job.type !== "data-export" || job.createdBy !== userId) {
+      throw new Error("Export not found");
+    }
+    if (job.status !== "COMPLETED" || !job.result) {
+      throw new Error("Export not ready");
+    }
+
+    const result: DataExportResult = JSON.parse(job.result);
+    const filePath = getExportPath(job.id);
+    const exists = await fs.access(filePath).then(() => true, () => false);
+    if (new Date(result.expiresAt) <= new Date() || !exists) {
+      throw new Error("Export expired");
+    }
+    return { filePath, result };
+  }
+
+  // Removes export files past their expiry; returns how many were deleted
+  async deleteExpiredExports(): Promise<number> {
+    const fileNames = await fs.readdir(EXPORTS_DIR).catch(() => [] as string[]);
+    let deleted = 0;
+    for (const fileName of fileNames) {
+      const filePath = path.join(EXPORTS_DIR, fileName);
+      const { mtimeMs } = await fs.stat(filePath);
+      if (Date.now() - mtimeMs > DATA_EXPORT_TTL_MS) {
+        await fs.rm(filePath, { force: true });
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Schedule the deletion of the account after the cooling-off period
+   * Admins and creators with audiobooks can't delete themselves: their
+   * accounts hold more than their own personal data.
+   */
+  async requestDeletion(user: User, reason: string | null, siteUrl: string): Promise<AccountDeletionRequest> {
+    if (user.role === "ADMIN") {
+      throw new Error("Admin accounts can't be deleted from the profile, ask another admin");
+    }
+    const audiobooks = await storage.getAudiobooksByPublisher(user.id);
+    if (audiobooks.length > 0) {
+      throw new Error("Delete or transfer your audiobooks before deleting the account");
+    }
+    if (await storage.getPendingAccountDeletion(user.id)) {
+      throw new Error("Account deletion already requested");
+    }
+
+    const scheduledFor = new Date(Date.now() + DELETION_COOLING_OFF_DAYS * 24 * 60 * 60 * 1000);
+    const request = await storage.createAccountDeletionRequest(user.id, scheduledFor, reason);
+    try {
+      await getEmailService().sendAccountDeletionScheduledEmail(user.email, user.username, `${siteUrl}/profile`, scheduledFor.toISOString());
+    } catch (error) {
+      console.error("Error sending account deletion email:", error);
+    }
+    return request;
+  }
+
+  // By the user themselves (their pending request) or an admin
+  async cancelDeletion(requestId: string, actorId: string): Promise<AccountDeletionRequest> {
+    const request = await storage.cancelAccountDeletionRequest(requestId, actorId);
+    if (!request) {
+      throw new Error("Deletion request not found or no longer pending");
+    }
+    return request;
+  }
+
+  // Carries out the requests whose cooling-off period is over; returns how many accounts were anonymized
+  async processDueDeletions(): Promise<number> {
+    const requests = await storage.getDueAccountDeletionRequests();
+    let completed = 0;
+    for (const request of requests) {
+      try {
+        await this.completeDeletion(request);
+        completed++;
+      } catch (error) {
+        // Left pending, so the next sweep tries again
+        console.error(`Error deleting account ${request.userId}:`, error);
+      }
+    }
+    return completed;
+  }
+
+  private async completeDeletion(request: AccountDeletionRequest): Promise<void> {
+    // Stop charging before the account loses its identity
+    const subscription = await storage.getCurrentSubscription(request.userId);
+    if (subscription) {
+      if (subscription.paypalSubscriptionId) {
+        await paypalService.cancelSubscription(subscription.paypalSubscriptionId, "Cuenta eliminada por el usuario");
+      }
+      await subscriptionService.recordCancellation(subscription);
+    }
+
+    const exports = await storage.getBackgroundJobs({ type: "data-export", createdBy: request.userId });
+
+    // Nobody knows this password, and the placeholder email can't receive mail
+    const anonymousId = request.userId.replace(/-/g, "").slice(0, 12);
+    const { clipAssetIds } = await storage.anonymizeUser(request.id, {
+      username: `deleted_${anonymousId}`,
+      email: `deleted_${anonymousId}@deleted.invalid`,
+      passwordHash: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10),
+    });
+
+    for (const job of exports) {
+      await fs.rm(getExportPath(job.id), { force: true });
+    }
+    for (const assetId of clipAssetIds) {
+      await mediaOrchestrator.deleteMediaAsset(assetId);
+    }
+  }
+}
+
+export const personalDataService = new PersonalDataService();
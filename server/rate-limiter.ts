@@ -0,0 +1,138 @@
+/**
+ * Rate limiting for endpoints that can be brute-forced
+ * Attempts are counted per IP and, where the request names one, per account
+ * in Postgres so every server instance sees the same counters. After the free
+ * attempts of a window each further one blocks the keys for twice as long as
+ * the previous, up to the policy's maximum.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+
+export interface RateLimitPolicy {
+  name: string;
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  windowMs: number;
+  // Count every request; otherwise only the failures the route reports with recordRateLimitFailure
+  countEveryRequest?: boolean;
+  byAccount?: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const LOGIN_RATE_LIMIT: RateLimitPolicy = {
+  name: "login",
+  freeAttempts: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 15 * MINUTE_MS,
+  windowMs: HOUR_MS,
+  byAccount: true,
+};
+
+export const TWO_FACTOR_RATE_LIMIT: RateLimitPolicy = {
+  name: "two-factor",
+  freeAttempts: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 15 * MINUTE_MS,
+  windowMs: HOUR_MS,
+};
+
+export const PASSWORD_RESET_RATE_LIMIT: RateLimitPolicy = {
+  name: "password-reset",
+  freeAttempts: 5,
+  baseDelayMs: MINUTE_MS,
+  maxDelayMs: HOUR_MS,
+  windowMs: HOUR_MS,
+  countEveryRequest: true,
+  byAccount: true,
+};
+
+export const DISCOUNT_CODE_RATE_LIMIT: RateLimitPolicy = {
+  name: "discount-code",
+  freeAttempts: 10,
+  baseDelayMs: 5000,
+  maxDelayMs: 15 * MINUTE_MS,
+  windowMs: HOUR_MS,
+};
+
+export const EMERGENCY_RESET_RATE_LIMIT: RateLimitPolicy = {
+  name: "emergency-reset",
+  freeAttempts: 3,
+  baseDelayMs: 10 * MINUTE_MS,
+  maxDelayMs: 24 * HOUR_MS,
+  windowMs: 24 * HOUR_MS,
+  countEveryRequest: true,
+};
+
+function getRateLimitKeys(req: Request, policy: RateLimitPolicy): string[] {
+  const keys = [`${policy.name}:ip:${req.ip ?? "unknown"}`];
+  const email = req.body?.email;
+  if (policy.byAccount && typeof email === "string" && email.trim()) {
+    keys.push(`${policy.name}:account:${email.trim().toLowerCase()}`);
+  }
+  return keys;
+}
+
+function getBlockDuration(policy: RateLimitPolicy, hits: number): number {
+  const extraAttempts = hits - policy.freeAttempts;
+  return Math.min(policy.baseDelayMs * 2 ** (extraAttempts - 1), policy.maxDelayMs);
+}
+
+// Count an attempt on every key; returns when the keys are blocked until, if the attempt went over the limit
+async function countAttempt(keys: string[], policy: RateLimitPolicy): Promise<Date | null> {
+  let blockedUntil: Date | null = null;
+  for (const key of keys) {
+    const bucket = await storage.hitRateLimit(key, policy.windowMs);
+    if (bucket.hits > policy.freeAttempts) {
+      const until = new Date(Date.now() + getBlockDuration(policy, bucket.hits));
+      await storage.blockRateLimit(key, until);
+      if (!blockedUntil || until > blockedUntil) {
+        blockedUntil = until;
+      }
+    }
+  }
+  return blockedUntil;
+}
+
+function sendTooManyAttempts(res: Response, blockedUntil: Date) {
+  const retryAfterSeconds = Math.max(1, Math.ceil((blockedUntil.getTime() - Date.now()) / 1000));
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({ error: "Too many attempts, please try again later", retryAfterSeconds });
+}
+
+/**
+ * Middleware rejecting requests while their IP or account is blocked
+ * A failing counter store never locks everyone out: the request goes through.
+ */
+export function rateLimit(policy: RateLimitPolicy) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const keys = getRateLimitKeys(req, policy);
+      const blockedUntil = await storage.getRateLimitBlockedUntil(keys);
+      if (blockedUntil) {
+        return sendTooManyAttempts(res, blockedUntil);
+      }
+      if (policy.countEveryRequest) {
+        const newBlock = await countAttempt(keys, policy);
+        if (newBlock) {
+          return sendTooManyAttempts(res, newBlock);
+        }
+      }
+    } catch (error) {
+      console.error(`Error checking rate limit ${policy.name}:`, error);
+    }
+    next();
+  };
+}
+
+// Called by the route when an attempt failed (wrong password, invalid code...)
+export async function recordRateLimitFailure(req: Request, policy: RateLimitPolicy): Promise<void> {
+  try {
+    await countAttempt(getRateLimitKeys(req, policy), policy);
+  } catch (error) {
+    console.error(`Error recording rate limit failure ${policy.name}:`, error);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Refunds for audiobook purchases
+ * Refunds the PayPal capture, revokes access to the audiobook, issues a
+ * credit note (factura rectificativa) against the purchase invoice and
+ * lets the customer know by email.
+ */
+
+import { storage } from "./storage";
+import * as paypalService from "./paypal-service";
+import { invoiceService } from "./invoice-service";
+import { getEmailService } from "./email";
+import { royaltyService } from "./royalty-service";
+import type { AudiobookPurchase, Invoice, PurchaseRefund, RefundPurchaseRequest } from "@shared/schema";
+
+export interface RefundResult {
+  refund: PurchaseRefund;
+  creditNote: Invoice | null;
+}
+
+// Gifts are refunded to whoever paid, not to the recipient who now holds the purchase
+function buyerId(purchase: AudiobookPurchase): string {
+  return purchase.giftedByUserId || purchase.userId;
+}
+
+export class RefundService {
+  /**
+   * Refund a purchase in full or in part from the admin panel
+   * Without an amount the whole remaining balance is refunded. The refund row is
+   * stored as PENDING before calling PayPal so a webhook arriving mid-request
+   * doesn't record the same refund twice. When PayPal hasn't settled the refund
+   * yet it stays PENDING until the PAYMENT.CAPTURE.REFUNDED webhook completes it.
+   */
+  async refundPurchase(purchaseId: string, request: RefundPurchaseRequest, adminId: string): Promise<RefundResult> {
+    const purchase = await storage.getPurchase(purchaseId);
+    if (!purchase) {
+      throw new Error("Purchase not found");
+    }
+    if (purchase.status !== "COMPLETED" && purchase.status !== "REFUNDED") {
+      throw new Error("Purchase is not refundable");
+    }
+
+    const captureId = purchase.paypalCaptureId
+      || (purchase.paypalOrderId ? await paypalService.getOrderCaptureId(purchase.paypalOrderId) : null);
+    if (!captureId) {
+      throw new Error("Purchase has no PayPal capture");
+    }
+
+    let refund = await storage.createPurchaseRefundWithinBalance({
+      purchaseId: purchase.id,
+      userId: buyerId(purchase),
+      amountCents: request.amountCents,
+      currency: purchase.currency,
+      reason: request.reason,
+      status: "PENDING",
+      refundedBy: adminId,
+    });
+    if (!refund) {
+      throw new Error("Refund amount exceeds the refundable amount");
+    }
+
+    let status: string;
+    try {
+      const result = await paypalService.refundCapture(captureId, refund.amountCents, purchase.currency, request.reason);
+      if (result.status === "FAILED" || result.status === "CANCELLED") {
+        throw new Error(`PayPal refund ${result.status.toLowerCase()}`);
+      }
+      status = result.status;
+      refund = await storage.updatePurchaseRefund(refund.id, { paypalRefundId: result.refundId });
+    } catch (error) {
+      await storage.updatePurchaseRefund(refund.id, { status: "FAILED" });
+      throw error;
+    }
+
+    if (status !== "COMPLETED") {
+      return { refund, creditNote: null };
+    }
+    return this.completeRefund(purchase, refund);
+  }
+
+  /**
+   * Record a refund reported by the PAYMENT.CAPTURE.REFUNDED webhook
+   * Admin refunds that PayPal left pending are completed here; ones that are
+   * already completed are skipped. The webhook can arrive before the admin
+   * request has stored PayPal's refund ID, so a pending refund of the same
+   * capture and amount is taken as that refund. Refunds made from the PayPal
+   * dashboard get their credit note here.
+   */
+  async recordPayPalRefund(resource: any): Promise<RefundResult | null> {
+    const paypalRefundId: string | undefined = resource?.id;
+    const orderId: string | undefined = resource?.supplementary_data?.related_ids?.order_id;
+    if (!paypalRefundId) {
+      return null;
+    }
+
+    const known = await storage.getPurchaseRefundByPayPalId(paypalRefundId);
+    if (known) {
+      const purchase = known.status === "PENDING" ? await storage.getPurchase(known.purchaseId) : undefined;
+      return purchase ? this.completeRefund(purchase, known) : null;
+    }
+    if (!orderId) {
+      return null;
+    }
+
+    // The "up" link points at the refunded capture; cart purchases share it
+    const captureId: string | undefined = resource.links?.find((link: any) => link.rel === "up")?.href?.split("/").pop();
+    const reportedCents = Math.round(parseFloat(resource.amount?.value || "0") * 100);
+    const purchases = (await storage.getPurchasesByPayPalOrderId(orderId))
+      .filter(purchase => !captureId || !purchase.paypalCaptureId || purchase.paypalCaptureId === captureId);
+
+    // An admin refund still waiting on the PayPal response
+    for (const purchase of purchases) {
+      const pending = (await storage.getPurchaseRefunds(purchase.id))
+        .find(refund => refund.status === "PENDING" && !refund.paypalRefundId && refund.amountCents === reportedCents);
+      if (pending) {
+        return this.completeRefund(purchase, await storage.updatePurchaseRefund(pending.id, { paypalRefundId }));
+      }
+    }
+
+    // Cart orders cover several purchases, and PayPal doesn't say which one was refunded
+    if (purchases.length !== 1) {
+      console.warn(`PayPal refund ${paypalRefundId} matches ${purchases.length} purchases for order ${orderId}; refund them from the admin panel`);
+      return null;
+    }
+    const [purchase] = purchases;
+
+    const refund = await storage.createPurchaseRefundWithinBalance({
+      purchaseId: purchase.id,
+      userId: buyerId(purchase),
+      amountCents: reportedCents || undefined,
+      currency: purchase.currency,
+      reason: resource.note_to_payer || "Reembolso desde PayPal",
+      status: "PENDING",
+      paypalRefundId,
+    }, { capToBalance: true });
+    if (!refund) {
+      return null;
+    }
+
+    return this.completeRefund(purchase, refund);
+  }
+
+  private async completeRefund(purchase: AudiobookPurchase, refund: PurchaseRefund): Promise<RefundResult> {
+    const completed = await storage.completePendingPurchaseRefund(refund.id);
+    if (!completed) {
+      // Already completed by the webhook or the admin request, whichever came first
+      return { refund, creditNote: null };
+    }
+    refund = completed;
+
+    // Any refund, even partial, revokes access: only COMPLETED purchases unlock the audiobook
+    await storage.updatePurchaseStatus(purchase.id, "REFUNDED");
+
+    try {
+      await royaltyService.recordRefund(refund, purchase);
+    } catch (error) {
+      console.error("Error reversing creator earning:", error);
+    }
+
+    const user = await storage.getUser(buyerId(purchase));
+    const audiobook = await storage.getAudiobook(purchase.audiobookId);
+    const refundEmail = user && audiobook ? {
+      kind: "refund" as const,
+      to: user.email,
+      username: user.username,
+      audiobookTitle: audiobook.title,
+      amountCents: refund.amountCents,
+      currency: refund.currency,
+    } : undefined;
+
+    // With a credit note, the refund email is sent by its PDF job so the PDF can be attached
+    let creditNote: Invoice | null = null;
+    const originalInvoice = await storage.getPurchaseInvoice(purchase.id);
+    if (originalInvoice) {
+      try {
+        creditNote = await invoiceService.createCreditNote(originalInvoice, refund.amountCents, refund.reason || "Reembolso", { email: refundEmail });
+        refund = await storage.updatePurchaseRefund(refund.id, { creditNoteId: creditNote.id });
+      } catch (error) {
+        console.error("Error creating credit note:", error);
+      }
+    }
+
+    if (refundEmail && !creditNote) {
+      try {
+        const emailService = getEmailService();
+        await emailService.sendRefundEmail(
+          refundEmail.to,
+          refundEmail.username,
+          refundEmail.audiobookTitle,
+          refundEmail.amountCents,
+          refundEmail.currency,
+          null
+        );
+      } catch (error) {
+        console.error("Error sending refund email:", error);
+      }
+    }
+
+    return { refund, creditNote };
+  }
+}
+
+export const refundService = new RefundService();
@@ -19,52 +19,96 @@ import {
   bulkUpdatePodcastsStatusSchema,
   bulkDeleteEpisodesSchema,
   bulkUpdateEpisodesStatusSchema,
+  adminAuditLogQuerySchema,
 } from "@shared/admin-schemas";
-import { generateRSSFeed } from "./rss-generator";
-import { getSiteUrl, getEpisodeCanonicalUrl, getEpisodeEmbedUrl, getEpisodeShareUrl, getEmbedIframeCode } from "./url-helpers";
-import { resolveEpisodeArtwork, resolveEpisodeAudioUrl, resolvePodcastCoverArtUrl } from "./serializers/episode";
+import { buildAudiobookFeed, buildLibraryFeed, sendFeed } from "./rss-generator";
+import { parseRangeHeader, isRangeFresh, getAssetEtag, etagMatches, formatContentRange, buildMultipartFraming, type ByteRange } from "./http-range";
+import { getSiteUrl, getEpisodeCanonicalUrl, getEpisodeEmbedUrl, getEpisodeShareUrl, getEmbedIframeCode, getClipEmbedUrl } from "./url-helpers";
+import { resolveEpisodeAudioUrl, resolvePodcastCoverArtUrl } from "./serializers/episode";
 import { getEpisodeForResponse } from "./storage-service";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
+import { pipeline } from "stream/promises";
 import multer from "multer";
 import { mediaOrchestrator } from "./media-orchestrator";
 import { StorageService } from "./storage-service";
 import { getEmailService } from "./email";
+import { jobQueue, serializeJob } from "./job-queue";
+import type { ZipImportJobPayload, YoutubeImportJobPayload, RssImportJobPayload } from "./import-jobs";
+import { AUDIO_OUTPUT, probeAudio, probeAudioBuffer, queueAudioTranscode, resolveChapterAudio } from "./audio-processing";
+import { getAudiobookExport, openAudiobookExport, type AudiobookExportJobPayload } from "./audiobook-export";
+import { getClipRange, queueBookmarkClip, deleteBookmarkClip } from "./audio-clips";
+import { exportBookmarks, formatPosition } from "./bookmark-export";
+import { detectTranscriptFormat, getTranscriptExtension, parseTranscript, toPlainText, toWebVtt, TRANSCRIPT_MIME_TYPES } from "./transcripts";
+import { isProtectedMediaPath, verifyMediaSignature, signChapterAudio, type MediaUrlSubject } from "./media-signing";
 import { 
   getPlaylistMetadata, 
-  getPlaylistVideos, 
-  downloadAudioFromVideo, 
-  downloadThumbnail,
-  uploadAudioToStorage,
-  uploadImageToStorage,
-  cleanupTempFiles
+  getPlaylistVideos
 } from "./youtube-import";
 import path from "path";
 import os from "os";
 import fs from "fs";
-import { parseFile, parseBuffer } from "music-metadata";
+import { parseFile } from "music-metadata";
 import { updateMP3MetadataBuffer } from "./id3-utils";
 import * as paypalService from "./paypal-service";
 import { invoiceService } from "./invoice-service";
-import { insertBillingProfileSchema, type Invoice } from "@shared/schema";
+import { taxService } from "./tax-service";
+import { refundService } from "./refund-service";
+import { subscriptionService } from "./subscription-service";
+import { royaltyService, DEFAULT_ROYALTY_RATE_BASIS_POINTS } from "./royalty-service";
+import { twoFactorService, STEP_UP_WINDOW_MS, PENDING_LOGIN_TTL_MS, MAX_PENDING_LOGIN_ATTEMPTS } from "./two-factor-service";
+import { accountLockoutService } from "./account-lockout-service";
+import { sessionService } from "./session-service";
+import { personalDataService } from "./personal-data-service";
+import { trackAdminAction, setAuditContext } from "./admin-audit";
+import { rateLimit, recordRateLimitFailure, LOGIN_RATE_LIMIT, TWO_FACTOR_RATE_LIMIT, PASSWORD_RESET_RATE_LIMIT, DISCOUNT_CODE_RATE_LIMIT, EMERGENCY_RESET_RATE_LIMIT } from "./rate-limiter";
+import { insertBillingProfileSchema, insertTaxRuleSchema, progressUpdateSchema, audiobookSearchSchema, insertSeriesSchema, refundPurchaseSchema, cartGiftSchema, offlineLicenseRequestSchema, jobStatusEnum, jobTypeValues, contentStatusEnum, reviewInputSchema, reviewModerationSchema, bookmarkInputSchema, bookmarkUpdateSchema, type BookmarkClipShare, BOOKMARK_CLIP_MAX_SHARED_PER_CHAPTER, transcriptUploadSchema, transcriptSearchSchema, createContentInvitationSchema, type ContentInvitation, type InvitationDetails, inviteHouseholdMemberSchema, type HouseholdMember, type HouseholdOverview, type HouseholdInvitationDetails, changeSubscriptionPlanSchema, type UserSubscriptionOverview, insertRoyaltyRateSchema, updateRoyaltyRateSchema, closePayoutPeriodSchema, markPayoutPaidSchema, payoutStatusEnum, twoFactorCodeSchema, disableTwoFactorSchema, unlockAccountSchema, requestAccountDeletionSchema, accountDeletionStatusEnum, type AdminUserListItem, type PrivacyStatus, type GiftDetails, type ProgressUpdate, type Audiobook, type SeriesVolume } from "@shared/schema";
 import { syncToGitHub, getGitHubStatus, pullFromGitHub } from "./github-service";
 
-// Helper functions for RSS feed generation
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
+// Apply a single progress update; reports whether a newer position from another device won
+async function applyProgressUpdate(userId: string, update: ProgressUpdate) {
+  const chapter = await storage.getChapter(update.chapterId);
+  if (!chapter) {
+    return null;
+  }
+
+  const { progress, previous } = await storage.updateListeningProgress(
+    userId,
+    chapter.audiobookId,
+    chapter.id,
+    update.positionSeconds,
+    update.completed,
+    update.updatedAt
+  );
+  if (previous) {
+    try {
+      await royaltyService.recordListening(userId, chapter, previous, progress);
+    } catch (error) {
+      console.error("Error recording catalog listening:", error);
+    }
+  }
+  const applied = !update.updatedAt || progress.updatedAt.getTime() <= update.updatedAt.getTime();
+  return { progress, applied };
+}
+
+// Players abort requests when they seek or close; pipeline reports that as a premature close
+function isClientAbort(error: any): boolean {
+  return error?.code === "ERR_STREAM_PREMATURE_CLOSE";
 }
 
-function formatDurationForRss(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = seconds % 60;
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+// Add the listener's access and cart state to series volumes
+async function getSeriesVolumeStates(userId: string | undefined, volumes: Audiobook[]): Promise<SeriesVolume[]> {
+  const cartIds = new Set(userId ? (await storage.getCartItems(userId)).map(item => item.audiobookId) : []);
+  return await Promise.all(volumes.map(async (volume) => {
+    const access = await storage.hasAccessToAudiobook(userId, volume.id);
+    return {
+      ...volume,
+      hasAccess: access.hasAccess,
+      isPurchased: access.isPurchased,
+      inCart: cartIds.has(volume.id),
+    };
+  }));
 }
 
 // Middleware to require authentication
@@ -100,6 +144,18 @@ export async function requireAdmin(req: Request, res: Response, next: NextFuncti
     if (!user || user.role !== "ADMIN") {
       return res.status(403).json({ error: "Forbidden - Admin access required" });
     }
+    // Admins have to enroll in two-factor authentication before using the admin panel
+    if (!(await twoFactorService.isEnabled(user.id))) {
+      return res.status(403).json({ error: "Two-factor authentication is required for admins", code: "TWO_FACTOR_SETUP_REQUIRED" });
+    }
+    // ...and this session has to have passed it; one signed in before enrollment is asked for a code
+    if (!req.session.twoFactorVerifiedAt) {
+      return res.status(403).json({ error: "Two-factor re-authentication required", code: "STEP_UP_REQUIRED" });
+    }
+    // Every admin write ends up in the audit log
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      trackAdminAction(req, res, user);
+    }
     next();
   } catch (error) {
     console.error("Error checking admin role:", error);
@@ -107,6 +163,33 @@ export async function requireAdmin(req: Request, res: Response, next: NextFuncti
   }
 }
 
+// Middleware to require creator role (admins publish too)
+export async function requireCreator(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.userId) {
+    return res.status(401).json({ error: "Unauthorized - Please login" });
+  }
+  
+  try {
+    const user = await storage.getUser(req.session.userId);
+    if (!user || (user.role !== "CREATOR" && user.role !== "ADMIN")) {
+      return res.status(403).json({ error: "Forbidden - Creator access required" });
+    }
+    next();
+  } catch (error) {
+    console.error("Error checking creator role:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+// Middleware for sensitive admin actions (use after requireAdmin): the two-factor code must have been entered recently
+export function requireRecentTwoFactor(req: Request, res: Response, next: NextFunction) {
+  const verifiedAt = req.session.twoFactorVerifiedAt;
+  if (!verifiedAt || Date.now() - verifiedAt > STEP_UP_WINDOW_MS) {
+    return res.status(403).json({ error: "Two-factor re-authentication required", code: "STEP_UP_REQUIRED" });
+  }
+  next();
+}
+
 // Multer configuration for regular file uploads (images, single audio)
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -214,6 +297,21 @@ const uploadZip = multer({
   },
 });
 
+// Multer configuration for transcript uploads (WebVTT, SRT or plain text)
+const uploadTranscript = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(vtt|srt|txt)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Allowed: .vtt, .srt, .txt'));
+    }
+  },
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Multer error handling middleware - must be registered after upload routes
   const handleMulterError = (error: any, req: Request, res: Response, next: NextFunction) => {
@@ -271,13 +369,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Set session
       req.session.userId = user.id;
+      sessionService.recordDevice(req);
       
       // Send verification email
       try {
-        const emailService = await getEmailService(storage);
+        const emailService = getEmailService();
         const verificationUrl = `${getSiteUrl(req)}/verify-email?token=${encodeURIComponent(verificationToken)}`;
         await emailService.sendEmailVerification(user.email, user.username, verificationUrl);
-        console.log(`Verification email sent to ${user.email}`);
+        console.log(`Verification email queued for ${user.email}`);
         console.log(`Verification URL: ${verificationUrl}`);
       } catch (emailError) {
         // Log error but don't fail registration
@@ -297,24 +396,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Login
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", rateLimit(LOGIN_RATE_LIMIT), async (req, res) => {
     try {
       const { email, password } = loginSchema.parse(req.body);
       
       // Find user
       const user = await storage.getUserByEmail(email);
       if (!user) {
+        await recordRateLimitFailure(req, LOGIN_RATE_LIMIT);
+        return res.status(401).json({ error: "Invalid email or password" });
+      }
+
+      // A locked account rejects even the right password until the lock ends or is lifted.
+      // The answer is the same as for a wrong password; only the owner's email tells about the lock
+      if (await accountLockoutService.getLockedUntil(user.id)) {
+        await recordRateLimitFailure(req, LOGIN_RATE_LIMIT);
         return res.status(401).json({ error: "Invalid email or password" });
       }
 
       // Verify password
       const isValidPassword = await bcrypt.compare(password, user.passwordHash);
       if (!isValidPassword) {
+        await recordRateLimitFailure(req, LOGIN_RATE_LIMIT);
+        await accountLockoutService.recordFailedLogin(user, getSiteUrl(req), req.ip);
         return res.status(401).json({ error: "Invalid email or password" });
       }
 
+      // With two-factor enabled the session only starts once the code is checked
+      if (await twoFactorService.isEnabled(user.id)) {
+        delete req.session.userId;
+        delete req.session.twoFactorVerifiedAt;
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + PENDING_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        return res.json({ twoFactorRequired: true });
+      }
+
       // Set session
+      await accountLockoutService.clear(user.id);
+      delete req.session.twoFactorVerifiedAt;
       req.session.userId = user.id;
+      sessionService.recordDevice(req);
       
       // Don't send password hash to client
       const { passwordHash: _, ...userWithoutPassword } = user;
@@ -328,6 +452,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Second login step: code from the authenticator app or a recovery code
+  app.post("/api/auth/login/2fa", rateLimit(TWO_FACTOR_RATE_LIMIT), async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Login expired, please sign in again" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Invalid email or password" });
+      }
+
+      // As on the password step, a lock isn't told apart from a failed login
+      if (await accountLockoutService.getLockedUntil(user.id)) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Login expired, please sign in again" });
+      }
+
+      const isValidCode = await twoFactorService.verify(pending.userId, code, req.ip);
+      if (!isValidCode) {
+        // Wrong codes count towards the account lockout like wrong passwords
+        await recordRateLimitFailure(req, TWO_FACTOR_RATE_LIMIT);
+        const newLock = await accountLockoutService.recordFailedLogin(user, getSiteUrl(req), req.ip);
+        pending.attempts += 1;
+        if (newLock || pending.attempts >= MAX_PENDING_LOGIN_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ error: "Too many invalid codes, please sign in again" });
+        }
+        return res.status(401).json({ error: "Invalid two-factor code" });
+      }
+
+      await accountLockoutService.clear(user.id);
+      delete req.session.pendingTwoFactor;
+      req.session.userId = user.id;
+      req.session.twoFactorVerifiedAt = Date.now();
+      sessionService.recordDevice(req);
+
+      const { passwordHash: _, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error verifying two-factor login:", error);
+      res.status(500).json({ error: "Failed to login" });
+    }
+  });
+
   // Logout
   app.post("/api/auth/logout", (req, res) => {
     req.session.destroy((err) => {
@@ -360,6 +536,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==================== TWO-FACTOR ROUTES ====================
+
+  // Two-factor status of the current user
+  app.get("/api/auth/2fa", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(await twoFactorService.getStatus(user));
+    } catch (error) {
+      console.error("Error getting two-factor status:", error);
+      res.status(500).json({ error: "Failed to get two-factor status" });
+    }
+  });
+
+  // Start enrollment: secret and otpauth:// URL for the QR code
+  app.post("/api/auth/2fa/setup", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const setup = await twoFactorService.startSetup(user);
+      res.json(setup);
+    } catch (error: any) {
+      if (error.message?.includes("already enabled")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ error: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Finish enrollment with a code from the app; the recovery codes are only returned here
+  app.post("/api/auth/2fa/enable", requireAuth, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await twoFactorService.enable(req.session.userId!, code, req.ip);
+      req.session.twoFactorVerifiedAt = Date.now();
+      // Sessions opened with the password alone end; signing in again asks for a code
+      await sessionService.revokeOthers(req.session.userId!, req.sessionID);
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("Invalid two-factor code") || error.message?.includes("not been started") || error.message?.includes("already enabled")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ error: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // Re-enter a code before a sensitive admin action
+  app.post("/api/auth/2fa/step-up", requireAuth, rateLimit(TWO_FACTOR_RATE_LIMIT), async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const isValidCode = await twoFactorService.verify(req.session.userId!, code, req.ip);
+      if (!isValidCode) {
+        await recordRateLimitFailure(req, TWO_FACTOR_RATE_LIMIT);
+        return res.status(401).json({ error: "Invalid two-factor code" });
+      }
+      req.session.twoFactorVerifiedAt = Date.now();
+      res.json({ verifiedUntil: new Date(req.session.twoFactorVerifiedAt + STEP_UP_WINDOW_MS) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error verifying two-factor step-up:", error);
+      res.status(500).json({ error: "Failed to verify two-factor code" });
+    }
+  });
+
+  // Replace the recovery codes; the old ones stop working
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, rateLimit(TWO_FACTOR_RATE_LIMIT), async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const isValidCode = await twoFactorService.verify(req.session.userId!, code, req.ip);
+      if (!isValidCode) {
+        await recordRateLimitFailure(req, TWO_FACTOR_RATE_LIMIT);
+        return res.status(401).json({ error: "Invalid two-factor code" });
+      }
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.session.userId!, req.ip);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ error: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // Turn two-factor off (not for admins); needs both the password and a code
+  app.post("/api/auth/2fa/disable", requireAuth, rateLimit(TWO_FACTOR_RATE_LIMIT), async (req, res) => {
+    try {
+      const { code, password } = disableTwoFactorSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const isValidPassword = await bcrypt.compare(password, user.passwordHash);
+      if (!isValidPassword) {
+        await recordRateLimitFailure(req, TWO_FACTOR_RATE_LIMIT);
+        return res.status(401).json({ error: "Current password is incorrect" });
+      }
+      const isValidCode = await twoFactorService.verify(user.id, code, req.ip);
+      if (!isValidCode) {
+        await recordRateLimitFailure(req, TWO_FACTOR_RATE_LIMIT);
+        return res.status(401).json({ error: "Invalid two-factor code" });
+      }
+
+      await twoFactorService.disable(user, req.ip);
+      delete req.session.twoFactorVerifiedAt;
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("mandatory")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ error: "Failed to disable two-factor authentication" });
+    }
+  });
+
   // ==================== PROFILE ROUTES ====================
   
   // Get user profile
@@ -455,6 +761,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newPasswordHash = await bcrypt.hash(validatedData.newPassword, 10);
       await storage.updateUserPassword(req.session.userId!, newPasswordHash);
 
+      // Anyone else signed in with the old password is signed out
+      await sessionService.revokeOthers(req.session.userId!, req.sessionID);
+
       res.json({ message: "Password updated successfully" });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -465,8 +774,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Signed-in sessions of the current user, most recently active first
+  app.get("/api/profile/sessions", requireAuth, async (req, res) => {
+    try {
+      const sessions = await sessionService.listForUser(req.session.userId!, req.sessionID);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out one of the user's other devices
+  app.delete("/api/profile/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      await sessionService.revoke(req.session.userId!, req.params.id, req.sessionID);
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message?.includes("current session")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error revoking session:", error);
+      res.status(500).json({ error: "Failed to revoke session" });
+    }
+  });
+
+  // Sign out every device except this one
+  app.post("/api/profile/sessions/revoke-others", requireAuth, async (req, res) => {
+    try {
+      const revoked = await sessionService.revokeOthers(req.session.userId!, req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ error: "Failed to revoke sessions" });
+    }
+  });
+
+  // Latest "download my data" export and any pending account deletion
+  app.get("/api/profile/privacy", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const dataExport = await personalDataService.getLatestExport(userId);
+      const status: PrivacyStatus = {
+        dataExport: dataExport ? serializeJob(dataExport) : null,
+        pendingDeletion: (await storage.getPendingAccountDeletion(userId)) ?? null,
+      };
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching privacy status:", error);
+      res.status(500).json({ error: "Failed to fetch privacy status" });
+    }
+  });
+
+  // Build a ZIP with all the user's data (GDPR access); runs as a background job
+  app.post("/api/profile/data-export", requireAuth, async (req, res) => {
+    try {
+      const job = await personalDataService.requestExport(req.session.userId!);
+      res.status(202).json({ job: serializeJob(job) });
+    } catch (error) {
+      console.error("Error requesting data export:", error);
+      res.status(500).json({ error: "Failed to request data export" });
+    }
+  });
+
+  // Download a finished data export
+  app.get("/api/profile/data-export/:jobId/download", requireAuth, async (req, res) => {
+    try {
+      const { filePath, result } = await personalDataService.getExportFile(req.session.userId!, req.params.jobId);
+      res.download(filePath, result.fileName);
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message?.includes("not ready") || error.message?.includes("expired")) {
+        return res.status(410).json({ error: error.message });
+      }
+      console.error("Error downloading data export:", error);
+      res.status(500).json({ error: "Failed to download data export" });
+    }
+  });
+
+  // Ask for the account to be deleted (GDPR erasure) after the cooling-off period
+  // Needs the password, and a two-factor code when the account has it enabled
+  app.post("/api/profile/deletion", requireAuth, rateLimit(TWO_FACTOR_RATE_LIMIT), async (req, res) => {
+    try {
+      const { password, code, reason } = requestAccountDeletionSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const isValidPassword = await bcrypt.compare(password, user.passwordHash);
+      if (!isValidPassword) {
+        await recordRateLimitFailure(req, TWO_FACTOR_RATE_LIMIT);
+        return res.status(401).json({ error: "Current password is incorrect" });
+      }
+      if (await twoFactorService.isEnabled(user.id)) {
+        if (!code) {
+          return res.status(400).json({ error: "Two-factor code is required", code: "TWO_FACTOR_REQUIRED" });
+        }
+        if (!(await twoFactorService.verify(user.id, code, req.ip))) {
+          await recordRateLimitFailure(req, TWO_FACTOR_RATE_LIMIT);
+          return res.status(401).json({ error: "Invalid two-factor code" });
+        }
+      }
+
+      const request = await personalDataService.requestDeletion(user, reason || null, getSiteUrl(req));
+      res.status(201).json(request);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("already requested")) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error.message?.includes("Admin accounts") || error.message?.includes("audiobooks")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error requesting account deletion:", error);
+      res.status(500).json({ error: "Failed to request account deletion" });
+    }
+  });
+
+  // Change of mind during the cooling-off period
+  app.delete("/api/profile/deletion", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const pending = await storage.getPendingAccountDeletion(userId);
+      if (!pending) {
+        return res.status(404).json({ error: "No pending deletion request" });
+      }
+      const request = await personalDataService.cancelDeletion(pending.id, userId);
+      res.json(request);
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error cancelling account deletion:", error);
+      res.status(500).json({ error: "Failed to cancel account deletion" });
+    }
+  });
+
   // Request password reset
-  app.post("/api/auth/forgot-password", async (req, res) => {
+  app.post("/api/auth/forgot-password", rateLimit(PASSWORD_RESET_RATE_LIMIT), async (req, res) => {
     try {
       const schema = z.object({
         email: z.string().email("Invalid email address"),
@@ -495,9 +948,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const resetUrl = `${getSiteUrl(req)}/reset-password?token=${resetToken}`;
       
       try {
-        const emailService = await getEmailService(storage);
+        const emailService = getEmailService();
         await emailService.sendPasswordResetEmail(user.email, user.username, resetUrl);
-        console.log(`Password reset email sent to ${email}`);
+        console.log(`Password reset email queued for ${email}`);
       } catch (emailError) {
         // Log error but don't fail the request (for security, don't reveal if email failed)
         console.error(`Failed to send password reset email to ${email}:`, emailError);
@@ -548,6 +1001,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Mark token as used
       await storage.markPasswordResetTokenUsed(token);
 
+      // Proving access to the mailbox also lifts a lockout, and every existing session is signed out
+      await accountLockoutService.clear(resetToken.userId);
+      await sessionService.revokeAll(resetToken.userId);
+
       res.json({ message: "Password reset successfully" });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -558,6 +1015,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Lift an account lockout with the link from the lockout email
+  app.post("/api/auth/unlock", async (req, res) => {
+    try {
+      const { token } = unlockAccountSchema.parse(req.body);
+      await accountLockoutService.unlockWithToken(token, req.ip);
+      res.json({ message: "Account unlocked" });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("unlock link")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error unlocking account:", error);
+      res.status(500).json({ error: "Failed to unlock account" });
+    }
+  });
+
   // Verify email with token
   app.post("/api/auth/verify-email", async (req, res) => {
     try {
@@ -618,10 +1093,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Send verification email
       try {
-        const emailService = await getEmailService(storage);
+        const emailService = getEmailService();
         const verificationUrl = `${getSiteUrl(req)}/verify-email?token=${encodeURIComponent(verificationToken)}`;
         await emailService.sendEmailVerification(user.email, user.username, verificationUrl);
-        console.log(`Verification email resent to ${user.email}`);
+        console.log(`Verification email queued again for ${user.email}`);
         console.log(`Verification URL: ${verificationUrl}`);
       } catch (emailError) {
         console.error(`Failed to resend verification email to ${user.email}:`, emailError);
@@ -695,22 +1170,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "File too large. Maximum size for audio is 500MB." });
       }
 
-      // Optional: episodeId and podcastId from query/body for linking
-      const episodeId = req.body.episodeId || req.query.episodeId as string | undefined;
-      const podcastId = req.body.podcastId || req.query.podcastId as string | undefined;
-
-      // Save file using media orchestrator
-      const asset = await mediaOrchestrator.saveEpisodeAudio(req.file, req.session.userId!, episodeId, podcastId);
-
-      // Extract duration from audio file
+      // Measure the original with ffprobe; the transcoded copy is measured again by the job
       let duration = 0;
       try {
-        const metadata = await parseBuffer(req.file.buffer, req.file.mimetype);
-        duration = Math.round(metadata.format.duration || 0);
-      } catch (metadataError) {
-        console.warn(`Could not extract duration from ${req.file.originalname}:`, metadataError);
+        const probe = await probeAudioBuffer(req.file.buffer, req.file.originalname);
+        duration = probe.durationSeconds;
+      } catch (probeError) {
+        console.warn(`Could not probe ${req.file.originalname}:`, probeError);
       }
 
+      // Keep the upload as the master and transcode it in the background
+      const asset = await mediaOrchestrator.saveAudioMaster(req.file, req.session.userId!, duration);
+      const jobId = await queueAudioTranscode(asset, req.session.userId!);
+
       res.status(201).json({
         id: asset.id,
         assetId: asset.id, // Add assetId for frontend compatibility
@@ -719,6 +1191,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         mimeType: asset.mimeType,
         sizeBytes: asset.sizeBytes,
         duration, // Add duration for frontend
+        jobId,
       });
     } catch (error) {
       console.error("Error uploading audio:", error);
@@ -726,21 +1199,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Chapter audio needs a signed URL (see media-signing.ts); covers are served as-is
+  app.use("/media", async (req, res, next) => {
+    const mediaPath = `/media${req.path}`;
+    if (!isProtectedMediaPath(mediaPath)) {
+      return next();
+    }
+    try {
+      const subject = await verifyMediaSignature(mediaPath, req.query);
+      if (!subject) {
+        return res.status(403).json({ error: "Invalid or expired media URL" });
+      }
+      next();
+    } catch (error) {
+      console.error("Error verifying media signature:", error);
+      res.status(500).json({ error: "Failed to serve media" });
+    }
+  });
+
   // Serve static files from uploads directory
   app.use("/media", express.static(path.join(process.cwd(), "uploads")));
 
   // Serve media files (supports both local storage and Google Drive) - fallback for database-tracked files
+  // Supports HEAD, single and multi-range requests (206), If-Range and conditional GET via the asset checksum
   app.get("/media/:type/:filename", async (req, res) => {
     try {
       const { type, filename } = req.params;
       
       // Validate type
-      if (type !== 'images' && type !== 'audio') {
+      if (type !== 'images' && type !== 'audio' && type !== 'drive') {
         return res.status(400).json({ error: "Invalid media type" });
       }
 
-      // Construct storage key
-      const storageKey = `${type}/${filename}`;
+      // Construct storage key - Drive assets are keyed by file id
+      const storageKey = type === 'drive' ? filename : `${type}/${filename}`;
 
       // Look up asset in database
       const asset = await storage.getMediaAssetByStorageKey(storageKey);
@@ -749,27 +1241,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "File not found in database" });
       }
 
-      // Set content type from database
-      res.setHeader('Content-Type', asset.mimeType);
-      
-      // Use media orchestrator to stream the file (supports both LOCAL and GOOGLE_DRIVE)
+      const size = asset.sizeBytes;
+      const etag = getAssetEtag(asset);
+      const lastModified = new Date(asset.createdAt);
+
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('ETag', etag);
+      res.setHeader('Last-Modified', lastModified.toUTCString());
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+
+      // Conditional GET - the client's cached copy is still current
+      if (etagMatches(req.get('if-none-match'), etag)) {
+        return res.status(304).end();
+      }
+
+      const isHead = req.method === 'HEAD';
+      const rangeResult = isRangeFresh(req, etag, lastModified)
+        ? parseRangeHeader(req.get('range'), size)
+        : { type: "none" as const };
+
+      if (rangeResult.type === "unsatisfiable") {
+        res.setHeader('Content-Range', formatContentRange(null, size));
+        return res.status(416).end();
+      }
+
+      // Pipe one storage stream into the response; the stream is destroyed if the client goes away
+      const pipePart = async (range?: ByteRange, end: boolean = true) => {
+        const { stream } = await mediaOrchestrator.streamMedia(asset.id, range);
+        await pipeline(stream, res, { end });
+      };
+
       try {
-        const { stream } = await mediaOrchestrator.streamMedia(asset.id);
-        
-        // Handle stream errors to prevent server crash
-        stream.on('error', (streamError) => {
-          console.error(`Stream error for asset ${asset.id}:`, streamError);
-          if (!res.headersSent) {
-            res.status(404).json({ error: "File not found on storage" });
+        if (rangeResult.type === "ranges" && rangeResult.ranges.length > 1) {
+          const { boundary, partHeaders, trailer, contentLength } = buildMultipartFraming(rangeResult.ranges, size, asset.mimeType);
+          res.status(206);
+          res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+          res.setHeader('Content-Length', contentLength);
+          if (isHead) return res.end();
+
+          for (let i = 0; i < rangeResult.ranges.length; i++) {
+            res.write(partHeaders[i]);
+            await pipePart(rangeResult.ranges[i], false);
           }
-        });
-        
-        stream.pipe(res);
+          res.end(trailer);
+          return;
+        }
+
+        // Set content type from database
+        res.setHeader('Content-Type', asset.mimeType);
+
+        if (rangeResult.type === "ranges") {
+          const range = rangeResult.ranges[0];
+          res.status(206);
+          res.setHeader('Content-Range', formatContentRange(range, size));
+          res.setHeader('Content-Length', range.end - range.start + 1);
+          if (isHead) return res.end();
+          await pipePart(range);
+          return;
+        }
+
+        res.setHeader('Content-Length', size);
+        if (isHead) return res.end();
+        // Use media orchestrator to stream the file (supports both LOCAL and GOOGLE_DRIVE)
+        await pipePart();
       } catch (streamError: any) {
+        if (isClientAbort(streamError)) {
+          return;
+        }
+        // Handle stream errors to prevent server crash
         console.error(`Error streaming asset ${asset.id}:`, streamError);
         if (!res.headersSent) {
+          res.removeHeader('Content-Range');
           return res.status(404).json({ error: "File not found on storage" });
         }
+        res.destroy();
       }
     } catch (error) {
       console.error("Error serving media:", error);
@@ -792,6 +1337,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Search the public catalog with full-text query, filters, facets and cursor pagination
+  app.get("/api/audiobooks/search", async (req, res) => {
+    try {
+      const params = audiobookSearchSchema.parse(req.query);
+      const result = await storage.searchAudiobooks(params);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid search parameters", details: error.errors });
+      }
+      if (error.message?.includes("Invalid search cursor")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error searching audiobooks:", error);
+      res.status(500).json({ error: "Failed to search audiobooks" });
+    }
+  });
+
   // Get single audiobook with chapters
   app.get("/api/audiobooks/:id", async (req, res) => {
     try {
@@ -800,18 +1363,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Audiobook not found" });
       }
       
-      // Check visibility (only show public or if user has special access)
-      if (audiobook.visibility !== "PUBLIC") {
-        const userId = req.session.userId;
-        if (!userId) {
-          return res.status(404).json({ error: "Audiobook not found" });
-        }
-        const user = await storage.getUser(userId);
-        const isAdmin = user?.role === "ADMIN";
-        const isPublisher = audiobook.publisherId === userId;
-        if (!isAdmin && !isPublisher) {
-          return res.status(404).json({ error: "Audiobook not found" });
-        }
+      // Check visibility (public, or publisher, admin or invited user)
+      if (!await storage.checkUserHasAccessToPodcast(req.session.userId, audiobook.id)) {
+        return res.status(404).json({ error: "Audiobook not found" });
       }
       
       // Check access for monetization (for response enrichment)
@@ -823,13 +1377,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return chapter.isSample;
       });
       
-      // Hide audio URLs for non-accessible chapters
-      const sanitizedChapters = visibleChapters.map(chapter => {
+      // Sign audio URLs for accessible chapters and hide the rest
+      const subject: MediaUrlSubject = req.session.userId ? { type: "user", userId: req.session.userId } : { type: "guest" };
+      const sanitizedChapters = await Promise.all(visibleChapters.map(chapter => {
         if (accessInfo.hasAccess || accessInfo.isFree || chapter.isSample) {
-          return chapter;
+          return signChapterAudio(chapter, subject);
         }
         return { ...chapter, audioUrl: null };
-      });
+      }));
       
       res.json({
         ...audiobook,
@@ -849,7 +1404,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/chapters/:id", async (req, res) => {
     try {
       const chapter = await storage.getChapterWithAudiobook(req.params.id);
-      if (!chapter) {
+      if (!chapter || !await storage.checkUserHasAccessToEpisode(req.session.userId, chapter.id)) {
         return res.status(404).json({ error: "Chapter not found" });
       }
       
@@ -863,13 +1418,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Purchase required to access this chapter" });
       }
       
-      res.json(chapter);
+      const subject: MediaUrlSubject = req.session.userId ? { type: "user", userId: req.session.userId } : { type: "guest" };
+      res.json(await signChapterAudio(chapter, subject));
     } catch (error) {
       console.error("Error fetching chapter:", error);
       res.status(500).json({ error: "Failed to fetch chapter" });
     }
   });
 
+  // Podcasting 2.0 chapters file for a chapter, linked from the feeds (podcast:chapters)
+  app.get("/api/chapters/:id/chapters.json", async (req, res) => {
+    try {
+      const chapter = await storage.getChapterWithAudiobook(req.params.id);
+      if (!chapter || chapter.status !== "APPROVED") {
+        return res.status(404).json({ error: "Chapter not found" });
+      }
+
+      const siteUrl = getSiteUrl(req);
+      const coverArtUrl = chapter.coverArtUrl || chapter.audiobook.coverArtUrl;
+      res.type("application/json+chapters").json({
+        version: "1.2.0",
+        chapters: [{
+          startTime: 0,
+          title: chapter.title,
+          ...(coverArtUrl ? { img: coverArtUrl.startsWith("http") ? coverArtUrl : `${siteUrl}${coverArtUrl}` } : {}),
+          url: `${siteUrl}/audiobook/${chapter.audiobookId}`,
+        }],
+      });
+    } catch (error) {
+      console.error("Error fetching chapter markers:", error);
+      res.status(500).json({ error: "Failed to fetch chapter markers" });
+    }
+  });
+
+  // Get a chapter's transcript with its cues, for the captions in the players
+  app.get("/api/chapters/:id/transcript", async (req, res) => {
+    try {
+      const chapter = await storage.getChapter(req.params.id);
+      if (!chapter || !await storage.checkUserHasAccessToEpisode(req.session.userId, chapter.id)) {
+        return res.status(404).json({ error: "Chapter not found" });
+      }
+      if (!await storage.hasAccessToChapter(req.session.userId, chapter.id)) {
+        return res.status(403).json({ error: "Purchase required to access this chapter" });
+      }
+
+      const transcript = await storage.getChapterTranscriptWithCues(chapter.id);
+      if (!transcript) {
+        return res.status(404).json({ error: "Transcript not found" });
+      }
+      res.json(transcript);
+    } catch (error) {
+      console.error("Error fetching transcript:", error);
+      res.status(500).json({ error: "Failed to fetch transcript" });
+    }
+  });
+
+  // Transcript file (podcast:transcript); feeds link it with a signed URL, like the enclosure
+  app.get("/api/chapters/:id/transcript.:extension(vtt|txt)", async (req, res) => {
+    try {
+      const extension = req.params.extension as keyof typeof TRANSCRIPT_MIME_TYPES;
+      const chapter = await storage.getChapter(req.params.id);
+      if (!chapter || chapter.status !== "APPROVED") {
+        return res.status(404).json({ error: "Chapter not found" });
+      }
+
+      const signedFor = await verifyMediaSignature(req.path, req.query);
+      if (!signedFor && !(await storage.checkUserHasAccessToEpisode(req.session.userId, chapter.id) && await storage.hasAccessToChapter(req.session.userId, chapter.id))) {
+        return res.status(403).json({ error: "Purchase required to access this chapter" });
+      }
+
+      const transcript = await storage.getChapterTranscriptWithCues(chapter.id);
+      if (!transcript || (extension === "vtt" && getTranscriptExtension(transcript.format) !== "vtt")) {
+        return res.status(404).json({ error: "Transcript not found" });
+      }
+
+      res.setHeader("Content-Type", `${TRANSCRIPT_MIME_TYPES[extension]}; charset=utf-8`);
+      res.setHeader("Content-Language", transcript.language);
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.send(extension === "vtt" ? toWebVtt(transcript.cues) : toPlainText(transcript.cues, transcript.format !== "TEXT"));
+    } catch (error) {
+      console.error("Error serving transcript:", error);
+      res.status(500).json({ error: "Failed to serve transcript" });
+    }
+  });
+
+  // Search chapter transcripts; each hit has the timestamp to jump to. The text of
+  // a hit is only returned for chapters the caller can listen to
+  app.get("/api/transcripts/search", async (req, res) => {
+    try {
+      const params = transcriptSearchSchema.parse(req.query);
+      if (params.audiobookId && !await storage.checkUserHasAccessToPodcast(req.session.userId, params.audiobookId)) {
+        return res.status(404).json({ error: "Audiobook not found" });
+      }
+
+      const hits = await storage.searchTranscripts(params);
+      const accessByChapter = new Map<string, boolean>();
+      for (const hit of hits) {
+        let hasAccess = accessByChapter.get(hit.chapterId);
+        if (hasAccess === undefined) {
+          hasAccess = await storage.hasAccessToChapter(req.session.userId, hit.chapterId);
+          accessByChapter.set(hit.chapterId, hasAccess);
+        }
+        if (!hasAccess) {
+          hit.text = null;
+        }
+      }
+      res.json(hits);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid search parameters", details: error.errors });
+      }
+      console.error("Error searching transcripts:", error);
+      res.status(500).json({ error: "Failed to search transcripts" });
+    }
+  });
+
   // Add audiobook to favorites
   app.post("/api/audiobooks/:id/favorite", requireAuth, async (req, res) => {
     try {
@@ -904,6 +1567,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==================== REVIEW ROUTES ====================
+
+  // Get an audiobook's approved reviews and rating summary, plus the caller's own review
+  app.get("/api/audiobooks/:id/reviews", async (req, res) => {
+    try {
+      const userId = req.session.userId;
+      if (!await storage.checkUserHasAccessToPodcast(userId, req.params.id)) {
+        return res.status(404).json({ error: "Audiobook not found" });
+      }
+
+      const [summary, reviews, myReview] = await Promise.all([
+        storage.getReviewSummary(req.params.id),
+        storage.getApprovedReviewsByAudiobook(req.params.id),
+        userId ? storage.getReviewByUserAndAudiobook(userId, req.params.id) : undefined,
+      ]);
+      res.json({ summary, reviews, myReview: myReview || null });
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Review an audiobook (one review per user and audiobook)
+  app.post("/api/audiobooks/:id/reviews", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const audiobook = await storage.getAudiobook(req.params.id);
+      if (!audiobook || audiobook.status !== "APPROVED" || !await storage.checkUserHasAccessToPodcast(userId, audiobook.id)) {
+        return res.status(404).json({ error: "Audiobook not found" });
+      }
+
+      const input = reviewInputSchema.parse(req.body);
+      const review = await storage.createReview(userId, audiobook.id, input);
+      res.status(201).json(review);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("already exists")) {
+        return res.status(409).json({ error: "You have already reviewed this audiobook" });
+      }
+      console.error("Error creating review:", error);
+      res.status(500).json({ error: "Failed to create review" });
+    }
+  });
+
+  // Edit own review
+  app.patch("/api/reviews/:id", requireAuth, async (req, res) => {
+    try {
+      const review = await storage.getReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      if (review.userId !== req.session.userId) {
+        return res.status(403).json({ error: "You can only edit your own reviews" });
+      }
+
+      const input = reviewInputSchema.parse(req.body);
+      const updated = await storage.updateReview(review.id, input);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error updating review:", error);
+      res.status(500).json({ error: "Failed to update review" });
+    }
+  });
+
+  // Delete a review (its author or an admin)
+  app.delete("/api/reviews/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const review = await storage.getReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      if (review.userId !== userId) {
+        const user = await storage.getUser(userId);
+        if (user?.role !== "ADMIN") {
+          return res.status(403).json({ error: "You can only delete your own reviews" });
+        }
+      }
+
+      await storage.deleteReview(review.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting review:", error);
+      res.status(500).json({ error: "Failed to delete review" });
+    }
+  });
+
+  // ==================== SERIES ROUTES ====================
+
+  // Get a series with its volumes in reading order, access state and bundle offer
+  app.get("/api/series/:id", async (req, res) => {
+    try {
+      const userId = req.session.userId;
+      const item = await storage.getSeries(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      const volumes = await getSeriesVolumeStates(userId, await storage.getSeriesVolumes(item.id, true));
+      const quote = await storage.getSeriesBundleQuote(userId, item.id);
+      const bundle = quote ? {
+        priceCents: quote.priceCents,
+        listPriceCents: quote.listPriceCents,
+        currency: item.currency,
+        audiobookIds: quote.audiobooks.map(audiobook => audiobook.id),
+        inCart: userId
+          ? (await storage.getCartItems(userId)).some(cartItem => cartItem.seriesId === item.id && cartItem.bundleApplied)
+          : false,
+      } : null;
+
+      res.json({ ...item, volumes, bundle });
+    } catch (error) {
+      console.error("Error fetching series:", error);
+      res.status(500).json({ error: "Failed to fetch series" });
+    }
+  });
+
+  // Get the volume that follows an audiobook in its series, for "continue the series" prompts
+  app.get("/api/audiobooks/:id/next-in-series", async (req, res) => {
+    try {
+      const next = await storage.getNextInSeries(req.params.id);
+      if (!next || !next.seriesId) {
+        return res.json(null);
+      }
+
+      const item = await storage.getSeries(next.seriesId);
+      const [volume] = await getSeriesVolumeStates(req.session.userId, [next]);
+      res.json({ series: item, next: volume });
+    } catch (error) {
+      console.error("Error fetching next in series:", error);
+      res.status(500).json({ error: "Failed to fetch next in series" });
+    }
+  });
+
   // Get user's favorite audiobooks
   app.get("/api/library/favorites", requireAuth, async (req, res) => {
     try {
@@ -916,16 +1718,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get user's purchased audiobooks
+  // Get user's purchased audiobooks, together with those their household shares
   app.get("/api/library/purchases", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const purchases = await storage.getUserPurchases(userId);
+      const { purchasedAudiobookIds } = await storage.getEntitlements(userId);
       
       // Get the audiobook details for each purchase
       const audiobooks = await Promise.all(
-        purchases.map(async (purchase) => {
-          const audiobook = await storage.getAudiobook(purchase.audiobookId);
+        purchasedAudiobookIds.map(async (audiobookId) => {
+          const audiobook = await storage.getAudiobook(audiobookId);
           return audiobook;
         })
       );
@@ -937,157 +1739,688 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ===== SHOPPING CART ENDPOINTS =====
-
-  // Get cart items
-  app.get("/api/cart", requireAuth, async (req, res) => {
+  // Prepare the single-file download of a purchased audiobook
+  // Returns ready when a current export is cached, otherwise queues building it
+  app.post("/api/library/audiobooks/:id/export", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const items = await storage.getCartItems(userId);
-      const total = await storage.getCartTotal(userId);
-      res.json({ items, ...total });
+      const audiobook = await storage.getAudiobook(req.params.id);
+      if (!audiobook) {
+        return res.status(404).json({ error: "Audiobook not found" });
+      }
+
+      const { purchasedAudiobookIds } = await storage.getEntitlements(userId);
+      if (!purchasedAudiobookIds.includes(audiobook.id)) {
+        return res.status(403).json({ error: "Purchase required to download this audiobook" });
+      }
+
+      if (await getAudiobookExport(audiobook)) {
+        return res.json({ ready: true });
+      }
+
+      const payload: AudiobookExportJobPayload = { audiobookId: audiobook.id };
+      const job = await jobQueue.enqueue("audiobook-export", payload, { createdBy: userId });
+      res.status(202).json({ ready: false, job: serializeJob(job) });
     } catch (error) {
-      console.error("Error fetching cart:", error);
-      res.status(500).json({ error: "Failed to fetch cart" });
+      console.error("Error preparing audiobook export:", error);
+      res.status(500).json({ error: "Failed to prepare audiobook export" });
     }
   });
 
-  // Add item to cart
-  app.post("/api/cart/:audiobookId", requireAuth, async (req, res) => {
+  // Download the single-file export of a purchased audiobook
+  app.get("/api/library/audiobooks/:id/export/download", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const { audiobookId } = req.params;
-
-      // Check if audiobook exists
-      const audiobook = await storage.getAudiobook(audiobookId);
+      const audiobook = await storage.getAudiobook(req.params.id);
       if (!audiobook) {
         return res.status(404).json({ error: "Audiobook not found" });
       }
 
-      // Check if already purchased
-      const hasPurchased = await storage.hasPurchasedAudiobook(userId, audiobookId);
-      if (hasPurchased) {
-        return res.status(400).json({ error: "Already purchased" });
+      // Household members download the owner's copy, watermarked with their own name
+      let purchase = await storage.getPurchaseByUserAndAudiobook(userId, audiobook.id);
+      if (!purchase) {
+        const sharing = await storage.getHouseholdSharing(userId);
+        purchase = sharing ? await storage.getPurchaseByUserAndAudiobook(sharing.ownerId, audiobook.id) : undefined;
+      }
+      if (!purchase) {
+        return res.status(403).json({ error: "Purchase required to download this audiobook" });
       }
 
-      // Check if free
-      if (audiobook.isFree || audiobook.priceCents === 0) {
-        return res.status(400).json({ error: "Free audiobooks don't need to be in cart" });
+      const asset = await getAudiobookExport(audiobook);
+      if (!asset) {
+        return res.status(404).json({ error: "Export not ready" });
       }
 
-      const item = await storage.addToCart(userId, audiobookId);
-      res.status(201).json(item);
+      let watermark: string | null = null;
+      if (audiobook.watermarkExports) {
+        const user = await storage.getUser(userId);
+        watermark = `Copia de ${user?.username} (${user?.email}), compra ${purchase.id}`;
+      }
+
+      const { stream, sizeBytes } = await openAudiobookExport(asset, watermark);
+      const filename = audiobook.title.replace(/[^\w\s.-]/g, "").trim().replace(/\s+/g, "_") || "audiolibro";
+      res.setHeader("Content-Type", "audio/mpeg");
+      res.setHeader("Content-Length", sizeBytes);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.mp3"`);
+      await pipeline(stream, res);
     } catch (error) {
-      console.error("Error adding to cart:", error);
-      res.status(500).json({ error: "Failed to add to cart" });
+      if (isClientAbort(error)) {
+        return;
+      }
+      console.error("Error downloading audiobook export:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to download audiobook" });
+      }
     }
   });
 
-  // Remove item from cart
-  app.delete("/api/cart/:audiobookId", requireAuth, async (req, res) => {
+  // ==================== LISTENING PROGRESS ROUTES ====================
+
+  // Get "continue listening" shelf for the current user
+  app.get("/api/progress/continue-listening", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      await storage.removeFromCart(userId, req.params.audiobookId);
-      res.json({ success: true });
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+      const items = await storage.getContinueListening(userId, limit);
+      res.json(items);
     } catch (error) {
-      console.error("Error removing from cart:", error);
-      res.status(500).json({ error: "Failed to remove from cart" });
+      console.error("Error fetching continue listening:", error);
+      res.status(500).json({ error: "Failed to fetch continue listening" });
     }
   });
 
-  // Clear cart
-  app.delete("/api/cart", requireAuth, async (req, res) => {
+  // Get per-chapter progress for an audiobook, plus the resume point
+  app.get("/api/progress/audiobooks/:audiobookId", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      await storage.clearCart(userId);
-      res.json({ success: true });
+      const chapters = await storage.getAudiobookProgress(userId, req.params.audiobookId);
+      res.json({ resume: chapters[0] || null, chapters });
     } catch (error) {
-      console.error("Error clearing cart:", error);
-      res.status(500).json({ error: "Failed to clear cart" });
+      console.error("Error fetching audiobook progress:", error);
+      res.status(500).json({ error: "Failed to fetch progress" });
     }
   });
 
-  // Check if item is in cart
-  app.get("/api/cart/check/:audiobookId", requireAuth, async (req, res) => {
+  // Get saved position for a chapter
+  app.get("/api/progress/chapters/:chapterId", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const isInCart = await storage.isInCart(userId, req.params.audiobookId);
-      res.json({ isInCart });
+      const progress = await storage.getChapterProgress(userId, req.params.chapterId);
+      res.json(progress || null);
     } catch (error) {
-      console.error("Error checking cart:", error);
-      res.status(500).json({ error: "Failed to check cart" });
+      console.error("Error fetching chapter progress:", error);
+      res.status(500).json({ error: "Failed to fetch progress" });
     }
   });
 
-  // Get cart item count (for mobile badge)
-  app.get("/api/cart/count", requireAuth, async (req, res) => {
+  // Save position for a chapter
+  app.put("/api/progress/chapters/:chapterId", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const items = await storage.getCartItems(userId);
-      res.json({ itemCount: items.length });
+      const update = progressUpdateSchema.parse({ ...req.body, chapterId: req.params.chapterId });
+
+      const result = await applyProgressUpdate(userId, update);
+      if (!result) {
+        return res.status(404).json({ error: "Chapter not found" });
+      }
+
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching cart count:", error);
-      res.status(500).json({ error: "Failed to fetch cart count" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error saving chapter progress:", error);
+      res.status(500).json({ error: "Failed to save progress" });
     }
   });
 
-  // ===== MOBILE ENDPOINTS =====
-
-  // Get featured audiobook for mobile home screen
-  app.get("/api/mobile/featured", async (req, res) => {
+  // Save a batch of queued positions (sent by players on an interval and when the page is hidden)
+  app.post("/api/progress/sync", requireAuth, async (req, res) => {
     try {
-      const audiobooks = await storage.getPublicAudiobooks();
-      const approvedAudiobooks = audiobooks.filter(a => a.status === "APPROVED");
-      
-      // Get featured (first with isFeatured flag or first available)
-      const featured = approvedAudiobooks.find(a => a.isFeatured) || approvedAudiobooks[0] || null;
-      
-      res.json({
-        featured,
-        totalCount: approvedAudiobooks.length,
-      });
+      const userId = req.session.userId!;
+      const { updates } = z.object({
+        updates: z.array(progressUpdateSchema).max(100),
+      }).parse(req.body);
+
+      // Only the newest queued update per chapter matters
+      const latestByChapter = new Map<string, ProgressUpdate>();
+      for (const update of updates) {
+        const current = latestByChapter.get(update.chapterId);
+        if (!current || (update.updatedAt?.getTime() ?? 0) >= (current.updatedAt?.getTime() ?? 0)) {
+          latestByChapter.set(update.chapterId, update);
+        }
+      }
+
+      const results = [];
+      for (const update of Array.from(latestByChapter.values())) {
+        const result = await applyProgressUpdate(userId, update);
+        if (result) {
+          results.push(result);
+        }
+      }
+
+      res.json({ results });
     } catch (error) {
-      console.error("Error fetching mobile featured:", error);
-      res.status(500).json({ error: "Failed to fetch featured audiobook" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error syncing progress:", error);
+      res.status(500).json({ error: "Failed to sync progress" });
     }
   });
 
-  // Admin: Get all audiobooks
-  app.get("/api/admin/audiobooks", requireAuth, requireAdmin, async (req, res) => {
+  // ==================== BOOKMARK ROUTES ====================
+
+  // Get own bookmarks in a chapter
+  app.get("/api/chapters/:id/bookmarks", requireAuth, async (req, res) => {
     try {
-      const audiobooks = await storage.getAllAudiobooksWithPublisher();
-      res.json(audiobooks);
+      const bookmarks = await storage.getBookmarksByChapter(req.session.userId!, req.params.id);
+      res.json(bookmarks);
     } catch (error) {
-      console.error("Error fetching admin audiobooks:", error);
-      res.status(500).json({ error: "Failed to fetch audiobooks" });
+      console.error("Error fetching bookmarks:", error);
+      res.status(500).json({ error: "Failed to fetch bookmarks" });
     }
   });
 
-  // Admin: Create audiobook
-  app.post("/api/admin/audiobooks", requireAuth, requireAdmin, async (req, res) => {
+  // Bookmark a position (or a range) in a chapter
+  app.post("/api/chapters/:id/bookmarks", requireAuth, async (req, res) => {
     try {
-      const validated = insertAudiobookSchema.parse(req.body);
-      const audiobook = await storage.createAudiobook({
-        ...validated,
-        publisherId: req.session.userId!,
-        status: "APPROVED",
+      const userId = req.session.userId!;
+      const chapter = await storage.getChapter(req.params.id);
+      if (!chapter || !await storage.hasAccessToChapter(userId, chapter.id)) {
+        return res.status(404).json({ error: "Chapter not found" });
+      }
+
+      const input = bookmarkInputSchema.parse(req.body);
+      const bookmark = await storage.createBookmark({
+        ...input,
+        endPositionSeconds: input.endPositionSeconds ?? null,
+        userId,
+        audiobookId: chapter.audiobookId,
+        chapterId: chapter.id,
       });
-      res.status(201).json(audiobook);
+      res.status(201).json(bookmark);
     } catch (error) {
-      console.error("Error creating audiobook:", error);
       if (error instanceof z.ZodError) {
-        res.status(400).json({ error: "Validation failed", details: error.errors });
-      } else {
-        res.status(500).json({ error: "Failed to create audiobook" });
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
+      console.error("Error creating bookmark:", error);
+      res.status(500).json({ error: "Failed to create bookmark" });
     }
   });
 
-  // Admin: Delete audiobook
-  app.delete("/api/admin/audiobooks/:id", requireAuth, requireAdmin, async (req, res) => {
+  // Loads a bookmark for its owner, answering 404 for anyone else
+  const getOwnBookmark = async (req: Request, res: Response) => {
+    const bookmark = await storage.getBookmark(req.params.id);
+    if (!bookmark || bookmark.userId !== req.session.userId) {
+      res.status(404).json({ error: "Bookmark not found" });
+      return null;
+    }
+    return bookmark;
+  };
+
+  // Edit a bookmark's position, range or note
+  app.patch("/api/bookmarks/:id", requireAuth, async (req, res) => {
     try {
-      await storage.deleteAudiobook(req.params.id);
-      res.json({ success: true });
+      const bookmark = await getOwnBookmark(req, res);
+      if (!bookmark) return;
+
+      const updates = bookmarkUpdateSchema.parse(req.body);
+      // Validate the range as it will be stored
+      bookmarkInputSchema.parse({
+        positionSeconds: updates.positionSeconds ?? bookmark.positionSeconds,
+        endPositionSeconds: updates.endPositionSeconds !== undefined ? updates.endPositionSeconds : bookmark.endPositionSeconds,
+      });
+
+      const updated = await storage.updateBookmark(bookmark.id, updates);
+      // A shared clip is cut again for the new range
+      if (updated.shareToken && (updated.positionSeconds !== bookmark.positionSeconds || updated.endPositionSeconds !== bookmark.endPositionSeconds)) {
+        await queueBookmarkClip(updated);
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error updating bookmark:", error);
+      res.status(500).json({ error: "Failed to update bookmark" });
+    }
+  });
+
+  // Delete a bookmark (and its shared clip link)
+  app.delete("/api/bookmarks/:id", requireAuth, async (req, res) => {
+    try {
+      const bookmark = await getOwnBookmark(req, res);
+      if (!bookmark) return;
+
+      await storage.deleteBookmark(bookmark.id);
+      await deleteBookmarkClip(bookmark);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting bookmark:", error);
+      res.status(500).json({ error: "Failed to delete bookmark" });
+    }
+  });
+
+  // Get own bookmarks across an audiobook, in listening order
+  app.get("/api/audiobooks/:id/bookmarks", requireAuth, async (req, res) => {
+    try {
+      const bookmarks = await storage.getBookmarksByAudiobook(req.session.userId!, req.params.id);
+      res.json(bookmarks);
+    } catch (error) {
+      console.error("Error fetching audiobook bookmarks:", error);
+      res.status(500).json({ error: "Failed to fetch bookmarks" });
+    }
+  });
+
+  // Download own bookmarks of an audiobook as Markdown (default) or CSV
+  app.get("/api/audiobooks/:id/bookmarks/export", requireAuth, async (req, res) => {
+    try {
+      const { format } = z.object({ format: z.enum(["markdown", "csv"]).default("markdown") }).parse(req.query);
+      const audiobook = await storage.getAudiobook(req.params.id);
+      if (!audiobook) {
+        return res.status(404).json({ error: "Audiobook not found" });
+      }
+
+      const bookmarks = await storage.getBookmarksByAudiobook(req.session.userId!, audiobook.id);
+      const { body, contentType, extension } = exportBookmarks(audiobook, bookmarks, format);
+      const filename = audiobook.title.replace(/[^\w\s.-]/g, "").trim().replace(/\s+/g, "_") || "audiolibro";
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}_marcadores.${extension}"`);
+      res.send(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error exporting bookmarks:", error);
+      res.status(500).json({ error: "Failed to export bookmarks" });
+    }
+  });
+
+  // Share a bookmark as a clip; the link plays at most BOOKMARK_CLIP_MAX_SECONDS from its position.
+  // The clip is cut in the background, so the link starts playing a few seconds later
+  app.post("/api/bookmarks/:id/share", requireAuth, async (req, res) => {
+    try {
+      let bookmark = await getOwnBookmark(req, res);
+      if (!bookmark) return;
+
+      const chapter = await storage.getChapter(bookmark.chapterId);
+      if (!chapter?.audioUrl || !await storage.hasAccessToChapter(bookmark.userId, chapter.id)) {
+        return res.status(403).json({ error: "This chapter can't be shared" });
+      }
+
+      if (!bookmark.shareToken) {
+        const shared = await storage.shareBookmark(bookmark.id, crypto.randomBytes(16).toString("hex"), BOOKMARK_CLIP_MAX_SHARED_PER_CHAPTER);
+        if (!shared) {
+          return res.status(409).json({ error: `At most ${BOOKMARK_CLIP_MAX_SHARED_PER_CHAPTER} clips per chapter can be shared` });
+        }
+        bookmark = shared;
+      }
+      // Also retries a render that failed
+      if (!bookmark.clipAssetId) {
+        await queueBookmarkClip(bookmark);
+      }
+      const shareToken = bookmark.shareToken!;
+
+      const embedUrl = getClipEmbedUrl(getSiteUrl(req), shareToken);
+      const share: BookmarkClipShare = {
+        shareToken,
+        embedUrl,
+        embedCode: getEmbedIframeCode(embedUrl, chapter.title),
+      };
+      res.json(share);
+    } catch (error) {
+      console.error("Error sharing bookmark:", error);
+      res.status(500).json({ error: "Failed to share bookmark" });
+    }
+  });
+
+  // Stop sharing a clip; the old link stops working
+  app.delete("/api/bookmarks/:id/share", requireAuth, async (req, res) => {
+    try {
+      const bookmark = await getOwnBookmark(req, res);
+      if (!bookmark) return;
+
+      await storage.updateBookmark(bookmark.id, { shareToken: null, clipAssetId: null });
+      await deleteBookmarkClip(bookmark);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error unsharing bookmark:", error);
+      res.status(500).json({ error: "Failed to unshare bookmark" });
+    }
+  });
+
+  // A shared clip with its chapter and audiobook, while the sharer can still listen to it
+  const getSharedClip = async (token: string) => {
+    const bookmark = await storage.getBookmarkByShareToken(token);
+    if (!bookmark) return null;
+    const chapter = await storage.getChapterWithAudiobook(bookmark.chapterId);
+    if (!chapter?.audioUrl || chapter.status !== "APPROVED" || chapter.audiobook.status !== "APPROVED") return null;
+    if (!await storage.hasAccessToChapter(bookmark.userId, chapter.id)) return null;
+    return { bookmark, chapter };
+  };
+
+  // Audio of a shared clip (public), as rendered when it was shared
+  app.get("/api/clips/:token/audio", async (req, res) => {
+    try {
+      const clip = await getSharedClip(req.params.token);
+      if (!clip) {
+        return res.status(404).json({ error: "Clip not found" });
+      }
+      if (!clip.bookmark.clipAssetId) {
+        return res.status(404).json({ error: "Clip not ready" });
+      }
+
+      const { asset, stream } = await mediaOrchestrator.streamMedia(clip.bookmark.clipAssetId);
+      res.setHeader("Content-Type", asset.mimeType);
+      res.setHeader("Content-Length", asset.sizeBytes);
+      res.setHeader("Cache-Control", "public, max-age=3600");
+      await pipeline(stream, res);
+    } catch (error) {
+      if (isClientAbort(error)) {
+        return;
+      }
+      console.error("Error loading clip:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to load clip" });
+      }
+    }
+  });
+
+  // ===== SHOPPING CART ENDPOINTS =====
+
+  // Get cart items
+  app.get("/api/cart", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const items = await storage.getCartItems(userId);
+      const total = await storage.getCartTotal(userId);
+      res.json({ items, ...total });
+    } catch (error) {
+      console.error("Error fetching cart:", error);
+      res.status(500).json({ error: "Failed to fetch cart" });
+    }
+  });
+
+  // Add item to cart, optionally as a gift ({ gift: { recipientEmail, message } })
+  app.post("/api/cart/:audiobookId", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { audiobookId } = req.params;
+      const gift = req.body?.gift ? cartGiftSchema.parse(req.body.gift) : null;
+
+      // Check if audiobook exists
+      const audiobook = await storage.getAudiobook(audiobookId);
+      if (!audiobook) {
+        return res.status(404).json({ error: "Audiobook not found" });
+      }
+
+      // Check if already purchased; owners can still buy it as a gift
+      const hasPurchased = await storage.hasPurchasedAudiobook(userId, audiobookId);
+      if (hasPurchased && !gift) {
+        return res.status(400).json({ error: "Already purchased" });
+      }
+
+      // Check if free
+      if (audiobook.isFree || audiobook.priceCents === 0) {
+        return res.status(400).json({ error: "Free audiobooks don't need to be in cart" });
+      }
+
+      let item = await storage.addToCart(userId, audiobookId);
+      if (gift) {
+        item = (await storage.setCartItemGift(userId, audiobookId, gift)) || item;
+      }
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error adding to cart:", error);
+      res.status(500).json({ error: "Failed to add to cart" });
+    }
+  });
+
+  // Mark a cart item as a gift, or change its recipient and message
+  app.put("/api/cart/:audiobookId/gift", requireAuth, async (req, res) => {
+    try {
+      const gift = cartGiftSchema.parse(req.body);
+      const item = await storage.setCartItemGift(req.session.userId!, req.params.audiobookId, gift);
+      if (!item) {
+        return res.status(404).json({ error: "Item not in cart" });
+      }
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error updating cart gift:", error);
+      res.status(500).json({ error: "Failed to update gift" });
+    }
+  });
+
+  // Buy a cart item for yourself again instead of as a gift
+  app.delete("/api/cart/:audiobookId/gift", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { audiobookId } = req.params;
+
+      if (await storage.hasPurchasedAudiobook(userId, audiobookId)) {
+        return res.status(400).json({ error: "Already purchased" });
+      }
+
+      const item = await storage.setCartItemGift(userId, audiobookId, null);
+      if (!item) {
+        return res.status(404).json({ error: "Item not in cart" });
+      }
+      res.json(item);
+    } catch (error) {
+      console.error("Error removing cart gift:", error);
+      res.status(500).json({ error: "Failed to remove gift" });
+    }
+  });
+
+  // Add every volume of a series the user doesn't own yet, priced as a bundle
+  app.post("/api/cart/series/:seriesId", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const quote = await storage.getSeriesBundleQuote(userId, req.params.seriesId);
+      if (!quote) {
+        return res.status(400).json({ error: "This series is not available as a bundle" });
+      }
+
+      await storage.addSeriesBundleToCart(userId, req.params.seriesId, quote.audiobooks.map(audiobook => audiobook.id));
+      const items = await storage.getCartItems(userId);
+      const total = await storage.getCartTotal(userId);
+      res.status(201).json({ items, ...total });
+    } catch (error) {
+      console.error("Error adding series bundle to cart:", error);
+      res.status(500).json({ error: "Failed to add series bundle to cart" });
+    }
+  });
+
+  // Remove a series bundle from the cart
+  app.delete("/api/cart/series/:seriesId", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      await storage.removeSeriesBundleFromCart(userId, req.params.seriesId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing series bundle from cart:", error);
+      res.status(500).json({ error: "Failed to remove series bundle from cart" });
+    }
+  });
+
+  // Remove item from cart
+  app.delete("/api/cart/:audiobookId", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      await storage.removeFromCart(userId, req.params.audiobookId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing from cart:", error);
+      res.status(500).json({ error: "Failed to remove from cart" });
+    }
+  });
+
+  // Clear cart
+  app.delete("/api/cart", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      await storage.clearCart(userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error clearing cart:", error);
+      res.status(500).json({ error: "Failed to clear cart" });
+    }
+  });
+
+  // Check if item is in cart
+  app.get("/api/cart/check/:audiobookId", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const isInCart = await storage.isInCart(userId, req.params.audiobookId);
+      res.json({ isInCart });
+    } catch (error) {
+      console.error("Error checking cart:", error);
+      res.status(500).json({ error: "Failed to check cart" });
+    }
+  });
+
+  // Get cart item count (for mobile badge)
+  app.get("/api/cart/count", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const items = await storage.getCartItems(userId);
+      res.json({ itemCount: items.length });
+    } catch (error) {
+      console.error("Error fetching cart count:", error);
+      res.status(500).json({ error: "Failed to fetch cart count" });
+    }
+  });
+
+  // ===== GIFT ENDPOINTS =====
+
+  // Get a gift by its redeem token (public, so recipients can see it before signing in)
+  app.get("/api/gifts/:token", async (req, res) => {
+    try {
+      const gift = await storage.getGiftByToken(req.params.token);
+      if (!gift || gift.status !== "COMPLETED") {
+        return res.status(404).json({ error: "Gift not found" });
+      }
+
+      const details: GiftDetails = {
+        audiobook: gift.audiobook,
+        senderName: gift.sender.username,
+        recipientEmail: gift.giftRecipientEmail,
+        message: gift.giftMessage,
+        redeemedAt: gift.giftRedeemedAt,
+      };
+      res.json(details);
+    } catch (error) {
+      console.error("Error fetching gift:", error);
+      res.status(500).json({ error: "Failed to fetch gift" });
+    }
+  });
+
+  // Redeem a gift: the purchase moves to the signed-in account
+  app.post("/api/gifts/:token/redeem", requireAuth, async (req, res) => {
+    try {
+      const purchase = await storage.redeemGift(req.params.token, req.session.userId!);
+      res.json({ success: true, audiobookId: purchase.audiobookId });
+    } catch (error: any) {
+      if (error.message?.includes("Gift not found") || error.message?.includes("no longer valid")) {
+        return res.status(404).json({ error: "Gift not found" });
+      }
+      if (error.message?.includes("already redeemed")) {
+        return res.status(409).json({ error: "This gift has already been redeemed" });
+      }
+      if (error.message?.includes("already owned")) {
+        return res.status(400).json({ error: "You already own this audiobook" });
+      }
+      console.error("Error redeeming gift:", error);
+      res.status(500).json({ error: "Failed to redeem gift" });
+    }
+  });
+
+  // ===== MOBILE ENDPOINTS =====
+
+  // Get featured audiobook for mobile home screen
+  app.get("/api/mobile/featured", async (req, res) => {
+    try {
+      const audiobooks = await storage.getPublicAudiobooks();
+      const approvedAudiobooks = audiobooks.filter(a => a.status === "APPROVED");
+      
+      // Get featured (first with isFeatured flag or first available)
+      const featured = approvedAudiobooks.find(a => a.isFeatured) || approvedAudiobooks[0] || null;
+      
+      res.json({
+        featured,
+        totalCount: approvedAudiobooks.length,
+      });
+    } catch (error) {
+      console.error("Error fetching mobile featured:", error);
+      res.status(500).json({ error: "Failed to fetch featured audiobook" });
+    }
+  });
+
+  // Re-validate the chapters downloaded for offline listening; the app evicts any without access
+  app.post("/api/mobile/offline-licenses", requireAuth, async (req, res) => {
+    try {
+      const { chapterIds } = offlineLicenseRequestSchema.parse(req.body);
+      const userId = req.session.userId!;
+      const subject: MediaUrlSubject = { type: "user", userId };
+      const licenses = await Promise.all((await storage.getOfflineLicenses(userId, chapterIds)).map(async (license) => {
+        const chapter = license.hasAccess ? await storage.getChapter(license.chapterId) : undefined;
+        return chapter ? { ...license, audioUrl: (await signChapterAudio(chapter, subject)).audioUrl } : license;
+      }));
+      res.json({ licenses, checkedAt: new Date() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error checking offline licenses:", error);
+      res.status(500).json({ error: "Failed to check offline licenses" });
+    }
+  });
+
+  // Admin: Get all audiobooks
+  app.get("/api/admin/audiobooks", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const audiobooks = await storage.getAllAudiobooksWithPublisher();
+      res.json(audiobooks);
+    } catch (error) {
+      console.error("Error fetching admin audiobooks:", error);
+      res.status(500).json({ error: "Failed to fetch audiobooks" });
+    }
+  });
+
+  // Admin: Create audiobook
+  app.post("/api/admin/audiobooks", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validated = insertAudiobookSchema.parse(req.body);
+      const audiobook = await storage.createAudiobook({
+        ...validated,
+        publisherId: req.session.userId!,
+        status: "APPROVED",
+      });
+      res.status(201).json(audiobook);
+    } catch (error: any) {
+      console.error("Error creating audiobook:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation failed", details: error.errors });
+      } else if (error.message?.includes("Series not found")) {
+        res.status(400).json({ error: "Series not found" });
+      } else {
+        res.status(500).json({ error: "Failed to create audiobook" });
+      }
+    }
+  });
+
+  // Admin: Delete audiobook
+  app.delete("/api/admin/audiobooks/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteAudiobook(req.params.id);
+      res.json({ success: true });
     } catch (error) {
       console.error("Error deleting audiobook:", error);
       res.status(500).json({ error: "Failed to delete audiobook" });
@@ -1103,7 +2436,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const updated = await storage.updateAudiobook(req.params.id, req.body);
       res.json(updated);
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message?.includes("Series not found")) {
+        return res.status(400).json({ error: "Series not found" });
+      }
       console.error("Error updating audiobook:", error);
       res.status(500).json({ error: "Failed to update audiobook" });
     }
@@ -1116,6 +2452,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!audiobook) {
         return res.status(404).json({ error: "Audiobook not found" });
       }
+      setAuditContext(res, { before: audiobook });
       const updated = await storage.publishAudiobook(req.params.id);
       res.json(updated);
     } catch (error) {
@@ -1131,6 +2468,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!audiobook) {
         return res.status(404).json({ error: "Audiobook not found" });
       }
+      setAuditContext(res, { before: audiobook });
       const updated = await storage.unpublishAudiobook(req.params.id);
       res.json(updated);
     } catch (error) {
@@ -1139,6 +2477,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: List reviews, optionally filtered by moderation status
+  app.get("/api/admin/reviews", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(contentStatusEnum.enumValues).optional() }).parse(req.query);
+      const reviews = await storage.getReviewsForModeration(status);
+      res.json(reviews);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error fetching reviews for moderation:", error);
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Admin: Approve or reject a review
+  app.post("/api/admin/reviews/:id/moderate", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { status } = reviewModerationSchema.parse(req.body);
+      const review = await storage.moderateReview(req.params.id, status, req.session.userId!);
+      res.json(review);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      console.error("Error moderating review:", error);
+      res.status(500).json({ error: "Failed to moderate review" });
+    }
+  });
+
+  // Admin: Get all series with their volume count
+  app.get("/api/admin/series", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const allSeries = await storage.getAllSeries();
+      res.json(allSeries);
+    } catch (error) {
+      console.error("Error fetching series:", error);
+      res.status(500).json({ error: "Failed to fetch series" });
+    }
+  });
+
+  // Admin: Create series
+  app.post("/api/admin/series", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validated = insertSeriesSchema.parse(req.body);
+      if (await storage.getSeriesByName(validated.name)) {
+        return res.status(400).json({ error: "A series with this name already exists" });
+      }
+      const item = await storage.createSeries(validated);
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error creating series:", error);
+      res.status(500).json({ error: "Failed to create series" });
+    }
+  });
+
+  // Admin: Update series
+  app.patch("/api/admin/series/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getSeries(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+      const validated = insertSeriesSchema.partial().parse(req.body);
+      if (validated.name) {
+        const sameName = await storage.getSeriesByName(validated.name);
+        if (sameName && sameName.id !== existing.id) {
+          return res.status(400).json({ error: "A series with this name already exists" });
+        }
+      }
+      const updated = await storage.updateSeries(req.params.id, validated);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error updating series:", error);
+      res.status(500).json({ error: "Failed to update series" });
+    }
+  });
+
+  // Admin: Delete series; its volumes stay in the catalog without a series
+  app.delete("/api/admin/series/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getSeries(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+      await storage.deleteSeries(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting series:", error);
+      res.status(500).json({ error: "Failed to delete series" });
+    }
+  });
+
   // Admin: Get all chapters
   app.get("/api/admin/chapters", requireAuth, requireAdmin, async (req, res) => {
     try {
@@ -1154,8 +2594,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/admin/chapters", requireAuth, requireAdmin, async (req, res) => {
     try {
       const validated = insertChapterSchema.parse(req.body);
+      // Uploaded audio: point at the transcoded copy if it's ready, with its measured duration and size
+      const audio = validated.audioAssetId ? await resolveChapterAudio(validated.audioAssetId) : null;
       const chapter = await storage.createChapter({
         ...validated,
+        ...(audio && { ...audio, duration: audio.duration || validated.duration }),
         status: "APPROVED",
       });
       res.status(201).json(chapter);
@@ -1187,11 +2630,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!chapter) {
         return res.status(404).json({ error: "Chapter not found" });
       }
-      const updated = await storage.updateChapter(req.params.id, req.body);
+      const data = { ...req.body };
+      if (data.audioAssetId && data.audioAssetId !== chapter.audioAssetId) {
+        const audio = await resolveChapterAudio(data.audioAssetId);
+        if (audio) {
+          Object.assign(data, audio, { duration: audio.duration || data.duration });
+        }
+      }
+      const updated = await storage.updateChapter(req.params.id, data);
       res.json(updated);
     } catch (error) {
-      console.error("Error updating chapter:", error);
-      res.status(500).json({ error: "Failed to update chapter" });
+      console.error("Error updating chapter:", error);
+      res.status(500).json({ error: "Failed to update chapter" });
+    }
+  });
+
+  // Admin: Upload or replace a chapter transcript, as a file or pasted text
+  app.put("/api/admin/chapters/:id/transcript", requireAuth, requireAdmin, uploadTranscript.single("file"), async (req, res) => {
+    try {
+      const chapter = await storage.getChapter(req.params.id);
+      if (!chapter) {
+        return res.status(404).json({ error: "Chapter not found" });
+      }
+
+      const { content: pasted, language, format } = transcriptUploadSchema.parse(req.body);
+      const content = req.file ? req.file.buffer.toString("utf8") : pasted;
+      if (!content?.trim()) {
+        return res.status(400).json({ error: "No transcript provided" });
+      }
+
+      const transcriptFormat = format || detectTranscriptFormat(content, req.file?.originalname);
+      const cues = parseTranscript(content, transcriptFormat);
+      const transcript = await storage.saveChapterTranscript({
+        chapterId: chapter.id,
+        language,
+        format: transcriptFormat,
+        source: "UPLOAD",
+        createdBy: req.session.userId!,
+      }, cues);
+      res.json({ ...transcript, cueCount: cues.length });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error.message?.startsWith("Transcript has")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error saving transcript:", error);
+      res.status(500).json({ error: "Failed to save transcript" });
+    }
+  });
+
+  // Admin: Delete a chapter transcript
+  app.delete("/api/admin/chapters/:id/transcript", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteChapterTranscript(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting transcript:", error);
+      res.status(500).json({ error: "Failed to delete transcript" });
     }
   });
 
@@ -1453,56 +2950,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get RSS feed for podcast
+  // Public RSS feed of an audiobook: every chapter of free audiobooks, only the samples of paid ones
   app.get("/api/podcasts/:id/rss", async (req, res) => {
     try {
-      const podcast = await storage.getPodcastForRSS(req.params.id);
-      if (!podcast) {
-        return res.status(404).send("<?xml version=\"1.0\" encoding=\"UTF-8\"?><error>Podcast not found</error>");
-      }
-      
-      // RSS feeds are public - only include approved podcast if not approved
-      if (podcast.status !== "APPROVED") {
+      const audiobook = await storage.getAudiobook(req.params.id);
+      if (!audiobook || audiobook.status !== "APPROVED" || audiobook.visibility !== "PUBLIC") {
         return res.status(404).send("<?xml version=\"1.0\" encoding=\"UTF-8\"?><error>Podcast not found</error>");
       }
-      
-      // Filter to only include approved episodes in RSS feed
-      const approvedEpisodes = podcast.episodes.filter(e => e.status === "APPROVED");
-      
-      // Enrich episodes with effective cover art (fallback to podcast cover)
-      const enrichedEpisodes = approvedEpisodes.map(episode => {
-        const { coverArtUrl, coverArtAssetId } = resolveEpisodeArtwork(episode, podcast);
-        return {
-          ...episode,
-          effectiveCoverArtUrl: coverArtUrl,
-          effectiveCoverArtAssetId: coverArtAssetId,
-        };
-      });
-      
-      const podcastWithEnrichedEpisodes = {
-        ...podcast,
-        episodes: enrichedEpisodes,
-      };
 
-      // Generate site URL from request
+      const chapters = (await storage.getChaptersByAudiobook(audiobook.id))
+        .filter(chapter => chapter.status === "APPROVED" && (audiobook.isFree || chapter.isSample));
+
       const siteUrl = getSiteUrl(req);
-      const feedUrl = `${siteUrl}/api/podcasts/${podcast.id}/rss`;
-      
-      // Generate RSS XML
-      const rssXml = generateRSSFeed(podcastWithEnrichedEpisodes, feedUrl, siteUrl);
-      
-      // Set headers with ETag based on latest approved episode
-      const latestEpisodeTimestamp = approvedEpisodes.length > 0
-        ? new Date(approvedEpisodes[0].publishedAt).getTime()
-        : podcast.createdAt.getTime();
-      
-      res.set({
-        "Content-Type": "application/rss+xml; charset=utf-8",
-        "Cache-Control": "public, max-age=3600", // Cache for 1 hour
-        "ETag": `"${podcast.id}-${latestEpisodeTimestamp}"`,
+      const feed = await buildAudiobookFeed(audiobook, chapters, {
+        siteUrl,
+        feedUrl: `${siteUrl}/api/podcasts/${audiobook.id}/rss`,
+        subject: { type: "guest" },
+        isPrivate: false,
       });
-      
-      res.send(rssXml);
+      sendFeed(req, res, feed);
     } catch (error) {
       console.error("Error generating RSS feed:", error);
       res.status(500).send("<?xml version=\"1.0\" encoding=\"UTF-8\"?><error>Failed to generate RSS feed</error>");
@@ -1510,6 +2976,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Import podcast from RSS feed (protected - requires authentication)
+  // Runs as a background job; the result is on GET /api/jobs/:id
   app.post("/api/podcasts/import-rss", requireAuth, async (req, res) => {
     try {
       const schema = z.object({
@@ -1519,201 +2986,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { rssUrl } = schema.parse(req.body);
       const userId = req.session.userId!;
 
-      // Define iTunes interfaces for type-safe RSS parsing
-      interface ItunesFeed {
-        itunesImage?: { href: string };
-        itunesCategory?: string | { $: { text: string } };
-      }
-      
-      interface ItunesItem {
-        itunesDuration?: string | number;
-        itunesImage?: { href: string };
-      }
-      
-      // Import rss-parser dynamically with typed generics
-      const Parser = (await import("rss-parser")).default;
-      const parser = new Parser<ItunesFeed, ItunesItem>({
-        customFields: {
-          feed: [['itunes:image', 'itunesImage'], ['itunes:category', 'itunesCategory']],
-          item: [['itunes:duration', 'itunesDuration'], ['itunes:image', 'itunesImage']],
-        },
-      });
-
-      // Fetch and parse the RSS feed
-      const feed = await parser.parseURL(rssUrl);
-
-      if (!feed || !feed.title) {
-        return res.status(400).json({ 
-          error: "Feed RSS inválido - falta el título",
-          message: "Feed RSS inválido - falta el título"
-        });
-      }
-
-      // Check if podcast with same title already exists for this user
-      const existingPodcasts = await storage.getPodcastsByOwner(userId);
-      const duplicate = existingPodcasts.find(p => 
-        p.title.toLowerCase().trim() === (feed.title || "").toLowerCase().trim()
-      );
-      
-      if (duplicate) {
-        return res.status(409).json({ 
-          error: "Ya tienes un podcast con este nombre",
-          message: "Ya tienes un podcast con este nombre",
-          existingPodcastId: duplicate.id 
-        });
-      }
-
-      // Extract cover art with proper iTunes handling
-      let coverArtUrl: string | null = null;
-      if (feed.image?.url) {
-        coverArtUrl = feed.image.url;
-      } else if (feed.itunesImage?.href) {
-        coverArtUrl = feed.itunesImage.href;
-      } else if (feed.itunes?.image) {
-        coverArtUrl = feed.itunes.image;
-      }
-
-      // Extract category
-      let category = "General";
-      if (feed.itunesCategory) {
-        const cat = feed.itunesCategory;
-        category = typeof cat === 'string' ? cat : (cat.$ && cat.$.text) || "General";
-      } else if (feed.itunes?.categories && feed.itunes.categories.length > 0) {
-        category = feed.itunes.categories[0];
-      }
-
-      // Validate podcast data with schema
-      const podcastValidation = insertPodcastSchema.safeParse({
-        title: feed.title.trim(),
-        description: (feed.description || feed.title).trim(),
-        coverArtUrl: coverArtUrl || "",
-        category,
-        language: feed.language || "es",
-      });
-
-      if (!podcastValidation.success) {
-        return res.status(400).json({ 
-          error: "Datos inválidos en el feed RSS",
-          message: "Datos inválidos en el feed RSS",
-          details: podcastValidation.error.errors 
-        });
-      }
-
-      // Create the podcast
-      const podcastData = {
-        ...podcastValidation.data,
-        coverArtUrl: podcastValidation.data.coverArtUrl || null,
-        coverArtAssetId: null,
-        ownerId: userId,
-        status: "PENDING_APPROVAL" as const,
-        approvedAt: null,
-        approvedBy: null,
-      };
-
-      const podcast = await storage.createPodcast(podcastData);
-
-      // Import episodes from feed
-      let importedCount = 0;
-      let skippedCount = 0;
-      const errors: string[] = [];
-
-      if (feed.items && feed.items.length > 0) {
-        // Limit to first 50 episodes to avoid overwhelming the system
-        const itemsToImport = feed.items.slice(0, 50);
-
-        for (const item of itemsToImport) {
-          try {
-            // Extract audio URL from enclosure
-            const audioUrl = item.enclosure?.url || item.link;
-            
-            if (!audioUrl || !item.title) {
-              skippedCount++;
-              continue;
-            }
-
-            // Parse duration with improved handling
-            let durationSeconds: number | undefined = undefined;
-            const itunesDuration = item.itunesDuration;
-            
-            if (itunesDuration) {
-              const duration = itunesDuration;
-              if (typeof duration === 'string') {
-                if (duration.includes(':')) {
-                  // Format: HH:MM:SS or MM:SS
-                  const parts = duration.split(':').map(Number);
-                  if (parts.length === 3) {
-                    durationSeconds = parts[0] * 3600 + parts[1] * 60 + parts[2];
-                  } else if (parts.length === 2) {
-                    durationSeconds = parts[0] * 60 + parts[1];
-                  }
-                } else {
-                  // Format: seconds as string
-                  durationSeconds = parseInt(duration) || undefined;
-                }
-              } else if (typeof duration === 'number') {
-                durationSeconds = duration;
-              }
-            }
-
-            // Extract episode cover art
-            let episodeCoverArt: string | null = null;
-            if (item.itunesImage?.href) {
-              episodeCoverArt = item.itunesImage.href;
-            } else if (item.enclosure?.type?.startsWith('image/')) {
-              episodeCoverArt = item.enclosure.url;
-            }
-
-            // Validate episode data
-            const episodeValidation = insertEpisodeSchema.safeParse({
-              podcastId: podcast.id,
-              title: item.title.trim(),
-              notes: (item.contentSnippet || item.content || item.title).trim(),
-              audioUrl,
-              coverArtUrl: episodeCoverArt || "",
-              duration: durationSeconds,
-            });
-
-            if (!episodeValidation.success) {
-              errors.push(`Episode "${item.title}": ${episodeValidation.error.errors[0].message}`);
-              skippedCount++;
-              continue;
-            }
-
-            await storage.createEpisode(episodeValidation.data);
-            importedCount++;
-          } catch (episodeError: any) {
-            console.error(`Error importing episode "${item.title}":`, episodeError);
-            errors.push(`Episode "${item.title}": ${episodeError.message}`);
-            skippedCount++;
-          }
-        }
-      }
-
-      res.status(201).json({
-        podcast,
-        imported: importedCount,
-        skipped: skippedCount,
-        totalInFeed: feed.items?.length || 0,
-        errors: errors.length > 0 ? errors.slice(0, 5) : undefined,
-        message: `Podcast imported successfully with ${importedCount} episode${importedCount !== 1 ? 's' : ''}`,
-      });
+      const payload: RssImportJobPayload = { userId, rssUrl };
+      // Imports aren't idempotent, so a failed one is never retried automatically
+      const job = await jobQueue.enqueue("import-rss", payload, { createdBy: userId, maxAttempts: 1 });
+      res.status(202).json({ job: serializeJob(job) });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
       
-      // Handle RSS parsing errors with more detail
-      if (error.message?.includes('404')) {
-        return res.status(404).json({ error: "RSS feed not found at the provided URL" });
-      }
-      if (error.message?.includes('ENOTFOUND') || error.message?.includes('ECONNREFUSED')) {
-        return res.status(400).json({ error: "Cannot reach the RSS feed URL - please check the address" });
-      }
-      if (error.message?.includes('Invalid XML')) {
-        return res.status(400).json({ error: "The URL does not contain valid RSS feed data" });
-      }
-      
-      console.error("Error importing RSS feed:", error);
+      console.error("Error queuing RSS import:", error);
       res.status(500).json({ 
         error: "Failed to import RSS feed", 
         detail: error.message 
@@ -1722,13 +3004,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Preview YouTube playlist before importing (protected - ADMIN only)
-  app.get("/api/import-youtube/preview", requireAuth, async (req, res) => {
+  app.get("/api/import-youtube/preview", requireAdmin, async (req, res) => {
     try {
-      const user = await storage.getUser(req.session.userId!);
-      if (!user || user.role !== "ADMIN") {
-        return res.status(403).json({ error: "Solo administradores pueden importar desde YouTube" });
-      }
-
       const { playlistUrl, maxVideos } = req.query;
       
       if (!playlistUrl || typeof playlistUrl !== 'string') {
@@ -1785,200 +3062,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Import podcast from YouTube playlist (protected - ADMIN only)
-  app.post("/api/import-youtube", requireAuth, async (req, res) => {
-    const user = await storage.getUser(req.session.userId!);
-    if (!user || user.role !== "ADMIN") {
-      return res.status(403).json({ error: "Solo administradores pueden importar desde YouTube" });
-    }
+  // Runs as a background job; the result is on GET /api/jobs/:id
+  app.post("/api/import-youtube", requireAdmin, async (req, res) => {
     try {
       const validatedData = youtubeImportSchema.parse(req.body);
       const userId = req.session.userId!;
 
-      // Get playlist metadata
-      const playlistMetadata = await getPlaylistMetadata(validatedData.playlistUrl);
-
-      // Check if podcast with same title already exists for this user
-      const existingPodcasts = await storage.getPodcastsByOwner(userId);
-      const podcastTitle = validatedData.podcastTitle || playlistMetadata.title;
-      const duplicate = existingPodcasts.find(p => 
-        p.title.toLowerCase().trim() === podcastTitle.toLowerCase().trim()
-      );
-      
-      if (duplicate) {
-        return res.status(409).json({ 
-          error: "Ya tienes un podcast con este nombre",
-          message: "Ya tienes un podcast con este nombre",
-          existingPodcastId: duplicate.id 
-        });
-      }
-
-      // Get playlist videos
-      let videos = await getPlaylistVideos(playlistMetadata.playlistId, validatedData.maxVideos);
-
-      // Filter by selected video IDs if provided
-      if (validatedData.selectedVideoIds && validatedData.selectedVideoIds.length > 0) {
-        videos = videos.filter(v => validatedData.selectedVideoIds!.includes(v.videoId));
-      }
-
-      if (videos.length === 0) {
-        return res.status(400).json({
-          error: "No hay videos seleccionados para importar",
-          message: "Debes seleccionar al menos un video para importar"
-        });
-      }
-
-      // Create temporary directory for downloads
-      const tempDir = path.join(os.tmpdir(), `youtube-import-${Date.now()}`);
-      const tempFiles: string[] = [];
-
-      try {
-        // Download and upload podcast cover art if available
-        let coverArtAssetId: string | null = null;
-        if (playlistMetadata.thumbnailUrl) {
-          try {
-            const thumbnailFilename = `playlist-${playlistMetadata.playlistId}.jpg`;
-            const thumbnailPath = await downloadThumbnail(
-              playlistMetadata.thumbnailUrl, 
-              tempDir, 
-              thumbnailFilename
-            );
-            tempFiles.push(thumbnailPath);
-            
-            coverArtAssetId = await uploadImageToStorage(thumbnailPath, thumbnailFilename, userId);
-          } catch (thumbError) {
-            console.error("Error downloading playlist thumbnail:", thumbError);
-            // Continue without cover art
-          }
-        }
-
-        // Create the podcast
-        const podcast = await storage.createPodcast({
-          title: podcastTitle,
-          description: validatedData.podcastDescription || playlistMetadata.description || `Podcast importado desde YouTube: ${playlistMetadata.channelTitle}`,
-          coverArtUrl: null,
-          coverArtAssetId,
-          category: "YouTube Import",
-          language: "es",
-          ownerId: userId,
-          status: "PENDING_APPROVAL" as const,
-          visibility: validatedData.visibility as any,
-          approvedAt: null,
-          approvedBy: null,
-        });
-
-        // Import episodes
-        let importedCount = 0;
-        let skippedCount = 0;
-        const errors: string[] = [];
-
-        for (const video of videos) {
-          try {
-            // Add delay between downloads to avoid rate limiting (except first video)
-            if (importedCount > 0) {
-              await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay
-            }
-
-            // Download audio from video
-            const { audioPath, filename } = await downloadAudioFromVideo(video.videoId, tempDir);
-            tempFiles.push(audioPath);
-
-            // Upload audio to storage
-            const audioAssetId = await uploadAudioToStorage(
-              audioPath,
-              filename,
-              userId,
-              undefined, // episodeId - will be filled after creation
-              podcast.id
-            );
-
-            // Download episode cover art if different from podcast
-            let episodeCoverArtAssetId: string | null = null;
-            if (video.thumbnailUrl && video.thumbnailUrl !== playlistMetadata.thumbnailUrl) {
-              try {
-                const episodeThumbFilename = `video-${video.videoId}.jpg`;
-                const episodeThumbPath = await downloadThumbnail(
-                  video.thumbnailUrl,
-                  tempDir,
-                  episodeThumbFilename
-                );
-                tempFiles.push(episodeThumbPath);
-                
-                episodeCoverArtAssetId = await uploadImageToStorage(
-                  episodeThumbPath,
-                  episodeThumbFilename,
-                  userId,
-                  podcast.id
-                );
-              } catch (thumbError) {
-                console.error(`Error downloading thumbnail for video ${video.videoId}:`, thumbError);
-                // Continue without episode-specific cover art
-              }
-            }
-
-            // Create episode
-            await storage.createEpisode({
-              podcastId: podcast.id,
-              title: video.title,
-              notes: video.description || video.title,
-              audioUrl: undefined,
-              audioAssetId,
-              coverArtUrl: undefined,
-              coverArtAssetId: episodeCoverArtAssetId,
-              duration: video.duration,
-              status: "PENDING_APPROVAL" as const,
-              visibility: validatedData.visibility as any,
-              publishedAt: video.publishedAt?.toISOString(),
-              approvedAt: null,
-              approvedBy: null,
-            });
-
-            importedCount++;
-          } catch (episodeError: any) {
-            console.error(`Error importing video "${video.title}":`, episodeError);
-            errors.push(`Video "${video.title}": ${episodeError.message}`);
-            skippedCount++;
-          }
-        }
-
-        // Cleanup temp files
-        await cleanupTempFiles(tempFiles);
-
-        res.status(201).json({
-          podcast,
-          imported: importedCount,
-          skipped: skippedCount,
-          totalRequested: validatedData.maxVideos,
-          totalAvailable: videos.length,
-          errors: errors.length > 0 ? errors.slice(0, 5) : undefined,
-          message: `Podcast creado exitosamente con ${importedCount} episodio${importedCount !== 1 ? 's' : ''}`,
-        });
-      } catch (importError) {
-        // Cleanup temp files on error
-        await cleanupTempFiles(tempFiles);
-        throw importError;
-      }
+      const payload: YoutubeImportJobPayload = { userId, request: validatedData };
+      const job = await jobQueue.enqueue("import-youtube", payload, { createdBy: userId, maxAttempts: 1 });
+      res.status(202).json({ job: serializeJob(job) });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Datos inválidos", details: error.errors });
       }
 
-      console.error("Error importing from YouTube:", error);
-      
-      // Handle specific YouTube errors
-      if (error.message?.includes('YOUTUBE_API_KEY')) {
-        return res.status(500).json({ 
-          error: "YouTube API no configurada",
-          message: "El administrador debe configurar la API de YouTube para usar esta función"
-        });
-      }
-
-      if (error.message?.includes('Playlist no encontrada')) {
-        return res.status(404).json({ 
-          error: "Playlist no encontrada",
-          message: "Verifica que la URL sea correcta y que la playlist sea pública"
-        });
-      }
-
+      console.error("Error queuing YouTube import:", error);
       res.status(500).json({ 
         error: "Error al importar desde YouTube", 
         detail: error.message 
@@ -1989,372 +3087,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ==================== ZIP IMPORT ROUTES ====================
   
   // Import audiobook from ZIP file (protected - ADMIN only)
+  // The upload is stored in the temp directory and imported by a background job
   app.post("/api/admin/import/zip", requireAuth, requireAdmin, uploadZip.single('zipFile'), async (req, res) => {
-    const tempFiles: string[] = [];
-    let extractDir: string | null = null;
-    
-    // Extend request timeout for large files (30 minutes)
-    req.setTimeout(1800000);
-    res.setTimeout(1800000);
-    
-    try {
-      const userId = req.session.userId!;
-      const zipFile = req.file;
-      
-      if (!zipFile) {
-        return res.status(400).json({ error: "Debes subir un archivo ZIP" });
-      }
-      
-      tempFiles.push(zipFile.path);
-      
-      const path = await import('path');
-      const fsPromises = await import('fs/promises');
-      const fs = await import('fs');
-      const { execFile } = await import('child_process');
-      const { promisify } = await import('util');
-      const execFileAsync = promisify(execFile);
-      
-      extractDir = path.join(os.tmpdir(), `import-${Date.now()}`);
-      await fsPromises.mkdir(extractDir, { recursive: true });
-      
-      // Extract ZIP using system unzip command (much more robust for large files)
-      console.log(`[ZIP Import] Extracting ${zipFile.originalname} (${(zipFile.size / 1024 / 1024).toFixed(1)} MB) to ${extractDir}`);
-      try {
-        await execFileAsync('unzip', ['-o', '-q', zipFile.path, '-d', extractDir], {
-          timeout: 600000,
-          maxBuffer: 10 * 1024 * 1024,
-        });
-      } catch (unzipError: any) {
-        if (unzipError.code === 'ENOENT') {
-          console.log('[ZIP Import] System unzip not found, falling back to Node.js unzipper');
-          const unzipper = await import('unzipper');
-          await new Promise<void>((resolve, reject) => {
-            fs.createReadStream(zipFile.path)
-              .pipe(unzipper.Extract({ path: extractDir! }))
-              .on('close', resolve)
-              .on('error', reject);
-          });
-        } else {
-          throw new Error(`Error al extraer ZIP: ${unzipError.message || unzipError}`);
-        }
-      }
-      
-      // Security: validate extracted files - remove symlinks and files outside extractDir
-      const realExtractDir = await fsPromises.realpath(extractDir);
-      const validateExtractedFiles = async (dir: string) => {
-        const entries = await fsPromises.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.isSymbolicLink()) {
-            console.warn(`Symlink removed: ${fullPath}`);
-            await fsPromises.unlink(fullPath);
-          } else if (entry.isDirectory()) {
-            const realPath = await fsPromises.realpath(fullPath);
-            if (!realPath.startsWith(realExtractDir)) {
-              console.warn(`Directory outside extractDir removed: ${fullPath}`);
-              await fsPromises.rm(fullPath, { recursive: true, force: true });
-            } else {
-              await validateExtractedFiles(fullPath);
-            }
-          } else {
-            const realPath = await fsPromises.realpath(fullPath);
-            if (!realPath.startsWith(realExtractDir)) {
-              console.warn(`File outside extractDir removed: ${fullPath}`);
-              await fsPromises.unlink(fullPath);
-            }
-          }
-        }
-      };
-      await validateExtractedFiles(extractDir);
-      console.log('[ZIP Import] Extraction complete, files validated');
-      
-      // Recursively find all files in extracted directory (handles nested folders)
-      const findAllFiles = async (dir: string): Promise<string[]> => {
-        const entries = await fsPromises.readdir(dir, { withFileTypes: true });
-        const files: string[] = [];
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.name.startsWith('.') || entry.name === '__MACOSX') continue;
-          if (entry.isDirectory()) {
-            files.push(...await findAllFiles(fullPath));
-          } else {
-            // Additional safety: verify file is within extractDir
-            const realFile = await fsPromises.realpath(fullPath);
-            if (realFile.startsWith(realExtractDir)) {
-              files.push(realFile);
-            }
-          }
-        }
-        return files;
-      };
-      
-      const allFiles = await findAllFiles(extractDir);
-      
-      // Look for metadata.json
-      const metadataFile = allFiles.find(f => path.basename(f).toLowerCase() === 'metadata.json');
-      let metadata: any = null;
-      let autoDetectedFromMP3 = false;
-      
-      if (metadataFile) {
-        try {
-          const metadataContent = await fsPromises.readFile(metadataFile, 'utf-8');
-          metadata = JSON.parse(metadataContent);
-          // Strip any _fullPath from user-supplied metadata (security: prevent path traversal)
-          if (metadata?.chapters && Array.isArray(metadata.chapters)) {
-            metadata.chapters.forEach((ch: any) => { delete ch._fullPath; });
-          }
-        } catch (err) {
-          console.warn("Failed to parse metadata.json:", err);
-        }
-      }
-      
-      if (!metadata) {
-        console.log("No metadata.json found, attempting to read metadata from MP3 files...");
-        
-        const mp3Files = allFiles
-          .filter(f => f.toLowerCase().endsWith('.mp3'))
-          .sort((a, b) => path.basename(a).localeCompare(path.basename(b)));
-        
-        if (mp3Files.length === 0) {
-          return res.status(400).json({ 
-            error: "No se encontraron archivos MP3",
-            message: "El archivo ZIP debe contener archivos MP3 o un archivo metadata.json"
-          });
-        }
-        
-        const mm = await import('music-metadata');
-        const firstMp3Metadata = await mm.parseFile(mp3Files[0]);
-        
-        const albumTitle = firstMp3Metadata.common.album || "Audiolibro sin titulo";
-        const author = firstMp3Metadata.common.artist || "Autor desconocido";
-        const narrator = firstMp3Metadata.common.composer || null;
-        const genre = firstMp3Metadata.common.genre?.[0] || "Audiobook";
-        
-        const chaptersFromMP3: any[] = [];
-        
-        for (const mp3FullPath of mp3Files) {
-          const mp3FileName = path.basename(mp3FullPath);
-          try {
-            const mp3Meta = await mm.parseFile(mp3FullPath);
-            const trackNo = mp3Meta.common.track?.no || chaptersFromMP3.length + 1;
-            
-            chaptersFromMP3.push({
-              title: mp3Meta.common.title || mp3FileName.replace(/\.(mp3|MP3)$/, ''),
-              chapterNumber: trackNo,
-              description: null,
-              audioFile: mp3FileName,
-              _fullPath: mp3FullPath,
-              duration: Math.round(mp3Meta.format.duration || 0),
-              isSample: false,
-            });
-          } catch (mp3Err) {
-            console.warn(`Could not read metadata from ${mp3FileName}:`, mp3Err);
-            chaptersFromMP3.push({
-              title: mp3FileName.replace(/\.(mp3|MP3)$/, ''),
-              chapterNumber: chaptersFromMP3.length + 1,
-              audioFile: mp3FileName,
-              _fullPath: mp3FullPath,
-              duration: 0,
-              isSample: false,
-            });
-          }
-        }
-        
-        chaptersFromMP3.sort((a, b) => a.chapterNumber - b.chapterNumber);
-        chaptersFromMP3.forEach((ch, idx) => { ch.chapterNumber = idx + 1; });
-        
-        metadata = {
-          title: albumTitle,
-          author: author,
-          narrator: narrator,
-          description: "",
-          category: genre === "Audiobook" ? "Fiction" : genre,
-          language: "es",
-          isFree: true,
-          priceCents: 0,
-          currency: "EUR",
-          chapters: chaptersFromMP3,
-        };
-        
-        autoDetectedFromMP3 = true;
-        console.log(`Auto-detected audiobook: "${albumTitle}" by ${author} with ${chaptersFromMP3.length} chapters`);
-      }
-      
-      // Validate metadata structure with Zod
-      const zipMetadataSchema = z.object({
-        title: z.string().min(1, "Titulo es requerido"),
-        author: z.string().min(1, "Autor es requerido"),
-        narrator: z.string().optional().nullable(),
-        description: z.string().optional().nullable(),
-        category: z.string().default("Fiction"),
-        language: z.string().default("es"),
-        isFree: z.boolean().default(true),
-        priceCents: z.number().int().min(0).default(0),
-        currency: z.string().default("EUR"),
-        chapters: z.array(z.object({
-          title: z.string().optional(),
-          chapterNumber: z.number().int().min(1).optional(),
-          description: z.string().optional().nullable(),
-          audioFile: z.string().optional(),
-          _fullPath: z.string().optional(),
-          duration: z.number().int().min(0).default(0),
-          isSample: z.boolean().default(false),
-        })).default([]),
-      });
-      
-      let validatedMetadata;
-      try {
-        validatedMetadata = zipMetadataSchema.parse(metadata);
-      } catch (validationError) {
-        if (validationError instanceof z.ZodError) {
-          return res.status(400).json({ 
-            error: "Metadatos invalidos",
-            message: validationError.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
-          });
-        }
-        throw validationError;
-      }
-      
-      // Get storage service for uploads (local storage organized by audiobook title)
-      const storageService = StorageService.createLocal(validatedMetadata.title);
-      
-      // Upload cover art if exists (covers are small, buffer is fine)
-      let coverArtUrl: string | null = null;
-      const coverFileNames = ['cover.jpg', 'cover.png', 'cover.jpeg', 'portada.jpg', 'portada.png'];
-      
-      const coverFile = allFiles.find(f => coverFileNames.includes(path.basename(f).toLowerCase()));
-      if (coverFile) {
-        try {
-          const coverName = path.basename(coverFile);
-          const mimeType = coverName.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg';
-          const uploadResult = await storageService.saveCoverFromPath(coverFile, coverName, mimeType, userId);
-          coverArtUrl = uploadResult.publicUrl;
-        } catch (err) {
-          console.warn("Could not upload cover art:", err);
-        }
-      }
-      
-      // Create the audiobook
-      const audiobook = await storage.createAudiobook({
-        title: validatedMetadata.title,
-        author: validatedMetadata.author,
-        narrator: validatedMetadata.narrator || "",
-        description: validatedMetadata.description ?? "",
-        coverArtUrl: coverArtUrl,
-        category: validatedMetadata.category,
-        language: validatedMetadata.language,
-        priceCents: validatedMetadata.priceCents,
-        currency: validatedMetadata.currency,
-        isFree: validatedMetadata.isFree,
-        publisherId: userId,
-      });
-      
-      // Process chapters from metadata - use file copy instead of loading into memory
-      const chapters = validatedMetadata.chapters;
-      const createdChapters: any[] = [];
-      let totalDuration = 0;
-      
-      for (let i = 0; i < chapters.length; i++) {
-        const chapterMeta = chapters[i];
-        const chapterNumber = chapterMeta.chapterNumber || (i + 1);
-        
-        let audioUrl: string | null = null;
-        let duration = chapterMeta.duration || 0;
-        
-        if (chapterMeta.audioFile) {
-          // Find the audio file - only use paths verified to be within extractDir (from allFiles)
-          let audioPath: string | null = null;
-          
-          // If _fullPath was set by auto-detection, verify it's in our allFiles list
-          if (chapterMeta._fullPath && allFiles.includes(chapterMeta._fullPath)) {
-            audioPath = chapterMeta._fullPath;
-          }
-          // Otherwise search by filename in validated allFiles
-          if (!audioPath) {
-            audioPath = allFiles.find(f => path.basename(f) === path.basename(chapterMeta.audioFile!)) || null;
-          }
-          
-          if (audioPath) {
-            try {
-              await fsPromises.access(audioPath);
-              const ext = path.extname(chapterMeta.audioFile!).toLowerCase();
-              const mimeType = ext === '.mp3' ? 'audio/mpeg' : ext === '.m4a' ? 'audio/mp4' : 'audio/mpeg';
-              
-              // Use file copy instead of loading entire file into memory
-              const uploadResult = await storageService.saveAudioFromPath(audioPath, chapterMeta.audioFile!, mimeType, userId);
-              audioUrl = uploadResult.publicUrl;
-              
-              // Get duration from file metadata (only reads headers, not entire file)
-              if (duration === 0) {
-                try {
-                  const mm = await import('music-metadata');
-                  const audioMetadata = await mm.parseFile(audioPath);
-                  duration = Math.round(audioMetadata.format.duration || 0);
-                } catch {
-                  // Couldn't get duration
-                }
-              }
-              
-              console.log(`Imported chapter ${chapterNumber}: ${chapterMeta.title || chapterMeta.audioFile} (${duration}s)`);
-            } catch (err) {
-              console.warn(`Audio file not found: ${chapterMeta.audioFile}`, err);
-            }
-          } else {
-            console.warn(`Audio file not found in ZIP: ${chapterMeta.audioFile}`);
-          }
-        }
-        
-        totalDuration += duration;
-        
-        const chapter = await storage.createChapter({
-          title: chapterMeta.title || `Capitulo ${chapterNumber}`,
-          chapterNumber,
-          description: chapterMeta.description || null,
-          audioUrl,
-          duration,
-          isSample: chapterMeta.isSample || false,
-          audiobookId: audiobook.id,
-        });
-        
-        createdChapters.push(chapter);
-      }
-      
-      // Update audiobook with total duration
-      if (totalDuration > 0) {
-        await storage.updateAudiobook(audiobook.id, { totalDuration });
-      }
+    try {
+      const userId = req.session.userId!;
+      const zipFile = req.file;
       
-      // Cleanup
-      try {
-        await fsPromises.rm(extractDir, { recursive: true, force: true });
-        await fsPromises.unlink(zipFile.path);
-      } catch {
-        // Ignore cleanup errors
+      if (!zipFile) {
+        return res.status(400).json({ error: "Debes subir un archivo ZIP" });
       }
       
-      res.status(201).json({
-        success: true,
-        audiobook: { ...audiobook, totalDuration },
-        chaptersCreated: createdChapters.length,
-        message: `Audiolibro "${audiobook.title}" importado con ${createdChapters.length} capitulos`
-      });
-      
+      const payload: ZipImportJobPayload = {
+        userId,
+        zipFile: { path: zipFile.path, originalname: zipFile.originalname, size: zipFile.size },
+      };
+      const job = await jobQueue.enqueue("import-zip", payload, { createdBy: userId, maxAttempts: 1 });
+      res.status(202).json({ job: serializeJob(job) });
     } catch (error: any) {
-      console.error("Error importing from ZIP:", error);
-      
-      // Cleanup on error
-      try {
-        const fsPromises = await import('fs/promises');
-        for (const file of tempFiles) {
-          await fsPromises.unlink(file).catch(() => {});
-        }
-        if (extractDir) {
-          await fsPromises.rm(extractDir, { recursive: true, force: true }).catch(() => {});
-        }
-      } catch {
-        // Ignore cleanup errors
+      console.error("Error queuing ZIP import:", error);
+      if (req.file) {
+        await fs.promises.unlink(req.file.path).catch(() => {});
       }
-      
       res.status(500).json({ 
         error: "Error al importar ZIP", 
         detail: error.message 
@@ -2363,17 +3116,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Import podcast from local folder - multiple MP3 files (protected - ADMIN only)
-  app.post("/api/import-local", requireAuth, uploadLocalImport.fields([
+  app.post("/api/import-local", requireAdmin, uploadLocalImport.fields([
     { name: 'audioFiles', maxCount: 50 },
     { name: 'coverArt', maxCount: 1 }
   ]), async (req, res) => {
     const tempFiles: string[] = [];
     try {
-      const user = await storage.getUser(req.session.userId!);
-      if (!user || user.role !== "ADMIN") {
-        return res.status(403).json({ error: "Solo administradores pueden importar carpetas locales" });
-      }
-
       const userId = req.session.userId!;
       const files = req.files as { audioFiles?: Express.Multer.File[], coverArt?: Express.Multer.File[] };
       
@@ -2646,6 +3394,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==================== BACKGROUND JOB ROUTES ====================
+
+  // Get status and progress of a job (its creator or an admin)
+  app.get("/api/jobs/:id", requireAuth, async (req, res) => {
+    try {
+      const job = await storage.getBackgroundJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      if (job.createdBy !== req.session.userId) {
+        const user = await storage.getUser(req.session.userId!);
+        if (!user || user.role !== "ADMIN") {
+          return res.status(404).json({ error: "Job not found" });
+        }
+      }
+
+      res.json(serializeJob(job));
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
+
+  // List background jobs, optionally filtered by status and type (admin only)
+  app.get("/api/admin/jobs", requireAdmin, async (req, res) => {
+    try {
+      const schema = z.object({
+        status: z.enum(jobStatusEnum.enumValues).optional(),
+        type: z.enum(jobTypeValues).optional(),
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+      });
+      const filters = schema.parse(req.query);
+
+      const jobs = await storage.getBackgroundJobs(filters);
+      res.json(jobs.map(serializeJob));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  // Put a failed or cancelled job back in the queue (admin only)
+  app.post("/api/admin/jobs/:id/retry", requireAdmin, async (req, res) => {
+    try {
+      const job = await jobQueue.retry(req.params.id);
+      res.json(serializeJob(job));
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message?.includes("can be retried")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error retrying job:", error);
+      res.status(500).json({ error: "Failed to retry job" });
+    }
+  });
+
+  // Cancel a job that hasn't started yet (admin only)
+  app.post("/api/admin/jobs/:id/cancel", requireAdmin, async (req, res) => {
+    try {
+      const job = await storage.cancelBackgroundJob(req.params.id);
+      if (!job) {
+        return res.status(400).json({ error: "Only queued jobs can be cancelled" });
+      }
+      res.json(serializeJob(job));
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ error: "Failed to cancel job" });
+    }
+  });
+
   // ==================== PLAYLIST ROUTES ====================
 
   // Create playlist
@@ -3007,84 +3831,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Upload new audio file for existing episode
+  // Upload new audio file for an existing episode (a chapter). The upload is kept
+  // as the master and transcoded in the background, like /api/uploads/audio
   app.post("/api/episodes/:id/audio", requireAuth, uploadSingleAudio.single("audioFile"), async (req, res) => {
     const tempFiles: string[] = [];
     try {
       const userId = req.session.userId!;
-      const episodeId = req.params.id;
-      
-      // Verify the episode exists
-      const episode = await storage.getEpisode(episodeId);
-      if (!episode) {
+
+      const chapter = await storage.getChapter(req.params.id);
+      if (!chapter) {
         return res.status(404).json({ error: "Episodio no encontrado" });
       }
-      
-      // Get podcast to check ownership
-      const podcast = await storage.getPodcast(episode.podcastId);
-      if (!podcast) {
-        return res.status(404).json({ error: "Podcast no encontrado" });
+      const audiobook = await storage.getAudiobook(chapter.audiobookId);
+      if (!audiobook) {
+        return res.status(404).json({ error: "Audiolibro no encontrado" });
       }
-      
+
       // Verify user is owner or admin
       const user = await storage.getUser(userId);
-      const isOwner = podcast.ownerId === userId;
-      const isAdmin = user?.role === "ADMIN";
-      
-      if (!isOwner && !isAdmin) {
+      if (audiobook.publisherId !== userId && user?.role !== "ADMIN") {
         return res.status(403).json({ error: "No tienes permiso para modificar este episodio" });
       }
-      
-      // Verify audio file was uploaded
+
       const audioFile = req.file;
       if (!audioFile) {
         return res.status(400).json({ error: "Debes subir un archivo de audio" });
       }
-      
-      // Add temp file for cleanup
       tempFiles.push(audioFile.path);
-      
-      // Extract duration from MP3 metadata
+
+      // Measure the original with ffprobe; the transcoded copy is measured again by the job
       let duration = 0;
       try {
-        const metadata = await parseFile(audioFile.path);
-        duration = Math.round(metadata.format.duration || 0);
-      } catch (metadataError) {
-        console.warn(`Could not extract duration from ${audioFile.originalname}:`, metadataError);
+        const probe = await probeAudio(audioFile.path);
+        duration = probe.durationSeconds;
+      } catch (probeError) {
+        console.warn(`Could not probe ${audioFile.originalname}:`, probeError);
       }
-      
-      // Read file from disk into buffer
-      const fileBuffer = fs.readFileSync(audioFile.path);
-      const fileWithBuffer = {
-        ...audioFile,
-        buffer: fileBuffer
-      };
-      
-      // Upload new audio file
-      const audioAsset = await mediaOrchestrator.saveEpisodeAudio(
-        fileWithBuffer,
-        userId,
-        episodeId,
-        podcast.id
-      );
-      
-      // Delete old audio asset if it exists
-      if (episode.audioAssetId) {
+
+      const fileWithBuffer = { ...audioFile, buffer: await fs.promises.readFile(audioFile.path) };
+      const master = await mediaOrchestrator.saveAudioMaster(fileWithBuffer, userId, duration);
+      const jobId = await queueAudioTranscode(master, userId);
+
+      // The chapter plays the master until the transcode job swaps it for the transcoded file
+      const audio = await resolveChapterAudio(master.id);
+      const updated = await storage.updateChapter(chapter.id, {
+        ...audio,
+        duration: audio?.duration || duration,
+      });
+
+      if (chapter.audioAssetId && chapter.audioAssetId !== updated.audioAssetId) {
         try {
-          await mediaOrchestrator.deleteMediaAsset(episode.audioAssetId);
+          await mediaOrchestrator.deleteMediaAsset(chapter.audioAssetId);
         } catch (deleteError) {
-          console.warn(`Could not delete old audio asset ${episode.audioAssetId}:`, deleteError);
+          console.warn(`Could not delete old audio asset ${chapter.audioAssetId}:`, deleteError);
         }
       }
-      
-      // Update episode with new audio file
-      const updated = await storage.updateEpisode(episodeId, {
-        audioAssetId: audioAsset.id,
-        audioUrl: undefined, // Clear old URL, will be resolved from asset
-        duration,
-      });
-      
-      res.json(updated);
+
+      res.json({ ...updated, jobId });
     } catch (error: any) {
       console.error("Error uploading new audio file:", error);
       res.status(500).json({ 
@@ -3191,61 +3994,259 @@ export async function registerRoutes(app: Express): Promise<Server> {
           </html>
         `);
       }
-      
-      // Generate URLs
+      
+      // Generate URLs
+      const siteUrl = getSiteUrl(req);
+      const canonicalUrl = getEpisodeCanonicalUrl(siteUrl, episode.podcastId, episode.id);
+      
+      // Escape HTML entities for safe rendering (requires non-null string input)
+      const escapeHtml = (str: string) => str
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+      
+      // Provide safe defaults before escaping
+      const safeEpisodeTitle = episode.title || 'Episodio sin título';
+      const safePodcastTitle = podcast?.title || 'Podcast';
+      const safeDescription = episode.notes ? episode.notes.substring(0, 200) : safeEpisodeTitle;
+      // Use enriched episode's effective cover art (with automatic podcast fallback)
+      const safeCoverArtUrl = episode.effectiveCoverArtUrl || '';
+      const safeAudioUrl = episode.audioUrl || '';
+
+      const html = `<!DOCTYPE html>
+<html lang="es">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(safeEpisodeTitle)} - ${escapeHtml(safePodcastTitle)}</title>
+    
+    <!-- Open Graph meta tags -->
+    <meta property="og:type" content="music.song">
+    <meta property="og:title" content="${escapeHtml(safeEpisodeTitle)}">
+    <meta property="og:description" content="${escapeHtml(safeDescription)}">
+    <meta property="og:url" content="${escapeHtml(canonicalUrl)}">
+    ${safeCoverArtUrl ? `<meta property="og:image" content="${escapeHtml(safeCoverArtUrl)}">` : ''}
+    <meta property="og:audio" content="${escapeHtml(safeAudioUrl)}">
+    
+    <!-- Twitter Card meta tags -->
+    <meta name="twitter:card" content="player">
+    <meta name="twitter:title" content="${escapeHtml(safeEpisodeTitle)}">
+    <meta name="twitter:description" content="${escapeHtml(safeDescription)}">
+    ${safeCoverArtUrl ? `<meta name="twitter:image" content="${escapeHtml(safeCoverArtUrl)}">` : ''}
+    
+    <style>
+      * {
+        margin: 0;
+        padding: 0;
+        box-sizing: border-box;
+      }
+      
+      body {
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+        background: #ffffff;
+        overflow: hidden;
+      }
+      
+      .player-container {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 16px;
+        max-width: 420px;
+        height: 200px;
+        margin: 0 auto;
+        background: linear-gradient(135deg, #ff6b35 0%, #f7931e 100%);
+        border-radius: 8px;
+      }
+      
+      .cover-art {
+        width: 120px;
+        height: 120px;
+        border-radius: 8px;
+        object-fit: cover;
+        flex-shrink: 0;
+        background: rgba(0, 0, 0, 0.1);
+      }
+      
+      .player-content {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        min-width: 0;
+        color: white;
+      }
+      
+      .episode-title {
+        font-size: 16px;
+        font-weight: 700;
+        line-height: 1.3;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        display: -webkit-box;
+        -webkit-line-clamp: 2;
+        -webkit-box-orient: vertical;
+      }
+      
+      .podcast-title {
+        font-size: 13px;
+        opacity: 0.9;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      
+      audio {
+        width: 100%;
+        height: 40px;
+        outline: none;
+      }
+      
+      .cta-link {
+        display: inline-block;
+        padding: 6px 12px;
+        background: rgba(255, 255, 255, 0.2);
+        backdrop-filter: blur(10px);
+        border-radius: 6px;
+        color: white;
+        text-decoration: none;
+        font-size: 12px;
+        font-weight: 600;
+        transition: background 0.2s;
+        text-align: center;
+      }
+      
+      .cta-link:hover {
+        background: rgba(255, 255, 255, 0.3);
+      }
+      
+      @media (max-width: 380px) {
+        .cover-art {
+          width: 80px;
+          height: 80px;
+        }
+        .episode-title {
+          font-size: 14px;
+        }
+        .podcast-title {
+          font-size: 12px;
+        }
+      }
+    </style>
+  </head>
+  <body>
+    <div class="player-container">
+      ${safeCoverArtUrl && safeCoverArtUrl.trim() ? `<img src="${escapeHtml(safeCoverArtUrl)}" alt="${escapeHtml(safePodcastTitle)}" class="cover-art">` : ''}
+      <div class="player-content">
+        <h2 class="episode-title">${escapeHtml(safeEpisodeTitle)}</h2>
+        ${podcast ? `<p class="podcast-title">${escapeHtml(safePodcastTitle)}</p>` : ''}
+        <audio controls preload="metadata">
+          <source src="${escapeHtml(safeAudioUrl)}" type="audio/mpeg">
+          Tu navegador no soporta el elemento de audio.
+        </audio>
+        <a href="${escapeHtml(canonicalUrl)}" target="_blank" class="cta-link" rel="noopener noreferrer">
+          Ver episodio completo →
+        </a>
+      </div>
+    </div>
+  </body>
+</html>`;
+
+      // Set appropriate headers for iframe embedding (allow all origins for multitenant use)
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      // Use CSP frame-ancestors instead of deprecated X-Frame-Options
+      res.setHeader('Content-Security-Policy', "frame-ancestors *;");
+      res.send(html);
+    } catch (error) {
+      console.error("Error in embed route:", error);
+      res.status(500).send("Error loading episode");
+    }
+  });
+
+  // Embed route for a shared bookmark clip - plays only the clip, never the whole chapter
+  app.get("/embed/clip/:token", async (req, res) => {
+    const escapeHtml = (str: string) => str
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+
+    try {
+      const clip = await getSharedClip(req.params.token);
+      if (!clip) {
+        res.status(404);
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        return res.send(`<!DOCTYPE html>
+<html lang="es">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Fragmento no disponible</title>
+    <style>
+      body {
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        min-height: 200px;
+        margin: 0;
+        background: #f5f5f5;
+        color: #333;
+      }
+    </style>
+  </head>
+  <body>
+    <p>Fragmento no disponible</p>
+  </body>
+</html>`);
+      }
+
+      const { bookmark, chapter } = clip;
+      const { startSeconds, durationSeconds } = getClipRange(bookmark);
       const siteUrl = getSiteUrl(req);
-      const canonicalUrl = getEpisodeCanonicalUrl(siteUrl, episode.podcastId, episode.id);
-      
-      // Escape HTML entities for safe rendering (requires non-null string input)
-      const escapeHtml = (str: string) => str
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#039;');
-      
-      // Provide safe defaults before escaping
-      const safeEpisodeTitle = episode.title || 'Episodio sin título';
-      const safePodcastTitle = podcast?.title || 'Podcast';
-      const safeDescription = episode.notes ? episode.notes.substring(0, 200) : safeEpisodeTitle;
-      // Use enriched episode's effective cover art (with automatic podcast fallback)
-      const safeCoverArtUrl = episode.effectiveCoverArtUrl || '';
-      const safeAudioUrl = episode.audioUrl || '';
+      const audiobookUrl = `${siteUrl}/audiobook/${chapter.audiobook.id}`;
+      const audioUrl = `${siteUrl}/api/clips/${req.params.token}/audio`;
+      const title = `${chapter.title} (${formatPosition(startSeconds)} - ${formatPosition(startSeconds + durationSeconds)})`;
+      const coverArtUrl = chapter.coverArtUrl || chapter.audiobook.coverArtUrl || '';
+      const description = bookmark.note ? bookmark.note.substring(0, 200) : `${chapter.audiobook.title} - ${chapter.audiobook.author}`;
 
       const html = `<!DOCTYPE html>
 <html lang="es">
   <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${escapeHtml(safeEpisodeTitle)} - ${escapeHtml(safePodcastTitle)}</title>
-    
+    <title>${escapeHtml(title)} - ${escapeHtml(chapter.audiobook.title)}</title>
+
     <!-- Open Graph meta tags -->
     <meta property="og:type" content="music.song">
-    <meta property="og:title" content="${escapeHtml(safeEpisodeTitle)}">
-    <meta property="og:description" content="${escapeHtml(safeDescription)}">
-    <meta property="og:url" content="${escapeHtml(canonicalUrl)}">
-    ${safeCoverArtUrl ? `<meta property="og:image" content="${escapeHtml(safeCoverArtUrl)}">` : ''}
-    <meta property="og:audio" content="${escapeHtml(safeAudioUrl)}">
-    
+    <meta property="og:title" content="${escapeHtml(title)}">
+    <meta property="og:description" content="${escapeHtml(description)}">
+    <meta property="og:url" content="${escapeHtml(getClipEmbedUrl(siteUrl, req.params.token))}">
+    ${coverArtUrl ? `<meta property="og:image" content="${escapeHtml(coverArtUrl)}">` : ''}
+    <meta property="og:audio" content="${escapeHtml(audioUrl)}">
+
     <!-- Twitter Card meta tags -->
     <meta name="twitter:card" content="player">
-    <meta name="twitter:title" content="${escapeHtml(safeEpisodeTitle)}">
-    <meta name="twitter:description" content="${escapeHtml(safeDescription)}">
-    ${safeCoverArtUrl ? `<meta name="twitter:image" content="${escapeHtml(safeCoverArtUrl)}">` : ''}
-    
+    <meta name="twitter:title" content="${escapeHtml(title)}">
+    <meta name="twitter:description" content="${escapeHtml(description)}">
+    ${coverArtUrl ? `<meta name="twitter:image" content="${escapeHtml(coverArtUrl)}">` : ''}
+
     <style>
       * {
         margin: 0;
         padding: 0;
         box-sizing: border-box;
       }
-      
+
       body {
         font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
         background: #ffffff;
         overflow: hidden;
       }
-      
+
       .player-container {
         display: flex;
         align-items: center;
@@ -3257,7 +4258,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         background: linear-gradient(135deg, #ff6b35 0%, #f7931e 100%);
         border-radius: 8px;
       }
-      
+
       .cover-art {
         width: 120px;
         height: 120px;
@@ -3266,380 +4267,493 @@ export async function registerRoutes(app: Express): Promise<Server> {
         flex-shrink: 0;
         background: rgba(0, 0, 0, 0.1);
       }
-      
+
       .player-content {
         flex: 1;
         display: flex;
         flex-direction: column;
-        gap: 8px;
+        gap: 6px;
         min-width: 0;
         color: white;
       }
-      
-      .episode-title {
-        font-size: 16px;
+
+      .clip-title {
+        font-size: 15px;
         font-weight: 700;
         line-height: 1.3;
         overflow: hidden;
         text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .clip-note {
+        font-size: 13px;
+        font-style: italic;
+        opacity: 0.95;
+        overflow: hidden;
+        text-overflow: ellipsis;
         display: -webkit-box;
         -webkit-line-clamp: 2;
         -webkit-box-orient: vertical;
       }
-      
-      .podcast-title {
-        font-size: 13px;
+
+      .audiobook-title {
+        font-size: 12px;
         opacity: 0.9;
         overflow: hidden;
         text-overflow: ellipsis;
         white-space: nowrap;
       }
-      
+
       audio {
         width: 100%;
-        height: 40px;
+        height: 36px;
         outline: none;
       }
-      
+
       .cta-link {
         display: inline-block;
         padding: 6px 12px;
         background: rgba(255, 255, 255, 0.2);
-        backdrop-filter: blur(10px);
         border-radius: 6px;
         color: white;
         text-decoration: none;
         font-size: 12px;
         font-weight: 600;
-        transition: background 0.2s;
         text-align: center;
       }
-      
+
       .cta-link:hover {
         background: rgba(255, 255, 255, 0.3);
       }
-      
+
       @media (max-width: 380px) {
         .cover-art {
           width: 80px;
           height: 80px;
         }
-        .episode-title {
-          font-size: 14px;
-        }
-        .podcast-title {
-          font-size: 12px;
-        }
       }
     </style>
   </head>
   <body>
     <div class="player-container">
-      ${safeCoverArtUrl && safeCoverArtUrl.trim() ? `<img src="${escapeHtml(safeCoverArtUrl)}" alt="${escapeHtml(safePodcastTitle)}" class="cover-art">` : ''}
+      ${coverArtUrl ? `<img src="${escapeHtml(coverArtUrl)}" alt="${escapeHtml(chapter.audiobook.title)}" class="cover-art">` : ''}
       <div class="player-content">
-        <h2 class="episode-title">${escapeHtml(safeEpisodeTitle)}</h2>
-        ${podcast ? `<p class="podcast-title">${escapeHtml(safePodcastTitle)}</p>` : ''}
-        <audio controls preload="metadata">
-          <source src="${escapeHtml(safeAudioUrl)}" type="audio/mpeg">
+        <h2 class="clip-title">${escapeHtml(title)}</h2>
+        ${bookmark.note ? `<p class="clip-note">"${escapeHtml(bookmark.note)}"</p>` : ''}
+        <p class="audiobook-title">${escapeHtml(chapter.audiobook.title)} - ${escapeHtml(chapter.audiobook.author)}</p>
+        ${bookmark.clipAssetId ? `<audio controls preload="none">
+          <source src="${escapeHtml(audioUrl)}" type="${AUDIO_OUTPUT.mimeType}">
           Tu navegador no soporta el elemento de audio.
-        </audio>
-        <a href="${escapeHtml(canonicalUrl)}" target="_blank" class="cta-link" rel="noopener noreferrer">
-          Ver episodio completo →
+        </audio>` : `<p class="clip-note">El fragmento se esta preparando, vuelve a cargar la pagina en unos segundos.</p>`}
+        <a href="${escapeHtml(audiobookUrl)}" target="_blank" class="cta-link" rel="noopener noreferrer">
+          Escuchar el audiolibro →
         </a>
       </div>
     </div>
   </body>
 </html>`;
 
-      // Set appropriate headers for iframe embedding (allow all origins for multitenant use)
       res.setHeader('Content-Type', 'text/html; charset=utf-8');
-      // Use CSP frame-ancestors instead of deprecated X-Frame-Options
       res.setHeader('Content-Security-Policy', "frame-ancestors *;");
       res.send(html);
     } catch (error) {
-      console.error("Error in embed route:", error);
-      res.status(500).send("Error loading episode");
+      console.error("Error in clip embed route:", error);
+      res.status(500).send("Error loading clip");
     }
   });
 
   // ==================== CONTENT INVITATION ROUTES ====================
   
-  // Create invitation for a podcast
+  // Invitation target: an audiobook, or a chapter together with its audiobook
+  const getInvitationContent = async (target: { audiobookId?: string; chapterId?: string }) => {
+    if (target.chapterId) {
+      const chapter = await storage.getChapterWithAudiobook(target.chapterId);
+      return chapter ? { audiobook: chapter.audiobook, chapter, title: `${chapter.audiobook.title} - ${chapter.title}` } : null;
+    }
+    const audiobook = await storage.getAudiobook(target.audiobookId!);
+    return audiobook ? { audiobook, chapter: null, title: audiobook.title } : null;
+  };
+  
+  // Only the audiobook's publisher or an admin manages its invitations
+  const canManageInvitations = async (userId: string, audiobook: Audiobook) => {
+    if (audiobook.publisherId === userId) return true;
+    const user = await storage.getUser(userId);
+    return user?.role === "ADMIN";
+  };
+  
+  // The token only goes out in the invitation email
+  const serializeInvitation = ({ token: _, ...invitation }: ContentInvitation) => invitation;
+  
+  const createInvitation = async (req: Request, res: Response, target: { audiobookId?: string; chapterId?: string }) => {
+    const userId = req.session.userId!;
+    const { email, expiresAt } = createContentInvitationSchema.parse(req.body);
+    
+    const content = await getInvitationContent(target);
+    if (!content) {
+      return res.status(404).json({ error: target.chapterId ? "Chapter not found" : "Audiobook not found" });
+    }
+    if (!await canManageInvitations(userId, content.audiobook)) {
+      return res.status(403).json({ error: "Forbidden - Only the publisher can invite users" });
+    }
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      return res.status(400).json({ error: "Expiry date must be in the future" });
+    }
+    if (await storage.getActiveContentInvitation(email, target)) {
+      return res.status(409).json({ error: "This email already has an active invitation" });
+    }
+    
+    const invitation = await storage.createContentInvitation({
+      email,
+      audiobookId: target.chapterId ? null : target.audiobookId!,
+      chapterId: target.chapterId ?? null,
+      token: crypto.randomBytes(32).toString("hex"),
+      invitedBy: userId,
+      expiresAt: expiresAt ? new Date(expiresAt) : null,
+    });
+    
+    const inviter = await storage.getUser(userId);
+    try {
+      await getEmailService().sendContentInvitationEmail(
+        email,
+        inviter?.username || "Audivia",
+        content.title,
+        `${getSiteUrl(req)}/invitation/${invitation.token}`,
+        invitation.expiresAt ? invitation.expiresAt.toISOString() : null
+      );
+    } catch (emailError) {
+      console.error(`Error sending invitation email to ${email}:`, emailError);
+    }
+    
+    res.status(201).json(serializeInvitation(invitation));
+  };
+  
+  const listInvitations = async (req: Request, res: Response, target: { audiobookId?: string; chapterId?: string }) => {
+    const content = await getInvitationContent(target);
+    if (!content) {
+      return res.status(404).json({ error: target.chapterId ? "Chapter not found" : "Audiobook not found" });
+    }
+    if (!await canManageInvitations(req.session.userId!, content.audiobook)) {
+      return res.status(403).json({ error: "Forbidden - Only the publisher can view invitations" });
+    }
+    
+    const invitations = target.chapterId
+      ? await storage.getContentInvitationsByEpisode(target.chapterId)
+      : await storage.getContentInvitationsByPodcast(target.audiobookId!);
+    res.json(invitations.map(serializeInvitation));
+  };
+  
+  // Invite an email to an audiobook
   app.post("/api/podcasts/:id/invitations", requireAuth, async (req, res) => {
     try {
-      const podcastId = req.params.id;
-      const userId = req.session.userId!;
-      
-      // Verify podcast exists and user is the owner
-      const podcast = await storage.getPodcast(podcastId);
-      if (!podcast) {
-        return res.status(404).json({ error: "Podcast not found" });
-      }
-      
-      const user = await storage.getUser(userId);
-      const isAdmin = user?.role === "ADMIN";
-      const isOwner = podcast.ownerId === userId;
-      
-      if (!isOwner && !isAdmin) {
-        return res.status(403).json({ error: "Forbidden - Only the podcast owner can invite users" });
-      }
-      
-      // Validate request body
-      const invitationSchema = z.object({
-        email: z.string().email("Invalid email address"),
-        expiresAt: z.string().datetime().optional(),
-      });
-      
-      const validatedData = invitationSchema.parse(req.body);
-      
-      // Create invitation
-      const invitation = await storage.createContentInvitation({
-        email: validatedData.email,
-        podcastId,
-        episodeId: null,
-        invitedBy: userId,
-        expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null,
-      });
-      
-      // TODO: Send invitation email using email service
-      // const emailService = getEmailService();
-      // await emailService.sendInvitationEmail(...)
-      
-      res.status(201).json(invitation);
+      await createInvitation(req, res, { audiobookId: req.params.id });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error creating podcast invitation:", error);
+      console.error("Error creating audiobook invitation:", error);
       res.status(500).json({ error: "Failed to create invitation" });
     }
   });
   
-  // Get invitations for a podcast
+  // Get invitations for an audiobook
   app.get("/api/podcasts/:id/invitations", requireAuth, async (req, res) => {
     try {
-      const podcastId = req.params.id;
-      const userId = req.session.userId!;
-      
-      // Verify podcast exists and user is the owner
-      const podcast = await storage.getPodcast(podcastId);
-      if (!podcast) {
-        return res.status(404).json({ error: "Podcast not found" });
-      }
-      
-      const user = await storage.getUser(userId);
-      const isAdmin = user?.role === "ADMIN";
-      const isOwner = podcast.ownerId === userId;
-      
-      if (!isOwner && !isAdmin) {
-        return res.status(403).json({ error: "Forbidden - Only the podcast owner can view invitations" });
-      }
-      
-      const invitations = await storage.getContentInvitationsByPodcast(podcastId);
-      res.json(invitations);
+      await listInvitations(req, res, { audiobookId: req.params.id });
     } catch (error) {
-      console.error("Error fetching podcast invitations:", error);
+      console.error("Error fetching audiobook invitations:", error);
       res.status(500).json({ error: "Failed to fetch invitations" });
     }
   });
   
-  // Create invitation for an episode
+  // Invite an email to a chapter
   app.post("/api/episodes/:id/invitations", requireAuth, async (req, res) => {
     try {
-      const episodeId = req.params.id;
-      const userId = req.session.userId!;
-      
-      // Verify episode exists and user is the owner
-      const episode = await storage.getEpisode(episodeId);
-      if (!episode) {
-        return res.status(404).json({ error: "Episode not found" });
+      await createInvitation(req, res, { chapterId: req.params.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
+      console.error("Error creating chapter invitation:", error);
+      res.status(500).json({ error: "Failed to create invitation" });
+    }
+  });
+  
+  // Get invitations for a chapter
+  app.get("/api/episodes/:id/invitations", requireAuth, async (req, res) => {
+    try {
+      await listInvitations(req, res, { chapterId: req.params.id });
+    } catch (error) {
+      console.error("Error fetching chapter invitations:", error);
+      res.status(500).json({ error: "Failed to fetch invitations" });
+    }
+  });
+  
+  // Create an invitation (generic endpoint that accepts podcastId or episodeId)
+  app.post("/api/invitations", requireAuth, async (req, res) => {
+    try {
+      const targetSchema = z.object({
+        podcastId: z.string().optional(),
+        episodeId: z.string().optional(),
+      }).refine(
+        data => (data.podcastId && !data.episodeId) || (!data.podcastId && data.episodeId),
+        { message: "Exactly one of podcastId or episodeId must be provided" }
+      );
       
-      const podcast = await storage.getPodcast(episode.podcastId);
-      if (!podcast) {
-        return res.status(404).json({ error: "Podcast not found" });
+      const { podcastId, episodeId } = targetSchema.parse(req.body);
+      await createInvitation(req, res, episodeId ? { chapterId: episodeId } : { audiobookId: podcastId });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      
-      const user = await storage.getUser(userId);
-      const isAdmin = user?.role === "ADMIN";
-      const isOwner = podcast.ownerId === userId;
-      
-      if (!isOwner && !isAdmin) {
-        return res.status(403).json({ error: "Forbidden - Only the podcast owner can invite users to episodes" });
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ error: "Failed to create invitation" });
+    }
+  });
+  
+  // Revoke an invitation; access granted through it ends immediately
+  app.delete("/api/invitations/:id", requireAuth, async (req, res) => {
+    try {
+      const invitation = await storage.getContentInvitation(req.params.id);
+      if (!invitation) {
+        return res.status(404).json({ error: "Invitation not found" });
       }
       
-      // Validate request body
-      const invitationSchema = z.object({
-        email: z.string().email("Invalid email address"),
-        expiresAt: z.string().datetime().optional(),
-      });
-      
-      const validatedData = invitationSchema.parse(req.body);
-      
-      // Create invitation
-      const invitation = await storage.createContentInvitation({
-        email: validatedData.email,
-        podcastId: null,
-        episodeId,
-        invitedBy: userId,
-        expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null,
-      });
+      const content = await getInvitationContent({ audiobookId: invitation.audiobookId ?? undefined, chapterId: invitation.chapterId ?? undefined });
+      if (!content || !await canManageInvitations(req.session.userId!, content.audiobook)) {
+        return res.status(403).json({ error: "Forbidden - Only the publisher can revoke invitations" });
+      }
       
-      // TODO: Send invitation email using email service
+      await storage.revokeContentInvitation(invitation.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ error: "Failed to revoke invitation" });
+    }
+  });
+  
+  // Get an invitation by its token (public, so invitees can see it before signing in)
+  app.get("/api/invitations/:token", async (req, res) => {
+    try {
+      const invitation = await storage.getContentInvitationByToken(req.params.token);
+      const content = invitation && await getInvitationContent({ audiobookId: invitation.audiobookId ?? undefined, chapterId: invitation.chapterId ?? undefined });
+      if (!invitation || !content) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
       
-      res.status(201).json(invitation);
+      const inviter = await storage.getUser(invitation.invitedBy);
+      const isExpired = invitation.status === "PENDING" && invitation.expiresAt && invitation.expiresAt < new Date();
+      const details: InvitationDetails = {
+        email: invitation.email,
+        status: isExpired ? "EXPIRED" : invitation.status,
+        expiresAt: invitation.expiresAt,
+        inviterName: inviter?.username || "Audivia",
+        audiobook: {
+          id: content.audiobook.id,
+          title: content.audiobook.title,
+          author: content.audiobook.author,
+          coverArtUrl: content.audiobook.coverArtUrl,
+        },
+        chapter: content.chapter ? { id: content.chapter.id, title: content.chapter.title } : null,
+      };
+      res.json(details);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ error: "Failed to fetch invitation" });
+    }
+  });
+  
+  // Accept an invitation with the signed-in account
+  app.post("/api/invitations/:token/accept", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "User not found" });
+      }
+      
+      const invitation = await storage.acceptContentInvitation(req.params.token, user);
+      res.json({ success: true, audiobookId: invitation.audiobookId, chapterId: invitation.chapterId });
+    } catch (error: any) {
+      if (error.message?.includes("Invitation not found") || error.message?.includes("no longer valid")) {
+        return res.status(404).json({ error: "Invitation not found or no longer valid" });
       }
-      console.error("Error creating episode invitation:", error);
-      res.status(500).json({ error: "Failed to create invitation" });
+      if (error.message?.includes("already accepted")) {
+        return res.status(409).json({ error: "This invitation has already been accepted" });
+      }
+      if (error.message?.includes("different email")) {
+        return res.status(403).json({ error: "This invitation was sent to a different email" });
+      }
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ error: "Failed to accept invitation" });
     }
   });
+
+  // ==================== HOUSEHOLD ROUTES ====================
   
-  // Get invitations for an episode
-  app.get("/api/episodes/:id/invitations", requireAuth, async (req, res) => {
+  // Days an invitee has to accept before the owner has to invite again
+  const HOUSEHOLD_INVITATION_DAYS = 7;
+  
+  // The token only goes out in the invitation email
+  const serializeHouseholdMember = <T extends HouseholdMember>({ token: _, ...member }: T) => member;
+  
+  // The user's own household, and the one they belong to
+  app.get("/api/household", requireAuth, async (req, res) => {
     try {
-      const episodeId = req.params.id;
       const userId = req.session.userId!;
-      
-      // Verify episode exists and user is the owner
-      const episode = await storage.getEpisode(episodeId);
-      if (!episode) {
-        return res.status(404).json({ error: "Episode not found" });
-      }
-      
-      const podcast = await storage.getPodcast(episode.podcastId);
-      if (!podcast) {
-        return res.status(404).json({ error: "Podcast not found" });
-      }
-      
-      const user = await storage.getUser(userId);
-      const isAdmin = user?.role === "ADMIN";
-      const isOwner = podcast.ownerId === userId;
-      
-      if (!isOwner && !isAdmin) {
-        return res.status(403).json({ error: "Forbidden - Only the podcast owner can view episode invitations" });
+      const members = await storage.getHouseholdMembers(userId);
+      const allowance = await storage.getHouseholdAllowance(userId);
+      
+      let membership: HouseholdOverview["membership"] = null;
+      const member = await storage.getHouseholdMembership(userId);
+      if (member) {
+        const owner = await storage.getUser(member.ownerId);
+        const sharing = await storage.getHouseholdSharing(userId);
+        membership = {
+          id: member.id,
+          ownerName: owner?.username || "Audivia",
+          acceptedAt: member.acceptedAt,
+          isSharing: !!sharing,
+          sharesSubscription: !!sharing?.sharesSubscription,
+        };
       }
       
-      const invitations = await storage.getContentInvitationsByEpisode(episodeId);
-      res.json(invitations);
+      const overview: HouseholdOverview = {
+        ...allowance,
+        members: members.map(serializeHouseholdMember),
+        membership,
+      };
+      res.json(overview);
     } catch (error) {
-      console.error("Error fetching episode invitations:", error);
-      res.status(500).json({ error: "Failed to fetch invitations" });
+      console.error("Error fetching household:", error);
+      res.status(500).json({ error: "Failed to fetch household" });
     }
   });
   
-  // Create an invitation (generic endpoint that accepts podcastId or episodeId)
-  app.post("/api/invitations", requireAuth, async (req, res) => {
+  // Invite someone to share the owner's purchases (and subscription on family plans)
+  app.post("/api/household/members", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
+      const { email } = inviteHouseholdMemberSchema.parse(req.body);
       
-      // Validate request body - exactly one of podcastId or episodeId must be present
-      const invitationSchema = z.object({
-        email: z.string().email("Invalid email address"),
-        podcastId: z.string().optional(),
-        episodeId: z.string().optional(),
-        expiresAt: z.string().datetime().optional(),
-      }).refine(
-        data => (data.podcastId && !data.episodeId) || (!data.podcastId && data.episodeId),
-        { message: "Exactly one of podcastId or episodeId must be provided" }
-      );
+      const owner = await storage.getUser(userId);
+      if (!owner) {
+        return res.status(401).json({ error: "User not found" });
+      }
+      if (email === owner.email.toLowerCase()) {
+        return res.status(400).json({ error: "You cannot invite yourself" });
+      }
+      if (await storage.getHouseholdMembership(userId)) {
+        return res.status(400).json({ error: "Household members cannot invite others" });
+      }
       
-      const validatedData = invitationSchema.parse(req.body);
+      const members = await storage.getHouseholdMembers(userId);
+      if (members.some(member => member.email === email)) {
+        return res.status(409).json({ error: "This email is already in your household" });
+      }
+      const allowance = await storage.getHouseholdAllowance(userId);
+      if (allowance.maxMembers === 0) {
+        return res.status(403).json({ error: "Your plan doesn't include a household" });
+      }
+      if (members.length >= allowance.maxMembers) {
+        return res.status(400).json({ error: "Household is full" });
+      }
       
-      // Verify permissions based on content type
-      if (validatedData.podcastId) {
-        // Verify podcast exists and user is the owner
-        const podcast = await storage.getPodcast(validatedData.podcastId);
-        if (!podcast) {
-          return res.status(404).json({ error: "Podcast not found" });
-        }
-        
-        const user = await storage.getUser(userId);
-        const isAdmin = user?.role === "ADMIN";
-        const isOwner = podcast.ownerId === userId;
-        
-        if (!isOwner && !isAdmin) {
-          return res.status(403).json({ error: "Forbidden - Only the podcast owner can invite users" });
-        }
-        
-        // Create podcast invitation
-        const invitation = await storage.createContentInvitation({
-          email: validatedData.email,
-          podcastId: validatedData.podcastId,
-          episodeId: null,
-          invitedBy: userId,
-          expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null,
-        });
-        
-        return res.status(201).json(invitation);
-      } else if (validatedData.episodeId) {
-        // Verify episode exists and user is the owner
-        const episode = await storage.getEpisode(validatedData.episodeId);
-        if (!episode) {
-          return res.status(404).json({ error: "Episode not found" });
-        }
-        
-        const podcast = await storage.getPodcast(episode.podcastId);
-        if (!podcast) {
-          return res.status(404).json({ error: "Podcast not found" });
-        }
-        
-        const user = await storage.getUser(userId);
-        const isAdmin = user?.role === "ADMIN";
-        const isOwner = podcast.ownerId === userId;
-        
-        if (!isOwner && !isAdmin) {
-          return res.status(403).json({ error: "Forbidden - Only the podcast owner can invite users to episodes" });
-        }
-        
-        // Create episode invitation
-        const invitation = await storage.createContentInvitation({
-          email: validatedData.email,
-          podcastId: null,
-          episodeId: validatedData.episodeId,
-          invitedBy: userId,
-          expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null,
-        });
-        
-        return res.status(201).json(invitation);
+      const member = await storage.createHouseholdInvitation({
+        ownerId: userId,
+        email,
+        token: crypto.randomBytes(32).toString("hex"),
+        expiresAt: new Date(Date.now() + HOUSEHOLD_INVITATION_DAYS * 24 * 60 * 60 * 1000),
+      });
+      
+      try {
+        await getEmailService().sendHouseholdInvitationEmail(
+          email,
+          owner.username,
+          allowance.subscriptionMembers > members.filter(m => m.status === "ACCEPTED").length,
+          `${getSiteUrl(req)}/household/invitation/${member.token}`,
+          member.expiresAt.toISOString()
+        );
+      } catch (emailError) {
+        console.error(`Error sending household invitation email to ${email}:`, emailError);
       }
+      
+      res.status(201).json(serializeHouseholdMember(member));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      console.error("Error creating invitation:", error);
-      res.status(500).json({ error: "Failed to create invitation" });
+      console.error("Error inviting household member:", error);
+      res.status(500).json({ error: "Failed to invite household member" });
     }
   });
   
-  // Delete an invitation
-  app.delete("/api/invitations/:id", requireAuth, async (req, res) => {
+  // Remove a member or cancel an invitation (owner), or leave the household (member)
+  app.delete("/api/household/members/:id", requireAuth, async (req, res) => {
     try {
-      const invitationId = req.params.id;
       const userId = req.session.userId!;
+      const member = await storage.getHouseholdMember(req.params.id);
+      if (!member || (member.ownerId !== userId && member.userId !== userId) || !["PENDING", "ACCEPTED"].includes(member.status)) {
+        return res.status(404).json({ error: "Household member not found" });
+      }
       
-      // Verify invitation exists
-      const invitation = await storage.getContentInvitation(invitationId);
+      await storage.removeHouseholdMember(member.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing household member:", error);
+      res.status(500).json({ error: "Failed to remove household member" });
+    }
+  });
+  
+  // Get a household invitation by its token (public, so invitees can see it before signing in)
+  app.get("/api/household/invitations/:token", async (req, res) => {
+    try {
+      const invitation = await storage.getHouseholdMemberByToken(req.params.token);
       if (!invitation) {
         return res.status(404).json({ error: "Invitation not found" });
       }
       
-      // Verify user is the one who created the invitation or is admin
-      const user = await storage.getUser(userId);
-      const isAdmin = user?.role === "ADMIN";
-      const isInviter = invitation.invitedBy === userId;
-      
-      if (!isInviter && !isAdmin) {
-        return res.status(403).json({ error: "Forbidden - You can only delete invitations you created" });
+      const owner = await storage.getUser(invitation.ownerId);
+      const allowance = await storage.getHouseholdAllowance(invitation.ownerId);
+      const isExpired = invitation.status === "PENDING" && invitation.expiresAt < new Date();
+      const details: HouseholdInvitationDetails = {
+        email: invitation.email,
+        status: isExpired ? "EXPIRED" : invitation.status,
+        expiresAt: invitation.expiresAt,
+        ownerName: owner?.username || "Audivia",
+        sharesSubscription: allowance.subscriptionMembers > 0,
+      };
+      res.json(details);
+    } catch (error) {
+      console.error("Error fetching household invitation:", error);
+      res.status(500).json({ error: "Failed to fetch invitation" });
+    }
+  });
+  
+  // Join a household with the signed-in account
+  app.post("/api/household/invitations/:token/accept", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "User not found" });
       }
       
-      await storage.deleteContentInvitation(invitationId);
-      res.status(204).send();
-    } catch (error) {
-      console.error("Error deleting invitation:", error);
-      res.status(500).json({ error: "Failed to delete invitation" });
+      await storage.acceptHouseholdInvitation(req.params.token, user);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error.message?.includes("Invitation not found") || error.message?.includes("no longer valid")) {
+        return res.status(404).json({ error: "Invitation not found or no longer valid" });
+      }
+      if (error.message?.includes("already accepted")) {
+        return res.status(409).json({ error: "This invitation has already been accepted" });
+      }
+      if (error.message?.includes("different email")) {
+        return res.status(403).json({ error: "This invitation was sent to a different email" });
+      }
+      if (error.message?.includes("Already a member") || error.message?.includes("cannot join") || error.message?.includes("Household is full")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error accepting household invitation:", error);
+      res.status(500).json({ error: "Failed to accept invitation" });
     }
   });
 
@@ -3649,8 +4763,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/admin/users", requireAdmin, async (req, res) => {
     try {
       const users = await storage.getAllUsers();
+      const twoFactorUserIds = new Set(await storage.getTwoFactorEnabledUserIds());
+      const lockouts = new Map((await storage.getAccountLockouts()).map((lockout) => [lockout.userId, lockout]));
+      const now = new Date();
       // Exclude password hashes from response
-      const usersWithoutPasswords = users.map(({ passwordHash: _, ...user }) => user);
+      const usersWithoutPasswords: AdminUserListItem[] = users.map(({ passwordHash: _, ...user }) => {
+        const lockout = lockouts.get(user.id);
+        return {
+          ...user,
+          twoFactorEnabled: twoFactorUserIds.has(user.id),
+          lockedUntil: lockout?.lockedUntil && lockout.lockedUntil > now ? lockout.lockedUntil : null,
+          failedLoginCount: lockout?.failedCount ?? 0,
+        };
+      });
       res.json(usersWithoutPasswords);
     } catch (error) {
       console.error("Error fetching users:", error);
@@ -3658,7 +4783,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/admin/users/:id/role", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/users/:id/role", requireAdmin, requireRecentTwoFactor, async (req, res) => {
     try {
       const userId = req.params.id;
       const validatedData = updateUserRoleSchema.parse(req.body);
@@ -3668,6 +4793,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
+      setAuditContext(res, { before: user });
       
       // Prevent demoting the last admin
       if (user.role === "ADMIN" && validatedData.role !== "ADMIN") {
@@ -3690,6 +4816,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Admin: remove a user's two-factor authentication when they lost their device and recovery codes
+  app.post("/api/admin/users/:id/2fa/reset", requireAdmin, requireRecentTwoFactor, async (req, res) => {
+    try {
+      const userId = req.params.id;
+      if (userId === req.session.userId) {
+        return res.status(400).json({ error: "Use your profile to manage your own two-factor authentication" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await twoFactorService.reset(userId, req.session.userId!, req.ip);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error.message?.includes("not enabled")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ error: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Admin: lift a lockout before it runs out
+  app.post("/api/admin/users/:id/unlock", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await accountLockoutService.unlock(user.id, req.session.userId!, req.ip);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error.message?.includes("not locked")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ error: "Failed to unlock user" });
+    }
+  });
+
+  // Admin: sign a user out of every device
+  app.post("/api/admin/users/:id/sessions/revoke", requireAdmin, async (req, res) => {
+    try {
+      const userId = req.params.id;
+      if (userId === req.session.userId) {
+        return res.status(400).json({ error: "Use your profile to manage your own sessions" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const revoked = await sessionService.forceLogout(userId, req.session.userId!, req.ip);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error forcing logout:", error);
+      res.status(500).json({ error: "Failed to force logout" });
+    }
+  });
+
+  // Admin: a user's security history (failed logins, lockouts, forced logouts and two-factor changes)
+  app.get("/api/admin/users/:id/security-events", requireAdmin, async (req, res) => {
+    try {
+      const events = await storage.getSecurityEvents(req.params.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching security events:", error);
+      res.status(500).json({ error: "Failed to fetch security events" });
+    }
+  });
+
   app.patch("/api/admin/users/:id/requires-approval", requireAdmin, async (req, res) => {
     try {
       const userId = req.params.id;
@@ -3863,7 +5064,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bulk operations - Users
-  app.post("/api/admin/users/bulk-update-role", requireAdmin, async (req, res) => {
+  app.post("/api/admin/users/bulk-update-role", requireAdmin, requireRecentTwoFactor, async (req, res) => {
     try {
       const validatedData = bulkUpdateUsersRoleSchema.parse(req.body);
       const result = await storage.bulkUpdateUsersRole(validatedData.ids, validatedData.role);
@@ -3897,9 +5098,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/users/bulk-delete", requireAdmin, async (req, res) => {
+  app.post("/api/admin/users/bulk-delete", requireAdmin, requireRecentTwoFactor, async (req, res) => {
     try {
       const validatedData = bulkDeleteUsersSchema.parse(req.body);
+      // Who was deleted stays readable in the audit log after the accounts are gone
+      const deletedUsers = await Promise.all(validatedData.ids.map((id) => storage.getUser(id)));
+      setAuditContext(res, {
+        before: deletedUsers
+          .filter((user): user is NonNullable<typeof user> => !!user)
+          .map(({ id, username, email, role }) => ({ id, username, email, role })),
+      });
       const result = await storage.bulkDeleteUsers(validatedData.ids);
       res.json({
         message: `Deleted ${result.successIds.length} user(s)`,
@@ -4029,6 +5237,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = createEmailConfigSchema.parse(req.body);
       const newConfig = await storage.createEmailConfig(validatedData);
+      setAuditContext(res, { targetId: newConfig.id, after: newConfig });
       
       // Mask password in response for security
       res.status(201).json({
@@ -4050,11 +5259,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = updateEmailConfigSchema.parse(req.body);
       
       const existingConfig = await storage.getAllEmailConfigs();
-      if (!existingConfig.find(c => c.id === configId)) {
+      const before = existingConfig.find(c => c.id === configId);
+      if (!before) {
         return res.status(404).json({ error: "Email configuration not found" });
       }
       
       const updatedConfig = await storage.updateEmailConfig(configId, validatedData);
+      setAuditContext(res, { before, after: updatedConfig });
       
       // Mask password in response for security
       res.json({
@@ -4073,7 +5284,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/admin/email-config/:id/activate", requireAdmin, async (req, res) => {
     try {
       const configId = req.params.id;
+      const before = (await storage.getAllEmailConfigs()).find(c => c.id === configId);
       const activeConfig = await storage.setActiveEmailConfig(configId);
+      setAuditContext(res, { before, after: activeConfig });
       
       // Mask password in response for security
       res.json({
@@ -4091,9 +5304,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const configId = req.params.id;
       
       const existingConfig = await storage.getAllEmailConfigs();
-      if (!existingConfig.find(c => c.id === configId)) {
+      const before = existingConfig.find(c => c.id === configId);
+      if (!before) {
         return res.status(404).json({ error: "Email configuration not found" });
       }
+      setAuditContext(res, { before });
       
       await storage.deleteEmailConfig(configId);
       res.status(204).send();
@@ -4291,6 +5506,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ...validatedData,
           isActive: true,
         });
+        setAuditContext(res, { targetId: configs[0].id, before: configs[0], after: updatedConfig });
         
         res.json({
           ...updatedConfig,
@@ -4303,6 +5519,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           smtpPassword: validatedData.smtpPassword || "",
           isActive: true,
         });
+        setAuditContext(res, { targetId: newConfig.id, after: newConfig });
         
         res.status(201).json({
           ...newConfig,
@@ -4397,7 +5614,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Emergency endpoint to reset admin password (use only once in production)
-  app.post("/api/emergency/reset-admin-password", async (req, res) => {
+  app.post("/api/emergency/reset-admin-password", rateLimit(EMERGENCY_RESET_RATE_LIMIT), async (req, res) => {
     try {
       // Security: Only allow if ADMIN_PASSWORD is set in environment
       if (!process.env.ADMIN_PASSWORD) {
@@ -4422,6 +5639,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update password
       await storage.updateUserPassword(user.id, newPasswordHash);
+
+      // Two-factor stays on: a lost authenticator is recovered with a recovery code or by another admin
+      await accountLockoutService.clear(user.id);
+      await sessionService.revokeAll(user.id);
       
       res.json({ 
         message: "Admin password reset successfully",
@@ -4586,7 +5807,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   quantity: "1",
                   unit_amount: {
                     currency_code: item.audiobook.currency,
-                    value: (item.audiobook.priceCents / 100).toFixed(2),
+                    value: (item.priceCents / 100).toFixed(2),
                   },
                   category: "DIGITAL_GOODS",
                 })),
@@ -4704,7 +5925,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const expectedCents = pendingDiscount?.finalTotalCents || 
-        cartItems.reduce((sum, item) => sum + item.audiobook.priceCents, 0);
+        cartItems.reduce((sum, item) => sum + item.priceCents, 0);
       
       // Allow small rounding differences (max 1 cent per item)
       const tolerance = cartItems.length;
@@ -4726,11 +5947,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const billingProfile = await storage.getBillingProfile(userId);
       
       // Calculate per-item discount distribution if discount applied
-      const totalItemsCents = cartItems.reduce((sum, item) => sum + item.audiobook.priceCents, 0);
+      const totalItemsCents = cartItems.reduce((sum, item) => sum + item.priceCents, 0);
       let remainingDiscount = appliedDiscount?.discountAmountCents || 0;
       
       const createdPurchaseIds: string[] = [];
-      const createdInvoices: Array<{ invoice: Invoice; pdfPath: string | null; audiobookTitle: string }> = [];
+      const createdGifts: Array<{ recipientEmail: string; message: string | null; token: string; audiobookTitle: string }> = [];
       const purchasedAudiobooks: Array<{ title: string; invoiceNumber: string | null }> = [];
       
       for (let i = 0; i < cartItems.length; i++) {
@@ -4739,7 +5960,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Distribute discount proportionally to each item
         let itemDiscount = 0;
         if (remainingDiscount > 0 && totalItemsCents > 0) {
-          const proportion = item.audiobook.priceCents / totalItemsCents;
+          const proportion = item.priceCents / totalItemsCents;
           itemDiscount = Math.round((appliedDiscount?.discountAmountCents || 0) * proportion);
           // Last item gets remaining to avoid rounding issues
           if (i === cartItems.length - 1) {
@@ -4748,7 +5969,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           remainingDiscount -= itemDiscount;
         }
         
-        const finalItemPrice = Math.max(0, item.audiobook.priceCents - itemDiscount);
+        const finalItemPrice = Math.max(0, item.priceCents - itemDiscount);
         
         // Create purchase record
         const purchase = await storage.createPurchase({
@@ -4762,55 +5983,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         createdPurchaseIds.push(purchase.id);
 
-        // Create invoice and generate PDF if billing profile exists
+        // Gifts stay with the buyer, who still gets the invoice, until the recipient redeems them
+        if (item.giftRecipientEmail) {
+          const giftToken = crypto.randomBytes(32).toString("hex");
+          await storage.markPurchaseAsGift(purchase.id, {
+            giftedByUserId: userId,
+            giftRecipientEmail: item.giftRecipientEmail,
+            giftMessage: item.giftMessage,
+            giftToken,
+          });
+          createdGifts.push({
+            recipientEmail: item.giftRecipientEmail,
+            message: item.giftMessage,
+            token: giftToken,
+            audiobookTitle: item.audiobook.title,
+          });
+        }
+
+        // Create invoice if billing profile exists; its PDF job emails it once generated
         let invoiceNumber: string | null = null;
         if (billingProfile) {
-          const lineItems = [{
-            description: item.audiobook.title,
-            quantity: 1,
-            unitPriceCents: item.audiobook.priceCents,
-            totalCents: item.audiobook.priceCents,
-          }];
-          
-          // Add discount line item if applicable
-          if (itemDiscount > 0 && appliedDiscount) {
-            lineItems.push({
-              description: `Descuento (${appliedDiscount.discountCode})`,
-              quantity: 1,
-              unitPriceCents: -itemDiscount,
-              totalCents: -itemDiscount,
-            });
-          }
-          
-          const invoice = await storage.createInvoice({
+          const invoice = await invoiceService.createPurchaseInvoice(
             userId,
-            purchaseId: purchase.id,
-            billingProfileId: billingProfile.id,
-            type: "PURCHASE",
-            status: "PAID",
-            totalCents: finalItemPrice,
-            currency: item.audiobook.currency,
-            paymentMethod: "PAYPAL",
-            paymentReference: orderId,
-          }, lineItems);
+            purchase.id,
+            item.audiobook,
+            finalItemPrice,
+            item.audiobook.currency,
+            {
+              discount: itemDiscount > 0 && appliedDiscount
+                ? { code: appliedDiscount.discountCode, amountCents: itemDiscount }
+                : undefined,
+              email: user?.email ? { kind: "invoice", to: user.email, username: user.username } : undefined,
+            }
+          );
           
           invoiceNumber = invoice.invoiceNumber;
-          
-          // Generate PDF for this invoice
-          try {
-            const pdfPath = await invoiceService.generatePDF(invoice.id);
-            await storage.updateInvoicePdfPath(invoice.id, pdfPath);
-            
-            // Fetch fresh invoice with updated pdfPath
-            const freshInvoice = await storage.getInvoice(invoice.id);
-            if (freshInvoice) {
-              createdInvoices.push({ invoice: freshInvoice, pdfPath, audiobookTitle: item.audiobook.title });
-            }
-          } catch (pdfError) {
-            console.error("Error generating invoice PDF:", pdfError);
-            // Still store invoice for email but without PDF path
-            createdInvoices.push({ invoice, pdfPath: null, audiobookTitle: item.audiobook.title });
-          }
+        }
+
+        try {
+          await royaltyService.recordSale(purchase.id);
+        } catch (royaltyError) {
+          console.error("Error recording creator earning:", royaltyError);
         }
         
         // Track audiobook for purchase confirmation (always, even without billing profile)
@@ -4843,10 +6056,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Send email notifications
       if (user?.email) {
         let confirmationsSent = 0;
-        let invoicesSent = 0;
         
         try {
-          const emailService = await getEmailService(storage);
+          const emailService = getEmailService();
           
           // Send purchase confirmations for ALL audiobooks (even without invoices)
           for (const { title, invoiceNumber } of purchasedAudiobooks) {
@@ -4863,22 +6075,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           }
           
-          // Send invoice emails only when invoices were created (billing profile exists)
-          for (const { invoice, pdfPath } of createdInvoices) {
+          console.log(`[EMAIL] Queued ${confirmationsSent}/${purchasedAudiobooks.length} confirmations for ${user.email}`);
+
+          for (const gift of createdGifts) {
             try {
-              await emailService.sendInvoiceEmail(
-                user.email,
-                user.displayName || user.username,
-                invoice,
-                pdfPath
+              await emailService.sendGiftEmail(
+                gift.recipientEmail,
+                user.username,
+                gift.audiobookTitle,
+                gift.message,
+                `${getSiteUrl(req)}/gift/${gift.token}`
               );
-              invoicesSent++;
             } catch (err) {
-              console.error(`Error sending invoice ${invoice.invoiceNumber}:`, err);
+              console.error(`Error sending gift email to ${gift.recipientEmail}:`, err);
             }
           }
-          
-          console.log(`[EMAIL] Sent ${confirmationsSent}/${purchasedAudiobooks.length} confirmations and ${invoicesSent}/${createdInvoices.length} invoices to ${user.email}`);
         } catch (emailError) {
           console.error("Error initializing email service:", emailError);
         }
@@ -4975,8 +6186,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "planId es requerido" });
       }
 
-      // Check if user already has active subscription
-      const existingSubscription = await storage.getUserActiveSubscription(req.session.userId!);
+      // Check if user already has a subscription (paused and past due ones included)
+      const existingSubscription = await storage.getCurrentSubscription(req.session.userId!);
       if (existingSubscription) {
         return res.status(400).json({ error: "Ya tienes una suscripción activa" });
       }
@@ -5006,71 +6217,209 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       res.json(result);
     } catch (error: any) {
-      console.error("Error activating PayPal subscription:", error);
-      res.status(500).json({ error: error.message || "Error activando suscripción" });
+      console.error("Error activating PayPal subscription:", error);
+      res.status(500).json({ error: error.message || "Error activando suscripción" });
+    }
+  });
+
+  // Cancel subscription
+  app.post("/api/paypal/subscriptions/:subscriptionId/cancel", requireAuth, async (req, res) => {
+    try {
+      const { subscriptionId } = req.params;
+      const { reason } = req.body;
+      
+      // Verify user owns this subscription
+      const userSubscription = await storage.getUserSubscriptionByPayPalId(req.session.userId!, subscriptionId);
+      if (!userSubscription) {
+        return res.status(404).json({ error: "Suscripción no encontrada" });
+      }
+
+      const result = await paypalService.cancelSubscription(subscriptionId, reason);
+      await subscriptionService.recordCancellation(userSubscription);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error canceling PayPal subscription:", error);
+      res.status(500).json({ error: error.message || "Error cancelando suscripción" });
+    }
+  });
+
+  // Get subscription status
+  app.get("/api/paypal/subscriptions/:subscriptionId", requireAuth, async (req, res) => {
+    try {
+      const { subscriptionId } = req.params;
+      const subscription = await paypalService.getSubscriptionStatus(subscriptionId);
+      res.json(subscription);
+    } catch (error: any) {
+      console.error("Error getting PayPal subscription:", error);
+      res.status(500).json({ error: error.message || "Error obteniendo suscripción" });
+    }
+  });
+
+  // Get user's current subscription
+  app.get("/api/user/subscription", requireAuth, async (req, res) => {
+    try {
+      // Check if user is admin - admins get virtual premium subscription
+      const user = await storage.getUser(req.session.userId!);
+      if (user?.role === "ADMIN") {
+        // Return a virtual premium subscription for admins
+        const virtualSubscription = {
+          id: "admin-premium",
+          userId: req.session.userId!,
+          planId: "admin-unlimited",
+          status: "ACTIVE",
+          currentPeriodStart: new Date(),
+          currentPeriodEnd: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
+          createdAt: new Date(),
+          paypalSubscriptionId: null,
+          planName: "Administrador Premium",
+          planPrice: 0,
+          isAdmin: true,
+        };
+        return res.json({ subscription: virtualSubscription, plan: null, pendingPlan: null, scheduledPlan: null, graceEndsAt: null });
+      }
+      
+      const subscription = await storage.getCurrentSubscription(req.session.userId!);
+      const [plan, pendingPlan, scheduledPlan] = await Promise.all(
+        [subscription?.planId, subscription?.pendingPlanId, subscription?.scheduledPlanId].map(
+          planId => planId ? storage.getSubscriptionPlan(planId) : Promise.resolve(undefined)
+        )
+      );
+
+      let graceEndsAt: Date | null = null;
+      if (subscription?.status === "PAST_DUE" && plan) {
+        const graceStart = subscription.pastDueAt ?? subscription.currentPeriodEnd;
+        graceEndsAt = new Date(graceStart.getTime() + plan.gracePeriodDays * 24 * 60 * 60 * 1000);
+      }
+
+      const overview: UserSubscriptionOverview = {
+        subscription: subscription ?? null,
+        plan: plan ?? null,
+        pendingPlan: pendingPlan ?? null,
+        scheduledPlan: scheduledPlan ?? null,
+        graceEndsAt,
+      };
+      res.json(overview);
+    } catch (error: any) {
+      console.error("Error getting user subscription:", error);
+      res.status(500).json({ error: error.message || "Error obteniendo suscripción" });
+    }
+  });
+
+  // Get the user's subscription history
+  app.get("/api/user/subscription/events", requireAuth, async (req, res) => {
+    try {
+      const events = await storage.getUserSubscriptionEvents(req.session.userId!);
+      res.json(events);
+    } catch (error: any) {
+      console.error("Error getting subscription events:", error);
+      res.status(500).json({ error: "Failed to get subscription history" });
+    }
+  });
+
+  // Preview what switching to another plan costs
+  app.get("/api/user/subscription/plan-change", requireAuth, async (req, res) => {
+    try {
+      const { planId } = changeSubscriptionPlanSchema.parse(req.query);
+      const quote = await subscriptionService.getPlanChangeQuote(req.session.userId!, planId);
+      res.json(quote);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message?.includes("No active subscription") || error.message?.includes("Already on this plan")
+        || error.message?.includes("not billed through PayPal") || error.message?.includes("different currencies")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error quoting plan change:", error);
+      res.status(500).json({ error: "Failed to quote plan change" });
+    }
+  });
+
+  // Start a plan change; the subscriber approves the new price on PayPal
+  app.post("/api/user/subscription/plan-change", requireAuth, async (req, res) => {
+    try {
+      const { planId } = changeSubscriptionPlanSchema.parse(req.body);
+      const siteUrl = getSiteUrl(req);
+      const result = await subscriptionService.requestPlanChange(req.session.userId!, planId, {
+        returnUrl: `${siteUrl}/subscriptions?plan_change=approved`,
+        cancelUrl: `${siteUrl}/subscriptions?plan_change=cancelled`,
+      });
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message?.includes("No active subscription") || error.message?.includes("Already on this plan")
+        || error.message?.includes("not billed through PayPal") || error.message?.includes("different currencies")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error requesting plan change:", error);
+      res.status(500).json({ error: "Failed to change plan" });
     }
   });
 
-  // Cancel subscription
-  app.post("/api/paypal/subscriptions/:subscriptionId/cancel", requireAuth, async (req, res) => {
+  // Apply a plan change after the subscriber approved it on PayPal
+  app.post("/api/user/subscription/plan-change/confirm", requireAuth, async (req, res) => {
     try {
-      const { subscriptionId } = req.params;
-      const { reason } = req.body;
-      
-      // Verify user owns this subscription
-      const userSubscription = await storage.getUserSubscriptionByPayPalId(req.session.userId!, subscriptionId);
-      if (!userSubscription) {
-        return res.status(404).json({ error: "Suscripción no encontrada" });
+      const subscription = await storage.getCurrentSubscription(req.session.userId!);
+      if (!subscription?.pendingPlanId) {
+        return res.status(404).json({ error: "No pending plan change" });
       }
 
-      const result = await paypalService.cancelSubscription(subscriptionId, reason);
-      res.json(result);
+      const updated = await subscriptionService.confirmPlanChange(subscription);
+      res.json(updated);
     } catch (error: any) {
-      console.error("Error canceling PayPal subscription:", error);
-      res.status(500).json({ error: error.message || "Error cancelando suscripción" });
+      if (error.message?.includes("not approved yet") || error.message?.includes("not completed yet")) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error confirming plan change:", error);
+      res.status(500).json({ error: "Failed to confirm plan change" });
     }
   });
 
-  // Get subscription status
-  app.get("/api/paypal/subscriptions/:subscriptionId", requireAuth, async (req, res) => {
+  // Pause the subscription; billing and access stop until it's resumed
+  app.post("/api/user/subscription/pause", requireAuth, async (req, res) => {
     try {
-      const { subscriptionId } = req.params;
-      const subscription = await paypalService.getSubscriptionStatus(subscriptionId);
+      const subscription = await subscriptionService.pause(req.session.userId!);
       res.json(subscription);
     } catch (error: any) {
-      console.error("Error getting PayPal subscription:", error);
-      res.status(500).json({ error: error.message || "Error obteniendo suscripción" });
+      if (error.message?.includes("No active subscription") || error.message?.includes("not billed through PayPal")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error pausing subscription:", error);
+      res.status(500).json({ error: "Failed to pause subscription" });
     }
   });
 
-  // Get user's current subscription
-  app.get("/api/user/subscription", requireAuth, async (req, res) => {
+  // Resume a paused subscription
+  app.post("/api/user/subscription/resume", requireAuth, async (req, res) => {
     try {
-      // Check if user is admin - admins get virtual premium subscription
-      const user = await storage.getUser(req.session.userId!);
-      if (user?.role === "ADMIN") {
-        // Return a virtual premium subscription for admins
-        const virtualSubscription = {
-          id: "admin-premium",
-          userId: req.session.userId!,
-          planId: "admin-unlimited",
-          status: "ACTIVE",
-          currentPeriodStart: new Date(),
-          currentPeriodEnd: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
-          createdAt: new Date(),
-          paypalSubscriptionId: null,
-          planName: "Administrador Premium",
-          planPrice: 0,
-          isAdmin: true,
-        };
-        return res.json({ subscription: virtualSubscription });
+      const subscription = await subscriptionService.resume(req.session.userId!);
+      res.json(subscription);
+    } catch (error: any) {
+      if (error.message?.includes("not paused")) {
+        return res.status(400).json({ error: error.message });
       }
-      
-      const subscription = await storage.getUserActiveSubscription(req.session.userId!);
-      res.json({ subscription });
+      console.error("Error resuming subscription:", error);
+      res.status(500).json({ error: "Failed to resume subscription" });
+    }
+  });
+
+  // Admin: latest subscription events across all subscribers
+  app.get("/api/admin/subscription-events", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const events = await storage.getRecentSubscriptionEvents(limit);
+      res.json(events);
     } catch (error: any) {
-      console.error("Error getting user subscription:", error);
-      res.status(500).json({ error: error.message || "Error obteniendo suscripción" });
+      console.error("Error getting subscription events:", error);
+      res.status(500).json({ error: "Failed to get subscription history" });
     }
   });
 
@@ -5217,12 +6566,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).send("Feed not found");
       }
       
-      // Get user's accessible audiobooks (purchases + active subscription + admin access)
-      const purchases = await storage.getUserPurchases(feedToken.userId);
-      const subscription = await storage.getUserActiveSubscription(feedToken.userId);
+      // Get user's accessible audiobooks (purchases + active subscription + admin access, including what the household shares)
+      const { purchasedAudiobookIds, subscription } = await storage.getEntitlements(feedToken.userId);
       
       // Get purchased audiobook IDs
-      const purchasedIds = new Set(purchases.map(p => p.audiobookId));
+      const purchasedIds = new Set(purchasedAudiobookIds);
       
       // Check if user is admin - admins have access to all content
       const isAdmin = user.role === "ADMIN";
@@ -5242,68 +6590,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
       }
       
-      // Build RSS feed
-      const baseUrl = `${req.protocol}://${req.get('host')}`;
-      
-      let items = "";
-      for (const audiobook of accessibleAudiobooks) {
-        const chapters = await storage.getChaptersByAudiobook(audiobook.id);
-        // Sort chapters by chapterNumber ascending (episode 1 first)
-        chapters.sort((a, b) => a.chapterNumber - b.chapterNumber);
-        
-        // Use audiobook creation date as base for synthetic dates
-        const audiobookCreatedAt = new Date(audiobook.createdAt || Date.now());
-        
-        for (const chapter of chapters) {
-          if (!chapter.audioUrl) continue;
-          
-          // Generate synthetic pubDate: base date + (chapterNumber * 1 minute) to ensure correct ordering
-          const syntheticDate = new Date(audiobookCreatedAt.getTime() + (chapter.chapterNumber * 60000));
-          const pubDate = syntheticDate.toUTCString();
-          const duration = formatDurationForRss(chapter.duration);
-          const audioUrl = chapter.audioUrl.startsWith('http') 
-            ? chapter.audioUrl 
-            : `${baseUrl}${chapter.audioUrl}`;
-          const coverUrl = audiobook.coverArtUrl?.startsWith('http')
-            ? audiobook.coverArtUrl
-            : audiobook.coverArtUrl ? `${baseUrl}${audiobook.coverArtUrl}` : '';
-          
-          items += `
-    <item>
-      <title>${escapeXml(`${audiobook.title} - Cap. ${chapter.chapterNumber}: ${chapter.title}`)}</title>
-      <description><![CDATA[${chapter.description || audiobook.description || ''}]]></description>
-      <enclosure url="${escapeXml(audioUrl)}" type="audio/mpeg" length="${chapter.audioFileSize || 0}"/>
-      <guid isPermaLink="false">${chapter.id}</guid>
-      <pubDate>${pubDate}</pubDate>
-      <itunes:author>${escapeXml(audiobook.author)}</itunes:author>
-      <itunes:duration>${duration}</itunes:duration>
-      <itunes:episode>${chapter.chapterNumber}</itunes:episode>
-      <itunes:title>${escapeXml(chapter.title)}</itunes:title>
-      ${coverUrl ? `<itunes:image href="${escapeXml(coverUrl)}"/>` : ''}
-    </item>`;
-        }
-      }
-      
-      const feedXml = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" 
-  xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
-  xmlns:content="http://purl.org/rss/1.0/modules/content/">
-  <channel>
-    <title>Audivia - Biblioteca de ${escapeXml(user.username)}</title>
-    <link>${baseUrl}</link>
-    <description>Tu biblioteca personal de audiolibros en Audivia</description>
-    <language>es</language>
-    <itunes:author>Audivia</itunes:author>
-    <itunes:summary>Audiolibros adquiridos y suscripciones activas</itunes:summary>
-    <itunes:category text="Arts">
-      <itunes:category text="Books"/>
-    </itunes:category>
-    ${items}
-  </channel>
-</rss>`;
-      
-      res.set('Content-Type', 'application/rss+xml; charset=utf-8');
-      res.send(feedXml);
+      const siteUrl = getSiteUrl(req);
+      const feed = await buildLibraryFeed(user, accessibleAudiobooks, {
+        siteUrl,
+        feedUrl: `${siteUrl}/feed/${token}`,
+        // Enclosures stay valid until the feed token is regenerated
+        subject: { type: "feed", userId: feedToken.userId, feedToken: feedToken.token },
+      });
+      sendFeed(req, res, feed);
     } catch (error: any) {
       console.error("Error generating RSS feed:", error);
       res.status(500).send("Error generating feed");
@@ -5336,11 +6630,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).send("Audiobook not found");
       }
       
-      // Check if user has access to this audiobook
-      const purchases = await storage.getUserPurchases(feedToken.userId);
-      const subscription = await storage.getUserActiveSubscription(feedToken.userId);
+      // Check if user has access to this audiobook, directly or through their household
+      const { purchasedAudiobookIds, subscription } = await storage.getEntitlements(feedToken.userId);
       const isAdmin = user.role === "ADMIN";
-      const purchasedIds = new Set(purchases.map(p => p.audiobookId));
+      const purchasedIds = new Set(purchasedAudiobookIds);
       
       const hasAccess = isAdmin || subscription || audiobook.isFree || purchasedIds.has(audiobookId);
       
@@ -5348,71 +6641,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).send("Access denied to this audiobook");
       }
       
-      // Build RSS feed for this specific audiobook
-      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const siteUrl = getSiteUrl(req);
       const chapters = await storage.getChaptersByAudiobook(audiobookId);
-      // Sort chapters by chapterNumber ascending (episode 1 first)
-      chapters.sort((a, b) => a.chapterNumber - b.chapterNumber);
-      
-      // Use audiobook creation date as base, add minutes per chapter to ensure correct order
-      const audiobookCreatedAt = new Date(audiobook.createdAt || Date.now());
-      
-      let items = "";
-      for (const chapter of chapters) {
-        if (!chapter.audioUrl) continue;
-        
-        // Generate synthetic pubDate: base date + (chapterNumber * 1 minute) to ensure correct ordering
-        const syntheticDate = new Date(audiobookCreatedAt.getTime() + (chapter.chapterNumber * 60000));
-        const pubDate = syntheticDate.toUTCString();
-        const duration = formatDurationForRss(chapter.duration);
-        const audioUrl = chapter.audioUrl.startsWith('http') 
-          ? chapter.audioUrl 
-          : `${baseUrl}${chapter.audioUrl}`;
-        const coverUrl = audiobook.coverArtUrl?.startsWith('http')
-          ? audiobook.coverArtUrl
-          : audiobook.coverArtUrl ? `${baseUrl}${audiobook.coverArtUrl}` : '';
-        
-        items += `
-    <item>
-      <title>${escapeXml(`Cap. ${chapter.chapterNumber}: ${chapter.title}`)}</title>
-      <description><![CDATA[${chapter.description || audiobook.description || ''}]]></description>
-      <enclosure url="${escapeXml(audioUrl)}" type="audio/mpeg" length="${chapter.audioFileSize || 0}"/>
-      <guid isPermaLink="false">${chapter.id}</guid>
-      <pubDate>${pubDate}</pubDate>
-      <itunes:author>${escapeXml(audiobook.author)}</itunes:author>
-      <itunes:duration>${duration}</itunes:duration>
-      <itunes:episode>${chapter.chapterNumber}</itunes:episode>
-      <itunes:title>${escapeXml(chapter.title)}</itunes:title>
-      ${coverUrl ? `<itunes:image href="${escapeXml(coverUrl)}"/>` : ''}
-    </item>`;
-      }
-      
-      const audiobookCoverUrl = audiobook.coverArtUrl?.startsWith('http')
-        ? audiobook.coverArtUrl
-        : audiobook.coverArtUrl ? `${baseUrl}${audiobook.coverArtUrl}` : '';
-      
-      const feedXml = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" 
-  xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
-  xmlns:content="http://purl.org/rss/1.0/modules/content/">
-  <channel>
-    <title>${escapeXml(audiobook.title)}</title>
-    <link>${baseUrl}/audiobook/${audiobookId}</link>
-    <description><![CDATA[${audiobook.description || ''}]]></description>
-    <language>${audiobook.language || 'es'}</language>
-    <itunes:author>${escapeXml(audiobook.author)}</itunes:author>
-    <itunes:summary><![CDATA[${audiobook.description || ''}]]></itunes:summary>
-    ${audiobookCoverUrl ? `<itunes:image href="${escapeXml(audiobookCoverUrl)}"/>` : ''}
-    ${audiobook.narrator ? `<itunes:owner><itunes:name>${escapeXml(audiobook.narrator)}</itunes:name></itunes:owner>` : ''}
-    <itunes:category text="Arts">
-      <itunes:category text="Books"/>
-    </itunes:category>
-    ${items}
-  </channel>
-</rss>`;
-      
-      res.set('Content-Type', 'application/rss+xml; charset=utf-8');
-      res.send(feedXml);
+      const feed = await buildAudiobookFeed(audiobook, chapters, {
+        siteUrl,
+        feedUrl: `${siteUrl}/feed/${token}/audiobook/${audiobookId}`,
+        // Enclosures stay valid until the feed token is regenerated
+        subject: { type: "feed", userId: feedToken.userId, feedToken: feedToken.token },
+        isPrivate: true,
+      });
+      sendFeed(req, res, feed);
     } catch (error: any) {
       console.error("Error generating audiobook RSS feed:", error);
       res.status(500).send("Error generating feed");
@@ -5432,11 +6670,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "User not found" });
       }
       
-      // Get user's accessible audiobooks
-      const purchases = await storage.getUserPurchases(req.session.userId!);
-      const subscription = await storage.getUserActiveSubscription(req.session.userId!);
+      // Get user's accessible audiobooks, including what the household shares
+      const { purchasedAudiobookIds, subscription } = await storage.getEntitlements(req.session.userId!);
       const isAdmin = user.role === "ADMIN";
-      const purchasedIds = new Set(purchases.map(p => p.audiobookId));
+      const purchasedIds = new Set(purchasedAudiobookIds);
       
       let accessibleAudiobooks: any[] = [];
       
@@ -5500,38 +6737,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (orderId) {
             const captureId = event.resource?.id;
             const payerEmail = event.resource?.payer?.email_address;
-            await storage.markPurchaseCompletedByPayPalOrderId(orderId, captureId, payerEmail);
+            const completed = await storage.markPurchaseCompletedByPayPalOrderId(orderId, captureId, payerEmail);
             console.log("Purchase marked as completed via webhook:", orderId);
+            if (completed) {
+              await royaltyService.recordSale(completed.id);
+            }
           }
           break;
 
         case "PAYMENT.CAPTURE.REFUNDED":
-          // Handle refund
-          const refundedOrderId = event.resource?.supplementary_data?.related_ids?.order_id;
-          if (refundedOrderId) {
-            const purchase = await storage.getPurchaseByPayPalOrderId(refundedOrderId);
-            if (purchase) {
-              await storage.updatePurchaseStatus(purchase.id, "REFUNDED");
-            }
-          }
+          // Refunds made from the PayPal dashboard; admin refunds are already recorded
+          await refundService.recordPayPalRefund(event.resource);
           break;
 
-        case "BILLING.SUBSCRIPTION.ACTIVATED":
-          // Subscription activated - already handled in activate endpoint
+        case "PAYMENT.SALE.COMPLETED":
+          // Subscription payments; renewals are invoiced here
+          await subscriptionService.recordPayment(event.resource);
+          break;
+
+        case "BILLING.SUBSCRIPTION.PAYMENT.FAILED":
+          if (event.resource?.id) {
+            await subscriptionService.recordPaymentProblem(event.resource.id, "PAYMENT_FAILED");
+          }
           break;
 
-        case "BILLING.SUBSCRIPTION.CANCELLED":
         case "BILLING.SUBSCRIPTION.SUSPENDED":
-          const subscriptionId = event.resource?.id;
-          if (subscriptionId) {
-            await storage.updateSubscriptionStatusByPayPalId(subscriptionId, "CANCELED");
+          // Pauses are recorded when requested; other suspensions are unpaid renewals
+          if (event.resource?.id) {
+            await subscriptionService.recordPaymentProblem(event.resource.id, "SUSPENDED");
           }
           break;
 
+        case "BILLING.SUBSCRIPTION.ACTIVATED":
+        case "BILLING.SUBSCRIPTION.UPDATED":
+        case "BILLING.SUBSCRIPTION.CANCELLED":
         case "BILLING.SUBSCRIPTION.EXPIRED":
-          const expiredSubscriptionId = event.resource?.id;
-          if (expiredSubscriptionId) {
-            await storage.updateSubscriptionStatusByPayPalId(expiredSubscriptionId, "EXPIRED");
+          if (event.resource?.id) {
+            await subscriptionService.recordPayPalStatus(event.resource.id, event.event_type);
           }
           break;
 
@@ -5593,7 +6835,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Save PayPal configuration
-  app.post("/api/admin/paypal/config", requireAdmin, async (req, res) => {
+  app.post("/api/admin/paypal/config", requireAdmin, requireRecentTwoFactor, async (req, res) => {
     try {
       const { clientId, webhookId, environment } = req.body;
       
@@ -5640,7 +6882,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Sync project to GitHub
-  app.post("/api/admin/github/sync", requireAdmin, async (req, res) => {
+  app.post("/api/admin/github/sync", requireAdmin, requireRecentTwoFactor, async (req, res) => {
     try {
       const result = await syncToGitHub();
       if (result.success) {
@@ -5655,7 +6897,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Pull latest code from GitHub and restart
-  app.post("/api/admin/github/pull", requireAdmin, async (req, res) => {
+  app.post("/api/admin/github/pull", requireAdmin, requireRecentTwoFactor, async (req, res) => {
     try {
       const result = await pullFromGitHub();
       if (result.success) {
@@ -5845,6 +7087,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/admin/purchases/:id", requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
+      setAuditContext(res, { before: await storage.getPurchase(id) });
       const deleted = await storage.deletePendingPurchase(id);
       
       if (!deleted) {
@@ -5858,6 +7101,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: Refund a purchase (full or partial) and issue a credit note
+  app.post("/api/admin/purchases/:id/refund", requireAdmin, async (req, res) => {
+    try {
+      const validated = refundPurchaseSchema.parse(req.body);
+      const result = await refundService.refundPurchase(req.params.id, validated, req.session.userId!);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error refunding purchase:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Validation failed", details: error.errors });
+      } else if (error.message?.includes("Purchase not found")) {
+        res.status(404).json({ error: "Compra no encontrada" });
+      } else if (error.message?.includes("not refundable")) {
+        res.status(400).json({ error: "Solo se pueden reembolsar compras completadas" });
+      } else if (error.message?.includes("exceeds the refundable amount")) {
+        res.status(400).json({ error: "El importe supera lo que queda por reembolsar" });
+      } else if (error.message?.includes("no PayPal capture")) {
+        res.status(400).json({ error: "La compra no tiene un pago de PayPal que reembolsar" });
+      } else {
+        res.status(500).json({ error: error.message || "Error reembolsando compra" });
+      }
+    }
+  });
+
   // Admin: Manual cleanup of old pending purchases
   app.post("/api/admin/cleanup-pending", requireAdmin, async (req, res) => {
     try {
@@ -5872,6 +7139,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==================== CREATOR REVENUE ROUTES ====================
+
+  // Creator: earnings by month and audiobook, and payout statements
+  app.get("/api/creator/earnings", requireCreator, async (req, res) => {
+    try {
+      const overview = await royaltyService.getOverview(req.session.userId!);
+      res.json(overview);
+    } catch (error: any) {
+      console.error("Error getting creator earnings:", error);
+      res.status(500).json({ error: "Failed to get earnings" });
+    }
+  });
+
+  // Creator or admin: download a payout statement PDF
+  app.get("/api/payout-statements/:id/download", requireAuth, async (req, res) => {
+    try {
+      const statement = await storage.getPayoutStatement(req.params.id);
+      const user = await storage.getUser(req.session.userId!);
+      if (!statement || (statement.publisherId !== user?.id && user?.role !== "ADMIN")) {
+        return res.status(404).json({ error: "Payout statement not found" });
+      }
+
+      let pdfPath = statement.pdfPath;
+      if (!pdfPath || !fs.existsSync(pdfPath)) {
+        pdfPath = await royaltyService.generatePDF(statement.id);
+        await storage.updatePayoutStatement(statement.id, { pdfPath });
+      }
+
+      const publisher = statement.publisherId === user?.id ? user : await storage.getUser(statement.publisherId);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${royaltyService.getFileName(statement, publisher?.username || "")}"`);
+      res.sendFile(pdfPath);
+    } catch (error: any) {
+      console.error("Error downloading payout statement:", error);
+      res.status(500).json({ error: "Failed to download payout statement" });
+    }
+  });
+
+  // Admin: royalty rates and the default that applies without one
+  app.get("/api/admin/royalty-rates", requireAdmin, async (req, res) => {
+    try {
+      const rates = await storage.getRoyaltyRates();
+      res.json({ defaultRateBasisPoints: DEFAULT_ROYALTY_RATE_BASIS_POINTS, rates });
+    } catch (error: any) {
+      console.error("Error getting royalty rates:", error);
+      res.status(500).json({ error: "Failed to get royalty rates" });
+    }
+  });
+
+  // Admin: set the rate for a publisher or an audiobook
+  app.post("/api/admin/royalty-rates", requireAdmin, async (req, res) => {
+    try {
+      const data = insertRoyaltyRateSchema.parse(req.body);
+      if (data.publisherId && !(await storage.getUser(data.publisherId))) {
+        return res.status(404).json({ error: "Publisher not found" });
+      }
+      if (data.audiobookId && !(await storage.getAudiobook(data.audiobookId))) {
+        return res.status(404).json({ error: "Audiobook not found" });
+      }
+
+      const existing = await storage.getRoyaltyRates();
+      if (existing.some(rate => (data.publisherId && rate.publisherId === data.publisherId) || (data.audiobookId && rate.audiobookId === data.audiobookId))) {
+        return res.status(400).json({ error: "A royalty rate already exists for this publisher or audiobook" });
+      }
+
+      const rate = await storage.createRoyaltyRate(data);
+      res.json(rate);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Error creating royalty rate:", error);
+      res.status(500).json({ error: "Failed to create royalty rate" });
+    }
+  });
+
+  // Admin: change a rate; earnings already recorded keep the rate they were recorded at
+  app.patch("/api/admin/royalty-rates/:id", requireAdmin, async (req, res) => {
+    try {
+      const { rateBasisPoints } = updateRoyaltyRateSchema.parse(req.body);
+      const rate = await storage.updateRoyaltyRate(req.params.id, rateBasisPoints);
+      res.json(rate);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error updating royalty rate:", error);
+      res.status(500).json({ error: "Failed to update royalty rate" });
+    }
+  });
+
+  // Admin: remove a rate so the publisher's (or the default) applies again
+  app.delete("/api/admin/royalty-rates/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteRoyaltyRate(req.params.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting royalty rate:", error);
+      res.status(500).json({ error: "Failed to delete royalty rate" });
+    }
+  });
+
+  // Admin: payout statements, optionally only pending or paid ones
+  app.get("/api/admin/payout-statements", requireAdmin, async (req, res) => {
+    try {
+      const status = payoutStatusEnum.enumValues.find(value => value === req.query.status);
+      const statements = await storage.getPayoutStatements({ status });
+      res.json(statements);
+    } catch (error: any) {
+      console.error("Error getting payout statements:", error);
+      res.status(500).json({ error: "Failed to get payout statements" });
+    }
+  });
+
+  // Admin: close a finished month now instead of waiting for the hourly run
+  app.post("/api/admin/payout-statements/close", requireAdmin, async (req, res) => {
+    try {
+      const { period } = closePayoutPeriodSchema.parse(req.body);
+      const statements = await royaltyService.closePeriod(period);
+      res.json({ created: statements.length, statements });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("not ended yet")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error closing payout period:", error);
+      res.status(500).json({ error: "Failed to close payout period" });
+    }
+  });
+
+  // Admin: record that a statement has been paid
+  app.post("/api/admin/payout-statements/:id/paid", requireAdmin, async (req, res) => {
+    try {
+      const { paymentReference } = markPayoutPaidSchema.parse(req.body);
+      const statement = await royaltyService.markPaid(req.params.id, req.session.userId!, paymentReference);
+      res.json(statement);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message?.includes("already paid")) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error marking payout as paid:", error);
+      res.status(500).json({ error: "Failed to mark payout as paid" });
+    }
+  });
+
   // ============ DISCOUNT CODE ROUTES ============
   
   // Admin: Get all discount codes
@@ -5908,6 +7331,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         appliesToSubscriptions: appliesToSubscriptions || false,
         appliesToPurchases: appliesToPurchases !== false,
       });
+      setAuditContext(res, { targetId: discountCode.id, after: discountCode });
       
       res.json(discountCode);
     } catch (error: any) {
@@ -5935,6 +7359,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updates.validUntil = new Date(updates.validUntil);
       }
       
+      setAuditContext(res, { before: await storage.getDiscountCode(id) });
       const updated = await storage.updateDiscountCode(id, updates);
       res.json(updated);
     } catch (error: any) {
@@ -5947,6 +7372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/admin/discount-codes/:id", requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
+      setAuditContext(res, { before: await storage.getDiscountCode(id) });
       await storage.deleteDiscountCode(id);
       res.json({ success: true });
     } catch (error: any) {
@@ -5956,7 +7382,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User: Validate discount code
-  app.post("/api/discount-codes/validate", requireAuth, async (req, res) => {
+  app.post("/api/discount-codes/validate", requireAuth, rateLimit(DISCOUNT_CODE_RATE_LIMIT), async (req, res) => {
     try {
       const { code, totalCents, forSubscription } = req.body;
       const userId = req.session.userId!;
@@ -5973,6 +7399,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       if (!result.valid) {
+        // Guessing codes one after another gets slowed down
+        await recordRateLimitFailure(req, DISCOUNT_CODE_RATE_LIMIT);
         return res.json({ valid: false, error: result.error });
       }
       
@@ -6004,6 +7432,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ============ TAX RULE ROUTES ============
+
+  // Admin: Get all tax rules
+  app.get("/api/admin/tax-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = await storage.getAllTaxRules();
+      res.json(rules);
+    } catch (error: any) {
+      console.error("Error fetching tax rules:", error);
+      res.status(500).json({ error: error.message || "Error fetching tax rules" });
+    }
+  });
+
+  // Admin: Preview which rule applies to a buyer
+  app.get("/api/admin/tax-rules/preview", requireAdmin, async (req, res) => {
+    try {
+      const resolution = await taxService.resolveTax({
+        country: (req.query.country as string) || "",
+        postalCode: (req.query.postalCode as string) || "",
+        taxId: (req.query.taxId as string) || null,
+      });
+      res.json(resolution);
+    } catch (error: any) {
+      console.error("Error previewing tax rule:", error);
+      res.status(500).json({ error: error.message || "Error previewing tax rule" });
+    }
+  });
+
+  // Admin: Create tax rule
+  app.post("/api/admin/tax-rules", requireAdmin, async (req, res) => {
+    try {
+      const data = insertTaxRuleSchema.parse(req.body);
+      const rule = await storage.createTaxRule(data);
+      res.json(rule);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Datos de regla fiscal no validos", details: error.errors });
+      }
+      console.error("Error creating tax rule:", error);
+      res.status(500).json({ error: error.message || "Error creating tax rule" });
+    }
+  });
+
+  // Admin: Update tax rule
+  app.patch("/api/admin/tax-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getTaxRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Regla fiscal no encontrada" });
+      }
+
+      const data = insertTaxRuleSchema.partial().parse(req.body);
+      const updated = await storage.updateTaxRule(req.params.id, data);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Datos de regla fiscal no validos", details: error.errors });
+      }
+      console.error("Error updating tax rule:", error);
+      res.status(500).json({ error: error.message || "Error updating tax rule" });
+    }
+  });
+
+  // Admin: Delete tax rule (rules referenced by issued invoices can only be deactivated)
+  app.delete("/api/admin/tax-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (await storage.isTaxRuleInUse(id)) {
+        return res.status(400).json({ error: "La regla se ha aplicado a facturas emitidas; desactivala en lugar de eliminarla" });
+      }
+      await storage.deleteTaxRule(id);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting tax rule:", error);
+      res.status(500).json({ error: error.message || "Error deleting tax rule" });
+    }
+  });
+
   // Admin: Download customers report in Excel
   app.get("/api/admin/reports/customers", requireAdmin, async (req, res) => {
     try {
@@ -6188,6 +7694,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: Account deletion requests, pending ones first to run
+  app.get("/api/admin/account-deletions", requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status === "ALL" ? undefined : accountDeletionStatusEnum.enumValues.find(value => value === req.query.status) ?? "PENDING";
+      const requests = await storage.getAccountDeletionRequests(status);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching account deletion requests:", error);
+      res.status(500).json({ error: "Failed to fetch account deletion requests" });
+    }
+  });
+
+  // Admin: Cancel a pending account deletion, e.g. when the user asks by email
+  app.post("/api/admin/account-deletions/:id/cancel", requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getAccountDeletionRequest(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Deletion request not found" });
+      }
+      setAuditContext(res, { targetType: "users", targetId: existing.userId, before: existing });
+      const request = await personalDataService.cancelDeletion(existing.id, req.session.userId!);
+      res.json(request);
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error cancelling account deletion:", error);
+      res.status(500).json({ error: "Failed to cancel account deletion" });
+    }
+  });
+
+  // Admin: Audit log of admin actions, filtered and paginated
+  app.get("/api/admin/audit-log", requireAdmin, async (req, res) => {
+    try {
+      const query = adminAuditLogQuerySchema.parse(req.query);
+      const page = await storage.getAdminAuditLog(query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error("Error fetching admin audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  // Admin: Download the audit log in CSV with the same filters
+  app.get("/api/admin/audit-log/export", requireAdmin, async (req, res) => {
+    try {
+      const ExcelJSModule = await import("exceljs");
+      const ExcelJS = ExcelJSModule.default || ExcelJSModule;
+      const { limit: _limit, offset: _offset, ...filters } = adminAuditLogQuerySchema.parse(req.query);
+      const entries = await storage.getAllAdminAuditEntries(filters);
+      
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet("Auditoria");
+      
+      worksheet.columns = [
+        { header: "Fecha", key: "createdAt", width: 22 },
+        { header: "Administrador", key: "actorEmail", width: 30 },
+        { header: "Accion", key: "action", width: 45 },
+        { header: "Tipo", key: "targetType", width: 20 },
+        { header: "Objetivo", key: "targetId", width: 36 },
+        { header: "Antes", key: "before", width: 60 },
+        { header: "Despues", key: "after", width: 60 },
+        { header: "IP", key: "ipAddress", width: 18 },
+      ];
+      
+      entries.forEach((entry) => {
+        worksheet.addRow({
+          createdAt: new Date(entry.createdAt).toISOString(),
+          actorEmail: entry.actorEmail,
+          action: entry.action,
+          targetType: entry.targetType || "",
+          targetId: entry.targetId || "",
+          before: entry.before || "",
+          after: entry.after || "",
+          ipAddress: entry.ipAddress || "",
+        });
+      });
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename=auditoria_${new Date().toISOString().split("T")[0]}.csv`);
+      
+      await workbook.csv.write(res);
+      res.end();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error("Error generating audit log export:", error);
+      res.status(500).json({ error: error.message || "Error generando informe" });
+    }
+  });
+
   // ==================== SETUP / INSTALLATION ENDPOINTS ====================
 
   // Check if system is installed (has admin user)
@@ -0,0 +1,407 @@
+/**
+ * Creator revenue sharing
+ * Completed purchases earn the publisher a share of what the buyer paid
+ * without tax (discounts are already taken off), and refunds take the same
+ * share back. Each month's subscription revenue forms a pool that is split
+ * between audiobooks by the minutes subscribers listened to them that month,
+ * and each audiobook's slice earns its publisher the same share. Once a month
+ * is over its earnings go on a payout statement per publisher, with a PDF,
+ * until an admin marks it paid.
+ */
+
+import PDFDocument from "pdfkit";
+import * as fs from "fs";
+import * as path from "path";
+import { storage } from "./storage";
+import { taxService, splitGrossAmount, formatTaxRate } from "./tax-service";
+import { jobQueue } from "./job-queue";
+import type {
+  Audiobook,
+  AudiobookPurchase,
+  Chapter,
+  CreatorEarning,
+  CreatorEarningsOverview,
+  InsertCreatorEarning,
+  ListeningProgress,
+  PayoutStatement,
+  PurchaseRefund,
+} from "@shared/schema";
+
+const STATEMENTS_DIR = path.join(process.cwd(), "payout-statements");
+
+if (!fs.existsSync(STATEMENTS_DIR)) {
+  fs.mkdirSync(STATEMENTS_DIR, { recursive: true });
+}
+
+// Creator share when neither the audiobook nor its publisher has a rate
+export const DEFAULT_ROYALTY_RATE_BASIS_POINTS = 5000;
+
+// Fastest speed the player offers; listening can't move ahead quicker than this
+const MAX_PLAYBACK_RATE = 3;
+
+const EARNING_LABELS: Record<CreatorEarning["type"], string> = {
+  SALE: "Venta",
+  REFUND: "Devolucion",
+  SUBSCRIPTION_POOL: "Suscripciones",
+};
+
+export interface PayoutStatementPdfJobPayload {
+  statementId: string;
+}
+
+// Periods are calendar months in UTC, as YYYY-MM
+export function formatPeriod(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export function getPreviousPeriod(now = new Date()): string {
+  return formatPeriod(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)));
+}
+
+function getPeriodRange(period: string): { from: Date; to: Date } {
+  const [year, month] = period.split("-").map(Number);
+  return { from: new Date(Date.UTC(year, month - 1, 1)), to: new Date(Date.UTC(year, month, 1)) };
+}
+
+function formatPeriodName(period: string): string {
+  return getPeriodRange(period).from.toLocaleDateString("es-ES", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function applyRate(netCents: number, rateBasisPoints: number): number {
+  return Math.round(netCents * rateBasisPoints / 10000);
+}
+
+export class RoyaltyService {
+  async getRate(audiobook: Pick<Audiobook, "id" | "publisherId">): Promise<number> {
+    return (await storage.getRoyaltyRateFor(audiobook)) ?? DEFAULT_ROYALTY_RATE_BASIS_POINTS;
+  }
+
+  /**
+   * Record the publisher's share of a completed purchase
+   * Called everywhere a purchase completes; a purchase already in the ledger is
+   * skipped, so calling it twice is harmless.
+   */
+  async recordSale(purchaseId: string): Promise<CreatorEarning | null> {
+    const purchase = await storage.getPurchase(purchaseId);
+    if (!purchase || purchase.status !== "COMPLETED" || purchase.pricePaidCents <= 0) {
+      return null;
+    }
+    if (await storage.getSaleEarning(purchase.id)) {
+      return null;
+    }
+    const audiobook = await storage.getAudiobook(purchase.audiobookId);
+    if (!audiobook) {
+      return null;
+    }
+
+    const netRevenueCents = await this.getNetAmount(purchase, purchase.pricePaidCents);
+    const rateBasisPoints = await this.getRate(audiobook);
+    const [earning] = await storage.createCreatorEarnings([{
+      publisherId: audiobook.publisherId,
+      audiobookId: audiobook.id,
+      type: "SALE",
+      period: formatPeriod(new Date()),
+      purchaseId: purchase.id,
+      netRevenueCents,
+      rateBasisPoints,
+      amountCents: applyRate(netRevenueCents, rateBasisPoints),
+      currency: purchase.currency,
+    }]);
+    return earning ?? null;
+  }
+
+  // Takes back the share of the refunded amount at the rate the sale earned
+  async recordRefund(refund: PurchaseRefund, purchase: AudiobookPurchase): Promise<CreatorEarning | null> {
+    const sale = await storage.getSaleEarning(purchase.id);
+    if (!sale) {
+      // Sold before the ledger existed; there is nothing to reverse
+      return null;
+    }
+
+    const netRevenueCents = await this.getNetAmount(purchase, refund.amountCents);
+    const [earning] = await storage.createCreatorEarnings([{
+      publisherId: sale.publisherId,
+      audiobookId: sale.audiobookId,
+      type: "REFUND",
+      period: formatPeriod(new Date()),
+      refundId: refund.id,
+      netRevenueCents: -netRevenueCents,
+      rateBasisPoints: sale.rateBasisPoints,
+      amountCents: -applyRate(netRevenueCents, sale.rateBasisPoints),
+      currency: refund.currency,
+    }]);
+    return earning ?? null;
+  }
+
+  /**
+   * Count what a subscriber listened since their previous save in a chapter
+   * Only forward movement counts, and no more than the time between the two
+   * saves allows at the fastest speed, so seeking ahead adds nothing. It goes
+   * to the month of the save. Buyers, the publisher and admins don't listen
+   * through the subscription and aren't counted; neither are samples.
+   */
+  async recordListening(userId: string, chapter: Chapter, previous: ListeningProgress, progress: ListeningProgress): Promise<void> {
+    if (chapter.isSample) {
+      return;
+    }
+    const elapsedSeconds = (progress.updatedAt.getTime() - previous.updatedAt.getTime()) / 1000;
+    const position = chapter.duration > 0 ? Math.min(progress.positionSeconds, chapter.duration) : progress.positionSeconds;
+    const seconds = Math.floor(Math.min(position - previous.positionSeconds, elapsedSeconds * MAX_PLAYBACK_RATE));
+    if (seconds <= 0) {
+      return;
+    }
+
+    const access = await storage.hasAccessToAudiobook(userId, chapter.audiobookId);
+    if (!access.isSubscriber) {
+      return;
+    }
+    await storage.addCatalogListening(chapter.audiobookId, formatPeriod(progress.updatedAt), seconds);
+  }
+
+  /**
+   * Split a month's subscription revenue (without tax) between audiobooks
+   * by minutes subscribers listened to them that month. Runs once per month;
+   * the pool rows are unique per audiobook and currency.
+   */
+  async allocateSubscriptionPool(period: string): Promise<number> {
+    if (await storage.hasSubscriptionPoolEarnings(period)) {
+      return 0;
+    }
+
+    const { from, to } = getPeriodRange(period);
+    const revenue = await storage.getSubscriptionRevenue(from, to);
+    const listening = await storage.getCatalogListeningMinutes(period);
+    const totalMinutes = listening.reduce((total, row) => total + row.minutes, 0);
+    if (totalMinutes === 0) {
+      return 0;
+    }
+
+    const rates = new Map<string, number>();
+    for (const row of listening) {
+      rates.set(row.audiobookId, await this.getRate({ id: row.audiobookId, publisherId: row.publisherId }));
+    }
+
+    const rows: InsertCreatorEarning[] = [];
+    for (const { currency, netCents } of revenue) {
+      if (netCents <= 0) continue;
+      for (const row of listening) {
+        const allocation = Math.round(netCents * row.minutes / totalMinutes);
+        const rateBasisPoints = rates.get(row.audiobookId)!;
+        rows.push({
+          publisherId: row.publisherId,
+          audiobookId: row.audiobookId,
+          type: "SUBSCRIPTION_POOL",
+          period,
+          netRevenueCents: allocation,
+          rateBasisPoints,
+          amountCents: applyRate(allocation, rateBasisPoints),
+          currency,
+          listeningMinutes: row.minutes,
+        });
+      }
+    }
+
+    const created = await storage.createCreatorEarnings(rows);
+    return created.length;
+  }
+
+  /**
+   * Close a month that has ended
+   * Shares out its subscription pool and puts every publisher's unpaid
+   * earnings up to that month on a statement. Running it again only picks up
+   * what is still unpaid, so it is safe to repeat.
+   */
+  async closePeriod(period: string): Promise<PayoutStatement[]> {
+    if (period >= formatPeriod(new Date())) {
+      throw new Error("Period has not ended yet");
+    }
+
+    await this.allocateSubscriptionPool(period);
+
+    const statements: PayoutStatement[] = [];
+    for (const group of await storage.getUnpaidEarningGroups(period)) {
+      const statement = await storage.createPayoutStatement(group.publisherId, period, group.currency);
+      if (statement) {
+        statements.push(statement);
+        await this.queuePDF(statement.id);
+      }
+    }
+    return statements;
+  }
+
+  async markPaid(statementId: string, adminId: string, paymentReference?: string): Promise<PayoutStatement> {
+    const statement = await storage.getPayoutStatement(statementId);
+    if (!statement) {
+      throw new Error("Payout statement not found");
+    }
+    if (statement.status === "PAID") {
+      throw new Error("Payout statement is already paid");
+    }
+
+    const paid = await storage.updatePayoutStatement(statementId, {
+      status: "PAID",
+      paidAt: new Date(),
+      paidBy: adminId,
+      paymentReference: paymentReference || null,
+    });
+    // The PDF shows the payment
+    await this.queuePDF(statementId);
+    return paid;
+  }
+
+  // Last twelve months, per audiobook totals and all statements
+  async getOverview(publisherId: string): Promise<CreatorEarningsOverview> {
+    const now = new Date();
+    const fromPeriod = formatPeriod(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1)));
+
+    const [unpaid, months, audiobookTotals, statements] = await Promise.all([
+      storage.getUnpaidEarnings(publisherId),
+      storage.getCreatorEarningsByMonth(publisherId, fromPeriod),
+      storage.getCreatorEarningsByAudiobook(publisherId),
+      storage.getPayoutStatements({ publisherId }),
+    ]);
+
+    const audiobooks = await Promise.all(audiobookTotals.map(async (row) => ({
+      ...row,
+      rateBasisPoints: await this.getRate({ id: row.audiobookId, publisherId }),
+    })));
+
+    return {
+      unpaid,
+      months,
+      audiobooks,
+      statements: statements.map(({ publisherName: _, publisherEmail: __, ...statement }) => statement),
+    };
+  }
+
+  async queuePDF(statementId: string): Promise<void> {
+    const payload: PayoutStatementPdfJobPayload = { statementId };
+    await jobQueue.enqueue("payout-statement-pdf", payload);
+  }
+
+  // Handler for "payout-statement-pdf" jobs
+  async runPDFJob({ statementId }: PayoutStatementPdfJobPayload): Promise<{ pdfPath: string }> {
+    const pdfPath = await this.generatePDF(statementId);
+    await storage.updatePayoutStatement(statementId, { pdfPath });
+    return { pdfPath };
+  }
+
+  getFileName(statement: PayoutStatement, publisherName: string): string {
+    return `liquidacion-${statement.period}-${statement.currency}-${publisherName.replace(/[^a-zA-Z0-9_-]/g, "")}.pdf`;
+  }
+
+  // Tax comes off what the buyer paid, at the rate on the purchase invoice when there is one
+  private async getNetAmount(purchase: AudiobookPurchase, grossCents: number): Promise<number> {
+    const invoice = await storage.getPurchaseInvoice(purchase.id);
+    if (invoice) {
+      return splitGrossAmount(grossCents, invoice.taxRateBasisPoints ?? invoice.taxRate * 100).subtotalCents;
+    }
+    const billingProfile = await storage.getBillingProfile(purchase.giftedByUserId || purchase.userId);
+    const tax = await taxService.resolveTax(billingProfile);
+    return splitGrossAmount(grossCents, tax.rateBasisPoints).subtotalCents;
+  }
+
+  async generatePDF(statementId: string): Promise<string> {
+    const statement = await storage.getPayoutStatement(statementId);
+    if (!statement) {
+      throw new Error("Payout statement not found");
+    }
+
+    const publisher = await storage.getUser(statement.publisherId);
+    const earnings = await storage.getPayoutStatementEarnings(statementId);
+    const filePath = path.join(STATEMENTS_DIR, `${statement.id}.pdf`);
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50 });
+      const stream = fs.createWriteStream(filePath);
+
+      doc.pipe(stream);
+
+      doc.fontSize(24).fillColor('#7C3AED').text('AUDIVIA', 50, 50);
+      doc.fontSize(10).fillColor('#666').text('Premium Audiobooks', 50, 80);
+      doc.fontSize(16).fillColor('#333').text('LIQUIDACION DE REGALIAS', 250, 54, { width: 300, align: 'right' });
+      doc.fontSize(10).fillColor('#666').text(formatPeriodName(statement.period), 250, 75, { width: 300, align: 'right' });
+
+      doc.moveTo(50, 110).lineTo(550, 110).stroke('#ddd');
+
+      doc.fontSize(10).fillColor('#333').text('Creador:', 50, 130);
+      doc.fillColor('#666');
+      doc.text(publisher?.username || statement.publisherId, 50, 145);
+      if (publisher?.email) {
+        doc.text(publisher.email, 50, 160);
+      }
+
+      doc.fillColor('#333').text('Estado:', 300, 130);
+      doc.fillColor('#666').text(
+        statement.status === "PAID" && statement.paidAt
+          ? `Pagada el ${new Date(statement.paidAt).toLocaleDateString('es-ES')}`
+          : 'Pendiente de pago',
+        300, 145
+      );
+      if (statement.paymentReference) {
+        doc.text(`Referencia: ${statement.paymentReference}`, 300, 160);
+      }
+
+      const drawHeader = (top: number) => {
+        doc.fillColor('#7C3AED').rect(50, top, 500, 25).fill();
+        doc.fillColor('#fff').fontSize(10);
+        doc.text('Concepto', 60, top + 8);
+        doc.text('Audiolibro', 160, top + 8);
+        doc.text('Base', 360, top + 8);
+        doc.text('%', 430, top + 8);
+        doc.text('Importe', 480, top + 8);
+      };
+
+      drawHeader(200);
+      let yPos = 235;
+      doc.fillColor('#333');
+
+      for (const earning of earnings) {
+        if (yPos > 700) {
+          doc.addPage();
+          drawHeader(50);
+          yPos = 85;
+          doc.fillColor('#333');
+        }
+        const concept = earning.type === "SUBSCRIPTION_POOL"
+          ? `${EARNING_LABELS[earning.type]} (${earning.listeningMinutes} min)`
+          : EARNING_LABELS[earning.type];
+        doc.text(`${concept}\n${earning.period}`, 60, yPos, { width: 95 });
+        doc.text(earning.audiobookTitle, 160, yPos, { width: 190, height: 24, ellipsis: true });
+        doc.text(this.formatCurrency(earning.netRevenueCents, earning.currency), 360, yPos);
+        doc.text(`${formatTaxRate(earning.rateBasisPoints)}%`, 430, yPos);
+        doc.text(this.formatCurrency(earning.amountCents, earning.currency), 480, yPos);
+        yPos += 30;
+      }
+
+      // Keep the total clear of the footer
+      if (yPos > 660) {
+        doc.addPage();
+        yPos = 50;
+      }
+      doc.moveTo(50, yPos + 5).lineTo(550, yPos + 5).stroke('#ddd');
+      yPos += 20;
+      doc.fillColor('#7C3AED').fontSize(12).text('TOTAL:', 380, yPos);
+      doc.text(this.formatCurrency(statement.totalCents, statement.currency), 480, yPos);
+
+      doc.fontSize(8).fillColor('#999');
+      doc.text('La base es el importe cobrado sin impuestos; en suscripciones, la parte del fondo mensual que corresponde a los minutos escuchados.', 50, 700, { align: 'center', width: 500 });
+
+      doc.end();
+
+      stream.on('finish', () => {
+        resolve(filePath);
+      });
+
+      stream.on('error', reject);
+    });
+  }
+
+  private formatCurrency(cents: number, currency: string): string {
+    const amount = cents / 100;
+    const symbol = currency === 'EUR' ? 'EUR' : currency === 'USD' ? '$' : currency;
+    return `${amount.toFixed(2)} ${symbol}`;
+  }
+}
+
+export const royaltyService = new RoyaltyService();
@@ -1,13 +1,83 @@
-import type { Podcast, Episode, User } from "@shared/schema";
+/**
+ * RSS feed builder
+ * Every feed we serve (the public feed of an audiobook and the private
+ * library feeds behind /feed/:token) goes through buildFeedXml, which emits
+ * RSS 2.0 with the iTunes tags Apple Podcasts requires and the Podcasting 2.0
+ * namespace (guid, locked, person, season, chapters, transcript).
+ */
+
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { etagMatches } from "./http-range";
+import { signChapterAudio, signMediaPath, FEED_MEDIA_URL_TTL_SECONDS, type MediaUrlSubject } from "./media-signing";
+import { TRANSCRIPT_MIME_TYPES, getTranscriptExtension } from "./transcripts";
+import type { Audiobook, Chapter, User } from "@shared/schema";
+
+// Namespace for podcast:guid values (UUIDv5), fixed by the Podcasting 2.0 spec
+const PODCAST_GUID_NAMESPACE = "ead4c236-bf58-58c6-a2c6-a6b28d128cb6";
+
+// Signed enclosure URLs last a year; changing the ETag monthly makes apps refetch them well before
+const FEED_ETAG_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".m4b": "audio/mp4",
+  ".aac": "audio/aac",
+  ".ogg": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".wav": "audio/wav",
+  ".flac": "audio/flac",
+};
 
-export interface EpisodeForRSS extends Episode {
-  effectiveCoverArtUrl: string | null;
-  effectiveCoverArtAssetId: string | null;
+export interface FeedPerson {
+  name: string;
+  role: "author" | "narrator";
 }
 
-export interface PodcastForRSS extends Podcast {
-  owner: User;
-  episodes: EpisodeForRSS[];
+export interface FeedTranscript {
+  url: string;
+  mimeType: string;
+  language?: string;
+}
+
+export interface FeedItem {
+  guid: string;
+  title: string;
+  // Short title for itunes:title, without the book or chapter number
+  episodeTitle: string;
+  description: string;
+  link: string;
+  pubDate: Date;
+  enclosure: { url: string; mimeType: string; length: number };
+  durationSeconds: number;
+  imageUrl: string | null;
+  author: string;
+  episode: number;
+  season: { number: number; name: string | null } | null;
+  persons: FeedPerson[];
+  chaptersUrl: string | null;
+  transcripts: FeedTranscript[];
+}
+
+export interface FeedChannel {
+  title: string;
+  link: string;
+  description: string;
+  language: string;
+  feedUrl: string;
+  // podcast:guid, see getPodcastGuid
+  guid: string;
+  // serial: listened in order, apps sort by episode number
+  type: "serial" | "episodic";
+  author: string;
+  owner: { name: string; email: string } | null;
+  imageUrl: string | null;
+  persons: FeedPerson[];
+  // Private feeds are kept out of podcast directories (itunes:block)
+  isPrivate: boolean;
+  items: FeedItem[];
 }
 
 /**
@@ -29,7 +99,7 @@ function escapeXml(unsafe: string | null | undefined): string {
 function formatRFC822Date(date: Date): string {
   const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
   const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  
+
   // Use UTC methods to ensure correct timezone
   const day = days[date.getUTCDay()];
   const dayNum = String(date.getUTCDate()).padStart(2, "0");
@@ -38,7 +108,7 @@ function formatRFC822Date(date: Date): string {
   const hours = String(date.getUTCHours()).padStart(2, "0");
   const minutes = String(date.getUTCMinutes()).padStart(2, "0");
   const seconds = String(date.getUTCSeconds()).padStart(2, "0");
-  
+
   return `${day}, ${dayNum} ${month} ${year} ${hours}:${minutes}:${seconds} +0000`;
 }
 
@@ -49,93 +119,337 @@ function formatDuration(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
   const secs = seconds % 60;
-  
+
   return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
 }
 
 /**
- * Generates RSS 2.0 feed XML with iTunes extensions
+ * podcast:guid for a show: a UUIDv5 of its URL without the scheme
+ * Callers pass a stable URL (not the tokenized feed URL), so the guid survives
+ * feed token regeneration.
+ */
+export function getPodcastGuid(url: string): string {
+  const name = url.replace(/^[a-z]+:\/\//i, "").replace(/\/+$/, "");
+  const hash = crypto
+    .createHash("sha1")
+    .update(Buffer.from(PODCAST_GUID_NAMESPACE.replace(/-/g, ""), "hex"))
+    .update(name)
+    .digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function absoluteUrl(siteUrl: string, url: string): string {
+  return url.startsWith("http") ? url : `${siteUrl}${url}`;
+}
+
+function guessAudioMimeType(url: string): string {
+  const extension = url.split("?")[0].match(/\.[a-z0-9]+$/i)?.[0].toLowerCase();
+  return (extension && AUDIO_MIME_TYPES[extension]) || "audio/mpeg";
+}
+
+function formatPersons(persons: FeedPerson[], indent: string): string {
+  return persons
+    .map(person => {
+      const group = person.role === "author" ? "writing" : "cast";
+      return `\n${indent}<podcast:person group="${group}" role="${person.role}">${escapeXml(person.name)}</podcast:person>`;
+    })
+    .join("");
+}
+
+function formatItem(item: FeedItem): string {
+  let xml = `
+    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.link)}</link>
+      <description>${escapeXml(item.description)}</description>
+      <pubDate>${formatRFC822Date(item.pubDate)}</pubDate>
+      <guid isPermaLink="false">${escapeXml(item.guid)}</guid>
+      <enclosure url="${escapeXml(item.enclosure.url)}" type="${escapeXml(item.enclosure.mimeType)}" length="${item.enclosure.length}" />
+      <itunes:title>${escapeXml(item.episodeTitle)}</itunes:title>
+      <itunes:author>${escapeXml(item.author)}</itunes:author>
+      <itunes:duration>${formatDuration(item.durationSeconds)}</itunes:duration>
+      <itunes:episode>${item.episode}</itunes:episode>
+      <itunes:episodeType>full</itunes:episodeType>
+      <itunes:explicit>false</itunes:explicit>`;
+
+  if (item.imageUrl) {
+    xml += `
+      <itunes:image href="${escapeXml(item.imageUrl)}" />`;
+  }
+  if (item.season) {
+    xml += `
+      <itunes:season>${item.season.number}</itunes:season>`;
+    xml += item.season.name
+      ? `
+      <podcast:season name="${escapeXml(item.season.name)}">${item.season.number}</podcast:season>`
+      : `
+      <podcast:season>${item.season.number}</podcast:season>`;
+  }
+  xml += `
+      <podcast:episode>${item.episode}</podcast:episode>`;
+  xml += formatPersons(item.persons, "      ");
+  if (item.chaptersUrl) {
+    xml += `
+      <podcast:chapters url="${escapeXml(item.chaptersUrl)}" type="application/json+chapters" />`;
+  }
+  for (const transcript of item.transcripts) {
+    xml += `
+      <podcast:transcript url="${escapeXml(transcript.url)}" type="${escapeXml(transcript.mimeType)}"${transcript.language ? ` language="${escapeXml(transcript.language)}"` : ""} />`;
+  }
+
+  return xml + `
+    </item>`;
+}
+
+/**
+ * Generates RSS 2.0 feed XML with iTunes and Podcasting 2.0 extensions
  */
-export function generateRSSFeed(podcast: PodcastForRSS, feedUrl: string, siteUrl: string): string {
-  const { owner, episodes } = podcast;
-  
-  const podcastLink = `${siteUrl}/podcast/${podcast.id}`;
-  const lastBuildDate = episodes.length > 0 
-    ? formatRFC822Date(new Date(episodes[0].publishedAt))
-    : formatRFC822Date(new Date());
-  
+export function buildFeedXml(channel: FeedChannel): string {
   let xml = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" 
+<rss version="2.0"
      xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+     xmlns:podcast="https://podcastindex.org/namespace/1.0"
      xmlns:atom="http://www.w3.org/2005/Atom"
      xmlns:content="http://purl.org/rss/1.0/modules/content/">
   <channel>
-    <title>${escapeXml(podcast.title)}</title>
-    <link>${escapeXml(podcastLink)}</link>
-    <description>${escapeXml(podcast.description)}</description>
-    <language>${escapeXml(podcast.language)}</language>
-    <lastBuildDate>${lastBuildDate}</lastBuildDate>
-    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml" />
-    <managingEditor>${escapeXml(owner.email)} (${escapeXml(owner.username)})</managingEditor>
-    <webMaster>${escapeXml(owner.email)} (${escapeXml(owner.username)})</webMaster>
-    
-    <!-- iTunes Tags -->
-    <itunes:author>${escapeXml(owner.username)}</itunes:author>
-    <itunes:summary>${escapeXml(podcast.description)}</itunes:summary>
+    <title>${escapeXml(channel.title)}</title>
+    <link>${escapeXml(channel.link)}</link>
+    <description>${escapeXml(channel.description)}</description>
+    <language>${escapeXml(channel.language)}</language>
+    <lastBuildDate>${formatRFC822Date(getFeedLastModified(channel))}</lastBuildDate>
+    <atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml" />
+    <itunes:type>${channel.type}</itunes:type>
+    <itunes:author>${escapeXml(channel.author)}</itunes:author>
+    <itunes:summary>${escapeXml(channel.description)}</itunes:summary>
+    <itunes:category text="Arts">
+      <itunes:category text="Books" />
+    </itunes:category>
+    <itunes:explicit>false</itunes:explicit>`;
+
+  if (channel.owner) {
+    xml += `
     <itunes:owner>
-      <itunes:name>${escapeXml(owner.username)}</itunes:name>
-      <itunes:email>${escapeXml(owner.email)}</itunes:email>
+      <itunes:name>${escapeXml(channel.owner.name)}</itunes:name>
+      <itunes:email>${escapeXml(channel.owner.email)}</itunes:email>
     </itunes:owner>`;
-  
-  if (podcast.coverArtUrl) {
+  }
+  if (channel.imageUrl) {
     xml += `
-    <itunes:image href="${escapeXml(podcast.coverArtUrl)}" />
+    <itunes:image href="${escapeXml(channel.imageUrl)}" />
     <image>
-      <url>${escapeXml(podcast.coverArtUrl)}</url>
-      <title>${escapeXml(podcast.title)}</title>
-      <link>${escapeXml(podcastLink)}</link>
+      <url>${escapeXml(channel.imageUrl)}</url>
+      <title>${escapeXml(channel.title)}</title>
+      <link>${escapeXml(channel.link)}</link>
     </image>`;
   }
-  
-  xml += `
-    <itunes:category text="${escapeXml(podcast.category)}" />
-    <itunes:explicit>no</itunes:explicit>
-    
-`;
-  
-  // Add episodes
-  for (const episode of episodes) {
-    const episodeLink = `${siteUrl}/podcast/${podcast.id}#episode-${episode.id}`;
-    const pubDate = formatRFC822Date(new Date(episode.publishedAt));
-    const duration = formatDuration(episode.duration);
-    
-    xml += `    <item>
-      <title>${escapeXml(episode.title)}</title>
-      <link>${escapeXml(episodeLink)}</link>
-      <description>${escapeXml(episode.notes)}</description>
-      <pubDate>${pubDate}</pubDate>
-      <guid isPermaLink="true">${escapeXml(episodeLink)}</guid>
-      <enclosure url="${escapeXml(episode.audioUrl)}" type="audio/mpeg" length="${episode.audioFileSize}" />`;
-    
-    // Add episode cover art if available (with fallback to podcast cover)
-    if (episode.effectiveCoverArtUrl) {
-      xml += `
-      <itunes:image href="${escapeXml(episode.effectiveCoverArtUrl)}" />`;
-    }
-    
+  if (channel.isPrivate) {
     xml += `
-      
-      <!-- iTunes Episode Tags -->
-      <itunes:title>${escapeXml(episode.title)}</itunes:title>
-      <itunes:summary>${escapeXml(episode.notes)}</itunes:summary>
-      <itunes:duration>${duration}</itunes:duration>
-      <itunes:explicit>no</itunes:explicit>
-    </item>
-`;
+    <itunes:block>Yes</itunes:block>`;
   }
-  
-  xml += `  </channel>
+
+  // Our content is never meant to be imported into another hosting platform
+  xml += `
+    <podcast:guid>${channel.guid}</podcast:guid>
+    <podcast:locked${channel.owner ? ` owner="${escapeXml(channel.owner.email)}"` : ""}>yes</podcast:locked>`;
+  xml += formatPersons(channel.persons, "    ");
+
+  for (const item of channel.items) {
+    xml += formatItem(item);
+  }
+
+  return xml + `
+  </channel>
 </rss>`;
-  
-  return xml;
+}
+
+// Newest chapter in the feed; edits that don't add chapters are caught by the ETag
+function getFeedLastModified(channel: FeedChannel): Date {
+  const latest = Math.max(0, ...channel.items.map(item => item.pubDate.getTime()));
+  return new Date(latest || Date.now());
+}
+
+/**
+ * ETag over the feed content
+ * Enclosure signatures are left out since they change on every request.
+ */
+function getFeedEtag(channel: FeedChannel): string {
+  const content = JSON.stringify({
+    ...channel,
+    items: channel.items.map(item => ({ ...item, enclosure: { ...item.enclosure, url: item.enclosure.url.split("?")[0] } })),
+    period: Math.floor(Date.now() / FEED_ETAG_PERIOD_MS),
+  });
+  return `"${crypto.createHash("sha1").update(content).digest("base64url")}"`;
+}
+
+/**
+ * Send a feed, answering conditional GETs with 304
+ */
+export function sendFeed(req: Request, res: Response, channel: FeedChannel): void {
+  const etag = getFeedEtag(channel);
+  const lastModified = getFeedLastModified(channel);
+
+  res.set({
+    "Content-Type": "application/rss+xml; charset=utf-8",
+    "Cache-Control": channel.isPrivate ? "private, no-cache" : "public, max-age=3600",
+    "ETag": etag,
+    "Last-Modified": lastModified.toUTCString(),
+  });
+
+  // If-None-Match takes precedence over If-Modified-Since (RFC 9110)
+  const ifNoneMatch = req.get("if-none-match");
+  const ifModifiedSince = Date.parse(req.get("if-modified-since") || "");
+  const notModified = ifNoneMatch
+    ? etagMatches(ifNoneMatch, etag)
+    : !isNaN(ifModifiedSince) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(ifModifiedSince / 1000);
+  if (notModified) {
+    res.status(304).end();
+    return;
+  }
+
+  res.send(buildFeedXml(channel));
+}
+
+function getAudiobookPersons(audiobook: Audiobook): FeedPerson[] {
+  const persons: FeedPerson[] = [{ name: audiobook.author, role: "author" }];
+  if (audiobook.narrator) {
+    persons.push({ name: audiobook.narrator, role: "narrator" });
+  }
+  return persons;
+}
+
+interface ChapterItemOptions {
+  siteUrl: string;
+  subject: MediaUrlSubject;
+  // Prefix the book title, for feeds that mix several books
+  includeBookTitle: boolean;
+}
+
+/**
+ * Feed item for a chapter, with its audio URL signed for the feed subject
+ * Returns null for chapters without audio.
+ */
+async function buildChapterItem(audiobook: Audiobook, chapter: Chapter, options: ChapterItemOptions): Promise<FeedItem | null> {
+  if (!chapter.audioUrl) {
+    return null;
+  }
+
+  const signed = await signChapterAudio(chapter, options.subject, FEED_MEDIA_URL_TTL_SECONDS);
+  const asset = chapter.audioAssetId ? await storage.getMediaAsset(chapter.audioAssetId) : undefined;
+  const coverArtUrl = chapter.coverArtUrl || audiobook.coverArtUrl;
+  const title = `Cap. ${chapter.chapterNumber}: ${chapter.title}`;
+
+  return {
+    guid: chapter.id,
+    title: options.includeBookTitle ? `${audiobook.title} - ${title}` : title,
+    episodeTitle: chapter.title,
+    description: chapter.description || audiobook.description || "",
+    link: `${options.siteUrl}/audiobook/${audiobook.id}`,
+    pubDate: new Date(chapter.createdAt),
+    enclosure: {
+      url: absoluteUrl(options.siteUrl, signed.audioUrl!),
+      mimeType: asset?.mimeType || guessAudioMimeType(chapter.audioUrl),
+      length: chapter.audioFileSize || asset?.sizeBytes || 0,
+    },
+    durationSeconds: chapter.duration,
+    imageUrl: coverArtUrl ? absoluteUrl(options.siteUrl, coverArtUrl) : null,
+    author: audiobook.author,
+    episode: chapter.chapterNumber,
+    // A book's place in its series is its season
+    season: audiobook.seriesIndex ? { number: audiobook.seriesIndex, name: audiobook.seriesName } : null,
+    persons: getAudiobookPersons(audiobook),
+    chaptersUrl: `${options.siteUrl}/api/chapters/${chapter.id}/chapters.json`,
+    transcripts: await getChapterTranscripts(chapter, options),
+  };
+}
+
+// Transcripts are the chapter's text, so their URLs are signed like the enclosure
+async function getChapterTranscripts(chapter: Chapter, options: ChapterItemOptions): Promise<FeedTranscript[]> {
+  const transcript = await storage.getChapterTranscript(chapter.id);
+  if (!transcript) {
+    return [];
+  }
+
+  const extension = getTranscriptExtension(transcript.format);
+  const transcriptPath = signMediaPath(`/api/chapters/${chapter.id}/transcript.${extension}`, options.subject, FEED_MEDIA_URL_TTL_SECONDS);
+  return [{
+    url: absoluteUrl(options.siteUrl, transcriptPath),
+    mimeType: TRANSCRIPT_MIME_TYPES[extension],
+    language: transcript.language,
+  }];
+}
+
+async function buildChapterItems(audiobook: Audiobook, chapters: Chapter[], options: ChapterItemOptions): Promise<FeedItem[]> {
+  const sorted = [...chapters].sort((a, b) => a.chapterNumber - b.chapterNumber);
+  const items: FeedItem[] = [];
+  for (const chapter of sorted) {
+    const item = await buildChapterItem(audiobook, chapter, options);
+    if (item) {
+      items.push(item);
+    }
+  }
+  return items;
+}
+
+/**
+ * Feed of a single audiobook, listened to in order
+ * Used both for the public feed (guest subject, free and sample chapters only)
+ * and for a listener's private per-audiobook feed.
+ */
+export async function buildAudiobookFeed(
+  audiobook: Audiobook,
+  chapters: Chapter[],
+  options: { siteUrl: string; feedUrl: string; subject: MediaUrlSubject; isPrivate: boolean }
+): Promise<FeedChannel> {
+  const publisher = await storage.getUser(audiobook.publisherId);
+
+  return {
+    title: audiobook.title,
+    link: `${options.siteUrl}/audiobook/${audiobook.id}`,
+    description: audiobook.description || "",
+    language: audiobook.language || "es",
+    feedUrl: options.feedUrl,
+    guid: getPodcastGuid(`${options.siteUrl}/audiobook/${audiobook.id}`),
+    type: "serial",
+    author: audiobook.author,
+    owner: publisher ? { name: publisher.username, email: publisher.email } : null,
+    imageUrl: audiobook.coverArtUrl ? absoluteUrl(options.siteUrl, audiobook.coverArtUrl) : null,
+    persons: getAudiobookPersons(audiobook),
+    isPrivate: options.isPrivate,
+    items: await buildChapterItems(audiobook, chapters, { siteUrl: options.siteUrl, subject: options.subject, includeBookTitle: false }),
+  };
+}
+
+/**
+ * A listener's whole library in one feed
+ * Episodic, since chapter numbers of different books would interleave in a serial feed.
+ */
+export async function buildLibraryFeed(
+  user: User,
+  audiobooks: Audiobook[],
+  options: { siteUrl: string; feedUrl: string; subject: MediaUrlSubject }
+): Promise<FeedChannel> {
+  const items: FeedItem[] = [];
+  for (const audiobook of audiobooks) {
+    const chapters = await storage.getChaptersByAudiobook(audiobook.id);
+    items.push(...await buildChapterItems(audiobook, chapters, { siteUrl: options.siteUrl, subject: options.subject, includeBookTitle: true }));
+  }
+
+  return {
+    title: `Audivia - Biblioteca de ${user.username}`,
+    link: options.siteUrl,
+    description: "Tu biblioteca personal de audiolibros en Audivia",
+    language: "es",
+    feedUrl: options.feedUrl,
+    guid: getPodcastGuid(`${options.siteUrl}/library/${user.id}`),
+    type: "episodic",
+    author: "Audivia",
+    owner: null,
+    imageUrl: null,
+    persons: [],
+    isPrivate: true,
+    items,
+  };
 }
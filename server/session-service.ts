@@ -0,0 +1,118 @@
+/**
+ * Signed-in sessions and the devices behind them
+ * Sessions are the connect-pg-simple rows; at sign-in the browser's user agent
+ * and IP are kept in the session itself so the owner can recognise it later.
+ * Clients only ever see a hash of the session id, which is enough to revoke
+ * one session but can't be turned into a cookie.
+ */
+
+import crypto from "crypto";
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { SessionRecord, UserSessionInfo } from "@shared/schema";
+
+// The session fields this module reads back from the store
+interface StoredSession {
+  userId?: string;
+  cookie?: { originalMaxAge?: number | null };
+  device?: {
+    userAgent: string;
+    ipAddress: string | null;
+    signedInAt: number;
+  };
+}
+
+function hashSessionId(sid: string): string {
+  return crypto.createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+// Good enough to tell "Chrome on Windows" from "Safari on iPhone"; not a full user agent parser
+export function describeUserAgent(userAgent: string): Pick<UserSessionInfo, "browser" | "os" | "deviceType"> {
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\/|FxiOS/.test(userAgent) ? "Firefox" :
+    /Chrome\/|CriOS/.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Navegador desconocido";
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /CrOS/.test(userAgent) ? "ChromeOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Sistema desconocido";
+
+  const deviceType =
+    /iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent)) ? "tablet" :
+    /Mobi|iPhone|iPod/.test(userAgent) ? "mobile" :
+    "desktop";
+
+  return { browser, os, deviceType };
+}
+
+function parseSession(record: SessionRecord): StoredSession {
+  // The column is json in the database, so the driver may already have parsed it
+  const sess: unknown = record.sess;
+  return typeof sess === "string" ? JSON.parse(sess) : (sess as StoredSession);
+}
+
+export class SessionService {
+  // Called whenever a session is signed in, after req.session.userId is set
+  recordDevice(req: Request): void {
+    req.session.device = {
+      userAgent: req.get("user-agent") ?? "",
+      ipAddress: req.ip ?? null,
+      signedInAt: Date.now(),
+    };
+  }
+
+  async listForUser(userId: string, currentSid: string): Promise<UserSessionInfo[]> {
+    const records = await storage.getUserSessions(userId);
+    return records.map((record: SessionRecord) => {
+      const sess = parseSession(record);
+      // The store moves the expiry forward on every request, so it tells the last activity
+      const maxAge = sess.cookie?.originalMaxAge ?? 0;
+      return {
+        id: hashSessionId(record.sid),
+        current: record.sid === currentSid,
+        ...describeUserAgent(sess.device?.userAgent ?? ""),
+        ipAddress: sess.device?.ipAddress ?? null,
+        signedInAt: sess.device ? new Date(sess.device.signedInAt) : null,
+        lastActiveAt: new Date(record.expire.getTime() - maxAge),
+      };
+    });
+  }
+
+  async revoke(userId: string, sessionId: string, currentSid: string): Promise<void> {
+    const records = await storage.getUserSessions(userId);
+    const record = records.find((candidate: SessionRecord) => hashSessionId(candidate.sid) === sessionId);
+    if (!record) {
+      throw new Error("Session not found");
+    }
+    if (record.sid === currentSid) {
+      throw new Error("Cannot revoke the current session, log out instead");
+    }
+    await storage.deleteSession(record.sid);
+  }
+
+  // Every session but the one making the request, e.g. after a password change
+  async revokeOthers(userId: string, currentSid: string): Promise<number> {
+    return await storage.deleteUserSessions(userId, currentSid);
+  }
+
+  async revokeAll(userId: string): Promise<number> {
+    return await storage.deleteUserSessions(userId);
+  }
+
+  // Admin "force logout": recorded in the user's security history
+  async forceLogout(userId: string, actorId: string, ipAddress?: string): Promise<number> {
+    const revoked = await storage.deleteUserSessions(userId);
+    await storage.createSecurityEvent({ userId, type: "SESSIONS_REVOKED", actorId, ipAddress: ipAddress ?? null });
+    return revoked;
+  }
+}
+
+export const sessionService = new SessionService();
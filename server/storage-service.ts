@@ -5,6 +5,8 @@ import fs from "fs/promises";
 import { drive_v3, google } from "googleapis";
 import type { Readable } from "stream";
 import { Readable as ReadableStream } from "stream";
+import type { ByteRange } from "./http-range";
+import { signMediaPath, type MediaUrlSubject } from "./media-signing";
 
 // Lightweight upload metadata (no id/createdAt - those are generated by DB)
 export interface UploadMetadata {
@@ -27,9 +29,11 @@ export interface StorageAdapter {
   saveCoverArt(file: Express.Multer.File, ownerId: string, podcastId?: string): Promise<UploadMetadata>;
   saveEpisodeAudio(file: Express.Multer.File, ownerId: string, episodeId?: string, podcastId?: string): Promise<UploadMetadata>;
   getPublicUrl(asset: MediaAsset): string;
-  getSignedUrl(asset: MediaAsset, expiresInSeconds?: number): Promise<string>;
+  // Short-lived URL bound to a subject, served through the /media route
+  getSignedUrl(asset: MediaAsset, subject: MediaUrlSubject, expiresInSeconds?: number): Promise<string>;
   deleteAssetByKey(storageKey: string): Promise<void>;
-  streamAsset(asset: MediaAsset): Promise<Readable>;
+  // Optional inclusive byte range for partial-content responses
+  streamAsset(asset: MediaAsset, range?: ByteRange): Promise<Readable>;
 }
 
 // Local storage adapter - stores files in uploads/ directory organized by audiobook title
@@ -183,10 +187,8 @@ export class LocalStorageAdapter implements StorageAdapter {
     return asset.publicUrl || `/media/${asset.storageKey}`;
   }
 
-  async getSignedUrl(asset: MediaAsset, expiresInSeconds: number = 3600): Promise<string> {
-    // For local storage, we don't need signed URLs
-    // Return the public URL instead
-    return this.getPublicUrl(asset);
+  async getSignedUrl(asset: MediaAsset, subject: MediaUrlSubject, expiresInSeconds?: number): Promise<string> {
+    return signMediaPath(`/media/${asset.storageKey}`, subject, expiresInSeconds);
   }
 
   async deleteAssetByKey(storageKey: string): Promise<void> {
@@ -199,7 +201,7 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
   }
 
-  async streamAsset(asset: MediaAsset): Promise<Readable> {
+  async streamAsset(asset: MediaAsset, range?: ByteRange): Promise<Readable> {
     const fullPath = path.join(this.uploadsDir, asset.storageKey);
     
     try {
@@ -209,6 +211,9 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
     
     const { createReadStream } = await import("fs");
+    if (range) {
+      return createReadStream(fullPath, { start: range.start, end: range.end });
+    }
     return createReadStream(fullPath);
   }
 
@@ -354,9 +359,9 @@ export class DriveStorageAdapter implements StorageAdapter {
     return asset.publicUrl || `https://drive.google.com/uc?id=${asset.storageKey}&export=download`;
   }
 
-  async getSignedUrl(asset: MediaAsset, expiresInSeconds: number = 3600): Promise<string> {
-    // Google Drive public links don't expire
-    return this.getPublicUrl(asset);
+  async getSignedUrl(asset: MediaAsset, subject: MediaUrlSubject, expiresInSeconds?: number): Promise<string> {
+    // Drive links can't expire, so the file is proxied through /media/drive/:fileId
+    return signMediaPath(`/media/drive/${asset.storageKey}`, subject, expiresInSeconds);
   }
 
   async deleteAssetByKey(storageKey: string): Promise<void> {
@@ -371,14 +376,18 @@ export class DriveStorageAdapter implements StorageAdapter {
     }
   }
 
-  async streamAsset(asset: MediaAsset): Promise<Readable> {
+  async streamAsset(asset: MediaAsset, range?: ByteRange): Promise<Readable> {
     const drive = await this.getDrive();
+    // Drive honours the Range header on alt=media downloads
     const response = await drive.files.get(
       {
         fileId: asset.storageKey,
         alt: "media",
       },
-      { responseType: "stream" }
+      {
+        responseType: "stream",
+        ...(range ? { headers: { Range: `bytes=${range.start}-${range.end}` } } : {}),
+      }
     );
 
     return response.data as unknown as Readable;
@@ -453,8 +462,8 @@ export class StorageService {
     return this.adapter.getPublicUrl(asset);
   }
 
-  async getSignedUrl(asset: MediaAsset, expiresInSeconds?: number): Promise<string> {
-    return this.adapter.getSignedUrl(asset, expiresInSeconds);
+  async getSignedUrl(asset: MediaAsset, subject: MediaUrlSubject, expiresInSeconds?: number): Promise<string> {
+    return this.adapter.getSignedUrl(asset, subject, expiresInSeconds);
   }
 
   async deleteAsset(asset: MediaAsset | UploadMetadata): Promise<void> {
@@ -486,8 +495,8 @@ export class StorageService {
     }
   }
 
-  async streamAsset(asset: MediaAsset): Promise<Readable> {
-    return this.adapter.streamAsset(asset);
+  async streamAsset(asset: MediaAsset, range?: ByteRange): Promise<Readable> {
+    return this.adapter.streamAsset(asset, range);
   }
 }
 
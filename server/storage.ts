@@ -30,6 +30,8 @@ import {
   type InsertChapter,
   type AudiobookWithChapters,
   type ChapterWithAudiobook,
+  type ContinueListeningItem,
+  type OfflineLicense,
   type Favorite,
   type AudiobookPurchase,
   type UserSubscription,
@@ -57,6 +59,7 @@ import {
   type RssFeedToken,
   type CartItem,
   type CartItemWithAudiobook,
+  type CartGiftRequest,
   type DiscountCode,
   type InsertDiscountCode,
   type DiscountCodeUsage,
@@ -64,9 +67,99 @@ import {
   externalServices,
   type ExternalService,
   type InsertExternalService,
+  taxRules,
+  type TaxRule,
+  type InsertTaxRule,
+  audiobookSearchVector,
+  AUDIOBOOK_DURATION_BUCKETS,
+  type AudiobookSearchParams,
+  type AudiobookSearchResult,
+  type AudiobookSearchSort,
+  series,
+  type Series,
+  type InsertSeries,
+  type SeriesWithVolumeCount,
+  purchaseRefunds,
+  type PurchaseRefund,
+  type InsertPurchaseRefund,
+  backgroundJobs,
+  type BackgroundJob,
+  type InsertBackgroundJob,
+  contentInvitations,
+  type ContentInvitation,
+  type InsertContentInvitation,
+  subscriptionEvents,
+  type SubscriptionEvent,
+  type InsertSubscriptionEvent,
+  type SubscriptionEventWithDetails,
+  householdMembers,
+  type HouseholdMember,
+  type HouseholdMemberWithUser,
+  type InsertHouseholdMember,
+  type HouseholdAllowance,
+  reviews,
+  type Review,
+  type ReviewInput,
+  type ReviewWithUser,
+  type ReviewWithAudiobook,
+  type ReviewSummary,
+  bookmarks,
+  type Bookmark,
+  type InsertBookmark,
+  type BookmarkWithChapter,
+  chapterTranscripts,
+  transcriptCues,
+  transcriptCueSearchVector,
+  type ChapterTranscript,
+  type ChapterTranscriptWithCues,
+  type InsertChapterTranscript,
+  type TranscriptCueData,
+  type TranscriptSearchParams,
+  type TranscriptSearchHit,
+  royaltyRates,
+  creatorEarnings,
+  catalogListening,
+  payoutStatements,
+  type RoyaltyRate,
+  type RoyaltyRateWithTarget,
+  type InsertRoyaltyRate,
+  type CreatorEarning,
+  type CreatorEarningWithAudiobook,
+  type InsertCreatorEarning,
+  type CreatorEarningsMonth,
+  type CreatorAudiobookEarnings,
+  type PayoutStatement,
+  type PayoutStatementWithPublisher,
+  userTwoFactor,
+  twoFactorRecoveryCodes,
+  securityEvents,
+  type UserTwoFactor,
+  type SecurityEvent,
+  type SecurityEventWithActor,
+  accountLockouts,
+  rateLimitBuckets,
+  type AccountLockout,
+  type RateLimitBucket,
+  sessions,
+  type SessionRecord,
+  adminAuditLog,
+  type AdminAuditEntry,
+  type InsertAdminAuditEntry,
+  type AdminAuditLogPage,
+  accountDeletionRequests,
+  type AccountDeletionRequest,
+  type AccountDeletionRequestWithUser,
+  type UserDataExport,
 } from "@shared/schema";
+import type { AdminAuditLogQuery } from "@shared/admin-schemas";
 import { db } from "./db";
-import { eq, desc, and, or, ilike, sql, inArray, gte, lte, lt, isNotNull } from "drizzle-orm";
+import { eq, ne, desc, asc, and, or, not, ilike, sql, inArray, gte, lte, lt, isNull, isNotNull, type SQL } from "drizzle-orm";
+import { alias, type PgTransaction, type PgQueryResultHKT } from "drizzle-orm/pg-core";
+import type { ExtractTablesWithRelations } from "drizzle-orm";
+import type * as schema from "@shared/schema";
+
+// The handle passed to db.transaction callbacks
+type Transaction = PgTransaction<PgQueryResultHKT, typeof schema, ExtractTablesWithRelations<typeof schema>>;
 
 // Bulk operation response types
 export interface BulkOperationResult {
@@ -74,6 +167,96 @@ export interface BulkOperationResult {
   failed: { id: string; reason: string }[];
 }
 
+// Catalog search ordering; keys must never be NULL so keyset cursors can compare them
+interface SearchSortKey {
+  expr: SQL;
+  direction: "asc" | "desc";
+  type: "text" | "integer" | "numeric" | "timestamp" | "boolean";
+}
+
+// Amount already refunded (or being refunded) for each purchase row
+const purchaseRefundedCents = sql<number>`coalesce((
+  select sum(${purchaseRefunds.amountCents}) from ${purchaseRefunds}
+  where ${purchaseRefunds.purchaseId} = ${audiobookPurchases.id} and ${purchaseRefunds.status} <> 'FAILED'
+), 0)::int`;
+
+// Unredeemed gifts sit on the buyer's account but don't unlock the audiobook for them
+const notPendingGift = or(isNull(audiobookPurchases.giftToken), isNotNull(audiobookPurchases.giftRedeemedAt));
+
+// Subscriptions that grant access: ACTIVE, or PAST_DUE while the plan's grace period lasts
+const subscriptionGrantsAccess = or(
+  eq(userSubscriptions.status, "ACTIVE"),
+  and(
+    eq(userSubscriptions.status, "PAST_DUE"),
+    sql`coalesce(${userSubscriptions.pastDueAt}, ${userSubscriptions.currentPeriodEnd}) + make_interval(days => (
+      select ${subscriptionPlans.gracePeriodDays} from ${subscriptionPlans} where ${subscriptionPlans.id} = ${userSubscriptions.planId}
+    )) > now()`
+  )
+);
+
+interface SearchCursor {
+  sort: AudiobookSearchSort;
+  values: string[];
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery, e.g. "harry pot" -> "harry:* & pot:*"
+ * Only digits and (Latin) letters survive, so the result is always valid tsquery syntax.
+ */
+function buildSearchTsQuery(text: string): string | null {
+  const terms = text
+    .toLowerCase()
+    .split(/[^0-9a-z\u00c0-\u024f]+/)
+    .filter(Boolean)
+    .slice(0, 10);
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(" & ") : null;
+}
+
+function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeSearchCursor(value: string, sort: AudiobookSearchSort, keyCount: number): SearchCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      cursor?.sort === sort &&
+      Array.isArray(cursor.values) &&
+      cursor.values.length === keyCount &&
+      cursor.values.every((v: unknown) => typeof v === "string")
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid search cursor");
+}
+
+// Bundle price for the volumes of a series a user still has to buy
+export interface SeriesBundleQuote {
+  series: Series;
+  audiobooks: Audiobook[];
+  priceCents: number;
+  listPriceCents: number;
+}
+
+/**
+ * Spread a bundle price over its cart items in proportion to their list prices
+ * The last item absorbs the rounding so the shares add up to the bundle price.
+ */
+function applyBundlePrice(items: CartItemWithAudiobook[], quote: SeriesBundleQuote): void {
+  let remaining = quote.priceCents;
+  items.forEach((item, index) => {
+    const share = index === items.length - 1
+      ? remaining
+      : Math.round((quote.priceCents * item.audiobook.priceCents) / quote.listPriceCents);
+    item.priceCents = share;
+    item.bundleApplied = true;
+    remaining -= share;
+  });
+}
+
 export interface IStorage {
   // Setup/Installation operations
   checkAdminExists(): Promise<boolean>;
@@ -88,19 +271,33 @@ export interface IStorage {
   // Audiobook operations
   getAllAudiobooks(): Promise<Audiobook[]>;
   getPublicAudiobooks(): Promise<Audiobook[]>;
+  searchAudiobooks(params: AudiobookSearchParams): Promise<AudiobookSearchResult>;
   getAudiobook(id: string): Promise<Audiobook | undefined>;
   getAudiobookWithChapters(id: string): Promise<AudiobookWithChapters | undefined>;
   getAudiobooksByPublisher(userId: string): Promise<(Audiobook & { chapterCount: number })[]>;
   createAudiobook(audiobook: Omit<Audiobook, "id" | "createdAt">): Promise<Audiobook>;
-  updateAudiobook(id: string, data: Partial<Pick<Audiobook, "title" | "author" | "narrator" | "description" | "coverArtUrl" | "coverArtAssetId" | "category" | "language" | "priceCents" | "currency" | "isFree" | "visibility" | "totalDuration">>): Promise<Audiobook>;
+  updateAudiobook(id: string, data: Partial<Pick<Audiobook, "title" | "author" | "narrator" | "description" | "coverArtUrl" | "coverArtAssetId" | "category" | "language" | "priceCents" | "currency" | "isFree" | "visibility" | "totalDuration" | "seriesId" | "seriesIndex">>): Promise<Audiobook>;
   updateAudiobookStripeIds(id: string, stripeProductId: string, stripePriceId: string): Promise<Audiobook>;
   
+  // Series operations
+  getAllSeries(): Promise<SeriesWithVolumeCount[]>;
+  getSeries(id: string): Promise<Series | undefined>;
+  getSeriesByName(name: string): Promise<Series | undefined>;
+  getSeriesVolumes(seriesId: string, publicOnly?: boolean): Promise<Audiobook[]>;
+  getNextInSeries(audiobookId: string): Promise<Audiobook | undefined>;
+  getSeriesBundleQuote(userId: string | undefined, seriesId: string): Promise<SeriesBundleQuote | null>;
+  createSeries(data: InsertSeries): Promise<Series>;
+  updateSeries(id: string, data: Partial<InsertSeries>): Promise<Series>;
+  deleteSeries(id: string): Promise<void>;
+  
   // Chapter operations
   getChapter(id: string): Promise<Chapter | undefined>;
   getChapterWithAudiobook(id: string): Promise<ChapterWithAudiobook | undefined>;
   getChaptersByAudiobook(audiobookId: string): Promise<Chapter[]>;
   createChapter(chapter: InsertChapter): Promise<Chapter>;
-  updateChapter(id: string, data: Partial<Pick<Chapter, "title" | "chapterNumber" | "description" | "coverArtUrl" | "coverArtAssetId" | "visibility" | "audioUrl" | "audioAssetId" | "duration" | "isSample">>): Promise<Chapter>;
+  updateChapter(id: string, data: Partial<Pick<Chapter, "title" | "chapterNumber" | "description" | "coverArtUrl" | "coverArtAssetId" | "visibility" | "audioUrl" | "audioAssetId" | "audioFileSize" | "duration" | "isSample">>): Promise<Chapter>;
+  getChaptersByAudioAsset(asset: MediaAsset): Promise<Chapter[]>;
+  recalculateAudiobookDuration(audiobookId: string): Promise<number>;
   
   // Favorites operations
   addToFavorites(userId: string, audiobookId: string): Promise<Favorite>;
@@ -121,24 +318,41 @@ export interface IStorage {
   getActiveSubscriptionPlans(): Promise<SubscriptionPlan[]>;
   getSubscriptionPlan(id: string): Promise<SubscriptionPlan | undefined>;
   createSubscriptionPlan(plan: Omit<SubscriptionPlan, "id" | "createdAt">): Promise<SubscriptionPlan>;
-  updateSubscriptionPlan(id: string, data: Partial<Pick<SubscriptionPlan, "name" | "description" | "priceCents" | "currency" | "intervalMonths" | "isActive">>): Promise<SubscriptionPlan>;
+  updateSubscriptionPlan(id: string, data: Partial<Pick<SubscriptionPlan, "name" | "description" | "priceCents" | "currency" | "intervalMonths" | "maxHouseholdMembers" | "gracePeriodDays" | "isActive">>): Promise<SubscriptionPlan>;
   deleteSubscriptionPlan(id: string): Promise<void>;
   
   // User subscription operations
   getUserSubscription(userId: string): Promise<UserSubscription | undefined>;
   createUserSubscription(userId: string, planId: string, stripeSubscriptionId: string, periodStart: Date, periodEnd: Date): Promise<UserSubscription>;
-  updateUserSubscriptionStatus(id: string, status: "ACTIVE" | "PAST_DUE" | "CANCELED" | "EXPIRED"): Promise<UserSubscription>;
+  updateUserSubscriptionStatus(id: string, status: UserSubscription["status"]): Promise<UserSubscription>;
   cancelUserSubscription(id: string): Promise<UserSubscription>;
   hasActiveSubscription(userId: string): Promise<boolean>;
+  getCurrentSubscription(userId: string): Promise<UserSubscription | undefined>;
+  getUserSubscriptionById(id: string): Promise<UserSubscription | undefined>;
+  getSubscriptionByPayPalId(paypalSubscriptionId: string): Promise<UserSubscription | undefined>;
+  updateUserSubscription(id: string, data: Partial<Omit<UserSubscription, "id" | "userId" | "createdAt">>): Promise<UserSubscription>;
+  claimPendingPlanChange(id: string, planId: string): Promise<UserSubscription | undefined>;
+  getLapsedSubscriptions(): Promise<UserSubscription[]>;
+  
+  // Subscription event operations
+  createSubscriptionEvent(data: InsertSubscriptionEvent): Promise<SubscriptionEvent>;
+  updateSubscriptionEvent(id: string, data: Partial<InsertSubscriptionEvent>): Promise<SubscriptionEvent>;
+  getSubscriptionEventByExternalId(externalId: string): Promise<SubscriptionEvent | undefined>;
+  getUserSubscriptionEvents(userId: string): Promise<SubscriptionEventWithDetails[]>;
+  getRecentSubscriptionEvents(limit: number): Promise<SubscriptionEventWithDetails[]>;
   
   // Access control
   hasAccessToAudiobook(userId: string | undefined, audiobookId: string): Promise<{ hasAccess: boolean; isPurchased: boolean; isSubscriber: boolean; isFree: boolean }>;
   hasAccessToChapter(userId: string | undefined, chapterId: string): Promise<boolean>;
+  getOfflineLicenses(userId: string, chapterIds: string[]): Promise<OfflineLicense[]>;
   
   // Listening progress operations
   getListeningProgress(userId: string, audiobookId: string): Promise<ListeningProgress | undefined>;
-  updateListeningProgress(userId: string, audiobookId: string, chapterId: string, positionSeconds: number, completed?: boolean): Promise<ListeningProgress>;
+  getChapterProgress(userId: string, chapterId: string): Promise<ListeningProgress | undefined>;
+  getAudiobookProgress(userId: string, audiobookId: string): Promise<ListeningProgress[]>;
+  updateListeningProgress(userId: string, audiobookId: string, chapterId: string, positionSeconds: number, completed?: boolean, updatedAt?: Date): Promise<{ progress: ListeningProgress; previous?: ListeningProgress }>;
   getUserListeningHistory(userId: string): Promise<(ListeningProgress & { audiobook: Audiobook })[]>;
+  getContinueListening(userId: string, limit?: number): Promise<ContinueListeningItem[]>;
   
   // Admin operations - User management
   getAllUsers(): Promise<User[]>;
@@ -181,12 +395,59 @@ export interface IStorage {
   updateUserProfile(userId: string, data: { username?: string; email?: string; bio?: string; avatarUrl?: string; website?: string }): Promise<User>;
   updateUserPassword(userId: string, passwordHash: string): Promise<void>;
   
+  // Two-factor operations
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  getTwoFactorEnabledUserIds(): Promise<string[]>;
+  saveTwoFactorSecret(userId: string, secret: string): Promise<void>;
+  enableTwoFactor(userId: string, step: number, recoveryCodeHashes: string[]): Promise<void>;
+  claimTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  deleteTwoFactor(userId: string): Promise<void>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  createSecurityEvent(event: Omit<SecurityEvent, "id" | "createdAt">): Promise<SecurityEvent>;
+  getSecurityEvents(userId: string, limit?: number): Promise<SecurityEventWithActor[]>;
+  
+  // Login protection operations
+  getAccountLockout(userId: string): Promise<AccountLockout | undefined>;
+  getAccountLockouts(): Promise<AccountLockout[]>;
+  getAccountLockoutByUnlockToken(unlockTokenHash: string): Promise<AccountLockout | undefined>;
+  recordFailedLogin(userId: string): Promise<AccountLockout>;
+  lockAccount(userId: string, lockedUntil: Date, unlockTokenHash: string): Promise<void>;
+  clearAccountLockout(userId: string): Promise<void>;
+  hitRateLimit(key: string, windowMs: number): Promise<RateLimitBucket>;
+  blockRateLimit(key: string, blockedUntil: Date): Promise<void>;
+  getRateLimitBlockedUntil(keys: string[]): Promise<Date | null>;
+  deleteExpiredRateLimits(): Promise<number>;
+  
+  // Session operations
+  getUserSessions(userId: string): Promise<SessionRecord[]>;
+  deleteSession(sid: string): Promise<void>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
+  
+  // Admin audit log operations (append-only: there is no update or delete)
+  createAdminAuditEntry(entry: InsertAdminAuditEntry): Promise<AdminAuditEntry>;
+  getAdminAuditLog(query: AdminAuditLogQuery): Promise<AdminAuditLogPage>;
+  getAllAdminAuditEntries(query: Omit<AdminAuditLogQuery, "limit" | "offset">): Promise<AdminAuditEntry[]>;
+  
+  // Personal data operations (GDPR access and erasure)
+  getUserDataExport(userId: string): Promise<UserDataExport>;
+  createAccountDeletionRequest(userId: string, scheduledFor: Date, reason: string | null): Promise<AccountDeletionRequest>;
+  getAccountDeletionRequest(id: string): Promise<AccountDeletionRequest | undefined>;
+  getPendingAccountDeletion(userId: string): Promise<AccountDeletionRequest | undefined>;
+  getAccountDeletionRequests(status?: AccountDeletionRequest["status"]): Promise<AccountDeletionRequestWithUser[]>;
+  getDueAccountDeletionRequests(): Promise<AccountDeletionRequest[]>;
+  cancelAccountDeletionRequest(id: string, cancelledBy: string): Promise<AccountDeletionRequest | undefined>;
+  anonymizeUser(requestId: string, replacement: Pick<User, "username" | "email" | "passwordHash">): Promise<{ clipAssetIds: string[] }>;
+  
   // Media asset operations
-  createMediaAsset(asset: Omit<MediaAsset, "id" | "createdAt">): Promise<MediaAsset>;
+  createMediaAsset(asset: Omit<MediaAsset, "id" | "createdAt" | "durationSeconds" | "sourceAssetId" | "sourceFingerprint"> & Partial<Pick<MediaAsset, "durationSeconds" | "sourceAssetId" | "sourceFingerprint">>): Promise<MediaAsset>;
   getMediaAsset(id: string): Promise<MediaAsset | undefined>;
   getMediaAssetByStorageKey(storageKey: string): Promise<MediaAsset | undefined>;
   getMediaAssetsByAudiobook(audiobookId: string): Promise<MediaAsset[]>;
   getMediaAssetsByChapter(chapterId: string): Promise<MediaAsset[]>;
+  getDerivedMediaAssets(sourceAssetId: string): Promise<MediaAsset[]>;
+  updateMediaAsset(id: string, data: Partial<Pick<MediaAsset, "durationSeconds" | "sizeBytes" | "checksum" | "audiobookId" | "chapterId">>): Promise<MediaAsset>;
   deleteMediaAsset(id: string): Promise<void>;
   
   // Google Drive configuration operations
@@ -208,10 +469,11 @@ export interface IStorage {
   // PayPal-specific operations
   getUserPurchaseForAudiobook(userId: string, audiobookId: string): Promise<AudiobookPurchase | undefined>;
   getPurchaseByPayPalOrderId(paypalOrderId: string): Promise<AudiobookPurchase | undefined>;
+  getPurchasesByPayPalOrderId(paypalOrderId: string): Promise<AudiobookPurchase[]>;
   markPurchaseCompletedByPayPalOrderId(paypalOrderId: string, captureId: string, payerEmail?: string): Promise<AudiobookPurchase | undefined>;
   getUserActiveSubscription(userId: string): Promise<UserSubscription | undefined>;
   getUserSubscriptionByPayPalId(userId: string, paypalSubscriptionId: string): Promise<UserSubscription | undefined>;
-  updateSubscriptionStatusByPayPalId(paypalSubscriptionId: string, status: "ACTIVE" | "PAST_DUE" | "CANCELED" | "EXPIRED"): Promise<void>;
+  updateSubscriptionStatusByPayPalId(paypalSubscriptionId: string, status: UserSubscription["status"]): Promise<void>;
   updateSubscriptionPlanPayPalIds(id: string, paypalPlanId: string, paypalProductId: string): Promise<SubscriptionPlan>;
   
   // Billing profile operations
@@ -227,7 +489,17 @@ export interface IStorage {
   getUserInvoices(userId: string): Promise<Invoice[]>;
   getInvoiceLineItems(invoiceId: string): Promise<InvoiceLineItem[]>;
   updateInvoicePdfPath(id: string, pdfPath: string): Promise<Invoice>;
-  getNextInvoiceNumber(): Promise<string>;
+  getNextInvoiceNumber(type?: Invoice["type"]): Promise<string>;
+  getPurchaseInvoice(purchaseId: string): Promise<Invoice | undefined>;
+  
+  // Refund operations
+  createPurchaseRefund(refund: InsertPurchaseRefund): Promise<PurchaseRefund>;
+  createPurchaseRefundWithinBalance(refund: Omit<InsertPurchaseRefund, "amountCents"> & { amountCents?: number }, options?: { capToBalance?: boolean }): Promise<PurchaseRefund | null>;
+  updatePurchaseRefund(id: string, data: Partial<InsertPurchaseRefund>): Promise<PurchaseRefund>;
+  completePendingPurchaseRefund(id: string): Promise<PurchaseRefund | undefined>;
+  getPurchaseRefunds(purchaseId: string): Promise<PurchaseRefund[]>;
+  getPurchaseRefundByPayPalId(paypalRefundId: string): Promise<PurchaseRefund | undefined>;
+  getRefundedAmount(purchaseId: string): Promise<number>;
   
   // Bulk operations
   bulkUpdateUsersRole(ids: string[], role: "LISTENER" | "CREATOR" | "ADMIN"): Promise<BulkOperationResult>;
@@ -258,6 +530,8 @@ export interface IStorage {
     subscriptionCount: number;
     purchaseRevenueCents: number;
     subscriptionRevenueCents: number;
+    refundCount: number;
+    refundedCents: number;
     averageOrderValueCents: number;
   }>;
   getRevenueTrend(from: Date, to: Date, interval: 'day' | 'week' | 'month'): Promise<Array<{
@@ -273,7 +547,10 @@ export interface IStorage {
   }>>;
   getRecentTransactions(limit: number): Promise<Array<{
     id: string;
-    type: 'purchase' | 'subscription';
+    type: 'purchase' | 'subscription' | 'refund';
+    purchaseId: string | null;
+    pricePaidCents: number | null;
+    refundedCents: number;
     amount: number;
     currency: string;
     userName: string;
@@ -293,10 +570,71 @@ export interface IStorage {
   // Shopping cart operations
   getCartItems(userId: string): Promise<CartItemWithAudiobook[]>;
   addToCart(userId: string, audiobookId: string): Promise<CartItem>;
+  addSeriesBundleToCart(userId: string, seriesId: string, audiobookIds: string[]): Promise<void>;
+  removeSeriesBundleFromCart(userId: string, seriesId: string): Promise<void>;
   removeFromCart(userId: string, audiobookId: string): Promise<void>;
   clearCart(userId: string): Promise<void>;
   isInCart(userId: string, audiobookId: string): Promise<boolean>;
   getCartTotal(userId: string): Promise<{ totalCents: number; itemCount: number; currency: string }>;
+  setCartItemGift(userId: string, audiobookId: string, gift: CartGiftRequest | null): Promise<CartItem | undefined>;
+  
+  // Gift operations
+  markPurchaseAsGift(purchaseId: string, gift: { giftedByUserId: string; giftRecipientEmail: string; giftMessage: string | null; giftToken: string }): Promise<AudiobookPurchase>;
+  getGiftByToken(token: string): Promise<(AudiobookPurchase & { audiobook: Audiobook; sender: User }) | undefined>;
+  redeemGift(token: string, userId: string): Promise<AudiobookPurchase>;
+  
+  // Content invitation operations
+  createContentInvitation(data: InsertContentInvitation): Promise<ContentInvitation>;
+  getContentInvitation(id: string): Promise<ContentInvitation | undefined>;
+  getContentInvitationByToken(token: string): Promise<ContentInvitation | undefined>;
+  getContentInvitationsByPodcast(audiobookId: string): Promise<ContentInvitation[]>;
+  getContentInvitationsByEpisode(chapterId: string): Promise<ContentInvitation[]>;
+  getActiveContentInvitation(email: string, target: { audiobookId?: string; chapterId?: string }): Promise<ContentInvitation | undefined>;
+  acceptContentInvitation(token: string, user: User): Promise<ContentInvitation>;
+  revokeContentInvitation(id: string): Promise<ContentInvitation>;
+  expireContentInvitations(): Promise<number>;
+  checkUserHasAccessToPodcast(userId: string | undefined, audiobookId: string): Promise<boolean>;
+  checkUserHasAccessToEpisode(userId: string | undefined, chapterId: string): Promise<boolean>;
+  
+  // Household operations
+  getHouseholdMember(id: string): Promise<HouseholdMember | undefined>;
+  getHouseholdMemberByToken(token: string): Promise<HouseholdMember | undefined>;
+  getHouseholdMembers(ownerId: string): Promise<HouseholdMemberWithUser[]>;
+  getHouseholdMembership(userId: string): Promise<HouseholdMember | undefined>;
+  getHouseholdAllowance(ownerId: string): Promise<HouseholdAllowance>;
+  getHouseholdSharing(userId: string): Promise<{ ownerId: string; sharesSubscription: boolean } | null>;
+  createHouseholdInvitation(data: InsertHouseholdMember): Promise<HouseholdMember>;
+  acceptHouseholdInvitation(token: string, user: User): Promise<HouseholdMember>;
+  removeHouseholdMember(id: string): Promise<HouseholdMember>;
+  getEntitlements(userId: string): Promise<{ purchasedAudiobookIds: string[]; subscription: UserSubscription | undefined }>;
+  
+  // Review operations
+  getReview(id: string): Promise<Review | undefined>;
+  getReviewByUserAndAudiobook(userId: string, audiobookId: string): Promise<Review | undefined>;
+  getApprovedReviewsByAudiobook(audiobookId: string): Promise<ReviewWithUser[]>;
+  getReviewSummary(audiobookId: string): Promise<ReviewSummary>;
+  getReviewsForModeration(status?: Review["status"]): Promise<ReviewWithAudiobook[]>;
+  createReview(userId: string, audiobookId: string, input: ReviewInput): Promise<Review>;
+  updateReview(id: string, input: ReviewInput): Promise<Review>;
+  deleteReview(id: string): Promise<void>;
+  moderateReview(id: string, status: "APPROVED" | "REJECTED", moderatorId: string): Promise<Review>;
+  
+  // Bookmark operations
+  getBookmark(id: string): Promise<Bookmark | undefined>;
+  getBookmarkByShareToken(token: string): Promise<Bookmark | undefined>;
+  getBookmarksByChapter(userId: string, chapterId: string): Promise<Bookmark[]>;
+  getBookmarksByAudiobook(userId: string, audiobookId: string): Promise<BookmarkWithChapter[]>;
+  createBookmark(data: InsertBookmark): Promise<Bookmark>;
+  updateBookmark(id: string, updates: Partial<Pick<Bookmark, "positionSeconds" | "endPositionSeconds" | "note" | "shareToken" | "clipAssetId">>): Promise<Bookmark>;
+  shareBookmark(id: string, shareToken: string, maxSharedPerChapter: number): Promise<Bookmark | undefined>;
+  deleteBookmark(id: string): Promise<void>;
+
+  // Transcript operations
+  getChapterTranscript(chapterId: string): Promise<ChapterTranscript | undefined>;
+  getChapterTranscriptWithCues(chapterId: string): Promise<ChapterTranscriptWithCues | undefined>;
+  saveChapterTranscript(data: InsertChapterTranscript, cues: TranscriptCueData[]): Promise<ChapterTranscript>;
+  deleteChapterTranscript(chapterId: string): Promise<void>;
+  searchTranscripts(params: TranscriptSearchParams): Promise<TranscriptSearchHit[]>;
   
   // Admin customer management operations
   getCustomersWithStats(filters?: { search?: string; role?: string; hasProfile?: boolean }): Promise<Array<{
@@ -309,7 +647,7 @@ export interface IStorage {
   getCustomerDetail(userId: string): Promise<{
     user: User;
     billingProfile: BillingProfile | null;
-    purchases: Array<AudiobookPurchase & { audiobook: Audiobook }>;
+    purchases: Array<AudiobookPurchase & { audiobook: Audiobook; refundedCents: number }>;
     invoices: Invoice[];
     subscription: UserSubscription | null;
     stats: { totalPurchases: number; totalSpentCents: number; lastPurchaseAt: Date | null };
@@ -328,12 +666,55 @@ export interface IStorage {
   recordDiscountCodeUsage(discountCodeId: string, userId: string, purchaseId: string | null, discountAmountCents: number): Promise<DiscountCodeUsage>;
   getUserDiscountCodeUsageCount(discountCodeId: string, userId: string): Promise<number>;
   
+  // Tax rule operations
+  getAllTaxRules(): Promise<TaxRule[]>;
+  getActiveTaxRules(): Promise<TaxRule[]>;
+  getTaxRule(id: string): Promise<TaxRule | undefined>;
+  createTaxRule(data: InsertTaxRule): Promise<TaxRule>;
+  updateTaxRule(id: string, data: Partial<InsertTaxRule>): Promise<TaxRule>;
+  deleteTaxRule(id: string): Promise<void>;
+  isTaxRuleInUse(id: string): Promise<boolean>;
+  
+  // Royalty operations
+  getRoyaltyRates(): Promise<RoyaltyRateWithTarget[]>;
+  getRoyaltyRate(id: string): Promise<RoyaltyRate | undefined>;
+  getRoyaltyRateFor(audiobook: Pick<Audiobook, "id" | "publisherId">): Promise<number | undefined>;
+  createRoyaltyRate(data: InsertRoyaltyRate): Promise<RoyaltyRate>;
+  updateRoyaltyRate(id: string, rateBasisPoints: number): Promise<RoyaltyRate>;
+  deleteRoyaltyRate(id: string): Promise<void>;
+  createCreatorEarnings(rows: InsertCreatorEarning[]): Promise<CreatorEarning[]>;
+  getSaleEarning(purchaseId: string): Promise<CreatorEarning | undefined>;
+  hasSubscriptionPoolEarnings(period: string): Promise<boolean>;
+  getSubscriptionRevenue(from: Date, to: Date): Promise<Array<{ currency: string; netCents: number }>>;
+  addCatalogListening(audiobookId: string, period: string, seconds: number): Promise<void>;
+  getCatalogListeningMinutes(period: string): Promise<Array<{ audiobookId: string; publisherId: string; minutes: number }>>;
+  getUnpaidEarningGroups(upToPeriod: string): Promise<Array<{ publisherId: string; currency: string }>>;
+  getUnpaidEarnings(publisherId: string): Promise<Array<{ currency: string; amountCents: number }>>;
+  getCreatorEarningsByMonth(publisherId: string, fromPeriod: string): Promise<CreatorEarningsMonth[]>;
+  getCreatorEarningsByAudiobook(publisherId: string): Promise<Array<Omit<CreatorAudiobookEarnings, "rateBasisPoints">>>;
+  createPayoutStatement(publisherId: string, period: string, currency: string): Promise<PayoutStatement | undefined>;
+  getPayoutStatement(id: string): Promise<PayoutStatement | undefined>;
+  getPayoutStatements(filters?: { publisherId?: string; status?: PayoutStatement["status"] }): Promise<PayoutStatementWithPublisher[]>;
+  getPayoutStatementEarnings(statementId: string): Promise<CreatorEarningWithAudiobook[]>;
+  updatePayoutStatement(id: string, data: Partial<Pick<PayoutStatement, "pdfPath" | "status" | "paidAt" | "paidBy" | "paymentReference">>): Promise<PayoutStatement>;
+  
   // External services operations
   getExternalServices(): Promise<ExternalService[]>;
   getExternalService(id: string): Promise<ExternalService | undefined>;
   createExternalService(service: InsertExternalService): Promise<ExternalService>;
   updateExternalService(id: string, data: Partial<InsertExternalService>): Promise<ExternalService>;
   deleteExternalService(id: string): Promise<void>;
+  
+  // Background job operations
+  createBackgroundJob(job: InsertBackgroundJob): Promise<BackgroundJob>;
+  getBackgroundJob(id: string): Promise<BackgroundJob | undefined>;
+  getBackgroundJobs(filters: { status?: BackgroundJob["status"]; type?: string; createdBy?: string; limit?: number }): Promise<BackgroundJob[]>;
+  updateBackgroundJob(id: string, data: Partial<InsertBackgroundJob>): Promise<BackgroundJob>;
+  claimNextBackgroundJob(filter?: { types?: string[]; excludeTypes?: string[] }): Promise<BackgroundJob | undefined>;
+  requeueStaleBackgroundJobs(lockedBefore: Date): Promise<number>;
+  refreshBackgroundJobLock(id: string): Promise<void>;
+  cancelBackgroundJob(id: string): Promise<BackgroundJob | undefined>;
+  deleteFinishedBackgroundJobs(type: string, finishedBefore: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -393,6 +774,133 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(audiobooks.createdAt));
   }
 
+  async searchAudiobooks(params: AudiobookSearchParams): Promise<AudiobookSearchResult> {
+    const tsQuery = params.q ? buildSearchTsQuery(params.q) : null;
+    const searchVector = audiobookSearchVector(audiobooks);
+    const query = tsQuery ? sql`to_tsquery('simple', ${tsQuery})` : null;
+    // Free audiobooks may keep a list price; filter and sort on what the listener pays
+    const effectivePrice = sql`(CASE WHEN ${audiobooks.isFree} THEN 0 ELSE ${audiobooks.priceCents} END)`;
+
+    // Grouped by facet so each facet can be counted without its own filter
+    const conditions = {
+      visible: [
+        eq(audiobooks.visibility, "PUBLIC"),
+        eq(audiobooks.status, "APPROVED"),
+        isNotNull(audiobooks.publishedAt),
+      ],
+      search: query ? [sql`${searchVector} @@ ${query}`] : [],
+      category: params.category ? [eq(audiobooks.category, params.category)] : [],
+      language: params.language ? [eq(audiobooks.language, params.language)] : [],
+      price: [
+        ...(params.isFree !== undefined ? [eq(audiobooks.isFree, params.isFree)] : []),
+        ...(params.minPrice !== undefined ? [sql`${effectivePrice} >= ${params.minPrice}`] : []),
+        ...(params.maxPrice !== undefined ? [sql`${effectivePrice} <= ${params.maxPrice}`] : []),
+      ],
+      duration: [
+        ...(params.minDuration !== undefined ? [gte(audiobooks.totalDuration, params.minDuration)] : []),
+        ...(params.maxDuration !== undefined ? [lt(audiobooks.totalDuration, params.maxDuration)] : []),
+      ],
+      rating: params.minRating !== undefined ? [gte(audiobooks.ratingAverage, params.minRating)] : [],
+    };
+    const whereExcept = (facet?: keyof typeof conditions) =>
+      and(...Object.entries(conditions).filter(([key]) => key !== facet).flatMap(([, list]) => list));
+
+    const requestedSort = params.sort || (query ? "relevance" : "recent");
+    // Relevance needs a query to rank against
+    const sort: AudiobookSearchSort = requestedSort === "relevance" && !query ? "recent" : requestedSort;
+
+    const sortKeys: Record<AudiobookSearchSort, SearchSortKey[]> = {
+      // Rounded so the rank survives the round trip through the cursor exactly
+      relevance: [{ expr: sql`round(ts_rank(${searchVector}, ${query})::numeric, 6)`, direction: "desc", type: "numeric" }],
+      recent: [{ expr: sql`${audiobooks.createdAt}`, direction: "desc", type: "timestamp" }],
+      title: [{ expr: sql`${audiobooks.title}`, direction: "asc", type: "text" }],
+      author: [
+        { expr: sql`${audiobooks.author}`, direction: "asc", type: "text" },
+        { expr: sql`${audiobooks.title}`, direction: "asc", type: "text" },
+      ],
+      // Books in a series first, grouped by series and in reading order
+      series: [
+        { expr: sql`(${audiobooks.seriesName} IS NULL)`, direction: "asc", type: "boolean" },
+        { expr: sql`coalesce(${audiobooks.seriesName}, '')`, direction: "asc", type: "text" },
+        { expr: sql`coalesce(${audiobooks.seriesIndex}, 0)`, direction: "asc", type: "integer" },
+        { expr: sql`${audiobooks.title}`, direction: "asc", type: "text" },
+      ],
+      price_asc: [{ expr: effectivePrice, direction: "asc", type: "integer" }],
+      price_desc: [{ expr: effectivePrice, direction: "desc", type: "integer" }],
+      duration: [{ expr: sql`${audiobooks.totalDuration}`, direction: "asc", type: "integer" }],
+      // Best rated first; among equal averages, the one with more reviews
+      rating: [
+        { expr: sql`round(${audiobooks.ratingAverage}::numeric, 2)`, direction: "desc", type: "numeric" },
+        { expr: sql`${audiobooks.ratingCount}`, direction: "desc", type: "integer" },
+      ],
+    };
+    // The id breaks ties so pages never overlap
+    const keys: SearchSortKey[] = [...sortKeys[sort], { expr: sql`${audiobooks.id}`, direction: "asc", type: "text" }];
+
+    let cursorCondition: SQL | undefined;
+    if (params.cursor) {
+      const { values } = decodeSearchCursor(params.cursor, sort, keys.length);
+      const cast = (key: SearchSortKey, index: number) => sql`CAST(${values[index]} AS ${sql.raw(key.type)})`;
+      // Lexicographic "after" comparison across all sort keys
+      cursorCondition = or(...keys.map((key, i) => and(
+        ...keys.slice(0, i).map((previous, j) => sql`${previous.expr} = ${cast(previous, j)}`),
+        sql`${key.expr} ${sql.raw(key.direction === "asc" ? ">" : "<")} ${cast(key, i)}`
+      )));
+    }
+
+    const durationBucket = sql.raw(`CASE ${AUDIOBOOK_DURATION_BUCKETS.map(bucket =>
+      bucket.max === null ? `ELSE '${bucket.key}'` : `WHEN total_duration < ${bucket.max} THEN '${bucket.key}'`
+    ).join(" ")} END`);
+
+    const [rows, [{ total }], categories, languages, [price], durations] = await Promise.all([
+      db
+        .select({
+          audiobook: audiobooks,
+          sortValues: sql<string[]>`ARRAY[${sql.join(keys.map(key => sql`(${key.expr})::text`), sql`, `)}]`,
+        })
+        .from(audiobooks)
+        .where(and(whereExcept(), cursorCondition))
+        .orderBy(...keys.map(key => key.direction === "asc" ? asc(key.expr) : desc(key.expr)))
+        .limit(params.limit + 1),
+      db.select({ total: sql<number>`count(*)::int` }).from(audiobooks).where(whereExcept()),
+      db
+        .select({ value: audiobooks.category, count: sql<number>`count(*)::int` })
+        .from(audiobooks)
+        .where(whereExcept("category"))
+        .groupBy(audiobooks.category)
+        .orderBy(desc(sql`count(*)`), asc(audiobooks.category)),
+      db
+        .select({ value: audiobooks.language, count: sql<number>`count(*)::int` })
+        .from(audiobooks)
+        .where(whereExcept("language"))
+        .groupBy(audiobooks.language)
+        .orderBy(desc(sql`count(*)`), asc(audiobooks.language)),
+      db
+        .select({
+          free: sql<number>`count(*) filter (where ${audiobooks.isFree})::int`,
+          paid: sql<number>`count(*) filter (where not ${audiobooks.isFree})::int`,
+        })
+        .from(audiobooks)
+        .where(whereExcept("price")),
+      db
+        .select({ value: sql<string>`${durationBucket}`, count: sql<number>`count(*)::int` })
+        .from(audiobooks)
+        .where(whereExcept("duration"))
+        .groupBy(durationBucket),
+    ]);
+
+    const hasMore = rows.length > params.limit;
+    const page = hasMore ? rows.slice(0, params.limit) : rows;
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((row: { audiobook: Audiobook }) => row.audiobook),
+      total,
+      nextCursor: hasMore && last ? encodeSearchCursor({ sort, values: last.sortValues }) : null,
+      facets: { categories, languages, price, durations },
+    };
+  }
+
   async getAudiobook(id: string): Promise<Audiobook | undefined> {
     const [audiobook] = await db.select().from(audiobooks).where(eq(audiobooks.id, id));
     return audiobook || undefined;
@@ -437,6 +945,9 @@ export class DatabaseStorage implements IStorage {
       ...insertAudiobook,
       status,
     };
+    if (insertAudiobook.seriesId !== undefined) {
+      audiobookData.seriesName = await this.getSeriesName(insertAudiobook.seriesId);
+    }
     
     if (status === "APPROVED") {
       audiobookData.approvedAt = new Date();
@@ -450,10 +961,17 @@ export class DatabaseStorage implements IStorage {
     return audiobook;
   }
 
-  async updateAudiobook(id: string, data: Partial<Pick<Audiobook, "title" | "author" | "narrator" | "description" | "coverArtUrl" | "coverArtAssetId" | "category" | "language" | "priceCents" | "currency" | "isFree" | "visibility" | "totalDuration">>): Promise<Audiobook> {
+  async updateAudiobook(id: string, data: Partial<Pick<Audiobook, "title" | "author" | "narrator" | "description" | "coverArtUrl" | "coverArtAssetId" | "category" | "language" | "priceCents" | "currency" | "isFree" | "visibility" | "totalDuration" | "seriesId" | "seriesIndex">>): Promise<Audiobook> {
+    const updateData: Partial<Audiobook> = { ...data };
+    // The series name is derived from the series, never taken from the client
+    delete updateData.seriesName;
+    if (data.seriesId !== undefined) {
+      updateData.seriesName = await this.getSeriesName(data.seriesId);
+    }
+
     const [updated] = await db
       .update(audiobooks)
-      .set(data)
+      .set(updateData)
       .where(eq(audiobooks.id, id))
       .returning();
     
@@ -473,6 +991,154 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Series operations
+  async getAllSeries(): Promise<SeriesWithVolumeCount[]> {
+    const rows = await db
+      .select({
+        series,
+        volumeCount: sql<number>`count(${audiobooks.id})::int`,
+      })
+      .from(series)
+      .leftJoin(audiobooks, eq(audiobooks.seriesId, series.id))
+      .groupBy(series.id)
+      .orderBy(series.name);
+
+    return rows.map((row: { series: Series; volumeCount: number }) => ({
+      ...row.series,
+      volumeCount: row.volumeCount,
+    }));
+  }
+
+  async getSeries(id: string): Promise<Series | undefined> {
+    const [item] = await db.select().from(series).where(eq(series.id, id));
+    return item || undefined;
+  }
+
+  // Case-insensitive, so "La saga" and "La Saga" can't become two series
+  async getSeriesByName(name: string): Promise<Series | undefined> {
+    const [item] = await db
+      .select()
+      .from(series)
+      .where(sql`lower(${series.name}) = lower(${name.trim()})`);
+    return item || undefined;
+  }
+
+  async getSeriesName(seriesId: string | null): Promise<string | null> {
+    if (!seriesId) return null;
+    const item = await this.getSeries(seriesId);
+    if (!item) {
+      throw new Error("Series not found");
+    }
+    return item.name;
+  }
+
+  async getSeriesVolumes(seriesId: string, publicOnly: boolean = false): Promise<Audiobook[]> {
+    const conditions = [eq(audiobooks.seriesId, seriesId)];
+    if (publicOnly) {
+      conditions.push(
+        eq(audiobooks.visibility, "PUBLIC"),
+        eq(audiobooks.status, "APPROVED"),
+        isNotNull(audiobooks.publishedAt)
+      );
+    }
+
+    return await db
+      .select()
+      .from(audiobooks)
+      .where(and(...conditions))
+      .orderBy(sql`${audiobooks.seriesIndex} ASC NULLS LAST`, audiobooks.title);
+  }
+
+  async getNextInSeries(audiobookId: string): Promise<Audiobook | undefined> {
+    const current = await this.getAudiobook(audiobookId);
+    if (!current?.seriesId || current.seriesIndex === null) return undefined;
+
+    const [next] = await db
+      .select()
+      .from(audiobooks)
+      .where(and(
+        eq(audiobooks.seriesId, current.seriesId),
+        sql`${audiobooks.seriesIndex} > ${current.seriesIndex}`,
+        eq(audiobooks.visibility, "PUBLIC"),
+        eq(audiobooks.status, "APPROVED"),
+        isNotNull(audiobooks.publishedAt)
+      ))
+      .orderBy(audiobooks.seriesIndex)
+      .limit(1);
+    return next || undefined;
+  }
+
+  async getSeriesBundleQuote(userId: string | undefined, seriesId: string): Promise<SeriesBundleQuote | null> {
+    const item = await this.getSeries(seriesId);
+    if (!item || item.bundlePriceCents === null) return null;
+
+    const volumes = (await this.getSeriesVolumes(seriesId, true))
+      .filter(volume => !volume.isFree && volume.priceCents > 0);
+    // A bundle needs at least two paid volumes, all sold in the bundle currency
+    if (volumes.length < 2 || volumes.some(volume => volume.currency !== item.currency)) return null;
+
+    const ownedIds = new Set<string>();
+    if (userId) {
+      const purchases = await db
+        .select({ audiobookId: audiobookPurchases.audiobookId })
+        .from(audiobookPurchases)
+        .where(and(
+          eq(audiobookPurchases.userId, userId),
+          eq(audiobookPurchases.status, "COMPLETED"),
+          notPendingGift,
+          inArray(audiobookPurchases.audiobookId, volumes.map(volume => volume.id))
+        ));
+      purchases.forEach((purchase: { audiobookId: string }) => ownedIds.add(purchase.audiobookId));
+    }
+
+    const remaining = volumes.filter(volume => !ownedIds.has(volume.id));
+    if (remaining.length === 0) return null;
+
+    // Owning some volumes already lowers the bundle price by their share of the full list price
+    const fullListPriceCents = volumes.reduce((sum, volume) => sum + volume.priceCents, 0);
+    const listPriceCents = remaining.reduce((sum, volume) => sum + volume.priceCents, 0);
+    const priceCents = Math.min(
+      listPriceCents,
+      Math.round((item.bundlePriceCents * listPriceCents) / fullListPriceCents)
+    );
+
+    return { series: item, audiobooks: remaining, priceCents, listPriceCents };
+  }
+
+  async createSeries(data: InsertSeries): Promise<Series> {
+    const [item] = await db.insert(series).values(data).returning();
+    return item;
+  }
+
+  async updateSeries(id: string, data: Partial<InsertSeries>): Promise<Series> {
+    const [updated] = await db
+      .update(series)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(series.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Series not found");
+    }
+
+    if (data.name !== undefined) {
+      await db
+        .update(audiobooks)
+        .set({ seriesName: updated.name })
+        .where(eq(audiobooks.seriesId, id));
+    }
+
+    return updated;
+  }
+
+  async deleteSeries(id: string): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      await tx.update(cartItems).set({ seriesId: null }).where(eq(cartItems.seriesId, id));
+      await tx.update(audiobooks).set({ seriesId: null, seriesName: null }).where(eq(audiobooks.seriesId, id));
+      await tx.delete(series).where(eq(series.id, id));
+    });
+  }
+
   // Chapter operations
   async getChapter(id: string): Promise<Chapter | undefined> {
     const [chapter] = await db.select().from(chapters).where(eq(chapters.id, id));
@@ -528,10 +1194,11 @@ export class DatabaseStorage implements IStorage {
       .insert(chapters)
       .values(chapterData)
       .returning();
+    await this.recalculateAudiobookDuration(chapter.audiobookId);
     return chapter;
   }
 
-  async updateChapter(id: string, data: Partial<Pick<Chapter, "title" | "chapterNumber" | "description" | "coverArtUrl" | "coverArtAssetId" | "visibility" | "audioUrl" | "audioAssetId" | "duration" | "isSample">>): Promise<Chapter> {
+  async updateChapter(id: string, data: Partial<Pick<Chapter, "title" | "chapterNumber" | "description" | "coverArtUrl" | "coverArtAssetId" | "visibility" | "audioUrl" | "audioAssetId" | "audioFileSize" | "duration" | "isSample">>): Promise<Chapter> {
     const [updated] = await db
       .update(chapters)
       .set(data)
@@ -542,9 +1209,39 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Chapter not found");
     }
     
+    if (data.duration !== undefined) {
+      await this.recalculateAudiobookDuration(updated.audiobookId);
+    }
     return updated;
   }
 
+  // Chapters playing an asset, whether they point at it by id or only by URL
+  async getChaptersByAudioAsset(asset: MediaAsset): Promise<Chapter[]> {
+    const matches: SQL[] = [eq(chapters.audioAssetId, asset.id)];
+    if (asset.publicUrl) {
+      matches.push(eq(chapters.audioUrl, asset.publicUrl));
+    }
+    return await db
+      .select()
+      .from(chapters)
+      .where(or(...matches));
+  }
+
+  // totalDuration is derived from the chapters and kept in sync whenever they change
+  async recalculateAudiobookDuration(audiobookId: string): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${chapters.duration}), 0)::int` })
+      .from(chapters)
+      .where(eq(chapters.audiobookId, audiobookId));
+    const totalDuration = result?.total || 0;
+
+    await db
+      .update(audiobooks)
+      .set({ totalDuration })
+      .where(eq(audiobooks.id, audiobookId));
+    return totalDuration;
+  }
+
   // Favorites operations
   async addToFavorites(userId: string, audiobookId: string): Promise<Favorite> {
     const existing = await this.isFavorite(userId, audiobookId);
@@ -627,7 +1324,8 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         eq(audiobookPurchases.userId, userId),
         eq(audiobookPurchases.audiobookId, audiobookId),
-        eq(audiobookPurchases.status, "COMPLETED")
+        eq(audiobookPurchases.status, "COMPLETED"),
+        notPendingGift
       ));
     return purchase || undefined;
   }
@@ -638,7 +1336,8 @@ export class DatabaseStorage implements IStorage {
       .from(audiobookPurchases)
       .where(and(
         eq(audiobookPurchases.userId, userId),
-        eq(audiobookPurchases.status, "COMPLETED")
+        eq(audiobookPurchases.status, "COMPLETED"),
+        notPendingGift
       ))
       .orderBy(desc(audiobookPurchases.purchasedAt));
   }
@@ -711,7 +1410,7 @@ export class DatabaseStorage implements IStorage {
       .from(userSubscriptions)
       .where(and(
         eq(userSubscriptions.userId, userId),
-        eq(userSubscriptions.status, "ACTIVE")
+        subscriptionGrantsAccess
       ))
       .orderBy(desc(userSubscriptions.createdAt))
       .limit(1);
@@ -733,7 +1432,7 @@ export class DatabaseStorage implements IStorage {
     return subscription;
   }
 
-  async updateUserSubscriptionStatus(id: string, status: "ACTIVE" | "PAST_DUE" | "CANCELED" | "EXPIRED"): Promise<UserSubscription> {
+  async updateUserSubscriptionStatus(id: string, status: UserSubscription["status"]): Promise<UserSubscription> {
     const [subscription] = await db
       .update(userSubscriptions)
       .set({ status })
@@ -754,7 +1453,118 @@ export class DatabaseStorage implements IStorage {
   async hasActiveSubscription(userId: string): Promise<boolean> {
     const subscription = await this.getUserSubscription(userId);
     if (!subscription) return false;
-    return subscription.status === "ACTIVE" && subscription.currentPeriodEnd > new Date();
+    // A past due subscription is already inside its grace period here
+    return subscription.status === "PAST_DUE" || subscription.currentPeriodEnd > new Date();
+  }
+
+  // The subscription the user manages: granting access, or paused
+  async getCurrentSubscription(userId: string): Promise<UserSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(userSubscriptions)
+      .where(and(
+        eq(userSubscriptions.userId, userId),
+        inArray(userSubscriptions.status, ["ACTIVE", "PAST_DUE", "PAUSED"])
+      ))
+      .orderBy(desc(userSubscriptions.createdAt))
+      .limit(1);
+    return subscription || undefined;
+  }
+
+  async getUserSubscriptionById(id: string): Promise<UserSubscription | undefined> {
+    const [subscription] = await db.select().from(userSubscriptions).where(eq(userSubscriptions.id, id));
+    return subscription || undefined;
+  }
+
+  async getSubscriptionByPayPalId(paypalSubscriptionId: string): Promise<UserSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(userSubscriptions)
+      .where(eq(userSubscriptions.paypalSubscriptionId, paypalSubscriptionId))
+      .orderBy(desc(userSubscriptions.createdAt))
+      .limit(1);
+    return subscription || undefined;
+  }
+
+  async updateUserSubscription(id: string, data: Partial<Omit<UserSubscription, "id" | "userId" | "createdAt">>): Promise<UserSubscription> {
+    const [subscription] = await db
+      .update(userSubscriptions)
+      .set(data)
+      .where(eq(userSubscriptions.id, id))
+      .returning();
+    if (!subscription) {
+      throw new Error("Subscription not found");
+    }
+    return subscription;
+  }
+
+  // Conditional so only one of the return page and the webhook applies an approved plan change
+  async claimPendingPlanChange(id: string, planId: string): Promise<UserSubscription | undefined> {
+    const [subscription] = await db
+      .update(userSubscriptions)
+      .set({ pendingPlanId: null, pendingPlanChargeCents: null, pendingPlanRequestedAt: null })
+      .where(and(eq(userSubscriptions.id, id), eq(userSubscriptions.pendingPlanId, planId)))
+      .returning();
+    return subscription || undefined;
+  }
+
+  // PAST_DUE subscriptions whose grace period is over
+  async getLapsedSubscriptions(): Promise<UserSubscription[]> {
+    return await db
+      .select()
+      .from(userSubscriptions)
+      .where(and(
+        eq(userSubscriptions.status, "PAST_DUE"),
+        not(subscriptionGrantsAccess!)
+      ));
+  }
+
+  // Subscription event operations
+  async createSubscriptionEvent(data: InsertSubscriptionEvent): Promise<SubscriptionEvent> {
+    const [event] = await db.insert(subscriptionEvents).values(data).returning();
+    return event;
+  }
+
+  async updateSubscriptionEvent(id: string, data: Partial<InsertSubscriptionEvent>): Promise<SubscriptionEvent> {
+    const [event] = await db
+      .update(subscriptionEvents)
+      .set(data)
+      .where(eq(subscriptionEvents.id, id))
+      .returning();
+    return event;
+  }
+
+  async getSubscriptionEventByExternalId(externalId: string): Promise<SubscriptionEvent | undefined> {
+    const [event] = await db.select().from(subscriptionEvents).where(eq(subscriptionEvents.externalId, externalId));
+    return event || undefined;
+  }
+
+  async getUserSubscriptionEvents(userId: string): Promise<SubscriptionEventWithDetails[]> {
+    return this.getSubscriptionEventsWithDetails(eq(subscriptionEvents.userId, userId), 100);
+  }
+
+  async getRecentSubscriptionEvents(limit: number): Promise<SubscriptionEventWithDetails[]> {
+    return this.getSubscriptionEventsWithDetails(undefined, limit);
+  }
+
+  private async getSubscriptionEventsWithDetails(where: SQL | undefined, limit: number): Promise<SubscriptionEventWithDetails[]> {
+    const fromPlans = alias(subscriptionPlans, "from_plans");
+    const toPlans = alias(subscriptionPlans, "to_plans");
+    const rows = await db
+      .select({ event: subscriptionEvents, username: users.username, fromPlanName: fromPlans.name, toPlanName: toPlans.name })
+      .from(subscriptionEvents)
+      .innerJoin(users, eq(subscriptionEvents.userId, users.id))
+      .leftJoin(fromPlans, eq(subscriptionEvents.fromPlanId, fromPlans.id))
+      .leftJoin(toPlans, eq(subscriptionEvents.toPlanId, toPlans.id))
+      .where(where)
+      .orderBy(desc(subscriptionEvents.createdAt))
+      .limit(limit);
+    return rows.map((row: { event: SubscriptionEvent; username: string; fromPlanName: string | null; toPlanName: string | null }) => ({
+      ...row.event,
+      username: row.username,
+      fromPlanName: row.fromPlanName,
+      toPlanName: row.toPlanName,
+    }));
   }
 
   // Access control
@@ -785,7 +1595,7 @@ export class DatabaseStorage implements IStorage {
       return { hasAccess: true, isPurchased: false, isSubscriber: false, isFree: false };
     }
 
-    // Check if purchased
+    // Check if purchased; refunded purchases no longer grant access
     const isPurchased = await this.hasPurchasedAudiobook(userId, audiobookId);
     if (isPurchased) {
       return { hasAccess: true, isPurchased: true, isSubscriber: false, isFree: false };
@@ -797,6 +1607,17 @@ export class DatabaseStorage implements IStorage {
       return { hasAccess: true, isPurchased: false, isSubscriber: true, isFree: false };
     }
 
+    // Household members share the owner's purchases, and the subscription on family plans
+    const sharing = await this.getHouseholdSharing(userId);
+    if (sharing) {
+      if (await this.hasPurchasedAudiobook(sharing.ownerId, audiobookId)) {
+        return { hasAccess: true, isPurchased: true, isSubscriber: false, isFree: false };
+      }
+      if (sharing.sharesSubscription && await this.hasActiveSubscription(sharing.ownerId)) {
+        return { hasAccess: true, isPurchased: false, isSubscriber: true, isFree: false };
+      }
+    }
+
     return { hasAccess: false, isPurchased: false, isSubscriber: false, isFree: false };
   }
 
@@ -811,46 +1632,127 @@ export class DatabaseStorage implements IStorage {
     return access.hasAccess;
   }
 
+  async getOfflineLicenses(userId: string, chapterIds: string[]): Promise<OfflineLicense[]> {
+    let subscription = await this.getUserSubscription(userId);
+    if (!subscription) {
+      // A shared family plan expires for members when it does for the owner
+      const sharing = await this.getHouseholdSharing(userId);
+      if (sharing?.sharesSubscription) {
+        subscription = await this.getUserSubscription(sharing.ownerId);
+      }
+    }
+    const subscriberByAudiobook = new Map<string, boolean>();
+    const licenses: OfflineLicense[] = [];
+
+    for (const chapterId of Array.from(new Set(chapterIds))) {
+      const chapter = await this.getChapterWithAudiobook(chapterId);
+      if (!chapter) {
+        licenses.push({ chapterId, audiobookId: null, hasAccess: false, expiresAt: null });
+        continue;
+      }
+
+      const hasAccess = await this.hasAccessToChapter(userId, chapterId);
+      let viaSubscription = subscriberByAudiobook.get(chapter.audiobookId);
+      if (viaSubscription === undefined) {
+        viaSubscription = (await this.hasAccessToAudiobook(userId, chapter.audiobookId)).isSubscriber;
+        subscriberByAudiobook.set(chapter.audiobookId, viaSubscription);
+      }
+
+      // Purchases, free books and samples don't expire; subscriber access ends with the paid period
+      const subscriberOnly = hasAccess && viaSubscription && !chapter.isSample;
+      licenses.push({
+        chapterId,
+        audiobookId: chapter.audiobookId,
+        hasAccess,
+        expiresAt: subscriberOnly && subscription ? subscription.currentPeriodEnd : null,
+      });
+    }
+
+    return licenses;
+  }
+
   // Listening progress operations
   async getListeningProgress(userId: string, audiobookId: string): Promise<ListeningProgress | undefined> {
+    // The most recently touched chapter is where the listener resumes
     const [progress] = await db
       .select()
       .from(listeningProgress)
       .where(and(
         eq(listeningProgress.userId, userId),
         eq(listeningProgress.audiobookId, audiobookId)
+      ))
+      .orderBy(desc(listeningProgress.updatedAt))
+      .limit(1);
+    return progress || undefined;
+  }
+
+  async getChapterProgress(userId: string, chapterId: string): Promise<ListeningProgress | undefined> {
+    const [progress] = await db
+      .select()
+      .from(listeningProgress)
+      .where(and(
+        eq(listeningProgress.userId, userId),
+        eq(listeningProgress.chapterId, chapterId)
       ));
     return progress || undefined;
   }
 
-  async updateListeningProgress(userId: string, audiobookId: string, chapterId: string, positionSeconds: number, completed?: boolean): Promise<ListeningProgress> {
-    const existing = await this.getListeningProgress(userId, audiobookId);
-    
-    if (existing) {
-      const [updated] = await db
-        .update(listeningProgress)
-        .set({
+  async getAudiobookProgress(userId: string, audiobookId: string): Promise<ListeningProgress[]> {
+    return await db
+      .select()
+      .from(listeningProgress)
+      .where(and(
+        eq(listeningProgress.userId, userId),
+        eq(listeningProgress.audiobookId, audiobookId)
+      ))
+      .orderBy(desc(listeningProgress.updatedAt));
+  }
+
+  // Also returns the position this write replaced, so callers can tell how far the listener got since
+  async updateListeningProgress(userId: string, audiobookId: string, chapterId: string, positionSeconds: number, completed?: boolean, updatedAt?: Date): Promise<{ progress: ListeningProgress; previous?: ListeningProgress }> {
+    // Clamp client timestamps so a device with a fast clock can't pin the position forever
+    const now = new Date();
+    const writeTime = updatedAt && updatedAt < now ? updatedAt : now;
+
+    return await db.transaction(async (tx: Transaction) => {
+      // Locked so two devices writing at once don't both see the same previous position
+      const [previous] = await tx
+        .select()
+        .from(listeningProgress)
+        .where(and(eq(listeningProgress.userId, userId), eq(listeningProgress.chapterId, chapterId)))
+        .for("update");
+
+      // Last write wins: the update is skipped when the stored row was recorded later
+      const [saved] = await tx
+        .insert(listeningProgress)
+        .values({
+          userId,
+          audiobookId,
           chapterId,
           positionSeconds,
-          completed: completed ?? existing.completed,
-          updatedAt: new Date(),
+          completed: completed ?? false,
+          updatedAt: writeTime,
+        })
+        .onConflictDoUpdate({
+          target: [listeningProgress.userId, listeningProgress.chapterId],
+          set: {
+            positionSeconds,
+            completed: completed === undefined ? sql`${listeningProgress.completed}` : completed,
+            updatedAt: writeTime,
+          },
+          setWhere: lte(listeningProgress.updatedAt, writeTime),
         })
-        .where(eq(listeningProgress.id, existing.id))
         .returning();
-      return updated;
-    }
-    
-    const [created] = await db
-      .insert(listeningProgress)
-      .values({
-        userId,
-        audiobookId,
-        chapterId,
-        positionSeconds,
-        completed: completed ?? false,
-      })
-      .returning();
-    return created;
+      if (saved) {
+        return { progress: saved, previous };
+      }
+
+      const [existing] = await tx
+        .select()
+        .from(listeningProgress)
+        .where(and(eq(listeningProgress.userId, userId), eq(listeningProgress.chapterId, chapterId)));
+      return { progress: existing };
+    });
   }
 
   async getUserListeningHistory(userId: string): Promise<(ListeningProgress & { audiobook: Audiobook })[]> {
@@ -867,6 +1769,50 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => ({ ...r.progress, audiobook: r.audiobook }));
   }
 
+  async getContinueListening(userId: string, limit: number = 10): Promise<ContinueListeningItem[]> {
+    const result = await db
+      .select({
+        progress: listeningProgress,
+        audiobook: audiobooks,
+        chapter: chapters,
+      })
+      .from(listeningProgress)
+      .innerJoin(audiobooks, eq(listeningProgress.audiobookId, audiobooks.id))
+      .innerJoin(chapters, eq(listeningProgress.chapterId, chapters.id))
+      .where(eq(listeningProgress.userId, userId))
+      .orderBy(desc(listeningProgress.updatedAt));
+
+    const items: ContinueListeningItem[] = [];
+    const seen = new Set<string>();
+
+    for (const row of result) {
+      if (items.length >= limit) break;
+      if (seen.has(row.audiobook.id)) continue;
+      seen.add(row.audiobook.id);
+
+      if (!row.progress.completed) {
+        items.push({ ...row.progress, audiobook: row.audiobook, chapter: row.chapter });
+        continue;
+      }
+
+      // Last touched chapter is finished - resume at the start of the next one, if any
+      const audiobookChapters = await this.getChaptersByAudiobook(row.audiobook.id);
+      const nextChapter = audiobookChapters.find(c => c.chapterNumber > row.chapter.chapterNumber);
+      if (nextChapter) {
+        items.push({
+          ...row.progress,
+          chapterId: nextChapter.id,
+          positionSeconds: 0,
+          completed: false,
+          audiobook: row.audiobook,
+          chapter: nextChapter,
+        });
+      }
+    }
+
+    return items;
+  }
+
   // Admin operations - User management
   async getAllUsers(): Promise<User[]> {
     return await db.select().from(users).orderBy(desc(users.createdAt));
@@ -887,6 +1833,10 @@ export class DatabaseStorage implements IStorage {
       .set({ isActive })
       .where(eq(users.id, userId))
       .returning();
+    // A deactivated user is signed out everywhere
+    if (user && !isActive) {
+      await this.deleteUserSessions(userId);
+    }
     return user;
   }
 
@@ -1068,8 +2018,14 @@ export class DatabaseStorage implements IStorage {
   async deleteAudiobook(audiobookId: string): Promise<void> {
     await db.transaction(async (tx) => {
       await tx.delete(favorites).where(eq(favorites.audiobookId, audiobookId));
+      await tx.delete(reviews).where(eq(reviews.audiobookId, audiobookId));
+      await tx.delete(bookmarks).where(eq(bookmarks.audiobookId, audiobookId));
+      const audiobookChapterIds = tx.select({ id: chapters.id }).from(chapters).where(eq(chapters.audiobookId, audiobookId));
+      await tx.delete(transcriptCues).where(inArray(transcriptCues.chapterId, audiobookChapterIds));
+      await tx.delete(chapterTranscripts).where(inArray(chapterTranscripts.chapterId, audiobookChapterIds));
       await tx.delete(audiobookPurchases).where(eq(audiobookPurchases.audiobookId, audiobookId));
       await tx.delete(listeningProgress).where(eq(listeningProgress.audiobookId, audiobookId));
+      await tx.delete(catalogListening).where(eq(catalogListening.audiobookId, audiobookId));
       await tx.delete(mediaAssets).where(eq(mediaAssets.audiobookId, audiobookId));
       await tx.delete(chapters).where(eq(chapters.audiobookId, audiobookId));
       await tx.delete(audiobooks).where(eq(audiobooks.id, audiobookId));
@@ -1077,7 +2033,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteChapter(chapterId: string): Promise<void> {
+    const chapter = await this.getChapter(chapterId);
+    await db.delete(listeningProgress).where(eq(listeningProgress.chapterId, chapterId));
+    await db.delete(bookmarks).where(eq(bookmarks.chapterId, chapterId));
+    await this.deleteChapterTranscript(chapterId);
     await db.delete(chapters).where(eq(chapters.id, chapterId));
+    if (chapter) {
+      await this.recalculateAudiobookDuration(chapter.audiobookId);
+    }
   }
 
   // Email configuration operations
@@ -1209,8 +2172,530 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
+  // Two-factor operations
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId));
+    return twoFactor || undefined;
+  }
+
+  async getTwoFactorEnabledUserIds(): Promise<string[]> {
+    const rows = await db
+      .select({ userId: userTwoFactor.userId })
+      .from(userTwoFactor)
+      .where(isNotNull(userTwoFactor.enabledAt));
+    return rows.map((row: { userId: string }) => row.userId);
+  }
+
+  // Starting over replaces an unconfirmed secret; callers check 2FA isn't already enabled
+  async saveTwoFactorSecret(userId: string, secret: string): Promise<void> {
+    await db
+      .insert(userTwoFactor)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() },
+      });
+  }
+
+  async enableTwoFactor(userId: string, step: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      await tx
+        .update(userTwoFactor)
+        .set({ enabledAt: new Date(), lastUsedStep: step })
+        .where(eq(userTwoFactor.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  // Accept a code's time step only if it's newer than the last one used, so codes can't be replayed
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const claimed = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return claimed.length > 0;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    });
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async createSecurityEvent(event: Omit<SecurityEvent, "id" | "createdAt">): Promise<SecurityEvent> {
+    const [created] = await db
+      .insert(securityEvents)
+      .values(event)
+      .returning();
+    return created;
+  }
+
+  async getSecurityEvents(userId: string, limit: number = 50): Promise<SecurityEventWithActor[]> {
+    const actors = alias(users, "actors");
+    const rows = await db
+      .select({ event: securityEvents, actorName: actors.username })
+      .from(securityEvents)
+      .leftJoin(actors, eq(securityEvents.actorId, actors.id))
+      .where(eq(securityEvents.userId, userId))
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(limit);
+    return rows.map((row: { event: SecurityEvent; actorName: string | null }) => ({ ...row.event, actorName: row.actorName }));
+  }
+
+  // Login protection operations
+  async getAccountLockout(userId: string): Promise<AccountLockout | undefined> {
+    const [lockout] = await db
+      .select()
+      .from(accountLockouts)
+      .where(eq(accountLockouts.userId, userId));
+    return lockout || undefined;
+  }
+
+  async getAccountLockouts(): Promise<AccountLockout[]> {
+    return await db.select().from(accountLockouts);
+  }
+
+  async getAccountLockoutByUnlockToken(unlockTokenHash: string): Promise<AccountLockout | undefined> {
+    const [lockout] = await db
+      .select()
+      .from(accountLockouts)
+      .where(eq(accountLockouts.unlockTokenHash, unlockTokenHash));
+    return lockout || undefined;
+  }
+
+  // Count a failed login; the count starts over once a previous lock has run out
+  async recordFailedLogin(userId: string): Promise<AccountLockout> {
+    const lockExpired = sql`${accountLockouts.lockedUntil} is not null and ${accountLockouts.lockedUntil} <= now()`;
+    const [lockout] = await db
+      .insert(accountLockouts)
+      .values({ userId, failedCount: 1 })
+      .onConflictDoUpdate({
+        target: accountLockouts.userId,
+        set: {
+          failedCount: sql`case when ${lockExpired} then 1 else ${accountLockouts.failedCount} + 1 end`,
+          lockedUntil: sql`case when ${lockExpired} then null else ${accountLockouts.lockedUntil} end`,
+          unlockTokenHash: sql`case when ${lockExpired} then null else ${accountLockouts.unlockTokenHash} end`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return lockout;
+  }
+
+  async lockAccount(userId: string, lockedUntil: Date, unlockTokenHash: string): Promise<void> {
+    await db
+      .update(accountLockouts)
+      .set({ lockedUntil, unlockTokenHash, updatedAt: new Date() })
+      .where(eq(accountLockouts.userId, userId));
+  }
+
+  async clearAccountLockout(userId: string): Promise<void> {
+    await db.delete(accountLockouts).where(eq(accountLockouts.userId, userId));
+  }
+
+  // Count an attempt in the key's current window, opening a new window when the last one is over
+  async hitRateLimit(key: string, windowMs: number): Promise<RateLimitBucket> {
+    const windowOver = sql`${rateLimitBuckets.windowEndsAt} <= now()`;
+    const newWindowEnd = sql`now() + ${windowMs} * interval '1 millisecond'`;
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, hits: 1, windowEndsAt: newWindowEnd })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          hits: sql`case when ${windowOver} then 1 else ${rateLimitBuckets.hits} + 1 end`,
+          windowEndsAt: sql`case when ${windowOver} then ${newWindowEnd} else ${rateLimitBuckets.windowEndsAt} end`,
+        },
+      })
+      .returning();
+    return bucket;
+  }
+
+  async blockRateLimit(key: string, blockedUntil: Date): Promise<void> {
+    await db
+      .update(rateLimitBuckets)
+      .set({ blockedUntil })
+      .where(eq(rateLimitBuckets.key, key));
+  }
+
+  async getRateLimitBlockedUntil(keys: string[]): Promise<Date | null> {
+    if (keys.length === 0) {
+      return null;
+    }
+    const [result] = await db
+      .select({ blockedUntil: sql<Date | null>`max(${rateLimitBuckets.blockedUntil})` })
+      .from(rateLimitBuckets)
+      .where(and(inArray(rateLimitBuckets.key, keys), gte(rateLimitBuckets.blockedUntil, new Date())));
+    return result?.blockedUntil ? new Date(result.blockedUntil) : null;
+  }
+
+  async deleteExpiredRateLimits(): Promise<number> {
+    const now = new Date();
+    const deleted = await db
+      .delete(rateLimitBuckets)
+      .where(and(
+        lt(rateLimitBuckets.windowEndsAt, now),
+        or(isNull(rateLimitBuckets.blockedUntil), lt(rateLimitBuckets.blockedUntil, now))
+      ))
+      .returning({ key: rateLimitBuckets.key });
+    return deleted.length;
+  }
+
+  // Session operations
+  // connect-pg-simple stores the session as json; the signed-in user is its userId field
+  async getUserSessions(userId: string): Promise<SessionRecord[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(
+        sql`(${sessions.sess}::json)->>'userId' = ${userId}`,
+        gte(sessions.expire, new Date())
+      ))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const conditions: SQL[] = [sql`(${sessions.sess}::json)->>'userId' = ${userId}`];
+    if (exceptSid) {
+      conditions.push(ne(sessions.sid, exceptSid));
+    }
+    const deleted = await db
+      .delete(sessions)
+      .where(and(...conditions))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  // Admin audit log operations
+  async createAdminAuditEntry(entry: InsertAdminAuditEntry): Promise<AdminAuditEntry> {
+    const [created] = await db.insert(adminAuditLog).values(entry).returning();
+    return created;
+  }
+
+  private getAdminAuditConditions(query: Omit<AdminAuditLogQuery, "limit" | "offset">): SQL[] {
+    const conditions: SQL[] = [];
+    if (query.actorId) {
+      conditions.push(eq(adminAuditLog.actorId, query.actorId));
+    }
+    if (query.action) {
+      conditions.push(ilike(adminAuditLog.action, `%${query.action}%`));
+    }
+    if (query.targetType) {
+      conditions.push(eq(adminAuditLog.targetType, query.targetType));
+    }
+    if (query.targetId) {
+      conditions.push(eq(adminAuditLog.targetId, query.targetId));
+    }
+    if (query.from) {
+      conditions.push(gte(adminAuditLog.createdAt, query.from));
+    }
+    if (query.to) {
+      conditions.push(lte(adminAuditLog.createdAt, query.to));
+    }
+    return conditions;
+  }
+
+  async getAdminAuditLog(query: AdminAuditLogQuery): Promise<AdminAuditLogPage> {
+    const where = and(...this.getAdminAuditConditions(query));
+
+    const entries = await db
+      .select()
+      .from(adminAuditLog)
+      .where(where)
+      .orderBy(desc(adminAuditLog.createdAt))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(adminAuditLog)
+      .where(where);
+
+    const actions = await db
+      .selectDistinct({ action: adminAuditLog.action })
+      .from(adminAuditLog)
+      .orderBy(asc(adminAuditLog.action));
+
+    const targetTypes = await db
+      .selectDistinct({ targetType: adminAuditLog.targetType })
+      .from(adminAuditLog)
+      .where(isNotNull(adminAuditLog.targetType))
+      .orderBy(asc(adminAuditLog.targetType));
+
+    const actors = await db
+      .selectDistinct({ id: adminAuditLog.actorId, email: adminAuditLog.actorEmail })
+      .from(adminAuditLog)
+      .orderBy(asc(adminAuditLog.actorEmail));
+
+    return {
+      entries,
+      total,
+      actions: actions.map((row: { action: string }) => row.action),
+      targetTypes: targetTypes.map((row: { targetType: string | null }) => row.targetType!),
+      actors,
+    };
+  }
+
+  async getAllAdminAuditEntries(query: Omit<AdminAuditLogQuery, "limit" | "offset">): Promise<AdminAuditEntry[]> {
+    return await db
+      .select()
+      .from(adminAuditLog)
+      .where(and(...this.getAdminAuditConditions(query)))
+      .orderBy(desc(adminAuditLog.createdAt));
+  }
+
+  // Personal data operations
+  async getUserDataExport(userId: string): Promise<UserDataExport> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    const { passwordHash: _, emailVerificationToken: __, emailVerificationTokenExpiresAt: ___, ...profile } = user;
+
+    const [billingProfile] = await db.select().from(billingProfiles).where(eq(billingProfiles.userId, userId));
+
+    const purchaseRows: { purchase: AudiobookPurchase; audiobookTitle: string }[] = await db
+      .select({ purchase: audiobookPurchases, audiobookTitle: audiobooks.title })
+      .from(audiobookPurchases)
+      .innerJoin(audiobooks, eq(audiobookPurchases.audiobookId, audiobooks.id))
+      .where(eq(audiobookPurchases.userId, userId))
+      .orderBy(asc(audiobookPurchases.createdAt));
+
+    const invoiceRows: Invoice[] = await db.select().from(invoices).where(eq(invoices.userId, userId)).orderBy(asc(invoices.issueDate));
+    const lineItems: InvoiceLineItem[] = invoiceRows.length > 0
+      ? await db.select().from(invoiceLineItems).where(inArray(invoiceLineItems.invoiceId, invoiceRows.map(invoice => invoice.id)))
+      : [];
+
+    const progressRows: { progress: ListeningProgress; audiobookTitle: string; chapterTitle: string }[] = await db
+      .select({ progress: listeningProgress, audiobookTitle: audiobooks.title, chapterTitle: chapters.title })
+      .from(listeningProgress)
+      .innerJoin(audiobooks, eq(listeningProgress.audiobookId, audiobooks.id))
+      .innerJoin(chapters, eq(listeningProgress.chapterId, chapters.id))
+      .where(eq(listeningProgress.userId, userId))
+      .orderBy(desc(listeningProgress.updatedAt));
+
+    const favoriteRows: { favorite: Favorite; audiobookTitle: string }[] = await db
+      .select({ favorite: favorites, audiobookTitle: audiobooks.title })
+      .from(favorites)
+      .innerJoin(audiobooks, eq(favorites.audiobookId, audiobooks.id))
+      .where(eq(favorites.userId, userId))
+      .orderBy(asc(favorites.createdAt));
+
+    const playlistRows: Playlist[] = await db.select().from(playlists).where(eq(playlists.userId, userId)).orderBy(asc(playlists.createdAt));
+    const playlistItems: PlaylistChapter[] = playlistRows.length > 0
+      ? await db
+          .select()
+          .from(playlistChapters)
+          .where(inArray(playlistChapters.playlistId, playlistRows.map(playlist => playlist.id)))
+          .orderBy(asc(playlistChapters.position))
+      : [];
+
+    return {
+      profile,
+      billingProfile: billingProfile || null,
+      purchases: purchaseRows.map(row => ({ ...row.purchase, audiobookTitle: row.audiobookTitle })),
+      invoices: invoiceRows.map(invoice => ({ ...invoice, lineItems: lineItems.filter(item => item.invoiceId === invoice.id) })),
+      subscriptions: await db.select().from(userSubscriptions).where(eq(userSubscriptions.userId, userId)).orderBy(asc(userSubscriptions.createdAt)),
+      subscriptionEvents: await db.select().from(subscriptionEvents).where(eq(subscriptionEvents.userId, userId)).orderBy(asc(subscriptionEvents.createdAt)),
+      listeningProgress: progressRows.map(row => ({ ...row.progress, audiobookTitle: row.audiobookTitle, chapterTitle: row.chapterTitle })),
+      favorites: favoriteRows.map(row => ({ ...row.favorite, audiobookTitle: row.audiobookTitle })),
+      playlists: playlistRows.map(playlist => ({ ...playlist, chapters: playlistItems.filter(item => item.playlistId === playlist.id) })),
+      rssFeedTokens: await db.select().from(rssFeedTokens).where(eq(rssFeedTokens.userId, userId)),
+      reviews: await db.select().from(reviews).where(eq(reviews.userId, userId)).orderBy(asc(reviews.createdAt)),
+      bookmarks: await db.select().from(bookmarks).where(eq(bookmarks.userId, userId)).orderBy(asc(bookmarks.createdAt)),
+      householdMembers: await db
+        .select()
+        .from(householdMembers)
+        .where(or(eq(householdMembers.ownerId, userId), eq(householdMembers.userId, userId)))
+        .orderBy(asc(householdMembers.createdAt)),
+      securityEvents: await db.select().from(securityEvents).where(eq(securityEvents.userId, userId)).orderBy(asc(securityEvents.createdAt)),
+    };
+  }
+
+  async createAccountDeletionRequest(userId: string, scheduledFor: Date, reason: string | null): Promise<AccountDeletionRequest> {
+    const [request] = await db
+      .insert(accountDeletionRequests)
+      .values({ userId, scheduledFor, reason })
+      .returning();
+    return request;
+  }
+
+  async getAccountDeletionRequest(id: string): Promise<AccountDeletionRequest | undefined> {
+    const [request] = await db.select().from(accountDeletionRequests).where(eq(accountDeletionRequests.id, id));
+    return request || undefined;
+  }
+
+  async getPendingAccountDeletion(userId: string): Promise<AccountDeletionRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(accountDeletionRequests)
+      .where(and(eq(accountDeletionRequests.userId, userId), eq(accountDeletionRequests.status, "PENDING")));
+    return request || undefined;
+  }
+
+  async getAccountDeletionRequests(status?: AccountDeletionRequest["status"]): Promise<AccountDeletionRequestWithUser[]> {
+    const rows: { request: AccountDeletionRequest; username: string; email: string }[] = await db
+      .select({ request: accountDeletionRequests, username: users.username, email: users.email })
+      .from(accountDeletionRequests)
+      .innerJoin(users, eq(accountDeletionRequests.userId, users.id))
+      .where(status ? eq(accountDeletionRequests.status, status) : undefined)
+      .orderBy(status === "PENDING" ? asc(accountDeletionRequests.scheduledFor) : desc(accountDeletionRequests.createdAt));
+    return rows.map(row => ({ ...row.request, username: row.username, email: row.email }));
+  }
+
+  async getDueAccountDeletionRequests(): Promise<AccountDeletionRequest[]> {
+    return await db
+      .select()
+      .from(accountDeletionRequests)
+      .where(and(eq(accountDeletionRequests.status, "PENDING"), lte(accountDeletionRequests.scheduledFor, new Date())))
+      .orderBy(asc(accountDeletionRequests.scheduledFor));
+  }
+
+  async cancelAccountDeletionRequest(id: string, cancelledBy: string): Promise<AccountDeletionRequest | undefined> {
+    const [request] = await db
+      .update(accountDeletionRequests)
+      .set({ status: "CANCELLED", cancelledBy, cancelledAt: new Date() })
+      .where(and(eq(accountDeletionRequests.id, id), eq(accountDeletionRequests.status, "PENDING")))
+      .returning();
+    return request || undefined;
+  }
+
+  /**
+   * Erase a user's personal data, keeping what the law requires
+   * Invoices, purchases and subscriptions stay as financial records (invoices
+   * carry their own billing snapshot); the user row stays for them to point at,
+   * with its identity replaced and sign-in disabled. Everything else is deleted,
+   * including email jobs and rate limit keys naming the account, and gifts
+   * lose the email they were sent to. Returns the shared bookmark clips whose
+   * files the caller still has to remove.
+   */
+  async anonymizeUser(requestId: string, replacement: Pick<User, "username" | "email" | "passwordHash">): Promise<{ clipAssetIds: string[] }> {
+    return await db.transaction(async (tx: Transaction) => {
+      // Claiming the request first means a cancellation in the meantime wins
+      const [request] = await tx
+        .update(accountDeletionRequests)
+        .set({ status: "COMPLETED", completedAt: new Date() })
+        .where(and(eq(accountDeletionRequests.id, requestId), eq(accountDeletionRequests.status, "PENDING")))
+        .returning();
+      if (!request) {
+        throw new Error("Deletion request not found");
+      }
+      const userId = request.userId;
+      const [user] = await tx.select().from(users).where(eq(users.id, userId));
+      if (!user) {
+        throw new Error("User not found");
+      }
+
+      await tx.delete(listeningProgress).where(eq(listeningProgress.userId, userId));
+      await tx.delete(favorites).where(eq(favorites.userId, userId));
+      await tx.delete(playlists).where(eq(playlists.userId, userId));
+      await tx.delete(rssFeedTokens).where(eq(rssFeedTokens.userId, userId));
+      await tx.delete(cartItems).where(eq(cartItems.userId, userId));
+      const clips = await tx
+        .select({ id: bookmarks.clipAssetId })
+        .from(bookmarks)
+        .where(and(eq(bookmarks.userId, userId), isNotNull(bookmarks.clipAssetId)));
+      await tx.delete(bookmarks).where(eq(bookmarks.userId, userId));
+      await tx.delete(reviews).where(eq(reviews.userId, userId));
+      await tx.delete(billingProfiles).where(eq(billingProfiles.userId, userId));
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+      await tx.delete(accountLockouts).where(eq(accountLockouts.userId, userId));
+      await tx.delete(securityEvents).where(eq(securityEvents.userId, userId));
+      await tx.delete(householdMembers).where(or(eq(householdMembers.ownerId, userId), eq(householdMembers.userId, userId)));
+      await tx
+        .delete(contentInvitations)
+        .where(or(eq(contentInvitations.acceptedBy, userId), sql`lower(${contentInvitations.email}) = lower(${user.email})`));
+      await tx.delete(sessions).where(sql`(${sessions.sess}::json)->>'userId' = ${userId}`);
+      const accountKeySuffix = `:account:${user.email.toLowerCase()}`;
+      await tx
+        .delete(rateLimitBuckets)
+        .where(sql`right(${rateLimitBuckets.key}, ${accountKeySuffix.length}) = ${accountKeySuffix}`);
+
+      // Export ZIPs are removed by the caller; emails to the account, sent or still queued, are dropped
+      const emailPattern = user.email.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      await tx
+        .delete(backgroundJobs)
+        .where(or(
+          and(eq(backgroundJobs.type, "data-export"), eq(backgroundJobs.createdBy, userId)),
+          and(eq(backgroundJobs.type, "email"), sql`${backgroundJobs.payload} ~* ${emailPattern}`)
+        ));
+
+      await tx
+        .update(audiobookPurchases)
+        .set({ paypalPayerEmail: null, giftMessage: null })
+        .where(eq(audiobookPurchases.userId, userId));
+      await tx
+        .update(audiobookPurchases)
+        .set({ giftRecipientEmail: null, giftMessage: null })
+        .where(or(
+          eq(audiobookPurchases.giftedByUserId, userId),
+          sql`lower(${audiobookPurchases.giftRecipientEmail}) = lower(${user.email})`
+        ));
+
+      await tx
+        .update(users)
+        .set({
+          ...replacement,
+          bio: null,
+          avatarUrl: null,
+          website: null,
+          isActive: false,
+          emailVerificationToken: null,
+          emailVerificationTokenExpiresAt: null,
+          stripeCustomerId: null,
+          paypalPayerId: null,
+        })
+        .where(eq(users.id, userId));
+
+      return { clipAssetIds: clips.map((clip: { id: string | null }) => clip.id!) };
+    });
+  }
+
   // Media asset operations
-  async createMediaAsset(asset: Omit<MediaAsset, "id" | "createdAt">): Promise<MediaAsset> {
+  async createMediaAsset(asset: Omit<MediaAsset, "id" | "createdAt" | "durationSeconds" | "sourceAssetId" | "sourceFingerprint"> & Partial<Pick<MediaAsset, "durationSeconds" | "sourceAssetId" | "sourceFingerprint">>): Promise<MediaAsset> {
     const [mediaAsset] = await db
       .insert(mediaAssets)
       .values(asset)
@@ -1245,6 +2730,26 @@ export class DatabaseStorage implements IStorage {
       .where(eq(mediaAssets.chapterId, chapterId));
   }
 
+  async getDerivedMediaAssets(sourceAssetId: string): Promise<MediaAsset[]> {
+    return await db
+      .select()
+      .from(mediaAssets)
+      .where(eq(mediaAssets.sourceAssetId, sourceAssetId))
+      .orderBy(desc(mediaAssets.createdAt));
+  }
+
+  async updateMediaAsset(id: string, data: Partial<Pick<MediaAsset, "durationSeconds" | "sizeBytes" | "checksum" | "audiobookId" | "chapterId">>): Promise<MediaAsset> {
+    const [updated] = await db
+      .update(mediaAssets)
+      .set(data)
+      .where(eq(mediaAssets.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error("Media asset not found");
+    }
+    return updated;
+  }
+
   async deleteMediaAsset(id: string): Promise<void> {
     await db.delete(mediaAssets).where(eq(mediaAssets.id, id));
   }
@@ -1373,7 +2878,8 @@ export class DatabaseStorage implements IStorage {
       .from(audiobookPurchases)
       .where(and(
         eq(audiobookPurchases.userId, userId),
-        eq(audiobookPurchases.audiobookId, audiobookId)
+        eq(audiobookPurchases.audiobookId, audiobookId),
+        notPendingGift
       ))
       .orderBy(desc(audiobookPurchases.createdAt))
       .limit(1);
@@ -1389,6 +2895,13 @@ export class DatabaseStorage implements IStorage {
     return purchase || undefined;
   }
 
+  async getPurchasesByPayPalOrderId(paypalOrderId: string): Promise<AudiobookPurchase[]> {
+    return await db
+      .select()
+      .from(audiobookPurchases)
+      .where(eq(audiobookPurchases.paypalOrderId, paypalOrderId));
+  }
+
   async markPurchaseCompletedByPayPalOrderId(paypalOrderId: string, captureId: string, payerEmail?: string): Promise<AudiobookPurchase | undefined> {
     const [purchase] = await db
       .update(audiobookPurchases)
@@ -1398,7 +2911,11 @@ export class DatabaseStorage implements IStorage {
         paypalPayerEmail: payerEmail || null,
         purchasedAt: new Date(),
       })
-      .where(eq(audiobookPurchases.paypalOrderId, paypalOrderId))
+      // A late capture webhook must not restore access to a purchase that was refunded meanwhile
+      .where(and(
+        eq(audiobookPurchases.paypalOrderId, paypalOrderId),
+        eq(audiobookPurchases.status, "PENDING")
+      ))
       .returning();
     return purchase || undefined;
   }
@@ -1409,7 +2926,7 @@ export class DatabaseStorage implements IStorage {
       .from(userSubscriptions)
       .where(and(
         eq(userSubscriptions.userId, userId),
-        eq(userSubscriptions.status, "ACTIVE")
+        subscriptionGrantsAccess
       ))
       .limit(1);
     return subscription || undefined;
@@ -1427,7 +2944,7 @@ export class DatabaseStorage implements IStorage {
     return subscription || undefined;
   }
 
-  async updateSubscriptionStatusByPayPalId(paypalSubscriptionId: string, status: "ACTIVE" | "PAST_DUE" | "CANCELED" | "EXPIRED"): Promise<void> {
+  async updateSubscriptionStatusByPayPalId(paypalSubscriptionId: string, status: UserSubscription["status"]): Promise<void> {
     const updateData: any = { status };
     if (status === "CANCELED") {
       updateData.canceledAt = new Date();
@@ -1486,7 +3003,7 @@ export class DatabaseStorage implements IStorage {
     lineItems?: Array<{description: string; quantity: number; unitPriceCents: number; totalCents: number}>
   ): Promise<Invoice> {
     // Generate invoice number automatically
-    const invoiceNumber = await this.getNextInvoiceNumber();
+    const invoiceNumber = await this.getNextInvoiceNumber(invoice.type);
     
     // Use transaction to ensure invoice and line items are created atomically
     return await db.transaction(async (tx) => {
@@ -1565,48 +3082,177 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async getNextInvoiceNumber(): Promise<string> {
+  async getNextInvoiceNumber(type: Invoice["type"] = "PURCHASE"): Promise<string> {
     const year = new Date().getFullYear();
+    // Credit notes are numbered in their own series so invoice numbers stay consecutive
+    const isCreditNote = type === "CREDIT_NOTE";
     const [result] = await db
-      .select({ count: sql<number>`count(*)` })
+      .select({ count: sql<number>`count(*)::int` })
       .from(invoices)
-      .where(sql`EXTRACT(YEAR FROM ${invoices.issueDate}) = ${year}`);
+      .where(and(
+        sql`EXTRACT(YEAR FROM ${invoices.issueDate}) = ${year}`,
+        isCreditNote ? eq(invoices.type, "CREDIT_NOTE") : ne(invoices.type, "CREDIT_NOTE")
+      ));
     const count = (result?.count || 0) + 1;
-    return `AUD-${year}-${String(count).padStart(5, '0')}`;
+    return `${isCreditNote ? "AUD-R" : "AUD"}-${year}-${String(count).padStart(5, '0')}`;
   }
 
-  // Bulk operations
-  async bulkUpdateUsersRole(ids: string[], role: "LISTENER" | "CREATOR" | "ADMIN"): Promise<BulkOperationResult> {
-    const uniqueIds = Array.from(new Set(ids));
-    const successIds: string[] = [];
-    const failed: { id: string; reason: string }[] = [];
+  async getPurchaseInvoice(purchaseId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(and(
+        eq(invoices.purchaseId, purchaseId),
+        eq(invoices.type, "PURCHASE")
+      ))
+      .orderBy(desc(invoices.issueDate))
+      .limit(1);
+    return invoice || undefined;
+  }
 
-    await db.transaction(async (tx) => {
-      const existingUsers = await tx
-        .select({ id: users.id })
-        .from(users)
-        .where(inArray(users.id, uniqueIds));
-      
-      const existingIds = existingUsers.map(u => u.id);
-      
-      for (const id of uniqueIds) {
-        if (!existingIds.includes(id)) {
-          failed.push({ id, reason: "User not found" });
-        }
+  // Refund operations
+  async createPurchaseRefund(refund: InsertPurchaseRefund): Promise<PurchaseRefund> {
+    const [created] = await db
+      .insert(purchaseRefunds)
+      .values(refund)
+      .returning();
+    return created;
+  }
+
+  /**
+   * Insert a refund only if it fits in what's left of the purchase
+   * The purchase row is locked while the balance is summed, so two refunds
+   * started at once can't both pass the check. Without an amount the whole
+   * remaining balance is refunded; with capToBalance the amount is trimmed to
+   * it instead of throwing. Returns null when nothing is left to refund.
+   */
+  async createPurchaseRefundWithinBalance(
+    refund: Omit<InsertPurchaseRefund, "amountCents"> & { amountCents?: number },
+    options: { capToBalance?: boolean } = {}
+  ): Promise<PurchaseRefund | null> {
+    return await db.transaction(async (tx: Transaction) => {
+      const [purchase] = await tx
+        .select({ pricePaidCents: audiobookPurchases.pricePaidCents })
+        .from(audiobookPurchases)
+        .where(eq(audiobookPurchases.id, refund.purchaseId))
+        .for("update");
+      if (!purchase) {
+        throw new Error("Purchase not found");
       }
 
-      if (existingIds.length > 0) {
-        const updated = await tx
-          .update(users)
-          .set({ role })
-          .where(inArray(users.id, existingIds))
-          .returning({ id: users.id });
-        
-        successIds.push(...updated.map(u => u.id));
+      const [refunded] = await tx
+        .select({ total: sql<number>`coalesce(sum(${purchaseRefunds.amountCents}), 0)::int` })
+        .from(purchaseRefunds)
+        .where(and(
+          eq(purchaseRefunds.purchaseId, refund.purchaseId),
+          ne(purchaseRefunds.status, "FAILED")
+        ));
+      const remainingCents = purchase.pricePaidCents - (refunded?.total || 0);
+
+      let amountCents = refund.amountCents ?? remainingCents;
+      if (options.capToBalance) {
+        amountCents = Math.min(amountCents, remainingCents);
+        if (amountCents <= 0) {
+          return null;
+        }
+      } else if (remainingCents <= 0 || amountCents > remainingCents) {
+        throw new Error("Refund amount exceeds the refundable amount");
       }
-    });
 
-    return { successIds, failed };
+      const [created] = await tx
+        .insert(purchaseRefunds)
+        .values({ ...refund, amountCents })
+        .returning();
+      return created;
+    });
+  }
+
+  async updatePurchaseRefund(id: string, data: Partial<InsertPurchaseRefund>): Promise<PurchaseRefund> {
+    const [updated] = await db
+      .update(purchaseRefunds)
+      .set(data)
+      .where(eq(purchaseRefunds.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error("Refund not found");
+    }
+    return updated;
+  }
+
+  // Only one caller wins, so the admin request and the webhook can't both complete the same refund
+  async completePendingPurchaseRefund(id: string): Promise<PurchaseRefund | undefined> {
+    const [completed] = await db
+      .update(purchaseRefunds)
+      .set({ status: "COMPLETED" })
+      .where(and(
+        eq(purchaseRefunds.id, id),
+        eq(purchaseRefunds.status, "PENDING")
+      ))
+      .returning();
+    return completed || undefined;
+  }
+
+  async getPurchaseRefunds(purchaseId: string): Promise<PurchaseRefund[]> {
+    return await db
+      .select()
+      .from(purchaseRefunds)
+      .where(eq(purchaseRefunds.purchaseId, purchaseId))
+      .orderBy(desc(purchaseRefunds.createdAt));
+  }
+
+  async getPurchaseRefundByPayPalId(paypalRefundId: string): Promise<PurchaseRefund | undefined> {
+    const [refund] = await db
+      .select()
+      .from(purchaseRefunds)
+      .where(eq(purchaseRefunds.paypalRefundId, paypalRefundId))
+      .limit(1);
+    return refund || undefined;
+  }
+
+  // Pending refunds count too, so a second request can't refund the same amount while PayPal is processing
+  async getRefundedAmount(purchaseId: string): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${purchaseRefunds.amountCents}), 0)::int` })
+      .from(purchaseRefunds)
+      .where(and(
+        eq(purchaseRefunds.purchaseId, purchaseId),
+        ne(purchaseRefunds.status, "FAILED")
+      ));
+    return result?.total || 0;
+  }
+
+  // Bulk operations
+  async bulkUpdateUsersRole(ids: string[], role: "LISTENER" | "CREATOR" | "ADMIN"): Promise<BulkOperationResult> {
+    const uniqueIds = Array.from(new Set(ids));
+    const successIds: string[] = [];
+    const failed: { id: string; reason: string }[] = [];
+
+    await db.transaction(async (tx) => {
+      const existingUsers = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(inArray(users.id, uniqueIds));
+      
+      const existingIds = existingUsers.map(u => u.id);
+      
+      for (const id of uniqueIds) {
+        if (!existingIds.includes(id)) {
+          failed.push({ id, reason: "User not found" });
+        }
+      }
+
+      if (existingIds.length > 0) {
+        const updated = await tx
+          .update(users)
+          .set({ role })
+          .where(inArray(users.id, existingIds))
+          .returning({ id: users.id });
+        
+        successIds.push(...updated.map(u => u.id));
+      }
+    });
+
+    return { successIds, failed };
   }
 
   async bulkUpdateUsersActive(ids: string[], isActive: boolean): Promise<BulkOperationResult> {
@@ -1636,6 +3282,12 @@ export class DatabaseStorage implements IStorage {
           .returning({ id: users.id });
         
         successIds.push(...updated.map(u => u.id));
+
+        if (!isActive && successIds.length > 0) {
+          await tx
+            .delete(sessions)
+            .where(sql`(${sessions.sess}::json)->>'userId' in (${sql.join(successIds.map((id) => sql`${id}`), sql`, `)})`);
+        }
       }
     });
 
@@ -1968,6 +3620,8 @@ export class DatabaseStorage implements IStorage {
     subscriptionCount: number;
     purchaseRevenueCents: number;
     subscriptionRevenueCents: number;
+    refundCount: number;
+    refundedCents: number;
     averageOrderValueCents: number;
   }> {
     const purchaseInvoices = await db
@@ -2000,13 +3654,34 @@ export class DatabaseStorage implements IStorage {
         )
       );
 
+    // Credit note totals are negative
+    const creditNotes = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        revenue: sql<number>`coalesce(sum(${invoices.totalCents}), 0)::int`,
+      })
+      .from(invoices)
+      .where(
+        and(
+          eq(invoices.type, "CREDIT_NOTE"),
+          or(eq(invoices.status, "ISSUED"), eq(invoices.status, "PAID")),
+          gte(invoices.issueDate, from),
+          lte(invoices.issueDate, to)
+        )
+      );
+
     const purchaseCount = purchaseInvoices[0]?.count || 0;
-    const purchaseRevenueCents = purchaseInvoices[0]?.revenue || 0;
+    const grossPurchaseRevenueCents = purchaseInvoices[0]?.revenue || 0;
     const subscriptionCount = subscriptionInvoices[0]?.count || 0;
     const subscriptionRevenueCents = subscriptionInvoices[0]?.revenue || 0;
+    const refundCount = creditNotes[0]?.count || 0;
+    const refundedCents = -(creditNotes[0]?.revenue || 0);
+    const purchaseRevenueCents = grossPurchaseRevenueCents - refundedCents;
     const totalRevenueCents = purchaseRevenueCents + subscriptionRevenueCents;
     const totalTransactions = purchaseCount + subscriptionCount;
-    const averageOrderValueCents = totalTransactions > 0 ? Math.round(totalRevenueCents / totalTransactions) : 0;
+    const averageOrderValueCents = totalTransactions > 0
+      ? Math.round((grossPurchaseRevenueCents + subscriptionRevenueCents) / totalTransactions)
+      : 0;
 
     return {
       totalRevenueCents,
@@ -2014,6 +3689,8 @@ export class DatabaseStorage implements IStorage {
       subscriptionCount,
       purchaseRevenueCents,
       subscriptionRevenueCents,
+      refundCount,
+      refundedCents,
       averageOrderValueCents,
     };
   }
@@ -2026,6 +3703,7 @@ export class DatabaseStorage implements IStorage {
   }>> {
     const truncInterval = interval === 'day' ? 'day' : interval === 'week' ? 'week' : 'month';
     
+    // Credit notes are netted into purchase revenue on the day they were issued
     const purchaseTrend = await db
       .select({
         date: sql<string>`date_trunc(${truncInterval}, ${invoices.issueDate})::date::text`,
@@ -2034,7 +3712,7 @@ export class DatabaseStorage implements IStorage {
       .from(invoices)
       .where(
         and(
-          eq(invoices.type, "PURCHASE"),
+          inArray(invoices.type, ["PURCHASE", "CREDIT_NOTE"]),
           or(eq(invoices.status, "ISSUED"), eq(invoices.status, "PAID")),
           gte(invoices.issueDate, from),
           lte(invoices.issueDate, to)
@@ -2111,7 +3789,10 @@ export class DatabaseStorage implements IStorage {
 
   async getRecentTransactions(limit: number): Promise<Array<{
     id: string;
-    type: 'purchase' | 'subscription';
+    type: 'purchase' | 'subscription' | 'refund';
+    purchaseId: string | null;
+    pricePaidCents: number | null;
+    refundedCents: number;
     amount: number;
     currency: string;
     userName: string;
@@ -2142,7 +3823,7 @@ export class DatabaseStorage implements IStorage {
     const purchaseIds = allInvoices.filter(i => i.purchaseId).map(i => i.purchaseId!);
     const subscriptionIds = allInvoices.filter(i => i.subscriptionId).map(i => i.subscriptionId!);
 
-    const purchaseNames: Record<string, string> = {};
+    const purchaseDetails: Record<string, { title: string; pricePaidCents: number; refundedCents: number }> = {};
     const subscriptionNames: Record<string, string> = {};
 
     if (purchaseIds.length > 0) {
@@ -2150,13 +3831,15 @@ export class DatabaseStorage implements IStorage {
         .select({
           purchaseId: audiobookPurchases.id,
           title: audiobooks.title,
+          pricePaidCents: audiobookPurchases.pricePaidCents,
+          refundedCents: purchaseRefundedCents,
         })
         .from(audiobookPurchases)
         .innerJoin(audiobooks, eq(audiobookPurchases.audiobookId, audiobooks.id))
         .where(inArray(audiobookPurchases.id, purchaseIds));
       
       for (const p of purchases) {
-        purchaseNames[p.purchaseId] = p.title;
+        purchaseDetails[p.purchaseId] = p;
       }
     }
 
@@ -2178,13 +3861,16 @@ export class DatabaseStorage implements IStorage {
     return allInvoices
       .map(inv => ({
         id: inv.id,
-        type: inv.type === "PURCHASE" ? "purchase" as const : "subscription" as const,
+        type: inv.type === "PURCHASE" ? "purchase" as const : inv.type === "CREDIT_NOTE" ? "refund" as const : "subscription" as const,
+        purchaseId: inv.purchaseId,
+        pricePaidCents: inv.purchaseId ? purchaseDetails[inv.purchaseId]?.pricePaidCents ?? null : null,
+        refundedCents: inv.purchaseId ? purchaseDetails[inv.purchaseId]?.refundedCents ?? 0 : 0,
         amount: inv.amount,
         currency: inv.currency,
         userName: inv.userName,
         userEmail: inv.userEmail,
         itemName: inv.purchaseId 
-          ? purchaseNames[inv.purchaseId] || "Audiolibro" 
+          ? purchaseDetails[inv.purchaseId]?.title || "Audiolibro" 
           : subscriptionNames[inv.subscriptionId!] || "Suscripcion",
         date: inv.date,
         status: inv.status,
@@ -2239,10 +3925,27 @@ export class DatabaseStorage implements IStorage {
       .where(eq(cartItems.userId, userId))
       .orderBy(desc(cartItems.createdAt));
 
-    return items.map(item => ({
+    const cart: CartItemWithAudiobook[] = items.map(item => ({
       ...item.cartItem,
       audiobook: item.audiobook,
+      priceCents: item.audiobook.priceCents,
+      bundleApplied: false,
     }));
+
+    // Bundle pricing only applies while every volume still to buy is in the cart as part of the bundle
+    const bundleSeriesIds = Array.from(new Set(cart.map(item => item.seriesId).filter((id): id is string => !!id)));
+    for (const seriesId of bundleSeriesIds) {
+      const quote = await this.getSeriesBundleQuote(userId, seriesId);
+      if (!quote) continue;
+
+      const bundled = cart.filter(item => item.seriesId === seriesId);
+      const bundledIds = new Set(bundled.map(item => item.audiobookId));
+      if (quote.audiobooks.every(audiobook => bundledIds.has(audiobook.id))) {
+        applyBundlePrice(bundled.filter(item => quote.audiobooks.some(audiobook => audiobook.id === item.audiobookId)), quote);
+      }
+    }
+
+    return cart;
   }
 
   async addToCart(userId: string, audiobookId: string): Promise<CartItem> {
@@ -2262,6 +3965,33 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
+  async addSeriesBundleToCart(userId: string, seriesId: string, audiobookIds: string[]): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      // Volumes already in the cart on their own become part of the bundle
+      await tx
+        .update(cartItems)
+        .set({ seriesId })
+        .where(and(eq(cartItems.userId, userId), inArray(cartItems.audiobookId, audiobookIds)));
+
+      const existing = await tx
+        .select({ audiobookId: cartItems.audiobookId })
+        .from(cartItems)
+        .where(and(eq(cartItems.userId, userId), inArray(cartItems.audiobookId, audiobookIds)));
+      const existingIds = new Set(existing.map((item: { audiobookId: string }) => item.audiobookId));
+
+      const missing = audiobookIds.filter(id => !existingIds.has(id));
+      if (missing.length > 0) {
+        await tx.insert(cartItems).values(missing.map(audiobookId => ({ userId, audiobookId, seriesId })));
+      }
+    });
+  }
+
+  async removeSeriesBundleFromCart(userId: string, seriesId: string): Promise<void> {
+    await db
+      .delete(cartItems)
+      .where(and(eq(cartItems.userId, userId), eq(cartItems.seriesId, seriesId)));
+  }
+
   async removeFromCart(userId: string, audiobookId: string): Promise<void> {
     await db
       .delete(cartItems)
@@ -2282,7 +4012,7 @@ export class DatabaseStorage implements IStorage {
 
   async getCartTotal(userId: string): Promise<{ totalCents: number; itemCount: number; currency: string }> {
     const items = await this.getCartItems(userId);
-    const totalCents = items.reduce((sum, item) => sum + item.audiobook.priceCents, 0);
+    const totalCents = items.reduce((sum, item) => sum + item.priceCents, 0);
     return {
       totalCents,
       itemCount: items.length,
@@ -2290,6 +4020,689 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async setCartItemGift(userId: string, audiobookId: string, gift: CartGiftRequest | null): Promise<CartItem | undefined> {
+    const [item] = await db
+      .update(cartItems)
+      .set({
+        giftRecipientEmail: gift?.recipientEmail ?? null,
+        giftMessage: gift?.message || null,
+      })
+      .where(and(eq(cartItems.userId, userId), eq(cartItems.audiobookId, audiobookId)))
+      .returning();
+    return item || undefined;
+  }
+
+  // Gift operations
+  async markPurchaseAsGift(purchaseId: string, gift: { giftedByUserId: string; giftRecipientEmail: string; giftMessage: string | null; giftToken: string }): Promise<AudiobookPurchase> {
+    const [purchase] = await db
+      .update(audiobookPurchases)
+      .set(gift)
+      .where(eq(audiobookPurchases.id, purchaseId))
+      .returning();
+    if (!purchase) {
+      throw new Error("Purchase not found");
+    }
+    return purchase;
+  }
+
+  async getGiftByToken(token: string): Promise<(AudiobookPurchase & { audiobook: Audiobook; sender: User }) | undefined> {
+    const [row] = await db
+      .select({
+        purchase: audiobookPurchases,
+        audiobook: audiobooks,
+        sender: users,
+      })
+      .from(audiobookPurchases)
+      .innerJoin(audiobooks, eq(audiobookPurchases.audiobookId, audiobooks.id))
+      .innerJoin(users, eq(audiobookPurchases.giftedByUserId, users.id))
+      .where(eq(audiobookPurchases.giftToken, token));
+    return row ? { ...row.purchase, audiobook: row.audiobook, sender: row.sender } : undefined;
+  }
+
+  async redeemGift(token: string, userId: string): Promise<AudiobookPurchase> {
+    const [gift] = await db.select().from(audiobookPurchases).where(eq(audiobookPurchases.giftToken, token));
+    if (!gift) {
+      throw new Error("Gift not found");
+    }
+    if (gift.giftRedeemedAt) {
+      throw new Error("Gift already redeemed");
+    }
+    if (gift.status !== "COMPLETED") {
+      throw new Error("Gift is no longer valid");
+    }
+    if (await this.hasPurchasedAudiobook(userId, gift.audiobookId)) {
+      throw new Error("Audiobook already owned");
+    }
+
+    // Conditional update so two redeem requests with the same token can't both succeed
+    const [redeemed] = await db
+      .update(audiobookPurchases)
+      .set({ userId, giftRedeemedAt: new Date() })
+      .where(and(
+        eq(audiobookPurchases.id, gift.id),
+        isNull(audiobookPurchases.giftRedeemedAt),
+        eq(audiobookPurchases.status, "COMPLETED")
+      ))
+      .returning();
+    if (!redeemed) {
+      throw new Error("Gift already redeemed");
+    }
+
+    // The recipient may have had the audiobook in their own cart
+    await this.removeFromCart(userId, gift.audiobookId);
+    return redeemed;
+  }
+
+  // Content invitation operations
+  async createContentInvitation(data: InsertContentInvitation): Promise<ContentInvitation> {
+    const [invitation] = await db.insert(contentInvitations).values(data).returning();
+    return invitation;
+  }
+
+  async getContentInvitation(id: string): Promise<ContentInvitation | undefined> {
+    const [invitation] = await db.select().from(contentInvitations).where(eq(contentInvitations.id, id));
+    return invitation || undefined;
+  }
+
+  async getContentInvitationByToken(token: string): Promise<ContentInvitation | undefined> {
+    const [invitation] = await db.select().from(contentInvitations).where(eq(contentInvitations.token, token));
+    return invitation || undefined;
+  }
+
+  async getContentInvitationsByPodcast(audiobookId: string): Promise<ContentInvitation[]> {
+    return await db
+      .select()
+      .from(contentInvitations)
+      .where(eq(contentInvitations.audiobookId, audiobookId))
+      .orderBy(desc(contentInvitations.createdAt));
+  }
+
+  async getContentInvitationsByEpisode(chapterId: string): Promise<ContentInvitation[]> {
+    return await db
+      .select()
+      .from(contentInvitations)
+      .where(eq(contentInvitations.chapterId, chapterId))
+      .orderBy(desc(contentInvitations.createdAt));
+  }
+
+  // Pending or accepted invitation for the email, so the same person isn't invited twice
+  async getActiveContentInvitation(email: string, target: { audiobookId?: string; chapterId?: string }): Promise<ContentInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(contentInvitations)
+      .where(and(
+        eq(contentInvitations.email, email.toLowerCase()),
+        target.chapterId
+          ? eq(contentInvitations.chapterId, target.chapterId)
+          : eq(contentInvitations.audiobookId, target.audiobookId!),
+        inArray(contentInvitations.status, ["PENDING", "ACCEPTED"]),
+        or(isNull(contentInvitations.expiresAt), gte(contentInvitations.expiresAt, new Date()))
+      ));
+    return invitation || undefined;
+  }
+
+  async acceptContentInvitation(token: string, user: User): Promise<ContentInvitation> {
+    const invitation = await this.getContentInvitationByToken(token);
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+    if (invitation.status === "ACCEPTED") {
+      throw new Error("Invitation already accepted");
+    }
+    if (invitation.status !== "PENDING" || (invitation.expiresAt && invitation.expiresAt < new Date())) {
+      throw new Error("Invitation is no longer valid");
+    }
+    // The link only works for the account it was sent to
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new Error("Invitation was sent to a different email");
+    }
+
+    // Conditional update so a revoke racing the acceptance wins
+    const [accepted] = await db
+      .update(contentInvitations)
+      .set({ status: "ACCEPTED", acceptedBy: user.id, acceptedAt: new Date() })
+      .where(and(eq(contentInvitations.id, invitation.id), eq(contentInvitations.status, "PENDING")))
+      .returning();
+    if (!accepted) {
+      throw new Error("Invitation is no longer valid");
+    }
+    return accepted;
+  }
+
+  async revokeContentInvitation(id: string): Promise<ContentInvitation> {
+    const [invitation] = await db
+      .update(contentInvitations)
+      .set({ status: "REVOKED", revokedAt: new Date() })
+      .where(eq(contentInvitations.id, id))
+      .returning();
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+    return invitation;
+  }
+
+  // Mark invitations past their expiry; access checks already ignore them, this keeps the status honest
+  async expireContentInvitations(): Promise<number> {
+    const expired = await db
+      .update(contentInvitations)
+      .set({ status: "EXPIRED" })
+      .where(and(
+        inArray(contentInvitations.status, ["PENDING", "ACCEPTED"]),
+        lt(contentInvitations.expiresAt, new Date())
+      ))
+      .returning({ id: contentInvitations.id });
+    return expired.length;
+  }
+
+  private async hasAcceptedInvitation(userId: string, target: { audiobookId?: string; chapterId?: string }): Promise<boolean> {
+    const [invitation] = await db
+      .select({ id: contentInvitations.id })
+      .from(contentInvitations)
+      .where(and(
+        eq(contentInvitations.acceptedBy, userId),
+        eq(contentInvitations.status, "ACCEPTED"),
+        target.chapterId
+          ? eq(contentInvitations.chapterId, target.chapterId)
+          : eq(contentInvitations.audiobookId, target.audiobookId!),
+        or(isNull(contentInvitations.expiresAt), gte(contentInvitations.expiresAt, new Date()))
+      ))
+      .limit(1);
+    return !!invitation;
+  }
+
+  private async isPublisherOrAdmin(userId: string, audiobook: Audiobook): Promise<boolean> {
+    if (audiobook.publisherId === userId) return true;
+    const user = await this.getUser(userId);
+    return user?.role === "ADMIN";
+  }
+
+  // Visibility access: PUBLIC audiobooks are open to everyone, PRIVATE and UNLISTED ones
+  // to their publisher, admins and users who accepted an invitation
+  async checkUserHasAccessToPodcast(userId: string | undefined, audiobookId: string): Promise<boolean> {
+    const audiobook = await this.getAudiobook(audiobookId);
+    if (!audiobook) return false;
+    if (audiobook.visibility === "PUBLIC") return true;
+    if (!userId) return false;
+
+    return await this.isPublisherOrAdmin(userId, audiobook)
+      || await this.hasAcceptedInvitation(userId, { audiobookId });
+  }
+
+  // A chapter invitation opens that chapter even inside a private audiobook;
+  // otherwise the chapter needs to be visible and so does its audiobook
+  async checkUserHasAccessToEpisode(userId: string | undefined, chapterId: string): Promise<boolean> {
+    const chapter = await this.getChapterWithAudiobook(chapterId);
+    if (!chapter) return false;
+
+    if (userId) {
+      if (await this.isPublisherOrAdmin(userId, chapter.audiobook)) return true;
+      if (await this.hasAcceptedInvitation(userId, { chapterId })) return true;
+    }
+
+    if (!await this.checkUserHasAccessToPodcast(userId, chapter.audiobookId)) return false;
+    if (chapter.visibility === "PUBLIC") return true;
+    // An invitation to the whole audiobook covers its non-public chapters
+    return !!userId && await this.hasAcceptedInvitation(userId, { audiobookId: chapter.audiobookId });
+  }
+
+  // Household operations
+  async getHouseholdMember(id: string): Promise<HouseholdMember | undefined> {
+    const [member] = await db.select().from(householdMembers).where(eq(householdMembers.id, id));
+    return member || undefined;
+  }
+
+  async getHouseholdMemberByToken(token: string): Promise<HouseholdMember | undefined> {
+    const [member] = await db.select().from(householdMembers).where(eq(householdMembers.token, token));
+    return member || undefined;
+  }
+
+  // Accepted members and invitations that can still be accepted, oldest first
+  async getHouseholdMembers(ownerId: string): Promise<HouseholdMemberWithUser[]> {
+    const rows = await db
+      .select({ member: householdMembers, username: users.username })
+      .from(householdMembers)
+      .leftJoin(users, eq(householdMembers.userId, users.id))
+      .where(and(
+        eq(householdMembers.ownerId, ownerId),
+        or(
+          eq(householdMembers.status, "ACCEPTED"),
+          and(eq(householdMembers.status, "PENDING"), gte(householdMembers.expiresAt, new Date()))
+        )
+      ))
+      .orderBy(asc(householdMembers.createdAt));
+    return rows.map((row: { member: HouseholdMember; username: string | null }) => ({ ...row.member, username: row.username }));
+  }
+
+  async getHouseholdMembership(userId: string): Promise<HouseholdMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(householdMembers)
+      .where(and(eq(householdMembers.userId, userId), eq(householdMembers.status, "ACCEPTED")))
+      .limit(1);
+    return member || undefined;
+  }
+
+  // Households come with family plans: the owner's plan sets the size, and members
+  // share the subscription as well as purchases. Without one there is no household
+  async getHouseholdAllowance(ownerId: string): Promise<HouseholdAllowance> {
+    const subscription = await this.hasActiveSubscription(ownerId) ? await this.getUserSubscription(ownerId) : undefined;
+    const plan = subscription ? await this.getSubscriptionPlan(subscription.planId) : undefined;
+    const subscriptionMembers = plan?.maxHouseholdMembers ?? 0;
+    return {
+      maxMembers: subscriptionMembers,
+      subscriptionMembers,
+    };
+  }
+
+  // Owner whose purchases the user shares. Members are ranked by when they joined,
+  // so after a downgrade only the earliest ones keep sharing.
+  async getHouseholdSharing(userId: string): Promise<{ ownerId: string; sharesSubscription: boolean } | null> {
+    const membership = await this.getHouseholdMembership(userId);
+    if (!membership) return null;
+
+    const allowance = await this.getHouseholdAllowance(membership.ownerId);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(householdMembers)
+      .where(and(
+        eq(householdMembers.ownerId, membership.ownerId),
+        eq(householdMembers.status, "ACCEPTED"),
+        lt(householdMembers.acceptedAt, membership.acceptedAt!)
+      ));
+    if (count >= allowance.maxMembers) return null;
+    return { ownerId: membership.ownerId, sharesSubscription: count < allowance.subscriptionMembers };
+  }
+
+  async createHouseholdInvitation(data: InsertHouseholdMember): Promise<HouseholdMember> {
+    const [member] = await db.insert(householdMembers).values(data).returning();
+    return member;
+  }
+
+  async acceptHouseholdInvitation(token: string, user: User): Promise<HouseholdMember> {
+    const invitation = await this.getHouseholdMemberByToken(token);
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+    if (invitation.status === "ACCEPTED") {
+      throw new Error("Invitation already accepted");
+    }
+    if (invitation.status !== "PENDING" || invitation.expiresAt < new Date()) {
+      throw new Error("Invitation is no longer valid");
+    }
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new Error("Invitation was sent to a different email");
+    }
+    // One household per person, and sharing doesn't chain through owners
+    if (await this.getHouseholdMembership(user.id)) {
+      throw new Error("Already a member of a household");
+    }
+    const ownMembers = await this.getHouseholdMembers(user.id);
+    if (ownMembers.some(member => member.status === "ACCEPTED")) {
+      throw new Error("Household owners cannot join another household");
+    }
+    const { maxMembers } = await this.getHouseholdAllowance(invitation.ownerId);
+
+    // The owner's row is locked so two invitations accepted at once can't both take the last place
+    return await db.transaction(async (tx: Transaction) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, invitation.ownerId)).for("update");
+
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(householdMembers)
+        .where(and(eq(householdMembers.ownerId, invitation.ownerId), eq(householdMembers.status, "ACCEPTED")));
+      if (count >= maxMembers) {
+        throw new Error("Household is full");
+      }
+
+      // Conditional update so a removal racing the acceptance wins
+      const [accepted] = await tx
+        .update(householdMembers)
+        .set({ status: "ACCEPTED", userId: user.id, acceptedAt: new Date() })
+        .where(and(eq(householdMembers.id, invitation.id), eq(householdMembers.status, "PENDING")))
+        .returning();
+      if (!accepted) {
+        throw new Error("Invitation is no longer valid");
+      }
+      return accepted;
+    });
+  }
+
+  // Used both for the owner removing someone and for a member leaving
+  async removeHouseholdMember(id: string): Promise<HouseholdMember> {
+    const [member] = await db
+      .update(householdMembers)
+      .set({ status: "REVOKED", revokedAt: new Date() })
+      .where(eq(householdMembers.id, id))
+      .returning();
+    if (!member) {
+      throw new Error("Household member not found");
+    }
+    return member;
+  }
+
+  // Purchases and subscription the user can listen with, their own plus what the household shares
+  async getEntitlements(userId: string): Promise<{ purchasedAudiobookIds: string[]; subscription: UserSubscription | undefined }> {
+    const purchasedAudiobookIds = (await this.getUserPurchases(userId)).map(purchase => purchase.audiobookId);
+    let subscription = await this.getUserActiveSubscription(userId);
+
+    const sharing = await this.getHouseholdSharing(userId);
+    if (sharing) {
+      const ownerPurchases = await this.getUserPurchases(sharing.ownerId);
+      purchasedAudiobookIds.push(...ownerPurchases.map(purchase => purchase.audiobookId));
+      if (!subscription && sharing.sharesSubscription) {
+        subscription = await this.getUserActiveSubscription(sharing.ownerId);
+      }
+    }
+
+    return { purchasedAudiobookIds: Array.from(new Set(purchasedAudiobookIds)), subscription };
+  }
+
+  // Review operations
+  async getReview(id: string): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    return review || undefined;
+  }
+
+  async getReviewByUserAndAudiobook(userId: string, audiobookId: string): Promise<Review | undefined> {
+    const [review] = await db
+      .select()
+      .from(reviews)
+      .where(and(eq(reviews.userId, userId), eq(reviews.audiobookId, audiobookId)));
+    return review || undefined;
+  }
+
+  async getApprovedReviewsByAudiobook(audiobookId: string): Promise<ReviewWithUser[]> {
+    const rows = await db
+      .select({
+        review: reviews,
+        user: { id: users.id, username: users.username },
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .where(and(eq(reviews.audiobookId, audiobookId), eq(reviews.status, "APPROVED")))
+      .orderBy(desc(reviews.createdAt));
+    return rows.map((row: { review: Review; user: ReviewWithUser["user"] }) => ({ ...row.review, user: row.user }));
+  }
+
+  async getReviewSummary(audiobookId: string): Promise<ReviewSummary> {
+    const [summary] = await db
+      .select({
+        ratingAverage: sql<string | null>`round(avg(${reviews.rating}), 2)`,
+        ratingCount: sql<number>`count(*)::int`,
+        storyAverage: sql<string | null>`round(avg(${reviews.storyRating}), 2)`,
+        narrationAverage: sql<string | null>`round(avg(${reviews.narrationRating}), 2)`,
+        distribution: sql<number[]>`ARRAY[${sql.join([1, 2, 3, 4, 5].map(stars => sql`count(*) filter (where ${reviews.rating} = ${stars})::int`), sql`, `)}]`,
+      })
+      .from(reviews)
+      .where(and(eq(reviews.audiobookId, audiobookId), eq(reviews.status, "APPROVED")));
+
+    return {
+      ratingAverage: summary.ratingAverage ? parseFloat(summary.ratingAverage) : 0,
+      ratingCount: summary.ratingCount,
+      storyAverage: summary.storyAverage ? parseFloat(summary.storyAverage) : null,
+      narrationAverage: summary.narrationAverage ? parseFloat(summary.narrationAverage) : null,
+      distribution: summary.distribution,
+    };
+  }
+
+  async getReviewsForModeration(status?: Review["status"]): Promise<ReviewWithAudiobook[]> {
+    const rows = await db
+      .select({
+        review: reviews,
+        user: { id: users.id, username: users.username },
+        audiobook: { id: audiobooks.id, title: audiobooks.title },
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .innerJoin(audiobooks, eq(reviews.audiobookId, audiobooks.id))
+      .where(status ? eq(reviews.status, status) : undefined)
+      .orderBy(desc(reviews.updatedAt));
+    return rows.map((row: { review: Review; user: ReviewWithUser["user"]; audiobook: ReviewWithAudiobook["audiobook"] }) => ({ ...row.review, user: row.user, audiobook: row.audiobook }));
+  }
+
+  // Text needs a moderator's look; a bare star rating doesn't
+  private getReviewStatus(input: ReviewInput): Review["status"] {
+    return input.body ? "PENDING_APPROVAL" : "APPROVED";
+  }
+
+  async createReview(userId: string, audiobookId: string, input: ReviewInput): Promise<Review> {
+    if (await this.getReviewByUserAndAudiobook(userId, audiobookId)) {
+      throw new Error("Review already exists");
+    }
+
+    const [review] = await db
+      .insert(reviews)
+      .values({
+        userId,
+        audiobookId,
+        rating: input.rating,
+        storyRating: input.storyRating ?? null,
+        narrationRating: input.narrationRating ?? null,
+        body: input.body ?? null,
+        isVerifiedPurchase: await this.hasPurchasedAudiobook(userId, audiobookId),
+        status: this.getReviewStatus(input),
+      })
+      .returning();
+    await this.refreshAudiobookRating(audiobookId);
+    return review;
+  }
+
+  // Edited reviews go back through moderation, and pick up purchases made since
+  async updateReview(id: string, input: ReviewInput): Promise<Review> {
+    const existing = await this.getReview(id);
+    if (!existing) {
+      throw new Error("Review not found");
+    }
+
+    const [review] = await db
+      .update(reviews)
+      .set({
+        rating: input.rating,
+        storyRating: input.storyRating ?? null,
+        narrationRating: input.narrationRating ?? null,
+        body: input.body ?? null,
+        isVerifiedPurchase: await this.hasPurchasedAudiobook(existing.userId, existing.audiobookId),
+        status: this.getReviewStatus(input),
+        moderatedAt: null,
+        moderatedBy: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(reviews.id, id))
+      .returning();
+    await this.refreshAudiobookRating(review.audiobookId);
+    return review;
+  }
+
+  async deleteReview(id: string): Promise<void> {
+    const [review] = await db.delete(reviews).where(eq(reviews.id, id)).returning();
+    if (review) {
+      await this.refreshAudiobookRating(review.audiobookId);
+    }
+  }
+
+  async moderateReview(id: string, status: "APPROVED" | "REJECTED", moderatorId: string): Promise<Review> {
+    const [review] = await db
+      .update(reviews)
+      .set({ status, moderatedAt: new Date(), moderatedBy: moderatorId })
+      .where(eq(reviews.id, id))
+      .returning();
+    if (!review) {
+      throw new Error("Review not found");
+    }
+    await this.refreshAudiobookRating(review.audiobookId);
+    return review;
+  }
+
+  // Recompute the rating copy on the audiobook from its approved reviews
+  private async refreshAudiobookRating(audiobookId: string): Promise<void> {
+    const approved = and(eq(reviews.audiobookId, audiobookId), eq(reviews.status, "APPROVED"));
+    await db
+      .update(audiobooks)
+      .set({
+        ratingAverage: sql`coalesce((select round(avg(${reviews.rating}), 2) from ${reviews} where ${approved}), 0)`,
+        ratingCount: sql`(select count(*) from ${reviews} where ${approved})::int`,
+      })
+      .where(eq(audiobooks.id, audiobookId));
+  }
+
+  // Bookmark operations
+  async getBookmark(id: string): Promise<Bookmark | undefined> {
+    const [bookmark] = await db.select().from(bookmarks).where(eq(bookmarks.id, id));
+    return bookmark || undefined;
+  }
+
+  async getBookmarkByShareToken(token: string): Promise<Bookmark | undefined> {
+    const [bookmark] = await db.select().from(bookmarks).where(eq(bookmarks.shareToken, token));
+    return bookmark || undefined;
+  }
+
+  async getBookmarksByChapter(userId: string, chapterId: string): Promise<Bookmark[]> {
+    return await db
+      .select()
+      .from(bookmarks)
+      .where(and(eq(bookmarks.userId, userId), eq(bookmarks.chapterId, chapterId)))
+      .orderBy(asc(bookmarks.positionSeconds));
+  }
+
+  // In listening order: by chapter, then position
+  async getBookmarksByAudiobook(userId: string, audiobookId: string): Promise<BookmarkWithChapter[]> {
+    const rows = await db
+      .select({
+        bookmark: bookmarks,
+        chapter: { id: chapters.id, title: chapters.title, chapterNumber: chapters.chapterNumber },
+      })
+      .from(bookmarks)
+      .innerJoin(chapters, eq(bookmarks.chapterId, chapters.id))
+      .where(and(eq(bookmarks.userId, userId), eq(bookmarks.audiobookId, audiobookId)))
+      .orderBy(asc(chapters.chapterNumber), asc(bookmarks.positionSeconds));
+    return rows.map((row: { bookmark: Bookmark; chapter: BookmarkWithChapter["chapter"] }) => ({ ...row.bookmark, chapter: row.chapter }));
+  }
+
+  async createBookmark(data: InsertBookmark): Promise<Bookmark> {
+    const [bookmark] = await db.insert(bookmarks).values(data).returning();
+    return bookmark;
+  }
+
+  async updateBookmark(id: string, updates: Partial<Pick<Bookmark, "positionSeconds" | "endPositionSeconds" | "note" | "shareToken" | "clipAssetId">>): Promise<Bookmark> {
+    const [bookmark] = await db
+      .update(bookmarks)
+      .set(updates)
+      .where(eq(bookmarks.id, id))
+      .returning();
+    if (!bookmark) {
+      throw new Error("Bookmark not found");
+    }
+    return bookmark;
+  }
+
+  // Sets the share token unless the user already shares the most clips allowed in the chapter
+  async shareBookmark(id: string, shareToken: string, maxSharedPerChapter: number): Promise<Bookmark | undefined> {
+    const [bookmark] = await db
+      .update(bookmarks)
+      .set({ shareToken })
+      .where(and(
+        eq(bookmarks.id, id),
+        isNull(bookmarks.shareToken),
+        sql`(
+          select count(*) from ${bookmarks} as shared
+          where shared.user_id = ${bookmarks.userId}
+            and shared.chapter_id = ${bookmarks.chapterId}
+            and shared.share_token is not null
+        ) < ${maxSharedPerChapter}`
+      ))
+      .returning();
+    return bookmark || undefined;
+  }
+
+  async deleteBookmark(id: string): Promise<void> {
+    await db.delete(bookmarks).where(eq(bookmarks.id, id));
+  }
+
+  // Transcript operations
+  async getChapterTranscript(chapterId: string): Promise<ChapterTranscript | undefined> {
+    const [transcript] = await db.select().from(chapterTranscripts).where(eq(chapterTranscripts.chapterId, chapterId));
+    return transcript || undefined;
+  }
+
+  async getChapterTranscriptWithCues(chapterId: string): Promise<ChapterTranscriptWithCues | undefined> {
+    const transcript = await this.getChapterTranscript(chapterId);
+    if (!transcript) return undefined;
+
+    const cues = await db
+      .select({ startMs: transcriptCues.startMs, endMs: transcriptCues.endMs, text: transcriptCues.text })
+      .from(transcriptCues)
+      .where(eq(transcriptCues.transcriptId, transcript.id))
+      .orderBy(asc(transcriptCues.position));
+    return { ...transcript, cues };
+  }
+
+  // Replaces the chapter's transcript, if any
+  async saveChapterTranscript(data: InsertChapterTranscript, cues: TranscriptCueData[]): Promise<ChapterTranscript> {
+    return await db.transaction(async (tx: Transaction) => {
+      const [existing] = await tx.select().from(chapterTranscripts).where(eq(chapterTranscripts.chapterId, data.chapterId));
+
+      let transcript: ChapterTranscript;
+      if (existing) {
+        await tx.delete(transcriptCues).where(eq(transcriptCues.transcriptId, existing.id));
+        [transcript] = await tx
+          .update(chapterTranscripts)
+          .set({ ...data, updatedAt: new Date() })
+          .where(eq(chapterTranscripts.id, existing.id))
+          .returning();
+      } else {
+        [transcript] = await tx.insert(chapterTranscripts).values(data).returning();
+      }
+
+      // Batched to stay under the bind parameter limit
+      for (let offset = 0; offset < cues.length; offset += 1000) {
+        await tx.insert(transcriptCues).values(cues.slice(offset, offset + 1000).map((cue, index) => ({
+          ...cue,
+          transcriptId: transcript.id,
+          chapterId: data.chapterId,
+          position: offset + index,
+        })));
+      }
+
+      return transcript;
+    });
+  }
+
+  async deleteChapterTranscript(chapterId: string): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      await tx.delete(transcriptCues).where(eq(transcriptCues.chapterId, chapterId));
+      await tx.delete(chapterTranscripts).where(eq(chapterTranscripts.chapterId, chapterId));
+    });
+  }
+
+  // Best matches first; only approved chapters, and only public books unless one audiobook is searched
+  async searchTranscripts(params: TranscriptSearchParams): Promise<TranscriptSearchHit[]> {
+    const tsQuery = buildSearchTsQuery(params.q);
+    if (!tsQuery) return [];
+
+    const searchVector = transcriptCueSearchVector(transcriptCues);
+    const query = sql`to_tsquery('simple', ${tsQuery})`;
+    const scope = params.audiobookId
+      ? [eq(audiobooks.id, params.audiobookId)]
+      : [eq(audiobooks.visibility, "PUBLIC"), eq(chapters.visibility, "PUBLIC"), eq(audiobooks.status, "APPROVED")];
+
+    return await db
+      .select({
+        chapterId: chapters.id,
+        chapterTitle: chapters.title,
+        chapterNumber: chapters.chapterNumber,
+        audiobookId: audiobooks.id,
+        audiobookTitle: audiobooks.title,
+        startMs: transcriptCues.startMs,
+        text: transcriptCues.text,
+      })
+      .from(transcriptCues)
+      .innerJoin(chapters, eq(transcriptCues.chapterId, chapters.id))
+      .innerJoin(audiobooks, eq(chapters.audiobookId, audiobooks.id))
+      .where(and(sql`${searchVector} @@ ${query}`, eq(chapters.status, "APPROVED"), ...scope))
+      .orderBy(desc(sql`ts_rank(${searchVector}, ${query})`), asc(chapters.chapterNumber), asc(transcriptCues.position))
+      .limit(params.limit);
+  }
+
   // Admin customer management operations
   async getCustomersWithStats(filters?: { search?: string; role?: string; hasProfile?: boolean }): Promise<Array<{
     user: User;
@@ -2354,7 +4767,7 @@ export class DatabaseStorage implements IStorage {
   async getCustomerDetail(userId: string): Promise<{
     user: User;
     billingProfile: BillingProfile | null;
-    purchases: Array<AudiobookPurchase & { audiobook: Audiobook }>;
+    purchases: Array<AudiobookPurchase & { audiobook: Audiobook; refundedCents: number }>;
     invoices: Invoice[];
     subscription: UserSubscription | null;
     stats: { totalPurchases: number; totalSpentCents: number; lastPurchaseAt: Date | null };
@@ -2368,6 +4781,7 @@ export class DatabaseStorage implements IStorage {
       .select({
         purchase: audiobookPurchases,
         audiobook: audiobooks,
+        refundedCents: purchaseRefundedCents,
       })
       .from(audiobookPurchases)
       .innerJoin(audiobooks, eq(audiobookPurchases.audiobookId, audiobooks.id))
@@ -2394,7 +4808,7 @@ export class DatabaseStorage implements IStorage {
     return {
       user,
       billingProfile: profile || null,
-      purchases: purchasesData.map(p => ({ ...p.purchase, audiobook: p.audiobook })),
+      purchases: purchasesData.map(p => ({ ...p.purchase, audiobook: p.audiobook, refundedCents: p.refundedCents })),
       invoices: userInvoices,
       subscription: subscription || null,
       stats: {
@@ -2520,7 +4934,7 @@ export class DatabaseStorage implements IStorage {
     status?: string;
     userId?: string;
     search?: string;
-  }): Promise<Array<AudiobookPurchase & { user: User; audiobook: Audiobook }>> {
+  }): Promise<Array<AudiobookPurchase & { user: User; audiobook: Audiobook; refundedCents: number }>> {
     const conditions: any[] = [];
     
     if (filters?.status) {
@@ -2536,6 +4950,7 @@ export class DatabaseStorage implements IStorage {
         purchase: audiobookPurchases,
         user: users,
         audiobook: audiobooks,
+        refundedCents: purchaseRefundedCents,
       })
       .from(audiobookPurchases)
       .innerJoin(users, eq(audiobookPurchases.userId, users.id))
@@ -2551,6 +4966,7 @@ export class DatabaseStorage implements IStorage {
       ...d.purchase,
       user: d.user,
       audiobook: d.audiobook,
+      refundedCents: d.refundedCents,
     }));
 
     if (filters?.search) {
@@ -2692,6 +5108,310 @@ export class DatabaseStorage implements IStorage {
     return usage;
   }
 
+  // Tax rule operations
+  async getAllTaxRules(): Promise<TaxRule[]> {
+    return await db.select().from(taxRules).orderBy(taxRules.country, taxRules.region, taxRules.customerType);
+  }
+
+  async getActiveTaxRules(): Promise<TaxRule[]> {
+    return await db.select().from(taxRules).where(eq(taxRules.isActive, true));
+  }
+
+  async getTaxRule(id: string): Promise<TaxRule | undefined> {
+    const [rule] = await db.select().from(taxRules).where(eq(taxRules.id, id));
+    return rule || undefined;
+  }
+
+  async createTaxRule(data: InsertTaxRule): Promise<TaxRule> {
+    const [rule] = await db.insert(taxRules).values(data).returning();
+    return rule;
+  }
+
+  async updateTaxRule(id: string, data: Partial<InsertTaxRule>): Promise<TaxRule> {
+    const [updated] = await db
+      .update(taxRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(taxRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTaxRule(id: string): Promise<void> {
+    await db.delete(taxRules).where(eq(taxRules.id, id));
+  }
+
+  async isTaxRuleInUse(id: string): Promise<boolean> {
+    const [invoice] = await db
+      .select({ id: invoices.id })
+      .from(invoices)
+      .where(eq(invoices.taxRuleId, id))
+      .limit(1);
+    return !!invoice;
+  }
+
+  // Royalty operations
+  async getRoyaltyRates(): Promise<RoyaltyRateWithTarget[]> {
+    const rows = await db
+      .select({ rate: royaltyRates, publisherName: users.username, audiobookTitle: audiobooks.title })
+      .from(royaltyRates)
+      .leftJoin(users, eq(users.id, royaltyRates.publisherId))
+      .leftJoin(audiobooks, eq(audiobooks.id, royaltyRates.audiobookId))
+      .orderBy(asc(royaltyRates.createdAt));
+    return rows.map((row: { rate: RoyaltyRate; publisherName: string | null; audiobookTitle: string | null }) => ({
+      ...row.rate,
+      publisherName: row.publisherName,
+      audiobookTitle: row.audiobookTitle,
+    }));
+  }
+
+  async getRoyaltyRate(id: string): Promise<RoyaltyRate | undefined> {
+    const [rate] = await db.select().from(royaltyRates).where(eq(royaltyRates.id, id));
+    return rate || undefined;
+  }
+
+  // The audiobook's own rate, else its publisher's; undefined means the default rate
+  async getRoyaltyRateFor(audiobook: Pick<Audiobook, "id" | "publisherId">): Promise<number | undefined> {
+    const rates = await db
+      .select()
+      .from(royaltyRates)
+      .where(or(eq(royaltyRates.audiobookId, audiobook.id), eq(royaltyRates.publisherId, audiobook.publisherId)));
+    const rate = rates.find((r: RoyaltyRate) => r.audiobookId === audiobook.id)
+      || rates.find((r: RoyaltyRate) => r.publisherId === audiobook.publisherId);
+    return rate?.rateBasisPoints;
+  }
+
+  async createRoyaltyRate(data: InsertRoyaltyRate): Promise<RoyaltyRate> {
+    const [rate] = await db.insert(royaltyRates).values(data).returning();
+    return rate;
+  }
+
+  async updateRoyaltyRate(id: string, rateBasisPoints: number): Promise<RoyaltyRate> {
+    const [rate] = await db
+      .update(royaltyRates)
+      .set({ rateBasisPoints, updatedAt: new Date() })
+      .where(eq(royaltyRates.id, id))
+      .returning();
+    if (!rate) {
+      throw new Error("Royalty rate not found");
+    }
+    return rate;
+  }
+
+  async deleteRoyaltyRate(id: string): Promise<void> {
+    await db.delete(royaltyRates).where(eq(royaltyRates.id, id));
+  }
+
+  // Rows already in the ledger (same sale, refund or pool share) are skipped
+  async createCreatorEarnings(rows: InsertCreatorEarning[]): Promise<CreatorEarning[]> {
+    if (rows.length === 0) return [];
+    return await db.insert(creatorEarnings).values(rows).onConflictDoNothing().returning();
+  }
+
+  async getSaleEarning(purchaseId: string): Promise<CreatorEarning | undefined> {
+    const [earning] = await db.select().from(creatorEarnings).where(eq(creatorEarnings.purchaseId, purchaseId));
+    return earning || undefined;
+  }
+
+  async hasSubscriptionPoolEarnings(period: string): Promise<boolean> {
+    const [earning] = await db
+      .select({ id: creatorEarnings.id })
+      .from(creatorEarnings)
+      .where(and(eq(creatorEarnings.type, "SUBSCRIPTION_POOL"), eq(creatorEarnings.period, period)))
+      .limit(1);
+    return !!earning;
+  }
+
+  // Subscription invoices issued in [from, to), without tax
+  async getSubscriptionRevenue(from: Date, to: Date): Promise<Array<{ currency: string; netCents: number }>> {
+    return await db
+      .select({
+        currency: invoices.currency,
+        netCents: sql<number>`coalesce(sum(${invoices.subtotalCents}), 0)::int`,
+      })
+      .from(invoices)
+      .where(
+        and(
+          eq(invoices.type, "SUBSCRIPTION"),
+          or(eq(invoices.status, "ISSUED"), eq(invoices.status, "PAID")),
+          gte(invoices.issueDate, from),
+          lt(invoices.issueDate, to)
+        )
+      )
+      .groupBy(invoices.currency);
+  }
+
+  // Seconds add up per audiobook and month as subscribers listen
+  async addCatalogListening(audiobookId: string, period: string, seconds: number): Promise<void> {
+    await db
+      .insert(catalogListening)
+      .values({ audiobookId, period, seconds })
+      .onConflictDoUpdate({
+        target: [catalogListening.audiobookId, catalogListening.period],
+        set: {
+          seconds: sql`${catalogListening.seconds} + ${seconds}`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  // Whole minutes listened through subscriptions per audiobook in a month; under a minute is left out
+  async getCatalogListeningMinutes(period: string): Promise<Array<{ audiobookId: string; publisherId: string; minutes: number }>> {
+    return await db
+      .select({
+        audiobookId: catalogListening.audiobookId,
+        publisherId: audiobooks.publisherId,
+        minutes: sql<number>`floor(${catalogListening.seconds} / 60.0)::int`,
+      })
+      .from(catalogListening)
+      .innerJoin(audiobooks, eq(audiobooks.id, catalogListening.audiobookId))
+      .where(and(eq(catalogListening.period, period), gte(catalogListening.seconds, 60)));
+  }
+
+  async getUnpaidEarningGroups(upToPeriod: string): Promise<Array<{ publisherId: string; currency: string }>> {
+    return await db
+      .selectDistinct({ publisherId: creatorEarnings.publisherId, currency: creatorEarnings.currency })
+      .from(creatorEarnings)
+      .where(and(isNull(creatorEarnings.statementId), lte(creatorEarnings.period, upToPeriod)));
+  }
+
+  // Earnings not on a statement yet plus statements waiting to be paid
+  async getUnpaidEarnings(publisherId: string): Promise<Array<{ currency: string; amountCents: number }>> {
+    return await db
+      .select({
+        currency: creatorEarnings.currency,
+        amountCents: sql<number>`coalesce(sum(${creatorEarnings.amountCents}), 0)::int`,
+      })
+      .from(creatorEarnings)
+      .leftJoin(payoutStatements, eq(payoutStatements.id, creatorEarnings.statementId))
+      .where(
+        and(
+          eq(creatorEarnings.publisherId, publisherId),
+          or(isNull(creatorEarnings.statementId), eq(payoutStatements.status, "PENDING"))
+        )
+      )
+      .groupBy(creatorEarnings.currency);
+  }
+
+  async getCreatorEarningsByMonth(publisherId: string, fromPeriod: string): Promise<CreatorEarningsMonth[]> {
+    const sumOf = (type: CreatorEarning["type"]) =>
+      sql<number>`coalesce(sum(${creatorEarnings.amountCents}) filter (where ${creatorEarnings.type} = ${type}), 0)::int`;
+    return await db
+      .select({
+        period: creatorEarnings.period,
+        currency: creatorEarnings.currency,
+        salesCents: sumOf("SALE"),
+        refundsCents: sumOf("REFUND"),
+        subscriptionCents: sumOf("SUBSCRIPTION_POOL"),
+        totalCents: sql<number>`coalesce(sum(${creatorEarnings.amountCents}), 0)::int`,
+      })
+      .from(creatorEarnings)
+      .where(and(eq(creatorEarnings.publisherId, publisherId), gte(creatorEarnings.period, fromPeriod)))
+      .groupBy(creatorEarnings.period, creatorEarnings.currency)
+      .orderBy(desc(creatorEarnings.period));
+  }
+
+  // Every audiobook of the publisher, including ones that haven't earned anything yet
+  async getCreatorEarningsByAudiobook(publisherId: string): Promise<Array<Omit<CreatorAudiobookEarnings, "rateBasisPoints">>> {
+    const currency = sql<string>`coalesce(${creatorEarnings.currency}, ${audiobooks.currency})`;
+    return await db
+      .select({
+        audiobookId: audiobooks.id,
+        title: audiobooks.title,
+        currency,
+        salesCount: sql<number>`(count(${creatorEarnings.id}) filter (where ${creatorEarnings.type} = 'SALE'))::int`,
+        listeningMinutes: sql<number>`coalesce(sum(${creatorEarnings.listeningMinutes}), 0)::int`,
+        totalCents: sql<number>`coalesce(sum(${creatorEarnings.amountCents}), 0)::int`,
+      })
+      .from(audiobooks)
+      .leftJoin(creatorEarnings, and(
+        eq(creatorEarnings.audiobookId, audiobooks.id),
+        eq(creatorEarnings.publisherId, audiobooks.publisherId)
+      ))
+      .where(eq(audiobooks.publisherId, publisherId))
+      .groupBy(audiobooks.id, audiobooks.title, currency)
+      .orderBy(desc(sql`coalesce(sum(${creatorEarnings.amountCents}), 0)`), asc(audiobooks.title));
+  }
+
+  /**
+   * Put a publisher's unpaid earnings up to a period on a statement
+   * Nothing is created when the total isn't positive (refunds can outweigh a
+   * month's sales); those earnings carry over to the next statement.
+   */
+  async createPayoutStatement(publisherId: string, period: string, currency: string): Promise<PayoutStatement | undefined> {
+    return await db.transaction(async (tx: Transaction) => {
+      const unpaid = and(
+        eq(creatorEarnings.publisherId, publisherId),
+        eq(creatorEarnings.currency, currency),
+        isNull(creatorEarnings.statementId),
+        lte(creatorEarnings.period, period)
+      );
+      const [{ totalCents }] = await tx
+        .select({ totalCents: sql<number>`coalesce(sum(${creatorEarnings.amountCents}), 0)::int` })
+        .from(creatorEarnings)
+        .where(unpaid);
+      if (totalCents <= 0) {
+        return undefined;
+      }
+
+      const [statement] = await tx
+        .insert(payoutStatements)
+        .values({ publisherId, period, currency, totalCents })
+        .onConflictDoNothing()
+        .returning();
+      if (!statement) {
+        return undefined;
+      }
+
+      await tx.update(creatorEarnings).set({ statementId: statement.id }).where(unpaid);
+      return statement;
+    });
+  }
+
+  async getPayoutStatement(id: string): Promise<PayoutStatement | undefined> {
+    const [statement] = await db.select().from(payoutStatements).where(eq(payoutStatements.id, id));
+    return statement || undefined;
+  }
+
+  async getPayoutStatements(filters: { publisherId?: string; status?: PayoutStatement["status"] } = {}): Promise<PayoutStatementWithPublisher[]> {
+    const conditions: SQL[] = [];
+    if (filters.publisherId) conditions.push(eq(payoutStatements.publisherId, filters.publisherId));
+    if (filters.status) conditions.push(eq(payoutStatements.status, filters.status));
+
+    const rows = await db
+      .select({ statement: payoutStatements, publisherName: users.username, publisherEmail: users.email })
+      .from(payoutStatements)
+      .innerJoin(users, eq(users.id, payoutStatements.publisherId))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(payoutStatements.period), asc(users.username));
+    return rows.map((row: { statement: PayoutStatement; publisherName: string; publisherEmail: string }) => ({
+      ...row.statement,
+      publisherName: row.publisherName,
+      publisherEmail: row.publisherEmail,
+    }));
+  }
+
+  async getPayoutStatementEarnings(statementId: string): Promise<CreatorEarningWithAudiobook[]> {
+    const rows = await db
+      .select({ earning: creatorEarnings, audiobookTitle: audiobooks.title })
+      .from(creatorEarnings)
+      .innerJoin(audiobooks, eq(audiobooks.id, creatorEarnings.audiobookId))
+      .where(eq(creatorEarnings.statementId, statementId))
+      .orderBy(asc(creatorEarnings.period), asc(creatorEarnings.createdAt));
+    return rows.map((row: { earning: CreatorEarning; audiobookTitle: string }) => ({ ...row.earning, audiobookTitle: row.audiobookTitle }));
+  }
+
+  async updatePayoutStatement(id: string, data: Partial<Pick<PayoutStatement, "pdfPath" | "status" | "paidAt" | "paidBy" | "paymentReference">>): Promise<PayoutStatement> {
+    const [statement] = await db
+      .update(payoutStatements)
+      .set(data)
+      .where(eq(payoutStatements.id, id))
+      .returning();
+    if (!statement) {
+      throw new Error("Payout statement not found");
+    }
+    return statement;
+  }
+
   // External services operations
   async getExternalServices(): Promise<ExternalService[]> {
     return await db
@@ -2729,6 +5449,135 @@ export class DatabaseStorage implements IStorage {
   async deleteExternalService(id: string): Promise<void> {
     await db.delete(externalServices).where(eq(externalServices.id, id));
   }
+
+  // Background job operations
+  async createBackgroundJob(job: InsertBackgroundJob): Promise<BackgroundJob> {
+    const [created] = await db
+      .insert(backgroundJobs)
+      .values(job)
+      .returning();
+    return created;
+  }
+
+  async getBackgroundJob(id: string): Promise<BackgroundJob | undefined> {
+    const [job] = await db.select().from(backgroundJobs).where(eq(backgroundJobs.id, id));
+    return job || undefined;
+  }
+
+  async getBackgroundJobs(filters: { status?: BackgroundJob["status"]; type?: string; createdBy?: string; limit?: number }): Promise<BackgroundJob[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(eq(backgroundJobs.status, filters.status));
+    }
+    if (filters.type) {
+      conditions.push(eq(backgroundJobs.type, filters.type));
+    }
+    if (filters.createdBy) {
+      conditions.push(eq(backgroundJobs.createdBy, filters.createdBy));
+    }
+
+    return await db
+      .select()
+      .from(backgroundJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(backgroundJobs.createdAt))
+      .limit(filters.limit || 100);
+  }
+
+  async updateBackgroundJob(id: string, data: Partial<InsertBackgroundJob>): Promise<BackgroundJob> {
+    const [updated] = await db
+      .update(backgroundJobs)
+      .set(data)
+      .where(eq(backgroundJobs.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error("Job not found");
+    }
+    return updated;
+  }
+
+  // SKIP LOCKED lets several server processes poll the same table without picking the same job
+  async claimNextBackgroundJob(filter: { types?: string[]; excludeTypes?: string[] } = {}): Promise<BackgroundJob | undefined> {
+    const now = new Date();
+    const conditions: SQL[] = [
+      eq(backgroundJobs.status, "QUEUED"),
+      lte(backgroundJobs.runAt, sql`now()`),
+    ];
+    if (filter.types) {
+      conditions.push(inArray(backgroundJobs.type, filter.types));
+    }
+    if (filter.excludeTypes && filter.excludeTypes.length > 0) {
+      conditions.push(not(inArray(backgroundJobs.type, filter.excludeTypes)));
+    }
+
+    const [claimed] = await db
+      .update(backgroundJobs)
+      .set({
+        status: "RUNNING",
+        lockedAt: now,
+        startedAt: now,
+        attempts: sql`${backgroundJobs.attempts} + 1`,
+      })
+      .where(sql`${backgroundJobs.id} = (
+        select ${backgroundJobs.id} from ${backgroundJobs}
+        where ${and(...conditions)}
+        order by ${backgroundJobs.runAt}
+        limit 1
+        for update skip locked
+      )`)
+      .returning();
+    return claimed || undefined;
+  }
+
+  // Jobs left RUNNING by a worker that died (restart, crash) go back to the queue
+  async requeueStaleBackgroundJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await db
+      .update(backgroundJobs)
+      .set({ status: "QUEUED", lockedAt: null, runAt: new Date() })
+      .where(and(
+        eq(backgroundJobs.status, "RUNNING"),
+        lt(backgroundJobs.lockedAt, lockedBefore)
+      ))
+      .returning({ id: backgroundJobs.id });
+    return requeued.length;
+  }
+
+  // Heartbeat for a running job; a no-op once the job has finished
+  async refreshBackgroundJobLock(id: string): Promise<void> {
+    await db
+      .update(backgroundJobs)
+      .set({ lockedAt: new Date() })
+      .where(and(
+        eq(backgroundJobs.id, id),
+        eq(backgroundJobs.status, "RUNNING")
+      ));
+  }
+
+  // Only queued jobs can be cancelled; a running handler can't be interrupted
+  async cancelBackgroundJob(id: string): Promise<BackgroundJob | undefined> {
+    const [cancelled] = await db
+      .update(backgroundJobs)
+      .set({ status: "CANCELLED", completedAt: new Date() })
+      .where(and(
+        eq(backgroundJobs.id, id),
+        eq(backgroundJobs.status, "QUEUED")
+      ))
+      .returning();
+    return cancelled || undefined;
+  }
+
+  // Finished jobs of a type (completed, failed or cancelled) that ended before the given date
+  async deleteFinishedBackgroundJobs(type: string, finishedBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(backgroundJobs)
+      .where(and(
+        eq(backgroundJobs.type, type),
+        inArray(backgroundJobs.status, ["COMPLETED", "FAILED", "CANCELLED"]),
+        lt(backgroundJobs.completedAt, finishedBefore)
+      ))
+      .returning({ id: backgroundJobs.id });
+    return deleted.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
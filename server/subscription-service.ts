@@ -0,0 +1,435 @@
+/**
+ * Subscription lifecycle
+ * Plan changes go through PayPal's revise flow: upgrades charge the prorated
+ * difference for the rest of the period as a setup fee and start once PayPal
+ * has collected it, downgrades wait for the next renewal. Subscribers can pause and
+ * resume; failed payments leave the subscription PAST_DUE, with access, for the
+ * plan's grace period. Renewals reported by PayPal move the period forward and
+ * are invoiced. Every step is written to the subscription's event history.
+ */
+
+import { storage } from "./storage";
+import * as paypalService from "./paypal-service";
+import { invoiceService } from "./invoice-service";
+import type { PlanChangeQuote, SubscriptionPlan, UserSubscription } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Plans bill in whole months; a month counts as 30 days for proration
+function periodLengthMs(plan: SubscriptionPlan): number {
+  return plan.intervalMonths * 30 * DAY_MS;
+}
+
+export interface PlanChangeRequest {
+  approvalUrl: string;
+  quote: PlanChangeQuote;
+}
+
+export class SubscriptionService {
+  /**
+   * What switching plans costs right now
+   * The new plan's price for the time left in the period, minus the unused part
+   * of the current one. Changes that cost nothing extra are downgrades and wait
+   * for the renewal.
+   */
+  quotePlanChange(subscription: UserSubscription, fromPlan: SubscriptionPlan, toPlan: SubscriptionPlan, now = new Date()): PlanChangeQuote {
+    if (fromPlan.currency !== toPlan.currency) {
+      throw new Error("Plans use different currencies");
+    }
+
+    const remainingMs = Math.max(0, subscription.currentPeriodEnd.getTime() - now.getTime());
+    const prorationCents = Math.round(
+      remainingMs * (toPlan.priceCents / periodLengthMs(toPlan) - fromPlan.priceCents / periodLengthMs(fromPlan))
+    );
+    const isUpgrade = prorationCents > 0;
+
+    return {
+      fromPlanId: fromPlan.id,
+      toPlanId: toPlan.id,
+      effective: isUpgrade ? "IMMEDIATE" : "PERIOD_END",
+      effectiveAt: isUpgrade ? now : subscription.currentPeriodEnd,
+      prorationCents: Math.max(prorationCents, 0),
+      currency: toPlan.currency,
+    };
+  }
+
+  async getPlanChangeQuote(userId: string, planId: string): Promise<PlanChangeQuote> {
+    const { quote } = await this.preparePlanChange(userId, planId);
+    return quote;
+  }
+
+  // Start a plan change; it applies once the subscriber approves it on PayPal
+  async requestPlanChange(userId: string, planId: string, urls: { returnUrl: string; cancelUrl: string }): Promise<PlanChangeRequest> {
+    const { subscription, toPlan, quote } = await this.preparePlanChange(userId, planId);
+    const chargeCents = quote.effective === "IMMEDIATE" ? quote.prorationCents : 0;
+    const requestedAt = new Date();
+
+    const { approvalUrl } = await paypalService.reviseSubscription(
+      subscription.paypalSubscriptionId!,
+      toPlan.paypalPlanId!,
+      urls.returnUrl,
+      urls.cancelUrl,
+      chargeCents > 0 ? { amountCents: chargeCents, currency: quote.currency } : undefined
+    );
+    if (!approvalUrl) {
+      throw new Error("PayPal did not return an approval link");
+    }
+
+    await storage.updateUserSubscription(subscription.id, {
+      pendingPlanId: toPlan.id,
+      pendingPlanChargeCents: chargeCents > 0 ? chargeCents : null,
+      pendingPlanRequestedAt: requestedAt,
+    });
+    await storage.createSubscriptionEvent({
+      subscriptionId: subscription.id,
+      userId,
+      type: "PLAN_CHANGE_REQUESTED",
+      fromPlanId: subscription.planId,
+      toPlanId: toPlan.id,
+      amountCents: chargeCents > 0 ? chargeCents : null,
+      currency: chargeCents > 0 ? quote.currency : null,
+    });
+
+    return { approvalUrl, quote };
+  }
+
+  /**
+   * Apply a plan change once PayPal has the subscription on the new plan
+   * Runs when the subscriber comes back from approving it and again for the
+   * BILLING.SUBSCRIPTION.UPDATED and setup fee payment webhooks; only the first
+   * one gets the claim. Upgrades aren't claimed until their charge went through.
+   */
+  async confirmPlanChange(subscription: UserSubscription): Promise<UserSubscription> {
+    if (!subscription.pendingPlanId || !subscription.paypalSubscriptionId) {
+      return subscription;
+    }
+
+    const fromPlan = await storage.getSubscriptionPlan(subscription.planId);
+    const toPlan = await storage.getSubscriptionPlan(subscription.pendingPlanId);
+    if (!fromPlan || !toPlan) {
+      throw new Error("Plan not found");
+    }
+
+    const paypalSubscription = await paypalService.getSubscriptionStatus(subscription.paypalSubscriptionId);
+    if (paypalSubscription.plan_id !== toPlan.paypalPlanId) {
+      throw new Error("Plan change not approved yet");
+    }
+
+    const chargeCents = subscription.pendingPlanChargeCents ?? 0;
+    let payment: { id: string } | undefined;
+    if (chargeCents > 0) {
+      payment = await paypalService.findSubscriptionPayment(
+        subscription.paypalSubscriptionId,
+        subscription.pendingPlanRequestedAt ?? subscription.currentPeriodStart,
+        chargeCents,
+        toPlan.currency
+      );
+      if (!payment) {
+        throw new Error("Plan change payment not completed yet");
+      }
+    }
+
+    const claimed = await storage.claimPendingPlanChange(subscription.id, toPlan.id);
+    if (!claimed) {
+      return subscription;
+    }
+
+    if (!payment) {
+      const scheduled = await storage.updateUserSubscription(claimed.id, { scheduledPlanId: toPlan.id });
+      await storage.createSubscriptionEvent({
+        subscriptionId: claimed.id,
+        userId: claimed.userId,
+        type: "PLAN_CHANGE_SCHEDULED",
+        fromPlanId: fromPlan.id,
+        toPlanId: toPlan.id,
+      });
+      return scheduled;
+    }
+
+    let invoiceId: string | null = null;
+    try {
+      const invoice = await invoiceService.createSubscriptionInvoice(claimed.userId, claimed.id, toPlan, toPlan.currency, {
+        amountCents: chargeCents,
+        description: `Cambio de plan ${fromPlan.name} a ${toPlan.name} (prorrateo)`,
+      });
+      invoiceId = invoice.id;
+    } catch (invoiceError) {
+      console.error("Error creating plan change invoice:", invoiceError);
+    }
+
+    const changed = await storage.updateUserSubscription(claimed.id, { planId: toPlan.id, scheduledPlanId: null });
+    // The sale id marks the setup fee as recorded for the payment webhook
+    await storage.createSubscriptionEvent({
+      subscriptionId: claimed.id,
+      userId: claimed.userId,
+      type: "PLAN_CHANGED",
+      fromPlanId: fromPlan.id,
+      toPlanId: toPlan.id,
+      amountCents: chargeCents,
+      currency: toPlan.currency,
+      invoiceId,
+      externalId: payment.id,
+    });
+    return changed;
+  }
+
+  // Paused subscriptions don't bill and don't grant access until resumed
+  async pause(userId: string): Promise<UserSubscription> {
+    const subscription = await storage.getCurrentSubscription(userId);
+    if (!subscription || subscription.status !== "ACTIVE") {
+      throw new Error("No active subscription");
+    }
+    if (!subscription.paypalSubscriptionId) {
+      throw new Error("Subscription is not billed through PayPal");
+    }
+
+    await paypalService.suspendSubscription(subscription.paypalSubscriptionId, "Pausada por el suscriptor");
+    const paused = await storage.updateUserSubscription(subscription.id, { status: "PAUSED", pausedAt: new Date() });
+    await storage.createSubscriptionEvent({
+      subscriptionId: subscription.id,
+      userId,
+      type: "PAUSED",
+      fromPlanId: subscription.planId,
+    });
+    return paused;
+  }
+
+  async resume(userId: string): Promise<UserSubscription> {
+    const subscription = await storage.getCurrentSubscription(userId);
+    if (!subscription || subscription.status !== "PAUSED") {
+      throw new Error("Subscription is not paused");
+    }
+
+    await paypalService.reactivateSubscription(subscription.paypalSubscriptionId!, "Reanudada por el suscriptor");
+    // PayPal moves the next billing date when a subscription is reactivated
+    const paypalSubscription = await paypalService.getSubscriptionStatus(subscription.paypalSubscriptionId!);
+    const nextBillingTime = paypalSubscription.billing_info?.next_billing_time;
+
+    const resumed = await storage.updateUserSubscription(subscription.id, {
+      status: "ACTIVE",
+      pausedAt: null,
+      currentPeriodEnd: nextBillingTime ? new Date(nextBillingTime) : subscription.currentPeriodEnd,
+    });
+    await storage.createSubscriptionEvent({
+      subscriptionId: subscription.id,
+      userId,
+      type: "RESUMED",
+      toPlanId: subscription.planId,
+    });
+    return resumed;
+  }
+
+  async recordCancellation(subscription: UserSubscription): Promise<void> {
+    if (subscription.status !== "CANCELED") {
+      await storage.updateUserSubscription(subscription.id, { status: "CANCELED", canceledAt: new Date() });
+    }
+    await storage.createSubscriptionEvent({
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      type: "CANCELED",
+      fromPlanId: subscription.planId,
+    });
+  }
+
+  /**
+   * Record a payment reported by PAYMENT.SALE.COMPLETED
+   * A renewal moves the period forward, brings a past due subscription back,
+   * switches to a scheduled downgrade and is invoiced. The first payment and
+   * prorated upgrade charges fall inside the current period and were invoiced
+   * when they were made, so they're skipped.
+   */
+  async recordPayment(resource: any): Promise<void> {
+    const saleId: string | undefined = resource?.id;
+    const paypalSubscriptionId: string | undefined = resource?.billing_agreement_id;
+    if (!saleId || !paypalSubscriptionId) {
+      return;
+    }
+    if (await storage.getSubscriptionEventByExternalId(saleId)) {
+      return;
+    }
+
+    const subscription = await storage.getSubscriptionByPayPalId(paypalSubscriptionId);
+    if (!subscription || subscription.status === "CANCELED") {
+      return;
+    }
+    const paidAt = resource.create_time ? new Date(resource.create_time) : new Date();
+    // PayPal may bill a little before the billing date
+    if (paidAt.getTime() < subscription.currentPeriodEnd.getTime() - DAY_MS) {
+      // Within the period this is the first payment or an upgrade's setup fee
+      if (subscription.pendingPlanId) {
+        await this.confirmPendingPlanChange(subscription);
+      }
+      return;
+    }
+
+    const planId = subscription.scheduledPlanId || subscription.planId;
+    const plan = await storage.getSubscriptionPlan(planId);
+    if (!plan) {
+      return;
+    }
+    const amountCents = Math.round(parseFloat(resource.amount?.total || "0") * 100) || plan.priceCents;
+    const currency: string = resource.amount?.currency || plan.currency;
+
+    // Recorded first so a redelivered webhook stops at the external id
+    const event = await storage.createSubscriptionEvent({
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      type: "RENEWED",
+      fromPlanId: subscription.planId,
+      toPlanId: planId,
+      amountCents,
+      currency,
+      externalId: saleId,
+    });
+
+    const paypalSubscription = await paypalService.getSubscriptionStatus(paypalSubscriptionId);
+    const nextBillingTime = paypalSubscription.billing_info?.next_billing_time;
+    await storage.updateUserSubscription(subscription.id, {
+      status: "ACTIVE",
+      planId,
+      scheduledPlanId: null,
+      pastDueAt: null,
+      currentPeriodStart: paidAt,
+      currentPeriodEnd: nextBillingTime ? new Date(nextBillingTime) : new Date(paidAt.getTime() + periodLengthMs(plan)),
+    });
+
+    if (subscription.scheduledPlanId) {
+      await storage.createSubscriptionEvent({
+        subscriptionId: subscription.id,
+        userId: subscription.userId,
+        type: "PLAN_CHANGED",
+        fromPlanId: subscription.planId,
+        toPlanId: planId,
+      });
+    }
+
+    try {
+      const user = await storage.getUser(subscription.userId);
+      const invoice = await invoiceService.createSubscriptionInvoice(subscription.userId, subscription.id, plan, currency, {
+        amountCents,
+        email: user ? { kind: "invoice", to: user.email, username: user.username } : undefined,
+      });
+      await storage.updateSubscriptionEvent(event.id, { invoiceId: invoice.id });
+    } catch (invoiceError) {
+      console.error("Error creating renewal invoice:", invoiceError);
+    }
+  }
+
+  /**
+   * A renewal payment failed, or PayPal suspended the subscription after
+   * too many failures. The grace period counts from the first failure.
+   * Suspensions the subscriber asked for (pauses) are already recorded.
+   */
+  async recordPaymentProblem(paypalSubscriptionId: string, type: "PAYMENT_FAILED" | "SUSPENDED"): Promise<void> {
+    const subscription = await storage.getSubscriptionByPayPalId(paypalSubscriptionId);
+    if (!subscription || !["ACTIVE", "PAST_DUE"].includes(subscription.status)) {
+      return;
+    }
+
+    await storage.updateUserSubscription(subscription.id, {
+      status: "PAST_DUE",
+      pastDueAt: subscription.pastDueAt ?? new Date(),
+    });
+    await storage.createSubscriptionEvent({
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      type,
+      fromPlanId: subscription.planId,
+    });
+  }
+
+  // Webhook side of status changes made on PayPal's site
+  async recordPayPalStatus(paypalSubscriptionId: string, eventType: string): Promise<void> {
+    const subscription = await storage.getSubscriptionByPayPalId(paypalSubscriptionId);
+    if (!subscription) {
+      return;
+    }
+
+    switch (eventType) {
+      case "BILLING.SUBSCRIPTION.ACTIVATED":
+        // Also sent for new subscriptions, which the activate endpoint records
+        if (subscription.status === "PAUSED") {
+          await storage.updateUserSubscription(subscription.id, { status: "ACTIVE", pausedAt: null });
+          await storage.createSubscriptionEvent({
+            subscriptionId: subscription.id,
+            userId: subscription.userId,
+            type: "RESUMED",
+            toPlanId: subscription.planId,
+          });
+        }
+        break;
+
+      case "BILLING.SUBSCRIPTION.UPDATED":
+        if (subscription.pendingPlanId) {
+          await this.confirmPendingPlanChange(subscription);
+        }
+        break;
+
+      case "BILLING.SUBSCRIPTION.CANCELLED":
+        if (subscription.status !== "CANCELED") {
+          await this.recordCancellation(subscription);
+        }
+        break;
+
+      case "BILLING.SUBSCRIPTION.EXPIRED":
+        if (subscription.status !== "EXPIRED") {
+          await this.expire(subscription);
+        }
+        break;
+    }
+  }
+
+  // Webhooks can arrive before the approval or the upgrade charge; a later one applies the change
+  private async confirmPendingPlanChange(subscription: UserSubscription): Promise<void> {
+    try {
+      await this.confirmPlanChange(subscription);
+    } catch (error: any) {
+      if (!error.message?.includes("not approved yet") && !error.message?.includes("not completed yet")) throw error;
+    }
+  }
+
+  // End access for PAST_DUE subscriptions whose grace period ran out
+  async expireLapsedSubscriptions(): Promise<number> {
+    const lapsed = await storage.getLapsedSubscriptions();
+    for (const subscription of lapsed) {
+      await this.expire(subscription);
+    }
+    return lapsed.length;
+  }
+
+  private async expire(subscription: UserSubscription): Promise<void> {
+    await storage.updateUserSubscription(subscription.id, { status: "EXPIRED" });
+    await storage.createSubscriptionEvent({
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      type: "EXPIRED",
+      fromPlanId: subscription.planId,
+    });
+  }
+
+  private async preparePlanChange(userId: string, planId: string) {
+    const subscription = await storage.getCurrentSubscription(userId);
+    if (!subscription || subscription.status !== "ACTIVE") {
+      throw new Error("No active subscription");
+    }
+    if (!subscription.paypalSubscriptionId) {
+      throw new Error("Subscription is not billed through PayPal");
+    }
+    if (subscription.planId === planId) {
+      throw new Error("Already on this plan");
+    }
+
+    const toPlan = await storage.getSubscriptionPlan(planId);
+    if (!toPlan || !toPlan.isActive || !toPlan.paypalPlanId) {
+      throw new Error("Plan not found");
+    }
+    const fromPlan = await storage.getSubscriptionPlan(subscription.planId);
+    if (!fromPlan) {
+      throw new Error("Plan not found");
+    }
+
+    return { subscription, fromPlan, toPlan, quote: this.quotePlanChange(subscription, fromPlan, toPlan) };
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
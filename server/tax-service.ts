@@ -0,0 +1,280 @@
+/**
+ * Tax engine for invoices
+ * Resolves the tax rate, tax name and legal mention for a buyer from the
+ * admin-managed tax rules, based on country, region and customer type.
+ */
+
+import { storage } from "./storage";
+import type { BillingProfile, TaxRule } from "@shared/schema";
+
+// Country the seller is established in; "EU" rules only match other member states
+export const HOME_COUNTRY = "ES";
+
+export const EU_MEMBER_STATES = [
+  "AT", "BE", "BG", "CY", "CZ", "DE", "DK", "EE", "ES", "FI", "FR", "GR", "HR", "HU",
+  "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PL", "PT", "RO", "SE", "SI", "SK",
+];
+
+// Free-text country names accepted by the billing forms, keyed without accents
+const COUNTRY_ALIASES: Record<string, string> = {
+  "ESPANA": "ES", "SPAIN": "ES",
+  "ALEMANIA": "DE", "GERMANY": "DE", "DEUTSCHLAND": "DE",
+  "AUSTRIA": "AT", "OSTERREICH": "AT",
+  "BELGICA": "BE", "BELGIUM": "BE",
+  "BULGARIA": "BG",
+  "CHIPRE": "CY", "CYPRUS": "CY",
+  "CHEQUIA": "CZ", "REPUBLICA CHECA": "CZ", "CZECH REPUBLIC": "CZ", "CZECHIA": "CZ",
+  "DINAMARCA": "DK", "DENMARK": "DK",
+  "ESTONIA": "EE",
+  "FINLANDIA": "FI", "FINLAND": "FI",
+  "FRANCIA": "FR", "FRANCE": "FR",
+  "GRECIA": "GR", "GREECE": "GR",
+  "CROACIA": "HR", "CROATIA": "HR",
+  "HUNGRIA": "HU", "HUNGARY": "HU",
+  "IRLANDA": "IE", "IRELAND": "IE",
+  "ITALIA": "IT", "ITALY": "IT",
+  "LITUANIA": "LT", "LITHUANIA": "LT",
+  "LUXEMBURGO": "LU", "LUXEMBOURG": "LU",
+  "LETONIA": "LV", "LATVIA": "LV",
+  "MALTA": "MT",
+  "PAISES BAJOS": "NL", "HOLANDA": "NL", "NETHERLANDS": "NL",
+  "POLONIA": "PL", "POLAND": "PL",
+  "PORTUGAL": "PT",
+  "RUMANIA": "RO", "ROMANIA": "RO",
+  "SUECIA": "SE", "SWEDEN": "SE",
+  "ESLOVENIA": "SI", "SLOVENIA": "SI",
+  "ESLOVAQUIA": "SK", "SLOVAKIA": "SK",
+  "REINO UNIDO": "GB", "UNITED KINGDOM": "GB",
+  "ESTADOS UNIDOS": "US", "UNITED STATES": "US", "USA": "US",
+  "MEXICO": "MX",
+  "ARGENTINA": "AR",
+  "COLOMBIA": "CO",
+  "CHILE": "CL",
+  "PERU": "PE",
+  "ANDORRA": "AD",
+  "SUIZA": "CH", "SWITZERLAND": "CH",
+};
+
+// VAT number formats per member state (without the country prefix)
+const VAT_ID_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  GR: /^\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+// Used when no active rule matches, so invoicing keeps working before rules are configured
+const DEFAULT_TAX = {
+  taxName: "IVA",
+  rateBasisPoints: 2100,
+};
+
+export type TaxCustomerType = "B2C" | "B2B";
+
+export interface TaxContext {
+  country: string;
+  region: string | null;
+  customerType: TaxCustomerType;
+}
+
+export interface TaxResolution {
+  ruleId: string | null;
+  ruleName: string | null;
+  taxName: string;
+  rateBasisPoints: number;
+  legalMention: string | null;
+  context: TaxContext;
+}
+
+type TaxBuyer = Pick<BillingProfile, "country" | "postalCode" | "taxId">;
+
+/**
+ * Normalize a free-text country into an ISO 3166-1 alpha-2 code
+ * @returns The code, or null when the country is not recognised
+ */
+export function normalizeCountryCode(country: string | null | undefined): string | null {
+  if (!country) return null;
+
+  const key = country
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z ]/g, "")
+    .trim();
+
+  if (/^[A-Z]{2}$/.test(key)) {
+    // Greece uses EL in VAT numbers but GR everywhere else
+    return key === "EL" ? "GR" : key;
+  }
+  return COUNTRY_ALIASES[key] || null;
+}
+
+/**
+ * Derive the ISO 3166-2 tax region from a postal code
+ * Only territories outside the common VAT area are distinguished.
+ */
+export function getTaxRegion(countryCode: string, postalCode: string | null | undefined): string | null {
+  const code = (postalCode || "").trim();
+
+  if (countryCode === "ES") {
+    if (code.startsWith("35") || code.startsWith("38")) return "ES-CN"; // Canary Islands (IGIC)
+    if (code.startsWith("51")) return "ES-CE"; // Ceuta (IPSI)
+    if (code.startsWith("52")) return "ES-ML"; // Melilla (IPSI)
+  }
+
+  return null;
+}
+
+/**
+ * Check that a VAT number is well formed for the given member state
+ * This is a syntax check only; it does not query VIES.
+ */
+export function isValidVatId(taxId: string | null | undefined, countryCode: string): boolean {
+  const format = VAT_ID_FORMATS[countryCode];
+  if (!taxId || !format) return false;
+
+  const prefix = countryCode === "GR" ? "EL" : countryCode;
+  let value = taxId.toUpperCase().replace(/[\s.\-]/g, "");
+  if (value.startsWith(prefix)) {
+    value = value.slice(prefix.length);
+  }
+
+  return format.test(value);
+}
+
+/**
+ * Split a tax-inclusive amount into base and tax
+ * Catalog prices are tax-inclusive, so the base is back-computed from the gross.
+ */
+export function splitGrossAmount(grossCents: number, rateBasisPoints: number): { subtotalCents: number; taxCents: number } {
+  const subtotalCents = Math.round((grossCents * 10000) / (10000 + rateBasisPoints));
+  return { subtotalCents, taxCents: grossCents - subtotalCents };
+}
+
+/**
+ * Format a rate in basis points for display, e.g. 2100 -> "21", 550 -> "5,5"
+ */
+export function formatTaxRate(rateBasisPoints: number): string {
+  return (rateBasisPoints / 100).toLocaleString("es-ES", { maximumFractionDigits: 2 });
+}
+
+/**
+ * Build the tax context for a buyer
+ * Buyers without a billing profile are treated as domestic consumers.
+ */
+export function getTaxContext(buyer: TaxBuyer | null | undefined): TaxContext {
+  const country = normalizeCountryCode(buyer?.country) || HOME_COUNTRY;
+  const region = getTaxRegion(country, buyer?.postalCode);
+
+  // Inside the EU a business needs a valid VAT number; elsewhere any tax ID identifies a business
+  const isBusiness = EU_MEMBER_STATES.includes(country)
+    ? isValidVatId(buyer?.taxId, country)
+    : !!buyer?.taxId?.trim();
+
+  return { country, region, customerType: isBusiness ? "B2B" : "B2C" };
+}
+
+/**
+ * Rank how specifically a rule matches the context
+ * @returns null when the rule doesn't apply; otherwise a tuple compared in order:
+ * region, country (exact > EU > any), then customer type. Destination VAT rules
+ * should therefore target B2C so an "EU" B2B reverse-charge rule can still apply.
+ */
+function ruleSpecificity(rule: TaxRule, context: TaxContext): number[] | null {
+  let countryScore: number;
+  if (rule.country === context.country) {
+    countryScore = 2;
+  } else if (rule.country === "EU" && EU_MEMBER_STATES.includes(context.country) && context.country !== HOME_COUNTRY) {
+    countryScore = 1;
+  } else if (rule.country === "*") {
+    countryScore = 0;
+  } else {
+    return null;
+  }
+
+  if (rule.region && rule.region !== context.region) return null;
+  if (rule.customerType !== "ANY" && rule.customerType !== context.customerType) return null;
+
+  return [rule.region ? 1 : 0, countryScore, rule.customerType !== "ANY" ? 1 : 0];
+}
+
+function compareSpecificity(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/**
+ * Pick the most specific rule for the context
+ */
+export function selectTaxRule(rules: TaxRule[], context: TaxContext): TaxRule | null {
+  let best: { rule: TaxRule; score: number[] } | null = null;
+
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    const score = ruleSpecificity(rule, context);
+    if (!score) continue;
+
+    // Ties go to the most recently updated rule
+    const cmp = best ? compareSpecificity(score, best.score) : 1;
+    if (cmp > 0 || (cmp === 0 && best && rule.updatedAt > best.rule.updatedAt)) {
+      best = { rule, score };
+    }
+  }
+
+  return best?.rule || null;
+}
+
+export class TaxService {
+  async resolveTax(buyer: TaxBuyer | null | undefined): Promise<TaxResolution> {
+    const context = getTaxContext(buyer);
+    const rules = await storage.getActiveTaxRules();
+    const rule = selectTaxRule(rules, context);
+
+    if (!rule) {
+      return {
+        ruleId: null,
+        ruleName: null,
+        taxName: DEFAULT_TAX.taxName,
+        rateBasisPoints: DEFAULT_TAX.rateBasisPoints,
+        legalMention: null,
+        context,
+      };
+    }
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      taxName: rule.taxName,
+      rateBasisPoints: rule.rateBasisPoints,
+      legalMention: rule.legalMention,
+      context,
+    };
+  }
+}
+
+export const taxService = new TaxService();
@@ -0,0 +1,140 @@
+/**
+ * Chapter transcripts
+ * Uploads come as WebVTT, SRT or plain text and are stored as a list of cues:
+ * timed captions for VTT and SRT, one untimed cue per paragraph for plain
+ * text. Feeds and downloads get the cues back as WebVTT (timed transcripts)
+ * or plain text.
+ */
+
+import path from "path";
+import type { TranscriptCueData, TranscriptFormat } from "@shared/schema";
+
+// Longer uploads are almost certainly not a chapter transcript
+const MAX_CUES = 20000;
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": "\"",
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+// Served as /api/chapters/:id/transcript.vtt or .txt
+export const TRANSCRIPT_MIME_TYPES = {
+  vtt: "text/vtt",
+  txt: "text/plain",
+} as const;
+
+// Plain text transcripts have no timings to put in a WebVTT file
+export function getTranscriptExtension(format: TranscriptFormat): keyof typeof TRANSCRIPT_MIME_TYPES {
+  return format === "TEXT" ? "txt" : "vtt";
+}
+
+/**
+ * Format of an uploaded transcript
+ * The file extension wins; otherwise the content is sniffed for a WEBVTT
+ * header or SRT-style timings.
+ */
+export function detectTranscriptFormat(content: string, filename?: string): TranscriptFormat {
+  const extension = filename ? path.extname(filename).toLowerCase() : "";
+  if (extension === ".vtt") return "VTT";
+  if (extension === ".srt") return "SRT";
+  if (extension === ".txt") return "TEXT";
+
+  const text = content.replace(/^\uFEFF/, "");
+  if (/^WEBVTT/.test(text)) return "VTT";
+  if (/^\s*(?:\d+:)?\d{1,2}:\d{2},\d{1,3}\s*-->/m.test(text)) return "SRT";
+  return "TEXT";
+}
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/);
+  const parts = clock.split(":").map(part => parseInt(part, 10));
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds * 1000 + parseInt(fraction.padEnd(3, "0"), 10);
+}
+
+// Caption markup (<i>, <c>, <v Speaker>, inline <00:00:01.000> timings) and entities
+function cleanCaptionLine(line: string): string {
+  return line
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity])
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Timed cues from WebVTT or SRT
+ * Blocks without a timing line (the WEBVTT header, NOTE, STYLE and REGION
+ * blocks) are skipped. Auto-generated captions (YouTube) repeat the previous
+ * caption's lines at the top of each cue as they scroll, so those repeats are
+ * dropped.
+ */
+function parseTimedCues(content: string): TranscriptCueData[] {
+  const cues: TranscriptCueData[] = [];
+  let previousLines: string[] = [];
+
+  for (const block of content.split(/\n{2,}/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const textLines = lines.slice(timingIndex + 1).map(cleanCaptionLine).filter(Boolean);
+    const newLines = textLines.filter(line => !previousLines.includes(line));
+    if (textLines.length > 0) {
+      previousLines = textLines;
+    }
+    if (newLines.length === 0) continue;
+
+    cues.push({ startMs: parseTimestamp(start), endMs: parseTimestamp(end), text: newLines.join(" ") });
+  }
+
+  return cues;
+}
+
+function parseTextCues(content: string): TranscriptCueData[] {
+  return content
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map(text => ({ startMs: null, endMs: null, text }));
+}
+
+export function parseTranscript(content: string, format: TranscriptFormat): TranscriptCueData[] {
+  const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const cues = format === "TEXT" ? parseTextCues(normalized) : parseTimedCues(normalized);
+
+  if (cues.length === 0) {
+    throw new Error("Transcript has no text");
+  }
+  if (cues.length > MAX_CUES) {
+    throw new Error(`Transcript has more than ${MAX_CUES} cues`);
+  }
+  return cues;
+}
+
+function formatVttTimestamp(ms: number): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(ms % 1000, 3)}`;
+}
+
+// Only for timed transcripts; untimed cues are skipped
+export function toWebVtt(cues: TranscriptCueData[]): string {
+  const blocks = cues
+    .filter(cue => cue.startMs !== null && cue.endMs !== null)
+    .map(cue => `${formatVttTimestamp(cue.startMs!)} --> ${formatVttTimestamp(cue.endMs!)}\n${cue.text}`);
+  return ["WEBVTT", ...blocks].join("\n\n") + "\n";
+}
+
+export function toPlainText(cues: TranscriptCueData[], timed: boolean): string {
+  // Timed cues are caption lines; run them together instead of one paragraph each
+  return (timed ? cues.map(cue => cue.text).join(" ") : cues.map(cue => cue.text).join("\n\n")) + "\n";
+}
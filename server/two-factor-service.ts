@@ -0,0 +1,223 @@
+/**
+ * Two-factor authentication for every account
+ * Time-based one-time passwords (RFC 6238, the 30 second / 6 digit codes of
+ * any authenticator app) plus single-use recovery codes for a lost phone.
+ * Enrollment is optional for listeners and creators and mandatory for admins;
+ * 2FA can only be reset by an admin, which is recorded as a security event.
+ */
+
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { SecurityEvent, TwoFactorSetup, TwoFactorStatus, User } from "@shared/schema";
+
+const ISSUER = "Audivia";
+const TIME_STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Accept the previous and next code too, for clocks that drift a little
+const ALLOWED_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// How long an entered code unlocks sensitive admin actions
+export const STEP_UP_WINDOW_MS = 10 * 60 * 1000;
+// Time to enter the code after the password was accepted
+export const PENDING_LOGIN_TTL_MS = 5 * 60 * 1000;
+export const MAX_PENDING_LOGIN_ATTEMPTS = 5;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** CODE_DIGITS).toString().padStart(CODE_DIGITS, "0");
+}
+
+// Time step the code belongs to, or null when it doesn't match any step in the window
+function matchCode(secret: string, code: string): number | null {
+  const currentStep = Math.floor(Date.now() / 1000 / TIME_STEP_SECONDS);
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    const expected = generateCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function isTotpCode(code: string): boolean {
+  return new RegExp(`^\\d{${CODE_DIGITS}}$`).test(code);
+}
+
+// Recovery codes are high-entropy random strings, so a plain SHA-256 is enough to store them
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, "").toUpperCase();
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(5));
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+}
+
+export class TwoFactorService {
+  isRequired(user: User): boolean {
+    return user.role === "ADMIN";
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const twoFactor = await storage.getUserTwoFactor(userId);
+    return !!twoFactor?.enabledAt;
+  }
+
+  async getStatus(user: User): Promise<TwoFactorStatus> {
+    const twoFactor = await storage.getUserTwoFactor(user.id);
+    const enabled = !!twoFactor?.enabledAt;
+    return {
+      enabled,
+      required: this.isRequired(user),
+      enabledAt: twoFactor?.enabledAt ?? null,
+      recoveryCodesRemaining: enabled ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+    };
+  }
+
+  /**
+   * Start enrollment with a fresh secret
+   * Nothing changes for the login until enable() confirms a code from the app,
+   * so an abandoned setup is simply overwritten by the next one.
+   */
+  async startSetup(user: User): Promise<TwoFactorSetup> {
+    if (await this.isEnabled(user.id)) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await storage.saveTwoFactorSecret(user.id, secret);
+
+    const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: "SHA1",
+      digits: String(CODE_DIGITS),
+      period: String(TIME_STEP_SECONDS),
+    });
+    return { secret, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` };
+  }
+
+  // Confirm enrollment with a code from the app; returns the recovery codes, shown only this once
+  async enable(userId: string, code: string, ipAddress?: string): Promise<string[]> {
+    const twoFactor = await storage.getUserTwoFactor(userId);
+    if (!twoFactor) {
+      throw new Error("Two-factor setup has not been started");
+    }
+    if (twoFactor.enabledAt) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const step = isTotpCode(code) ? matchCode(twoFactor.secret, code) : null;
+    if (step === null) {
+      throw new Error("Invalid two-factor code");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.enableTwoFactor(userId, step, recoveryCodes.map(hashRecoveryCode));
+    await this.recordEvent(userId, "TWO_FACTOR_ENABLED", null, ipAddress);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a code for the login step or a step-up
+   * Accepts a code from the app (each one only once) or an unused recovery
+   * code, which is spent.
+   */
+  async verify(userId: string, code: string, ipAddress?: string): Promise<boolean> {
+    const twoFactor = await storage.getUserTwoFactor(userId);
+    if (!twoFactor?.enabledAt) {
+      return false;
+    }
+
+    if (isTotpCode(code)) {
+      const step = matchCode(twoFactor.secret, code);
+      return step !== null && await storage.claimTwoFactorStep(userId, step);
+    }
+
+    const used = await storage.useRecoveryCode(userId, hashRecoveryCode(code));
+    if (used) {
+      await this.recordEvent(userId, "RECOVERY_CODE_USED", null, ipAddress);
+    }
+    return used;
+  }
+
+  async regenerateRecoveryCodes(userId: string, ipAddress?: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+    await this.recordEvent(userId, "RECOVERY_CODES_REGENERATED", null, ipAddress);
+    return recoveryCodes;
+  }
+
+  async disable(user: User, ipAddress?: string): Promise<void> {
+    if (this.isRequired(user)) {
+      throw new Error("Two-factor authentication is mandatory for admins");
+    }
+    await storage.deleteTwoFactor(user.id);
+    await this.recordEvent(user.id, "TWO_FACTOR_DISABLED", null, ipAddress);
+  }
+
+  /**
+   * Remove someone's 2FA after they lost their phone and recovery codes
+   * Done by another admin; admins have to enroll again before they can use
+   * the admin panel.
+   */
+  async reset(userId: string, actorId: string, ipAddress?: string): Promise<void> {
+    if (!(await storage.getUserTwoFactor(userId))) {
+      throw new Error("Two-factor authentication is not enabled for this user");
+    }
+    await storage.deleteTwoFactor(userId);
+    await this.recordEvent(userId, "TWO_FACTOR_RESET", actorId, ipAddress);
+  }
+
+  private async recordEvent(userId: string, type: SecurityEvent["type"], actorId: string | null, ipAddress?: string): Promise<void> {
+    await storage.createSecurityEvent({ userId, type, actorId, ipAddress: ipAddress ?? null });
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -37,6 +37,16 @@ export function getEpisodeEmbedUrl(siteUrl: string, episodeId: string): string {
   return `${siteUrl}/embed/episode/${episodeId}`;
 }
 
+/**
+ * Generate embed URL for a shared bookmark clip
+ * @param siteUrl Base site URL
+ * @param shareToken Share token of the bookmark
+ * @returns Embed URL (e.g., "/embed/clip/abc")
+ */
+export function getClipEmbedUrl(siteUrl: string, shareToken: string): string {
+  return `${siteUrl}/embed/clip/${shareToken}`;
+}
+
 /**
  * Generate share URL for an episode (same as canonical for now)
  * @param siteUrl Base site URL
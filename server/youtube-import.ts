@@ -202,6 +202,52 @@ export async function downloadAudioFromVideo(
   }
 }
 
+/**
+ * Download a video's subtitles as WebVTT, preferring manual ones over YouTube's auto-generated captions
+ * Returns null when the video has none in the requested languages.
+ */
+export async function downloadSubtitlesFromVideo(
+  videoId: string,
+  outputDir: string,
+  languages: string[] = ['es', 'en']
+): Promise<{ subtitlePath: string; language: string } | null> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const outputTemplate = path.join(outputDir, `${videoId}_subs.%(ext)s`);
+  const commandParts = [
+    'yt-dlp',
+    '--skip-download',
+    '--write-subs',
+    '--write-auto-subs',
+    `--sub-langs "${languages.map(language => `${language}.*`).join(',')}"`,
+    '--sub-format vtt',
+    '--no-playlist',
+    '-4',
+    '--retries 3',
+    `-o "${outputTemplate}"`,
+    `"https://www.youtube.com/watch?v=${videoId}"`,
+  ];
+
+  try {
+    await execAsync(commandParts.join(' '), {
+      maxBuffer: 10 * 1024 * 1024,
+      timeout: 120000, // 2 minutes timeout
+    });
+  } catch (error: any) {
+    throw new Error(`Error al descargar subtítulos: ${error.message}`);
+  }
+
+  // Files are named <videoId>_subs.<language>.vtt
+  const files = (await fs.readdir(outputDir)).filter(f => f.startsWith(`${videoId}_subs.`) && f.endsWith('.vtt'));
+  for (const language of languages) {
+    const subtitleFile = files.find(f => f.split('.')[1]?.split('-')[0] === language);
+    if (subtitleFile) {
+      return { subtitlePath: path.join(outputDir, subtitleFile), language };
+    }
+  }
+  return null;
+}
+
 export async function downloadThumbnail(
   thumbnailUrl: string,
   outputDir: string,
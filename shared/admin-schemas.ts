@@ -36,6 +36,17 @@ export const adminChaptersQuerySchema = z.object({
   search: z.string().optional(),
 });
 
+export const adminAuditLogQuerySchema = z.object({
+  actorId: z.string().uuid().optional(),
+  action: z.string().optional(),
+  targetType: z.string().optional(),
+  targetId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
 // Email configuration schemas
 export const createEmailConfigSchema = z.object({
   smtpHost: z.string().min(1, "SMTP host is required"),
@@ -190,6 +201,7 @@ export type BulkDeleteAudiobooks = z.infer<typeof bulkDeleteAudiobooksSchema>;
 export type BulkUpdateAudiobooksStatus = z.infer<typeof bulkUpdateAudiobooksStatusSchema>;
 export type BulkDeleteChapters = z.infer<typeof bulkDeleteChaptersSchema>;
 export type BulkUpdateChaptersStatus = z.infer<typeof bulkUpdateChaptersStatusSchema>;
+export type AdminAuditLogQuery = z.infer<typeof adminAuditLogQuerySchema>;
 
 // Legacy type aliases
 export type BulkDeletePodcasts = BulkDeleteAudiobooks;
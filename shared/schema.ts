@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, pgEnum, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, pgEnum, timestamp, integer, boolean, real, unique, uniqueIndex, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -10,8 +10,9 @@ export const userRoleEnum = pgEnum("user_role", ["LISTENER", "CREATOR", "ADMIN"]
 // Content status enum for moderation workflow
 export const contentStatusEnum = pgEnum("content_status", ["DRAFT", "PENDING_APPROVAL", "APPROVED", "REJECTED"]);
 
-// Media asset type enum
-export const mediaAssetTypeEnum = pgEnum("media_asset_type", ["COVER_ART", "CHAPTER_AUDIO", "SAMPLE_AUDIO"]);
+// Media asset type enum; AUDIO_MASTER is the untouched upload that CHAPTER_AUDIO is transcoded from,
+// AUDIOBOOK_EXPORT the single-file download of a whole audiobook, BOOKMARK_CLIP the excerpt a shared bookmark plays
+export const mediaAssetTypeEnum = pgEnum("media_asset_type", ["COVER_ART", "CHAPTER_AUDIO", "SAMPLE_AUDIO", "AUDIO_MASTER", "AUDIOBOOK_EXPORT", "BOOKMARK_CLIP"]);
 
 // Storage provider enum
 export const storageProviderEnum = pgEnum("storage_provider", ["LOCAL", "GOOGLE_DRIVE"]);
@@ -19,8 +20,8 @@ export const storageProviderEnum = pgEnum("storage_provider", ["LOCAL", "GOOGLE_
 // Visibility enum for audiobooks and chapters
 export const visibilityEnum = pgEnum("visibility", ["PRIVATE", "UNLISTED", "PUBLIC"]);
 
-// Subscription status enum
-export const subscriptionStatusEnum = pgEnum("subscription_status", ["ACTIVE", "PAST_DUE", "CANCELED", "EXPIRED"]);
+// Subscription status enum: PAST_DUE keeps access through the plan's grace period, PAUSED doesn't
+export const subscriptionStatusEnum = pgEnum("subscription_status", ["ACTIVE", "PAST_DUE", "PAUSED", "CANCELED", "EXPIRED"]);
 
 // Purchase status enum
 export const purchaseStatusEnum = pgEnum("purchase_status", ["PENDING", "COMPLETED", "REFUNDED", "FAILED"]);
@@ -45,6 +46,114 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// User two-factor table - TOTP secret per user; enabledAt stays null until the first code confirms enrollment
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id", { length: 36 }).primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // Time step of the last accepted code, so a code can't be replayed within its window
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Two-factor recovery codes table - single-use codes, only their hashes are stored
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index("two_factor_recovery_codes_user_idx").on(table.userId),
+}));
+
+// Security event type enum
+export const securityEventTypeEnum = pgEnum("security_event_type", [
+  "TWO_FACTOR_ENABLED",
+  "TWO_FACTOR_DISABLED",
+  "TWO_FACTOR_RESET",
+  "RECOVERY_CODE_USED",
+  "RECOVERY_CODES_REGENERATED",
+  "LOGIN_FAILED",
+  "ACCOUNT_LOCKED",
+  "ACCOUNT_UNLOCKED",
+  "SESSIONS_REVOKED",
+]);
+
+// Security events table - account security history; actorId is the admin when someone else made the change
+export const securityEvents = pgTable("security_events", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: securityEventTypeEnum("type").notNull(),
+  actorId: varchar("actor_id", { length: 36 }).references(() => users.id, { onDelete: "set null" }),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index("security_events_user_idx").on(table.userId, table.createdAt),
+}));
+
+// Account lockouts table - consecutive failed logins; lockedUntil is set once they reach the limit
+export const accountLockouts = pgTable("account_lockouts", {
+  userId: varchar("user_id", { length: 36 }).primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  failedCount: integer("failed_count").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  // SHA-256 of the token in the emailed unlock link
+  unlockTokenHash: text("unlock_token_hash"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Rate limit buckets table - attempts per key (e.g. "login:ip:1.2.3.4") in the current window
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  hits: integer("hits").notNull().default(0),
+  windowEndsAt: timestamp("window_ends_at").notNull(),
+  blockedUntil: timestamp("blocked_until"),
+});
+
+// Admin audit log table - append-only record of privileged actions; rows are never updated or deleted
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  // Kept when the admin account is deleted; the email below still says who it was
+  actorId: varchar("actor_id", { length: 36 }).references(() => users.id, { onDelete: "set null" }),
+  actorEmail: text("actor_email").notNull(),
+  // Method and route pattern, e.g. "PATCH /api/admin/users/:id/role"
+  action: text("action").notNull(),
+  targetType: text("target_type"),
+  targetId: text("target_id"),
+  // JSON of the fields that changed, with secrets redacted; before is null for creations, after for deletions
+  before: text("before"),
+  after: text("after"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  createdAtIdx: index("admin_audit_log_created_at_idx").on(table.createdAt),
+  actorIdx: index("admin_audit_log_actor_idx").on(table.actorId, table.createdAt),
+  targetIdx: index("admin_audit_log_target_idx").on(table.targetType, table.targetId),
+}));
+
+// Account deletion status enum: PENDING through the cooling-off period, COMPLETED once the account is anonymized
+export const accountDeletionStatusEnum = pgEnum("account_deletion_status", ["PENDING", "CANCELLED", "COMPLETED"]);
+
+// Account deletion requests table - self-service erasure; the account is anonymized when scheduledFor passes
+export const accountDeletionRequests = pgTable("account_deletion_requests", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  // The user row outlives the request: it is anonymized, not deleted, so invoices keep their customer
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  status: accountDeletionStatusEnum("status").notNull().default("PENDING"),
+  reason: text("reason"),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  // The user themselves or an admin
+  cancelledBy: varchar("cancelled_by", { length: 36 }).references(() => users.id, { onDelete: "set null" }),
+  cancelledAt: timestamp("cancelled_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  statusScheduledIdx: index("account_deletion_requests_status_scheduled_idx").on(table.status, table.scheduledFor),
+  pendingUnique: uniqueIndex("account_deletion_requests_pending_unique")
+    .on(table.userId)
+    .where(sql`${table.status} = 'PENDING'`),
+}));
+
 // Subscription Plans table - admin-defined subscription tiers
 export const subscriptionPlans = pgTable("subscription_plans", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -58,6 +167,10 @@ export const subscriptionPlans = pgTable("subscription_plans", {
   stripeProductId: text("stripe_product_id"),
   paypalPlanId: text("paypal_plan_id"),
   paypalProductId: text("paypal_product_id"),
+  // Household members who share the subscription (e.g. a "Familia" plan); 0 keeps it personal
+  maxHouseholdMembers: integer("max_household_members").notNull().default(0),
+  // Days a PAST_DUE subscription keeps access while PayPal retries the payment
+  gracePeriodDays: integer("grace_period_days").notNull().default(7),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -72,10 +185,85 @@ export const userSubscriptions = pgTable("user_subscriptions", {
   paypalSubscriptionId: text("paypal_subscription_id"),
   currentPeriodStart: timestamp("current_period_start").notNull(),
   currentPeriodEnd: timestamp("current_period_end").notNull(),
+  // Plan change sent to PayPal and waiting for the subscriber's approval
+  pendingPlanId: varchar("pending_plan_id", { length: 36 }).references(() => subscriptionPlans.id),
+  // Prorated difference PayPal charges when an upgrade is approved, and when it was requested
+  pendingPlanChargeCents: integer("pending_plan_charge_cents"),
+  pendingPlanRequestedAt: timestamp("pending_plan_requested_at"),
+  // Approved downgrade that takes over at the next renewal
+  scheduledPlanId: varchar("scheduled_plan_id", { length: 36 }).references(() => subscriptionPlans.id),
+  // First failed payment; the grace period counts from here
+  pastDueAt: timestamp("past_due_at"),
+  pausedAt: timestamp("paused_at"),
   canceledAt: timestamp("canceled_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Subscription event type enum: what happened to a subscription, for its history
+export const subscriptionEventTypeEnum = pgEnum("subscription_event_type", [
+  "ACTIVATED",
+  "RENEWED",
+  "PAYMENT_FAILED",
+  "SUSPENDED",
+  "PLAN_CHANGE_REQUESTED",
+  "PLAN_CHANGED",
+  "PLAN_CHANGE_SCHEDULED",
+  "PAUSED",
+  "RESUMED",
+  "CANCELED",
+  "EXPIRED",
+]);
+
+// Subscription events table - history of plan changes, payments and status changes
+export const subscriptionEvents = pgTable("subscription_events", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id", { length: 36 }).notNull().references(() => userSubscriptions.id),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  type: subscriptionEventTypeEnum("type").notNull(),
+  fromPlanId: varchar("from_plan_id", { length: 36 }).references(() => subscriptionPlans.id),
+  toPlanId: varchar("to_plan_id", { length: 36 }).references(() => subscriptionPlans.id),
+  // Charged amount for renewals and prorated upgrades
+  amountCents: integer("amount_cents"),
+  currency: text("currency"),
+  invoiceId: varchar("invoice_id", { length: 36 }).references(() => invoices.id),
+  // PayPal sale id, so a redelivered webhook isn't recorded twice
+  externalId: text("external_id").unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  subscriptionIdx: index("subscription_events_subscription_idx").on(table.subscriptionId),
+  createdAtIdx: index("subscription_events_created_at_idx").on(table.createdAt),
+}));
+
+// Series table - named, ordered collections of audiobooks with an optional bundle price
+export const series = pgTable("series", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  coverArtUrl: text("cover_art_url"),
+  // Price for all paid volumes together; null when the series isn't sold as a bundle
+  bundlePriceCents: integer("bundle_price_cents"),
+  currency: text("currency").notNull().default("EUR"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Full-text search document for the catalog; the GIN index and search queries must use this same expression
+export function audiobookSearchVector(table: {
+  title: AnyPgColumn;
+  seriesName: AnyPgColumn;
+  author: AnyPgColumn;
+  narrator: AnyPgColumn;
+  description: AnyPgColumn;
+}) {
+  return sql`(
+    setweight(to_tsvector('simple', coalesce(${table.title}, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(${table.seriesName}, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(${table.author}, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(${table.narrator}, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(${table.description}, '')), 'C')
+  )`;
+}
+
 // Audiobooks table (formerly podcasts)
 export const audiobooks = pgTable("audiobooks", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -98,14 +286,23 @@ export const audiobooks = pgTable("audiobooks", {
   stripePriceId: text("stripe_price_id"),
   amazonEbookUrl: text("amazon_ebook_url"),
   amazonPrintUrl: text("amazon_print_url"),
+  // Stamp the buyer's name in the metadata of single-file downloads
+  watermarkExports: boolean("watermark_exports").notNull().default(false),
+  seriesId: varchar("series_id", { length: 36 }).references(() => series.id),
+  // Copy of series.name kept in sync by storage, so search and sorting don't need a join
   seriesName: text("series_name"),
   seriesIndex: integer("series_index"),
+  // Mean and count of approved review ratings, kept in sync by storage for catalog sorting
+  ratingAverage: real("rating_average").notNull().default(0),
+  ratingCount: integer("rating_count").notNull().default(0),
   publisherId: varchar("publisher_id", { length: 36 }).notNull().references(() => users.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   publishedAt: timestamp("published_at"),
   approvedAt: timestamp("approved_at"),
   approvedBy: varchar("approved_by", { length: 36 }).references(() => users.id),
-});
+}, (table) => ({
+  searchIdx: index("audiobooks_search_idx").using("gin", audiobookSearchVector(table)),
+}));
 
 // Chapters table (formerly episodes)
 export const chapters = pgTable("chapters", {
@@ -141,6 +338,12 @@ export const audiobookPurchases = pgTable("audiobook_purchases", {
   paypalOrderId: text("paypal_order_id"),
   paypalCaptureId: text("paypal_capture_id"),
   paypalPayerEmail: text("paypal_payer_email"),
+  // Gift purchases stay on the buyer's account, without access, until the recipient redeems the token
+  giftedByUserId: varchar("gifted_by_user_id", { length: 36 }).references(() => users.id),
+  giftRecipientEmail: text("gift_recipient_email"),
+  giftMessage: text("gift_message"),
+  giftToken: text("gift_token").unique(),
+  giftRedeemedAt: timestamp("gift_redeemed_at"),
   purchasedAt: timestamp("purchased_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -158,7 +361,7 @@ export const favorites = pgTable("favorites", {
   }
 }));
 
-// Listening Progress table - tracks user progress in audiobooks
+// Listening Progress table - one row per user and chapter; the most recently updated row is the audiobook resume point
 export const listeningProgress = pgTable("listening_progress", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
@@ -168,8 +371,88 @@ export const listeningProgress = pgTable("listening_progress", {
   completed: boolean("completed").notNull().default(false),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userChapterUnique: unique("listening_progress_user_chapter_unique").on(table.userId, table.chapterId),
+}));
+
+// Reviews table - one rating (and optional text) per user and audiobook
+// Ratings without text are approved straight away; text goes through moderation
+export const reviews = pgTable("reviews", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  audiobookId: varchar("audiobook_id", { length: 36 }).notNull().references(() => audiobooks.id),
+  // 1 to 5 stars
+  rating: integer("rating").notNull(),
+  storyRating: integer("story_rating"),
+  narrationRating: integer("narration_rating"),
+  body: text("body"),
+  isVerifiedPurchase: boolean("is_verified_purchase").notNull().default(false),
+  status: contentStatusEnum("status").notNull().default("PENDING_APPROVAL"),
+  moderatedAt: timestamp("moderated_at"),
+  moderatedBy: varchar("moderated_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  userAudiobookUnique: unique("reviews_user_audiobook_unique").on(table.userId, table.audiobookId),
+  audiobookStatusIdx: index("reviews_audiobook_status_idx").on(table.audiobookId, table.status),
+}));
+
+// Bookmarks table - saved moments in a chapter; with an end position the range is a clip
+export const bookmarks = pgTable("bookmarks", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  audiobookId: varchar("audiobook_id", { length: 36 }).notNull().references(() => audiobooks.id),
+  chapterId: varchar("chapter_id", { length: 36 }).notNull().references(() => chapters.id),
+  positionSeconds: integer("position_seconds").notNull(),
+  endPositionSeconds: integer("end_position_seconds"),
+  note: text("note"),
+  // Set while the clip is shared; anyone with the link can play the range
+  shareToken: text("share_token").unique(),
+  // The clip rendered when it was shared (see audio-clips.ts)
+  clipAssetId: varchar("clip_asset_id", { length: 36 }).references((): AnyPgColumn => mediaAssets.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userChapterIdx: index("bookmarks_user_chapter_idx").on(table.userId, table.chapterId),
+}));
+
+// Transcript format as uploaded; VTT and SRT carry cue timings, plain text doesn't
+export const transcriptFormatEnum = pgEnum("transcript_format", ["VTT", "SRT", "TEXT"]);
+
+// Where a transcript came from
+export const transcriptSourceEnum = pgEnum("transcript_source", ["UPLOAD", "YOUTUBE"]);
+
+// Chapter transcripts table - at most one per chapter; the text itself is in transcript_cues
+export const chapterTranscripts = pgTable("chapter_transcripts", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  chapterId: varchar("chapter_id", { length: 36 }).notNull().unique().references(() => chapters.id),
+  language: text("language").notNull().default("es"),
+  format: transcriptFormatEnum("format").notNull(),
+  source: transcriptSourceEnum("source").notNull().default("UPLOAD"),
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Full-text search document for a transcript cue; the GIN index and search queries must use this same expression
+export function transcriptCueSearchVector(table: { text: AnyPgColumn }) {
+  return sql`to_tsvector('simple', ${table.text})`;
+}
+
+// Transcript cues table - one caption each, in order; plain text transcripts have one untimed cue per paragraph
+export const transcriptCues = pgTable("transcript_cues", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  transcriptId: varchar("transcript_id", { length: 36 }).notNull().references(() => chapterTranscripts.id),
+  // Copy of the transcript's chapter, so search results don't need the extra join
+  chapterId: varchar("chapter_id", { length: 36 }).notNull().references(() => chapters.id),
+  position: integer("position").notNull(),
+  startMs: integer("start_ms"),
+  endMs: integer("end_ms"),
+  text: text("text").notNull(),
+}, (table) => ({
+  transcriptPositionIdx: index("transcript_cues_transcript_position_idx").on(table.transcriptId, table.position),
+  searchIdx: index("transcript_cues_search_idx").using("gin", transcriptCueSearchVector(table)),
+}));
+
 // Password reset tokens table
 export const passwordResetTokens = pgTable("password_reset_tokens", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -247,6 +530,12 @@ export const mediaAssets = pgTable("media_assets", {
   checksum: text("checksum"),
   visibility: text("visibility").notNull().default("public"),
   status: contentStatusEnum("status").notNull().default("APPROVED"),
+  // Audio only: duration measured with ffprobe
+  durationSeconds: integer("duration_seconds"),
+  // Set on transcoded audio, pointing at the master it was made from
+  sourceAssetId: varchar("source_asset_id", { length: 36 }).references((): AnyPgColumn => mediaAssets.id),
+  // Set on files built from other content (audiobook exports, bookmark clips): hash of the inputs, to tell when it's stale
+  sourceFingerprint: text("source_fingerprint"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -279,7 +568,7 @@ export const paypalConfig = pgTable("paypal_config", {
 });
 
 // Invoice type enum
-export const invoiceTypeEnum = pgEnum("invoice_type", ["PURCHASE", "SUBSCRIPTION"]);
+export const invoiceTypeEnum = pgEnum("invoice_type", ["PURCHASE", "SUBSCRIPTION", "CREDIT_NOTE"]);
 
 // Invoice status enum
 export const invoiceStatusEnum = pgEnum("invoice_status", ["DRAFT", "ISSUED", "PAID", "CANCELLED"]);
@@ -323,6 +612,14 @@ export const invoices = pgTable("invoices", {
   paymentMethod: text("payment_method").notNull().default("paypal"),
   pdfPath: text("pdf_path"),
   pdfStatus: text("pdf_status").notNull().default("PENDING"),
+  // Tax rule applied when the invoice was issued; taxRate above is the legacy whole-percent value
+  taxRuleId: varchar("tax_rule_id", { length: 36 }).references(() => taxRules.id),
+  taxName: text("tax_name"),
+  taxRateBasisPoints: integer("tax_rate_basis_points"),
+  taxLegalMention: text("tax_legal_mention"),
+  // Credit notes (facturas rectificativas) only: the invoice being corrected and why
+  correctedInvoiceId: varchar("corrected_invoice_id", { length: 36 }).references((): AnyPgColumn => invoices.id),
+  correctionReason: text("correction_reason"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -334,10 +631,48 @@ export const invoiceLineItems = pgTable("invoice_line_items", {
   quantity: integer("quantity").notNull().default(1),
   unitPriceCents: integer("unit_price_cents").notNull(),
   taxRate: integer("tax_rate").notNull().default(0),
+  taxRateBasisPoints: integer("tax_rate_basis_points"),
   totalCents: integer("total_cents").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Refund status enum
+export const refundStatusEnum = pgEnum("refund_status", ["PENDING", "COMPLETED", "FAILED"]);
+
+// Purchase refunds table - full or partial refunds of a purchase, with the credit note issued for each
+export const purchaseRefunds = pgTable("purchase_refunds", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  purchaseId: varchar("purchase_id", { length: 36 }).notNull().references(() => audiobookPurchases.id),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  amountCents: integer("amount_cents").notNull(),
+  currency: text("currency").notNull().default("EUR"),
+  reason: text("reason"),
+  status: refundStatusEnum("status").notNull().default("PENDING"),
+  paypalRefundId: text("paypal_refund_id").unique(),
+  creditNoteId: varchar("credit_note_id", { length: 36 }).references(() => invoices.id),
+  // Null when the refund was started from the PayPal dashboard and reported by webhook
+  refundedBy: varchar("refunded_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Tax customer type enum: ANY, B2C (consumers) or B2B (buyers with a valid VAT ID)
+export const taxCustomerTypeEnum = pgEnum("tax_customer_type", ["ANY", "B2C", "B2B"]);
+
+// Tax rules table - admin-managed tax rates per country, region and customer type
+export const taxRules = pgTable("tax_rules", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  country: text("country").notNull(), // ISO 3166-1 alpha-2, "EU" for any EU member state or "*" for any country
+  region: text("region"), // ISO 3166-2 subdivision, e.g. "ES-CN" for the Canary Islands
+  customerType: taxCustomerTypeEnum("customer_type").notNull().default("ANY"),
+  taxName: text("tax_name").notNull().default("IVA"),
+  rateBasisPoints: integer("rate_basis_points").notNull(), // 2100 = 21%
+  legalMention: text("legal_mention"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Discount codes table
 export const discountCodeTypeEnum = pgEnum("discount_code_type", ["PERCENTAGE", "FIXED_AMOUNT"]);
 
@@ -407,6 +742,11 @@ export const cartItems = pgTable("cart_items", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
   audiobookId: varchar("audiobook_id", { length: 36 }).notNull().references(() => audiobooks.id),
+  // Set when the item was added as part of a series bundle
+  seriesId: varchar("series_id", { length: 36 }).references(() => series.id),
+  // Set when the item is bought as a gift for someone else
+  giftRecipientEmail: text("gift_recipient_email"),
+  giftMessage: text("gift_message"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   userAudiobookUnique: {
@@ -415,6 +755,151 @@ export const cartItems = pgTable("cart_items", {
   }
 }));
 
+// Invitation status enum: an invitation is accepted once, and stops granting access when revoked or expired
+export const invitationStatusEnum = pgEnum("invitation_status", ["PENDING", "ACCEPTED", "REVOKED", "EXPIRED"]);
+
+// Content invitations table - gives an email access to a PRIVATE or UNLISTED audiobook or chapter
+export const contentInvitations = pgTable("content_invitations", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  // Exactly one of audiobookId or chapterId is set
+  audiobookId: varchar("audiobook_id", { length: 36 }).references(() => audiobooks.id),
+  chapterId: varchar("chapter_id", { length: 36 }).references(() => chapters.id),
+  token: text("token").notNull().unique(),
+  status: invitationStatusEnum("status").notNull().default("PENDING"),
+  invitedBy: varchar("invited_by", { length: 36 }).notNull().references(() => users.id),
+  acceptedBy: varchar("accepted_by", { length: 36 }).references(() => users.id),
+  // Access ends here; without it the invitation lasts until revoked
+  expiresAt: timestamp("expires_at"),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  acceptedByIdx: index("content_invitations_accepted_by_idx").on(table.acceptedBy),
+}));
+
+// Household members table - people an owner shares their purchases (and family plan subscription) with
+export const householdMembers = pgTable("household_members", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id", { length: 36 }).notNull().references(() => users.id),
+  email: text("email").notNull(),
+  token: text("token").notNull().unique(),
+  status: invitationStatusEnum("status").notNull().default("PENDING"),
+  // Set on acceptance; a user belongs to at most one household at a time
+  userId: varchar("user_id", { length: 36 }).references(() => users.id),
+  // Deadline to accept the invitation; membership itself lasts until removed
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  ownerIdx: index("household_members_owner_idx").on(table.ownerId),
+  userIdx: index("household_members_user_idx").on(table.userId),
+}));
+
+// Royalty rates table - creator share of net revenue, set for a whole publisher or for one audiobook
+// An audiobook's own rate wins over its publisher's; without either the default rate applies
+export const royaltyRates = pgTable("royalty_rates", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  publisherId: varchar("publisher_id", { length: 36 }).references(() => users.id),
+  audiobookId: varchar("audiobook_id", { length: 36 }).references(() => audiobooks.id),
+  rateBasisPoints: integer("rate_basis_points").notNull(), // 7000 = 70%
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  publisherUnique: unique("royalty_rates_publisher_unique").on(table.publisherId),
+  audiobookUnique: unique("royalty_rates_audiobook_unique").on(table.audiobookId),
+}));
+
+// Payout status enum
+export const payoutStatusEnum = pgEnum("payout_status", ["PENDING", "PAID"]);
+
+// Payout statements table - what a publisher is owed for a month, one statement per currency
+export const payoutStatements = pgTable("payout_statements", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  publisherId: varchar("publisher_id", { length: 36 }).notNull().references(() => users.id),
+  period: text("period").notNull(), // YYYY-MM
+  currency: text("currency").notNull().default("EUR"),
+  totalCents: integer("total_cents").notNull(),
+  status: payoutStatusEnum("status").notNull().default("PENDING"),
+  pdfPath: text("pdf_path"),
+  paidAt: timestamp("paid_at"),
+  paidBy: varchar("paid_by", { length: 36 }).references(() => users.id),
+  paymentReference: text("payment_reference"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  publisherPeriodUnique: unique("payout_statements_publisher_period_unique").on(table.publisherId, table.period, table.currency),
+}));
+
+// Catalog listening table - seconds subscribers listened to an audiobook through their subscription, per month
+// Filled as progress is saved; the subscription pool is split by these totals
+export const catalogListening = pgTable("catalog_listening", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  audiobookId: varchar("audiobook_id", { length: 36 }).notNull().references(() => audiobooks.id),
+  period: text("period").notNull(), // YYYY-MM the listening happened in
+  seconds: integer("seconds").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  audiobookPeriodUnique: unique("catalog_listening_audiobook_period_unique").on(table.audiobookId, table.period),
+}));
+
+// Earning type enum: a completed sale, its refund (negative) or a monthly share of the subscription pool
+export const earningTypeEnum = pgEnum("earning_type", ["SALE", "REFUND", "SUBSCRIPTION_POOL"]);
+
+// Creator earnings table - royalty ledger; rows are never edited, refunds add negative rows
+export const creatorEarnings = pgTable("creator_earnings", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  publisherId: varchar("publisher_id", { length: 36 }).notNull().references(() => users.id),
+  audiobookId: varchar("audiobook_id", { length: 36 }).notNull().references(() => audiobooks.id),
+  type: earningTypeEnum("type").notNull(),
+  period: text("period").notNull(), // YYYY-MM the earning is reported in
+  // Sale rows only; refund rows point at the refund instead
+  purchaseId: varchar("purchase_id", { length: 36 }).unique().references(() => audiobookPurchases.id),
+  refundId: varchar("refund_id", { length: 36 }).unique().references(() => purchaseRefunds.id),
+  // What the share is taken from: the amount paid or refunded without tax, or the audiobook's slice of the pool
+  netRevenueCents: integer("net_revenue_cents").notNull(),
+  rateBasisPoints: integer("rate_basis_points").notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  currency: text("currency").notNull().default("EUR"),
+  listeningMinutes: integer("listening_minutes"), // subscription pool rows only
+  // Set once the earning is included in a payout statement
+  statementId: varchar("statement_id", { length: 36 }).references(() => payoutStatements.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  publisherPeriodIdx: index("creator_earnings_publisher_period_idx").on(table.publisherId, table.period),
+  statementIdx: index("creator_earnings_statement_idx").on(table.statementId),
+  poolUnique: uniqueIndex("creator_earnings_pool_unique")
+    .on(table.period, table.audiobookId, table.currency)
+    .where(sql`${table.type} = 'SUBSCRIPTION_POOL'`),
+}));
+
+// Job status enum: lifecycle of a background job
+export const jobStatusEnum = pgEnum("job_status", ["QUEUED", "RUNNING", "COMPLETED", "FAILED", "CANCELLED"]);
+
+// Background jobs table - work run by the in-process worker (imports, invoice PDFs, emails)
+export const backgroundJobs = pgTable("background_jobs", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  status: jobStatusEnum("status").notNull().default("QUEUED"),
+  payload: text("payload").notNull(), // JSON handed to the job handler
+  result: text("result"), // JSON returned by the job handler
+  error: text("error"),
+  progress: integer("progress").notNull().default(0), // 0-100
+  progressMessage: text("progress_message"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  // Earliest time the job may run; pushed back on every failed attempt
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  // Set while a worker holds the job and refreshed as it reports progress
+  lockedAt: timestamp("locked_at"),
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  statusRunAtIdx: index("background_jobs_status_run_at_idx").on(table.status, table.runAt),
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   audiobooks: many(audiobooks),
@@ -424,11 +909,19 @@ export const usersRelations = relations(users, ({ many }) => ({
   listeningProgress: many(listeningProgress),
 }));
 
+export const seriesRelations = relations(series, ({ many }) => ({
+  audiobooks: many(audiobooks),
+}));
+
 export const audiobooksRelations = relations(audiobooks, ({ one, many }) => ({
   publisher: one(users, {
     fields: [audiobooks.publisherId],
     references: [users.id],
   }),
+  series: one(series, {
+    fields: [audiobooks.seriesId],
+    references: [series.id],
+  }),
   chapters: many(chapters),
   purchases: many(audiobookPurchases),
   favorites: many(favorites),
@@ -452,7 +945,7 @@ export const favoritesRelations = relations(favorites, ({ one }) => ({
   }),
 }));
 
-export const audiobookPurchasesRelations = relations(audiobookPurchases, ({ one }) => ({
+export const audiobookPurchasesRelations = relations(audiobookPurchases, ({ one, many }) => ({
   user: one(users, {
     fields: [audiobookPurchases.userId],
     references: [users.id],
@@ -461,6 +954,18 @@ export const audiobookPurchasesRelations = relations(audiobookPurchases, ({ one
     fields: [audiobookPurchases.audiobookId],
     references: [audiobooks.id],
   }),
+  refunds: many(purchaseRefunds),
+}));
+
+export const purchaseRefundsRelations = relations(purchaseRefunds, ({ one }) => ({
+  purchase: one(audiobookPurchases, {
+    fields: [purchaseRefunds.purchaseId],
+    references: [audiobookPurchases.id],
+  }),
+  creditNote: one(invoices, {
+    fields: [purchaseRefunds.creditNoteId],
+    references: [invoices.id],
+  }),
 }));
 
 export const userSubscriptionsRelations = relations(userSubscriptions, ({ one }) => ({
@@ -534,7 +1039,7 @@ export const insertUserSchema = createInsertSchema(users)
   });
 
 export const insertAudiobookSchema = createInsertSchema(audiobooks)
-  .omit({ id: true, createdAt: true, coverArtUrl: true, publisherId: true, status: true, approvedAt: true, approvedBy: true, stripeProductId: true, stripePriceId: true, totalDuration: true, publishedAt: true, sampleChapterId: true, coverArtAssetId: true })
+  .omit({ id: true, createdAt: true, coverArtUrl: true, publisherId: true, status: true, approvedAt: true, approvedBy: true, stripeProductId: true, stripePriceId: true, totalDuration: true, publishedAt: true, sampleChapterId: true, coverArtAssetId: true, seriesName: true, ratingAverage: true, ratingCount: true })
   .extend({
     coverArtUrl: z.union([z.string().url(), z.string().startsWith("/"), z.literal(""), z.null()]).optional(),
     narrator: z.string().optional().nullable(),
@@ -543,12 +1048,23 @@ export const insertAudiobookSchema = createInsertSchema(audiobooks)
     priceCents: z.number().int().min(0).default(0),
     currency: z.string().default("EUR"),
     isFree: z.boolean().default(false),
+    watermarkExports: z.boolean().default(false),
     visibility: z.enum(["PRIVATE", "UNLISTED", "PUBLIC"]).default("PUBLIC"),
     totalDuration: z.number().int().min(0).default(0),
-    seriesName: z.string().optional().nullable(),
+    seriesId: z.string().optional().nullable(),
     seriesIndex: z.number().int().min(1).optional().nullable(),
   });
 
+export const insertSeriesSchema = createInsertSchema(series)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    name: z.string().trim().min(1, "Name is required"),
+    description: z.string().optional().nullable(),
+    coverArtUrl: z.union([z.string().url(), z.string().startsWith("/"), z.literal(""), z.null()]).optional(),
+    bundlePriceCents: z.number().int().min(1).optional().nullable(),
+    currency: z.string().default("EUR"),
+  });
+
 export const insertChapterSchema = createInsertSchema(chapters)
   .omit({ id: true, audioFileSize: true, coverArtUrl: true, coverArtAssetId: true, audioUrl: true, audioAssetId: true, status: true, approvedAt: true, approvedBy: true, createdAt: true })
   .extend({
@@ -615,6 +1131,8 @@ export const insertSubscriptionPlanSchema = createInsertSchema(subscriptionPlans
     priceCents: z.number().int().min(0),
     currency: z.string().default("EUR"),
     intervalMonths: z.number().int().min(1).default(1),
+    maxHouseholdMembers: z.number().int().min(0).max(10).default(0),
+    gracePeriodDays: z.number().int().min(0).max(30).default(7),
     isActive: z.boolean().default(true),
   });
 
@@ -629,11 +1147,33 @@ export const loginSchema = z.object({
 
 export const registerSchema = insertUserSchema;
 
+// Second login step and step-up re-authentication: a 6-digit TOTP code or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Code is required").max(20),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const unlockAccountSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+// The two-factor code is only checked when the account has it enabled
+export const requestAccountDeletionSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: z.string().trim().max(20).optional(),
+  reason: z.string().trim().max(1000).optional(),
+});
+
 // TypeScript types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Audiobook = typeof audiobooks.$inferSelect;
 export type InsertAudiobook = z.infer<typeof insertAudiobookSchema>;
+export type Series = typeof series.$inferSelect;
+export type InsertSeries = z.infer<typeof insertSeriesSchema>;
 export type Chapter = typeof chapters.$inferSelect;
 export type InsertChapter = z.infer<typeof insertChapterSchema>;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
@@ -658,6 +1198,91 @@ export type ListeningProgress = typeof listeningProgress.$inferSelect;
 export type StripeConfig = typeof stripeConfig.$inferSelect;
 export type PaypalConfig = typeof paypalConfig.$inferSelect;
 
+// Account security types
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+export type SecurityEventWithActor = SecurityEvent & { actorName: string | null };
+export type AccountLockout = typeof accountLockouts.$inferSelect;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type SessionRecord = typeof sessions.$inferSelect;
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+export type InsertAdminAuditEntry = Omit<AdminAuditEntry, "id" | "createdAt">;
+// GET /api/admin/audit-log
+export type AdminAuditLogPage = {
+  entries: AdminAuditEntry[];
+  total: number;
+  // For the filter dropdowns
+  actions: string[];
+  targetTypes: string[];
+  actors: { id: string | null; email: string }[];
+};
+// GET /api/profile/sessions
+export type UserSessionInfo = {
+  // Hash of the session id; the id itself never leaves the server
+  id: string;
+  current: boolean;
+  browser: string;
+  os: string;
+  deviceType: "desktop" | "mobile" | "tablet";
+  ipAddress: string | null;
+  signedInAt: Date | null;
+  lastActiveAt: Date;
+};
+// GET /api/admin/users
+export type AdminUserListItem = Omit<User, "passwordHash"> & {
+  twoFactorEnabled: boolean;
+  lockedUntil: Date | null;
+  failedLoginCount: number;
+};
+// GET /api/auth/2fa
+export type TwoFactorStatus = {
+  enabled: boolean;
+  // Admins can't turn it off
+  required: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+};
+// POST /api/auth/2fa/setup
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+};
+
+// Personal data types
+export type AccountDeletionRequest = typeof accountDeletionRequests.$inferSelect;
+export type RequestAccountDeletion = z.infer<typeof requestAccountDeletionSchema>;
+// GET /api/admin/account-deletions
+export type AccountDeletionRequestWithUser = AccountDeletionRequest & { username: string; email: string };
+// Result of a "data-export" job; the ZIP is downloaded from /api/profile/data-export/:jobId/download
+export type DataExportResult = {
+  fileName: string;
+  sizeBytes: number;
+  expiresAt: string;
+};
+// Everything held about a user, as written to the "download my data" ZIP
+export type UserDataExport = {
+  profile: Omit<User, "passwordHash" | "emailVerificationToken" | "emailVerificationTokenExpiresAt">;
+  billingProfile: BillingProfile | null;
+  purchases: (AudiobookPurchase & { audiobookTitle: string })[];
+  invoices: (Invoice & { lineItems: InvoiceLineItem[] })[];
+  subscriptions: UserSubscription[];
+  subscriptionEvents: SubscriptionEvent[];
+  listeningProgress: (ListeningProgress & { audiobookTitle: string; chapterTitle: string })[];
+  favorites: (Favorite & { audiobookTitle: string })[];
+  playlists: (Playlist & { chapters: PlaylistChapter[] })[];
+  rssFeedTokens: RssFeedToken[];
+  reviews: Review[];
+  bookmarks: Bookmark[];
+  householdMembers: HouseholdMember[];
+  securityEvents: SecurityEvent[];
+};
+// GET /api/profile/privacy
+export type PrivacyStatus = {
+  // Latest "download my data" job, if any
+  dataExport: BackgroundJobResponse | null;
+  pendingDeletion: AccountDeletionRequest | null;
+};
+
 // Billing profile types
 export const insertBillingProfileSchema = createInsertSchema(billingProfiles).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertBillingProfile = z.infer<typeof insertBillingProfileSchema>;
@@ -673,6 +1298,27 @@ export const insertInvoiceLineItemSchema = createInsertSchema(invoiceLineItems).
 export type InsertInvoiceLineItem = z.infer<typeof insertInvoiceLineItemSchema>;
 export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
 
+// Purchase refund types
+export const insertPurchaseRefundSchema = createInsertSchema(purchaseRefunds).omit({ id: true, createdAt: true });
+export type InsertPurchaseRefund = z.infer<typeof insertPurchaseRefundSchema>;
+export type PurchaseRefund = typeof purchaseRefunds.$inferSelect;
+
+// Admin refund request; amountCents defaults to everything not yet refunded
+export const refundPurchaseSchema = z.object({
+  amountCents: z.number().int().min(1).optional(),
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+export type RefundPurchaseRequest = z.infer<typeof refundPurchaseSchema>;
+
+// Tax rule types
+export const insertTaxRuleSchema = createInsertSchema(taxRules, {
+  country: z.string().trim().toUpperCase().regex(/^([A-Z]{2}|\*)$/, "Use an ISO country code, EU or *"),
+  region: z.string().trim().toUpperCase().nullable().optional(),
+  rateBasisPoints: z.number().int().min(0).max(10000),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertTaxRule = z.infer<typeof insertTaxRuleSchema>;
+export type TaxRule = typeof taxRules.$inferSelect;
+
 // Discount code types
 export const insertDiscountCodeSchema = createInsertSchema(discountCodes).omit({ id: true, createdAt: true, updatedAt: true, usedCount: true });
 export type InsertDiscountCode = z.infer<typeof insertDiscountCodeSchema>;
@@ -688,13 +1334,374 @@ export const insertRssFeedTokenSchema = createInsertSchema(rssFeedTokens).omit({
 export type InsertRssFeedToken = z.infer<typeof insertRssFeedTokenSchema>;
 export type RssFeedToken = typeof rssFeedTokens.$inferSelect;
 
+// Content invitation types
+export const insertContentInvitationSchema = createInsertSchema(contentInvitations).omit({ id: true, createdAt: true, status: true, acceptedBy: true, acceptedAt: true, revokedAt: true });
+export type InsertContentInvitation = z.infer<typeof insertContentInvitationSchema>;
+export type ContentInvitation = typeof contentInvitations.$inferSelect;
+export const createContentInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  expiresAt: z.string().datetime().optional(),
+});
+// What the acceptance page shows; the token itself is never echoed back
+export type InvitationDetails = {
+  email: string;
+  status: ContentInvitation["status"];
+  expiresAt: Date | null;
+  inviterName: string;
+  audiobook: Pick<Audiobook, "id" | "title" | "author" | "coverArtUrl">;
+  chapter: Pick<Chapter, "id" | "title"> | null;
+};
+
+// Subscription lifecycle types
+export const insertSubscriptionEventSchema = createInsertSchema(subscriptionEvents).omit({ id: true, createdAt: true });
+export type InsertSubscriptionEvent = z.infer<typeof insertSubscriptionEventSchema>;
+export type SubscriptionEvent = typeof subscriptionEvents.$inferSelect;
+export type SubscriptionEventWithDetails = SubscriptionEvent & {
+  username: string;
+  fromPlanName: string | null;
+  toPlanName: string | null;
+};
+export const changeSubscriptionPlanSchema = z.object({
+  planId: z.string().min(1),
+});
+// Upgrades start now and charge the rest of the period; downgrades wait for the renewal
+export type PlanChangeQuote = {
+  fromPlanId: string;
+  toPlanId: string;
+  effective: "IMMEDIATE" | "PERIOD_END";
+  effectiveAt: Date;
+  prorationCents: number;
+  currency: string;
+};
+// GET /api/user/subscription
+export type UserSubscriptionOverview = {
+  subscription: UserSubscription | null;
+  plan: SubscriptionPlan | null;
+  pendingPlan: SubscriptionPlan | null;
+  scheduledPlan: SubscriptionPlan | null;
+  // When a PAST_DUE subscription loses access
+  graceEndsAt: Date | null;
+};
+
+// Household types
+export const insertHouseholdMemberSchema = createInsertSchema(householdMembers).omit({ id: true, createdAt: true, status: true, userId: true, acceptedAt: true, revokedAt: true });
+export type InsertHouseholdMember = z.infer<typeof insertHouseholdMemberSchema>;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type HouseholdMemberWithUser = HouseholdMember & { username: string | null };
+export const inviteHouseholdMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+});
+// How many members the owner can have, and how many of them also get the subscription
+export type HouseholdAllowance = {
+  maxMembers: number;
+  subscriptionMembers: number;
+};
+// GET /api/household: the user's own household, and the one they belong to
+export type HouseholdOverview = HouseholdAllowance & {
+  members: Omit<HouseholdMemberWithUser, "token">[];
+  membership: {
+    id: string;
+    ownerName: string;
+    acceptedAt: Date | null;
+    // False when the owner's plan no longer covers this member
+    isSharing: boolean;
+    sharesSubscription: boolean;
+  } | null;
+};
+// What the acceptance page shows
+export type HouseholdInvitationDetails = {
+  email: string;
+  status: HouseholdMember["status"];
+  expiresAt: Date;
+  ownerName: string;
+  sharesSubscription: boolean;
+};
+
+// Creator revenue types
+export const insertRoyaltyRateSchema = createInsertSchema(royaltyRates, {
+  rateBasisPoints: z.number().int().min(0).max(10000),
+}).omit({ id: true, createdAt: true, updatedAt: true })
+  .refine(rate => !!rate.publisherId !== !!rate.audiobookId, "Set either a publisher or an audiobook");
+export type InsertRoyaltyRate = z.infer<typeof insertRoyaltyRateSchema>;
+export type RoyaltyRate = typeof royaltyRates.$inferSelect;
+export type RoyaltyRateWithTarget = RoyaltyRate & { publisherName: string | null; audiobookTitle: string | null };
+export const updateRoyaltyRateSchema = z.object({
+  rateBasisPoints: z.number().int().min(0).max(10000),
+});
+export const insertCreatorEarningSchema = createInsertSchema(creatorEarnings).omit({ id: true, createdAt: true, statementId: true });
+export type InsertCreatorEarning = z.infer<typeof insertCreatorEarningSchema>;
+export type CreatorEarning = typeof creatorEarnings.$inferSelect;
+export type CreatorEarningWithAudiobook = CreatorEarning & { audiobookTitle: string };
+export type PayoutStatement = typeof payoutStatements.$inferSelect;
+export type PayoutStatementWithPublisher = PayoutStatement & { publisherName: string; publisherEmail: string };
+export const payoutPeriodSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Use the YYYY-MM format");
+export const closePayoutPeriodSchema = z.object({
+  period: payoutPeriodSchema,
+});
+export const markPayoutPaidSchema = z.object({
+  paymentReference: z.string().trim().max(200).optional(),
+});
+export type CreatorEarningsMonth = {
+  period: string;
+  currency: string;
+  salesCents: number;
+  refundsCents: number;
+  subscriptionCents: number;
+  totalCents: number;
+};
+export type CreatorAudiobookEarnings = {
+  audiobookId: string;
+  title: string;
+  rateBasisPoints: number;
+  currency: string;
+  salesCount: number;
+  listeningMinutes: number;
+  totalCents: number;
+};
+// GET /api/creator/earnings
+export type CreatorEarningsOverview = {
+  // Earned but not yet paid out, per currency
+  unpaid: Array<{ currency: string; amountCents: number }>;
+  months: CreatorEarningsMonth[];
+  audiobooks: CreatorAudiobookEarnings[];
+  statements: PayoutStatement[];
+};
+
+// Review types
+const starRating = z.number().int().min(1).max(5);
+export const insertReviewSchema = createInsertSchema(reviews).omit({ id: true, createdAt: true, updatedAt: true, moderatedAt: true, moderatedBy: true });
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type Review = typeof reviews.$inferSelect;
+
+// Body of POST /api/audiobooks/:id/reviews and PATCH /api/reviews/:id
+export const reviewInputSchema = z.object({
+  rating: starRating,
+  storyRating: starRating.nullable().optional(),
+  narrationRating: starRating.nullable().optional(),
+  body: z.string().trim().max(5000).nullable().optional().transform(value => value || null),
+});
+export type ReviewInput = z.infer<typeof reviewInputSchema>;
+
+export const reviewModerationSchema = z.object({
+  status: z.enum(["APPROVED", "REJECTED"]),
+});
+
+export type ReviewWithUser = Review & { user: Pick<User, "id" | "username"> };
+export type ReviewWithAudiobook = ReviewWithUser & { audiobook: Pick<Audiobook, "id" | "title"> };
+
+export interface ReviewSummary {
+  ratingAverage: number;
+  ratingCount: number;
+  // Averages over the reviews that rated each aspect, null if none did
+  storyAverage: number | null;
+  narrationAverage: number | null;
+  // Number of reviews per star, index 0 is one star
+  distribution: number[];
+}
+
+// Response of GET /api/audiobooks/:id/reviews; myReview is the caller's, whatever its status
+export interface AudiobookReviews {
+  summary: ReviewSummary;
+  reviews: ReviewWithUser[];
+  myReview: Review | null;
+}
+
+// Bookmark types
+// Longest range that can be shared as a clip
+export const BOOKMARK_CLIP_MAX_SECONDS = 60;
+// Shared clips a user can have in one chapter at a time
+export const BOOKMARK_CLIP_MAX_SHARED_PER_CHAPTER = 5;
+
+export const insertBookmarkSchema = createInsertSchema(bookmarks).omit({ id: true, createdAt: true, shareToken: true, clipAssetId: true });
+export type InsertBookmark = z.infer<typeof insertBookmarkSchema>;
+export type Bookmark = typeof bookmarks.$inferSelect;
+
+// Body of POST /api/chapters/:id/bookmarks; PATCH /api/bookmarks/:id takes any subset
+const bookmarkFields = z.object({
+  positionSeconds: z.number().int().min(0),
+  endPositionSeconds: z.number().int().min(0).nullable().optional(),
+  note: z.string().trim().max(2000).nullable().optional().transform(value => value || null),
+});
+export const bookmarkInputSchema = bookmarkFields.refine(
+  bookmark => bookmark.endPositionSeconds == null || bookmark.endPositionSeconds > bookmark.positionSeconds,
+  { message: "The end position must be after the start", path: ["endPositionSeconds"] }
+);
+// Checked against the stored bookmark with bookmarkInputSchema once merged
+export const bookmarkUpdateSchema = bookmarkFields.partial();
+export type BookmarkInput = z.infer<typeof bookmarkInputSchema>;
+
+export type BookmarkWithChapter = Bookmark & { chapter: Pick<Chapter, "id" | "title" | "chapterNumber"> };
+
+// Share details of a clip, returned when sharing is turned on
+export interface BookmarkClipShare {
+  shareToken: string;
+  // Page that plays the clip, also usable in an iframe
+  embedUrl: string;
+  embedCode: string;
+}
+
+// Transcript types
+export type TranscriptFormat = typeof transcriptFormatEnum.enumValues[number];
+
+export const insertChapterTranscriptSchema = createInsertSchema(chapterTranscripts).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertChapterTranscript = z.infer<typeof insertChapterTranscriptSchema>;
+export type ChapterTranscript = typeof chapterTranscripts.$inferSelect;
+export type TranscriptCue = typeof transcriptCues.$inferSelect;
+// A cue as parsed from a file and as the players get it
+export type TranscriptCueData = Pick<TranscriptCue, "startMs" | "endMs" | "text">;
+
+export type ChapterTranscriptWithCues = ChapterTranscript & { cues: TranscriptCueData[] };
+
+// Pasted text for PUT /api/admin/chapters/:id/transcript; an uploaded file takes the place of content
+export const transcriptUploadSchema = z.object({
+  content: z.string().max(5_000_000).optional(),
+  language: z.string().trim().min(2).max(10).default("es"),
+  // Detected from the file name or the content when missing
+  format: z.enum(transcriptFormatEnum.enumValues).optional(),
+});
+
+export const transcriptSearchSchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  // Search one audiobook, including unlisted ones the caller can see, instead of the public catalog
+  audiobookId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+export type TranscriptSearchParams = z.infer<typeof transcriptSearchSchema>;
+
+export interface TranscriptSearchHit {
+  chapterId: string;
+  chapterTitle: string;
+  chapterNumber: number;
+  audiobookId: string;
+  audiobookTitle: string;
+  // Null for plain text transcripts, which play from the start of the chapter
+  startMs: number | null;
+  // Null for chapters the caller can't listen to: the hit shows where, not what
+  text: string | null;
+}
+
 // Cart item types
 export const insertCartItemSchema = createInsertSchema(cartItems).omit({ id: true, createdAt: true });
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 export type CartItem = typeof cartItems.$inferSelect;
-export type CartItemWithAudiobook = CartItem & { audiobook: Audiobook };
+// priceCents is what the item costs in this cart: its share of the bundle price when bundled, otherwise the list price
+export type CartItemWithAudiobook = CartItem & { audiobook: Audiobook; priceCents: number; bundleApplied: boolean };
+
+// Gift types
+export const cartGiftSchema = z.object({
+  recipientEmail: z.string().trim().toLowerCase().email("Invalid email"),
+  message: z.string().trim().max(500).optional(),
+});
+export type CartGiftRequest = z.infer<typeof cartGiftSchema>;
+// What the redeem page shows; the token itself is never echoed back
+export type GiftDetails = {
+  audiobook: Audiobook;
+  senderName: string;
+  // Null once the sender or the recipient deleted their account
+  recipientEmail: string | null;
+  message: string | null;
+  redeemedAt: Date | null;
+};
+
+// Listening progress sync types
+export const progressUpdateSchema = z.object({
+  chapterId: z.string().min(1),
+  positionSeconds: z.number().int().min(0),
+  completed: z.boolean().optional(),
+  // Client-side time the position was recorded, used for last-write-wins
+  updatedAt: z.coerce.date().optional(),
+});
+export type ProgressUpdate = z.infer<typeof progressUpdateSchema>;
+export type ContinueListeningItem = ListeningProgress & { audiobook: Audiobook; chapter: Chapter };
+
+// Background job types
+export const jobTypeValues = ["import-zip", "import-youtube", "import-rss", "invoice-pdf", "payout-statement-pdf", "email", "audio-transcode", "audiobook-export", "data-export", "bookmark-clip"] as const;
+export type JobType = typeof jobTypeValues[number];
+export const insertBackgroundJobSchema = createInsertSchema(backgroundJobs).omit({ id: true, createdAt: true });
+export type InsertBackgroundJob = z.infer<typeof insertBackgroundJobSchema>;
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+// What the API returns: the payload may hold file paths or email bodies and stays server-side
+export type BackgroundJobResponse = Omit<BackgroundJob, "payload" | "result"> & { result: unknown };
+
+// Offline downloads: the mobile app re-checks the chapters it keeps on the device
+export const offlineLicenseRequestSchema = z.object({
+  chapterIds: z.array(z.string().min(1)).min(1).max(500),
+});
+export type OfflineLicenseRequest = z.infer<typeof offlineLicenseRequestSchema>;
+// expiresAt is set when access comes only from a subscription: the download must
+// be evicted once the paid period ends, even if the device never comes back online
+export type OfflineLicense = {
+  chapterId: string;
+  audiobookId: string | null;
+  hasAccess: boolean;
+  expiresAt: Date | null;
+  // Freshly signed URL to download from, added by the API for licensed chapters
+  audioUrl?: string | null;
+};
+
+// Catalog search
+export const audiobookSearchSortValues = ["relevance", "recent", "title", "author", "series", "price_asc", "price_desc", "duration", "rating"] as const;
+export type AudiobookSearchSort = typeof audiobookSearchSortValues[number];
+
+// Query-string parameters of GET /api/audiobooks/search; prices in cents (inclusive),
+// durations in seconds (maxDuration is exclusive so the duration buckets don't overlap),
+// minRating in stars against the average of approved reviews
+export const audiobookSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  category: z.string().trim().min(1).optional(),
+  language: z.string().trim().min(1).optional(),
+  minPrice: z.coerce.number().int().min(0).optional(),
+  maxPrice: z.coerce.number().int().min(0).optional(),
+  isFree: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  minDuration: z.coerce.number().int().min(0).optional(),
+  maxDuration: z.coerce.number().int().min(0).optional(),
+  minRating: z.coerce.number().min(1).max(5).optional(),
+  sort: z.enum(audiobookSearchSortValues).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+});
+export type AudiobookSearchParams = z.infer<typeof audiobookSearchSchema>;
+
+export interface SearchFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface AudiobookSearchFacets {
+  categories: SearchFacetCount[];
+  languages: SearchFacetCount[];
+  price: { free: number; paid: number };
+  // Keys of AUDIOBOOK_DURATION_BUCKETS
+  durations: SearchFacetCount[];
+}
+
+export interface AudiobookSearchResult {
+  items: Audiobook[];
+  total: number;
+  nextCursor: string | null;
+  facets: AudiobookSearchFacets;
+}
+
+// Duration ranges offered as filters, in seconds; max is exclusive
+export const AUDIOBOOK_DURATION_BUCKETS = [
+  { key: "short", label: "Menos de 1 h", min: 0, max: 3600 },
+  { key: "medium", label: "1 - 5 h", min: 3600, max: 18000 },
+  { key: "long", label: "5 - 10 h", min: 18000, max: 36000 },
+  { key: "xlong", label: "Más de 10 h", min: 36000, max: null },
+] as const;
 
 // Extended types for API responses
+export type SeriesWithVolumeCount = Series & { volumeCount: number };
+export type SeriesVolume = Audiobook & { hasAccess: boolean; isPurchased: boolean; inCart: boolean };
+export interface SeriesBundleOffer {
+  // Bundle price for the volumes still to buy, next to what they would cost separately
+  priceCents: number;
+  listPriceCents: number;
+  currency: string;
+  audiobookIds: string[];
+  inCart: boolean;
+}
+export type SeriesDetail = Series & { volumes: SeriesVolume[]; bundle: SeriesBundleOffer | null };
 export type AudiobookWithChapters = Audiobook & { chapters: Chapter[] };
 export type AudiobookWithPublisher = Audiobook & { publisher: User };
 export type ChapterWithAudiobook = Chapter & { audiobook: Audiobook };
@@ -724,7 +1731,6 @@ export type PodcastWithSubscription = Audiobook & { isSubscribed?: boolean };
 export type EpisodeWithUrls = Chapter;
 export type EpisodeWithPodcastAndUrls = ChapterWithAudiobook;
 export type PodcastWithEpisodesAndUrls = AudiobookWithChapters;
-export type ContentInvitation = { id: string; email: string; contentType: string; contentId: string; status: string };
 
 // Legacy schema aliases
 export const insertPodcastSchema = insertAudiobookSchema;